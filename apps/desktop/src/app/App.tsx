@@ -1,6 +1,6 @@
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { localizationText } from '@tonkeeper/core/dist/entries/language';
-import { getApiConfig } from '@tonkeeper/core/dist/entries/network';
+import { getApiConfig, getNetworkProfileConfig } from '@tonkeeper/core/dist/entries/network';
 import { WalletVersion } from '@tonkeeper/core/dist/entries/wallet';
 import { useWindowsScroll } from '@tonkeeper/uikit/dist/components/Body';
 import ConnectLedgerNotification from '@tonkeeper/uikit/dist/components/ConnectLedgerNotification';
@@ -20,6 +20,7 @@ import { PreferencesAsideMenu } from '@tonkeeper/uikit/dist/components/desktop/a
 import { WalletAsideMenu } from '@tonkeeper/uikit/dist/components/desktop/aside/WalletAsideMenu';
 import { DesktopHeader } from '@tonkeeper/uikit/dist/components/desktop/header/DesktopHeader';
 import ReceiveNotification from '@tonkeeper/uikit/dist/components/home/ReceiveNotification';
+import TransactionsStreamSubscription from '@tonkeeper/uikit/dist/components/TransactionsStreamSubscription';
 import NftNotification from '@tonkeeper/uikit/dist/components/nft/NftNotification';
 import {
     AddFavoriteNotification,
@@ -35,6 +36,9 @@ import { DesktopMultiSendPage } from '@tonkeeper/uikit/dist/desktop-pages/multi-
 import { DesktopPreferencesRouting } from '@tonkeeper/uikit/dist/desktop-pages/preferences/DesktopPreferencesRouting';
 import { DesktopWalletSettingsRouting } from '@tonkeeper/uikit/dist/desktop-pages/settings/DesktopWalletSettingsRouting';
 import { DesktopSwapPage } from '@tonkeeper/uikit/dist/desktop-pages/swap';
+import { DesktopStakingPage } from '@tonkeeper/uikit/dist/desktop-pages/staking/DesktopStakingPage';
+import { DesktopMultisigPage } from '@tonkeeper/uikit/dist/desktop-pages/multisig/DesktopMultisigPage';
+import { DesktopInscriptionPage } from '@tonkeeper/uikit/dist/desktop-pages/inscription/DesktopInscriptionPage';
 import { DesktopTokens } from '@tonkeeper/uikit/dist/desktop-pages/tokens/DesktopTokens';
 import { AmplitudeAnalyticsContext, useTrackLocation } from '@tonkeeper/uikit/dist/hooks/amplitude';
 import { AppContext, IAppContext } from '@tonkeeper/uikit/dist/hooks/appContext';
@@ -83,7 +87,7 @@ import { DesktopDns } from '@tonkeeper/uikit/dist/desktop-pages/nft/DesktopDns';
 import { DesktopCollectables } from '@tonkeeper/uikit/dist/desktop-pages/nft/DesktopCollectables';
 import { useUserLanguage } from '@tonkeeper/uikit/dist/state/language';
 import { useDebuggingTools } from '@tonkeeper/uikit/dist/hooks/useDebuggingTools';
-import { useDevSettings } from '@tonkeeper/uikit/dist/state/dev';
+import { useActiveNetworkProfile, useDevSettings } from '@tonkeeper/uikit/dist/state/dev';
 import { ModalsRoot } from '@tonkeeper/uikit/dist/components/ModalsRoot';
 import { Account } from '@tonkeeper/core/dist/entries/account';
 
@@ -264,6 +268,7 @@ export const Loader: FC = () => {
     const { data: accounts, isLoading: isWalletsLoading } = useAccountsStateQuery();
     const { data: lang, isLoading: isLangLoading } = useUserLanguage();
     const { data: devSettings } = useDevSettings();
+    const networkProfile = useActiveNetworkProfile();
 
     const lock = useLock(sdk);
     const { i18n } = useTranslation();
@@ -293,6 +298,7 @@ export const Loader: FC = () => {
 
     useEffect(() => {
         window.backgroundApi.onRefresh(() => queryClient.invalidateQueries());
+        window.backgroundApi.onAppHidden(() => sdk.uiEvents.emit('appHidden'));
     }, []);
 
     if (
@@ -308,9 +314,9 @@ export const Loader: FC = () => {
     }
 
     const context: IAppContext = {
-        api: getApiConfig(config, network, REACT_APP_TONCONSOLE_API),
+        api: getApiConfig(config, network, REACT_APP_TONCONSOLE_API, networkProfile),
         fiat,
-        config,
+        config: getNetworkProfileConfig(config, networkProfile),
         tonendpoint,
         standalone: true,
         extension: false,
@@ -415,11 +421,16 @@ const WalletContent = () => {
                             <Route path={AppRoute.coins}>
                                 <Route path=":name/*" element={<DesktopCoinPage />} />
                             </Route>
+                            <Route path={AppRoute.inscriptions}>
+                                <Route path=":ticker" element={<DesktopInscriptionPage />} />
+                            </Route>
                             <Route
                                 path={any(AppRoute.walletSettings)}
                                 element={<DesktopWalletSettingsRouting />}
                             />
                             <Route path={AppRoute.swap} element={<DesktopSwapPage />} />
+                            <Route path={AppRoute.staking} element={<DesktopStakingPage />} />
+                            <Route path={AppRoute.multisig} element={<DesktopMultisigPage />} />
                             <Route path="*" element={<DesktopTokens />} />
                         </Route>
                     </Routes>
@@ -455,6 +466,7 @@ const BackgroundElements = () => {
             <SendActionNotification />
             <ReceiveNotification />
             <TonConnectSubscription />
+            <TransactionsStreamSubscription />
             <NftNotification />
             <SendNftNotification />
             <AddFavoriteNotification />
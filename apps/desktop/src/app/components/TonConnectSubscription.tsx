@@ -1,32 +1,61 @@
 import {
     useResponseSendMutation,
-    SendTransactionAppRequest
+    useResponseSignDataMutation,
+    SendTransactionAppRequest,
+    SignDataAppRequest
 } from '@tonkeeper/uikit/dist/components/connect/connectHook';
-import { TonTransactionNotification } from '@tonkeeper/uikit/dist/components/connect/TonTransactionNotification';
+import {
+    TonTransactionCloseDetails,
+    TonTransactionNotification
+} from '@tonkeeper/uikit/dist/components/connect/TonTransactionNotification';
+import { TonSignDataNotification } from '@tonkeeper/uikit/dist/components/connect/TonSignDataNotification';
+import { SignDataResponse } from '@tonkeeper/core/dist/entries/tonConnect';
 import { useSendNotificationAnalytics } from '@tonkeeper/uikit/dist/hooks/amplitude';
-import { useCallback, useEffect, useState } from 'react';
+import { useDevSettings } from '@tonkeeper/uikit/dist/state/dev';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
     tonConnectAppManuallyDisconnected$,
     useDisconnectTonConnectApp
 } from '@tonkeeper/uikit/dist/state/tonConnect';
 import { sendBackground } from '../../libs/backgroudService';
+import { TonConnectMessage } from '../../libs/message';
 
 export const TonConnectSubscription = () => {
     const [request, setRequest] = useState<SendTransactionAppRequest | undefined>(undefined);
+    const [signDataRequest, setSignDataRequest] = useState<SignDataAppRequest | undefined>(
+        undefined
+    );
 
     const { mutateAsync: responseSendAsync } = useResponseSendMutation();
+    const { mutateAsync: responseSignDataAsync } = useResponseSignDataMutation();
     const { mutate: disconnect } = useDisconnectTonConnectApp({ skipEmit: true });
 
+    const { data: devSettings } = useDevSettings();
+    const bridges = devSettings?.tonConnectBridges;
+
     useSendNotificationAnalytics(request?.connection?.manifest);
 
     useEffect(() => {
         window.backgroundApi.onTonConnectTransaction(setRequest);
     }, [setRequest]);
 
+    useEffect(() => {
+        window.backgroundApi.onTonConnectSignData(setSignDataRequest);
+    }, [setSignDataRequest]);
+
     useEffect(() => {
         window.backgroundApi.onTonConnectDisconnect(disconnect);
     }, [disconnect]);
 
+    // SSE stream of the main process reads the bridges on connect, it is reopened when the list is changed
+    const bridgesRef = useRef(bridges);
+    useEffect(() => {
+        if (bridgesRef.current !== undefined && bridges !== bridgesRef.current) {
+            sendBackground({ king: 'reconnect' } as TonConnectMessage);
+        }
+        bridgesRef.current = bridges;
+    }, [bridges]);
+
     useEffect(() => {
         return tonConnectAppManuallyDisconnected$.subscribe(value => {
             if (value) {
@@ -36,10 +65,14 @@ export const TonConnectSubscription = () => {
     }, []);
 
     const handleClose = useCallback(
-        async (boc?: string) => {
+        async (boc?: string, details?: TonTransactionCloseDetails) => {
             if (!request) return;
             try {
-                await responseSendAsync({ request, boc });
+                await responseSendAsync({
+                    request,
+                    boc,
+                    error: details?.error
+                });
             } finally {
                 setRequest(undefined);
             }
@@ -47,7 +80,38 @@ export const TonConnectSubscription = () => {
         [request, responseSendAsync, setRequest]
     );
 
+    const signDataParams = useMemo(
+        () =>
+            signDataRequest
+                ? {
+                      origin:
+                          signDataRequest.connection.webViewUrl ??
+                          signDataRequest.connection.manifest.url,
+                      payload: signDataRequest.payload
+                  }
+                : null,
+        [signDataRequest]
+    );
+
+    const handleSignDataClose = useCallback(
+        async (result?: SignDataResponse) => {
+            if (!signDataRequest) return;
+            try {
+                await responseSignDataAsync({ request: signDataRequest, result });
+            } finally {
+                setSignDataRequest(undefined);
+            }
+        },
+        [signDataRequest, responseSignDataAsync, setSignDataRequest]
+    );
+
     return (
-        <TonTransactionNotification params={request?.payload ?? null} handleClose={handleClose} />
+        <>
+            <TonTransactionNotification
+                params={request?.payload ?? null}
+                handleClose={handleClose}
+            />
+            <TonSignDataNotification params={signDataParams} handleClose={handleSignDataClose} />
+        </>
     );
 };
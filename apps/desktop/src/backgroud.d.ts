@@ -7,8 +7,10 @@ interface BackgroundApi {
     message: <Result>(message: Message) => Promise<Result>;
     onTonConnect: (callback: (url: string) => void) => void;
     onTonConnectTransaction: (callback: (value: SendTransactionAppRequest) => void) => void;
+    onTonConnectSignData: (callback: (value: SignDataAppRequest) => void) => void;
     onTonConnectDisconnect: (callback: (value: AccountConnection) => void) => void;
     onRefresh: (callback: () => void) => void;
+    onAppHidden: (callback: () => void) => void;
 }
 
 declare global {
@@ -1,8 +1,10 @@
-import { TonConnectAppRequest } from '@tonkeeper/core/dist/entries/tonConnect';
+import { TonConnectAppRequest, TonConnectBridge } from '@tonkeeper/core/dist/entries/tonConnect';
 import {
     replyBadRequestResponse,
-    replyDisconnectResponse
+    replyDisconnectResponse,
+    replySignDataBadRequestResponse
 } from '@tonkeeper/core/dist/service/tonConnect/actionService';
+import { getTonConnectBridges } from '@tonkeeper/core/dist/service/devStorage';
 import {
     AccountConnection,
     disconnectAppConnection,
@@ -12,6 +14,7 @@ import {
     getLastEventId,
     subscribeTonConnect
 } from '@tonkeeper/core/dist/service/tonConnect/httpBridge';
+import { parseSignDataRequestPayload } from '@tonkeeper/core/dist/service/tonConnect/signDataService';
 import { delay } from '@tonkeeper/core/dist/utils/common';
 import { Buffer as BufferPolyfill } from 'buffer';
 import log from 'electron-log/main';
@@ -26,6 +29,7 @@ globalThis.Buffer = BufferPolyfill;
 
 export class TonConnectSSE {
     private lastEventId: string;
+    private bridges: TonConnectBridge[];
     private connections: AccountConnection[];
     private dist: Record<string, WalletId>;
     private closeConnection: () => void | null = null;
@@ -48,10 +52,11 @@ export class TonConnectSSE {
 
     public async init() {
         this.lastEventId = await getLastEventId(mainStorage);
+        this.bridges = await getTonConnectBridges(mainStorage);
 
-        const walletsState = (await accountsStorage(mainStorage).getAccounts()).flatMap(
-            a => a.allTonWallets
-        );
+        const walletsState = (await accountsStorage(mainStorage).getAccounts())
+            .flatMap(a => a.allTonWallets)
+            .filter(isStandardTonWallet);
 
         this.connections = [];
         this.dist = {};
@@ -97,6 +102,29 @@ export class TonConnectSSE {
         MainWindow.mainWindow.webContents.send('disconnect', connection);
     };
 
+    private activateConnectionWallet = async ({ connection }: TonConnectAppRequest) => {
+        const walletId = this.dist[connection.clientSessionId];
+
+        const activeAccount = await accountsStorage(mainStorage).getActiveAccount();
+        const activeWallet = activeAccount.activeTonWallet;
+
+        const window = await MainWindow.bringToFront();
+
+        if (activeWallet.id !== walletId) {
+            const accountToActivate = (await accountsStorage(mainStorage).getAccounts()).find(
+                a => a.getTonWallet(walletId) !== undefined
+            );
+
+            accountToActivate.setActiveTonWallet(walletId);
+            await accountsStorage(mainStorage).updateAccountInState(accountToActivate);
+            await accountsStorage(mainStorage).setActiveAccountId(accountToActivate.id);
+            window.webContents.send('refresh');
+            await delay(500);
+        }
+
+        return window;
+    };
+
     private handleMessage = async (params: TonConnectAppRequest) => {
         switch (params.request.method) {
             case 'disconnect': {
@@ -109,26 +137,25 @@ export class TonConnectSSE {
                     payload: JSON.parse(params.request.params[0])
                 };
 
-                const walletId = this.dist[params.connection.clientSessionId];
-
-                const activeAccount = await accountsStorage(mainStorage).getActiveAccount();
-                const activeWallet = activeAccount.activeTonWallet;
-
-                const window = await MainWindow.bringToFront();
-
-                if (activeWallet.id !== walletId) {
-                    const accountToActivate = (
-                        await accountsStorage(mainStorage).getAccounts()
-                    ).find(a => a.getTonWallet(walletId) !== undefined);
-
-                    accountToActivate.setActiveTonWallet(walletId);
-                    await accountsStorage(mainStorage).updateAccountInState(accountToActivate);
-                    await accountsStorage(mainStorage).setActiveAccountId(accountToActivate.id);
-                    window.webContents.send('refresh');
-                    await delay(500);
+                const window = await this.activateConnectionWallet(params);
+                window.webContents.send('sendTransaction', value);
+                return;
+            }
+            case 'signData': {
+                let payload;
+                try {
+                    payload = parseSignDataRequestPayload(params.request.params[0]);
+                } catch (e) {
+                    return replySignDataBadRequestResponse(params, (e as Error).message);
                 }
+                const value = {
+                    connection: params.connection,
+                    id: params.request.id,
+                    payload
+                };
 
-                window.webContents.send('sendTransaction', value);
+                const window = await this.activateConnectionWallet(params);
+                window.webContents.send('signData', value);
                 return;
             }
             default: {
@@ -147,6 +174,7 @@ export class TonConnectSSE {
             handleMessage: this.handleMessage,
             connections: this.connections,
             lastEventId: this.lastEventId,
+            bridges: this.bridges,
             EventSourceClass: EventSourcePolyfill as any
         });
     }
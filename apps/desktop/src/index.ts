@@ -29,16 +29,24 @@ const onUnLock = () => {
     connection.reconnect();
 };
 
+const onSystemSleep = () => {
+    MainWindow.mainWindow?.webContents.send('app-hidden');
+};
+
 if (process.platform != "linux") {
     powerMonitor.on('unlock-screen', onUnLock);
+    powerMonitor.on('lock-screen', onSystemSleep);
 }
+powerMonitor.on('suspend', onSystemSleep);
 
 app.on('before-quit', async e => {
     e.preventDefault();
     connection.destroy();
     if (process.platform != "linux") {
         powerMonitor.off('unlock-screen', onUnLock);
+        powerMonitor.off('lock-screen', onSystemSleep);
     }
+    powerMonitor.off('suspend', onSystemSleep);
 
     await delay(100);
     app.exit();
@@ -1,7 +1,10 @@
 // See the Electron documentation for details on how to use preload scripts:
 // https://www.electronjs.org/docs/latest/tutorial/process-model#preload-scripts
 
-import { SendTransactionAppRequest } from '@tonkeeper/uikit/dist/components/connect/connectHook';
+import {
+    SendTransactionAppRequest,
+    SignDataAppRequest
+} from '@tonkeeper/uikit/dist/components/connect/connectHook';
 import { contextBridge, ipcRenderer } from 'electron';
 import { Message } from './libs/message';
 import { AccountConnection } from '@tonkeeper/core/dist/service/tonConnect/connectionService';
@@ -17,7 +20,10 @@ contextBridge.exposeInMainWorld('backgroundApi', {
         ipcRenderer.on('tc', (_event, value) => callback(value)),
     onTonConnectTransaction: (callback: (value: SendTransactionAppRequest) => void) =>
         ipcRenderer.on('sendTransaction', (_event, value) => callback(value)),
+    onTonConnectSignData: (callback: (value: SignDataAppRequest) => void) =>
+        ipcRenderer.on('signData', (_event, value) => callback(value)),
     onTonConnectDisconnect: (callback: (value: AccountConnection) => void) =>
         ipcRenderer.on('disconnect', (_event, value) => callback(value)),
-    onRefresh: (callback: () => void) => ipcRenderer.on('refresh', _event => callback())
+    onRefresh: (callback: () => void) => ipcRenderer.on('refresh', _event => callback()),
+    onAppHidden: (callback: () => void) => ipcRenderer.on('app-hidden', _event => callback())
 });
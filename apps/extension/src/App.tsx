@@ -1,6 +1,6 @@
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { localizationFrom } from '@tonkeeper/core/dist/entries/language';
-import { getApiConfig } from '@tonkeeper/core/dist/entries/network';
+import { getApiConfig, getNetworkProfileConfig } from '@tonkeeper/core/dist/entries/network';
 import { WalletVersion } from "@tonkeeper/core/dist/entries/wallet";
 import { InnerBody, useWindowsScroll } from '@tonkeeper/uikit/dist/components/Body';
 import { CopyNotification } from '@tonkeeper/uikit/dist/components/CopyNotification';
@@ -53,7 +53,7 @@ import { connectToBackground } from './event';
 import { ExtensionAppSdk } from './libs/appSdk';
 import { useAnalytics, useAppWidth } from './libs/hooks';
 import { useMutateUserLanguage } from "@tonkeeper/uikit/dist/state/language";
-import { useDevSettings } from "@tonkeeper/uikit/dist/state/dev";
+import { useActiveNetworkProfile, useDevSettings } from "@tonkeeper/uikit/dist/state/dev";
 import { ModalsRoot } from "@tonkeeper/uikit/dist/components/ModalsRoot";
 import { Account } from "@tonkeeper/core/dist/entries/account";
 import { useDebuggingTools } from "@tonkeeper/uikit/dist/hooks/useDebuggingTools";
@@ -65,6 +65,11 @@ const Activity = React.lazy(() => import('@tonkeeper/uikit/dist/pages/activity/A
 const Home = React.lazy(() => import('@tonkeeper/uikit/dist/pages/home/Home'));
 const Coin = React.lazy(() => import('@tonkeeper/uikit/dist/pages/coin/Coin'));
 const SwapPage = React.lazy(() => import('@tonkeeper/uikit/dist/pages/swap'));
+const Staking = React.lazy(() => import('@tonkeeper/uikit/dist/pages/staking/Staking'));
+const Multisig = React.lazy(() => import('@tonkeeper/uikit/dist/pages/multisig/Multisig'));
+const Inscription = React.lazy(
+    () => import('@tonkeeper/uikit/dist/pages/inscription/Inscription')
+);
 const QrScanner = React.lazy(() => import('@tonkeeper/uikit/dist/components/QrScanner'));
 const SendActionNotification = React.lazy(
     () => import('@tonkeeper/uikit/dist/components/transfer/SendNotifications')
@@ -72,6 +77,9 @@ const SendActionNotification = React.lazy(
 const ReceiveNotification = React.lazy(
     () => import('@tonkeeper/uikit/dist/components/home/ReceiveNotification')
 );
+const TransactionsStreamSubscription = React.lazy(
+    () => import('@tonkeeper/uikit/dist/components/TransactionsStreamSubscription')
+);
 const NftNotification = React.lazy(
     () => import('@tonkeeper/uikit/dist/components/nft/NftNotification')
 );
@@ -182,6 +190,7 @@ export const Loader: FC = React.memo(() => {
     const { data: fiat } = useUserFiat();
     const { mutate: setLang } = useMutateUserLanguage();
     const { data: devSettings } = useDevSettings();
+    const networkProfile = useActiveNetworkProfile();
     const network = useActiveTonNetwork();
 
     useEffect(() => {
@@ -208,9 +217,9 @@ export const Loader: FC = React.memo(() => {
     }
 
     const context: IAppContext = {
-        api: getApiConfig(config, network),
+        api: getApiConfig(config, network, undefined, networkProfile),
         fiat,
-        config,
+        config: getNetworkProfileConfig(config, networkProfile),
         tonendpoint,
         ios: false,
         standalone: true,
@@ -336,6 +345,32 @@ export const Content: FC<{
                         }
                     />
                 </Route>
+                <Route path={AppRoute.inscriptions}>
+                    <Route
+                        path=":ticker"
+                        element={
+                            <Suspense fallback={<CoinSkeletonPage />}>
+                                <Inscription />
+                            </Suspense>
+                        }
+                    />
+                </Route>
+                <Route
+                    path={AppRoute.staking}
+                    element={
+                        <Suspense fallback={null}>
+                            <Staking />
+                        </Suspense>
+                    }
+                />
+                <Route
+                    path={AppRoute.multisig}
+                    element={
+                        <Suspense fallback={null}>
+                            <Multisig />
+                        </Suspense>
+                    }
+                />
                 <Route
                     path={AppRoute.swap}
                     element={
@@ -352,6 +387,7 @@ export const Content: FC<{
             <Suspense>
                 <SendActionNotification />
                 <ReceiveNotification />
+                <TransactionsStreamSubscription />
                 <NftNotification />
                 <SendNftNotification />
                 <AddFavoriteNotification />
@@ -1,9 +1,10 @@
-import { ConnectItemReply } from '@tonkeeper/core/dist/entries/tonConnect';
+import { ConnectItemReply, SignDataResponse } from '@tonkeeper/core/dist/entries/tonConnect';
 import { delay } from '@tonkeeper/core/dist/utils/common';
 import { TonConnectNotification } from '@tonkeeper/uikit/dist/components/connect/TonConnectNotification';
 import { TonTransactionNotification } from '@tonkeeper/uikit/dist/components/connect/TonTransactionNotification';
+import { TonSignDataNotification } from '@tonkeeper/uikit/dist/components/connect/TonSignDataNotification';
 import { useNotificationAnalytics } from '@tonkeeper/uikit/dist/hooks/amplitude';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { askBackground, sendBackground } from '../event';
 import { NotificationData } from '../libs/event';
 
@@ -31,6 +32,14 @@ export const Notifications = () => {
 
     useNotificationAnalytics(data);
 
+    const signDataParams = useMemo(
+        () =>
+            data?.kind === 'tonConnectSignData'
+                ? { origin: data.origin, payload: data.data }
+                : null,
+        [data]
+    );
+
     useEffect(() => {
         if (window.location.hash === '#/notification') {
             reloadNotification(false);
@@ -64,6 +73,18 @@ export const Notifications = () => {
                     reloadNotification(true);
                 }}
             />
+            <TonSignDataNotification
+                params={signDataParams}
+                handleClose={(payload?: SignDataResponse) => {
+                    if (!data) return;
+                    if (payload) {
+                        sendBackground.message('approveRequest', { id: data.id, payload });
+                    } else {
+                        sendBackground.message('rejectRequest', data.id);
+                    }
+                    reloadNotification(true);
+                }}
+            />
         </>
     );
 };
@@ -1,6 +1,7 @@
 import { EventEmitter, IEventEmitter } from '@tonkeeper/core/dist/entries/eventEmitter';
 import {
     ConnectRequest,
+    SignDataRequestPayload,
     TonConnectTransactionPayload
 } from '@tonkeeper/core/dist/entries/tonConnect';
 import { ProxyConfiguration } from '../entries/proxy';
@@ -27,7 +28,8 @@ export type NotificationFields<Kind extends string, Value> = {
 
 export type NotificationData =
     | NotificationFields<'tonConnectRequest', ConnectRequest>
-    | NotificationFields<'tonConnectSend', TonConnectTransactionPayload>;
+    | NotificationFields<'tonConnectSend', TonConnectTransactionPayload>
+    | NotificationFields<'tonConnectSignData', SignDataRequestPayload>;
 
 export interface PupUpEvents {
     approveRequest: PayloadRequest;
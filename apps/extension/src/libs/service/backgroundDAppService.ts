@@ -20,6 +20,7 @@ import {
   tonConnectDisconnect,
   tonConnectReConnect,
   tonConnectRequest,
+  tonConnectSignData,
   tonConnectTransaction
 } from "./dApp/tonConnectService";
 
@@ -129,6 +130,9 @@ const handleDAppMessage = async (message: DAppMessage): Promise<unknown> => {
         message.params[1]
       );
     }
+    case 'tonConnect_signData': {
+      return tonConnectSignData(message.id, origin, message.params[0]);
+    }
     default:
       throw new TonConnectError(
         `Method "${message.method}" not implemented`,
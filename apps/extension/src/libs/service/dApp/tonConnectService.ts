@@ -2,6 +2,7 @@ import {
   CONNECT_EVENT_ERROR_CODES,
   ConnectItemReply,
   ConnectRequest,
+  SignDataResponse,
   TonConnectAccount,
   TonConnectTransactionPayload,
 } from '@tonkeeper/core/dist/entries/tonConnect';
@@ -21,6 +22,8 @@ import {
 import { waitApprove } from './utils';
 import { TonConnectError } from "@tonkeeper/core/dist/entries/exception";
 import { accountsStorage } from "@tonkeeper/core/dist/service/accountsStorage";
+import { getActiveTonNetwork } from "@tonkeeper/core/dist/service/devStorage";
+import { validateSignDataRequestPayload } from "@tonkeeper/core/dist/service/tonConnect/signDataService";
 
 const storage = new ExtensionStorage();
 
@@ -91,10 +94,8 @@ export const isDappConnectedToExtension = async (
   return !!connection;
 }
 
-export const tonConnectTransaction = async (
-  id: number,
+const activateDappConnectionWallet = async (
   origin: string,
-  data: TonConnectTransactionPayload,
   account: TonConnectAccount | undefined
 ) => {
   const connection = await getDappConnection(storage, origin, account);
@@ -117,6 +118,15 @@ export const tonConnectTransaction = async (
   }
 
   await delay(200);
+};
+
+export const tonConnectTransaction = async (
+  id: number,
+  origin: string,
+  data: TonConnectTransactionPayload,
+  account: TonConnectAccount | undefined
+) => {
+  await activateDappConnectionWallet(origin, account);
 
   await cancelOpenedNotification();
   memoryStore.addNotification({
@@ -135,3 +145,34 @@ export const tonConnectTransaction = async (
     memoryStore.removeNotification(id);
   }
 };
+
+export const tonConnectSignData = async (
+  id: number,
+  origin: string,
+  value: unknown
+) => {
+  const data = validateSignDataRequestPayload(value);
+
+  const network = (await getActiveTonNetwork(storage)).toString();
+  await activateDappConnectionWallet(
+    origin,
+    data.from ? { address: data.from, network } : undefined
+  );
+
+  await cancelOpenedNotification();
+  memoryStore.addNotification({
+    kind: 'tonConnectSignData',
+    id,
+    logo: await getActiveTabLogo(),
+    origin,
+    data,
+  });
+
+  try {
+    const popupId = await openNotificationPopUp();
+    const result = await waitApprove<SignDataResponse>(id, popupId);
+    return result;
+  } finally {
+    memoryStore.removeNotification(id);
+  }
+};
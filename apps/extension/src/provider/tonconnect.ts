@@ -7,7 +7,10 @@ import {
     DeviceInfo,
     DisconnectEvent,
     SendTransactionRpcRequest,
-    SendTransactionRpcResponse
+    SendTransactionRpcResponse,
+    SignDataResponse,
+    SignDataRpcRequest,
+    SignDataRpcResponse
 } from '@tonkeeper/core/dist/entries/tonConnect';
 import packageJson from '../../package.json';
 import { TonProvider } from '../provider/index';
@@ -53,6 +56,10 @@ export const getDeviceInfo = (): DeviceInfo => {
             {
                 name: 'SendTransaction',
                 maxMessages: 4
+            },
+            {
+                name: 'SignData',
+                types: ['text', 'binary', 'cell']
             }
         ]
     };
@@ -106,7 +113,9 @@ export interface TonConnectBridge {
     isWalletBrowser: boolean; // if the page is opened into wallet's browser
     connect(protocolVersion: number, message: ConnectRequest): Promise<ConnectEvent>;
     restoreConnection(): Promise<ConnectEvent>;
-    send(message: SendTransactionRpcRequest): Promise<SendTransactionRpcResponse>;
+    send(
+        message: SendTransactionRpcRequest | SignDataRpcRequest
+    ): Promise<SendTransactionRpcResponse | SignDataRpcResponse>;
     listen(callback: (event: WalletEvent) => void): () => void;
 }
 
@@ -217,16 +226,18 @@ export class TonConnect implements TonConnectBridge {
         }
     };
 
-    send = async (message: SendTransactionRpcRequest): Promise<SendTransactionRpcResponse> => {
+    send = async (
+        message: SendTransactionRpcRequest | SignDataRpcRequest
+    ): Promise<SendTransactionRpcResponse | SignDataRpcResponse> => {
         try {
-            const result = await this.provider.send<string>(
+            const result = await this.provider.send<string | SignDataResponse>(
                 `tonConnect_${message.method}`,
                 message.params.map(item => JSON.parse(item))
             );
             return {
                 result,
                 id: String(message.id)
-            };
+            } as SendTransactionRpcResponse | SignDataRpcResponse;
         } catch (e) {
             if (e instanceof TonConnectError) {
                 return {
@@ -1,5 +1,5 @@
 import { QueryClient, QueryClientProvider, useQuery } from '@tanstack/react-query';
-import { Network, getApiConfig } from '@tonkeeper/core/dist/entries/network';
+import { Network, getApiConfig, getNetworkProfileConfig } from '@tonkeeper/core/dist/entries/network';
 import { WalletVersion } from "@tonkeeper/core/dist/entries/wallet";
 import { Account } from "@tonkeeper/core/dist/entries/account";
 import { InnerBody, useWindowsScroll } from '@tonkeeper/uikit/dist/components/Body';
@@ -58,7 +58,7 @@ import { useAnalytics, useTwaAppViewport } from './libs/hooks';
 import { useUserFiat } from "@tonkeeper/uikit/dist/state/fiat";
 import { useUserLanguage } from "@tonkeeper/uikit/dist/state/language";
 import { useSwapMobileNotification } from "@tonkeeper/uikit/dist/state/swap/useSwapMobileNotification";
-import { useDevSettings } from "@tonkeeper/uikit/dist/state/dev";
+import { useActiveNetworkProfile, useDevSettings } from "@tonkeeper/uikit/dist/state/dev";
 import { ModalsRoot } from "@tonkeeper/uikit/dist/components/ModalsRoot";
 import { useDebuggingTools } from "@tonkeeper/uikit/dist/hooks/useDebuggingTools";
 
@@ -69,9 +69,17 @@ const Settings = React.lazy(() => import('@tonkeeper/uikit/dist/pages/settings')
 const Activity = React.lazy(() => import('@tonkeeper/uikit/dist/pages/activity/Activity'));
 const Home = React.lazy(() => import('@tonkeeper/uikit/dist/pages/home/Home'));
 const Coin = React.lazy(() => import('@tonkeeper/uikit/dist/pages/coin/Coin'));
+const Staking = React.lazy(() => import('@tonkeeper/uikit/dist/pages/staking/Staking'));
+const Multisig = React.lazy(() => import('@tonkeeper/uikit/dist/pages/multisig/Multisig'));
+const Inscription = React.lazy(
+    () => import('@tonkeeper/uikit/dist/pages/inscription/Inscription')
+);
 const TonConnectSubscription = React.lazy(
     () => import('@tonkeeper/uikit/dist/components/connect/TonConnectSubscription')
 );
+const TransactionsStreamSubscription = React.lazy(
+    () => import('@tonkeeper/uikit/dist/components/TransactionsStreamSubscription')
+);
 const PairSignerNotification = React.lazy(
     () => import('@tonkeeper/uikit/dist/components/PairSignerNotification')
 );
@@ -224,6 +232,7 @@ export const Loader: FC<{ sdk: TwaAppSdk }> = ({ sdk }) => {
     const { data: lang, isLoading: isLangLoading } = useUserLanguage();
     const { data: fiat } = useUserFiat();
     const { data: devSettings } = useDevSettings();
+    const networkProfile = useActiveNetworkProfile();
 
     const lock = useLock(sdk);
     const network = useActiveTonNetwork();
@@ -247,9 +256,9 @@ export const Loader: FC<{ sdk: TwaAppSdk }> = ({ sdk }) => {
     const showQrScan = seeIfShowQrScanner(sdk.launchParams.platform);
 
     const context: IAppContext = {
-        api: getApiConfig(config, network),
+        api: getApiConfig(config, network, undefined, networkProfile),
         fiat,
-        config,
+        config: getNetworkProfileConfig(config, networkProfile),
         tonendpoint,
         standalone: true,
         extension: false,
@@ -411,6 +420,32 @@ const MainPages: FC<{ showQrScan: boolean; sdk: TwaAppSdk }> = ({ showQrScan, sd
                             }
                         />
                     </Route>
+                    <Route path={AppRoute.inscriptions}>
+                        <Route
+                            path=":ticker"
+                            element={
+                                <Suspense fallback={<CoinSkeletonPage />}>
+                                    <Inscription />
+                                </Suspense>
+                            }
+                        />
+                    </Route>
+                    <Route
+                        path={AppRoute.staking}
+                        element={
+                            <Suspense fallback={null}>
+                                <Staking />
+                            </Suspense>
+                        }
+                    />
+                    <Route
+                        path={AppRoute.multisig}
+                        element={
+                            <Suspense fallback={null}>
+                                <Multisig />
+                            </Suspense>
+                        }
+                    />
                     <Route
                         path="*"
                         element={
@@ -429,6 +464,7 @@ const MainPages: FC<{ showQrScan: boolean; sdk: TwaAppSdk }> = ({ showQrScan, sd
                 <MemoryScroll />
                 <Suspense>
                     <TonConnectSubscription />
+                    <TransactionsStreamSubscription />
                 </Suspense>
             </Wrapper>
         </TwaNotification>
@@ -27,7 +27,9 @@ import {
     childFactoryCreator,
     duration,
     getInitData,
-    getJetton
+    getJetton,
+    getTransferLinkError,
+    getTransferLinkRecipient
 } from '@tonkeeper/uikit/dist/components/transfer/common';
 import { useAppContext } from '@tonkeeper/uikit/dist/hooks/appContext';
 import { useAppSdk } from '@tonkeeper/uikit/dist/hooks/appSdk';
@@ -139,19 +141,12 @@ const SendContent: FC<{
         setView('amount');
     };
 
-    const processRecipient = async ({ address, text }: TonTransferParams) => {
-        const item = { address: address, blockchain: BLOCKCHAIN_NAME.TON } as const;
-        const toAccount = await getAccountAsync(item);
+    const processRecipient = async (param: TonTransferParams) => {
+        const toAccount = await getAccountAsync({ address: param.address });
+        const data = getTransferLinkRecipient(param, toAccount);
 
-        const done = !toAccount.memoRequired ? true : toAccount.memoRequired && text ? true : false;
-
-        setRecipient({
-            address: item,
-            toAccount,
-            comment: text ?? '',
-            done
-        });
-        if (done) {
+        setRecipient(data);
+        if (data.done) {
             setView('amount');
         }
     };
@@ -199,6 +194,14 @@ const SendContent: FC<{
         const param = parseTonTransfer({ url: signature });
 
         if (param) {
+            const error = param.nft ? 'Unexpected_QR_Code' : getTransferLinkError(param);
+            if (error) {
+                return sdk.uiEvents.emit('copy', {
+                    method: 'copy',
+                    params: t(error)
+                });
+            }
+
             const ok = await processJetton(param);
             if (ok) {
                 await processRecipient(param);
@@ -303,6 +306,7 @@ export const TwaSendNotification: FC<PropsWithChildren> = ({ children }) => {
     const { mutateAsync: getAccountAsync, reset } = useGetToAccount();
 
     const sdk = useAppSdk();
+    const { t } = useTranslation();
 
     useEffect(() => {
         const handler = (options: {
@@ -315,6 +319,14 @@ export const TwaSendNotification: FC<PropsWithChildren> = ({ children }) => {
             }
             reset();
             const { transfer, asset, chain } = options.params;
+            if (transfer) {
+                // the twa has no notification for the nft transfer links
+                const error = transfer.nft ? 'Unexpected_QR_Code' : getTransferLinkError(transfer);
+                if (error) {
+                    sdk.topMessage(t(error));
+                    return;
+                }
+            }
             setChain(chain);
             if (transfer) {
                 getAccountAsync({ address: transfer.address }).then(account => {
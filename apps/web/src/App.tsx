@@ -1,6 +1,6 @@
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { localizationText } from '@tonkeeper/core/dist/entries/language';
-import { getApiConfig } from '@tonkeeper/core/dist/entries/network';
+import { getApiConfig, getNetworkProfileConfig } from '@tonkeeper/core/dist/entries/network';
 import { WalletVersion } from "@tonkeeper/core/dist/entries/wallet";
 import { InnerBody, useWindowsScroll } from '@tonkeeper/uikit/dist/components/Body';
 import { CopyNotification } from '@tonkeeper/uikit/dist/components/CopyNotification';
@@ -48,7 +48,7 @@ import styled, { css } from 'styled-components';
 import { BrowserAppSdk } from './libs/appSdk';
 import { useAnalytics, useAppHeight, useAppWidth } from './libs/hooks';
 import { useUserLanguage } from "@tonkeeper/uikit/dist/state/language";
-import { useDevSettings } from "@tonkeeper/uikit/dist/state/dev";
+import { useActiveNetworkProfile, useDevSettings } from "@tonkeeper/uikit/dist/state/dev";
 import { ModalsRoot } from "@tonkeeper/uikit/dist/components/ModalsRoot";
 import { Account } from "@tonkeeper/core/dist/entries/account";
 import { useDebuggingTools } from "@tonkeeper/uikit/dist/hooks/useDebuggingTools";
@@ -60,10 +60,18 @@ const Activity = React.lazy(() => import('@tonkeeper/uikit/dist/pages/activity/A
 const Home = React.lazy(() => import('@tonkeeper/uikit/dist/pages/home/Home'));
 const Coin = React.lazy(() => import('@tonkeeper/uikit/dist/pages/coin/Coin'));
 const SwapPage = React.lazy(() => import('@tonkeeper/uikit/dist/pages/swap'));
+const Staking = React.lazy(() => import('@tonkeeper/uikit/dist/pages/staking/Staking'));
+const Multisig = React.lazy(() => import('@tonkeeper/uikit/dist/pages/multisig/Multisig'));
+const Inscription = React.lazy(
+    () => import('@tonkeeper/uikit/dist/pages/inscription/Inscription')
+);
 const QrScanner = React.lazy(() => import('@tonkeeper/uikit/dist/components/QrScanner'));
 const TonConnectSubscription = React.lazy(
     () => import('@tonkeeper/uikit/dist/components/connect/TonConnectSubscription')
 );
+const TransactionsStreamSubscription = React.lazy(
+    () => import('@tonkeeper/uikit/dist/components/TransactionsStreamSubscription')
+);
 const SendActionNotification = React.lazy(
     () => import('@tonkeeper/uikit/dist/components/transfer/SendNotifications')
 );
@@ -187,6 +195,7 @@ export const Loader: FC = () => {
     const { data: lang, isLoading: isLangLoading } = useUserLanguage();
     const { data: fiat } = useUserFiat();
     const { data: devSettings } = useDevSettings();
+    const networkProfile = useActiveNetworkProfile();
 
     const [ios, standalone] = useMemo(() => {
         return [sdk.isIOs(), sdk.isStandalone()] as const;
@@ -233,9 +242,9 @@ export const Loader: FC = () => {
     }
 
     const context: IAppContext = {
-        api: getApiConfig(config, network),
+        api: getApiConfig(config, network, undefined, networkProfile),
         fiat,
-        config,
+        config: getNetworkProfileConfig(config, networkProfile),
         tonendpoint,
         standalone,
         extension: false,
@@ -358,6 +367,32 @@ export const Content: FC<{
                         }
                     />
                 </Route>
+                <Route path={AppRoute.inscriptions}>
+                    <Route
+                        path=":ticker"
+                        element={
+                            <Suspense fallback={<CoinSkeletonPage />}>
+                                <Inscription />
+                            </Suspense>
+                        }
+                    />
+                </Route>
+                <Route
+                    path={AppRoute.staking}
+                    element={
+                        <Suspense fallback={null}>
+                            <Staking />
+                        </Suspense>
+                    }
+                />
+                <Route
+                    path={AppRoute.multisig}
+                    element={
+                        <Suspense fallback={null}>
+                            <Multisig />
+                        </Suspense>
+                    }
+                />
                 <Route path={AppRoute.swap} element={
                     <Suspense fallback={null}>
                         <SwapPage />
@@ -383,6 +418,7 @@ export const Content: FC<{
                 <SendActionNotification />
                 <ReceiveNotification />
                 <TonConnectSubscription />
+                <TransactionsStreamSubscription />
                 <NftNotification />
                 <SendNftNotification />
                 <AddFavoriteNotification />
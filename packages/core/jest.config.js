@@ -0,0 +1,12 @@
+/** @type {import('jest').Config} */
+module.exports = {
+    testEnvironment: 'node',
+    roots: ['<rootDir>/src'],
+    transform: {
+        '^.+\\.[tj]s$': 'ts-jest'
+    },
+    // query-string and its dependencies are published as ES modules only
+    transformIgnorePatterns: [
+        '/node_modules/(?!(query-string|decode-uri-component|split-on-first|filter-obj)/)'
+    ]
+};
@@ -6,7 +6,8 @@ import { NFT } from './entries/nft';
 import { FavoriteSuggestion, LatestSuggestion } from './entries/suggestion';
 import { TonTransferParams } from './service/deeplinkingService';
 import { KeystoneMessageType, KeystonePathInfo } from './service/keystone/types';
-import { LedgerTransaction } from './service/ledger/connector';
+import { LedgerBatchProgress, LedgerTonProof, LedgerTransaction } from './service/ledger/connector';
+import { SignerMessageType } from './service/signerService';
 import { TonWalletStandard } from './entries/wallet';
 
 export type GetPasswordType = 'confirm' | 'unlock';
@@ -17,6 +18,14 @@ export type TransferInitParams = {
     chain?: BLOCKCHAIN_NAME;
 };
 
+export type TransferNftInitParams = {
+    nft: NFT;
+    /**
+     * Transfer link of the NFT, the recipient is filled from it
+     */
+    transfer?: TonTransferParams;
+};
+
 export type ReceiveInitParams = {
     chain?: BLOCKCHAIN_NAME;
     jetton?: string;
@@ -28,19 +37,23 @@ export interface KeyboardParams {
 }
 export interface UIEvents {
     unlock: void;
+    lock: void;
+    appHidden: void;
     copy: string;
     scan: void;
     resize: void;
     navigate: void;
     getPassword: void;
-    signer: string;
-    ledger: { path: number[]; transaction: LedgerTransaction };
+    signer: { message: string; messageType: SignerMessageType };
+    ledger:
+        | { path: number[]; transaction: LedgerTransaction; progress?: LedgerBatchProgress }
+        | { path: number[]; proof: LedgerTonProof };
     keystone: { message: Buffer; messageType: KeystoneMessageType; pathInfo?: KeystonePathInfo };
     loading: void;
     transfer: TransferInitParams;
     receive: ReceiveInitParams;
     nft: NFT;
-    transferNft: NFT;
+    transferNft: TransferNftInitParams;
     keyboard: KeyboardParams;
     addSuggestion: LatestSuggestion;
     editSuggestion: FavoriteSuggestion;
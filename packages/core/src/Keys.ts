@@ -20,12 +20,14 @@ export enum AppKey {
     THEME = 'theme',
     UI_PREFERENCES = 'ui_preferences',
     MULTI_SEND_LISTS = 'multi_send_lists',
+    MULTI_SEND_BATCHES = 'multi_send_batches',
     FIAT = 'fiat',
     LANGUAGE = 'language',
     DEV_SETTINGS = 'dev_settings',
 
     DEPRECATED_GLOBAL_AUTH_STATE = 'password',
     LOCK = 'lock',
+    AUTO_LOCK = 'auto_lock',
     TOUCH_ID = 'touch_id',
     COUNTRY = 'country',
 
@@ -33,6 +35,9 @@ export enum AppKey {
     CONNECTIONS = 'connections',
     SUBSCRIPTION = 'subscription',
     HIDDEN_SUGGESTIONS = 'hidden_suggestions',
+    ADDRESS_BOOK = 'address_book',
+    SPENDING_POLICIES = 'spending_policies',
+    SPENDING_POLICY_AUDIT = 'spending_policy_audit',
     SYNC_DATE = 'sync_date',
 
     LAST_HTTP_EVENT_ID = 'last_event_id',
@@ -1,7 +1,7 @@
 // eslint-disable-next-line max-classes-per-file
 import { AuthKeychain, AuthPassword, AuthSigner, AuthSignerDeepLink } from './password';
 import { KeystonePathInfo } from '../service/keystone/types';
-import { DerivationItem, TonWalletStandard, WalletId } from './wallet';
+import { DerivationItem, TonContract, TonWalletStandard, WalletId } from './wallet';
 
 /**
  * @deprecated
@@ -18,13 +18,13 @@ export interface IAccount {
     name: string;
     emoji: string;
 
-    get allTonWallets(): TonWalletStandard[];
-    get activeDerivationTonWallets(): TonWalletStandard[];
-    get activeTonWallet(): TonWalletStandard;
+    get allTonWallets(): TonContract[];
+    get activeDerivationTonWallets(): TonContract[];
+    get activeTonWallet(): TonContract;
 
-    getTonWallet(id: WalletId): TonWalletStandard | undefined;
-    updateTonWallet(wallet: TonWalletStandard): void;
-    addTonWalletToActiveDerivation(wallet: TonWalletStandard): void;
+    getTonWallet(id: WalletId): TonContract | undefined;
+    updateTonWallet(wallet: TonContract): void;
+    addTonWalletToActiveDerivation(wallet: TonContract): void;
     removeTonWalletFromActiveDerivation(walletId: WalletId): void;
     setActiveTonWallet(walletId: WalletId): void;
 }
@@ -360,7 +360,151 @@ export class AccountTonOnly extends Clonable implements IAccount {
     }
 }
 
-export type Account = AccountTonMnemonic | AccountLedger | AccountKeystone | AccountTonOnly;
+/**
+ * Monitors an arbitrary TON contract, the account has no keys and cannot sign anything
+ */
+export class AccountTonWatchOnly extends Clonable implements IAccount {
+    public readonly type = 'watch-only';
+
+    get allTonWallets() {
+        return [this.tonWallet];
+    }
+
+    get activeDerivationTonWallets() {
+        return [this.tonWallet];
+    }
+
+    get activeTonWallet() {
+        return this.tonWallet;
+    }
+
+    /**
+     *  @param id ton contract raw address
+     */
+    constructor(
+        public readonly id: AccountId,
+        public name: string,
+        public emoji: string,
+        public tonWallet: TonContract
+    ) {
+        super();
+    }
+
+    getTonWallet(id: WalletId) {
+        return this.allTonWallets.find(w => w.id === id);
+    }
+
+    updateTonWallet(wallet: TonContract) {
+        this.tonWallet = wallet;
+    }
+
+    addTonWalletToActiveDerivation() {
+        throw new Error('Cannot add ton wallet to watch only account');
+    }
+
+    removeTonWalletFromActiveDerivation() {
+        throw new Error('Cannot remove ton wallet from watch only account');
+    }
+
+    setActiveTonWallet(walletId: WalletId) {
+        if (walletId !== this.tonWallet.id) {
+            throw new Error('Cannot add ton wallet to watch only account');
+        }
+    }
+}
+
+/**
+ * Multisig wallet contract. The account has no keys,
+ * orders are proposed and approved by the local standard wallets listed as the multisig signers or proposers
+ */
+export class AccountTonMultisig extends Clonable implements IAccount {
+    public readonly type = 'ton-multisig';
+
+    get allTonWallets() {
+        return [this.tonWallet];
+    }
+
+    get activeDerivationTonWallets() {
+        return [this.tonWallet];
+    }
+
+    get activeTonWallet() {
+        return this.tonWallet;
+    }
+
+    /**
+     *  @param id multisig contract raw address
+     *  @param hostWallets ids of the local wallets which are signers or proposers of the multisig
+     *  @param declinedOrders addresses of the orders rejected by the user, multisig contract has no reject operation
+     */
+    constructor(
+        public readonly id: AccountId,
+        public name: string,
+        public emoji: string,
+        public tonWallet: TonContract,
+        public hostWallets: WalletId[],
+        public selectedHostWalletId: WalletId,
+        public declinedOrders: string[] = []
+    ) {
+        super();
+
+        if (!hostWallets.includes(selectedHostWalletId)) {
+            throw new Error('Host wallet not found');
+        }
+    }
+
+    getTonWallet(id: WalletId) {
+        return this.allTonWallets.find(w => w.id === id);
+    }
+
+    updateTonWallet(wallet: TonContract) {
+        this.tonWallet = wallet;
+    }
+
+    addTonWalletToActiveDerivation() {
+        throw new Error('Cannot add ton wallet to multisig account');
+    }
+
+    removeTonWalletFromActiveDerivation() {
+        throw new Error('Cannot remove ton wallet from multisig account');
+    }
+
+    setActiveTonWallet(walletId: WalletId) {
+        if (walletId !== this.tonWallet.id) {
+            throw new Error('Cannot add ton wallet to multisig account');
+        }
+    }
+
+    setSelectedHostWalletId(walletId: WalletId) {
+        if (!this.hostWallets.includes(walletId)) {
+            throw new Error('Host wallet not found');
+        }
+        this.selectedHostWalletId = walletId;
+    }
+
+    declineOrder(orderAddress: string) {
+        if (!this.declinedOrders.includes(orderAddress)) {
+            this.declinedOrders = this.declinedOrders.concat(orderAddress);
+        }
+    }
+}
+
+export type Account =
+    | AccountTonMnemonic
+    | AccountLedger
+    | AccountKeystone
+    | AccountTonOnly
+    | AccountTonWatchOnly
+    | AccountTonMultisig;
+
+/**
+ * Accounts with a standard wallet contract and a key to sign transactions
+ */
+export type AccountTonWalletStandard = Exclude<Account, AccountTonWatchOnly | AccountTonMultisig>;
+
+export function isAccountTonWalletStandard(account: Account): account is AccountTonWalletStandard {
+    return account.type !== 'watch-only' && account.type !== 'ton-multisig';
+}
 
 export type AccountsState = Account[];
 
@@ -374,17 +518,16 @@ const prototypes = {
     mnemonic: AccountTonMnemonic.prototype,
     ledger: AccountLedger.prototype,
     keystone: AccountKeystone.prototype,
-    'ton-only': AccountTonOnly.prototype
+    'ton-only': AccountTonOnly.prototype,
+    'watch-only': AccountTonWatchOnly.prototype,
+    'ton-multisig': AccountTonMultisig.prototype
 } as const;
 
 export function bindAccountToClass(accountStruct: Account): void {
     Object.setPrototypeOf(accountStruct, prototypes[accountStruct.type]);
 }
 
-export function getWalletById(
-    accounts: Account[],
-    walletId: WalletId
-): TonWalletStandard | undefined {
+export function getWalletById(accounts: Account[], walletId: WalletId): TonContract | undefined {
     for (const account of accounts || []) {
         const wallet = account.getTonWallet(walletId);
         if (wallet) {
@@ -0,0 +1,23 @@
+import { BLOCKCHAIN_NAME } from './crypto';
+
+export interface AddressBookAddress {
+    blockchain: BLOCKCHAIN_NAME;
+    /**
+     * Raw address for TON, base58 address for TRON
+     */
+    address: string;
+    /**
+     * TON DNS name the address is resolved from, the address is updated when the name is re-resolved
+     */
+    dns?: string;
+}
+
+export interface AddressBookEntry {
+    id: string;
+    label: string;
+    tags: string[];
+    note?: string;
+    addresses: AddressBookAddress[];
+    createdAt: number;
+    updatedAt: number;
+}
@@ -4,4 +4,8 @@ import { Configuration as TronConfiguration } from '../tronApi';
 export interface APIConfig {
     tonApiV2: TonV2Configuration;
     tronApi: TronConfiguration;
+    /**
+     * Global id of the active network profile, wallet v5 addresses of the new wallets are derived with it
+     */
+    networkGlobalId?: number;
 }
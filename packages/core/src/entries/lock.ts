@@ -0,0 +1,10 @@
+export interface AutoLockSettings {
+    /**
+     * Minutes of inactivity before the app is locked, null to never lock on inactivity
+     */
+    idleMinutes: number | null;
+    /**
+     * Lock when the window or the popup is hidden and when the system goes to sleep
+     */
+    lockOnHide: boolean;
+}
@@ -0,0 +1,51 @@
+import { WalletId } from './wallet';
+
+export type MultiSendBatchRowStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+export interface MultiSendBatchRow {
+    to: string;
+    bounce: boolean;
+    weiAmount: string;
+    comment?: string;
+    status: MultiSendBatchRowStatus;
+    error?: string;
+    /**
+     * Hash of the external message the row was sent with
+     */
+    messageHash?: string;
+}
+
+export type MultiSendBatchAsset =
+    | { type: 'ton' }
+    | {
+          type: 'jetton';
+          jettonWalletAddress: string;
+          /**
+           * TON amount attached to every jetton transfer message
+           */
+          attachValue: string;
+      };
+
+/**
+ * Wallet transaction that was signed and maybe broadcasted, but its result is not known yet
+ */
+export interface MultiSendBatchInFlight {
+    rows: number[];
+    seqno: number;
+    validUntil: number;
+    messageHash: string;
+    sendError?: string;
+}
+
+export interface MultiSendBatch {
+    id: string;
+    walletId: WalletId;
+    listId?: number;
+    assetSymbol: string;
+    assetDecimals: number;
+    asset: MultiSendBatchAsset;
+    createdAt: number;
+    finishedAt?: number;
+    rows: MultiSendBatchRow[];
+    inFlight?: MultiSendBatchInFlight;
+}
@@ -15,7 +15,41 @@ export const switchNetwork = (current: Network): Network => {
     return current === Network.MAINNET ? Network.TESTNET : Network.MAINNET;
 };
 
-export const getTonClientV2 = (config: TonendpointConfig, current?: Network) => {
+/**
+ * User defined network, a self-hosted TonAPI or a local sandbox
+ */
+export interface NetworkProfile {
+    id: string;
+    name: string;
+    /**
+     * Built-in network the addresses are formatted for and the app config is requested for
+     */
+    network: Network;
+    /**
+     * Network global id of the wallet v5 contracts
+     */
+    globalId: number;
+    tonApiBaseUrl: string;
+    tonApiKey?: string;
+    tronApiBaseUrl?: string;
+    accountExplorer?: string;
+    transactionExplorer?: string;
+    nftExplorer?: string;
+}
+
+export const getTonClientV2 = (
+    config: TonendpointConfig,
+    current?: Network,
+    profile?: NetworkProfile
+) => {
+    if (profile) {
+        return new ConfigurationV2({
+            basePath: profile.tonApiBaseUrl,
+            headers: profile.tonApiKey
+                ? { Authorization: `Bearer ${profile.tonApiKey}` }
+                : undefined
+        });
+    }
     return new ConfigurationV2({
         basePath:
             current === Network.MAINNET ? 'https://keeper.tonapi.io' : 'https://testnet.tonapi.io',
@@ -25,19 +59,44 @@ export const getTonClientV2 = (config: TonendpointConfig, current?: Network) =>
     });
 };
 
-const getTronClient = (current?: Network) => {
+const getTronClient = (current?: Network, profile?: NetworkProfile) => {
     return new TronConfiguration({
-        basePath: TronApi[current === Network.MAINNET ? TronChain.MAINNET : TronChain.NILE]
+        basePath:
+            profile?.tronApiBaseUrl ??
+            TronApi[current === Network.MAINNET ? TronChain.MAINNET : TronChain.NILE]
     });
 };
 
-export const getApiConfig = (config: TonendpointConfig, network?: Network, TonConsoleBase = '') => {
+export const getApiConfig = (
+    config: TonendpointConfig,
+    network?: Network,
+    TonConsoleBase = '',
+    profile?: NetworkProfile
+) => {
     // Global config
     TonConsoleApi.BASE = TonConsoleBase;
 
     return {
-        tonApiV2: getTonClientV2(config, network),
-        tronApi: getTronClient(network)
+        tonApiV2: getTonClientV2(config, network, profile),
+        tronApi: getTronClient(network, profile),
+        networkGlobalId: profile?.globalId
     };
 };
 
+/**
+ * App config with the explorers of the network profile
+ */
+export const getNetworkProfileConfig = (
+    config: TonendpointConfig,
+    profile?: NetworkProfile
+): TonendpointConfig => {
+    if (!profile) {
+        return config;
+    }
+    return {
+        ...config,
+        accountExplorer: profile.accountExplorer ?? config.accountExplorer,
+        transactionExplorer: profile.transactionExplorer ?? config.transactionExplorer,
+        NFTOnExplorerUrl: profile.nftExplorer ?? config.NFTOnExplorerUrl
+    };
+};
@@ -1,4 +1,5 @@
-import { Account, AccountEvent, WalletDNS } from '../tonApiV2';
+import { Cell } from '@ton/core';
+import { Account, AccountEvent, SignRawMessage, SignRawParams, WalletDNS } from '../tonApiV2';
 import { EstimatePayload } from '../tronApi';
 import { BLOCKCHAIN_NAME } from './crypto';
 import { Asset } from './crypto/asset/asset';
@@ -28,6 +29,26 @@ export function isTronRecipient(recipient: Recipient): recipient is TronRecipien
 export interface TonRecipientData {
     address: TonRecipient;
     comment: string;
+    /**
+     * Comment is sent encrypted with the recipient public key
+     */
+    encryptComment?: boolean;
+    /**
+     * Payload of the encrypted comment, made right before signing because it requires the sender private key
+     */
+    encryptedComment?: Cell;
+    /**
+     * Raw message body of the transfer link, base64 BOC. Sent instead of the comment
+     */
+    payload?: string;
+    /**
+     * State init of the recipient from the transfer link, base64 BOC
+     */
+    stateInit?: string;
+    /**
+     * Unix time in seconds the transfer link is valid until, the message is not valid after it
+     */
+    expiresAt?: number;
     done: boolean;
     toAccount: Account;
 }
@@ -60,4 +81,17 @@ export type TransferEstimation<T extends Asset = Asset> = {
         : never;
 };
 
-export type TransferEstimationEvent = { event: AccountEvent };
+export type GaslessEstimation = SignRawParams & {
+    /**
+     * Jetton transfer requested from the relayer, the relayer messages are checked against it before signing
+     */
+    jettonTransfer: SignRawMessage;
+};
+
+export type TransferEstimationEvent = {
+    event: AccountEvent;
+    /**
+     * Relayer-signed batch parameters, present when the transfer fee is paid in jetton via the gasless relayer
+     */
+    gasless?: GaslessEstimation;
+};
@@ -1,11 +1,15 @@
 import { Cell } from '@ton/core';
-import { LedgerTransaction } from '../service/ledger/connector';
+import { LedgerBatchProgress, LedgerTransaction } from '../service/ledger/connector';
 
 export type BaseSigner = (message: Cell) => Promise<Buffer>;
 
 export type CellSigner = BaseSigner & { type: 'cell' };
 
-export type LedgerSigner = ((path: number[], message: LedgerTransaction) => Promise<Cell>) & {
+export type LedgerSigner = ((
+    path: number[],
+    message: LedgerTransaction,
+    progress?: LedgerBatchProgress
+) => Promise<Cell>) & {
     type: 'ledger';
 };
 
@@ -0,0 +1,80 @@
+import { AccountId } from './account';
+import { FiatCurrencies } from './fiat';
+
+export interface SpendingPolicy {
+    /**
+     * Currency all the limits of the policy are set in
+     */
+    fiat: FiatCurrencies;
+    /**
+     * Limit of the value sent during the last 24 hours
+     */
+    dailyLimit?: number;
+    /**
+     * Limit of the value sent by a single signature
+     */
+    maxTransfer?: number;
+    /**
+     * Value the password is asked again above, even if the session is unlocked
+     */
+    passwordThreshold?: number;
+    /**
+     * Raw addresses the account may send to, any recipient is allowed when the list is empty
+     */
+    allowlist: string[];
+}
+
+export type SpendingPolicyViolation =
+    | 'recipient-not-allowed'
+    | 'max-transfer'
+    | 'daily-limit'
+    | 'password-required';
+
+export interface SpendingPolicyTransfer {
+    /**
+     * Raw address of the owner receiving the asset, the jetton wallet or the nft item are not recipients
+     */
+    recipient: string;
+    symbol: string;
+    weiAmount: string;
+    decimals: number;
+    /**
+     * Undefined when the asset has no price, such transfers are counted as zero value
+     * and the password is asked while the policy has limits
+     */
+    fiatAmount?: number;
+}
+
+export interface SpendingPolicyDecision {
+    id: string;
+    accountId: AccountId;
+    timestamp: number;
+    fiat: FiatCurrencies;
+    transfers: SpendingPolicyTransfer[];
+    fiatAmount: number;
+    allowed: boolean;
+    violation?: SpendingPolicyViolation;
+    passwordConfirmed: boolean;
+    /**
+     * Transfers of the request are not decoded or not priced, the password is asked regardless of the threshold
+     */
+    unverified?: boolean;
+}
+
+export interface SpendingPolicyChange {
+    kind: 'policy-change';
+    id: string;
+    accountId: AccountId;
+    timestamp: number;
+    /**
+     * Undefined when the policy is removed
+     */
+    policy?: SpendingPolicy;
+    previous?: SpendingPolicy;
+}
+
+export type SpendingPolicyAuditItem = SpendingPolicyDecision | SpendingPolicyChange;
+
+export const isSpendingPolicyChange = (
+    item: SpendingPolicyAuditItem
+): item is SpendingPolicyChange => 'kind' in item && item.kind === 'policy-change';
@@ -0,0 +1,14 @@
+import { AccountStakingInfo, PoolImplementation, PoolInfo } from '../tonApiV2';
+
+export interface StakingPools {
+    pools: PoolInfo[];
+    implementations: Record<string, PoolImplementation>;
+}
+
+export interface StakingPosition extends AccountStakingInfo {
+    poolInfo?: PoolInfo;
+    /**
+     * Nano TON earned by the pool, undefined when the wallet history is too long to be loaded
+     */
+    rewards?: number;
+}
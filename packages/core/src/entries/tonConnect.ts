@@ -8,6 +8,16 @@ export interface DAppManifest {
     privacyPolicyUrl?: string;
 }
 
+export interface TonConnectBridge {
+    name: string;
+    url: string;
+}
+
+export const defaultTonConnectBridge: TonConnectBridge = {
+    name: 'Tonkeeper',
+    url: 'https://bridge.tonapi.io/bridge'
+};
+
 export interface TonConnectTransactionPayload {
     valid_until: number; // 1658253458;
     messages: TonConnectTransactionPayloadMessage[];
@@ -194,21 +204,45 @@ export enum SIGN_DATA_ERROR_CODES {
     METHOD_NOT_SUPPORTED = 400
 }
 
+export type SignDataType = 'text' | 'binary' | 'cell';
+
 export type SignDataFeature = {
     name: 'SignData';
+    types: SignDataType[];
 };
 
 export interface SignDataRpcRequest {
     method: 'signData';
-    params: [
-        {
-            schema_crc: number;
-            cell: string;
-        }
-    ];
+    params: [string]; // json string SignDataRequestPayload
     id: string;
 }
 
+export type SignDataRequestPayload =
+    | SignDataRequestPayloadText
+    | SignDataRequestPayloadBinary
+    | SignDataRequestPayloadCell;
+
+interface SignDataRequestPayloadBase {
+    network?: string; // '-239' for the mainnet and '-3' for the testnet
+    from?: string; // '<wc>:<hex>'
+}
+
+export interface SignDataRequestPayloadText extends SignDataRequestPayloadBase {
+    type: 'text';
+    text: string;
+}
+
+export interface SignDataRequestPayloadBinary extends SignDataRequestPayloadBase {
+    type: 'binary';
+    bytes: string; // base64 (not url safe) encoded bytes array
+}
+
+export interface SignDataRequestPayloadCell extends SignDataRequestPayloadBase {
+    type: 'cell';
+    schema: string; // TL-B scheme of the cell payload
+    cell: string; // base64 (not url safe) encoded cell
+}
+
 export type SignDataRpcResponse = SignDataRpcResponseSuccess | SignDataRpcResponseError;
 
 export interface SignDataRpcResponseError extends WalletResponseTemplateError {
@@ -222,10 +256,15 @@ export interface SignDataRpcResponseError extends WalletResponseTemplateError {
 
 export interface SignDataRpcResponseSuccess {
     id: string;
-    result: {
-        signature: string;
-        timestamp: string;
-    };
+    result: SignDataResponse;
+}
+
+export interface SignDataResponse {
+    signature: string; // base64 encoded signature
+    address: string; // '<wc>:<hex>'
+    timestamp: number; // 64-bit unix epoch time of the signing operation (seconds)
+    domain: string; // app domain name (as url part, without encoding)
+    payload: SignDataRequestPayload;
 }
 
 export interface TonAddressItem {
@@ -119,6 +119,11 @@ export type TonContract = {
 export type TonWalletStandard = TonContract & {
     publicKey: string;
     version: WalletVersion;
+    /**
+     * Global id of the network profile the wallet v5 address is derived with,
+     * the id of the built-in network is used when undefined
+     */
+    networkGlobalId?: number;
 };
 
 export type DerivationItem = {
@@ -0,0 +1,12 @@
+export class AddressBookImportError extends Error {
+    /**
+     * Line number of the CSV file, the header is the first line
+     */
+    line?: number;
+
+    constructor(message: string, line?: number) {
+        super(message);
+        this.name = 'AddressBookImportError';
+        this.line = line;
+    }
+}
@@ -0,0 +1,15 @@
+export class LedgerBatchError extends Error {
+    cause: unknown;
+
+    constructor(
+        message: string,
+        public readonly sentCount: number,
+        public readonly total: number,
+        public readonly sentBocs: string[],
+        cause?: unknown
+    ) {
+        super(message);
+        this.name = 'LedgerBatchError';
+        this.cause = cause;
+    }
+}
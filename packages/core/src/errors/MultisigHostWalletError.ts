@@ -0,0 +1,6 @@
+export class MultisigHostWalletError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MultisigHostWalletError';
+    }
+}
@@ -0,0 +1,11 @@
+import { SpendingPolicyDecision, SpendingPolicyViolation } from '../entries/spendingPolicy';
+
+export class SpendingPolicyError extends Error {
+    constructor(
+        public readonly violation: SpendingPolicyViolation,
+        public readonly decision: SpendingPolicyDecision
+    ) {
+        super(`Spending policy violation: ${violation}`);
+        this.name = 'SpendingPolicyError';
+    }
+}
@@ -0,0 +1,6 @@
+export class TransferLinkExpiredError extends Error {
+    constructor(message: string, public readonly expiresAt: number) {
+        super(message);
+        this.name = 'TransferLinkExpiredError';
+    }
+}
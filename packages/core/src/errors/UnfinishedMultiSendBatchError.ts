@@ -0,0 +1,6 @@
+export class UnfinishedMultiSendBatchError extends Error {
+    constructor(message: string, public readonly batchId: string) {
+        super(message);
+        this.name = 'UnfinishedMultiSendBatchError';
+    }
+}
@@ -0,0 +1,6 @@
+export class WalletBackupMnemonicError extends Error {
+    constructor(public readonly accountName: string) {
+        super(`Backup mnemonic does not match the wallet "${accountName}"`);
+        this.name = 'WalletBackupMnemonicError';
+    }
+}
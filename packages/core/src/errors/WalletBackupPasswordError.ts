@@ -0,0 +1,6 @@
+export class WalletBackupPasswordError extends Error {
+    constructor() {
+        super('Backup password is not valid');
+        this.name = 'WalletBackupPasswordError';
+    }
+}
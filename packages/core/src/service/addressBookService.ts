@@ -0,0 +1,326 @@
+import { Address } from '@ton/core';
+import { AppKey } from '../Keys';
+import { IStorage } from '../Storage';
+import { AddressBookAddress, AddressBookEntry } from '../entries/addressBook';
+import { APIConfig } from '../entries/apis';
+import { BLOCKCHAIN_NAME } from '../entries/crypto';
+import { AddressBookImportError } from '../errors/AddressBookImportError';
+import { DNSApi } from '../tonApiV2';
+import { eqAddresses } from '../utils/address';
+import { seeIfValidTonAddress, seeIfValidTronAddress } from '../utils/common';
+import { arrayToCsvString, csvStringToArray } from './parserService';
+
+export const getAddressBook = async (storage: IStorage) => {
+    const result = await storage.get<AddressBookEntry[]>(AppKey.ADDRESS_BOOK);
+    return result ?? [];
+};
+
+export const setAddressBook = async (storage: IStorage, entries: AddressBookEntry[]) => {
+    await storage.set(AppKey.ADDRESS_BOOK, entries);
+};
+
+export const createAddressBookEntry = (
+    value: Pick<AddressBookEntry, 'label' | 'tags' | 'note' | 'addresses'>
+): AddressBookEntry => {
+    const now = Date.now();
+    return {
+        id: `${now}-${Math.random().toString(16).slice(2, 10)}`,
+        label: value.label,
+        tags: value.tags,
+        note: value.note,
+        addresses: value.addresses,
+        createdAt: now,
+        updatedAt: now
+    };
+};
+
+export const saveAddressBookEntry = async (storage: IStorage, entry: AddressBookEntry) => {
+    const entries = await getAddressBook(storage);
+    const updated = { ...entry, updatedAt: Date.now() };
+    const index = entries.findIndex(item => item.id === entry.id);
+    if (index === -1) {
+        entries.push(updated);
+    } else {
+        entries[index] = updated;
+    }
+    await setAddressBook(storage, entries);
+    return updated;
+};
+
+export const deleteAddressBookEntry = async (storage: IStorage, id: string) => {
+    const entries = await getAddressBook(storage);
+    await setAddressBook(
+        storage,
+        entries.filter(item => item.id !== id)
+    );
+};
+
+export const isSameAddressBookAddress = (
+    item: AddressBookAddress,
+    blockchain: BLOCKCHAIN_NAME,
+    address: string
+) => {
+    if (item.blockchain !== blockchain) {
+        return false;
+    }
+    return blockchain === BLOCKCHAIN_NAME.TON
+        ? eqAddresses(item.address, address)
+        : item.address === address;
+};
+
+export const findAddressBookEntry = (
+    entries: AddressBookEntry[],
+    blockchain: BLOCKCHAIN_NAME,
+    address: string
+) =>
+    entries.find(entry =>
+        entry.addresses.some(item => isSameAddressBookAddress(item, blockchain, address))
+    );
+
+/**
+ * Case-insensitive search by label, tags, note, DNS name and address
+ */
+export const searchAddressBook = (entries: AddressBookEntry[], query: string) => {
+    const value = query.trim().toLowerCase();
+    if (!value) {
+        return entries;
+    }
+
+    return entries.filter(
+        entry =>
+            entry.label.toLowerCase().includes(value) ||
+            entry.tags.some(tag => tag.toLowerCase().includes(value)) ||
+            entry.note?.toLowerCase().includes(value) ||
+            entry.addresses.some(
+                item =>
+                    item.dns?.toLowerCase().includes(value) ||
+                    item.address.toLowerCase() === value ||
+                    (item.blockchain === BLOCKCHAIN_NAME.TON && eqAddresses(item.address, value))
+            )
+    );
+};
+
+export const getAddressBookTags = (entries: AddressBookEntry[]) =>
+    [...new Set(entries.flatMap(entry => entry.tags))].sort();
+
+export const resolveAddressBookDns = async (api: APIConfig, dns: string) => {
+    const result = await new DNSApi(api.tonApiV2).dnsResolve({
+        domainName: dns.trim().toLowerCase()
+    });
+    if (!result.wallet) {
+        throw new Error(`DNS name ${dns} is not linked to a wallet`);
+    }
+    return Address.parse(result.wallet.address).toRawString();
+};
+
+/**
+ * Re-resolves DNS names of the address book and updates addresses linked to a different wallet.
+ * Names failed to resolve keep the last known address.
+ * @returns updated entries
+ */
+export const refreshAddressBookDns = async (api: APIConfig, storage: IStorage) => {
+    const entries = await getAddressBook(storage);
+    const updated: AddressBookEntry[] = [];
+
+    for (const entry of entries) {
+        let isChanged = false;
+        for (const item of entry.addresses) {
+            if (!item.dns) continue;
+            try {
+                const address = await resolveAddressBookDns(api, item.dns);
+                if (!eqAddresses(address, item.address)) {
+                    item.address = address;
+                    isChanged = true;
+                }
+            } catch (e) {
+                console.warn(e);
+            }
+        }
+        if (isChanged) {
+            entry.updatedAt = Date.now();
+            updated.push(entry);
+        }
+    }
+
+    if (updated.length > 0) {
+        await setAddressBook(storage, entries);
+    }
+    return updated;
+};
+
+const CSV_HEADER = ['label', 'blockchain', 'address', 'dns', 'tags', 'note'];
+const CSV_TAGS_SEPARATOR = ';';
+
+/**
+ * Every address of the entry is a separate row, rows of the same entry share the label
+ */
+export const addressBookToCsv = (entries: AddressBookEntry[]) =>
+    arrayToCsvString([
+        CSV_HEADER,
+        ...entries.flatMap(entry =>
+            entry.addresses.map(item => [
+                entry.label,
+                item.blockchain,
+                item.blockchain === BLOCKCHAIN_NAME.TON
+                    ? Address.parse(item.address).toString({ bounceable: false })
+                    : item.address,
+                item.dns ?? '',
+                entry.tags.join(CSV_TAGS_SEPARATOR),
+                entry.note ?? ''
+            ])
+        )
+    ]);
+
+const parseCsvAddress = (
+    line: number,
+    blockchain: string,
+    address: string,
+    dns: string
+): AddressBookAddress => {
+    const chain = (blockchain || BLOCKCHAIN_NAME.TON).toUpperCase();
+
+    if (chain === BLOCKCHAIN_NAME.TRON) {
+        if (!seeIfValidTronAddress(address)) {
+            throw new AddressBookImportError(`Invalid TRON address: ${address}`, line);
+        }
+        return { blockchain: BLOCKCHAIN_NAME.TRON, address };
+    }
+
+    if (chain !== BLOCKCHAIN_NAME.TON) {
+        throw new AddressBookImportError(`Unsupported blockchain: ${blockchain}`, line);
+    }
+
+    if (address) {
+        if (!seeIfValidTonAddress(address)) {
+            throw new AddressBookImportError(`Invalid TON address: ${address}`, line);
+        }
+        return {
+            blockchain: BLOCKCHAIN_NAME.TON,
+            address: Address.parse(address).toRawString(),
+            dns: dns || undefined
+        };
+    }
+
+    if (!dns) {
+        throw new AddressBookImportError('Address or DNS name is required', line);
+    }
+    return { blockchain: BLOCKCHAIN_NAME.TON, address: '', dns };
+};
+
+/**
+ * TON rows with a DNS name but without an address get an empty address, it has to be resolved before saving
+ */
+export const parseAddressBookCsv = (content: string): AddressBookEntry[] => {
+    const rows = csvStringToArray(content.trim()).filter(row => row.some(cell => !!cell?.trim()));
+
+    if (!rows.length) {
+        throw new AddressBookImportError('File is empty');
+    }
+
+    const header = rows[0].map(cell => cell.trim().toLowerCase());
+    const column = (name: string) => header.indexOf(name);
+    if (column('label') === -1 || (column('address') === -1 && column('dns') === -1)) {
+        throw new AddressBookImportError('Label and address columns are required', 1);
+    }
+
+    const cell = (row: string[], name: string) => (row[column(name)] ?? '').trim();
+
+    const entries = new Map<string, AddressBookEntry>();
+    rows.slice(1).forEach((row, index) => {
+        const line = index + 2;
+        const label = cell(row, 'label');
+        if (!label) {
+            throw new AddressBookImportError('Label is required', line);
+        }
+
+        const address = parseCsvAddress(
+            line,
+            cell(row, 'blockchain'),
+            cell(row, 'address'),
+            cell(row, 'dns')
+        );
+
+        const entry =
+            entries.get(label) ??
+            createAddressBookEntry({
+                label,
+                tags: cell(row, 'tags')
+                    .split(CSV_TAGS_SEPARATOR)
+                    .map(tag => tag.trim())
+                    .filter(Boolean),
+                note: cell(row, 'note') || undefined,
+                addresses: []
+            });
+
+        if (
+            !entry.addresses.some(
+                item =>
+                    item.blockchain === address.blockchain &&
+                    item.address === address.address &&
+                    item.dns === address.dns
+            )
+        ) {
+            entry.addresses.push(address);
+        }
+        entries.set(label, entry);
+    });
+
+    return [...entries.values()];
+};
+
+/**
+ * Imported entries with the label of an existing entry are merged into it: new addresses and tags are added,
+ * addresses and the note of the existing entry are kept
+ */
+export const mergeAddressBook = (current: AddressBookEntry[], imported: AddressBookEntry[]) => {
+    const entries = current.map(entry => ({ ...entry, addresses: [...entry.addresses] }));
+    let added = 0;
+    let updated = 0;
+
+    imported.forEach(entry => {
+        const same = entries.find(item => item.label.toLowerCase() === entry.label.toLowerCase());
+        if (!same) {
+            entries.push(entry);
+            added += 1;
+            return;
+        }
+
+        const addresses = entry.addresses.filter(
+            address =>
+                !same.addresses.some(item =>
+                    isSameAddressBookAddress(item, address.blockchain, address.address)
+                )
+        );
+        const tags = entry.tags.filter(tag => !same.tags.includes(tag));
+        if (addresses.length > 0 || tags.length > 0) {
+            same.addresses.push(...addresses);
+            same.tags = same.tags.concat(tags);
+            same.updatedAt = Date.now();
+            updated += 1;
+        }
+    });
+
+    return { entries, added, updated };
+};
+
+/**
+ * Parses the CSV file, resolves DNS names of rows without an address and merges the result into the address book
+ */
+export const importAddressBookCsv = async (api: APIConfig, storage: IStorage, content: string) => {
+    const imported = parseAddressBookCsv(content);
+
+    for (const entry of imported) {
+        for (const item of entry.addresses) {
+            if (item.address || !item.dns) continue;
+            try {
+                item.address = await resolveAddressBookDns(api, item.dns);
+            } catch (e) {
+                throw new AddressBookImportError(`Cannot resolve DNS name: ${item.dns}`);
+            }
+        }
+    }
+
+    const result = mergeAddressBook(await getAddressBook(storage), imported);
+    await setAddressBook(storage, result.entries);
+    return { added: result.added, updated: result.updated };
+};
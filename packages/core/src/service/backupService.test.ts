@@ -0,0 +1,102 @@
+import { mnemonicNew, mnemonicToPrivateKey } from '@ton/crypto';
+import { AppKey } from '../Keys';
+import { MemoryStorage } from '../Storage';
+import { AccountsState, AccountTonMnemonic } from '../entries/account';
+import { AuthPassword } from '../entries/password';
+import { WalletVersion } from '../entries/wallet';
+import { WalletBackupMnemonicError } from '../errors/WalletBackupMnemonicError';
+import { accountsStorage } from './accountsStorage';
+import { createWalletBackup, decryptWalletBackup, restoreWalletBackup } from './backupService';
+import { encrypt } from './cryptoService';
+
+const password = 'backup password';
+
+const createAccount = async (name: string, mnemonic: string[]) => {
+    const publicKey = (await mnemonicToPrivateKey(mnemonic)).publicKey.toString('hex');
+    const walletId = '0:' + publicKey;
+    return new AccountTonMnemonic(
+        publicKey,
+        name,
+        '😀',
+        { kind: 'keychain', keychainStoreKey: publicKey },
+        walletId,
+        [{ id: walletId, rawAddress: walletId, publicKey, version: WalletVersion.V4R2 }]
+    );
+};
+
+/**
+ * Backup of the accounts created with the given mnemonics
+ */
+const createBackupData = async (mnemonics: string[][]) => {
+    const storage = new MemoryStorage();
+    const accounts = await Promise.all(
+        mnemonics.map((mnemonic, index) => createAccount(`Wallet ${index}`, mnemonic))
+    );
+    await accountsStorage(storage).setAccounts(accounts);
+
+    const file = await createWalletBackup({
+        storage,
+        password,
+        getMnemonic: async id => mnemonics[accounts.findIndex(a => a.id === id)]
+    });
+    return decryptWalletBackup(file, password);
+};
+
+const restore = (storage: MemoryStorage, data: Awaited<ReturnType<typeof createBackupData>>) =>
+    restoreWalletBackup({
+        storage,
+        data,
+        password,
+        secureMnemonic: async (_, mnemonic) => ({
+            kind: 'password',
+            encryptedMnemonic: mnemonic.join(' ')
+        })
+    });
+
+describe('restoreWalletBackup', () => {
+    let first: string[];
+    let second: string[];
+
+    beforeAll(async () => {
+        first = await mnemonicNew(24);
+        second = await mnemonicNew(24);
+    });
+
+    it('restores accounts with the mnemonics of the backup', async () => {
+        const storage = new MemoryStorage();
+        const data = await createBackupData([first, second]);
+
+        const result = await restore(storage, data);
+
+        expect(result).toEqual({ importedAccounts: 2, conflicts: [] });
+        const accounts = (await storage.get<AccountsState>(AppKey.ACCOUNTS))!;
+        expect(
+            accounts.map(a => ((a as AccountTonMnemonic).auth as AuthPassword).encryptedMnemonic)
+        ).toEqual([first.join(' '), second.join(' ')]);
+    });
+
+    it('rejects a mnemonic that does not derive the account key and restores nothing', async () => {
+        const storage = new MemoryStorage();
+        const data = await createBackupData([first, second]);
+        ((data.accounts[1] as AccountTonMnemonic).auth as AuthPassword).encryptedMnemonic =
+            await encrypt(first.join(' '), password);
+        const secureMnemonic = jest.fn();
+
+        const restoring = restoreWalletBackup({ storage, data, password, secureMnemonic });
+
+        await expect(restoring).rejects.toBeInstanceOf(WalletBackupMnemonicError);
+        await expect(restoring).rejects.toMatchObject({ accountName: 'Wallet 1' });
+        expect(secureMnemonic).not.toHaveBeenCalled();
+        expect(await storage.get(AppKey.ACCOUNTS)).toBeNull();
+    });
+
+    it('rejects a wallet with a public key of another mnemonic', async () => {
+        const data = await createBackupData([first]);
+        const otherKey = (await mnemonicToPrivateKey(second)).publicKey.toString('hex');
+        (data.accounts[0] as AccountTonMnemonic).tonWallets[0].publicKey = otherKey;
+
+        await expect(restore(new MemoryStorage(), data)).rejects.toBeInstanceOf(
+            WalletBackupMnemonicError
+        );
+    });
+});
@@ -0,0 +1,566 @@
+import { mnemonicToPrivateKey } from '@ton/crypto';
+import { AppKey } from '../Keys';
+import { WalletBackupMnemonicError } from '../errors/WalletBackupMnemonicError';
+import { WalletBackupPasswordError } from '../errors/WalletBackupPasswordError';
+import { IStorage } from '../Storage';
+import { Account, AccountId, AccountTonMnemonic, bindAccountToClass } from '../entries/account';
+import { AddressBookEntry } from '../entries/addressBook';
+import { Network } from '../entries/network';
+import { AuthKeychain, AuthPassword } from '../entries/password';
+import { FavoriteSuggestion } from '../entries/suggestion';
+import { isStandardTonWallet, TonContract, TonWalletConfig, WalletId } from '../entries/wallet';
+import { accountsStorage } from './accountsStorage';
+import { getAddressBook, mergeAddressBook, setAddressBook } from './addressBookService';
+import { decrypt, encrypt } from './cryptoService';
+import { getFavoriteSuggestions, getHiddenSuggestions } from './suggestionService';
+import { AccountConnection } from './tonConnect/connectionService';
+import {
+    getActiveWalletConfig,
+    isWalletConfigStored,
+    setActiveWalletConfig
+} from './wallet/configService';
+
+export const WALLET_BACKUP_FORMAT = 'tonkeeper-wallet-backup';
+export const WALLET_BACKUP_VERSION = 1;
+
+export interface WalletBackupFile {
+    format: typeof WALLET_BACKUP_FORMAT;
+    version: number;
+    createdAt: number;
+    /**
+     * Serialized WalletBackupData encrypted with the backup password
+     */
+    payload: string;
+}
+
+/**
+ * Multi send lists are kept in the storage format, the content of a list is not interpreted
+ */
+export interface WalletBackupMultiSendList {
+    id: number;
+    name: string;
+    [key: string]: unknown;
+}
+
+export interface WalletBackupData {
+    /**
+     * Mnemonic accounts are saved with the password auth, the mnemonic is encrypted with the backup password
+     */
+    accounts: Account[];
+    activeAccountId: AccountId | null;
+    walletConfigs: { walletId: WalletId; network: Network; config: TonWalletConfig }[];
+    connections: { walletId: WalletId; network: Network; items: AccountConnection[] }[];
+    favourites: { publicKey: string; items: FavoriteSuggestion[] }[];
+    hiddenSuggestions: { publicKey: string; items: string[] }[];
+    multiSendLists: WalletBackupMultiSendList[];
+    /**
+     * Missing in backups created before the address book was introduced
+     */
+    addressBook?: AddressBookEntry[];
+}
+
+export type WalletBackupConflictType =
+    | 'account'
+    | 'wallet-config'
+    | 'connection'
+    | 'favourite'
+    | 'multi-send-list';
+
+/**
+ * Backup item that was not imported because the storage already has a different item with the same key
+ */
+export interface WalletBackupConflict {
+    type: WalletBackupConflictType;
+    name: string;
+}
+
+export interface WalletBackupRestoreResult {
+    importedAccounts: number;
+    conflicts: WalletBackupConflict[];
+}
+
+const networks = [Network.MAINNET, Network.TESTNET];
+
+const connectionsKey = (walletId: WalletId, network: Network) =>
+    `${AppKey.CONNECTIONS}_${walletId}_${network}`;
+
+const uniqueWallets = (accounts: Account[]) => {
+    const wallets = new Map<WalletId, TonContract>();
+    accounts.forEach(account =>
+        account.allTonWallets.forEach(wallet => wallets.set(wallet.id, wallet))
+    );
+    return [...wallets.values()];
+};
+
+const uniquePublicKeys = (accounts: Account[]) => [
+    ...new Set(
+        uniqueWallets(accounts)
+            .filter(isStandardTonWallet)
+            .map(wallet => wallet.publicKey)
+    )
+];
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Collects accounts and all user data related to them.
+ * Mnemonics never leave the method unencrypted, the caller provides them decrypted with the device auth
+ */
+export const createWalletBackup = async (options: {
+    storage: IStorage;
+    password: string;
+    getMnemonic: (accountId: AccountId) => Promise<string[]>;
+}): Promise<WalletBackupFile> => {
+    const { storage, password, getMnemonic } = options;
+    const accStorage = accountsStorage(storage);
+    const accounts = await accStorage.getAccounts();
+
+    const backupAccounts: Account[] = [];
+    for (const account of accounts) {
+        const cloned = account.clone();
+        if (cloned.type === 'mnemonic') {
+            const mnemonic = await getMnemonic(account.id);
+            const auth: AuthPassword = {
+                kind: 'password',
+                encryptedMnemonic: await encrypt(mnemonic.join(' '), password)
+            };
+            cloned.auth = auth;
+        }
+        backupAccounts.push(cloned);
+    }
+
+    const wallets = uniqueWallets(accounts);
+    const publicKeys = uniquePublicKeys(accounts);
+
+    const data: WalletBackupData = {
+        accounts: backupAccounts,
+        activeAccountId: await accStorage.getActiveAccountId(),
+        walletConfigs: [],
+        connections: [],
+        favourites: [],
+        hiddenSuggestions: [],
+        multiSendLists:
+            (await storage.get<WalletBackupMultiSendList[]>(AppKey.MULTI_SEND_LISTS)) ?? [],
+        addressBook: await getAddressBook(storage)
+    };
+
+    for (const wallet of wallets) {
+        for (const network of networks) {
+            if (await isWalletConfigStored(storage, wallet.rawAddress, network)) {
+                const config = await getActiveWalletConfig(storage, wallet.rawAddress, network);
+                data.walletConfigs.push({ walletId: wallet.id, network, config });
+            }
+
+            const items = await storage.get<AccountConnection[]>(
+                connectionsKey(wallet.id, network)
+            );
+            if (items && items.length > 0) {
+                data.connections.push({ walletId: wallet.id, network, items });
+            }
+        }
+    }
+
+    for (const publicKey of publicKeys) {
+        const favourites = await getFavoriteSuggestions(storage, publicKey);
+        if (favourites.length > 0) {
+            data.favourites.push({ publicKey, items: favourites });
+        }
+        const hidden = await getHiddenSuggestions(storage, publicKey);
+        if (hidden.length > 0) {
+            data.hiddenSuggestions.push({ publicKey, items: hidden });
+        }
+    }
+
+    return {
+        format: WALLET_BACKUP_FORMAT,
+        version: WALLET_BACKUP_VERSION,
+        createdAt: Date.now(),
+        payload: await encrypt(JSON.stringify(data), password)
+    };
+};
+
+/**
+ * Validates the content of the backup file, the payload is not decrypted
+ */
+export const parseWalletBackupFile = (content: string): WalletBackupFile => {
+    let file: Partial<WalletBackupFile>;
+    try {
+        file = JSON.parse(content);
+    } catch (e) {
+        throw new Error('Backup file is not valid');
+    }
+
+    if (file?.format !== WALLET_BACKUP_FORMAT || typeof file.payload !== 'string') {
+        throw new Error('Backup file is not valid');
+    }
+    if (typeof file.version !== 'number' || file.version > WALLET_BACKUP_VERSION) {
+        throw new Error(`Unsupported backup file version: ${file.version}`);
+    }
+
+    return file as WalletBackupFile;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isArrayOf = (value: unknown, check: (item: unknown) => boolean): value is unknown[] =>
+    Array.isArray(value) && value.every(check);
+
+const isHttpUrl = (value: unknown) => isString(value) && /^https?:\/\//.test(value);
+
+const isPublicKey = (value: unknown) => isString(value) && /^[0-9a-f]{64}$/i.test(value);
+
+const isNetwork = (value: unknown) => networks.includes(value as Network);
+
+const accountTypes: Account['type'][] = [
+    'mnemonic',
+    'ledger',
+    'keystone',
+    'ton-only',
+    'watch-only',
+    'ton-multisig'
+];
+
+const isBackupAccount = (value: unknown) => {
+    if (
+        !isObject(value) ||
+        !isString(value.id) ||
+        !isString(value.name) ||
+        !accountTypes.includes(value.type as Account['type'])
+    ) {
+        return false;
+    }
+    if (value.type === 'mnemonic') {
+        return (
+            isObject(value.auth) &&
+            value.auth.kind === 'password' &&
+            isString(value.auth.encryptedMnemonic)
+        );
+    }
+    return true;
+};
+
+const hasValidWallets = (account: Account) => {
+    try {
+        return account.allTonWallets.every(
+            wallet => isString(wallet.id) && isString(wallet.rawAddress)
+        );
+    } catch (e) {
+        return false;
+    }
+};
+
+const isBackupConnection = (value: unknown) =>
+    isObject(value) &&
+    isString(value.clientSessionId) &&
+    isObject(value.manifest) &&
+    isHttpUrl(value.manifest.url) &&
+    isString(value.manifest.name) &&
+    isObject(value.sessionKeyPair) &&
+    isString(value.sessionKeyPair.publicKey) &&
+    isString(value.sessionKeyPair.secretKey) &&
+    (value.bridgeUrl === undefined || isHttpUrl(value.bridgeUrl));
+
+const isBackupFavourite = (value: unknown) =>
+    isObject(value) && isString(value.address) && isString(value.name);
+
+const isBackupAddressBookEntry = (value: unknown) =>
+    isObject(value) &&
+    isString(value.id) &&
+    isString(value.label) &&
+    isArrayOf(value.tags, isString) &&
+    isArrayOf(
+        value.addresses,
+        address => isObject(address) && isString(address.blockchain) && isString(address.address)
+    );
+
+const backupDataKeys: (keyof WalletBackupData)[] = [
+    'accounts',
+    'activeAccountId',
+    'walletConfigs',
+    'connections',
+    'favourites',
+    'hiddenSuggestions',
+    'multiSendLists',
+    'addressBook'
+];
+
+/**
+ * Checks the decrypted payload before anything is written to the storage,
+ * unknown fields and items the restore can't interpret reject the whole backup
+ */
+const parseWalletBackupData = (content: string, version: number): WalletBackupData => {
+    const invalid = () => new Error('Backup file is not valid');
+
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch (e) {
+        throw invalid();
+    }
+
+    if (version !== WALLET_BACKUP_VERSION || !isObject(data)) {
+        throw invalid();
+    }
+    if (Object.keys(data).some(key => !backupDataKeys.includes(key as keyof WalletBackupData))) {
+        throw invalid();
+    }
+
+    if (
+        !isArrayOf(data.accounts, isBackupAccount) ||
+        !(data.activeAccountId === null || isString(data.activeAccountId)) ||
+        !isArrayOf(
+            data.walletConfigs,
+            item =>
+                isObject(item) &&
+                isString(item.walletId) &&
+                isNetwork(item.network) &&
+                isObject(item.config)
+        ) ||
+        !isArrayOf(
+            data.connections,
+            item =>
+                isObject(item) &&
+                isString(item.walletId) &&
+                isNetwork(item.network) &&
+                isArrayOf(item.items, isBackupConnection)
+        ) ||
+        !isArrayOf(
+            data.favourites,
+            item =>
+                isObject(item) &&
+                isPublicKey(item.publicKey) &&
+                isArrayOf(item.items, isBackupFavourite)
+        ) ||
+        !isArrayOf(
+            data.hiddenSuggestions,
+            item => isObject(item) && isPublicKey(item.publicKey) && isArrayOf(item.items, isString)
+        ) ||
+        !isArrayOf(
+            data.multiSendLists,
+            item => isObject(item) && typeof item.id === 'number' && isString(item.name)
+        ) ||
+        !(data.addressBook === undefined || isArrayOf(data.addressBook, isBackupAddressBookEntry))
+    ) {
+        throw invalid();
+    }
+
+    const backup = data as unknown as WalletBackupData;
+    backup.accounts.forEach(bindAccountToClass);
+    if (!backup.accounts.every(hasValidWallets)) {
+        throw invalid();
+    }
+
+    const publicKeys = uniquePublicKeys(backup.accounts);
+    if (
+        [...backup.favourites, ...backup.hiddenSuggestions].some(
+            item => !publicKeys.includes(item.publicKey)
+        )
+    ) {
+        throw invalid();
+    }
+
+    return backup;
+};
+
+export const decryptWalletBackup = async (
+    file: WalletBackupFile,
+    password: string
+): Promise<WalletBackupData> => {
+    let content: string;
+    try {
+        content = await decrypt(file.payload, password);
+    } catch (e) {
+        throw new WalletBackupPasswordError();
+    }
+
+    return parseWalletBackupData(content, file.version);
+};
+
+/**
+ * The mnemonic has to derive the public key of the account and its wallets, otherwise the backup is corrupted or forged
+ */
+const checkBackupMnemonicOrDie = async (account: AccountTonMnemonic, mnemonic: string[]) => {
+    const { publicKey } = await mnemonicToPrivateKey(mnemonic);
+    const publicKeyHex = publicKey.toString('hex');
+
+    if (
+        account.id !== publicKeyHex ||
+        account.tonWallets.some(wallet => wallet.publicKey !== publicKeyHex)
+    ) {
+        throw new WalletBackupMnemonicError(account.name);
+    }
+};
+
+const restoreAccounts = async (
+    storage: IStorage,
+    data: WalletBackupData,
+    password: string,
+    secureMnemonic: (account: Account, mnemonic: string[]) => Promise<AuthPassword | AuthKeychain>,
+    conflicts: WalletBackupConflict[]
+) => {
+    const accStorage = accountsStorage(storage);
+    const existing = await accStorage.getAccounts();
+
+    const accounts = data.accounts.filter(account => {
+        if (existing.some(item => item.id === account.id)) {
+            conflicts.push({ type: 'account', name: account.name });
+            return false;
+        }
+        return true;
+    });
+
+    // every mnemonic is checked before any of them is secured, a mismatch rejects the whole restore
+    const mnemonics = new Map<AccountId, string[]>();
+    for (const account of accounts) {
+        if (account.type === 'mnemonic') {
+            const mnemonic = (
+                await decrypt((account.auth as AuthPassword).encryptedMnemonic, password)
+            ).split(' ');
+            await checkBackupMnemonicOrDie(account, mnemonic);
+            mnemonics.set(account.id, mnemonic);
+        }
+    }
+
+    const imported: Account[] = [];
+    for (const account of accounts) {
+        if (account.type === 'mnemonic') {
+            account.auth = await secureMnemonic(account, mnemonics.get(account.id)!);
+        }
+        imported.push(account);
+    }
+
+    if (imported.length > 0) {
+        await accStorage.addAccountsToState(imported);
+
+        const isFirstImport = existing.length === 0;
+        const activeId = imported.some(item => item.id === data.activeAccountId)
+            ? data.activeAccountId
+            : imported[0].id;
+        if (isFirstImport && activeId) {
+            await accStorage.setActiveAccountId(activeId);
+        }
+    }
+
+    return imported;
+};
+
+const restoreWalletData = async (
+    storage: IStorage,
+    data: WalletBackupData,
+    conflicts: WalletBackupConflict[]
+) => {
+    const wallets = uniqueWallets(await accountsStorage(storage).getAccounts());
+
+    for (const { walletId, network, config } of data.walletConfigs) {
+        const wallet = wallets.find(item => item.id === walletId);
+        if (!wallet) continue;
+
+        if (await isWalletConfigStored(storage, wallet.rawAddress, network)) {
+            const current = await getActiveWalletConfig(storage, wallet.rawAddress, network);
+            if (!sameJson(current, config)) {
+                conflicts.push({ type: 'wallet-config', name: wallet.rawAddress });
+            }
+            continue;
+        }
+        await setActiveWalletConfig(storage, wallet.rawAddress, network, config);
+    }
+
+    for (const { walletId, network, items } of data.connections) {
+        if (!wallets.some(item => item.id === walletId)) continue;
+
+        const key = connectionsKey(walletId, network);
+        const current = (await storage.get<AccountConnection[]>(key)) ?? [];
+        const added = items.filter(item => {
+            const same = current.find(c => c.manifest.url === item.manifest.url);
+            if (same && same.clientSessionId !== item.clientSessionId) {
+                conflicts.push({ type: 'connection', name: item.manifest.name });
+            }
+            return !same;
+        });
+        if (added.length > 0) {
+            await storage.set(key, current.concat(added));
+        }
+    }
+
+    for (const { publicKey, items } of data.favourites) {
+        const key = `${AppKey.FAVOURITES}_${publicKey}`;
+        const current = await getFavoriteSuggestions(storage, publicKey);
+        const added = items.filter(item => {
+            const same = current.find(c => c.address === item.address);
+            if (same && same.name !== item.name) {
+                conflicts.push({ type: 'favourite', name: item.name });
+            }
+            return !same;
+        });
+        if (added.length > 0) {
+            await storage.set(key, current.concat(added));
+        }
+    }
+
+    for (const { publicKey, items } of data.hiddenSuggestions) {
+        const current = await getHiddenSuggestions(storage, publicKey);
+        const added = items.filter(item => !current.includes(item));
+        if (added.length > 0) {
+            await storage.set(`${AppKey.HIDDEN_SUGGESTIONS}_${publicKey}`, current.concat(added));
+        }
+    }
+};
+
+const restoreMultiSendLists = async (
+    storage: IStorage,
+    data: WalletBackupData,
+    conflicts: WalletBackupConflict[]
+) => {
+    const current = (await storage.get<WalletBackupMultiSendList[]>(AppKey.MULTI_SEND_LISTS)) ?? [];
+    let nextId = Math.max(0, ...current.map(item => item.id)) + 1;
+
+    const added: WalletBackupMultiSendList[] = [];
+    data.multiSendLists.forEach(list => {
+        const same = current.find(item => item.name === list.name);
+        if (same) {
+            if (!sameJson({ ...same, id: 0 }, { ...list, id: 0 })) {
+                conflicts.push({ type: 'multi-send-list', name: list.name });
+            }
+            return;
+        }
+        added.push({ ...list, id: nextId++ });
+    });
+
+    if (added.length > 0) {
+        await storage.set(AppKey.MULTI_SEND_LISTS, current.concat(added));
+    }
+};
+
+const restoreAddressBook = async (storage: IStorage, data: WalletBackupData) => {
+    if (!data.addressBook?.length) {
+        return;
+    }
+    const { entries } = mergeAddressBook(await getAddressBook(storage), data.addressBook);
+    await setAddressBook(storage, entries);
+};
+
+/**
+ * Merges the backup into the storage. Items already existing in the storage are never overwritten,
+ * different items with the same key are reported as conflicts and skipped.
+ * Mnemonics of the imported accounts are protected with the device auth by the secureMnemonic callback.
+ * Throws WalletBackupMnemonicError and restores nothing if a mnemonic does not derive its account key
+ */
+export const restoreWalletBackup = async (options: {
+    storage: IStorage;
+    data: WalletBackupData;
+    password: string;
+    secureMnemonic: (account: Account, mnemonic: string[]) => Promise<AuthPassword | AuthKeychain>;
+}): Promise<WalletBackupRestoreResult> => {
+    const { storage, data, password, secureMnemonic } = options;
+    const conflicts: WalletBackupConflict[] = [];
+
+    const imported = await restoreAccounts(storage, data, password, secureMnemonic, conflicts);
+    await restoreWalletData(storage, data, conflicts);
+    await restoreMultiSendLists(storage, data, conflicts);
+    await restoreAddressBook(storage, data);
+
+    return { importedAccounts: imported.length, conflicts };
+};
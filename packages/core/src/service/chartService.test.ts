@@ -0,0 +1,77 @@
+import { APIConfig } from '../entries/apis';
+import { FiatCurrencies } from '../entries/fiat';
+import { RatesApi } from '../tonApiV2';
+import { getDailyChartRatesInRange } from './chartService';
+
+jest.mock('../tonApiV2', () => ({
+    ...jest.requireActual('../tonApiV2'),
+    RatesApi: jest.fn()
+}));
+
+const api = {} as APIConfig;
+const day = 24 * 60 * 60;
+const startDate = 1672531200; // 2023-01-01
+const endDate = startDate + 365 * day;
+
+type ChartRequest = { token: string; startDate: number; endDate: number; pointsCount: number };
+
+/**
+ * Evenly spaced points of the requested range, the newest point first like tonapi returns them
+ */
+const getChartRates = jest.fn(async (request: ChartRequest) => {
+    const step = (request.endDate - request.startDate) / (request.pointsCount - 1);
+    return {
+        points: Array.from({ length: request.pointsCount }, (_, index) => {
+            const timestamp = Math.round(request.endDate - index * step);
+            return [timestamp, timestamp / day];
+        })
+    };
+});
+
+beforeEach(() => {
+    getChartRates.mockClear();
+    (RatesApi as unknown as jest.Mock).mockImplementation(() => ({ getChartRates }));
+});
+
+describe('getDailyChartRatesInRange', () => {
+    it('requests a long range in chunks with a point at least every day', async () => {
+        const points = await getDailyChartRatesInRange(api, {
+            token: 'ton',
+            currency: FiatCurrencies.USD,
+            startDate,
+            endDate
+        });
+
+        const requests = getChartRates.mock.calls.map(([request]) => request);
+        expect(requests.length).toBeGreaterThan(1);
+        expect(requests[0].startDate).toBe(startDate);
+        expect(requests[requests.length - 1].endDate).toBe(endDate);
+        requests.forEach((request, index) => {
+            expect(request.pointsCount).toBeLessThanOrEqual(200);
+            expect(
+                (request.endDate - request.startDate) / (request.pointsCount - 1)
+            ).toBeLessThanOrEqual(day);
+            if (index > 0) {
+                expect(request.startDate).toBe(requests[index - 1].endDate);
+            }
+        });
+
+        expect(points[0].timestamp).toBe(startDate);
+        expect(points[points.length - 1].timestamp).toBe(endDate);
+        points.slice(1).forEach((point, index) => {
+            expect(point.timestamp - points[index].timestamp).toBeGreaterThan(0);
+            expect(point.timestamp - points[index].timestamp).toBeLessThanOrEqual(day);
+        });
+    });
+
+    it('requests a short range at once', async () => {
+        await getDailyChartRatesInRange(api, {
+            token: 'ton',
+            currency: FiatCurrencies.USD,
+            startDate,
+            endDate: startDate + 30 * day
+        });
+
+        expect(getChartRates).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,148 @@
+import { APIConfig } from '../entries/apis';
+import { FiatCurrencies } from '../entries/fiat';
+import { RatesApi } from '../tonApiV2';
+
+export enum ChartPeriod {
+    day = '1D',
+    week = '1W',
+    month = '1M',
+    halfYear = '6M',
+    year = '1Y',
+    all = 'all'
+}
+
+export const chartPeriods = Object.values(ChartPeriod);
+
+export interface ChartPoint {
+    timestamp: number; // seconds
+    value: number;
+}
+
+const day = 24 * 60 * 60;
+
+const periodDuration: Record<ChartPeriod, number | undefined> = {
+    [ChartPeriod.day]: day,
+    [ChartPeriod.week]: 7 * day,
+    [ChartPeriod.month]: 30 * day,
+    [ChartPeriod.halfYear]: 182 * day,
+    [ChartPeriod.year]: 365 * day,
+    [ChartPeriod.all]: undefined
+};
+
+/**
+ * Most points tonapi returns for one chart request
+ */
+export const chartPointsCount = 200;
+
+/**
+ * Chunk of the daily rates request, the points of a chunk are at most a day apart
+ */
+const dailyChunkDuration = (chartPointsCount - 1) * day;
+
+/**
+ * @returns undefined for the whole available history
+ */
+export const getChartPeriodStartDate = (
+    period: ChartPeriod,
+    now = Math.floor(Date.now() / 1000)
+) => {
+    const duration = periodDuration[period];
+    return duration === undefined ? undefined : now - duration;
+};
+
+/**
+ * tonapi returns the chart as a list of [timestamp, price] pairs, the newest point first
+ */
+const toChartPoints = (points: unknown): ChartPoint[] => {
+    if (!Array.isArray(points)) {
+        return [];
+    }
+    return points
+        .filter(
+            (item): item is [number, number] =>
+                Array.isArray(item) && typeof item[0] === 'number' && typeof item[1] === 'number'
+        )
+        .map(([timestamp, value]) => ({ timestamp, value }))
+        .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * @param token "ton" or the jetton master address
+ */
+export const getChartRatesInRange = async (
+    api: APIConfig,
+    options: { token: string; currency: FiatCurrencies; startDate?: number; endDate: number }
+): Promise<ChartPoint[]> => {
+    const { points } = await new RatesApi(api.tonApiV2).getChartRates({
+        token: options.token,
+        currency: options.currency,
+        startDate: options.startDate,
+        endDate: options.endDate,
+        pointsCount: chartPointsCount
+    });
+
+    return toChartPoints(points);
+};
+
+/**
+ * Rates with at least one point per day, a long range is requested in chunks
+ */
+export const getDailyChartRatesInRange = async (
+    api: APIConfig,
+    options: { token: string; currency: FiatCurrencies; startDate: number; endDate: number }
+): Promise<ChartPoint[]> => {
+    const points: ChartPoint[] = [];
+    for (let start = options.startDate; start < options.endDate; start += dailyChunkDuration) {
+        const chunk = await getChartRatesInRange(api, {
+            token: options.token,
+            currency: options.currency,
+            startDate: start,
+            endDate: Math.min(start + dailyChunkDuration, options.endDate)
+        });
+        points.push(...chunk);
+    }
+
+    // neighbour chunks share the boundary point
+    return points
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .filter((point, index) => index === 0 || point.timestamp !== points[index - 1].timestamp);
+};
+
+export const getChartRates = async (
+    api: APIConfig,
+    options: { token: string; currency: FiatCurrencies; period: ChartPeriod }
+) => {
+    return getChartRatesInRange(api, {
+        token: options.token,
+        currency: options.currency,
+        startDate: getChartPeriodStartDate(options.period),
+        endDate: Math.floor(Date.now() / 1000)
+    });
+};
+
+/**
+ * Value of the step chart at the moment, the first point is used for moments before the chart start
+ */
+export const getChartValueAt = (points: ChartPoint[], timestamp: number) => {
+    let result = points[0]?.value;
+    for (const point of points) {
+        if (point.timestamp > timestamp) {
+            break;
+        }
+        result = point.value;
+    }
+    return result;
+};
+
+export const getChartChange = (points: ChartPoint[], point = points[points.length - 1]) => {
+    const first = points[0];
+    if (!first || !point) {
+        return undefined;
+    }
+
+    const diff = point.value - first.value;
+    return {
+        diff,
+        percent: first.value === 0 ? 0 : (diff / first.value) * 100
+    };
+};
@@ -0,0 +1,107 @@
+import { decrypt, encrypt, isEncryptionOutdated, PBKDF2_ITERATIONS } from './cryptoService';
+
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
+
+async function encryptLegacy(plaintext: string, password: string) {
+    const pwHash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+    const key = await crypto.subtle.importKey('raw', pwHash, { name: 'AES-GCM' }, false, [
+        'encrypt'
+    ]);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ct = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        key,
+        new TextEncoder().encode(plaintext)
+    );
+    return toHex(iv) + toBase64(new Uint8Array(ct));
+}
+
+async function encryptV1(plaintext: string, password: string, iterations: number) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const baseKey = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(password),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+    const key = await crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt']
+    );
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ct = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        key,
+        new TextEncoder().encode(plaintext)
+    );
+    return [
+        'v1',
+        'pbkdf2-sha256',
+        iterations,
+        toHex(salt),
+        toHex(iv),
+        toBase64(new Uint8Array(ct))
+    ].join(':');
+}
+
+describe('cryptoService', () => {
+    const plaintext = 'abandon ability able about above absent';
+    const password = 'correct horse';
+
+    it('encrypts to the v1 pbkdf2 format', async () => {
+        const ciphertext = await encrypt(plaintext, password);
+        const [version, kdf, iterations, salt, iv, ct] = ciphertext.split(':');
+
+        expect(version).toBe('v1');
+        expect(kdf).toBe('pbkdf2-sha256');
+        expect(Number(iterations)).toBe(PBKDF2_ITERATIONS);
+        expect(salt).toMatch(/^[0-9a-f]{32}$/);
+        expect(iv).toMatch(/^[0-9a-f]{24}$/);
+        expect(Buffer.from(ct, 'base64').length).toBeGreaterThan(0);
+        expect(isEncryptionOutdated(ciphertext)).toBe(false);
+    });
+
+    it('uses a fresh salt and iv for every ciphertext', async () => {
+        const first = await encrypt(plaintext, password);
+        const second = await encrypt(plaintext, password);
+
+        expect(first).not.toBe(second);
+        expect(first.split(':')[3]).not.toBe(second.split(':')[3]);
+    });
+
+    it('decrypts v1 ciphertexts', async () => {
+        const ciphertext = await encrypt(plaintext, password);
+
+        await expect(decrypt(ciphertext, password)).resolves.toBe(plaintext);
+        await expect(decrypt(ciphertext, 'wrong password')).rejects.toThrow();
+    });
+
+    it('decrypts v1 ciphertexts with the iterations they were stored with', async () => {
+        const ciphertext = await encryptV1(plaintext, password, 1000);
+
+        await expect(decrypt(ciphertext, password)).resolves.toBe(plaintext);
+        expect(isEncryptionOutdated(ciphertext)).toBe(true);
+    });
+
+    it('decrypts legacy ciphertexts', async () => {
+        const ciphertext = await encryptLegacy(plaintext, password);
+
+        await expect(decrypt(ciphertext, password)).resolves.toBe(plaintext);
+        await expect(decrypt(ciphertext, 'wrong password')).rejects.toThrow();
+        expect(isEncryptionOutdated(ciphertext)).toBe(true);
+    });
+
+    it('rejects an unknown key derivation function', async () => {
+        const ciphertext = (await encrypt(plaintext, password)).replace('pbkdf2-sha256', 'scrypt');
+
+        await expect(decrypt(ciphertext, password)).rejects.toThrow(
+            'Unsupported key derivation function'
+        );
+        expect(isEncryptionOutdated(ciphertext)).toBe(true);
+    });
+});
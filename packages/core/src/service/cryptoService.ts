@@ -6,33 +6,108 @@
  * @since: 0.0.1
  */
 
+/**
+ * Versioned ciphertext: `v1:pbkdf2-sha256:<iterations>:<saltHex>:<ivHex>:<ciphertextBase64>`.
+ * Ciphertexts without a version prefix are legacy ones: `<ivHex><ciphertextBase64>`,
+ * encrypted with a key equal to the unsalted sha256 of the password.
+ */
+const ENCRYPTION_VERSION = 'v1';
+const KDF_ALGORITHM = 'pbkdf2-sha256';
+
+export const PBKDF2_ITERATIONS = 600000;
+const SALT_LENGTH = 16;
+
+interface EncryptionParams {
+    iterations: number;
+    salt: Uint8Array;
+}
+
+const bytesToHex = (bytes: Uint8Array) =>
+    Array.from(bytes)
+        .map(b => ('00' + b.toString(16)).slice(-2))
+        .join('');
+
+const hexToBytes = (hex: string) => new Uint8Array(hex.match(/.{2}/g)!.map(b => parseInt(b, 16)));
+
+const bytesToBase64 = (bytes: Uint8Array) =>
+    btoa(
+        Array.from(bytes)
+            .map(byte => String.fromCharCode(byte))
+            .join('')
+    );
+
+const base64ToBytes = (base64: string) => {
+    const str = atob(base64);
+    // note: why doesn't ctUint8 = new TextEncoder().encode(ctStr) work?
+    return new Uint8Array(str.match(/[\s\S]/g)!.map(ch => ch.charCodeAt(0)));
+};
+
+async function deriveLegacyKey(password: string, usage: KeyUsage) {
+    const pwUtf8 = new TextEncoder().encode(password); // encode password as UTF-8
+    const pwHash = await crypto.subtle.digest('SHA-256', pwUtf8); // hash the password
+
+    return crypto.subtle.importKey('raw', pwHash, { name: 'AES-GCM' }, false, [usage]);
+}
+
+async function derivePbkdf2Key(password: string, params: EncryptionParams, usage: KeyUsage) {
+    const baseKey = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(password),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: params.salt, iterations: params.iterations },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        [usage]
+    );
+}
+
+/**
+ * Returns true if ciphertext was produced by an outdated scheme and should be re-encrypted
+ * with the current one the next time the password is known
+ * @param ciphertext {string}
+ * @return {boolean}
+ */
+export function isEncryptionOutdated(ciphertext: string) {
+    const [version, kdf, iterations] = ciphertext.split(':');
+    return (
+        version !== ENCRYPTION_VERSION ||
+        kdf !== KDF_ALGORITHM ||
+        Number(iterations) < PBKDF2_ITERATIONS
+    );
+}
+
 /**
  * @param plaintext {string}
  * @param password {string}
  * @return {Promise<string>}
  */
 export async function encrypt(plaintext: string, password: string) {
-    const pwUtf8 = new TextEncoder().encode(password); // encode password as UTF-8
-    const pwHash = await crypto.subtle.digest('SHA-256', pwUtf8); // hash the password
+    const params: EncryptionParams = {
+        iterations: PBKDF2_ITERATIONS,
+        salt: crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
+    };
 
     const iv = crypto.getRandomValues(new Uint8Array(12)); // get 96-bit random iv
 
-    const alg = { name: 'AES-GCM', iv: iv }; // specify algorithm to use
-
-    const key = await crypto.subtle.importKey('raw', pwHash, alg, false, ['encrypt']); // generate key from pw
+    const key = await derivePbkdf2Key(password, params, 'encrypt'); // derive key from pw and salt
 
     const ptUint8 = new TextEncoder().encode(plaintext); // encode plaintext as UTF-8
-    const ctBuffer = await crypto.subtle.encrypt(alg, key, ptUint8); // encrypt plaintext using key
-
-    const ctArray = Array.from(new Uint8Array(ctBuffer)); // ciphertext as byte array
-    const ctStr = ctArray.map(byte => String.fromCharCode(byte)).join(''); // ciphertext as string
-    const ctBase64 = btoa(ctStr); // encode ciphertext as base64
+    const ctBuffer = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, ptUint8); // encrypt plaintext using key
 
-    const ivHex = Array.from(iv)
-        .map(b => ('00' + b.toString(16)).slice(-2))
-        .join(''); // iv as hex string
-
-    return ivHex + ctBase64; // return iv+ciphertext
+    return [
+        ENCRYPTION_VERSION,
+        KDF_ALGORITHM,
+        params.iterations,
+        bytesToHex(params.salt),
+        bytesToHex(iv),
+        bytesToBase64(new Uint8Array(ctBuffer))
+    ].join(':');
 }
 
 /**
@@ -41,23 +116,30 @@ export async function encrypt(plaintext: string, password: string) {
  * @return {Promise<string>}
  */
 export async function decrypt(ciphertext: string, password: string) {
-    const pwUtf8 = new TextEncoder().encode(password); // encode password as UTF-8
-    const pwHash = await crypto.subtle.digest('SHA-256', pwUtf8); // hash the password
-
-    const iv = ciphertext
-        .slice(0, 24)
-        .match(/.{2}/g)!
-        .map(byte => parseInt(byte, 16)); // get iv from ciphertext
+    let key: CryptoKey;
+    let iv: Uint8Array;
+    let ctUint8: Uint8Array;
 
-    const alg = { name: 'AES-GCM', iv: new Uint8Array(iv) }; // specify algorithm to use
+    if (ciphertext.startsWith(`${ENCRYPTION_VERSION}:`)) {
+        const [, kdf, iterations, saltHex, ivHex, ctBase64] = ciphertext.split(':');
+        if (kdf !== KDF_ALGORITHM) {
+            throw new Error(`Unsupported key derivation function: ${kdf}`);
+        }
 
-    const key = await crypto.subtle.importKey('raw', pwHash, alg, false, ['decrypt']); // use pw to generate key
-
-    const ctStr = atob(ciphertext.slice(24)); // decode base64 ciphertext
-    const ctUint8 = new Uint8Array(ctStr.match(/[\s\S]/g)!.map(ch => ch.charCodeAt(0))); // ciphertext as Uint8Array
-    // note: why doesn't ctUint8 = new TextEncoder().encode(ctStr) work?
+        key = await derivePbkdf2Key(
+            password,
+            { iterations: Number(iterations), salt: hexToBytes(saltHex) },
+            'decrypt'
+        );
+        iv = hexToBytes(ivHex);
+        ctUint8 = base64ToBytes(ctBase64);
+    } else {
+        key = await deriveLegacyKey(password, 'decrypt');
+        iv = hexToBytes(ciphertext.slice(0, 24)); // get iv from ciphertext
+        ctUint8 = base64ToBytes(ciphertext.slice(24)); // decode base64 ciphertext
+    }
 
-    const plainBuffer = await crypto.subtle.decrypt(alg, key, ctUint8); // decrypt ciphertext using key
+    const plainBuffer = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ctUint8); // decrypt ciphertext using key
     const plaintext = new TextDecoder().decode(plainBuffer); // decode password from UTF-8
 
     return plaintext; // return the plaintext
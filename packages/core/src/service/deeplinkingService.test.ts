@@ -0,0 +1,96 @@
+import { Address, beginCell } from '@ton/core';
+import { parseTonTransfer, seeIfTonTransferExpired } from './deeplinkingService';
+
+const address = Address.parse('0:' + '01'.repeat(32)).toString();
+const jetton = Address.parse('0:' + '02'.repeat(32)).toString();
+const nft = Address.parse('0:' + '03'.repeat(32)).toString();
+
+const boc = beginCell().storeUint(0x12345678, 32).endCell().toBoc().toString('base64');
+const urlSafeBoc = boc.replace(/\+/g, '-').replace(/\//g, '_');
+
+describe('parseTonTransfer', () => {
+    it('parses the transfer links of every scheme', () => {
+        const expected = { address, amount: '1000000000', text: 'Invoice 42' };
+
+        expect(
+            parseTonTransfer({
+                url: `ton://transfer/${address}?amount=1000000000&text=Invoice%2042`
+            })
+        ).toEqual(expected);
+        expect(
+            parseTonTransfer({
+                url: `tonkeeper://transfer/${address}?amount=1000000000&text=Invoice%2042`
+            })
+        ).toEqual(expected);
+        expect(
+            parseTonTransfer({
+                url: `https://app.tonkeeper.com/transfer/${address}?amount=1000000000&text=Invoice%2042`
+            })
+        ).toEqual(expected);
+        expect(parseTonTransfer({ url: address })).toEqual({ address });
+    });
+
+    it('parses the jetton, the nft, the payload and the expiration time', () => {
+        expect(
+            parseTonTransfer({
+                url: `ton://transfer/${address}?jetton=${jetton}&amount=5&exp=1700000000`
+            })
+        ).toEqual({ address, jetton, amount: '5', exp: '1700000000' });
+        expect(parseTonTransfer({ url: `ton://transfer/${address}?nft=${nft}` })).toEqual({
+            address,
+            nft
+        });
+        expect(
+            parseTonTransfer({
+                url: `ton://transfer/${address}?bin=${urlSafeBoc}&init=${urlSafeBoc}`
+            })
+        ).toEqual({ address, bin: boc, init: boc });
+    });
+
+    it('restores the plus sign of the standard base64 decoded as a space', () => {
+        const plusBoc = beginCell().storeUint(12, 32).endCell().toBoc().toString('base64');
+        expect(plusBoc).toContain('+');
+
+        expect(parseTonTransfer({ url: `ton://transfer/${address}?bin=${plusBoc}` })).toEqual({
+            address,
+            bin: plusBoc
+        });
+    });
+
+    it.each([
+        ['an unknown operator', `ton://pay/${address}`],
+        ['an invalid address', 'ton://transfer/not-an-address'],
+        ['a fractional amount', `ton://transfer/${address}?amount=1.5`],
+        ['a repeated parameter', `ton://transfer/${address}?amount=1&amount=2`],
+        ['an invalid jetton', `ton://transfer/${address}?jetton=USDT`],
+        ['a payload which is not a boc', `ton://transfer/${address}?bin=payload`],
+        ['a comment with a payload', `ton://transfer/${address}?text=hi&bin=${urlSafeBoc}`],
+        ['a jetton with an nft', `ton://transfer/${address}?jetton=${jetton}&nft=${nft}`],
+        [
+            'a jetton with a state init',
+            `ton://transfer/${address}?jetton=${jetton}&init=${urlSafeBoc}`
+        ],
+        ['an invalid expiration time', `ton://transfer/${address}?exp=tomorrow`]
+    ])('rejects %s', (_, url) => {
+        expect(parseTonTransfer({ url })).toBeNull();
+    });
+});
+
+describe('seeIfTonTransferExpired', () => {
+    const now = 1700000000;
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: now * 1000 });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('is expired from the expiration time on', () => {
+        expect(seeIfTonTransferExpired({ address })).toBe(false);
+        expect(seeIfTonTransferExpired({ address, exp: String(now + 1) })).toBe(false);
+        expect(seeIfTonTransferExpired({ address, exp: String(now) })).toBe(true);
+        expect(seeIfTonTransferExpired({ address, exp: String(now - 1) })).toBe(true);
+    });
+});
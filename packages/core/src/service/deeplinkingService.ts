@@ -1,13 +1,122 @@
-import queryString from 'query-string';
+import { Cell } from '@ton/core';
+import queryString, { ParsedQuery } from 'query-string';
 import { seeIfValidTonAddress } from '../utils/common';
 
 export interface TonTransferParams {
     address: string;
+    /**
+     * Amount in nano units of TON or of the jetton
+     */
     amount?: string;
     text?: string;
     jetton?: string;
+    /**
+     * Address of the NFT item transferred to the address
+     */
+    nft?: string;
+    /**
+     * Raw message body, base64 BOC. Sent instead of the comment
+     */
+    bin?: string;
+    /**
+     * State init of the recipient, base64 BOC
+     */
+    init?: string;
+    /**
+     * Unix time in seconds the link is valid until
+     */
+    exp?: string;
 }
 
+const integerRegex = /^\d+$/;
+
+/**
+ * Links use the url safe base64, the plus sign of the standard base64 is decoded to a space by the query parser
+ */
+const toBase64Boc = (value: string) => {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/').replace(/ /g, '+');
+    Cell.fromBase64(base64);
+    return base64;
+};
+
+const getQueryValue = (query: ParsedQuery, key: string) => {
+    const value = query[key];
+    if (value === undefined) {
+        return undefined;
+    }
+    if (typeof value !== 'string') {
+        throw new Error(`Unexpected ${key} parameter`);
+    }
+    return value;
+};
+
+const parseTransferQuery = (address: string, query: ParsedQuery) => {
+    const result: TonTransferParams = { address };
+
+    const amount = getQueryValue(query, 'amount');
+    if (amount !== undefined) {
+        if (!integerRegex.test(amount)) {
+            throw new Error('Invalid amount');
+        }
+        result.amount = amount;
+    }
+
+    const text = getQueryValue(query, 'text');
+    if (text !== undefined) {
+        result.text = text;
+    }
+
+    const jetton = getQueryValue(query, 'jetton');
+    if (jetton !== undefined) {
+        if (!seeIfValidTonAddress(jetton)) {
+            throw new Error('Invalid jetton address');
+        }
+        result.jetton = jetton;
+    }
+
+    const nft = getQueryValue(query, 'nft');
+    if (nft !== undefined) {
+        if (!seeIfValidTonAddress(nft)) {
+            throw new Error('Invalid nft address');
+        }
+        result.nft = nft;
+    }
+
+    const bin = getQueryValue(query, 'bin');
+    if (bin !== undefined) {
+        result.bin = toBase64Boc(bin);
+    }
+
+    const init = getQueryValue(query, 'init');
+    if (init !== undefined) {
+        result.init = toBase64Boc(init);
+    }
+
+    const exp = getQueryValue(query, 'exp');
+    if (exp !== undefined) {
+        if (!integerRegex.test(exp)) {
+            throw new Error('Invalid expiration time');
+        }
+        result.exp = exp;
+    }
+
+    if (result.text !== undefined && result.bin !== undefined) {
+        throw new Error('Link contains both text and binary payload');
+    }
+    if (result.jetton !== undefined && result.nft !== undefined) {
+        throw new Error('Link contains both jetton and nft');
+    }
+    if (result.init !== undefined && (result.jetton !== undefined || result.nft !== undefined)) {
+        throw new Error('State init is supported only by TON transfers');
+    }
+
+    return result;
+};
+
+/**
+ * Parses ton://transfer, tonkeeper://transfer and app links, null when the link is malformed.
+ * The expiration time is not checked, see seeIfTonTransferExpired
+ */
 export function parseTonTransfer(options: { url: string }) {
     try {
         const data = queryString.parseUrl(options.url);
@@ -28,13 +137,12 @@ export function parseTonTransfer(options: { url: string }) {
             }
         }
 
-        const result: TonTransferParams = {
-            address: linkAddress,
-            ...data.query
-        };
-
-        return result;
+        return parseTransferQuery(linkAddress, data.query);
     } catch (e) {
         return null;
     }
 }
+
+export const seeIfTonTransferExpired = (params: TonTransferParams) => {
+    return params.exp !== undefined && Number(params.exp) * 1000 <= Date.now();
+};
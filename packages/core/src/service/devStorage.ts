@@ -1,13 +1,26 @@
 import { IStorage } from '../Storage';
-import { Network } from '../entries/network';
+import { Network, NetworkProfile } from '../entries/network';
+import { TonConnectBridge, defaultTonConnectBridge } from '../entries/tonConnect';
 import { AppKey } from '../Keys';
 
 export interface DevSettings {
     tonNetwork: Network;
+    /**
+     * Ordered list of TonConnect http bridges, the first one is used for new connections,
+     * the rest are fallbacks when the bridge of a connection is not reachable
+     */
+    tonConnectBridges: TonConnectBridge[];
+    networkProfiles: NetworkProfile[];
+    /**
+     * Profile replacing the built-in network, tonNetwork is used when not set
+     */
+    activeNetworkProfileId?: string;
 }
 
 const defaultDevSettings: DevSettings = {
-    tonNetwork: Network.MAINNET
+    tonNetwork: Network.MAINNET,
+    tonConnectBridges: [defaultTonConnectBridge],
+    networkProfiles: []
 };
 
 export const getDevSettings = async (storage: IStorage) => {
@@ -22,3 +35,17 @@ export const setDevSettings = async (storage: IStorage, settings: Partial<DevSet
     const current = await getDevSettings(storage);
     await storage.set(AppKey.DEV_SETTINGS, { ...current, ...settings });
 };
+
+export const getTonConnectBridges = async (storage: IStorage) => {
+    const { tonConnectBridges } = await getDevSettings(storage);
+    return tonConnectBridges.length ? tonConnectBridges : [defaultTonConnectBridge];
+};
+
+export const getActiveNetworkProfile = (settings: DevSettings) => {
+    return settings.networkProfiles.find(item => item.id === settings.activeNetworkProfileId);
+};
+
+export const getActiveTonNetwork = async (storage: IStorage) => {
+    const settings = await getDevSettings(storage);
+    return getActiveNetworkProfile(settings)?.network ?? settings.tonNetwork;
+};
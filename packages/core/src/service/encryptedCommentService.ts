@@ -0,0 +1,213 @@
+import { Address, beginCell, Builder, Cell } from '@ton/core';
+import { getSecureRandomBytes, hmac_sha512, KeyPair, sha512 } from '@ton/crypto';
+import nacl from 'tweetnacl';
+import { APIConfig } from '../entries/apis';
+import { AccountsApi } from '../tonApiV2';
+
+export const encryptedCommentOp = 0x2167da4b;
+
+const minPadding = 16;
+const cellBytes = 127;
+const fieldPrime = BigInt(2) ** BigInt(255) - BigInt(19);
+
+const modPow = (base: bigint, exponent: bigint) => {
+    let result = BigInt(1);
+    let value = base % fieldPrime;
+    let rest = exponent;
+    while (rest > BigInt(0)) {
+        if (rest & BigInt(1)) {
+            result = (result * value) % fieldPrime;
+        }
+        value = (value * value) % fieldPrime;
+        rest >>= BigInt(1);
+    }
+    return result;
+};
+
+const bytesToBigInt = (bytes: Uint8Array) =>
+    bytes.reduceRight((acc, byte) => (acc << BigInt(8)) + BigInt(byte), BigInt(0));
+
+const bigIntToBytes = (value: bigint) => {
+    const result = new Uint8Array(32);
+    let rest = value;
+    for (let i = 0; i < 32; i++) {
+        result[i] = Number(rest & BigInt(0xff));
+        rest >>= BigInt(8);
+    }
+    return result;
+};
+
+/**
+ * Montgomery form of the ed25519 public key: u = (1 + y) / (1 - y)
+ */
+const toX25519PublicKey = (publicKey: Uint8Array) => {
+    const y = bytesToBigInt(publicKey) & ((BigInt(1) << BigInt(255)) - BigInt(1));
+    const denominator = (BigInt(1) - y + fieldPrime) % fieldPrime;
+    const u = ((BigInt(1) + y) * modPow(denominator, fieldPrime - BigInt(2))) % fieldPrime;
+    return bigIntToBytes(u);
+};
+
+/**
+ * Scalar of the ed25519 secret key, clamping is made by the scalar multiplication
+ */
+const toX25519SecretKey = async (secretKey: Uint8Array) => {
+    const hash = await sha512(Buffer.from(secretKey.subarray(0, 32)));
+    return new Uint8Array(hash.subarray(0, 32));
+};
+
+const getSharedSecret = async (secretKey: Uint8Array, publicKey: Uint8Array) =>
+    Buffer.from(nacl.scalarMult(await toX25519SecretKey(secretKey), toX25519PublicKey(publicKey)));
+
+const xorKeys = (a: Uint8Array, b: Uint8Array) => Buffer.from(a.map((byte, i) => byte ^ b[i]));
+
+const importCbcKey = (key: Buffer, usage: KeyUsage) =>
+    crypto.subtle.importKey('raw', key, { name: 'AES-CBC' }, false, [usage]);
+
+/**
+ * WebCrypto always pads the data, the data is aligned to the block so the padding block is dropped
+ */
+const encryptCbc = async (key: Buffer, iv: Buffer, data: Buffer) => {
+    const cryptoKey = await importCbcKey(key, 'encrypt');
+    const encrypted = await crypto.subtle.encrypt({ name: 'AES-CBC', iv }, cryptoKey, data);
+    return Buffer.from(encrypted).subarray(0, data.length);
+};
+
+/**
+ * The cipher text has no padding, the block decrypted to a full padding block is appended
+ * so WebCrypto accepts it and removes it
+ */
+const decryptCbc = async (key: Buffer, iv: Buffer, data: Buffer) => {
+    const cryptoKey = await importCbcKey(key, 'encrypt');
+    const lastBlock = data.subarray(data.length - 16);
+    const paddingBlock = await crypto.subtle.encrypt(
+        { name: 'AES-CBC', iv: lastBlock },
+        cryptoKey,
+        Buffer.alloc(16, 16)
+    );
+    const decrypted = await crypto.subtle.decrypt(
+        { name: 'AES-CBC', iv },
+        await importCbcKey(key, 'decrypt'),
+        Buffer.concat([data, Buffer.from(paddingBlock).subarray(0, 16)])
+    );
+    return Buffer.from(decrypted);
+};
+
+const getCbcState = async (sharedSecret: Buffer, msgKey: Buffer) => {
+    const state = await hmac_sha512(sharedSecret, msgKey);
+    return { key: state.subarray(0, 32), iv: state.subarray(32, 48) };
+};
+
+/**
+ * Random prefix aligns the data to the block, its first byte is the prefix length
+ */
+const getPrefixLength = (dataLength: number) => ((minPadding + 15 + dataLength) & -16) - dataLength;
+
+const getSalt = (senderAddress: string) =>
+    Address.parse(senderAddress).toString({ bounceable: true, urlSafe: true, testOnly: false });
+
+const storeChunk = (builder: Builder, chunk: Buffer, next: Cell | null) => {
+    builder.storeBuffer(chunk);
+    return next ? builder.storeRef(next) : builder;
+};
+
+const toSnakeCell = (data: Buffer) => {
+    const firstCellBytes = cellBytes - 4;
+    const chunks = [data.subarray(0, firstCellBytes)];
+    for (let offset = firstCellBytes; offset < data.length; offset += cellBytes) {
+        chunks.push(data.subarray(offset, offset + cellBytes));
+    }
+
+    const tail = chunks
+        .slice(1)
+        .reduceRight<Cell | null>(
+            (next, chunk) => storeChunk(beginCell(), chunk, next).endCell(),
+            null
+        );
+    return storeChunk(beginCell().storeUint(encryptedCommentOp, 32), chunks[0], tail).endCell();
+};
+
+/**
+ * Length of the encrypted comment: public keys xor, message key and the prefixed data
+ */
+const getEncryptedLength = (comment: string) => {
+    const dataLength = Buffer.from(comment, 'utf-8').length;
+    return 32 + 16 + getPrefixLength(dataLength) + dataLength;
+};
+
+/**
+ * Comment encrypted with the shared secret of the sender and the recipient keys, salted with the sender address.
+ * Either side decrypts it with its own key pair
+ */
+export const encryptComment = async (options: {
+    comment: string;
+    senderAddress: string;
+    keyPair: KeyPair;
+    recipientPublicKey: Buffer;
+}) => {
+    const { comment, senderAddress, keyPair, recipientPublicKey } = options;
+
+    const data = Buffer.from(comment, 'utf-8');
+    const prefix = await getSecureRandomBytes(getPrefixLength(data.length));
+    prefix[0] = prefix.length;
+    const prefixed = Buffer.concat([prefix, data]);
+
+    const msgKey = (await hmac_sha512(getSalt(senderAddress), prefixed)).subarray(0, 16);
+    const sharedSecret = await getSharedSecret(keyPair.secretKey, recipientPublicKey);
+    const { key, iv } = await getCbcState(sharedSecret, msgKey);
+    const encrypted = await encryptCbc(key, iv, prefixed);
+
+    return toSnakeCell(
+        Buffer.concat([xorKeys(keyPair.publicKey, recipientPublicKey), msgKey, encrypted])
+    );
+};
+
+/**
+ * Payload of the same size as the encrypted comment, used to estimate the fee before the key is available
+ */
+export const estimateEncryptedComment = (comment: string) => {
+    return toSnakeCell(Buffer.alloc(getEncryptedLength(comment)));
+};
+
+/**
+ * Decrypts the cipher text of the comment, the data after the op code
+ */
+export const decryptComment = async (options: {
+    cipherText: Buffer;
+    senderAddress: string;
+    keyPair: KeyPair;
+}) => {
+    const { cipherText, senderAddress, keyPair } = options;
+    if (cipherText.length < 32 + 16 + minPadding || (cipherText.length - 48) % 16 !== 0) {
+        throw new Error('Unexpected encrypted comment length');
+    }
+
+    const theirPublicKey = xorKeys(keyPair.publicKey, cipherText.subarray(0, 32));
+    const msgKey = cipherText.subarray(32, 48);
+    const sharedSecret = await getSharedSecret(keyPair.secretKey, theirPublicKey);
+    const { key, iv } = await getCbcState(sharedSecret, msgKey);
+    const prefixed = await decryptCbc(key, iv, cipherText.subarray(48));
+
+    const hash = await hmac_sha512(getSalt(senderAddress), prefixed);
+    if (!hash.subarray(0, 16).equals(msgKey)) {
+        throw new Error('Failed to decrypt comment');
+    }
+    const prefixLength = prefixed[0];
+    if (prefixLength < minPadding || prefixLength > prefixed.length) {
+        throw new Error('Failed to decrypt comment');
+    }
+    return prefixed.subarray(prefixLength).toString('utf-8');
+};
+
+/**
+ * Public key of the recipient wallet, undefined when the wallet is not deployed or has no get method for it
+ */
+export const getRecipientPublicKey = async (api: APIConfig, address: string) => {
+    try {
+        const { publicKey } = await new AccountsApi(api.tonApiV2).getAccountPublicKey({
+            accountId: address
+        });
+        return Buffer.from(publicKey, 'hex');
+    } catch (e) {
+        return undefined;
+    }
+};
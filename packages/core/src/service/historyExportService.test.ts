@@ -0,0 +1,102 @@
+import { APIConfig } from '../entries/apis';
+import { FiatCurrencies } from '../entries/fiat';
+import { Network } from '../entries/network';
+import { AccountsApi, RatesApi } from '../tonApiV2';
+import { getHistoryExportRows } from './historyExportService';
+
+jest.mock('../tonApiV2', () => ({
+    ...jest.requireActual('../tonApiV2'),
+    AccountsApi: jest.fn(),
+    RatesApi: jest.fn()
+}));
+
+const api = {} as APIConfig;
+const day = 24 * 60 * 60;
+const startDate = 1672531200; // 2023-01-01
+const endDate = startDate + 365 * day;
+
+describe('getHistoryExportRows', () => {
+    const wallet = { rawAddress: '0:' + '01'.repeat(32), name: 'Wallet' };
+    const jetton = { address: '0:' + '02'.repeat(32), symbol: 'JET', decimals: 9 };
+    const counterparty = { address: '0:' + '03'.repeat(32), isScam: false, isWallet: true };
+
+    beforeEach(() => {
+        (AccountsApi as unknown as jest.Mock).mockImplementation(() => ({
+            getAccountEvents: async () => ({
+                nextFrom: 0,
+                events: [
+                    {
+                        eventId: 'ton',
+                        timestamp: startDate + 10 * day,
+                        extra: 0,
+                        inProgress: false,
+                        actions: [
+                            {
+                                type: 'TonTransfer',
+                                status: 'ok',
+                                tonTransfer: {
+                                    sender: counterparty,
+                                    recipient: { address: wallet.rawAddress },
+                                    amount: 2000000000
+                                }
+                            }
+                        ]
+                    },
+                    {
+                        eventId: 'jetton',
+                        timestamp: startDate + 20 * day,
+                        extra: 0,
+                        inProgress: false,
+                        actions: [
+                            {
+                                type: 'JettonTransfer',
+                                status: 'ok',
+                                jettonTransfer: {
+                                    sender: counterparty,
+                                    recipient: { address: wallet.rawAddress },
+                                    amount: '5000000000',
+                                    jetton
+                                }
+                            }
+                        ]
+                    }
+                ]
+            })
+        }));
+    });
+
+    it('reports the tokens which rates failed to load', async () => {
+        // the price of TON is 1 for every day
+        (RatesApi as unknown as jest.Mock).mockImplementation(() => ({
+            getChartRates: async (request: {
+                token: string;
+                startDate: number;
+                endDate: number;
+            }) => {
+                if (request.token === jetton.address) {
+                    throw new Error('Rates are not available');
+                }
+                return {
+                    points: [
+                        [request.endDate, 1],
+                        [request.startDate, 1]
+                    ]
+                };
+            }
+        }));
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        const { rows, missingRates } = await getHistoryExportRows(api, {
+            wallets: [wallet],
+            startDate,
+            endDate,
+            currency: FiatCurrencies.USD,
+            network: Network.MAINNET
+        });
+
+        expect(missingRates).toEqual(['JET']);
+        expect(rows.map(row => row.eventId)).toEqual(['ton', 'jetton']);
+        expect(rows[0].fiatValue).toBe(2);
+        expect(rows[1].fiatValue).toBeUndefined();
+    });
+});
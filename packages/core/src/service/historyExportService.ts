@@ -0,0 +1,362 @@
+import BigNumber from 'bignumber.js';
+import { APIConfig } from '../entries/apis';
+import { CryptoCurrency } from '../entries/crypto';
+import { FiatCurrencies } from '../entries/fiat';
+import { Network } from '../entries/network';
+import { AccountAddress, AccountEvent, AccountsApi, Action, ActionStatusEnum } from '../tonApiV2';
+import { eqAddresses } from '../utils/address';
+import { shiftedDecimals } from '../utils/balance';
+import { formatAddress } from '../utils/common';
+import { createXlsx } from '../utils/xlsx';
+import { ChartPoint, getChartValueAt, getDailyChartRatesInRange } from './chartService';
+import { arrayToCsvString } from './parserService';
+
+export type HistoryExportFormat = 'csv' | 'xlsx' | 'json';
+
+export const historyExportFormats: HistoryExportFormat[] = ['csv', 'xlsx', 'json'];
+
+export interface HistoryExportWallet {
+    rawAddress: string;
+    name: string;
+}
+
+export interface HistoryExportAmount {
+    amount: string;
+    symbol: string;
+    /**
+     * "TON" or the jetton master address, undefined for assets without the rates like nft
+     */
+    token?: string;
+}
+
+export interface HistoryExportRow {
+    timestamp: number;
+    wallet: string;
+    walletName: string;
+    eventId: string;
+    action: Action['type'];
+    status: ActionStatusEnum;
+    counterparty?: string;
+    sent?: HistoryExportAmount;
+    received?: HistoryExportAmount;
+    fee?: HistoryExportAmount;
+    fiatValue?: number;
+    fiatCurrency: FiatCurrencies;
+    comment?: string;
+}
+
+const eventsPageSize = 100;
+
+const getAccountEventsInRange = async (
+    api: APIConfig,
+    address: string,
+    startDate: number,
+    endDate: number
+) => {
+    const accountsApi = new AccountsApi(api.tonApiV2);
+    const events: AccountEvent[] = [];
+
+    let beforeLt: number | undefined;
+    for (;;) {
+        const page = await accountsApi.getAccountEvents({
+            accountId: address,
+            limit: eventsPageSize,
+            beforeLt,
+            startDate,
+            endDate,
+            subjectOnly: true
+        });
+        events.push(...page.events.filter(event => !event.inProgress));
+
+        if (!page.nextFrom) break;
+        beforeLt = page.nextFrom;
+    }
+
+    return events;
+};
+
+const tonAmount = (amount: BigNumber.Value): HistoryExportAmount => ({
+    amount: shiftedDecimals(amount).toFixed(),
+    symbol: 'TON',
+    token: CryptoCurrency.TON
+});
+
+const jettonAmount = (
+    amount: BigNumber.Value,
+    jetton: { address: string; symbol: string; decimals: number }
+): HistoryExportAmount => ({
+    amount: shiftedDecimals(amount, jetton.decimals).toFixed(),
+    symbol: jetton.symbol,
+    token: jetton.address
+});
+
+type ActionRowValues = Pick<HistoryExportRow, 'sent' | 'received' | 'comment'> & {
+    counterparty?: AccountAddress;
+};
+
+const actionRowValues = (action: Action, wallet: string): ActionRowValues => {
+    const isWallet = (account?: AccountAddress) =>
+        account !== undefined && eqAddresses(account.address, wallet);
+
+    if (action.tonTransfer) {
+        const { sender, recipient, amount, comment } = action.tonTransfer;
+        return isWallet(sender)
+            ? { sent: tonAmount(amount), counterparty: recipient, comment }
+            : { received: tonAmount(amount), counterparty: sender, comment };
+    }
+    if (action.jettonTransfer) {
+        const { sender, recipient, amount, jetton, comment } = action.jettonTransfer;
+        return isWallet(sender)
+            ? { sent: jettonAmount(amount, jetton), counterparty: recipient, comment }
+            : { received: jettonAmount(amount, jetton), counterparty: sender, comment };
+    }
+    if (action.inscriptionTransfer) {
+        const { sender, recipient, amount, ticker, decimals, comment } = action.inscriptionTransfer;
+        const inscription = {
+            amount: shiftedDecimals(amount, decimals).toFixed(),
+            symbol: ticker
+        };
+        return isWallet(sender)
+            ? { sent: inscription, counterparty: recipient, comment }
+            : { received: inscription, counterparty: sender, comment };
+    }
+    if (action.jettonSwap) {
+        const { jettonMasterIn, jettonMasterOut, amountIn, amountOut, tonIn, tonOut, router } =
+            action.jettonSwap;
+        return {
+            sent: jettonMasterIn ? jettonAmount(amountIn, jettonMasterIn) : tonAmount(tonIn ?? 0),
+            received: jettonMasterOut
+                ? jettonAmount(amountOut, jettonMasterOut)
+                : tonAmount(tonOut ?? 0),
+            counterparty: router
+        };
+    }
+    if (action.jettonMint) {
+        return { received: jettonAmount(action.jettonMint.amount, action.jettonMint.jetton) };
+    }
+    if (action.jettonBurn) {
+        return { sent: jettonAmount(action.jettonBurn.amount, action.jettonBurn.jetton) };
+    }
+    if (action.depositStake) {
+        return {
+            sent: tonAmount(action.depositStake.amount),
+            counterparty: action.depositStake.pool
+        };
+    }
+    if (action.withdrawStake) {
+        return {
+            received: tonAmount(action.withdrawStake.amount),
+            counterparty: action.withdrawStake.pool
+        };
+    }
+    if (action.nftItemTransfer) {
+        const { sender, recipient, comment } = action.nftItemTransfer;
+        const nft = { amount: '1', symbol: 'NFT' };
+        return isWallet(sender)
+            ? { sent: nft, counterparty: recipient, comment }
+            : { received: nft, counterparty: sender, comment };
+    }
+    if (action.nftPurchase) {
+        const { amount, buyer, seller } = action.nftPurchase;
+        const price =
+            amount.tokenName === 'TON'
+                ? tonAmount(amount.value)
+                : { amount: amount.value, symbol: amount.tokenName };
+        const nft = { amount: '1', symbol: 'NFT' };
+        return isWallet(buyer)
+            ? { sent: price, received: nft, counterparty: seller }
+            : { sent: nft, received: price, counterparty: buyer };
+    }
+    if (action.smartContractExec && isWallet(action.smartContractExec.executor)) {
+        return {
+            sent: tonAmount(action.smartContractExec.tonAttached),
+            counterparty: action.smartContractExec.contract
+        };
+    }
+    return {};
+};
+
+/**
+ * Row for every action of the event, the network fee is attached to the first row
+ */
+const eventToRows = (
+    event: AccountEvent,
+    wallet: HistoryExportWallet,
+    currency: FiatCurrencies,
+    network: Network
+): HistoryExportRow[] => {
+    const fee = event.extra < 0 ? tonAmount(-event.extra) : undefined;
+
+    return event.actions.map((action, index) => {
+        const { counterparty, ...values } =
+            action.status === 'ok'
+                ? actionRowValues(action, wallet.rawAddress)
+                : ({} as ActionRowValues);
+
+        return {
+            timestamp: event.timestamp,
+            wallet: formatAddress(wallet.rawAddress, network),
+            walletName: wallet.name,
+            eventId: event.eventId,
+            action: action.type,
+            status: action.status,
+            counterparty: counterparty
+                ? counterparty.name ??
+                  formatAddress(counterparty.address, network, !counterparty.isWallet)
+                : undefined,
+            fee: index === 0 ? fee : undefined,
+            fiatCurrency: currency,
+            ...values
+        };
+    });
+};
+
+/**
+ * Symbols of the tokens without the rates are returned, their rows are exported without the fiat value
+ */
+const withFiatValues = async (
+    api: APIConfig,
+    rows: HistoryExportRow[],
+    options: { currency: FiatCurrencies; startDate: number; endDate: number }
+) => {
+    const tokens = new Map<string, string>();
+    rows.flatMap(row => [row.sent, row.received]).forEach(item => {
+        if (item?.token) {
+            tokens.set(item.token, item.symbol);
+        }
+    });
+
+    const rates = new Map<string, ChartPoint[]>();
+    const missingRates: string[] = [];
+    for (const [token, symbol] of tokens) {
+        try {
+            const points = await getDailyChartRatesInRange(api, { token, ...options });
+            if (points.length) {
+                rates.set(token, points);
+                continue;
+            }
+        } catch (e) {
+            console.error(e);
+        }
+        missingRates.push(symbol);
+    }
+
+    const valuedRows = rows.map(row => {
+        const valued = [row.received, row.sent].find(
+            item => item?.token && rates.get(item.token)?.length
+        );
+        if (!valued) {
+            return row;
+        }
+
+        const rate = getChartValueAt(rates.get(valued.token!)!, row.timestamp);
+        return { ...row, fiatValue: new BigNumber(valued.amount).multipliedBy(rate).toNumber() };
+    });
+
+    return { rows: valuedRows, missingRates };
+};
+
+export const getHistoryExportRows = async (
+    api: APIConfig,
+    options: {
+        wallets: HistoryExportWallet[];
+        startDate: number;
+        endDate: number;
+        currency: FiatCurrencies;
+        network: Network;
+    }
+) => {
+    const { wallets, startDate, endDate, currency, network } = options;
+
+    const rows: HistoryExportRow[] = [];
+    for (const wallet of wallets) {
+        const events = await getAccountEventsInRange(api, wallet.rawAddress, startDate, endDate);
+        rows.push(...events.flatMap(event => eventToRows(event, wallet, currency, network)));
+    }
+    rows.sort((a, b) => a.timestamp - b.timestamp);
+
+    return withFiatValues(api, rows, { currency, startDate, endDate });
+};
+
+/**
+ * Column names follow the universal template of the crypto tax tools, extra columns are appended to the end
+ */
+const HISTORY_EXPORT_HEADER = [
+    'Date',
+    'Sent Amount',
+    'Sent Currency',
+    'Received Amount',
+    'Received Currency',
+    'Fee Amount',
+    'Fee Currency',
+    'Net Worth Amount',
+    'Net Worth Currency',
+    'Description',
+    'TxHash',
+    'Wallet',
+    'Wallet Name',
+    'Counterparty',
+    'Action',
+    'Status'
+];
+
+const formatExportDate = (timestamp: number) =>
+    new Date(timestamp * 1000)
+        .toISOString()
+        .replace('T', ' ')
+        .replace(/\.\d+Z$/, ' UTC');
+
+const toTableRows = (rows: HistoryExportRow[]) =>
+    rows.map(row => [
+        formatExportDate(row.timestamp),
+        row.sent?.amount,
+        row.sent?.symbol,
+        row.received?.amount,
+        row.received?.symbol,
+        row.fee?.amount,
+        row.fee?.symbol,
+        row.fiatValue,
+        row.fiatValue !== undefined ? row.fiatCurrency : undefined,
+        row.comment,
+        row.eventId,
+        row.wallet,
+        row.walletName,
+        row.counterparty,
+        row.action,
+        row.status
+    ]);
+
+export const historyExportFile = (
+    rows: HistoryExportRow[],
+    format: HistoryExportFormat
+): { content: string | Uint8Array; mimeType: string } => {
+    switch (format) {
+        case 'csv':
+            return {
+                content: arrayToCsvString([
+                    HISTORY_EXPORT_HEADER,
+                    ...toTableRows(rows).map(row =>
+                        row.map(value => (value === undefined ? '' : String(value)))
+                    )
+                ]),
+                mimeType: 'text/csv'
+            };
+        case 'xlsx':
+            return {
+                content: createXlsx('History', [HISTORY_EXPORT_HEADER, ...toTableRows(rows)]),
+                mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+            };
+        case 'json':
+            return {
+                content: JSON.stringify(
+                    rows.map(row => ({
+                        date: new Date(row.timestamp * 1000).toISOString(),
+                        ...row
+                    })),
+                    null,
+                    2
+                ),
+                mimeType: 'application/json'
+            };
+    }
+};
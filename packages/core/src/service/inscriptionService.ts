@@ -0,0 +1,112 @@
+import BigNumber from 'bignumber.js';
+import { APIConfig } from '../entries/apis';
+import {
+    GetInscriptionOpTemplateOperationEnum,
+    InscriptionBalance,
+    InscriptionsApi
+} from '../tonApiV2';
+import { shiftedDecimals, unShiftedDecimals } from '../utils/balance';
+import { seeIfValidTonAddress } from '../utils/common';
+
+export const getAccountInscriptions = async (api: APIConfig, address: string) => {
+    const { inscriptions } = await new InscriptionsApi(api.tonApiV2).getAccountInscriptions({
+        accountId: address
+    });
+    return inscriptions;
+};
+
+export const getInscriptionHistory = async (
+    api: APIConfig,
+    options: { address: string; ticker: string; beforeLt?: number; limit?: number }
+) => {
+    return new InscriptionsApi(api.tonApiV2).getAccountInscriptionsHistoryByTicker({
+        accountId: options.address,
+        ticker: options.ticker,
+        beforeLt: options.beforeLt,
+        limit: options.limit
+    });
+};
+
+/**
+ * Display name of the inscription standard, e.g. "TON-20"
+ */
+export const inscriptionTypeName = (type: InscriptionBalance['type']) =>
+    type.replace(/^([a-z]+)(\d+)$/, '$1-$2').toUpperCase();
+
+export const findInscription = (inscriptions: InscriptionBalance[], ticker: string) => {
+    return inscriptions.find(item => item.ticker.toLowerCase() === ticker.toLowerCase());
+};
+
+export type InscriptionTransferError =
+    | 'unknown-ticker'
+    | 'invalid-amount'
+    | 'insufficient-balance'
+    | 'invalid-recipient';
+
+const parseInscriptionAmount = (amount: string) => new BigNumber(amount.trim().replace(',', '.'));
+
+/**
+ * Transfer is checked locally before the op template request, the indexer silently skips malformed
+ * operations while the network fee is still paid
+ */
+export const validateInscriptionTransfer = (
+    inscriptions: InscriptionBalance[],
+    options: { ticker: string; amount: string; recipient: string }
+): InscriptionTransferError | undefined => {
+    const inscription = findInscription(inscriptions, options.ticker);
+    if (!inscription) {
+        return 'unknown-ticker';
+    }
+
+    const amount = parseInscriptionAmount(options.amount);
+    if (
+        !amount.isFinite() ||
+        amount.isLessThanOrEqualTo(0) ||
+        (amount.decimalPlaces() ?? 0) > inscription.decimals
+    ) {
+        return 'invalid-amount';
+    }
+    if (amount.isGreaterThan(shiftedDecimals(inscription.balance, inscription.decimals))) {
+        return 'insufficient-balance';
+    }
+
+    if (!seeIfValidTonAddress(options.recipient.trim())) {
+        return 'invalid-recipient';
+    }
+
+    return undefined;
+};
+
+export interface InscriptionTransferTemplate {
+    /**
+     * Address the TON message is sent to, the wallet itself for TON-20
+     */
+    destination: string;
+    /**
+     * Text comment with the operation, read by the inscriptions indexer
+     */
+    comment: string;
+}
+
+export const getInscriptionTransferTemplate = async (
+    api: APIConfig,
+    options: {
+        inscription: InscriptionBalance;
+        amount: string;
+        sender: string;
+        recipient: string;
+        comment?: string;
+    }
+): Promise<InscriptionTransferTemplate> => {
+    const { inscription, amount, sender, recipient, comment } = options;
+
+    return new InscriptionsApi(api.tonApiV2).getInscriptionOpTemplate({
+        type: inscription.type,
+        operation: GetInscriptionOpTemplateOperationEnum.Transfer,
+        ticker: inscription.ticker,
+        amount: unShiftedDecimals(parseInscriptionAmount(amount), inscription.decimals).toFixed(0),
+        who: sender,
+        destination: recipient.trim(),
+        comment: comment || undefined
+    });
+};
@@ -15,6 +15,19 @@ const withDeadline = <T>(p: Promise<T>, ms: number): Promise<T> =>
 export type LedgerTonTransport = TonTransport;
 export type LedgerTransaction = Parameters<TonTransport['signTransaction']>[1];
 
+/**
+ * ton_proof signed by the TON app, the device derives the wallet address from the path and the options
+ */
+export type LedgerTonProof = {
+    request: Parameters<TonTransport['getAddressProof']>[1];
+    options: Parameters<TonTransport['getAddressProof']>[2];
+};
+
+/**
+ * Position of the transaction in a series of device confirmations, zero-based index
+ */
+export type LedgerBatchProgress = { index: number; total: number };
+
 export const connectLedger = async () => {
     let transport: Transport;
     if (await TransportWebHID.isSupported()) {
@@ -6,20 +6,137 @@ import { AssetAmount } from '../../entries/crypto/asset/asset-amount';
 import { TonAsset } from '../../entries/crypto/asset/ton-asset';
 import { TonRecipientData } from '../../entries/send';
 import { LedgerSigner } from '../../entries/signer';
+import { isW5Version } from '../../entries/wallet';
+import { LedgerBatchError } from '../../errors/LedgerBatchError';
+import { LedgerError } from '../../errors/LedgerError';
+import { BlockchainApi } from '../../tonApiV2';
 import {
     SendMode,
     externalMessage,
     getServerTime,
+    getTransferTTL,
     getTTL,
     getTonkeeperQueryId,
-    seeIfTransferBounceable
+    getWalletSeqNo,
+    seeIfTransferBounceable,
+    toStateInit,
+    waitWalletSeqNoChanged
 } from '../transfer/common';
 import { getJettonCustomPayload } from '../transfer/jettonPayloadService';
 import { jettonTransferAmount, jettonTransferForwardAmount } from '../transfer/jettonService';
 import { nftTransferForwardAmount } from '../transfer/nftService';
 import { walletContractFromState } from '../wallet/contractService';
+import { LedgerBatchProgress, LedgerTransaction } from './connector';
 import { getLedgerAccountPathByIndex } from './utils';
 
+export const toLedgerError = (e: unknown) => {
+    if (e instanceof LedgerError) {
+        return e;
+    }
+    return new LedgerError(
+        typeof e === 'string'
+            ? e
+            : typeof e === 'object' && e && 'message' in e
+            ? (e.message as string)
+            : 'Unknown error',
+        e
+    );
+};
+
+export type LedgerBatchMessage = Omit<LedgerTransaction, 'seqno' | 'timeout'>;
+
+/**
+ * Ledger TON app builds the v3 and v4 wallet transaction body on the device, no version of the app signs W5 bodies.
+ * W5 wallets are rejected before anything is sent to the device
+ */
+const checkLedgerWalletVersionOrDie = (account: AccountLedger) => {
+    if (isW5Version(account.activeTonWallet.version)) {
+        throw new LedgerError('Ledger TON app signs only v3 and v4 wallet transactions');
+    }
+};
+
+/**
+ * Signs a single-message wallet transaction on the device and wraps it to the external message
+ */
+export const signLedgerMessage = async (
+    account: AccountLedger,
+    message: LedgerBatchMessage,
+    seqno: number,
+    timestamp: number,
+    signer: LedgerSigner,
+    progress?: LedgerBatchProgress
+) => {
+    checkLedgerWalletVersionOrDie(account);
+    const walletState = account.activeTonWallet;
+
+    const path = getLedgerAccountPathByIndex(account.activeDerivationIndex);
+
+    let transfer: Cell;
+    try {
+        transfer = await signer(path, { ...message, seqno, timeout: getTTL(timestamp) }, progress);
+    } catch (e) {
+        console.error(e);
+        throw toLedgerError(e);
+    }
+
+    return externalMessage(walletContractFromState(walletState), seqno, transfer);
+};
+
+/**
+ * Ledger TON app signs a single internal message of a v3 or v4 wallet per request,
+ * so a batch is sent as a series of wallet transactions confirmed on the device one by one.
+ * Every next transaction is signed after the previous one is applied and the wallet seqno is increased.
+ * Returns base64 bocs of the sent external messages.
+ */
+export const sendLedgerBatch = async (
+    api: APIConfig,
+    account: AccountLedger,
+    messages: LedgerBatchMessage[],
+    signer: LedgerSigner
+): Promise<string[]> => {
+    checkLedgerWalletVersionOrDie(account);
+    const walletState = account.activeTonWallet;
+    const blockchainApi = new BlockchainApi(api.tonApiV2);
+
+    const sentBocs: string[] = [];
+    let seqno = await getWalletSeqNo(api, walletState.rawAddress);
+
+    for (let index = 0; index < messages.length; index++) {
+        try {
+            if (index > 0) {
+                seqno = await waitWalletSeqNoChanged(api, walletState.rawAddress, seqno);
+            }
+            const timestamp = await getServerTime(api);
+
+            const external = await signLedgerMessage(
+                account,
+                messages[index],
+                seqno,
+                timestamp,
+                signer,
+                { index, total: messages.length }
+            );
+
+            const boc = external.toBoc().toString('base64');
+            await blockchainApi.sendBlockchainMessage({ sendBlockchainMessageRequest: { boc } });
+            sentBocs.push(boc);
+        } catch (e) {
+            if (sentBocs.length === 0) {
+                throw e;
+            }
+            throw new LedgerBatchError(
+                `Ledger batch interrupted: sent ${sentBocs.length} of ${messages.length} transactions`,
+                sentBocs.length,
+                messages.length,
+                sentBocs,
+                e
+            );
+        }
+    }
+
+    return sentBocs;
+};
+
 export const createLedgerTonTransfer = async (
     timestamp: number,
     seqno: number,
@@ -29,6 +146,11 @@ export const createLedgerTonTransfer = async (
     isMax: boolean,
     signer: LedgerSigner
 ) => {
+    if (recipient.encryptComment) {
+        throw new Error('Encrypted comment is not supported by Ledger');
+    }
+
+    checkLedgerWalletVersionOrDie(account);
     const path = getLedgerAccountPathByIndex(account.activeDerivationIndex);
     const walletState = account.activeTonWallet;
     const contract = walletContractFromState(walletState);
@@ -38,11 +160,16 @@ export const createLedgerTonTransfer = async (
         bounce: seeIfTransferBounceable(recipient.toAccount, recipient.address),
         amount: BigInt(weiAmount.toFixed(0)),
         seqno,
-        timeout: getTTL(timestamp),
+        timeout: getTransferTTL(timestamp, recipient.expiresAt),
         sendMode: isMax
             ? SendMode.CARRY_ALL_REMAINING_BALANCE + SendMode.IGNORE_ERRORS
             : SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
-        payload: recipient.comment !== '' ? { type: 'comment', text: recipient.comment } : undefined
+        payload: recipient.payload
+            ? { type: 'unsafe', message: Cell.fromBase64(recipient.payload) }
+            : recipient.comment !== ''
+            ? { type: 'comment', text: recipient.comment }
+            : undefined,
+        stateInit: toStateInit(recipient.stateInit)
     });
 
     return externalMessage(contract, seqno, transfer).toBoc();
@@ -56,11 +183,13 @@ export const createLedgerJettonTransfer = async (
     amount: AssetAmount<TonAsset>,
     jettonWalletAddress: string,
     forwardPayload: Cell | null,
+    expiresAt: number | undefined,
     signer: LedgerSigner
 ) => {
     const timestamp = await getServerTime(api);
 
     const jettonAmount = BigInt(amount.stringWeiAmount);
+    checkLedgerWalletVersionOrDie(account);
     const path = getLedgerAccountPathByIndex(account.activeDerivationIndex);
     const wallet = account.activeTonWallet;
 
@@ -77,7 +206,7 @@ export const createLedgerJettonTransfer = async (
         bounce: true,
         amount: jettonTransferAmount,
         seqno,
-        timeout: getTTL(timestamp),
+        timeout: getTransferTTL(timestamp, expiresAt),
         sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
         payload: {
             knownJetton: null,
@@ -104,8 +233,10 @@ export const createLedgerNftTransfer = async (
     nftAddress: string,
     nftTransferAmount: bigint,
     forwardPayload: Cell | null,
+    expiresAt: number | undefined,
     signer: LedgerSigner
 ) => {
+    checkLedgerWalletVersionOrDie(account);
     const path = getLedgerAccountPathByIndex(account.activeDerivationIndex);
     const walletState = account.activeTonWallet;
     const contract = walletContractFromState(walletState);
@@ -115,7 +246,7 @@ export const createLedgerNftTransfer = async (
         bounce: true,
         amount: nftTransferAmount,
         seqno,
-        timeout: getTTL(timestamp),
+        timeout: getTransferTTL(timestamp, expiresAt),
         sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
         payload: {
             type: 'nft-transfer',
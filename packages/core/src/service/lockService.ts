@@ -0,0 +1,19 @@
+import { AppKey } from '../Keys';
+import { IStorage } from '../Storage';
+import { AutoLockSettings } from '../entries/lock';
+
+export const autoLockIdleOptions = [1, 5, 15, 30, 60];
+
+export const defaultAutoLockSettings: AutoLockSettings = {
+    idleMinutes: null,
+    lockOnHide: false
+};
+
+export const getAutoLockSettings = async (storage: IStorage): Promise<AutoLockSettings> => {
+    const settings = await storage.get<Partial<AutoLockSettings>>(AppKey.AUTO_LOCK);
+    return { ...defaultAutoLockSettings, ...settings };
+};
+
+export const setAutoLockSettings = async (storage: IStorage, settings: AutoLockSettings) => {
+    await storage.set(AppKey.AUTO_LOCK, settings);
+};
@@ -0,0 +1,49 @@
+import { AppKey } from '../Keys';
+import { IStorage } from '../Storage';
+import { MultiSendBatch } from '../entries/multiSend';
+import { WalletId } from '../entries/wallet';
+
+export const getMultiSendBatches = async (storage: IStorage) => {
+    const batches = await storage.get<MultiSendBatch[]>(AppKey.MULTI_SEND_BATCHES);
+    return batches ?? [];
+};
+
+export const getUnfinishedMultiSendBatch = async (storage: IStorage, walletId: WalletId) => {
+    const batches = await getMultiSendBatches(storage);
+    return batches.find(b => b.walletId === walletId && b.finishedAt === undefined) ?? null;
+};
+
+/**
+ * Finished batches are kept only for the latest reports, unfinished ones are never dropped
+ */
+const maxFinishedBatches = 10;
+
+const pruneFinishedBatches = (batches: MultiSendBatch[]) => {
+    const keep = new Set(
+        batches
+            .filter(b => b.finishedAt !== undefined)
+            .sort((a, b) => b.finishedAt! - a.finishedAt!)
+            .slice(0, maxFinishedBatches)
+            .map(b => b.id)
+    );
+    return batches.filter(b => b.finishedAt === undefined || keep.has(b.id));
+};
+
+export const saveMultiSendBatch = async (storage: IStorage, batch: MultiSendBatch) => {
+    const batches = await getMultiSendBatches(storage);
+    const index = batches.findIndex(b => b.id === batch.id);
+    if (index === -1) {
+        batches.push(batch);
+    } else {
+        batches[index] = batch;
+    }
+    await storage.set(AppKey.MULTI_SEND_BATCHES, pruneFinishedBatches(batches));
+};
+
+export const deleteMultiSendBatch = async (storage: IStorage, id: string) => {
+    const batches = await getMultiSendBatches(storage);
+    await storage.set(
+        AppKey.MULTI_SEND_BATCHES,
+        batches.filter(b => b.id !== id)
+    );
+};
@@ -0,0 +1,64 @@
+import { Account, isAccountTonWalletStandard } from '../entries/account';
+import { APIConfig } from '../entries/apis';
+import { TonWalletStandard } from '../entries/wallet';
+import { Multisig, MultisigApi, MultisigOrder } from '../tonApiV2';
+import { eqAddresses } from '../utils/address';
+
+export const getMultisig = async (api: APIConfig, address: string) => {
+    return new MultisigApi(api.tonApiV2).getMultisigAccount({ accountId: address });
+};
+
+/**
+ * Position of the wallet in the multisig signers or proposers list, used to authorize new orders and approvals
+ */
+export type MultisigRole = { isSigner: boolean; index: number };
+
+export const getMultisigRole = (
+    multisig: Multisig,
+    walletAddress: string
+): MultisigRole | undefined => {
+    const signerIndex = multisig.signers.findIndex(item => eqAddresses(item, walletAddress));
+    if (signerIndex !== -1) {
+        return { isSigner: true, index: signerIndex };
+    }
+
+    const proposerIndex = multisig.proposers.findIndex(item => eqAddresses(item, walletAddress));
+    if (proposerIndex !== -1) {
+        return { isSigner: false, index: proposerIndex };
+    }
+
+    return undefined;
+};
+
+/**
+ * Local standard wallets which are signers or proposers of the multisig
+ */
+export const getMultisigHostWallets = (multisig: Multisig, accounts: Account[]) => {
+    return accounts
+        .filter(isAccountTonWalletStandard)
+        .flatMap(account => account.allTonWallets as TonWalletStandard[])
+        .filter(wallet => getMultisigRole(multisig, wallet.rawAddress) !== undefined);
+};
+
+export const isMultisigOrderPending = (order: MultisigOrder, unixTimestamp: number) => {
+    return !order.sentForExecution && order.expirationDate > unixTimestamp;
+};
+
+/**
+ * Order keeps a copy of the multisig signers list made at the order creation, approvals refer to the index in it
+ */
+export const getMultisigOrderSignerIndex = (order: MultisigOrder, walletAddress: string) => {
+    const index = order.signers.findIndex(item => eqAddresses(item, walletAddress));
+    return index === -1 ? undefined : index;
+};
+
+export const getMultisigPendingOrders = (
+    multisig: Multisig,
+    declinedOrders: string[],
+    unixTimestamp = Math.floor(Date.now() / 1000)
+) => {
+    return multisig.orders
+        .filter(order => isMultisigOrderPending(order, unixTimestamp))
+        .filter(order => declinedOrders.every(item => !eqAddresses(item, order.address)))
+        .sort((a, b) => b.orderSeqno - a.orderSeqno);
+};
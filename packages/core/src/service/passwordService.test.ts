@@ -0,0 +1,131 @@
+import { mnemonicNew } from '@ton/crypto';
+import { AppKey } from '../Keys';
+import { MemoryStorage } from '../Storage';
+import { AccountTonMnemonic, AccountsState } from '../entries/account';
+import { AuthPassword } from '../entries/password';
+import { decrypt, encrypt, isEncryptionOutdated } from './cryptoService';
+import { PasswordStorage } from './passwordService';
+
+const password = 'correct horse';
+
+async function encryptLegacy(plaintext: string) {
+    const pwHash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+    const key = await crypto.subtle.importKey('raw', pwHash, { name: 'AES-GCM' }, false, [
+        'encrypt'
+    ]);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ct = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        key,
+        new TextEncoder().encode(plaintext)
+    );
+    return Buffer.from(iv).toString('hex') + Buffer.from(ct).toString('base64');
+}
+
+const createAccount = (id: string, encryptedMnemonic: string) =>
+    new AccountTonMnemonic(
+        id,
+        id,
+        '😀',
+        { kind: 'password', encryptedMnemonic },
+        'wallet-' + id,
+        []
+    );
+
+const getEncryptedMnemonic = async (storage: MemoryStorage, id: string) => {
+    const state = await storage.get<AccountsState>(AppKey.ACCOUNTS);
+    const account = state!.find(a => a.id === id) as AccountTonMnemonic;
+    return (account.auth as AuthPassword).encryptedMnemonic;
+};
+
+/**
+ * Runs a callback right before the n-th read of the accounts state
+ */
+class InterceptingStorage extends MemoryStorage {
+    private reads = 0;
+
+    constructor(private readonly readNumber: number, private readonly onRead: () => void) {
+        super();
+    }
+
+    get = async <R>(key: string) => {
+        if (key === AppKey.ACCOUNTS && ++this.reads === this.readNumber) {
+            this.onRead();
+        }
+        return (this.storage[key] as R) ?? null;
+    };
+}
+
+describe('PasswordStorage', () => {
+    let mnemonic: string[];
+
+    beforeAll(async () => {
+        mnemonic = await mnemonicNew(24);
+    });
+
+    it('checks the password without re-encrypting the mnemonic', async () => {
+        const storage = new MemoryStorage();
+        const legacy = await encryptLegacy(mnemonic.join(' '));
+        await storage.set(AppKey.ACCOUNTS, [createAccount('a', legacy)]);
+
+        const passwordStorage = new PasswordStorage(storage);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        await expect(passwordStorage.isPasswordValid(password)).resolves.toBe(true);
+        await expect(passwordStorage.isPasswordValid('wrong password')).resolves.toBe(false);
+        expect(await getEncryptedMnemonic(storage, 'a')).toBe(legacy);
+    });
+
+    it('upgrades outdated ciphertexts', async () => {
+        const storage = new MemoryStorage();
+        const legacy = await encryptLegacy(mnemonic.join(' '));
+        const current = await encrypt(mnemonic.join(' '), password);
+        await storage.set(AppKey.ACCOUNTS, [
+            createAccount('a', legacy),
+            createAccount('b', current)
+        ]);
+
+        await new PasswordStorage(storage).upgradeOutdatedEncryption(password);
+
+        const upgraded = await getEncryptedMnemonic(storage, 'a');
+        expect(isEncryptionOutdated(upgraded)).toBe(false);
+        await expect(decrypt(upgraded, password)).resolves.toBe(mnemonic.join(' '));
+        expect(await getEncryptedMnemonic(storage, 'b')).toBe(current);
+    });
+
+    it('does not overwrite accounts changed during the upgrade', async () => {
+        const legacyA = await encryptLegacy(mnemonic.join(' '));
+        const legacyB = await encryptLegacy(mnemonic.join(' '));
+        const changed = await encrypt(mnemonic.join(' '), 'new password');
+
+        const storage: MemoryStorage = new InterceptingStorage(2, () => {
+            const state = storage.storage[AppKey.ACCOUNTS] as AccountsState;
+            storage.storage[AppKey.ACCOUNTS] = [state[0], createAccount('b', changed)];
+        });
+        await storage.set(AppKey.ACCOUNTS, [
+            createAccount('a', legacyA),
+            createAccount('b', legacyB)
+        ]);
+
+        await new PasswordStorage(storage).upgradeOutdatedEncryption(password);
+
+        expect(isEncryptionOutdated(await getEncryptedMnemonic(storage, 'a'))).toBe(false);
+        expect(await getEncryptedMnemonic(storage, 'b')).toBe(changed);
+    });
+
+    it('keeps accounts added during the upgrade', async () => {
+        const legacy = await encryptLegacy(mnemonic.join(' '));
+        const added = createAccount('c', await encrypt(mnemonic.join(' '), password));
+
+        const storage: MemoryStorage = new InterceptingStorage(2, () => {
+            const state = storage.storage[AppKey.ACCOUNTS] as AccountsState;
+            storage.storage[AppKey.ACCOUNTS] = [...state, added];
+        });
+        await storage.set(AppKey.ACCOUNTS, [createAccount('a', legacy)]);
+
+        await new PasswordStorage(storage).upgradeOutdatedEncryption(password);
+
+        const state = await storage.get<AccountsState>(AppKey.ACCOUNTS);
+        expect(state!.map(a => a.id)).toEqual(['a', 'c']);
+    });
+});
@@ -1,5 +1,5 @@
 import { IStorage } from '../Storage';
-import { decrypt, encrypt } from './cryptoService';
+import { decrypt, encrypt, isEncryptionOutdated } from './cryptoService';
 import { mnemonicValidate } from '@ton/crypto';
 import { decryptWalletMnemonic } from './mnemonicService';
 import { AccountsStorage } from './accountsStorage';
@@ -28,11 +28,14 @@ export class PasswordStorage {
             const mnemonic = (
                 await decrypt((accToCheck.auth as AuthPassword).encryptedMnemonic, password)
             ).split(' ');
-            return await mnemonicValidate(mnemonic);
+            if (!(await mnemonicValidate(mnemonic))) {
+                return false;
+            }
         } catch (e) {
             console.error(e);
             return false;
         }
+        return true;
     }
 
     async checkPassword(password: string): Promise<void> {
@@ -62,6 +65,50 @@ export class PasswordStorage {
         await this.accountsStorage.updateAccountsInState(updatedAccounts);
     }
 
+    /**
+     * Re-encrypt mnemonics stored with an outdated key derivation scheme using the current one.
+     * Called after the unlock, not by the password check: the key derivation is slow.
+     * Accounts are read again before the write, an account changed meanwhile is left for the next unlock
+     */
+    async upgradeOutdatedEncryption(password: string): Promise<void> {
+        const outdated = (await this.getPasswordAuthAccounts()).filter(acc =>
+            isEncryptionOutdated((acc.auth as AuthPassword).encryptedMnemonic)
+        );
+        if (!outdated.length) {
+            return;
+        }
+
+        const upgraded = await Promise.all(
+            outdated.map(async acc => {
+                const { encryptedMnemonic } = acc.auth as AuthPassword;
+                const mnemonic = await decryptWalletMnemonic(
+                    acc as { auth: AuthPassword },
+                    password
+                );
+                return {
+                    id: acc.id,
+                    encryptedMnemonic,
+                    upgradedMnemonic: await encrypt(mnemonic.join(' '), password)
+                };
+            })
+        );
+
+        const updatedAccounts = (await this.getPasswordAuthAccounts()).flatMap(acc => {
+            const item = upgraded.find(
+                i =>
+                    i.id === acc.id &&
+                    i.encryptedMnemonic === (acc.auth as AuthPassword).encryptedMnemonic
+            );
+            if (!item) {
+                return [];
+            }
+            (acc.auth as AuthPassword).encryptedMnemonic = item.upgradedMnemonic;
+            return [acc.clone()];
+        });
+
+        await this.accountsStorage.updateAccountsInState(updatedAccounts);
+    }
+
     private async getPasswordAuthAccounts(): Promise<AccountTonMnemonic[]> {
         const accounts = await this.accountsStorage.getAccounts();
         return accounts.filter(
@@ -0,0 +1,128 @@
+import BigNumber from 'bignumber.js';
+import { APIConfig } from '../entries/apis';
+import { AccountAddress, AccountEvent, AccountsApi, Action } from '../tonApiV2';
+import { eqAddresses } from '../utils/address';
+import { formatTransferUrl } from '../utils/common';
+
+export interface PaymentRequest {
+    /**
+     * User-friendly address of the wallet receiving the payment
+     */
+    address: string;
+    /**
+     * Jetton master address, TON is requested when undefined
+     */
+    jetton?: string;
+    /**
+     * Amount in nano units of TON or of the jetton, any amount is accepted when undefined
+     */
+    amount?: string;
+    /**
+     * Comment or invoice ID the payment is matched by
+     */
+    comment: string;
+    /**
+     * Unix time in seconds the link is valid until
+     */
+    exp?: number;
+    /**
+     * Unix time in seconds the request is created at, earlier events are not matched
+     */
+    createdAt: number;
+}
+
+export interface PaymentRequestPayment {
+    eventId: string;
+    timestamp: number;
+    amount: string;
+    sender?: AccountAddress;
+}
+
+const appTransferUrl = 'https://app.tonkeeper.com/transfer/';
+
+export const formatPaymentRequestUrl = (request: PaymentRequest) => {
+    return formatTransferUrl({
+        address: request.address,
+        amount: request.amount,
+        text: request.comment,
+        jetton: request.jetton,
+        exp: request.exp
+    });
+};
+
+/**
+ * Universal link of the request, messengers and browsers don't open the ton scheme
+ */
+export const formatPaymentRequestLink = (request: PaymentRequest) => {
+    return formatPaymentRequestUrl(request).replace('ton://transfer/', appTransferUrl);
+};
+
+export const seeIfPaymentRequestExpired = (request: PaymentRequest) => {
+    return request.exp !== undefined && request.exp * 1000 <= Date.now();
+};
+
+const isEnoughAmount = (request: PaymentRequest, amount: BigNumber.Value) => {
+    return request.amount === undefined || new BigNumber(amount).gte(request.amount);
+};
+
+const toActionPayment = (
+    request: PaymentRequest,
+    action: Action
+): Omit<PaymentRequestPayment, 'eventId' | 'timestamp'> | undefined => {
+    if (action.status !== 'ok') return undefined;
+
+    const { tonTransfer, jettonTransfer } = action;
+    if (request.jetton) {
+        if (
+            jettonTransfer &&
+            jettonTransfer.recipient &&
+            eqAddresses(jettonTransfer.recipient.address, request.address) &&
+            eqAddresses(jettonTransfer.jetton.address, request.jetton) &&
+            jettonTransfer.comment === request.comment &&
+            isEnoughAmount(request, jettonTransfer.amount)
+        ) {
+            return { amount: jettonTransfer.amount, sender: jettonTransfer.sender };
+        }
+        return undefined;
+    }
+
+    if (
+        tonTransfer &&
+        eqAddresses(tonTransfer.recipient.address, request.address) &&
+        tonTransfer.comment === request.comment &&
+        isEnoughAmount(request, tonTransfer.amount)
+    ) {
+        return { amount: String(tonTransfer.amount), sender: tonTransfer.sender };
+    }
+    return undefined;
+};
+
+export const findPaymentRequestPayment = (
+    events: AccountEvent[],
+    request: PaymentRequest
+): PaymentRequestPayment | undefined => {
+    for (const event of events) {
+        if (event.inProgress || event.timestamp < request.createdAt) continue;
+
+        for (const action of event.actions) {
+            const payment = toActionPayment(request, action);
+            if (payment) {
+                return { eventId: event.eventId, timestamp: event.timestamp, ...payment };
+            }
+        }
+    }
+    return undefined;
+};
+
+/**
+ * Looks up the incoming transfer with the comment of the request in the events made after the request is created
+ */
+export const getPaymentRequestPayment = async (api: APIConfig, request: PaymentRequest) => {
+    const { events } = await new AccountsApi(api.tonApiV2).getAccountEvents({
+        accountId: request.address,
+        limit: 100,
+        subjectOnly: true,
+        startDate: request.createdAt
+    });
+    return findPaymentRequestPayment(events, request) ?? null;
+};
@@ -0,0 +1,256 @@
+import BigNumber from 'bignumber.js';
+import { APIConfig } from '../entries/apis';
+import { CryptoCurrency } from '../entries/crypto';
+import { FiatCurrencies } from '../entries/fiat';
+import {
+    AccountEvent,
+    AccountsApi,
+    BlockchainApi,
+    GetBlockchainAccountTransactionsSortOrderEnum
+} from '../tonApiV2';
+import { eqAddresses } from '../utils/address';
+import { shiftedDecimals } from '../utils/balance';
+import {
+    ChartPeriod,
+    ChartPoint,
+    getChartPeriodStartDate,
+    getChartRates,
+    getChartValueAt
+} from './chartService';
+
+const historyPageSize = 100;
+const historyMaxPages = 10;
+
+/**
+ * Balance change steps of an asset, reconstructed from the account history
+ */
+export interface BalanceHistory {
+    /**
+     * Balance before the first change
+     */
+    initial: BigNumber;
+    /**
+     * Balance after each change, the oldest first
+     */
+    changes: { timestamp: number; balance: BigNumber }[];
+    /**
+     * History is known from this moment, older part was not loaded because of the pages limit
+     */
+    coveredFrom: number | undefined;
+}
+
+export interface PortfolioJetton {
+    address: string;
+    decimals: number;
+    balance: string;
+}
+
+const getBalanceAt = (history: BalanceHistory, timestamp: number) => {
+    let result = history.initial;
+    for (const change of history.changes) {
+        if (change.timestamp > timestamp) {
+            break;
+        }
+        result = change.balance;
+    }
+    return result;
+};
+
+/**
+ * Wallet transactions contain the balance after execution, so the TON history is exact
+ */
+export const getTonBalanceHistory = async (
+    api: APIConfig,
+    address: string,
+    startDate: number | undefined
+): Promise<BalanceHistory> => {
+    const blockchainApi = new BlockchainApi(api.tonApiV2);
+    const changes: BalanceHistory['changes'] = [];
+
+    let beforeLt: number | undefined;
+    for (let page = 0; page < historyMaxPages; page++) {
+        const { transactions } = await blockchainApi.getBlockchainAccountTransactions({
+            accountId: address,
+            beforeLt,
+            limit: historyPageSize,
+            sortOrder: GetBlockchainAccountTransactionsSortOrderEnum.Desc
+        });
+
+        for (const transaction of transactions) {
+            const balance = new BigNumber(transaction.endBalance);
+            if (startDate !== undefined && transaction.utime < startDate) {
+                return { initial: balance, changes: changes.reverse(), coveredFrom: undefined };
+            }
+            changes.push({ timestamp: transaction.utime, balance });
+        }
+
+        if (transactions.length < historyPageSize) {
+            return {
+                initial: new BigNumber(0),
+                changes: changes.reverse(),
+                coveredFrom: undefined
+            };
+        }
+        beforeLt = transactions[transactions.length - 1].lt;
+    }
+
+    const oldest = changes[changes.length - 1];
+    return {
+        initial: oldest.balance,
+        changes: changes.reverse(),
+        coveredFrom: oldest.timestamp
+    };
+};
+
+const getJettonBalanceDeltas = (event: AccountEvent, address: string) => {
+    const deltas = new Map<string, BigNumber>();
+    const add = (jetton: string, amount: BigNumber.Value) => {
+        deltas.set(jetton, (deltas.get(jetton) ?? new BigNumber(0)).plus(amount));
+    };
+
+    for (const action of event.actions) {
+        if (action.status !== 'ok') continue;
+
+        if (action.jettonTransfer) {
+            const { sender, recipient, amount, jetton } = action.jettonTransfer;
+            if (recipient && eqAddresses(recipient.address, address)) {
+                add(jetton.address, amount);
+            }
+            if (sender && eqAddresses(sender.address, address)) {
+                add(jetton.address, new BigNumber(amount).negated());
+            }
+        }
+        if (action.jettonMint && eqAddresses(action.jettonMint.recipient.address, address)) {
+            add(action.jettonMint.jetton.address, action.jettonMint.amount);
+        }
+        if (action.jettonBurn && eqAddresses(action.jettonBurn.sender.address, address)) {
+            add(
+                action.jettonBurn.jetton.address,
+                new BigNumber(action.jettonBurn.amount).negated()
+            );
+        }
+        if (action.jettonSwap && eqAddresses(action.jettonSwap.userWallet.address, address)) {
+            const { jettonMasterIn, jettonMasterOut, amountIn, amountOut } = action.jettonSwap;
+            if (jettonMasterIn) {
+                add(jettonMasterIn.address, new BigNumber(amountIn).negated());
+            }
+            if (jettonMasterOut) {
+                add(jettonMasterOut.address, amountOut);
+            }
+        }
+    }
+
+    return deltas;
+};
+
+/**
+ * Jetton balances are restored backwards from the current balances by the jetton history events
+ */
+export const getJettonsBalanceHistory = async (
+    api: APIConfig,
+    address: string,
+    jettons: PortfolioJetton[],
+    startDate: number | undefined
+): Promise<Map<string, BalanceHistory>> => {
+    const accountsApi = new AccountsApi(api.tonApiV2);
+    const running = new Map(jettons.map(item => [item.address, new BigNumber(item.balance)]));
+    const changes = new Map<string, BalanceHistory['changes']>(
+        jettons.map(item => [item.address, []])
+    );
+
+    let coveredFrom: number | undefined = undefined;
+    let beforeLt: number | undefined;
+    for (let page = 0; ; page++) {
+        const { events, nextFrom } = await accountsApi.getAccountJettonsHistory({
+            accountId: address,
+            limit: historyPageSize,
+            beforeLt,
+            startDate
+        });
+
+        for (const event of events) {
+            getJettonBalanceDeltas(event, address).forEach((delta, jettonAddress) => {
+                const jetton = jettons.find(item => eqAddresses(item.address, jettonAddress));
+                if (!jetton) return;
+
+                const balance = running.get(jetton.address)!;
+                changes.get(jetton.address)!.push({ timestamp: event.timestamp, balance });
+                running.set(jetton.address, balance.minus(delta));
+            });
+        }
+
+        if (!nextFrom) break;
+        if (page === historyMaxPages - 1) {
+            coveredFrom = events[events.length - 1]?.timestamp;
+            break;
+        }
+        beforeLt = nextFrom;
+    }
+
+    return new Map(
+        jettons.map(item => [
+            item.address,
+            {
+                initial: BigNumber.max(running.get(item.address)!, 0),
+                changes: changes.get(item.address)!.reverse(),
+                coveredFrom
+            }
+        ])
+    );
+};
+
+/**
+ * Fiat value of the TON and the jettons balances at the TON chart points
+ */
+export const getPortfolioChart = async (
+    api: APIConfig,
+    options: {
+        address: string;
+        jettons: PortfolioJetton[];
+        currency: FiatCurrencies;
+        period: ChartPeriod;
+    }
+): Promise<ChartPoint[]> => {
+    const { address, jettons, currency, period } = options;
+    const startDate = getChartPeriodStartDate(period);
+
+    const [tonRates, tonHistory, jettonsRates, jettonsHistory] = await Promise.all([
+        getChartRates(api, { token: CryptoCurrency.TON, currency, period }),
+        getTonBalanceHistory(api, address, startDate),
+        Promise.all(
+            jettons.map(jetton =>
+                getChartRates(api, { token: jetton.address, currency, period }).catch(() => [])
+            )
+        ),
+        getJettonsBalanceHistory(api, address, jettons, startDate)
+    ]);
+
+    const coveredFrom = Math.max(
+        tonHistory.coveredFrom ?? 0,
+        ...[...jettonsHistory.values()].map(item => item.coveredFrom ?? 0)
+    );
+
+    return tonRates
+        .filter(point => point.timestamp >= coveredFrom)
+        .map(point => {
+            const tonValue = shiftedDecimals(
+                getBalanceAt(tonHistory, point.timestamp)
+            ).multipliedBy(point.value);
+
+            const value = jettons.reduce((acc, jetton, index) => {
+                const rate = getChartValueAt(jettonsRates[index], point.timestamp);
+                const history = jettonsHistory.get(jetton.address);
+                if (rate === undefined || !history) {
+                    return acc;
+                }
+                return acc.plus(
+                    shiftedDecimals(
+                        getBalanceAt(history, point.timestamp),
+                        jetton.decimals
+                    ).multipliedBy(rate)
+                );
+            }, tonValue);
+
+            return { timestamp: point.timestamp, value: value.toNumber() };
+        });
+};
@@ -28,7 +28,11 @@ import {
 import { delay } from '../utils/common';
 import { Flatten } from '../utils/types';
 import { loginViaTG } from './telegramOauth';
-import { createTonProofItem, tonConnectProofPayload } from './tonConnect/connectService';
+import {
+    createTonProofItem,
+    TonProofSigner,
+    tonConnectProofPayload
+} from './tonConnect/connectService';
 import { getServerTime } from './transfer/common';
 import { walletStateInitFromState } from './wallet/contractService';
 import { accountsStorage } from './accountsStorage';
@@ -163,7 +167,7 @@ export const checkAuthCookie = async () => {
 export const authViaTonConnect = async (
     api: APIConfig,
     wallet: TonWalletStandard,
-    signProof: (bufferToSing: Buffer) => Promise<Uint8Array>
+    signProof: TonProofSigner
 ) => {
     const domain = 'https://tonkeeper.com/';
     const { payload } = await ProServiceService.proServiceAuthGeneratePayload();
@@ -171,11 +175,7 @@ export const authViaTonConnect = async (
     const timestamp = await getServerTime(api);
     const proofPayload = tonConnectProofPayload(timestamp, domain, wallet.rawAddress, payload);
     const stateInit = walletStateInitFromState(wallet);
-    const proof = createTonProofItem(
-        await signProof(proofPayload.bufferToSign),
-        proofPayload,
-        stateInit
-    );
+    const proof = createTonProofItem(await signProof(proofPayload), proofPayload, stateInit);
 
     const result = await ProServiceService.proServiceTonConnectAuth({
         address: wallet.rawAddress,
@@ -8,6 +8,11 @@ import { BlockchainApi } from '../tonApiV2';
 import { externalMessage, getWalletSeqNo } from './transfer/common';
 import { walletContractFromState } from './wallet/contractService';
 
+/**
+ * Transaction is a boc of the signing request, the proof is a ton_proof message
+ */
+export type SignerMessageType = 'transaction' | 'signProof';
+
 export const parseSignerSignature = (payload: string): Buffer => {
     console.log('signer', payload);
 
@@ -48,6 +53,17 @@ export const createTransferQr = (publicKey: string, version: WalletVersion, boc:
     return `tonsign://v1/?network=ton&pk=${publicKey}&body=${body}&v=${walletVersionText(version)}`;
 };
 
+/**
+ * Signer hashes the ton_proof message the same way as TonConnect does, the message is passed instead
+ * of the hash so the domain and the payload can be shown to the user before signing
+ */
+export const createTonProofQr = (publicKey: string, version: WalletVersion, message: string) => {
+    const body = Buffer.from(message, 'base64').toString('hex');
+    return `tonsign://v1/?network=ton&pk=${publicKey}&body=${body}&v=${walletVersionText(
+        version
+    )}&t=sign-proof`;
+};
+
 export const storeTransactionAndCreateDeepLink = async (
     sdk: IAppSdk,
     publicKey: string,
@@ -0,0 +1,342 @@
+import {
+    Address,
+    beginCell,
+    Cell,
+    internal,
+    OutAction,
+    storeMessageRelaxed,
+    storeOutList
+} from '@ton/core';
+import { MemoryStorage } from '../Storage';
+import { APIConfig } from '../entries/apis';
+import { FiatCurrencies } from '../entries/fiat';
+import { CellSigner, LedgerSigner } from '../entries/signer';
+import {
+    SpendingPolicy,
+    SpendingPolicyDecision,
+    SpendingPolicyTransfer
+} from '../entries/spendingPolicy';
+import { SpendingPolicyError } from '../errors/SpendingPolicyError';
+import { AccountsApi, RatesApi } from '../tonApiV2';
+import { LedgerTransaction } from './ledger/connector';
+import {
+    checkSpendingPolicy,
+    getSpendingPolicyAudit,
+    getSpentLastDay,
+    setSpendingPolicy,
+    withSpendingPolicy
+} from './spendingPolicyService';
+import { jettonTransferBody } from './transfer/jettonService';
+
+jest.mock('../tonApiV2', () => ({
+    ...jest.requireActual('../tonApiV2'),
+    RatesApi: jest.fn(),
+    AccountsApi: jest.fn()
+}));
+
+const accountId = 'account';
+const walletAddress = '0:' + '01'.repeat(32);
+const friend = '0:' + '02'.repeat(32);
+const stranger = '0:' + '03'.repeat(32);
+const jettonWallet = '0:' + '04'.repeat(32);
+
+const tonPrice = 2;
+const usdtPrice = 1;
+
+const policy = (value: Partial<SpendingPolicy> = {}): SpendingPolicy => ({
+    fiat: FiatCurrencies.USD,
+    allowlist: [],
+    ...value
+});
+
+const ton = (amount: number) => BigInt(amount * 1000000000);
+
+const tonMessage = (to: string, value: bigint) =>
+    internal({ to: Address.parse(to), value, bounce: false });
+
+const jettonMessage = (to: string, amount: bigint) =>
+    internal({
+        to: Address.parse(jettonWallet),
+        value: ton(0.05),
+        bounce: true,
+        body: jettonTransferBody({
+            queryId: BigInt(1),
+            jettonAmount: amount,
+            toAddress: Address.parse(to),
+            responseAddress: Address.parse(walletAddress),
+            forwardAmount: BigInt(1),
+            forwardPayload: null,
+            customPayload: null
+        })
+    });
+
+/**
+ * Signing request of the wallet v4, every message is a reference of the root
+ */
+const walletV4Request = (...messages: ReturnType<typeof internal>[]) => {
+    const builder = beginCell()
+        .storeUint(698983191, 32)
+        .storeUint(1700000000, 32)
+        .storeUint(1, 32)
+        .storeUint(0, 8);
+    messages.forEach(message =>
+        builder.storeUint(3, 8).storeRef(beginCell().store(storeMessageRelaxed(message)))
+    );
+    return builder.endCell();
+};
+
+/**
+ * Signing request of the wallet v5, the extended actions are added as the second reference
+ */
+const walletV5Request = (messages: ReturnType<typeof internal>[], extendedActions?: Cell) => {
+    const actions: OutAction[] = messages.map(outMsg => ({ type: 'sendMsg', mode: 3, outMsg }));
+    return beginCell()
+        .storeUint(0x7369676e, 32)
+        .storeUint(2147483409, 32)
+        .storeUint(1700000000, 32)
+        .storeUint(1, 32)
+        .storeMaybeRef(beginCell().store(storeOutList(actions)).endCell())
+        .storeMaybeRef(extendedActions)
+        .endCell();
+};
+
+let storage: MemoryStorage;
+const confirmPassword = jest.fn(async () => undefined);
+const cellSigner = jest.fn(async () => Buffer.alloc(64)) as unknown as CellSigner;
+cellSigner.type = 'cell';
+
+const createSigner = (passwordConfirmed = false) =>
+    withSpendingPolicy(cellSigner, {
+        api: {} as APIConfig,
+        storage,
+        accountId,
+        walletAddress,
+        passwordConfirmed,
+        confirmPassword
+    }) as CellSigner;
+
+const lastDecision = async () =>
+    (await getSpendingPolicyAudit(storage, accountId))[0] as SpendingPolicyDecision;
+
+beforeEach(() => {
+    storage = new MemoryStorage();
+    confirmPassword.mockReset();
+    confirmPassword.mockResolvedValue(undefined);
+    jest.mocked(cellSigner).mockClear();
+
+    (RatesApi as unknown as jest.Mock).mockImplementation(() => ({
+        getRates: async () => ({ rates: { TON: { prices: { USD: tonPrice } } } })
+    }));
+    (AccountsApi as unknown as jest.Mock).mockImplementation(() => ({
+        getAccountJettonsBalances: async () => ({
+            balances: [
+                {
+                    walletAddress: { address: jettonWallet },
+                    jetton: { symbol: 'USDT', decimals: 6 },
+                    price: { prices: { USD: usdtPrice } }
+                }
+            ]
+        })
+    }));
+});
+
+describe('checkSpendingPolicy', () => {
+    const transfer = (fiatAmount: number, recipient = friend): SpendingPolicyTransfer => ({
+        recipient,
+        symbol: 'TON',
+        weiAmount: '1',
+        decimals: 9,
+        fiatAmount
+    });
+
+    it('rejects the recipients out of the allowlist', () => {
+        const value = policy({ allowlist: [friend] });
+
+        expect(checkSpendingPolicy(value, [transfer(1)], 0)).toBeUndefined();
+        expect(checkSpendingPolicy(value, [transfer(1), transfer(1, stranger)], 0)).toBe(
+            'recipient-not-allowed'
+        );
+    });
+
+    it('rejects the value above the single transfer and the daily limits', () => {
+        expect(
+            checkSpendingPolicy(policy({ maxTransfer: 10 }), [transfer(6), transfer(5)], 0)
+        ).toBe('max-transfer');
+        expect(
+            checkSpendingPolicy(policy({ dailyLimit: 100 }), [transfer(10)], 90)
+        ).toBeUndefined();
+        expect(checkSpendingPolicy(policy({ dailyLimit: 100 }), [transfer(11)], 90)).toBe(
+            'daily-limit'
+        );
+    });
+});
+
+describe('getSpentLastDay', () => {
+    it('counts the allowed decisions of the last 24 hours in the policy currency', () => {
+        const now = Date.now();
+        const decision = (value: Partial<SpendingPolicyDecision>): SpendingPolicyDecision => ({
+            id: String(Math.random()),
+            accountId,
+            timestamp: now - 1000,
+            fiat: FiatCurrencies.USD,
+            transfers: [],
+            fiatAmount: 10,
+            allowed: true,
+            passwordConfirmed: false,
+            ...value
+        });
+
+        const spent = getSpentLastDay(
+            [
+                decision({}),
+                decision({ fiatAmount: 5 }),
+                decision({ allowed: false, violation: 'daily-limit' }),
+                decision({ fiat: FiatCurrencies.EUR }),
+                decision({ timestamp: now - 25 * 60 * 60 * 1000 })
+            ],
+            FiatCurrencies.USD
+        );
+
+        expect(spent).toBe(15);
+    });
+});
+
+describe('withSpendingPolicy', () => {
+    it('signs without checks when the account has no policy', async () => {
+        await createSigner()(walletV4Request(tonMessage(stranger, ton(100))));
+
+        expect(cellSigner).toHaveBeenCalledTimes(1);
+        expect(await getSpendingPolicyAudit(storage)).toHaveLength(0);
+    });
+
+    it('decodes and values the wallet v4 transfers and counts them towards the daily limit', async () => {
+        await setSpendingPolicy(storage, accountId, policy({ dailyLimit: 30 }));
+        const signer = createSigner();
+
+        await signer(walletV4Request(tonMessage(friend, ton(5)), tonMessage(stranger, ton(5))));
+
+        expect(cellSigner).toHaveBeenCalledTimes(1);
+        expect(await lastDecision()).toMatchObject({
+            allowed: true,
+            fiatAmount: 20,
+            transfers: [
+                { recipient: friend, symbol: 'TON', weiAmount: ton(5).toString(), fiatAmount: 10 },
+                { recipient: stranger, symbol: 'TON', weiAmount: ton(5).toString(), fiatAmount: 10 }
+            ]
+        });
+
+        const rejected = signer(walletV4Request(tonMessage(friend, ton(6))));
+        await expect(rejected).rejects.toThrow(SpendingPolicyError);
+        await expect(rejected).rejects.toMatchObject({ violation: 'daily-limit' });
+        expect(cellSigner).toHaveBeenCalledTimes(1);
+        expect(await lastDecision()).toMatchObject({ allowed: false, violation: 'daily-limit' });
+    });
+
+    it('checks the owner receiving the jettons of the wallet v5 transfer', async () => {
+        await setSpendingPolicy(storage, accountId, policy({ allowlist: [friend] }));
+        const signer = createSigner();
+
+        await signer(walletV5Request([jettonMessage(friend, BigInt(25000000))]));
+        expect(await lastDecision()).toMatchObject({
+            allowed: true,
+            transfers: [
+                { recipient: friend, symbol: 'TON', fiatAmount: 0.1 },
+                { recipient: friend, symbol: 'USDT', weiAmount: '25000000', fiatAmount: 25 }
+            ]
+        });
+
+        await expect(
+            signer(walletV5Request([jettonMessage(stranger, BigInt(25000000))]))
+        ).rejects.toMatchObject({ violation: 'recipient-not-allowed' });
+        expect(cellSigner).toHaveBeenCalledTimes(1);
+    });
+
+    it('asks the password above the threshold unless it was just entered', async () => {
+        await setSpendingPolicy(storage, accountId, policy({ passwordThreshold: 10 }));
+
+        await createSigner()(walletV4Request(tonMessage(friend, ton(1))));
+        expect(confirmPassword).not.toHaveBeenCalled();
+
+        await createSigner()(walletV4Request(tonMessage(friend, ton(10))));
+        expect(confirmPassword).toHaveBeenCalledTimes(1);
+        expect(await lastDecision()).toMatchObject({ allowed: true, passwordConfirmed: true });
+
+        await createSigner(true)(walletV4Request(tonMessage(friend, ton(10))));
+        expect(confirmPassword).toHaveBeenCalledTimes(1);
+        expect(cellSigner).toHaveBeenCalledTimes(3);
+    });
+
+    it('rejects the transfer above the threshold when the password is cancelled', async () => {
+        await setSpendingPolicy(storage, accountId, policy({ passwordThreshold: 10 }));
+        confirmPassword.mockRejectedValue(new Error('Cancelled'));
+
+        await expect(
+            createSigner()(walletV4Request(tonMessage(friend, ton(10))))
+        ).rejects.toMatchObject({ violation: 'password-required' });
+        expect(cellSigner).not.toHaveBeenCalled();
+    });
+
+    it('treats the wallet v5 extended actions as an unverified request', async () => {
+        const request = walletV5Request(
+            [tonMessage(friend, ton(1))],
+            beginCell().storeUint(2, 8).storeAddress(Address.parse(stranger)).endCell()
+        );
+
+        await setSpendingPolicy(storage, accountId, policy());
+        await createSigner()(request);
+        expect(confirmPassword).toHaveBeenCalledTimes(1);
+        expect(await lastDecision()).toMatchObject({ allowed: true, unverified: true });
+
+        // the recipients of the request are unknown, so none of them is in the allowlist
+        await setSpendingPolicy(storage, accountId, policy({ allowlist: [friend] }));
+        await expect(createSigner()(request)).rejects.toMatchObject({
+            violation: 'recipient-not-allowed'
+        });
+        expect(cellSigner).toHaveBeenCalledTimes(1);
+    });
+
+    it('asks the password for the transfer without a price while the policy has limits', async () => {
+        (AccountsApi as unknown as jest.Mock).mockImplementation(() => ({
+            getAccountJettonsBalances: async () => ({ balances: [] })
+        }));
+        await setSpendingPolicy(storage, accountId, policy({ dailyLimit: 1000 }));
+
+        await createSigner()(walletV4Request(jettonMessage(friend, BigInt(1))));
+
+        expect(confirmPassword).toHaveBeenCalledTimes(1);
+        expect(await lastDecision()).toMatchObject({ unverified: true, fiatAmount: 0.1 });
+    });
+
+    it('checks the transaction of the ledger signer', async () => {
+        await setSpendingPolicy(storage, accountId, policy({ allowlist: [friend] }));
+        const ledgerSigner = jest.fn(async () => Cell.EMPTY) as unknown as LedgerSigner;
+        ledgerSigner.type = 'ledger';
+        const signer = withSpendingPolicy(ledgerSigner, {
+            api: {} as APIConfig,
+            storage,
+            accountId,
+            walletAddress,
+            passwordConfirmed: false,
+            confirmPassword
+        }) as LedgerSigner;
+
+        const transaction = {
+            to: Address.parse(jettonWallet),
+            amount: ton(0.05),
+            payload: {
+                type: 'jetton-transfer',
+                amount: BigInt(1000000),
+                destination: Address.parse(stranger)
+            }
+        } as unknown as LedgerTransaction;
+
+        await expect(signer([44, 607], transaction)).rejects.toMatchObject({
+            violation: 'recipient-not-allowed'
+        });
+        expect(ledgerSigner).not.toHaveBeenCalled();
+        expect((await lastDecision()).transfers.map(item => item.recipient)).toEqual([
+            stranger,
+            stranger
+        ]);
+    });
+});
@@ -0,0 +1,377 @@
+import { Address, Cell, loadMessageRelaxed, loadOutList, MessageRelaxed } from '@ton/core';
+import { AppKey } from '../Keys';
+import { IStorage } from '../Storage';
+import { AccountId } from '../entries/account';
+import { APIConfig } from '../entries/apis';
+import { CryptoCurrency } from '../entries/crypto';
+import { FiatCurrencies } from '../entries/fiat';
+import { Signer } from '../entries/signer';
+import {
+    isSpendingPolicyChange,
+    SpendingPolicy,
+    SpendingPolicyAuditItem,
+    SpendingPolicyDecision,
+    SpendingPolicyTransfer,
+    SpendingPolicyViolation
+} from '../entries/spendingPolicy';
+import { SpendingPolicyError } from '../errors/SpendingPolicyError';
+import { AccountsApi, RatesApi } from '../tonApiV2';
+import { eqAddresses } from '../utils/address';
+import { shiftedDecimals } from '../utils/balance';
+import { LedgerBatchProgress, LedgerTransaction } from './ledger/connector';
+
+const auditLimit = 1000;
+const dayMs = 24 * 60 * 60 * 1000;
+
+const walletV5SignedExternalOp = 0x7369676e;
+const walletV5SignedInternalOp = 0x73696e74;
+const jettonTransferOp = 0xf8a7ea5;
+const nftTransferOp = 0x5fcc3d14;
+
+export const getSpendingPolicies = async (storage: IStorage) => {
+    const result = await storage.get<Record<AccountId, SpendingPolicy>>(AppKey.SPENDING_POLICIES);
+    return result ?? {};
+};
+
+export const getSpendingPolicy = async (storage: IStorage, accountId: AccountId) => {
+    const policies = await getSpendingPolicies(storage);
+    return policies[accountId];
+};
+
+/**
+ * Decisions and policy changes are stored newest first, the oldest are dropped above the limit
+ */
+export const getSpendingPolicyAudit = async (storage: IStorage, accountId?: AccountId) => {
+    const result = await storage.get<SpendingPolicyAuditItem[]>(AppKey.SPENDING_POLICY_AUDIT);
+    const items = result ?? [];
+    return accountId ? items.filter(item => item.accountId === accountId) : items;
+};
+
+const appendSpendingPolicyAudit = async (storage: IStorage, item: SpendingPolicyAuditItem) => {
+    const items = await getSpendingPolicyAudit(storage);
+    await storage.set(AppKey.SPENDING_POLICY_AUDIT, [item, ...items].slice(0, auditLimit));
+};
+
+const createAuditId = () => `${Date.now()}-${Math.random().toString(16).slice(2, 10)}`;
+
+/**
+ * Policy is removed when undefined is passed, the change is written to the audit log.
+ * The caller confirms the password before, the policy protects the account from an unlocked session
+ */
+export const setSpendingPolicy = async (
+    storage: IStorage,
+    accountId: AccountId,
+    policy: SpendingPolicy | undefined
+) => {
+    const policies = await getSpendingPolicies(storage);
+    const previous = policies[accountId];
+    if (policy) {
+        policies[accountId] = policy;
+    } else {
+        delete policies[accountId];
+    }
+    await storage.set(AppKey.SPENDING_POLICIES, policies);
+
+    await appendSpendingPolicyAudit(storage, {
+        kind: 'policy-change',
+        id: createAuditId(),
+        accountId,
+        timestamp: Date.now(),
+        policy,
+        previous
+    });
+};
+
+/**
+ * Value allowed to be sent during the last 24 hours, decisions made in another currency are not counted
+ */
+export const getSpentLastDay = (items: SpendingPolicyAuditItem[], fiat: FiatCurrencies) => {
+    const since = Date.now() - dayMs;
+    return items
+        .filter(
+            (item): item is SpendingPolicyDecision =>
+                !isSpendingPolicyChange(item) &&
+                item.allowed &&
+                item.fiat === fiat &&
+                item.timestamp > since
+        )
+        .reduce((acc, item) => acc + item.fiatAmount, 0);
+};
+
+interface OutgoingTransfer {
+    recipient: string;
+    tonAmount: bigint;
+    jetton?: { wallet: string; amount: bigint };
+}
+
+/**
+ * Throws when the body of a jetton or an nft transfer is malformed, the real recipient is unknown then
+ */
+const messageToOutgoingTransfer = (message: MessageRelaxed): OutgoingTransfer | undefined => {
+    if (message.info.type !== 'internal') {
+        return undefined;
+    }
+    const to = message.info.dest.toRawString();
+    const tonAmount = message.info.value.coins;
+
+    const body = message.body.beginParse();
+    if (body.remainingBits >= 32) {
+        const op = body.loadUint(32);
+        if (op === jettonTransferOp) {
+            body.skip(64);
+            const amount = body.loadCoins();
+            const recipient = body.loadAddress().toRawString();
+            return { recipient, tonAmount, jetton: { wallet: to, amount } };
+        }
+        if (op === nftTransferOp) {
+            body.skip(64);
+            return { recipient: body.loadAddress().toRawString(), tonAmount };
+        }
+    }
+
+    return { recipient: to, tonAmount };
+};
+
+/**
+ * Internal messages of the wallet signing request: references of the root for wallets v3 and v4,
+ * the out actions list for wallets v5. Undefined when the request is not decoded
+ * or has the wallet v5 extended actions, which may hand the wallet to an extension
+ */
+const getSigningRequestTransfers = (request: Cell): OutgoingTransfer[] | undefined => {
+    try {
+        const slice = request.beginParse();
+        const op = slice.remainingBits >= 32 ? slice.preloadUint(32) : undefined;
+
+        let messages: MessageRelaxed[];
+        if (op === walletV5SignedExternalOp || op === walletV5SignedInternalOp) {
+            // the second reference is the list of the extended actions
+            if (request.refs.length > 1) {
+                return undefined;
+            }
+            messages = request.refs[0]
+                ? loadOutList(request.refs[0].beginParse()).flatMap(action =>
+                      action.type === 'sendMsg' ? [action.outMsg] : []
+                  )
+                : [];
+        } else {
+            messages = request.refs.map(ref => loadMessageRelaxed(ref.beginParse()));
+        }
+
+        return messages.flatMap(message => messageToOutgoingTransfer(message) ?? []);
+    } catch (e) {
+        console.error(e);
+        return undefined;
+    }
+};
+
+const getLedgerTransactionTransfer = (transaction: LedgerTransaction): OutgoingTransfer => {
+    const to = transaction.to.toRawString();
+    const payload = transaction.payload;
+
+    if (payload?.type === 'jetton-transfer') {
+        return {
+            recipient: payload.destination.toRawString(),
+            tonAmount: transaction.amount,
+            jetton: { wallet: to, amount: payload.amount }
+        };
+    }
+    if (payload?.type === 'nft-transfer') {
+        return { recipient: payload.newOwner.toRawString(), tonAmount: transaction.amount };
+    }
+    return { recipient: to, tonAmount: transaction.amount };
+};
+
+const toFiatAmount = (weiAmount: bigint, decimals: number, price: number | undefined) =>
+    price === undefined
+        ? undefined
+        : shiftedDecimals(weiAmount.toString(), decimals).multipliedBy(price).toNumber();
+
+const getPolicyTransfers = async (
+    api: APIConfig,
+    options: { walletAddress: string; fiat: FiatCurrencies; transfers: OutgoingTransfer[] }
+): Promise<SpendingPolicyTransfer[]> => {
+    const { walletAddress, fiat, transfers } = options;
+
+    const { rates } = await new RatesApi(api.tonApiV2).getRates({
+        tokens: [CryptoCurrency.TON],
+        currencies: [fiat]
+    });
+    const tonPrice = rates[CryptoCurrency.TON]?.prices?.[fiat];
+
+    const jettons = transfers.some(item => item.jetton)
+        ? (
+              await new AccountsApi(api.tonApiV2).getAccountJettonsBalances({
+                  accountId: walletAddress,
+                  currencies: [fiat]
+              })
+          ).balances
+        : [];
+
+    return transfers.flatMap(item => {
+        const result: SpendingPolicyTransfer[] = [];
+        if (item.tonAmount > BigInt(0)) {
+            result.push({
+                recipient: item.recipient,
+                symbol: CryptoCurrency.TON,
+                weiAmount: item.tonAmount.toString(),
+                decimals: 9,
+                fiatAmount: toFiatAmount(item.tonAmount, 9, tonPrice)
+            });
+        }
+        if (item.jetton) {
+            const { wallet, amount } = item.jetton;
+            const balance = jettons.find(j => eqAddresses(j.walletAddress.address, wallet));
+            const decimals = balance?.jetton.decimals ?? 9;
+            result.push({
+                recipient: item.recipient,
+                symbol: balance?.jetton.symbol ?? Address.parse(wallet).toString(),
+                weiAmount: amount.toString(),
+                decimals,
+                fiatAmount: toFiatAmount(amount, decimals, balance?.price?.prices?.[fiat])
+            });
+        }
+        return result;
+    });
+};
+
+/**
+ * Violation of the limits and the allowlist, the password threshold is checked separately
+ * because it may be satisfied by the user
+ */
+export const checkSpendingPolicy = (
+    policy: SpendingPolicy,
+    transfers: SpendingPolicyTransfer[],
+    spentLastDay: number
+): SpendingPolicyViolation | undefined => {
+    if (
+        policy.allowlist.length > 0 &&
+        transfers.some(item => !policy.allowlist.some(a => eqAddresses(a, item.recipient)))
+    ) {
+        return 'recipient-not-allowed';
+    }
+
+    const total = transfers.reduce((acc, item) => acc + (item.fiatAmount ?? 0), 0);
+    if (policy.maxTransfer !== undefined && total > policy.maxTransfer) {
+        return 'max-transfer';
+    }
+    if (policy.dailyLimit !== undefined && spentLastDay + total > policy.dailyLimit) {
+        return 'daily-limit';
+    }
+
+    return undefined;
+};
+
+export interface SpendingPolicyContext {
+    api: APIConfig;
+    storage: IStorage;
+    accountId: AccountId;
+    /**
+     * Wallet the jetton transfers are made from
+     */
+    walletAddress: string;
+    /**
+     * Password was just entered to get the signer, no need to ask it again
+     */
+    passwordConfirmed: boolean;
+    /**
+     * Asks the user to enter the password, rejects when cancelled
+     */
+    confirmPassword: () => Promise<void>;
+}
+
+const hasSpendingLimits = (policy: SpendingPolicy) =>
+    policy.dailyLimit !== undefined ||
+    policy.maxTransfer !== undefined ||
+    policy.passwordThreshold !== undefined;
+
+/**
+ * Every decision is written to the audit log, the allowed value is counted towards the daily limit
+ * before the message is signed, so a failed broadcast still uses the limit.
+ * The request the policy can't verify, not decoded or not priced, is signed only after the password
+ */
+const enforceSpendingPolicy = async (
+    context: SpendingPolicyContext,
+    outgoing: OutgoingTransfer[] | undefined
+) => {
+    const { api, storage, accountId, walletAddress } = context;
+
+    const policy = await getSpendingPolicy(storage, accountId);
+    if (!policy) return;
+
+    const transfers = outgoing
+        ? await getPolicyTransfers(api, {
+              walletAddress,
+              fiat: policy.fiat,
+              transfers: outgoing
+          })
+        : [];
+    const fiatAmount = transfers.reduce((acc, item) => acc + (item.fiatAmount ?? 0), 0);
+    const spent = getSpentLastDay(await getSpendingPolicyAudit(storage, accountId), policy.fiat);
+
+    const unverified =
+        outgoing === undefined ||
+        (hasSpendingLimits(policy) && transfers.some(item => item.fiatAmount === undefined));
+
+    let violation: SpendingPolicyViolation | undefined =
+        outgoing === undefined && policy.allowlist.length > 0
+            ? 'recipient-not-allowed'
+            : checkSpendingPolicy(policy, transfers, spent);
+    let passwordConfirmed = context.passwordConfirmed;
+
+    if (
+        !violation &&
+        !passwordConfirmed &&
+        (unverified ||
+            (policy.passwordThreshold !== undefined && fiatAmount > policy.passwordThreshold))
+    ) {
+        try {
+            await context.confirmPassword();
+            passwordConfirmed = true;
+        } catch (e) {
+            violation = 'password-required';
+        }
+    }
+
+    const decision: SpendingPolicyDecision = {
+        id: createAuditId(),
+        accountId,
+        timestamp: Date.now(),
+        fiat: policy.fiat,
+        transfers,
+        fiatAmount,
+        allowed: violation === undefined,
+        violation,
+        passwordConfirmed,
+        unverified: unverified || undefined
+    };
+    await appendSpendingPolicyAudit(storage, decision);
+
+    if (violation) {
+        throw new SpendingPolicyError(violation, decision);
+    }
+};
+
+/**
+ * Signer checking the account spending policy before every signature, the only path all transfer services share
+ */
+export const withSpendingPolicy = (signer: Signer, context: SpendingPolicyContext): Signer => {
+    if (signer.type === 'ledger') {
+        const callback = async (
+            path: number[],
+            transaction: LedgerTransaction,
+            progress?: LedgerBatchProgress
+        ) => {
+            await enforceSpendingPolicy(context, [getLedgerTransactionTransfer(transaction)]);
+            return signer(path, transaction, progress);
+        };
+        callback.type = 'ledger' as const;
+        return callback;
+    }
+
+    const callback = async (message: Cell) => {
+        await enforceSpendingPolicy(context, getSigningRequestTransfers(message));
+        return signer(message);
+    };
+    callback.type = 'cell' as const;
+    return callback;
+};
@@ -0,0 +1,106 @@
+import { Address } from '@ton/core';
+import { APIConfig } from '../entries/apis';
+import { StakingPools, StakingPosition } from '../entries/staking';
+import { AccountEvents, AccountsApi, PoolInfo, StakingApi } from '../tonApiV2';
+
+const HISTORY_PAGE_LIMIT = 100;
+const HISTORY_MAX_PAGES = 10;
+
+/**
+ * Liquid pools go first, then pools with higher APY
+ */
+export const sortStakingPools = (pools: PoolInfo[]) =>
+    [...pools].sort((a, b) => {
+        const aLiquid = a.liquidJettonMaster ? 1 : 0;
+        const bLiquid = b.liquidJettonMaster ? 1 : 0;
+        return bLiquid - aLiquid || b.apy - a.apy;
+    });
+
+export const getStakingPools = async (
+    api: APIConfig,
+    availableFor: string,
+    acceptLanguage?: string
+): Promise<StakingPools> => {
+    const result = await new StakingApi(api.tonApiV2).getStakingPools({
+        availableFor,
+        acceptLanguage
+    });
+    return {
+        pools: sortStakingPools(result.pools),
+        implementations: result.implementations
+    };
+};
+
+/**
+ * Deposits minus withdrawals per pool raw address
+ * @returns undefined when the history does not fit into the loaded pages
+ */
+const getStakingNetDeposits = async (api: APIConfig, accountId: string) => {
+    const accountsApi = new AccountsApi(api.tonApiV2);
+    const result = new Map<string, number>();
+
+    let beforeLt: number | undefined = undefined;
+    for (let page = 0; page < HISTORY_MAX_PAGES; page++) {
+        const events: AccountEvents = await accountsApi.getAccountEvents({
+            accountId,
+            limit: HISTORY_PAGE_LIMIT,
+            beforeLt,
+            subjectOnly: true
+        });
+
+        events.events.forEach(event => {
+            if (event.inProgress) return;
+            event.actions.forEach(action => {
+                if (action.status !== 'ok') return;
+                if (action.depositStake) {
+                    const pool = Address.parse(action.depositStake.pool.address).toRawString();
+                    result.set(pool, (result.get(pool) ?? 0) + action.depositStake.amount);
+                }
+                if (action.withdrawStake) {
+                    const pool = Address.parse(action.withdrawStake.pool.address).toRawString();
+                    result.set(pool, (result.get(pool) ?? 0) - action.withdrawStake.amount);
+                }
+            });
+        });
+
+        if (!events.nextFrom) {
+            return result;
+        }
+        beforeLt = events.nextFrom;
+    }
+
+    return undefined;
+};
+
+/**
+ * Stakes of the wallet with accrued rewards, the rewards are the difference between
+ * the current stake and the net deposited amount from the wallet history
+ */
+export const getStakingPositions = async (
+    api: APIConfig,
+    accountId: string,
+    pools: PoolInfo[]
+): Promise<StakingPosition[]> => {
+    const { pools: stakes } = await new StakingApi(api.tonApiV2).getAccountNominatorsPools({
+        accountId
+    });
+    if (stakes.length === 0) {
+        return [];
+    }
+
+    const netDeposits = await getStakingNetDeposits(api, accountId).catch(e => {
+        console.warn(e);
+        return undefined;
+    });
+
+    return stakes.map(stake => {
+        const pool = Address.parse(stake.pool).toRawString();
+        const total = stake.amount + stake.pendingWithdraw + stake.readyWithdraw;
+        const deposited = netDeposits?.get(pool);
+        return {
+            ...stake,
+            poolInfo: pools.find(item => Address.parse(item.address).toRawString() === pool),
+            rewards: deposited === undefined ? undefined : Math.max(total - deposited, 0)
+        };
+    });
+};
@@ -1,6 +1,7 @@
 import { TonConnectAppRequest } from '../../entries/tonConnect';
 import { disconnectResponse, sendBadRequestResponse } from './connectService';
 import { sendEventToBridge } from './httpBridge';
+import { signDataBadRequestResponse } from './signDataService';
 
 export const replyBadRequestResponse = async ({
     connection,
@@ -9,7 +10,8 @@ export const replyBadRequestResponse = async ({
     await sendEventToBridge({
         response: sendBadRequestResponse(id, method),
         sessionKeyPair: connection.sessionKeyPair,
-        clientSessionId: connection.clientSessionId
+        clientSessionId: connection.clientSessionId,
+        bridgeUrl: connection.bridgeUrl
     });
 };
 
@@ -22,6 +24,19 @@ export const replyDisconnectResponse = async ({
     await sendEventToBridge({
         response: disconnectResponse(id),
         sessionKeyPair: connection.sessionKeyPair,
-        clientSessionId: connection.clientSessionId
+        clientSessionId: connection.clientSessionId,
+        bridgeUrl: connection.bridgeUrl
+    });
+};
+
+export const replySignDataBadRequestResponse = async (
+    { connection, request: { id } }: TonConnectAppRequest,
+    message: string
+) => {
+    await sendEventToBridge({
+        response: signDataBadRequestResponse(id, message),
+        sessionKeyPair: connection.sessionKeyPair,
+        clientSessionId: connection.clientSessionId,
+        bridgeUrl: connection.bridgeUrl
     });
 };
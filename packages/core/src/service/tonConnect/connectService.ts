@@ -3,6 +3,7 @@ import { getSecureRandomBytes, keyPairFromSeed, sha256_sync } from '@ton/crypto'
 import queryString from 'query-string';
 import { IStorage } from '../../Storage';
 import { TonConnectError } from '../../entries/exception';
+import { LedgerBatchError } from '../../errors/LedgerBatchError';
 import { Network } from '../../entries/network';
 import {
     CONNECT_EVENT_ERROR_CODES,
@@ -20,7 +21,7 @@ import {
     TonConnectAccount,
     TonProofItemReplySuccess
 } from '../../entries/tonConnect';
-import { TonWalletStandard } from '../../entries/wallet';
+import { isStandardTonWallet, TonWalletStandard } from '../../entries/wallet';
 import { walletContractFromState } from '../wallet/contractService';
 import {
     AccountConnection,
@@ -30,9 +31,9 @@ import {
     TonConnectParams
 } from './connectionService';
 import { SessionCrypto } from './protocol';
+import { signDataTypes } from './signDataService';
 import { accountsStorage } from '../accountsStorage';
-import { getDevSettings } from '../devStorage';
-import { Account } from '../../entries/account';
+import { getActiveTonNetwork } from '../devStorage';
 
 export function parseTonConnect(options: { url: string }): TonConnectParams | string {
     try {
@@ -162,6 +163,10 @@ export const getDeviceInfo = (appVersion: string): DeviceInfo => {
             {
                 name: 'SendTransaction',
                 maxMessages: 4
+            },
+            {
+                name: 'SignData',
+                types: signDataTypes
             }
         ]
     };
@@ -208,6 +213,7 @@ export const getAppConnections = async (
     return Promise.all(
         accounts
             .flatMap(a => a.allTonWallets)
+            .filter(isStandardTonWallet)
             .map(async wallet => {
                 const walletConnections = await getTonWalletConnections(storage, wallet);
                 return { wallet, connections: walletConnections };
@@ -244,7 +250,7 @@ export const tonReConnectRequest = async (
             CONNECT_EVENT_ERROR_CODES.BAD_REQUEST_ERROR
         );
     }
-    return [toTonAddressItemReply(connection.wallet, (await getDevSettings(storage)).tonNetwork)];
+    return [toTonAddressItemReply(connection.wallet, await getActiveTonNetwork(storage))];
 };
 
 export const toTonAddressItemReply = (wallet: TonWalletStandard, network: Network) => {
@@ -319,16 +325,19 @@ export const tonConnectProofPayload = (
     };
 };
 
+/**
+ * Signs the ton_proof of the wallet, devices computing the signed hash themselves get the whole proof message
+ */
+export type TonProofSigner = (proof: ConnectProofPayload) => Promise<Uint8Array>;
+
 export const toTonProofItemReply = async (options: {
     storage: IStorage;
-    account: Account;
-    signTonConnect: (bufferToSign: Buffer) => Promise<Uint8Array>;
+    signTonProof: TonProofSigner;
     proof: ConnectProofPayload;
 }): Promise<TonProofItemReplySuccess> => {
-    const signHash = options.account.type !== 'keystone';
     return {
         name: 'ton_proof',
-        proof: await toTonProofItem(options.signTonConnect, options.proof, signHash)
+        proof: createTonProofItem(await options.signTonProof(options.proof), options.proof)
     };
 };
 
@@ -378,6 +387,7 @@ export const saveWalletTonConnect = async (options: {
     replyItems: ConnectItemReply[];
     appVersion: string;
     webViewUrl?: string;
+    bridgeUrl?: string;
 }): Promise<ConnectEvent> => {
     await saveAccountConnection(options);
     return {
@@ -429,6 +439,23 @@ export const sendTransactionSuccessResponse = (
     };
 };
 
+/**
+ * Ledger series is interrupted after some of the messages are sent, the sent ones can't be revoked.
+ * The spec error has no place for the sent messages, the message tells the dApp how many of them are sent
+ */
+export const sendTransactionPartialErrorResponse = (
+    id: string,
+    error: LedgerBatchError
+): SendTransactionRpcResponseError => {
+    return {
+        id,
+        error: {
+            code: SEND_TRANSACTION_ERROR_CODES.UNKNOWN_ERROR,
+            message: `Only ${error.sentCount} of ${error.total} messages are sent`
+        }
+    };
+};
+
 export const sendBadRequestResponse = (
     id: string,
     name: string
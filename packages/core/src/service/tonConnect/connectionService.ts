@@ -2,7 +2,7 @@ import { ConnectRequest, DAppManifest, KeyPair } from '../../entries/tonConnect'
 import { TonWalletStandard } from '../../entries/wallet';
 import { AppKey } from '../../Keys';
 import { IStorage } from '../../Storage';
-import { getDevSettings } from '../devStorage';
+import { getActiveTonNetwork } from '../devStorage';
 
 export interface TonConnectParams {
     protocolVersion: number;
@@ -16,13 +16,17 @@ export interface AccountConnection {
     sessionKeyPair: KeyPair;
     clientSessionId: string;
     webViewUrl?: string;
+    /**
+     * Http bridge the dApp was connected through, the default bridge for connections saved before the field was added
+     */
+    bridgeUrl?: string;
 }
 
 export const getTonWalletConnections = async (
     storage: IStorage,
     wallet: Pick<TonWalletStandard, 'id' | 'publicKey'>
 ) => {
-    const network = (await getDevSettings(storage)).tonNetwork;
+    const network = await getActiveTonNetwork(storage);
 
     let result = await storage.get<AccountConnection[]>(
         `${AppKey.CONNECTIONS}_${wallet.id}_${network}`
@@ -41,7 +45,7 @@ export const setAccountConnection = async (
     wallet: Pick<TonWalletStandard, 'id'>,
     items: AccountConnection[]
 ) => {
-    const network = (await getDevSettings(storage)).tonNetwork;
+    const network = await getActiveTonNetwork(storage);
 
     await storage.set(`${AppKey.CONNECTIONS}_${wallet.id}_${network}`, items);
 };
@@ -52,6 +56,7 @@ export const saveAccountConnection = async (options: {
     manifest: DAppManifest;
     params: TonConnectParams;
     webViewUrl?: string;
+    bridgeUrl?: string;
 }): Promise<void> => {
     let connections = await getTonWalletConnections(options.storage, options.wallet);
 
@@ -64,7 +69,8 @@ export const saveAccountConnection = async (options: {
         manifest: options.manifest,
         sessionKeyPair: options.params.sessionKeyPair,
         clientSessionId: options.params.clientSessionId,
-        webViewUrl: options.webViewUrl
+        webViewUrl: options.webViewUrl,
+        bridgeUrl: options.bridgeUrl
     });
 
     await setAccountConnection(options.storage, options.wallet, connections);
@@ -104,7 +110,7 @@ async function migrateAccountConnections(
     storage: IStorage,
     wallet: Pick<TonWalletStandard, 'publicKey'>
 ) {
-    const network = (await getDevSettings(storage)).tonNetwork;
+    const network = await getActiveTonNetwork(storage);
     const oldConnections = await storage.get<AccountConnection[]>(
         `${AppKey.CONNECTIONS}_${wallet.publicKey}_${network}`
     );
@@ -0,0 +1,259 @@
+import BigNumber from 'bignumber.js';
+import { CryptoCurrency } from '../../entries/crypto';
+import {
+    AccountStatus,
+    Action,
+    JettonPreview,
+    MessageConsequences,
+    NftItem,
+    Trace
+} from '../../tonApiV2';
+import { eqAddresses } from '../../utils/address';
+
+export interface EmulationBalanceChange {
+    /**
+     * Jetton master address or "TON"
+     */
+    asset: string;
+    symbol: string;
+    decimals: number;
+    image?: string;
+    /**
+     * Signed amount in the asset units, negative for outgoing funds
+     */
+    weiAmount: string;
+}
+
+export interface EmulationDestination {
+    address: string;
+    name?: string;
+    /**
+     * The message was bounced back to the wallet
+     */
+    bounced: boolean;
+    /**
+     * Destination account has no deployed contract before the message is received
+     */
+    uninitialized: boolean;
+}
+
+export interface EmulationNft {
+    address: string;
+    name?: string;
+    image?: string;
+}
+
+export interface TonConnectEmulationReport {
+    balanceChanges: EmulationBalanceChange[];
+    nftsOut: EmulationNft[];
+    /**
+     * TON has no allowances, jetton wallets the transaction gets control over are the closest analogue of the approvals
+     */
+    jettonsAtRisk: JettonPreview[];
+    contractDeploys: { address: string; interfaces: string[] }[];
+    destinations: EmulationDestination[];
+    transferAllRemainingBalance: boolean;
+}
+
+const TON_ASSET = 'TON';
+
+class BalanceChanges {
+    private changes = new Map<string, EmulationBalanceChange>();
+
+    ton(amount: BigNumber.Value) {
+        this.add({ asset: TON_ASSET, symbol: CryptoCurrency.TON, decimals: 9 }, amount);
+    }
+
+    jetton(jetton: JettonPreview, amount: BigNumber.Value) {
+        this.add(
+            {
+                asset: jetton.address,
+                symbol: jetton.symbol,
+                decimals: jetton.decimals,
+                image: jetton.image
+            },
+            amount
+        );
+    }
+
+    result() {
+        return [...this.changes.values()].filter(item => !new BigNumber(item.weiAmount).isZero());
+    }
+
+    private add(asset: Omit<EmulationBalanceChange, 'weiAmount'>, amount: BigNumber.Value) {
+        const current = this.changes.get(asset.asset);
+        const weiAmount = new BigNumber(current?.weiAmount ?? 0).plus(amount);
+        this.changes.set(asset.asset, { ...asset, weiAmount: weiAmount.toFixed(0) });
+    }
+}
+
+const applyActionBalanceChange = (wallet: string, action: Action, changes: BalanceChanges) => {
+    const sign = (from: string | undefined, to: string | undefined) =>
+        eqAddresses(wallet, from) ? -1 : eqAddresses(wallet, to) ? 1 : 0;
+
+    switch (action.type) {
+        case 'TonTransfer': {
+            const { sender, recipient, amount } = action.tonTransfer!;
+            changes.ton(
+                new BigNumber(amount).multipliedBy(sign(sender.address, recipient.address))
+            );
+            break;
+        }
+        case 'SmartContractExec': {
+            const { executor, tonAttached } = action.smartContractExec!;
+            if (eqAddresses(wallet, executor.address)) {
+                changes.ton(-tonAttached);
+            }
+            break;
+        }
+        case 'DepositStake': {
+            const { staker, amount } = action.depositStake!;
+            if (eqAddresses(wallet, staker.address)) {
+                changes.ton(-amount);
+            }
+            break;
+        }
+        case 'WithdrawStake': {
+            const { staker, amount } = action.withdrawStake!;
+            if (eqAddresses(wallet, staker.address)) {
+                changes.ton(amount);
+            }
+            break;
+        }
+        case 'NftPurchase': {
+            const { buyer, seller, amount } = action.nftPurchase!;
+            if (amount.tokenName === CryptoCurrency.TON) {
+                changes.ton(
+                    new BigNumber(amount.value).multipliedBy(sign(buyer.address, seller.address))
+                );
+            }
+            break;
+        }
+        case 'AuctionBid': {
+            const { bidder, amount } = action.auctionBid!;
+            if (amount.tokenName === CryptoCurrency.TON && eqAddresses(wallet, bidder.address)) {
+                changes.ton(new BigNumber(amount.value).negated());
+            }
+            break;
+        }
+        case 'JettonTransfer': {
+            const { sender, recipient, amount, jetton } = action.jettonTransfer!;
+            changes.jetton(
+                jetton,
+                new BigNumber(amount).multipliedBy(sign(sender?.address, recipient?.address))
+            );
+            break;
+        }
+        case 'JettonBurn': {
+            const { sender, amount, jetton } = action.jettonBurn!;
+            if (eqAddresses(wallet, sender.address)) {
+                changes.jetton(jetton, new BigNumber(amount).negated());
+            }
+            break;
+        }
+        case 'JettonMint': {
+            const { recipient, amount, jetton } = action.jettonMint!;
+            if (eqAddresses(wallet, recipient.address)) {
+                changes.jetton(jetton, amount);
+            }
+            break;
+        }
+        case 'JettonSwap': {
+            const swap = action.jettonSwap!;
+            if (!eqAddresses(wallet, swap.userWallet.address)) {
+                break;
+            }
+            if (swap.jettonMasterIn) {
+                changes.jetton(swap.jettonMasterIn, new BigNumber(swap.amountIn).negated());
+            } else if (swap.tonIn) {
+                changes.ton(-swap.tonIn);
+            }
+            if (swap.jettonMasterOut) {
+                changes.jetton(swap.jettonMasterOut, swap.amountOut);
+            } else if (swap.tonOut) {
+                changes.ton(swap.tonOut);
+            }
+            break;
+        }
+    }
+};
+
+const toEmulationNft = (item: NftItem): EmulationNft => ({
+    address: item.address,
+    name: item.metadata?.name,
+    image: item.previews?.[0]?.url
+});
+
+const isUninitialized = (status: AccountStatus) =>
+    status === AccountStatus.Uninit || status === AccountStatus.Nonexist;
+
+/**
+ * Every child of the wallet transaction trace is a transaction of the message destination
+ */
+const getDestinations = (wallet: string, trace: Trace): EmulationDestination[] =>
+    (trace.children ?? [])
+        .filter(child => !eqAddresses(wallet, child.transaction.account.address))
+        .map(child => {
+            const { transaction } = child;
+            const bounced =
+                (child.children ?? []).some(item => item.transaction.inMsg?.bounced) ||
+                (!transaction.success && transaction.inMsg?.bounce === true);
+
+            return {
+                address: transaction.account.address,
+                name: transaction.account.name,
+                bounced,
+                uninitialized: isUninitialized(transaction.origStatus) && !transaction.inMsg?.init
+            };
+        });
+
+export const buildTonConnectEmulationReport = (
+    wallet: string,
+    consequences: MessageConsequences
+): TonConnectEmulationReport => {
+    const { event, risk, trace } = consequences;
+
+    const changes = new BalanceChanges();
+    changes.ton(event.extra);
+
+    const nftsOut = risk.nfts.map(toEmulationNft);
+    const contractDeploys: TonConnectEmulationReport['contractDeploys'] = [];
+
+    event.actions
+        .filter(action => action.status === 'ok')
+        .forEach(action => {
+            applyActionBalanceChange(wallet, action, changes);
+
+            if (action.type === 'ContractDeploy' && action.contractDeploy) {
+                contractDeploys.push(action.contractDeploy);
+            }
+
+            if (action.type === 'NftItemTransfer' && action.nftItemTransfer) {
+                const { sender, nft } = action.nftItemTransfer;
+                if (
+                    eqAddresses(wallet, sender?.address) &&
+                    !nftsOut.some(item => eqAddresses(item.address, nft))
+                ) {
+                    nftsOut.push({ address: nft });
+                }
+            }
+        });
+
+    return {
+        balanceChanges: changes.result(),
+        nftsOut,
+        jettonsAtRisk: risk.jettons.map(item => item.jetton),
+        contractDeploys,
+        destinations: getDestinations(wallet, trace),
+        transferAllRemainingBalance: risk.transferAllRemainingBalance
+    };
+};
+
+/**
+ * Report has something the user should pay attention to before signing
+ */
+export const hasEmulationReportWarnings = (report: TonConnectEmulationReport) =>
+    report.transferAllRemainingBalance ||
+    report.nftsOut.length > 0 ||
+    report.jettonsAtRisk.length > 0 ||
+    report.destinations.some(item => item.bounced || item.uninitialized);
@@ -3,19 +3,26 @@ import { IStorage } from '../../Storage';
 import {
     AppRequest,
     ConnectEvent,
+    defaultTonConnectBridge,
     DisconnectEvent,
     KeyPair,
     RpcMethod,
     TonConnectAppRequest,
+    TonConnectBridge,
     TonConnectMessageRequest,
     WalletResponse
 } from '../../entries/tonConnect';
+import { getTonConnectBridges } from '../devStorage';
 import { AccountConnection } from './connectionService';
 import { SessionCrypto } from './protocol';
 
-const defaultBridgeUrl = 'https://bridge.tonapi.io/bridge';
+const defaultBridgeUrl = defaultTonConnectBridge.url;
 const defaultTtl = 300;
 
+const reconnectBaseDelayMs = 1000;
+const reconnectMaxDelayMs = 30000;
+const maxReconnectAttemptsPerBridge = 3;
+
 export const sendEventToBridge = async <T extends RpcMethod>({
     response,
     sessionKeyPair,
@@ -43,13 +50,21 @@ export const sendEventToBridge = async <T extends RpcMethod>({
     });
 };
 
-export const getLastEventId = async (storage: IStorage) => {
-    const result = await storage.get<string>(AppKey.LAST_HTTP_EVENT_ID);
+const lastEventIdKey = (bridgeUrl: string) =>
+    bridgeUrl === defaultBridgeUrl
+        ? AppKey.LAST_HTTP_EVENT_ID
+        : `${AppKey.LAST_HTTP_EVENT_ID}_${bridgeUrl}`;
+
+/**
+ * Event ids are issued by a bridge, so the last received id is stored for every bridge separately
+ */
+export const getLastEventId = async (storage: IStorage, bridgeUrl = defaultBridgeUrl) => {
+    const result = await storage.get<string>(lastEventIdKey(bridgeUrl));
     return result ?? undefined;
 };
 
-const setLastEventId = async (storage: IStorage, lastEventId: string) => {
-    await storage.set(AppKey.LAST_HTTP_EVENT_ID, lastEventId);
+const setLastEventId = async (storage: IStorage, bridgeUrl: string, lastEventId: string) => {
+    await storage.set(lastEventIdKey(bridgeUrl), lastEventId);
 };
 
 interface TonConnectRequest {
@@ -57,71 +72,172 @@ interface TonConnectRequest {
     message: string;
 }
 
-export const subscribeTonConnect = ({
+const groupConnectionsByBridge = (connections: AccountConnection[]) =>
+    connections.reduce((acc, connection) => {
+        const bridgeUrl = connection.bridgeUrl ?? defaultBridgeUrl;
+        acc.set(bridgeUrl, (acc.get(bridgeUrl) ?? []).concat(connection));
+        return acc;
+    }, new Map<string, AccountConnection[]>());
+
+const toBridgeUrls = (connectionBridgeUrl: string, bridges: TonConnectBridge[]) => [
+    connectionBridgeUrl,
+    ...bridges.map(item => item.url).filter(url => url !== connectionBridgeUrl)
+];
+
+/**
+ * Keeps SSE stream to the bridge of the connections open.
+ * Failed stream is reopened with exponential backoff, after several failures in a row the next bridge of the list is used.
+ * The list of the fallback bridges is read from the storage again on every reconnect.
+ * Requests carry the connection with the bridge they are received from, so the replies are sent to the active bridge.
+ */
+const subscribeBridge = ({
     storage,
     handleMessage,
     connections,
-    lastEventId,
-    bridgeUrl = defaultBridgeUrl,
-    EventSourceClass = EventSource
+    connectionBridgeUrl,
+    bridges,
+    initialLastEventId,
+    EventSourceClass
 }: {
     storage: IStorage;
     handleMessage: (params: TonConnectAppRequest) => void;
-    lastEventId?: string;
-    connections?: AccountConnection[];
-    bridgeUrl?: string;
-    EventSourceClass?: typeof EventSource;
+    connections: AccountConnection[];
+    connectionBridgeUrl: string;
+    bridges: TonConnectBridge[];
+    initialLastEventId?: string;
+    EventSourceClass: typeof EventSource;
 }) => {
-    if (!connections || connections.length === 0) {
-        return () => {};
-    }
-
     const walletSessionIds = connections
         .map(item => new SessionCrypto(item.sessionKeyPair).sessionId)
         .join(',');
 
-    let url = `${bridgeUrl}/events?client_id=${walletSessionIds}`;
+    let eventSource: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let bridgeUrl = connectionBridgeUrl;
+    let attempt = 0;
+    let closed = false;
 
-    if (lastEventId) {
-        url += `&last_event_id=${lastEventId}`;
-    }
+    const connect = async (lastEventId?: string) => {
+        let url = `${bridgeUrl}/events?client_id=${walletSessionIds}`;
+
+        lastEventId = lastEventId ?? (await getLastEventId(storage, bridgeUrl));
+        if (lastEventId) {
+            url += `&last_event_id=${lastEventId}`;
+        }
+
+        if (closed) return;
+
+        console.log('sse connect', url);
+
+        const activeBridgeUrl = bridgeUrl;
+        const source = new EventSourceClass(url);
 
-    console.log('sse connect', url);
+        source.addEventListener('message', (params: MessageEvent<string>) => {
+            setLastEventId(storage, activeBridgeUrl, params.lastEventId);
 
-    const eventSource = new EventSourceClass(url);
+            const { from, message }: TonConnectRequest = JSON.parse(params.data);
 
-    const onMessage = (params: MessageEvent<string>) => {
-        setLastEventId(storage, params.lastEventId);
+            const connection = connections.find(item => item.clientSessionId === from);
+            if (!connection) return;
 
-        const { from, message }: TonConnectRequest = JSON.parse(params.data);
+            handleMessage(
+                decryptTonConnectMessage({
+                    message,
+                    from,
+                    connection: { ...connection, bridgeUrl: activeBridgeUrl }
+                })
+            );
+        });
 
-        const connection = connections.find(item => item.clientSessionId === from);
-        if (!connection) return;
+        source.addEventListener('open', () => {
+            console.log('sse connect: opened', activeBridgeUrl);
+            attempt = 0;
+        });
 
-        handleMessage(decryptTonConnectMessage({ message, from, connection }));
+        source.addEventListener('error', (event: Event) => {
+            console.log('sse connect: error', activeBridgeUrl, event);
+            source.close();
+            scheduleReconnect();
+        });
+
+        eventSource = source;
     };
 
-    const onOpen = () => {
-        console.log('sse connect: opened');
+    const reconnect = async () => {
+        const bridgeUrls = toBridgeUrls(
+            connectionBridgeUrl,
+            await getTonConnectBridges(storage).catch(() => bridges)
+        );
+
+        if (attempt > maxReconnectAttemptsPerBridge && bridgeUrls.length > 1) {
+            bridgeUrl = bridgeUrls[(bridgeUrls.indexOf(bridgeUrl) + 1) % bridgeUrls.length];
+            attempt = 1;
+        } else if (!bridgeUrls.includes(bridgeUrl)) {
+            bridgeUrl = connectionBridgeUrl;
+        }
+
+        await connect();
     };
 
-    const onError = (event: Event) => {
-        console.log('sse connect: error', event);
+    const scheduleReconnect = () => {
+        if (closed) return;
+
+        attempt += 1;
+
+        const delayMs = Math.min(reconnectBaseDelayMs * 2 ** (attempt - 1), reconnectMaxDelayMs);
+        reconnectTimer = setTimeout(() => reconnect(), delayMs);
     };
 
-    eventSource.addEventListener('message', onMessage);
-    eventSource.addEventListener('open', onOpen);
-    eventSource.addEventListener('error', onError);
+    connect(initialLastEventId);
 
     return () => {
-        eventSource.removeEventListener('message', onMessage);
-        eventSource.removeEventListener('open', onOpen);
-        eventSource.removeEventListener('error', onError);
-
-        eventSource.close();
+        closed = true;
+        clearTimeout(reconnectTimer);
+        eventSource?.close();
     };
 };
 
+export const subscribeTonConnect = ({
+    storage,
+    handleMessage,
+    connections,
+    lastEventId,
+    bridges = [defaultTonConnectBridge],
+    EventSourceClass = EventSource
+}: {
+    storage: IStorage;
+    handleMessage: (params: TonConnectAppRequest) => void;
+    /**
+     * Last event id of the default bridge
+     */
+    lastEventId?: string;
+    connections?: AccountConnection[];
+    /**
+     * Fallback bridges, in the order of priority
+     */
+    bridges?: TonConnectBridge[];
+    EventSourceClass?: typeof EventSource;
+}) => {
+    if (!connections || connections.length === 0) {
+        return () => {};
+    }
+
+    const closes = [...groupConnectionsByBridge(connections).entries()].map(
+        ([bridgeUrl, bridgeConnections]) =>
+            subscribeBridge({
+                storage,
+                handleMessage,
+                connections: bridgeConnections,
+                connectionBridgeUrl: bridgeUrl,
+                bridges,
+                initialLastEventId: bridgeUrl === defaultBridgeUrl ? lastEventId : undefined,
+                EventSourceClass
+            })
+    );
+
+    return () => closes.forEach(close => close());
+};
+
 export const decryptTonConnectMessage = ({
     message,
     from,
@@ -0,0 +1,151 @@
+import { Address, beginCell, Cell } from '@ton/core';
+import { keyPairFromSeed, sha256_sync, sign, signVerify } from '@ton/crypto';
+import { Account } from '../../entries/account';
+import { Network } from '../../entries/network';
+import { SignDataRequestPayload } from '../../entries/tonConnect';
+import { crc32 } from '../../utils/crc32';
+import {
+    checkSignDataRequestPayloadOrDie,
+    isSignDataSupported,
+    parseSignDataRequestPayload,
+    toSignDataResponse,
+    tonConnectSignDataPayload
+} from './signDataService';
+
+const wallet = '0:' + 'ab'.repeat(32);
+const origin = 'https://app.example.com';
+const timestamp = 1700000000;
+const keyPair = keyPairFromSeed(Buffer.alloc(32, 1));
+
+const signMessage = async (message: Buffer | Cell) =>
+    sign(message instanceof Cell ? message.hash() : sha256_sync(message), keyPair.secretKey);
+
+describe('signDataService', () => {
+    it('builds the text message and signs its sha256', async () => {
+        const payload: SignDataRequestPayload = { type: 'text', text: 'Confirm login' };
+        const data = tonConnectSignDataPayload(timestamp, origin, wallet, payload);
+
+        const address = Address.parse(wallet);
+        const domain = Buffer.from('app.example.com', 'utf8');
+        const text = Buffer.from('Confirm login', 'utf8');
+        const expected = Buffer.concat([
+            Buffer.from([0xff, 0xff]),
+            Buffer.from('ton-connect/sign-data/', 'utf8'),
+            Buffer.from([0, 0, 0, 0]),
+            address.hash,
+            Buffer.from([0, 0, 0, domain.length]),
+            domain,
+            Buffer.from('000000006553f100', 'hex'),
+            Buffer.from('txt', 'utf8'),
+            Buffer.from([0, 0, 0, text.length]),
+            text
+        ]);
+        expect(data.message).toEqual(expected);
+
+        const response = await toSignDataResponse(signMessage, data);
+        expect(response).toEqual({
+            signature: expect.any(String),
+            address: wallet,
+            timestamp,
+            domain: 'app.example.com',
+            payload
+        });
+        expect(
+            signVerify(
+                sha256_sync(expected),
+                Buffer.from(response.signature, 'base64'),
+                keyPair.publicKey
+            )
+        ).toBe(true);
+    });
+
+    it('marks binary payloads with the bin prefix', () => {
+        const bytes = Buffer.from([1, 2, 3, 4, 5]);
+        const data = tonConnectSignDataPayload(timestamp, origin, wallet, {
+            type: 'binary',
+            bytes: bytes.toString('base64')
+        });
+
+        const message = data.message as Buffer;
+        expect(message.subarray(message.length - 12).toString('hex')).toBe(
+            Buffer.concat([Buffer.from('bin'), Buffer.from([0, 0, 0, 5]), bytes]).toString('hex')
+        );
+    });
+
+    it('builds the cell message and signs its hash', async () => {
+        const inner = beginCell().storeUint(42, 32).endCell();
+        const schema = 'message#_ value:uint32 = Message;';
+        const data = tonConnectSignDataPayload(timestamp, origin, wallet, {
+            type: 'cell',
+            schema,
+            cell: inner.toBoc().toString('base64')
+        });
+
+        const message = data.message as Cell;
+        const slice = message.beginParse();
+        expect(slice.loadUint(32)).toBe(0x75569022);
+        expect(slice.loadUint(32)).toBe(crc32(schema));
+        expect(slice.loadUint(64)).toBe(timestamp);
+        expect(slice.loadAddress().equals(Address.parse(wallet))).toBe(true);
+        expect(slice.loadStringRefTail()).toBe('com\0example\0app\0');
+        expect(slice.loadRef().equals(inner)).toBe(true);
+
+        const response = await toSignDataResponse(signMessage, data);
+        expect(
+            signVerify(message.hash(), Buffer.from(response.signature, 'base64'), keyPair.publicKey)
+        ).toBe(true);
+    });
+
+    it('rejects malformed payloads', () => {
+        expect(() => parseSignDataRequestPayload('{')).toThrow('not a valid json');
+        expect(() => parseSignDataRequestPayload('{"type":"text"}')).toThrow(
+            'Text payload is missing'
+        );
+        expect(() =>
+            parseSignDataRequestPayload('{"type":"cell","schema":"a","cell":"zz"}')
+        ).toThrow('not a valid boc');
+        expect(() => parseSignDataRequestPayload('{"type":"json"}')).toThrow('not supported');
+    });
+
+    it('rejects payloads addressed to another network or wallet', () => {
+        const payload: SignDataRequestPayload = { type: 'text', text: 'a' };
+
+        expect(() =>
+            checkSignDataRequestPayloadOrDie(
+                { ...payload, network: String(Network.MAINNET), from: wallet },
+                wallet,
+                Network.MAINNET
+            )
+        ).not.toThrow();
+        expect(() =>
+            checkSignDataRequestPayloadOrDie(
+                { ...payload, network: String(Network.TESTNET) },
+                wallet,
+                Network.MAINNET
+            )
+        ).toThrow('network mismatch');
+        expect(() =>
+            checkSignDataRequestPayloadOrDie(
+                { ...payload, from: '0:' + 'cd'.repeat(32) },
+                wallet,
+                Network.MAINNET
+            )
+        ).toThrow('does not match');
+    });
+
+    it('signs cell payloads only on Keystone and nothing on Ledger', () => {
+        const text: SignDataRequestPayload = { type: 'text', text: 'a' };
+        const cell: SignDataRequestPayload = {
+            type: 'cell',
+            schema: 'a',
+            cell: beginCell().endCell().toBoc().toString('base64')
+        };
+        const account = (type: Account['type']) => ({ type } as Account);
+
+        expect(isSignDataSupported(account('mnemonic'), text)).toBe(true);
+        expect(isSignDataSupported(account('keystone'), text)).toBe(false);
+        expect(isSignDataSupported(account('keystone'), cell)).toBe(true);
+        expect(isSignDataSupported(account('ledger'), cell)).toBe(false);
+        expect(isSignDataSupported(account('watch-only'), text)).toBe(false);
+    });
+});
@@ -0,0 +1,252 @@
+import { Address, beginCell, Cell } from '@ton/core';
+import { Account } from '../../entries/account';
+import { TonConnectError } from '../../entries/exception';
+import { Network } from '../../entries/network';
+import {
+    CONNECT_EVENT_ERROR_CODES,
+    SIGN_DATA_ERROR_CODES,
+    SignDataRequestPayload,
+    SignDataResponse,
+    SignDataRpcResponseError,
+    SignDataRpcResponseSuccess,
+    SignDataType
+} from '../../entries/tonConnect';
+import { crc32 } from '../../utils/crc32';
+
+export const signDataTypes: SignDataType[] = ['text', 'binary', 'cell'];
+
+const badRequest = (message: string) =>
+    new TonConnectError(message, CONNECT_EVENT_ERROR_CODES.BAD_REQUEST_ERROR);
+
+export const parseSignDataRequestPayload = (value: string): SignDataRequestPayload => {
+    let payload: unknown;
+    try {
+        payload = JSON.parse(value);
+    } catch (e) {
+        throw badRequest('Sign data payload is not a valid json');
+    }
+
+    return validateSignDataRequestPayload(payload);
+};
+
+export const validateSignDataRequestPayload = (value: unknown): SignDataRequestPayload => {
+    const payload = value as SignDataRequestPayload;
+    if (!payload || typeof payload !== 'object') {
+        throw badRequest('Sign data payload is missing');
+    }
+
+    switch (payload.type) {
+        case 'text': {
+            if (typeof payload.text !== 'string') {
+                throw badRequest('Text payload is missing');
+            }
+            break;
+        }
+        case 'binary': {
+            if (typeof payload.bytes !== 'string' || !payload.bytes) {
+                throw badRequest('Binary payload is missing');
+            }
+            break;
+        }
+        case 'cell': {
+            if (typeof payload.schema !== 'string' || !payload.schema) {
+                throw badRequest('Cell payload schema is missing');
+            }
+            try {
+                Cell.fromBase64(payload.cell);
+            } catch (e) {
+                throw badRequest('Cell payload is not a valid boc');
+            }
+            break;
+        }
+        default:
+            throw badRequest(
+                `Sign data type "${(payload as { type: unknown }).type}" is not supported`
+            );
+    }
+
+    return payload;
+};
+
+/**
+ * Rejects payloads addressed to another wallet or network
+ */
+export const checkSignDataRequestPayloadOrDie = (
+    payload: SignDataRequestPayload,
+    wallet: string,
+    network: Network
+) => {
+    if (payload.network !== undefined && payload.network !== network.toString()) {
+        throw badRequest('Sign data request network mismatch');
+    }
+
+    if (payload.from !== undefined) {
+        let from: Address;
+        try {
+            from = Address.parse(payload.from);
+        } catch (e) {
+            throw badRequest('Sign data request "from" is not a valid address');
+        }
+        if (!from.equals(Address.parse(wallet))) {
+            throw badRequest('Sign data request "from" does not match connected wallet');
+        }
+    }
+};
+
+/**
+ * Ledger is out of scope: the TON app signs only its own plaintext and app-data cells, never the sign data message of the spec.
+ * Keystone signs a boc as a transaction, that is the cell hash, so it can sign cell payloads only:
+ * text and binary payloads need a signature of the sha256 of raw bytes, which no Keystone TON request produces
+ */
+export const isSignDataSupported = (account: Account, payload: SignDataRequestPayload) => {
+    switch (account.type) {
+        case 'mnemonic':
+            return true;
+        case 'keystone':
+            return payload.type === 'cell';
+        default:
+            return false;
+    }
+};
+
+export interface SignDataPayload {
+    timestamp: number;
+    address: Address;
+    domain: string;
+    payload: SignDataRequestPayload;
+    /**
+     * Message to sign: ed25519(sha256(buffer)) for text and binary payloads, ed25519(cell hash) for cell payloads
+     */
+    message: Buffer | Cell;
+}
+
+/**
+ * Domain encoded as dns record: "example.com" -> "com\0example\0"
+ */
+const encodeDomainDnsLike = (domain: string) =>
+    domain
+        .split('.')
+        .reverse()
+        .map(label => `${label}\0`)
+        .join('');
+
+const signDataBinaryMessage = (
+    timestamp: number,
+    address: Address,
+    domain: string,
+    payload: Exclude<SignDataRequestPayload, { type: 'cell' }>
+) => {
+    const workchainBuffer = Buffer.allocUnsafe(4);
+    workchainBuffer.writeInt32BE(address.workChain);
+
+    const domainBuffer = Buffer.from(domain, 'utf8');
+    const domainLengthBuffer = Buffer.allocUnsafe(4);
+    domainLengthBuffer.writeUInt32BE(domainBuffer.byteLength);
+
+    const timestampBuffer = Buffer.allocUnsafe(8);
+    timestampBuffer.writeBigUInt64BE(BigInt(timestamp));
+
+    const payloadBuffer =
+        payload.type === 'text'
+            ? Buffer.from(payload.text, 'utf8')
+            : Buffer.from(payload.bytes, 'base64');
+    const payloadLengthBuffer = Buffer.allocUnsafe(4);
+    payloadLengthBuffer.writeUInt32BE(payloadBuffer.byteLength);
+
+    return Buffer.concat([
+        Buffer.from('ffff', 'hex'),
+        Buffer.from('ton-connect/sign-data/', 'utf8'),
+        workchainBuffer,
+        address.hash,
+        domainLengthBuffer,
+        domainBuffer,
+        timestampBuffer,
+        Buffer.from(payload.type === 'text' ? 'txt' : 'bin', 'utf8'),
+        payloadLengthBuffer,
+        payloadBuffer
+    ]);
+};
+
+const signDataCellMessage = (
+    timestamp: number,
+    address: Address,
+    domain: string,
+    payload: Extract<SignDataRequestPayload, { type: 'cell' }>
+) => {
+    return beginCell()
+        .storeUint(0x75569022, 32)
+        .storeUint(crc32(payload.schema), 32)
+        .storeUint(timestamp, 64)
+        .storeAddress(address)
+        .storeStringRefTail(encodeDomainDnsLike(domain))
+        .storeRef(Cell.fromBase64(payload.cell))
+        .endCell();
+};
+
+export const tonConnectSignDataPayload = (
+    timestamp: number,
+    origin: string,
+    wallet: string,
+    payload: SignDataRequestPayload
+): SignDataPayload => {
+    const address = Address.parse(wallet);
+    const domain = new URL(origin).host;
+
+    return {
+        timestamp,
+        address,
+        domain,
+        payload,
+        message:
+            payload.type === 'cell'
+                ? signDataCellMessage(timestamp, address, domain, payload)
+                : signDataBinaryMessage(timestamp, address, domain, payload)
+    };
+};
+
+export const toSignDataResponse = async (
+    signData: (message: Buffer | Cell) => Promise<Uint8Array>,
+    data: SignDataPayload
+): Promise<SignDataResponse> => {
+    const signature = await signData(data.message);
+    return {
+        signature: Buffer.from(signature).toString('base64'),
+        address: data.address.toRawString(),
+        timestamp: data.timestamp,
+        domain: data.domain,
+        payload: data.payload
+    };
+};
+
+export const signDataErrorResponse = (id: string): SignDataRpcResponseError => {
+    return {
+        id,
+        error: {
+            code: SIGN_DATA_ERROR_CODES.USER_REJECTS_ERROR,
+            message: 'Reject Request'
+        }
+    };
+};
+
+export const signDataBadRequestResponse = (
+    id: string,
+    message: string
+): SignDataRpcResponseError => {
+    return {
+        id,
+        error: {
+            code: SIGN_DATA_ERROR_CODES.BAD_REQUEST_ERROR,
+            message
+        }
+    };
+};
+
+export const signDataSuccessResponse = (
+    id: string,
+    result: SignDataResponse
+): SignDataRpcResponseSuccess => {
+    return {
+        id,
+        result
+    };
+};
@@ -0,0 +1,88 @@
+import { APIConfig } from '../entries/apis';
+import { BouncePhaseType, Trace, TracesApi, Transaction } from '../tonApiV2';
+
+/**
+ * Event id of the account event is the hash of the trace root transaction
+ */
+export const getTrace = async (api: APIConfig, traceId: string) => {
+    return new TracesApi(api.tonApiV2).getTrace({ traceId });
+};
+
+export type TraceHopStatus = 'success' | 'failed' | 'bounced';
+
+export interface TraceHop {
+    status: TraceHopStatus;
+    opCode?: string;
+    opName?: string;
+    computeExitCode?: number;
+    computeExitDescription?: string;
+    computeSkipReason?: string;
+    actionResultCode?: number;
+    actionResultDescription?: string;
+    fees: number;
+    /**
+     * Transaction failed and sent the incoming value back to the sender
+     */
+    isBounceOrigin: boolean;
+    /**
+     * Transaction received a bounced message from a failed child
+     */
+    isBounceReceipt: boolean;
+}
+
+const isBounceOrigin = (transaction: Transaction) =>
+    transaction.bouncePhase === BouncePhaseType.TrPhaseBounceOk ||
+    transaction.outMsgs.some(message => message.bounced);
+
+export const getTraceHop = (transaction: Transaction): TraceHop => {
+    const { computePhase, actionPhase, inMsg } = transaction;
+    const bounceOrigin = isBounceOrigin(transaction);
+
+    let status: TraceHopStatus = 'success';
+    if (bounceOrigin) {
+        status = 'bounced';
+    } else if (!transaction.success || transaction.aborted) {
+        status = 'failed';
+    }
+
+    return {
+        status,
+        opCode: inMsg?.opCode,
+        opName: inMsg?.decodedOpName,
+        computeExitCode: computePhase?.skipped ? undefined : computePhase?.exitCode,
+        computeExitDescription: computePhase?.exitCodeDescription,
+        computeSkipReason: computePhase?.skipped ? computePhase.skipReason : undefined,
+        actionResultCode: actionPhase?.resultCode,
+        actionResultDescription: actionPhase?.resultCodeDescription,
+        fees: transaction.totalFees,
+        isBounceOrigin: bounceOrigin,
+        isBounceReceipt: inMsg?.bounced ?? false
+    };
+};
+
+export const getTraceTotalFees = (trace: Trace): number => {
+    return (trace.children ?? []).reduce(
+        (acc, child) => acc + getTraceTotalFees(child),
+        trace.transaction.totalFees
+    );
+};
+
+export const getTraceTransactionsCount = (trace: Trace): number => {
+    return (trace.children ?? []).reduce((acc, child) => acc + getTraceTransactionsCount(child), 1);
+};
+
+/**
+ * First transaction in the depth-first order which failed and bounced the incoming message
+ */
+export const findTraceBounce = (trace: Trace): Trace | undefined => {
+    if (isBounceOrigin(trace.transaction)) {
+        return trace;
+    }
+    for (const child of trace.children ?? []) {
+        const bounce = findTraceBounce(child);
+        if (bounce) {
+            return bounce;
+        }
+    }
+    return undefined;
+};
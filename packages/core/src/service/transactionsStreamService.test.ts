@@ -0,0 +1,140 @@
+import { APIConfig } from '../entries/apis';
+import { BlockchainApi } from '../tonApiV2';
+import {
+    AccountTransactionEvent,
+    createLocalTransactionsSource,
+    createTonApiTransactionsSource,
+    subscribeAccountsTransactions
+} from './transactionsStreamService';
+
+jest.mock('../tonApiV2', () => ({
+    ...jest.requireActual('../tonApiV2'),
+    BlockchainApi: jest.fn()
+}));
+
+const account = '0:' + '01'.repeat(32);
+const another = '0:' + '02'.repeat(32);
+
+const transaction = (lt: number, accountId = account): AccountTransactionEvent => ({
+    accountId,
+    lt,
+    txHash: `hash-${lt}`
+});
+
+describe('subscribeAccountsTransactions', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('delivers the streamed transactions of the accounts after the last known one', async () => {
+        const local = createLocalTransactionsSource();
+        local.push(transaction(10), false);
+        const received: number[] = [];
+
+        const unsubscribe = subscribeAccountsTransactions({
+            accounts: [account],
+            source: local.source,
+            onTransaction: event => received.push(event.lt)
+        });
+        await jest.advanceTimersByTimeAsync(0);
+
+        local.push(transaction(11));
+        local.push(transaction(12, another));
+        local.push(transaction(11));
+        expect(received).toEqual([11]);
+
+        unsubscribe();
+        expect(local.isOpen).toBe(false);
+    });
+
+    it('reconnects and backfills the transactions missed while disconnected in order', async () => {
+        const local = createLocalTransactionsSource();
+        local.push(transaction(10), false);
+        const received: number[] = [];
+
+        const unsubscribe = subscribeAccountsTransactions({
+            accounts: [account],
+            source: local.source,
+            onTransaction: event => received.push(event.lt)
+        });
+        await jest.advanceTimersByTimeAsync(0);
+        local.push(transaction(11));
+
+        local.fail();
+        expect(local.isOpen).toBe(false);
+        local.push(transaction(12));
+        local.push(transaction(13));
+
+        // the stream is reopened after the backoff and reports the open on the next tick
+        await jest.advanceTimersByTimeAsync(1000);
+        await jest.runOnlyPendingTimersAsync();
+        expect(local.isOpen).toBe(true);
+        local.push(transaction(14));
+
+        expect(received).toEqual([11, 12, 13, 14]);
+        unsubscribe();
+    });
+
+    it('backs off between failed reconnects', async () => {
+        const local = createLocalTransactionsSource();
+        const open = jest.spyOn(local.source, 'open');
+
+        const unsubscribe = subscribeAccountsTransactions({
+            accounts: [account],
+            source: local.source,
+            onTransaction: () => undefined
+        });
+        await jest.advanceTimersByTimeAsync(0);
+        expect(open).toHaveBeenCalledTimes(1);
+
+        local.fail();
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(open).toHaveBeenCalledTimes(2);
+
+        // the stream fails again before it is open, the next attempt waits twice longer
+        local.fail();
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(open).toHaveBeenCalledTimes(2);
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(open).toHaveBeenCalledTimes(3);
+
+        unsubscribe();
+    });
+});
+
+describe('createTonApiTransactionsSource', () => {
+    it('pages the missed transactions back to the last delivered lt', async () => {
+        const lts = Array.from({ length: 250 }, (_, index) => 1000 + index);
+        const requests: { afterLt?: number; beforeLt?: number; limit?: number }[] = [];
+
+        (BlockchainApi as unknown as jest.Mock).mockImplementation(() => ({
+            getBlockchainAccountTransactions: async (request: {
+                afterLt?: number;
+                beforeLt?: number;
+                limit: number;
+            }) => {
+                requests.push(request);
+                const transactions = lts
+                    .filter(lt => lt > request.afterLt! && lt < (request.beforeLt ?? Infinity))
+                    .sort((a, b) => b - a)
+                    .slice(0, request.limit)
+                    .map(lt => ({ lt, hash: `hash-${lt}`, account: { address: account } }));
+                return { transactions };
+            }
+        }));
+
+        const source = createTonApiTransactionsSource(
+            { tonApiV2: {} } as APIConfig,
+            class {} as unknown as typeof EventSource
+        );
+        const missed = await source.getTransactionsAfter(account, 1009);
+
+        expect(missed.map(item => item.lt)).toEqual(lts.filter(lt => lt > 1009));
+        expect(requests.map(request => request.beforeLt)).toEqual([undefined, 1150, 1050]);
+        expect(requests.every(request => request.afterLt === 1009)).toBe(true);
+    });
+});
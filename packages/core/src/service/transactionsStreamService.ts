@@ -0,0 +1,347 @@
+import { APIConfig } from '../entries/apis';
+import {
+    AccountAddress,
+    AccountEvent,
+    AccountsApi,
+    BlockchainApi,
+    GetBlockchainAccountTransactionsSortOrderEnum
+} from '../tonApiV2';
+import { eqAddresses } from '../utils/address';
+
+const reconnectBaseDelayMs = 1000;
+const reconnectMaxDelayMs = 30000;
+const backfillPageSize = 100;
+
+export interface AccountTransactionEvent {
+    /**
+     * Raw address of the account
+     */
+    accountId: string;
+    lt: number;
+    txHash: string;
+}
+
+export interface TransactionsStreamListener {
+    onOpen: () => void;
+    onTransaction: (event: AccountTransactionEvent) => void;
+    onError: () => void;
+}
+
+/**
+ * Source of the account transactions: the live stream and the history used to fill the gaps between connections
+ */
+export interface TransactionsStreamSource {
+    /**
+     * Opens the stream, returns the function to close it
+     */
+    open: (accounts: string[], listener: TransactionsStreamListener) => () => void;
+    getLastLt: (account: string) => Promise<number | undefined>;
+    /**
+     * Transactions of the account made after the lt, the oldest first
+     */
+    getTransactionsAfter: (account: string, lt: number) => Promise<AccountTransactionEvent[]>;
+}
+
+const getTonApiToken = (api: APIConfig) => {
+    const authorization = api.tonApiV2.headers?.Authorization;
+    return authorization?.startsWith('Bearer ') ? authorization.slice(7) : undefined;
+};
+
+/**
+ * TonAPI server-sent events, EventSource can't send headers so the key is passed in the query
+ */
+export const createTonApiTransactionsSource = (
+    api: APIConfig,
+    EventSourceClass: typeof EventSource = EventSource
+): TransactionsStreamSource => {
+    const blockchainApi = new BlockchainApi(api.tonApiV2);
+
+    return {
+        open: (accounts, listener) => {
+            const url = new URL(`${api.tonApiV2.basePath}/v2/sse/accounts/transactions`);
+            url.searchParams.set('accounts', accounts.join(','));
+            const token = getTonApiToken(api);
+            if (token) {
+                url.searchParams.set('token', token);
+            }
+
+            const source = new EventSourceClass(url.toString());
+            source.addEventListener('open', () => listener.onOpen());
+            source.addEventListener('error', () => listener.onError());
+            source.addEventListener('message', (event: MessageEvent<string>) => {
+                try {
+                    const data: { account_id: string; lt: number; tx_hash: string } = JSON.parse(
+                        event.data
+                    );
+                    listener.onTransaction({
+                        accountId: data.account_id,
+                        lt: data.lt,
+                        txHash: data.tx_hash
+                    });
+                } catch (e) {
+                    console.error(e);
+                }
+            });
+
+            return () => source.close();
+        },
+        getLastLt: async account => {
+            const { lastTransactionLt } = await blockchainApi.getBlockchainRawAccount({
+                accountId: account
+            });
+            return lastTransactionLt;
+        },
+        getTransactionsAfter: async (account, lt) => {
+            // pages go from the newest transaction back to the lt, so nothing is skipped after a long gap
+            const result: AccountTransactionEvent[] = [];
+            let beforeLt: number | undefined;
+            for (;;) {
+                const { transactions } = await blockchainApi.getBlockchainAccountTransactions({
+                    accountId: account,
+                    afterLt: lt,
+                    beforeLt,
+                    limit: backfillPageSize,
+                    sortOrder: GetBlockchainAccountTransactionsSortOrderEnum.Desc
+                });
+                const page = transactions.filter(
+                    item => item.lt > lt && (beforeLt === undefined || item.lt < beforeLt)
+                );
+                result.push(
+                    ...page.map(item => ({
+                        accountId: item.account.address,
+                        lt: item.lt,
+                        txHash: item.hash
+                    }))
+                );
+
+                if (transactions.length < backfillPageSize || page.length === 0) break;
+                beforeLt = page[page.length - 1].lt;
+            }
+            return result.reverse();
+        }
+    };
+};
+
+/**
+ * In-memory source driven by hand, lets the subscription be exercised without the network
+ */
+export const createLocalTransactionsSource = () => {
+    const history: AccountTransactionEvent[] = [];
+    let listener: TransactionsStreamListener | undefined;
+    let accounts: string[] = [];
+
+    const source: TransactionsStreamSource = {
+        open: (openAccounts, openListener) => {
+            accounts = openAccounts;
+            listener = openListener;
+            setTimeout(() => openListener.onOpen());
+            return () => {
+                if (listener === openListener) {
+                    listener = undefined;
+                }
+            };
+        },
+        getLastLt: async account =>
+            history
+                .filter(item => eqAddresses(item.accountId, account))
+                .reduce<number | undefined>((acc, item) => Math.max(acc ?? 0, item.lt), undefined),
+        getTransactionsAfter: async (account, lt) =>
+            history
+                .filter(item => eqAddresses(item.accountId, account) && item.lt > lt)
+                .sort((a, b) => a.lt - b.lt)
+    };
+
+    return {
+        source,
+        /**
+         * Adds the transaction to the history, it is delivered only while the stream is connected
+         */
+        push: (event: AccountTransactionEvent, deliver = true) => {
+            history.push(event);
+            if (deliver && accounts.some(item => eqAddresses(item, event.accountId))) {
+                listener?.onTransaction(event);
+            }
+        },
+        /**
+         * Emulates the dropped connection, the subscription is expected to reopen the stream
+         */
+        fail: () => listener?.onError(),
+        get isOpen() {
+            return listener !== undefined;
+        }
+    };
+};
+
+/**
+ * Keeps the transactions stream of the accounts open.
+ * Failed stream is reopened with exponential backoff, transactions missed while disconnected are loaded
+ * from the history after the last seen lt of every account, so each transaction is delivered once and in order.
+ */
+export const subscribeAccountsTransactions = ({
+    accounts,
+    source,
+    onTransaction
+}: {
+    accounts: string[];
+    source: TransactionsStreamSource;
+    onTransaction: (event: AccountTransactionEvent) => void;
+}) => {
+    if (accounts.length === 0) {
+        return () => {};
+    }
+
+    const lastLt = new Map<string, number>();
+    let closeSource: (() => void) | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    let closed = false;
+    /**
+     * Stream events received during the backfill, delivered after it to keep the order
+     */
+    let pending: AccountTransactionEvent[] | undefined;
+
+    const deliver = (event: AccountTransactionEvent) => {
+        const account = accounts.find(item => eqAddresses(item, event.accountId));
+        if (!account || closed) return;
+
+        const seen = lastLt.get(account);
+        if (seen !== undefined && event.lt <= seen) return;
+
+        lastLt.set(account, event.lt);
+        onTransaction({ ...event, accountId: account });
+    };
+
+    const backfill = async () => {
+        pending = [];
+        for (const account of accounts) {
+            const lt = lastLt.get(account);
+            if (lt === undefined) continue;
+
+            const missed = await source.getTransactionsAfter(account, lt).catch(e => {
+                console.error(e);
+                return [];
+            });
+            missed.forEach(deliver);
+        }
+
+        const events = pending;
+        pending = undefined;
+        events.forEach(deliver);
+    };
+
+    const connect = () => {
+        if (closed) return;
+
+        closeSource = source.open(accounts, {
+            onOpen: () => {
+                attempt = 0;
+                backfill();
+            },
+            onTransaction: event => {
+                if (pending) {
+                    pending.push(event);
+                } else {
+                    deliver(event);
+                }
+            },
+            onError: () => {
+                closeSource?.();
+                closeSource = undefined;
+                scheduleReconnect();
+            }
+        });
+    };
+
+    const scheduleReconnect = () => {
+        if (closed || reconnectTimer !== undefined) return;
+
+        attempt += 1;
+        const delayMs = Math.min(reconnectBaseDelayMs * 2 ** (attempt - 1), reconnectMaxDelayMs);
+        reconnectTimer = setTimeout(() => {
+            reconnectTimer = undefined;
+            connect();
+        }, delayMs);
+    };
+
+    (async () => {
+        await Promise.all(
+            accounts.map(async account => {
+                const lt = await source.getLastLt(account).catch(() => undefined);
+                if (lt !== undefined && !lastLt.has(account)) {
+                    lastLt.set(account, lt);
+                }
+            })
+        );
+        connect();
+    })();
+
+    return () => {
+        closed = true;
+        clearTimeout(reconnectTimer);
+        closeSource?.();
+    };
+};
+
+export interface IncomingTransfer {
+    amount: string;
+    decimals: number;
+    symbol: string;
+    sender?: AccountAddress;
+}
+
+/**
+ * Assets received by the account in the event, used for the in-app notifications
+ */
+export const getIncomingTransfers = (event: AccountEvent, address: string): IncomingTransfer[] => {
+    return event.actions.flatMap<IncomingTransfer>(action => {
+        if (action.status !== 'ok') return [];
+
+        const { tonTransfer, jettonTransfer, inscriptionTransfer } = action;
+        if (tonTransfer && eqAddresses(tonTransfer.recipient.address, address)) {
+            return [
+                {
+                    amount: String(tonTransfer.amount),
+                    decimals: 9,
+                    symbol: 'TON',
+                    sender: tonTransfer.sender
+                }
+            ];
+        }
+        if (
+            jettonTransfer &&
+            jettonTransfer.recipient &&
+            eqAddresses(jettonTransfer.recipient.address, address) &&
+            jettonTransfer.jetton.verification !== 'blacklist'
+        ) {
+            return [
+                {
+                    amount: jettonTransfer.amount,
+                    decimals: jettonTransfer.jetton.decimals,
+                    symbol: jettonTransfer.jetton.symbol,
+                    sender: jettonTransfer.sender
+                }
+            ];
+        }
+        if (inscriptionTransfer && eqAddresses(inscriptionTransfer.recipient.address, address)) {
+            return [
+                {
+                    amount: inscriptionTransfer.amount,
+                    decimals: inscriptionTransfer.decimals,
+                    symbol: inscriptionTransfer.ticker,
+                    sender: inscriptionTransfer.sender
+                }
+            ];
+        }
+        return [];
+    });
+};
+
+/**
+ * Event of the streamed transaction as seen by the account, the transaction hash is accepted as the event id
+ */
+export const getTransactionAccountEvent = (api: APIConfig, event: AccountTransactionEvent) => {
+    return new AccountsApi(api.tonApiV2).getAccountEvent({
+        accountId: event.accountId,
+        eventId: event.txHash
+    });
+};
@@ -0,0 +1,39 @@
+import { TransferLinkExpiredError } from '../../errors/TransferLinkExpiredError';
+import { checkTransferLinkExpiryOrDie, getTransferTTL, getTTL } from './common';
+
+const now = 1700000000;
+
+describe('getTransferTTL', () => {
+    it('is the default ttl without the link expiry', () => {
+        expect(getTransferTTL(now, undefined)).toBe(getTTL(now));
+    });
+
+    it('is not later than the link expiry', () => {
+        expect(getTransferTTL(now, now + 60)).toBe(now + 60);
+        expect(getTransferTTL(now, now + 3600)).toBe(getTTL(now));
+        expect(getTransferTTL(now, now + 30, now + 10)).toBe(now + 10);
+    });
+
+    it('throws when the link is expired by the signing time', () => {
+        expect(() => getTransferTTL(now, now)).toThrow(TransferLinkExpiredError);
+        expect(() => getTransferTTL(now, now - 1)).toThrow(
+            expect.objectContaining({ expiresAt: now - 1 })
+        );
+    });
+});
+
+describe('checkTransferLinkExpiryOrDie', () => {
+    beforeEach(() => {
+        jest.useFakeTimers({ now: now * 1000 });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('throws from the expiration time on', () => {
+        expect(() => checkTransferLinkExpiryOrDie(undefined)).not.toThrow();
+        expect(() => checkTransferLinkExpiryOrDie(now + 1)).not.toThrow();
+        expect(() => checkTransferLinkExpiryOrDie(now)).toThrow(TransferLinkExpiredError);
+    });
+});
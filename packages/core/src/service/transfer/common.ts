@@ -14,11 +14,14 @@ import { sign } from '@ton/crypto';
 import BigNumber from 'bignumber.js';
 import nacl from 'tweetnacl';
 import { APIConfig } from '../../entries/apis';
-import { TonRecipient, TransferEstimationEvent } from '../../entries/send';
+import { TonRecipient, TonRecipientData, TransferEstimationEvent } from '../../entries/send';
 import { BaseSigner } from '../../entries/signer';
 import { TonWalletStandard } from '../../entries/wallet';
 import { NotEnoughBalanceError } from '../../errors/NotEnoughBalanceError';
+import { TransferLinkExpiredError } from '../../errors/TransferLinkExpiredError';
 import { Account, AccountsApi, LiteServerApi, WalletApi } from '../../tonApiV2';
+import { delay } from '../../utils/common';
+import { estimateEncryptedComment } from '../encryptedCommentService';
 import { WalletContract, walletContractFromState } from '../wallet/contractService';
 
 export enum SendMode {
@@ -64,6 +67,40 @@ export const forwardPayloadComment = (commentValue: string) => {
     return comment(commentValue).asBuilder();
 };
 
+/**
+ * Comment payload of the sent transfer, the raw payload of the transfer link replaces the comment
+ */
+export const recipientCommentPayload = (recipient: TonRecipientData): Cell | null => {
+    if (recipient.payload) {
+        return Cell.fromBase64(recipient.payload);
+    }
+    if (!recipient.comment) {
+        return null;
+    }
+    if (recipient.encryptComment) {
+        if (!recipient.encryptedComment) {
+            throw new Error('Comment is not encrypted');
+        }
+        return recipient.encryptedComment;
+    }
+    return comment(recipient.comment);
+};
+
+/**
+ * Comment payload of the estimated transfer, the encrypted comment is replaced by a payload of the same size
+ */
+export const estimateRecipientCommentPayload = (recipient: TonRecipientData): Cell | null => {
+    if (recipient.payload) {
+        return Cell.fromBase64(recipient.payload);
+    }
+    if (!recipient.comment) {
+        return null;
+    }
+    return recipient.encryptComment
+        ? estimateEncryptedComment(recipient.comment)
+        : comment(recipient.comment);
+};
+
 export const seeIfBalanceError = (e: unknown): e is Error => {
     return e instanceof Error && e.message.startsWith('Not enough account');
 };
@@ -80,6 +117,15 @@ export const checkWalletBalanceOrDie = (total: BigNumber, wallet: Account) => {
     }
 };
 
+/**
+ * Checked at confirm before the password is asked, the server time is checked again at signing
+ */
+export const checkTransferLinkExpiryOrDie = (expiresAt: number | undefined) => {
+    if (expiresAt !== undefined && expiresAt * 1000 <= Date.now()) {
+        throw new TransferLinkExpiredError('Transfer link is expired', expiresAt);
+    }
+};
+
 export const checkWalletPositiveBalanceOrDie = (wallet: Account) => {
     if (new BigNumber(wallet.balance).isLessThan(toNano('0.01').toString())) {
         throw new Error(`Not enough account "${wallet.address}" amount: "${wallet.balance}"`);
@@ -93,6 +139,26 @@ export const getWalletSeqNo = async (api: APIConfig, accountId: string) => {
     return seqno;
 };
 
+/**
+ * Polls wallet seqno until it becomes greater than the given one, i.e. the previously sent external message is applied
+ */
+export const waitWalletSeqNoChanged = async (
+    api: APIConfig,
+    accountId: string,
+    seqno: number,
+    timeoutMs = 60000
+) => {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+        await delay(2000);
+        const current = await getWalletSeqNo(api, accountId);
+        if (current > seqno) {
+            return current;
+        }
+    }
+    throw new Error(`Wallet seqno was not changed from ${seqno} in ${timeoutMs / 1000}s`);
+};
+
 export const getWalletBalance = async (api: APIConfig, walletState: TonWalletStandard) => {
     const wallet = await new AccountsApi(api.tonApiV2).getAccount({
         accountId: walletState.rawAddress
@@ -117,6 +183,7 @@ export const createTransferMessage = async (
         state: TonWalletStandard;
         signer: BaseSigner;
         timestamp: number;
+        expiresAt?: number;
     },
     transaction: {
         to: string;
@@ -131,7 +198,7 @@ export const createTransferMessage = async (
     const transfer = await contract.createTransferAndSignRequestAsync({
         seqno: wallet.seqno,
         signer: wallet.signer,
-        timeout: getTTL(wallet.timestamp),
+        timeout: getTransferTTL(wallet.timestamp, wallet.expiresAt),
         sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
         messages: [
             internal({
@@ -169,6 +236,24 @@ export const getTTL = (unixTimestamp: number) => {
     return unixTimestamp + 300; // 5min
 };
 
+/**
+ * Valid until of the message made from the transfer link, not later than the link expiry.
+ * Throws when the link is expired by the server time of signing
+ */
+export const getTransferTTL = (
+    unixTimestamp: number,
+    expiresAt: number | undefined,
+    ttl = getTTL(unixTimestamp)
+) => {
+    if (expiresAt === undefined) {
+        return ttl;
+    }
+    if (expiresAt <= unixTimestamp) {
+        throw new TransferLinkExpiredError('Transfer link is expired', expiresAt);
+    }
+    return Math.min(ttl, expiresAt);
+};
+
 export const getTonkeeperQueryId = () => {
     return beginCell()
         .storeUint(0x546de4ef, 32) //crc32("tonkeeper")
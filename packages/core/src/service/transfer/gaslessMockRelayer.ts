@@ -0,0 +1,71 @@
+import { Address, Cell, loadMessageRelaxed, toNano } from '@ton/core';
+import { GaslessConfig, GaslessSendRequest } from '../../tonApiV2';
+import { eqAddresses } from '../../utils/address';
+import { GaslessRelayer, toSignRawMessage } from './gaslessService';
+import { jettonTransferBody, jettonTransferForwardAmount } from './jettonService';
+
+/**
+ * In-memory relayer for local development and tests.
+ * Echoes requested messages back and appends a jetton commission transfer to the relay address,
+ * sent requests are collected instead of being broadcast
+ */
+export const createMockGaslessRelayer = (options: {
+    relayAddress: string;
+    gasJettons: string[];
+    commission?: bigint;
+    validForSeconds?: number;
+}) => {
+    const commission = options.commission ?? BigInt(100000);
+    const validForSeconds = options.validForSeconds ?? 300;
+    const sent: GaslessSendRequest[] = [];
+
+    const config: GaslessConfig = {
+        relayAddress: options.relayAddress,
+        gasJettons: options.gasJettons.map(masterId => ({ masterId }))
+    };
+
+    const relayer: GaslessRelayer = {
+        getConfig: async () => config,
+        estimate: async (masterId, request) => {
+            if (!options.gasJettons.some(item => eqAddresses(item, masterId))) {
+                throw new Error(`Jetton ${masterId} is not supported by the relayer`);
+            }
+            if (request.messages.length === 0) {
+                throw new Error('Nothing to relay');
+            }
+
+            const messages = request.messages.map(item =>
+                toSignRawMessage(loadMessageRelaxed(Cell.fromBase64(item.boc).beginParse()))
+            );
+
+            const commissionBody = jettonTransferBody({
+                queryId: BigInt(Date.now()),
+                jettonAmount: commission,
+                toAddress: Address.parse(options.relayAddress),
+                responseAddress: Address.parse(options.relayAddress),
+                forwardAmount: jettonTransferForwardAmount,
+                forwardPayload: null,
+                customPayload: null
+            });
+
+            return {
+                relayAddress: options.relayAddress,
+                commission: commission.toString(),
+                from: request.walletAddress,
+                validUntil: Math.floor(Date.now() / 1000) + validForSeconds,
+                messages: messages.concat({
+                    address: messages[0].address,
+                    amount: toNano('0.05').toString(),
+                    payload: commissionBody.toBoc().toString('base64')
+                })
+            };
+        },
+        send: async request => {
+            // throws on a malformed boc, the same way the relayer rejects it
+            Cell.fromBase64(request.boc);
+            sent.push(request);
+        }
+    };
+
+    return { ...relayer, sent };
+};
@@ -0,0 +1,238 @@
+import { Address, beginCell, Cell, internal, MessageRelaxed, storeMessageRelaxed } from '@ton/core';
+import { keyPairFromSeed } from '@ton/crypto';
+import { AccountTonWalletStandard } from '../../entries/account';
+import { APIConfig } from '../../entries/apis';
+import { TransferEstimationEvent } from '../../entries/send';
+import { CellSigner } from '../../entries/signer';
+import { TonWalletStandard, WalletVersion } from '../../entries/wallet';
+import { AccountEvent, EmulationApi, SignRawMessage } from '../../tonApiV2';
+import { walletContractFromState } from '../wallet/contractService';
+import { getServerTime, getWalletSeqNo } from './common';
+import { createMockGaslessRelayer } from './gaslessMockRelayer';
+import {
+    estimateGaslessJettonTransfer,
+    sendGaslessJettonTransfer,
+    toSignRawMessage
+} from './gaslessService';
+import {
+    createJettonTransferMessage,
+    jettonTransferAmount,
+    jettonTransferBody
+} from './jettonService';
+
+jest.mock('./common', () => ({
+    ...jest.requireActual('./common'),
+    getServerTime: jest.fn(),
+    getWalletSeqNo: jest.fn()
+}));
+
+jest.mock('./jettonService', () => ({
+    ...jest.requireActual('./jettonService'),
+    createJettonTransferMessage: jest.fn()
+}));
+
+jest.mock('../wallet/contractService', () => ({
+    ...jest.requireActual('../wallet/contractService'),
+    walletContractFromState: jest.fn()
+}));
+
+jest.mock('../../tonApiV2', () => ({
+    ...jest.requireActual('../../tonApiV2'),
+    EmulationApi: jest.fn()
+}));
+
+const api = {} as APIConfig;
+const now = 1700000000;
+
+const jettonMaster = '0:' + '01'.repeat(32);
+const jettonWallet = '0:' + '02'.repeat(32);
+const recipient = '0:' + '03'.repeat(32);
+const relayAddress = '0:' + '04'.repeat(32);
+
+const walletState: TonWalletStandard = {
+    id: 'wallet',
+    rawAddress: '0:' + '05'.repeat(32),
+    publicKey: keyPairFromSeed(Buffer.alloc(32, 1)).publicKey.toString('hex'),
+    version: WalletVersion.V5R1
+};
+const account = { activeTonWallet: walletState } as unknown as AccountTonWalletStandard;
+
+const jettonTransfer = (toAddress: string, jettonAmount: bigint) =>
+    jettonTransferBody({
+        queryId: BigInt(1),
+        jettonAmount,
+        toAddress: Address.parse(toAddress),
+        responseAddress: Address.parse(relayAddress),
+        forwardAmount: BigInt(1),
+        forwardPayload: null,
+        customPayload: null
+    });
+
+const requestedMessage = internal({
+    to: Address.parse(jettonWallet),
+    bounce: true,
+    value: jettonTransferAmount,
+    body: jettonTransfer(recipient, BigInt(5000000))
+});
+
+const messageBoc = (message: MessageRelaxed) =>
+    beginCell().store(storeMessageRelaxed(message)).endCell().toBoc().toString('base64');
+
+const createRelayer = () =>
+    createMockGaslessRelayer({ relayAddress, gasJettons: [jettonMaster], commission: BigInt(300) });
+
+const estimate = async (relayer = createRelayer()): Promise<TransferEstimationEvent> => {
+    const params = await relayer.estimate(jettonMaster, {
+        walletAddress: walletState.rawAddress,
+        walletPublicKey: walletState.publicKey,
+        messages: [{ boc: messageBoc(requestedMessage) }]
+    });
+    return {
+        event: {} as AccountEvent,
+        gasless: { ...params, jettonTransfer: toSignRawMessage(requestedMessage) }
+    };
+};
+
+let signed: SignRawMessage[][];
+const signer = jest.fn(async () => Buffer.alloc(64)) as unknown as CellSigner;
+signer.type = 'cell';
+
+beforeEach(() => {
+    signed = [];
+    jest.mocked(signer).mockClear();
+    jest.mocked(getServerTime).mockResolvedValue(now);
+    jest.mocked(getWalletSeqNo).mockResolvedValue(7);
+    jest.mocked(createJettonTransferMessage).mockResolvedValue(requestedMessage);
+
+    // the wallet v5 contract records the messages it signs
+    jest.mocked(walletContractFromState).mockImplementation(state => {
+        const contract = jest
+            .requireActual('../wallet/contractService')
+            .walletContractFromState(state);
+        return Object.assign(contract, {
+            createTransferAndSignRequestAsync: async (args: {
+                seqno: number;
+                signer: CellSigner;
+                messages: MessageRelaxed[];
+            }) => {
+                signed.push(args.messages.map(toSignRawMessage));
+                await args.signer(beginCell().storeUint(args.seqno, 32).endCell());
+                return beginCell().storeUint(args.seqno, 32).endCell();
+            }
+        });
+    });
+
+    (EmulationApi as unknown as jest.Mock).mockImplementation(() => ({
+        emulateMessageToWallet: async () => ({ event: {} })
+    }));
+});
+
+const send = (fee: TransferEstimationEvent, relayer: ReturnType<typeof createRelayer>) =>
+    sendGaslessJettonTransfer({ api, account, fee, signer, relayer });
+
+describe('gaslessService', () => {
+    it('estimates the transfer with the messages of the relayer', async () => {
+        const relayer = createRelayer();
+
+        const { gasless } = await estimateGaslessJettonTransfer({
+            api,
+            walletState,
+            recipient: { toAccount: { address: recipient } } as never,
+            amount: { asset: { address: Address.parse(jettonMaster) } } as never,
+            jettonWalletAddress: jettonWallet,
+            relayer
+        });
+
+        expect(gasless!.commission).toBe('300');
+        expect(gasless!.jettonTransfer).toEqual(toSignRawMessage(requestedMessage));
+        expect(signed).toEqual([gasless!.messages]);
+    });
+
+    it('signs and relays the requested transfer with the commission', async () => {
+        const relayer = createRelayer();
+        const fee = await estimate(relayer);
+
+        await send(fee, relayer);
+
+        expect(signer).toHaveBeenCalledTimes(1);
+        expect(signed).toEqual([fee.gasless!.messages]);
+        expect(relayer.sent).toEqual([
+            { walletPublicKey: walletState.publicKey, boc: expect.any(String) }
+        ]);
+    });
+
+    const tampered: [string, (messages: SignRawMessage[]) => SignRawMessage[]][] = [
+        ['an extra message', messages => [...messages, messages[1]]],
+        ['a missing commission', messages => messages.slice(0, 1)],
+        [
+            'a modified transfer',
+            ([transfer, commission]) => [
+                {
+                    ...transfer,
+                    payload: jettonTransfer(relayAddress, BigInt(5000000))
+                        .toBoc()
+                        .toString('base64')
+                },
+                commission
+            ]
+        ],
+        [
+            'a commission sent to another address',
+            ([transfer, commission]) => [
+                transfer,
+                {
+                    ...commission,
+                    payload: jettonTransfer(recipient, BigInt(300)).toBoc().toString('base64')
+                }
+            ]
+        ],
+        [
+            'a commission above the estimated fee',
+            ([transfer, commission]) => [
+                transfer,
+                {
+                    ...commission,
+                    payload: jettonTransfer(relayAddress, BigInt(301)).toBoc().toString('base64')
+                }
+            ]
+        ],
+        [
+            'a commission in another jetton',
+            ([transfer, commission]) => [transfer, { ...commission, address: recipient }]
+        ],
+        [
+            'a commission which is not a jetton transfer',
+            ([transfer, commission]) => [
+                transfer,
+                { ...commission, payload: Cell.EMPTY.toBoc().toString('base64') }
+            ]
+        ],
+        [
+            'a commission attaching the wallet TON',
+            ([transfer, commission]) => [transfer, { ...commission, amount: '1000000000' }]
+        ]
+    ];
+
+    it.each(tampered)('rejects %s before signing', async (_, tamper) => {
+        const relayer = createRelayer();
+        const fee = await estimate(relayer);
+        fee.gasless!.messages = tamper(fee.gasless!.messages);
+
+        await expect(send(fee, relayer)).rejects.toThrow('Invalid gasless relayer messages');
+        expect(signer).not.toHaveBeenCalled();
+        expect(relayer.sent).toHaveLength(0);
+    });
+
+    it('rejects an estimation of another relay address', async () => {
+        const relayer = createRelayer();
+        const fee = await estimate(relayer);
+
+        await expect(
+            send(fee, {
+                ...relayer,
+                getConfig: async () => ({ relayAddress: recipient, gasJettons: [] })
+            })
+        ).rejects.toThrow('unknown relay address');
+        expect(relayer.sent).toHaveLength(0);
+    });
+});
@@ -0,0 +1,324 @@
+import {
+    Address,
+    beginCell,
+    Cell,
+    internal,
+    MessageRelaxed,
+    storeMessageRelaxed,
+    storeStateInit,
+    toNano
+} from '@ton/core';
+import { WalletContractV5R1 } from '@ton/ton/dist/wallets/WalletContractV5R1';
+import BigNumber from 'bignumber.js';
+import { AccountTonWalletStandard } from '../../entries/account';
+import { APIConfig } from '../../entries/apis';
+import { AssetAmount } from '../../entries/crypto/asset/asset-amount';
+import { TonAsset } from '../../entries/crypto/asset/ton-asset';
+import { GaslessEstimation, TonRecipientData, TransferEstimationEvent } from '../../entries/send';
+import { BaseSigner, Signer } from '../../entries/signer';
+import { isW5Version, TonWalletStandard } from '../../entries/wallet';
+import {
+    EmulationApi,
+    GaslessApi,
+    GaslessConfig,
+    GaslessEstimateRequest,
+    GaslessSendRequest,
+    SignRawMessage,
+    SignRawParams
+} from '../../tonApiV2';
+import { eqAddresses } from '../../utils/address';
+import { walletContractFromState } from '../wallet/contractService';
+import {
+    externalMessage,
+    getServerTime,
+    getTransferTTL,
+    getTTL,
+    getWalletSeqNo,
+    recipientCommentPayload,
+    seeIfAddressBounceable,
+    SendMode,
+    signEstimateMessage,
+    toStateInit
+} from './common';
+import { createJettonTransferMessage } from './jettonService';
+
+const gaslessEmulationReserve = toNano('0.1');
+const jettonTransferOp = 0xf8a7ea5;
+
+/**
+ * Relayer which accepts a wallet-signed internal request and pays TON gas, taking its commission in jettons.
+ * Implemented by tonapi and by the local mock relayer
+ */
+export interface GaslessRelayer {
+    getConfig(): Promise<GaslessConfig>;
+    estimate(masterId: string, request: GaslessEstimateRequest): Promise<SignRawParams>;
+    send(request: GaslessSendRequest): Promise<void>;
+}
+
+export const tonApiGaslessRelayer = (api: APIConfig): GaslessRelayer => {
+    const gaslessApi = new GaslessApi(api.tonApiV2);
+    return {
+        getConfig: () => gaslessApi.gaslessConfig(),
+        estimate: (masterId, gaslessEstimateRequest) =>
+            gaslessApi.gaslessEstimate({ masterId, gaslessEstimateRequest }),
+        send: async gaslessSendRequest => {
+            await gaslessApi.gaslessSend({ gaslessSendRequest });
+        }
+    };
+};
+
+export const isGaslessJetton = (config: GaslessConfig, jettonAddress: string) =>
+    config.gasJettons.some(item => eqAddresses(item.masterId, jettonAddress));
+
+export const isGaslessAvailable = (
+    config: GaslessConfig | undefined,
+    walletState: TonWalletStandard,
+    jettonAddress: string
+) => !!config && isW5Version(walletState.version) && isGaslessJetton(config, jettonAddress);
+
+export const toSignRawMessage = (message: MessageRelaxed): SignRawMessage => {
+    if (message.info.type !== 'internal') {
+        throw new Error('Only internal messages can be relayed');
+    }
+
+    return {
+        address: message.info.dest.toRawString(),
+        amount: message.info.value.coins.toString(),
+        payload: message.body.toBoc().toString('base64'),
+        stateInit: message.init
+            ? beginCell().store(storeStateInit(message.init)).endCell().toBoc().toString('base64')
+            : undefined
+    };
+};
+
+const sameOptionalCell = (a: string | undefined, b: string | undefined) =>
+    a && b ? Cell.fromBase64(a).equals(Cell.fromBase64(b)) : !a && !b;
+
+const loadJettonTransfer = (payload: string | undefined) => {
+    try {
+        const body = Cell.fromBase64(payload!).beginParse();
+        if (body.loadUint(32) !== jettonTransferOp) {
+            return undefined;
+        }
+        body.loadUintBig(64); // query_id
+        return { amount: body.loadCoins(), destination: body.loadAddress() };
+    } catch (e) {
+        return undefined;
+    }
+};
+
+/**
+ * The relayer has to return the requested jetton transfer unchanged and a single commission transfer
+ * of the same jetton to the relay address, not exceeding the commission shown to the user
+ */
+const checkGaslessMessagesOrDie = (estimation: GaslessEstimation, relayAddress: string) => {
+    const { jettonTransfer, messages } = estimation;
+    const invalid = (reason: string) => new Error(`Invalid gasless relayer messages: ${reason}`);
+
+    if (!eqAddresses(estimation.relayAddress, relayAddress)) {
+        throw invalid('unknown relay address');
+    }
+    if (messages.length !== 2) {
+        throw invalid(`expected the transfer and the commission, got ${messages.length} messages`);
+    }
+
+    const [transfer, commission] = messages;
+    if (
+        !eqAddresses(transfer.address, jettonTransfer.address) ||
+        BigInt(transfer.amount) !== BigInt(jettonTransfer.amount) ||
+        !sameOptionalCell(transfer.payload, jettonTransfer.payload) ||
+        !sameOptionalCell(transfer.stateInit, jettonTransfer.stateInit)
+    ) {
+        throw invalid('the jetton transfer is modified');
+    }
+
+    const commissionTransfer = loadJettonTransfer(commission.payload);
+    if (
+        !commissionTransfer ||
+        commission.stateInit ||
+        !eqAddresses(commission.address, jettonTransfer.address)
+    ) {
+        throw invalid('the commission is not a transfer of the sent jetton');
+    }
+    if (!eqAddresses(commissionTransfer.destination.toRawString(), relayAddress)) {
+        throw invalid('the commission is not sent to the relay address');
+    }
+    if (commissionTransfer.amount > BigInt(estimation.commission)) {
+        throw invalid('the commission exceeds the estimated fee');
+    }
+    if (BigInt(commission.amount) > BigInt(jettonTransfer.amount)) {
+        throw invalid('the commission attaches more TON than the transfer');
+    }
+};
+
+const signRawMessageToInternal = (message: SignRawMessage) =>
+    internal({
+        to: Address.parse(message.address),
+        bounce: seeIfAddressBounceable(message.address),
+        value: BigInt(message.amount),
+        init: toStateInit(message.stateInit),
+        body: message.payload ? Cell.fromBase64(message.payload) : undefined
+    });
+
+/**
+ * Signs relayer messages by the W5 wallet once they are checked against the requested transfer.
+ * `internal` auth produces a request the relayer can deliver inside its own internal message,
+ * `external` auth is only used to emulate the batch as if the wallet paid the gas itself
+ */
+const createGaslessTransfer = async (options: {
+    seqno: number;
+    walletState: TonWalletStandard;
+    params: GaslessEstimation;
+    relayAddress: string;
+    timeout: number;
+    signer: BaseSigner;
+    authType: 'internal' | 'external';
+}) => {
+    if (!isW5Version(options.walletState.version)) {
+        throw new Error('Gasless transfers are only supported by W5 wallets');
+    }
+    checkGaslessMessagesOrDie(options.params, options.relayAddress);
+
+    const contract = walletContractFromState(options.walletState) as WalletContractV5R1;
+    const transfer = await contract.createTransferAndSignRequestAsync({
+        seqno: options.seqno,
+        signer: options.signer,
+        timeout: options.timeout,
+        sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
+        messages: options.params.messages.map(signRawMessageToInternal),
+        authType: options.authType
+    });
+
+    return externalMessage(contract, options.seqno, transfer).toBoc();
+};
+
+export const estimateGaslessJettonTransfer = async (options: {
+    api: APIConfig;
+    walletState: TonWalletStandard;
+    recipient: TonRecipientData;
+    amount: AssetAmount<TonAsset>;
+    jettonWalletAddress: string;
+    relayer?: GaslessRelayer;
+}): Promise<TransferEstimationEvent> => {
+    const { api, walletState, recipient, amount } = options;
+    const relayer = options.relayer ?? tonApiGaslessRelayer(api);
+    const jettonAddress = (amount.asset.address as Address).toRawString();
+
+    if (recipient.encryptComment) {
+        throw new Error('Encrypted comment is not supported by gasless transfers');
+    }
+
+    const config = await relayer.getConfig();
+    if (!isGaslessAvailable(config, walletState, jettonAddress)) {
+        throw new Error(`Gasless transfer is not available for jetton ${jettonAddress}`);
+    }
+
+    const message = await createJettonTransferMessage(
+        api,
+        walletState,
+        recipient.toAccount.address,
+        amount,
+        options.jettonWalletAddress,
+        recipientCommentPayload(recipient),
+        config.relayAddress
+    );
+
+    const relayerParams = await relayer.estimate(jettonAddress, {
+        walletAddress: walletState.rawAddress,
+        walletPublicKey: walletState.publicKey,
+        messages: [
+            {
+                boc: beginCell()
+                    .store(storeMessageRelaxed(message))
+                    .endCell()
+                    .toBoc()
+                    .toString('base64')
+            }
+        ]
+    });
+    const params: GaslessEstimation = {
+        ...relayerParams,
+        jettonTransfer: toSignRawMessage(message)
+    };
+
+    const [timestamp, seqno] = await Promise.all([
+        getServerTime(api),
+        getWalletSeqNo(api, walletState.rawAddress)
+    ]);
+    const cell = await createGaslessTransfer({
+        seqno,
+        walletState,
+        params,
+        relayAddress: config.relayAddress,
+        timeout: getTransferTTL(timestamp, recipient.expiresAt),
+        signer: signEstimateMessage,
+        authType: 'external'
+    });
+
+    // the relayer attaches TON to the messages, so the wallet balance is raised to cover them in the emulation
+    const attachedAmount = params.messages.reduce(
+        (acc, item) => acc.plus(item.amount),
+        new BigNumber(0)
+    );
+    const { event } = await new EmulationApi(api.tonApiV2).emulateMessageToWallet({
+        emulateMessageToWalletRequest: {
+            boc: cell.toString('base64'),
+            params: [
+                {
+                    address: walletState.rawAddress,
+                    balance: attachedAmount.plus(gaslessEmulationReserve.toString()).toNumber()
+                }
+            ]
+        }
+    });
+
+    return { event, gasless: params };
+};
+
+export const sendGaslessJettonTransfer = async (options: {
+    api: APIConfig;
+    account: AccountTonWalletStandard;
+    fee: TransferEstimationEvent;
+    signer: Signer;
+    relayer?: GaslessRelayer;
+    /**
+     * Unix time in seconds the transfer link is valid until
+     */
+    expiresAt?: number;
+}) => {
+    const { api, account, fee, signer } = options;
+    const relayer = options.relayer ?? tonApiGaslessRelayer(api);
+
+    if (!fee.gasless) {
+        throw new Error('Missing gasless estimation');
+    }
+    if (signer.type !== 'cell') {
+        throw new Error(`Gasless transfer is not supported by ${signer.type} signer`);
+    }
+
+    const timestamp = await getServerTime(api);
+    if (fee.gasless.validUntil <= timestamp) {
+        throw new Error('Gasless estimation has expired, please try again');
+    }
+
+    const walletState = account.activeTonWallet;
+    const [config, seqno] = await Promise.all([
+        relayer.getConfig(),
+        getWalletSeqNo(api, walletState.rawAddress)
+    ]);
+
+    const cell = await createGaslessTransfer({
+        seqno,
+        walletState,
+        params: fee.gasless,
+        relayAddress: config.relayAddress,
+        timeout: getTransferTTL(timestamp, options.expiresAt, fee.gasless.validUntil),
+        signer,
+        authType: 'internal'
+    });
+
+    await relayer.send({
+        walletPublicKey: walletState.publicKey,
+        boc: cell.toString('base64')
+    });
+};
@@ -1,6 +1,6 @@
-import { Address, beginCell, Cell, comment, internal, toNano } from '@ton/core';
+import { Address, beginCell, Cell, internal, toNano } from '@ton/core';
 import BigNumber from 'bignumber.js';
-import { Account } from '../../entries/account';
+import { AccountTonWalletStandard } from '../../entries/account';
 import { APIConfig } from '../../entries/apis';
 import { AssetAmount } from '../../entries/crypto/asset/asset-amount';
 import { TonAsset } from '../../entries/crypto/asset/ton-asset';
@@ -13,11 +13,13 @@ import { walletContractFromState } from '../wallet/contractService';
 import {
     checkWalletBalanceOrDie,
     checkWalletPositiveBalanceOrDie,
+    estimateRecipientCommentPayload,
     externalMessage,
     getServerTime,
     getTonkeeperQueryId,
-    getTTL,
+    getTransferTTL,
     getWalletBalance,
+    recipientCommentPayload,
     SendMode,
     signEstimateMessage
 } from './common';
@@ -47,18 +49,15 @@ export const jettonTransferBody = (params: {
         .endCell();
 };
 
-const createJettonTransfer = async (
+export const createJettonTransferMessage = async (
     api: APIConfig,
-    seqno: number,
     walletState: TonWalletStandard,
     recipientAddress: string,
     amount: AssetAmount<TonAsset>,
     jettonWalletAddress: string,
     forwardPayload: Cell | null,
-    signer: CellSigner
+    responseAddress = walletState.rawAddress
 ) => {
-    const timestamp = await getServerTime(api);
-
     const { customPayload, stateInit } = await getJettonCustomPayload(
         api,
         walletState.rawAddress,
@@ -71,27 +70,50 @@ const createJettonTransfer = async (
         queryId: getTonkeeperQueryId(),
         jettonAmount,
         toAddress: Address.parse(recipientAddress),
-        responseAddress: Address.parse(walletState.rawAddress),
+        responseAddress: Address.parse(responseAddress),
         forwardAmount: jettonTransferForwardAmount,
         forwardPayload,
         customPayload
     });
 
+    return internal({
+        to: Address.parse(jettonWalletAddress),
+        bounce: true,
+        value: jettonTransferAmount,
+        body: body,
+        init: stateInit
+    });
+};
+
+const createJettonTransfer = async (
+    api: APIConfig,
+    seqno: number,
+    walletState: TonWalletStandard,
+    recipientAddress: string,
+    amount: AssetAmount<TonAsset>,
+    jettonWalletAddress: string,
+    forwardPayload: Cell | null,
+    expiresAt: number | undefined,
+    signer: CellSigner
+) => {
+    const timestamp = await getServerTime(api);
+
+    const message = await createJettonTransferMessage(
+        api,
+        walletState,
+        recipientAddress,
+        amount,
+        jettonWalletAddress,
+        forwardPayload
+    );
+
     const contract = walletContractFromState(walletState);
     const transfer = await contract.createTransferAndSignRequestAsync({
         seqno,
         signer,
-        timeout: getTTL(timestamp),
+        timeout: getTransferTTL(timestamp, expiresAt),
         sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
-        messages: [
-            internal({
-                to: Address.parse(jettonWalletAddress),
-                bounce: true,
-                value: jettonTransferAmount,
-                body: body,
-                init: stateInit
-            })
-        ]
+        messages: [message]
     });
 
     return externalMessage(contract, seqno, transfer).toBoc();
@@ -114,7 +136,8 @@ export const estimateJettonTransfer = async (
         recipient.toAccount.address,
         amount,
         jettonWalletAddress,
-        recipient.comment ? comment(recipient.comment) : null,
+        estimateRecipientCommentPayload(recipient),
+        recipient.expiresAt,
         signEstimateMessage
     );
 
@@ -127,7 +150,7 @@ export const estimateJettonTransfer = async (
 
 export const sendJettonTransfer = async (
     api: APIConfig,
-    account: Account,
+    account: AccountTonWalletStandard,
     recipient: TonRecipientData,
     amount: AssetAmount<TonAsset>,
     jettonWalletAddress: string,
@@ -155,7 +178,8 @@ export const sendJettonTransfer = async (
             recipient.toAccount.address,
             amount,
             jettonWalletAddress,
-            recipient.comment ? comment(recipient.comment) : null,
+            recipientCommentPayload(recipient),
+            recipient.expiresAt,
             signer
         );
     } else {
@@ -166,7 +190,8 @@ export const sendJettonTransfer = async (
             recipient.toAccount.address,
             amount,
             jettonWalletAddress,
-            recipient.comment ? comment(recipient.comment) : null,
+            recipientCommentPayload(recipient),
+            recipient.expiresAt,
             signer
         );
     }
@@ -0,0 +1,269 @@
+import { beginCell, Cell } from '@ton/core';
+import BigNumber from 'bignumber.js';
+import { MemoryStorage } from '../../Storage';
+import { AccountTonWalletStandard } from '../../entries/account';
+import { APIConfig } from '../../entries/apis';
+import { MultiSendBatch } from '../../entries/multiSend';
+import { WalletVersion } from '../../entries/wallet';
+import { UnfinishedMultiSendBatchError } from '../../errors/UnfinishedMultiSendBatchError';
+import { BlockchainApi } from '../../tonApiV2';
+import { getMultiSendBatches, saveMultiSendBatch } from '../multiSendBatchStorage';
+import {
+    getServerTime,
+    getTTL,
+    getWalletBalance,
+    getWalletSeqNo,
+    signEstimateMessage
+} from './common';
+import { createMultiSendBatch, runMultiSendBatch } from './multiSendBatchService';
+import { createTonMultiTransfer } from './multiSendService';
+
+jest.mock('./common', () => ({
+    ...jest.requireActual('./common'),
+    getServerTime: jest.fn(),
+    getWalletBalance: jest.fn(),
+    getWalletSeqNo: jest.fn()
+}));
+
+jest.mock('./multiSendService', () => ({
+    ...jest.requireActual('./multiSendService'),
+    createTonMultiTransfer: jest.fn()
+}));
+
+jest.mock('../../tonApiV2', () => ({
+    ...jest.requireActual('../../tonApiV2'),
+    BlockchainApi: jest.fn()
+}));
+
+const api = {} as APIConfig;
+
+const account = {
+    type: 'mnemonic',
+    activeTonWallet: {
+        id: 'wallet',
+        rawAddress: '0:' + '11'.repeat(32),
+        publicKey: '22'.repeat(32),
+        version: WalletVersion.V4R2
+    }
+} as unknown as AccountTonWalletStandard;
+
+/**
+ * Wallet on a fake blockchain: every broadcasted message is applied at once and increases the seqno
+ */
+let chain: {
+    seqno: number;
+    time: number;
+    sent: string[];
+    transactions: Map<string, { success: boolean }>;
+    sendErrors: number;
+};
+
+const messageHash = (boc: string) => Cell.fromBase64(boc).hash().toString('hex');
+
+beforeEach(() => {
+    chain = { seqno: 10, time: 1700000000, sent: [], transactions: new Map(), sendErrors: 0 };
+
+    jest.mocked(getServerTime).mockImplementation(async () => chain.time);
+    jest.mocked(getWalletSeqNo).mockImplementation(async () => chain.seqno);
+    jest.mocked(getWalletBalance).mockImplementation(
+        async () =>
+            [
+                { address: account.activeTonWallet.rawAddress, balance: 10 ** 12 },
+                chain.seqno
+            ] as never
+    );
+
+    // external message stub, unique for the seqno and the recipients
+    jest.mocked(createTonMultiTransfer).mockImplementation(async (timestamp, seqno, _, messages) =>
+        beginCell()
+            .storeUint(seqno, 32)
+            .storeUint(timestamp, 32)
+            .storeStringTail(messages.map(msg => msg.to).join())
+            .endCell()
+            .toBoc()
+    );
+
+    (BlockchainApi as unknown as jest.Mock).mockImplementation(() => ({
+        sendBlockchainMessage: async ({
+            sendBlockchainMessageRequest: { boc }
+        }: {
+            sendBlockchainMessageRequest: { boc: string };
+        }) => {
+            if (chain.sendErrors > 0) {
+                chain.sendErrors -= 1;
+                // the node is not reachable until the message expires
+                chain.time += 600;
+                throw new Error('Network error');
+            }
+            chain.sent.push(boc);
+            chain.transactions.set(messageHash(boc), { success: true });
+            chain.seqno += 1;
+        },
+        getBlockchainTransactionByMessageHash: async ({ msgId }: { msgId: string }) => {
+            const transaction = chain.transactions.get(msgId);
+            if (!transaction) {
+                throw new Error('Not found');
+            }
+            return transaction;
+        }
+    }));
+});
+
+const createBatch = (rowsNumber: number) =>
+    createMultiSendBatch({
+        walletId: account.activeTonWallet.id,
+        assetSymbol: 'TON',
+        assetDecimals: 9,
+        asset: { type: 'ton' },
+        transferMessages: Array.from({ length: rowsNumber }, (_, index) => ({
+            to: '0:' + index.toString(16).padStart(64, '0'),
+            bounce: false,
+            weiAmount: new BigNumber(1000000000 + index)
+        }))
+    });
+
+/**
+ * Batch interrupted after the first chunk is signed and persisted as in flight
+ */
+const createInterruptedBatch = (
+    rowsNumber: number,
+    messageHashInFlight: string
+): MultiSendBatch => {
+    const batch = createBatch(rowsNumber);
+    const rows = [0, 1, 2, 3];
+    return {
+        ...batch,
+        rows: batch.rows.map((row, index) =>
+            rows.includes(index)
+                ? { ...row, status: 'sending', messageHash: messageHashInFlight }
+                : row
+        ),
+        inFlight: {
+            rows,
+            seqno: chain.seqno,
+            validUntil: getTTL(chain.time),
+            messageHash: messageHashInFlight
+        }
+    };
+};
+
+const run = (storage: MemoryStorage, batch: MultiSendBatch) =>
+    runMultiSendBatch({ api, storage, account, batch, signer: signEstimateMessage });
+
+describe('runMultiSendBatch', () => {
+    it('sends rows chunk by chunk and persists the finished batch', async () => {
+        const storage = new MemoryStorage();
+        const updates: MultiSendBatch[] = [];
+
+        const batch = await runMultiSendBatch({
+            api,
+            storage,
+            account,
+            batch: createBatch(6),
+            signer: signEstimateMessage,
+            onUpdate: value => updates.push(value)
+        });
+
+        expect(chain.sent).toHaveLength(2);
+        expect(batch.rows.map(row => row.status)).toEqual(Array(6).fill('sent'));
+        expect(batch.rows[0].messageHash).toBe(messageHash(chain.sent[0]));
+        expect(batch.rows[5].messageHash).toBe(messageHash(chain.sent[1]));
+        expect(batch.finishedAt).toBeDefined();
+        expect(batch.inFlight).toBeUndefined();
+
+        expect(await getMultiSendBatches(storage)).toEqual([batch]);
+        expect(updates.some(value => value.inFlight?.rows.length === 4)).toBe(true);
+    });
+
+    it('does not send the rows of an applied in flight transaction again', async () => {
+        const storage = new MemoryStorage();
+        const hash = 'aa'.repeat(32);
+        const batch = createInterruptedBatch(6, hash);
+        await saveMultiSendBatch(storage, batch);
+
+        // the interrupted transaction was applied before the app was closed
+        chain.seqno += 1;
+        chain.transactions.set(hash, { success: true });
+
+        const result = await run(storage, batch);
+
+        expect(chain.sent).toHaveLength(1);
+        expect(result.rows.map(row => row.status)).toEqual(Array(6).fill('sent'));
+        expect(result.rows[0].messageHash).toBe(hash);
+        expect(result.rows[4].messageHash).toBe(messageHash(chain.sent[0]));
+    });
+
+    it('marks the rows of a failed in flight transaction as failed', async () => {
+        const storage = new MemoryStorage();
+        const hash = 'bb'.repeat(32);
+        const batch = createInterruptedBatch(5, hash);
+        await saveMultiSendBatch(storage, batch);
+
+        chain.seqno += 1;
+        chain.transactions.set(hash, { success: false });
+
+        const result = await run(storage, batch);
+
+        expect(result.rows.map(row => row.status)).toEqual([
+            'failed',
+            'failed',
+            'failed',
+            'failed',
+            'sent'
+        ]);
+        expect(result.rows[0].error).toBe('Transaction failed');
+    });
+
+    it('returns the rows of an expired not applied transaction to the queue', async () => {
+        const storage = new MemoryStorage();
+        const batch = createInterruptedBatch(6, 'cc'.repeat(32));
+        await saveMultiSendBatch(storage, batch);
+
+        // the seqno is not changed and the message can't be applied anymore
+        chain.time = batch.inFlight!.validUntil + 1;
+
+        const result = await run(storage, batch);
+
+        expect(chain.sent).toHaveLength(2);
+        expect(result.rows.map(row => row.status)).toEqual(Array(6).fill('sent'));
+        expect(result.rows[0].messageHash).toBe(messageHash(chain.sent[0]));
+    });
+
+    it('fails the rows of a transaction that could not be broadcasted before it expired', async () => {
+        const storage = new MemoryStorage();
+        chain.sendErrors = 1;
+
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const result = await run(storage, createBatch(6));
+
+        expect(chain.sent).toHaveLength(1);
+        expect(result.rows.map(row => row.status)).toEqual([
+            'failed',
+            'failed',
+            'failed',
+            'failed',
+            'sent',
+            'sent'
+        ]);
+        expect(result.rows[0].error).toBe('Network error');
+        expect(result.finishedAt).toBeDefined();
+    });
+
+    it('rejects a new batch while another one of the wallet is unfinished', async () => {
+        const storage = new MemoryStorage();
+        const unfinished = createInterruptedBatch(6, 'dd'.repeat(32));
+        await saveMultiSendBatch(storage, unfinished);
+
+        const batch = { ...createBatch(2), id: 'another' };
+
+        await expect(run(storage, batch)).rejects.toBeInstanceOf(UnfinishedMultiSendBatchError);
+        expect(chain.sent).toHaveLength(0);
+        expect(await getMultiSendBatches(storage)).toEqual([unfinished]);
+    });
+
+    it('rejects a batch of another wallet', async () => {
+        const batch = { ...createBatch(2), walletId: 'another' };
+
+        await expect(run(new MemoryStorage(), batch)).rejects.toThrow('belongs to another wallet');
+    });
+});
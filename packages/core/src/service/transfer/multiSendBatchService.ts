@@ -0,0 +1,309 @@
+import { Cell } from '@ton/core';
+import BigNumber from 'bignumber.js';
+import { AccountTonWalletStandard } from '../../entries/account';
+import { APIConfig } from '../../entries/apis';
+import {
+    MultiSendBatch,
+    MultiSendBatchAsset,
+    MultiSendBatchRow,
+    MultiSendBatchRowStatus
+} from '../../entries/multiSend';
+import { Signer } from '../../entries/signer';
+import { WalletId } from '../../entries/wallet';
+import { UnfinishedMultiSendBatchError } from '../../errors/UnfinishedMultiSendBatchError';
+import { IStorage } from '../../Storage';
+import { BlockchainApi, Transaction } from '../../tonApiV2';
+import { delay } from '../../utils/common';
+import { signLedgerMessage } from '../ledger/transfer';
+import { getUnfinishedMultiSendBatch, saveMultiSendBatch } from '../multiSendBatchStorage';
+import {
+    checkWalletBalanceOrDie,
+    getServerTime,
+    getTTL,
+    getWalletBalance,
+    getWalletSeqNo
+} from './common';
+import {
+    createJettonMultiTransfer,
+    createTonMultiTransfer,
+    jettonTransferToLedgerMessage,
+    MAX_ALLOWED_WALLET_MSGS,
+    tonTransferToLedgerMessage,
+    TransferMessage
+} from './multiSendService';
+
+export const MULTI_SEND_BATCH_MAX_ROWS = 1000;
+
+/**
+ * Number of rows sent in a single wallet transaction
+ */
+export const getMultiSendBatchChunkSize = (account: AccountTonWalletStandard) =>
+    account.type === 'ledger' ? 1 : MAX_ALLOWED_WALLET_MSGS[account.activeTonWallet.version];
+
+export const createMultiSendBatch = (options: {
+    walletId: WalletId;
+    listId?: number;
+    assetSymbol: string;
+    assetDecimals: number;
+    asset: MultiSendBatchAsset;
+    transferMessages: TransferMessage[];
+}): MultiSendBatch => ({
+    id: `${Date.now()}`,
+    walletId: options.walletId,
+    listId: options.listId,
+    assetSymbol: options.assetSymbol,
+    assetDecimals: options.assetDecimals,
+    asset: options.asset,
+    createdAt: Date.now(),
+    rows: options.transferMessages.map(msg => ({
+        to: msg.to,
+        bounce: msg.bounce,
+        weiAmount: msg.weiAmount.toFixed(0),
+        comment: msg.comment,
+        status: 'pending'
+    }))
+});
+
+const rowToTransferMessage = (row: MultiSendBatchRow): TransferMessage => ({
+    to: row.to,
+    bounce: row.bounce,
+    weiAmount: new BigNumber(row.weiAmount),
+    comment: row.comment
+});
+
+const updateRows = (
+    batch: MultiSendBatch,
+    indexes: number[],
+    patch: Partial<MultiSendBatchRow>
+): MultiSendBatchRow[] =>
+    batch.rows.map((row, index) => (indexes.includes(index) ? { ...row, ...patch } : row));
+
+export type MultiSendBatchReport = Record<MultiSendBatchRowStatus, number>;
+
+export const getMultiSendBatchReport = (batch: MultiSendBatch): MultiSendBatchReport => {
+    const report: MultiSendBatchReport = { pending: 0, sending: 0, sent: 0, failed: 0, skipped: 0 };
+    batch.rows.forEach(row => {
+        report[row.status] += 1;
+    });
+    return report;
+};
+
+/**
+ * Marks all not yet sent rows as skipped and finishes the batch
+ */
+export const skipMultiSendBatchPendingRows = (batch: MultiSendBatch): MultiSendBatch => ({
+    ...batch,
+    rows: batch.rows.map(row => (row.status === 'pending' ? { ...row, status: 'skipped' } : row)),
+    finishedAt: batch.inFlight ? undefined : Date.now()
+});
+
+const findTransactionByMessageHash = async (
+    api: APIConfig,
+    messageHash: string,
+    attempts = 5
+): Promise<Transaction | null> => {
+    const blockchainApi = new BlockchainApi(api.tonApiV2);
+    for (let attempt = 0; attempt < attempts; attempt++) {
+        try {
+            return await blockchainApi.getBlockchainTransactionByMessageHash({
+                msgId: messageHash
+            });
+        } catch (e) {
+            await delay(3000);
+        }
+    }
+    return null;
+};
+
+/**
+ * Resolves the outcome of the signed wallet transaction.
+ * Rows are returned to the queue only if the message is expired and the wallet seqno is not changed,
+ * i.e. the message can't be applied anymore. Otherwise rows are never sent again to avoid double payments.
+ */
+const resolveInFlight = async (
+    api: APIConfig,
+    walletAddress: string,
+    batch: MultiSendBatch
+): Promise<MultiSendBatch> => {
+    const { inFlight } = batch;
+    if (!inFlight) {
+        return batch;
+    }
+
+    for (;;) {
+        const seqno = await getWalletSeqNo(api, walletAddress);
+        if (seqno > inFlight.seqno) {
+            const transaction = await findTransactionByMessageHash(api, inFlight.messageHash);
+            const patch: Partial<MultiSendBatchRow> = !transaction
+                ? {
+                      status: 'failed',
+                      error: 'Transaction is not confirmed, check the wallet history before sending it again'
+                  }
+                : transaction.success
+                ? { status: 'sent' }
+                : { status: 'failed', error: 'Transaction failed' };
+
+            return { ...batch, rows: updateRows(batch, inFlight.rows, patch), inFlight: undefined };
+        }
+
+        const time = await getServerTime(api);
+        if (time > inFlight.validUntil) {
+            const patch: Partial<MultiSendBatchRow> = inFlight.sendError
+                ? { status: 'failed', error: inFlight.sendError }
+                : { status: 'pending', messageHash: undefined };
+
+            return { ...batch, rows: updateRows(batch, inFlight.rows, patch), inFlight: undefined };
+        }
+
+        await delay(2000);
+    }
+};
+
+const signMultiSendBatchChunk = async (
+    account: AccountTonWalletStandard,
+    batch: MultiSendBatch,
+    chunk: number[],
+    seqno: number,
+    timestamp: number,
+    signer: Signer
+): Promise<Cell> => {
+    const walletState = account.activeTonWallet;
+    const messages = chunk.map(index => rowToTransferMessage(batch.rows[index]));
+
+    if (signer.type === 'ledger') {
+        if (account.type !== 'ledger') {
+            throw new Error(`Unexpected account type: ${account.type}`);
+        }
+        const [message] = messages;
+        return signLedgerMessage(
+            account,
+            batch.asset.type === 'ton'
+                ? tonTransferToLedgerMessage(message)
+                : jettonTransferToLedgerMessage(
+                      message,
+                      walletState,
+                      batch.asset.jettonWalletAddress,
+                      new BigNumber(batch.asset.attachValue)
+                  ),
+            seqno,
+            timestamp,
+            signer,
+            { index: chunk[0], total: batch.rows.length }
+        );
+    }
+
+    const boc =
+        batch.asset.type === 'ton'
+            ? await createTonMultiTransfer(timestamp, seqno, walletState, messages, signer)
+            : await createJettonMultiTransfer(
+                  timestamp,
+                  seqno,
+                  walletState,
+                  batch.asset.jettonWalletAddress,
+                  messages,
+                  new BigNumber(batch.asset.attachValue),
+                  signer
+              );
+
+    return Cell.fromBoc(boc)[0];
+};
+
+const chunkTotalAmount = (batch: MultiSendBatch, chunk: number[]) => {
+    if (batch.asset.type === 'jetton') {
+        return new BigNumber(batch.asset.attachValue).multipliedBy(chunk.length);
+    }
+    return chunk.reduce((acc, index) => acc.plus(batch.rows[index].weiAmount), new BigNumber(0));
+};
+
+/**
+ * Sends pending rows of the batch chunk by chunk, every chunk is a single wallet transaction.
+ * Progress is persisted before every broadcast, so an interrupted batch can be resumed by calling the method again.
+ * Errors thrown before a chunk is broadcasted keep its rows pending.
+ * A new batch is rejected while the wallet has another unfinished one, it has to be resumed or discarded first.
+ */
+export const runMultiSendBatch = async (options: {
+    api: APIConfig;
+    storage: IStorage;
+    account: AccountTonWalletStandard;
+    batch: MultiSendBatch;
+    signer: Signer;
+    onUpdate?: (batch: MultiSendBatch) => void;
+}): Promise<MultiSendBatch> => {
+    const { api, storage, account, signer, onUpdate } = options;
+    const walletState = account.activeTonWallet;
+    if (walletState.id !== options.batch.walletId) {
+        throw new Error('Multi send batch belongs to another wallet');
+    }
+
+    const unfinished = await getUnfinishedMultiSendBatch(storage, walletState.id);
+    if (unfinished && unfinished.id !== options.batch.id) {
+        throw new UnfinishedMultiSendBatchError(
+            'Wallet has an unfinished multi send batch',
+            unfinished.id
+        );
+    }
+
+    let batch = options.batch;
+    const update = async (value: MultiSendBatch) => {
+        batch = value;
+        await saveMultiSendBatch(storage, batch);
+        onUpdate?.(batch);
+    };
+
+    const chunkSize = getMultiSendBatchChunkSize(account);
+    const blockchainApi = new BlockchainApi(api.tonApiV2);
+
+    await update(batch);
+
+    for (;;) {
+        if (batch.inFlight) {
+            await update(await resolveInFlight(api, walletState.rawAddress, batch));
+        }
+
+        const pending = batch.rows
+            .map((row, index) => (row.status === 'pending' ? index : -1))
+            .filter(index => index !== -1);
+
+        if (pending.length === 0) {
+            await update({ ...batch, finishedAt: Date.now() });
+            return batch;
+        }
+
+        const chunk = pending.slice(0, chunkSize);
+
+        const [wallet, seqno] = await getWalletBalance(api, walletState);
+        checkWalletBalanceOrDie(chunkTotalAmount(batch, chunk), wallet);
+
+        const timestamp = await getServerTime(api);
+        const external = await signMultiSendBatchChunk(
+            account,
+            batch,
+            chunk,
+            seqno,
+            timestamp,
+            signer
+        );
+        const messageHash = external.hash().toString('hex');
+
+        await update({
+            ...batch,
+            rows: updateRows(batch, chunk, { status: 'sending', messageHash }),
+            inFlight: { rows: chunk, seqno, validUntil: getTTL(timestamp), messageHash }
+        });
+
+        try {
+            await blockchainApi.sendBlockchainMessage({
+                sendBlockchainMessageRequest: { boc: external.toBoc().toString('base64') }
+            });
+        } catch (e) {
+            console.error(e);
+            await update({
+                ...batch,
+                inFlight: {
+                    ...batch.inFlight!,
+                    sendError: e instanceof Error ? e.message : 'Failed to send transaction'
+                }
+            });
+        }
+    }
+};
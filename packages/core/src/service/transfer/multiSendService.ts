@@ -1,10 +1,12 @@
 import { Address, comment, internal } from '@ton/core';
 import BigNumber from 'bignumber.js';
+import { AccountTonWalletStandard } from '../../entries/account';
 import { APIConfig } from '../../entries/apis';
-import { CellSigner } from '../../entries/signer';
+import { CellSigner, Signer } from '../../entries/signer';
 import { TonWalletStandard, WalletVersion } from '../../entries/wallet';
-import { BlockchainApi, EmulationApi } from '../../tonApiV2';
+import { AccountEvent, BlockchainApi, EmulationApi } from '../../tonApiV2';
 import { unShiftedDecimals } from '../../utils/balance';
+import { LedgerBatchMessage, sendLedgerBatch } from '../ledger/transfer';
 import { walletContractFromState } from '../wallet/contractService';
 import {
     SendMode,
@@ -49,6 +51,62 @@ const checkMaxAllowedMessagesInMultiTransferOrDie = (
     }
 };
 
+export const tonTransferToLedgerMessage = (msg: TransferMessage): LedgerBatchMessage => ({
+    to: Address.parse(msg.to),
+    bounce: msg.bounce,
+    amount: BigInt(msg.weiAmount.toFixed(0)),
+    sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
+    payload: msg.comment ? { type: 'comment', text: msg.comment } : undefined
+});
+
+export const jettonTransferToLedgerMessage = (
+    msg: TransferMessage,
+    walletState: TonWalletStandard,
+    jettonWalletAddress: string,
+    attachValue: BigNumber
+): LedgerBatchMessage => ({
+    to: Address.parse(jettonWalletAddress),
+    bounce: true,
+    amount: BigInt(attachValue.toFixed(0)),
+    sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
+    payload: {
+        type: 'jetton-transfer',
+        knownJetton: null,
+        queryId: getTonkeeperQueryId(),
+        amount: BigInt(msg.weiAmount.toFixed(0)),
+        destination: Address.parse(msg.to),
+        responseDestination: Address.parse(walletState.rawAddress),
+        forwardAmount: jettonTransferForwardAmount,
+        forwardPayload: msg.comment ? comment(msg.comment) : null,
+        customPayload: null
+    }
+});
+
+/**
+ * Splits transfer messages to the chunks that fit into a single wallet transaction
+ */
+export const splitMultiTransferToChunks = <T>(
+    transferMessages: T[],
+    walletVersion: WalletVersion,
+    chunkSize = MAX_ALLOWED_WALLET_MSGS[walletVersion]
+): T[][] => {
+    const chunks: T[][] = [];
+    for (let i = 0; i < transferMessages.length; i += chunkSize) {
+        chunks.push(transferMessages.slice(i, i + chunkSize));
+    }
+    return chunks;
+};
+
+/**
+ * Only the first chunk of a long list is emulated, fee of the whole list is extrapolated from it
+ */
+const extrapolateChunkEstimation = (event: AccountEvent, chunksNumber: number): AccountEvent => {
+    if (chunksNumber <= 1) {
+        return event;
+    }
+    return { ...event, extra: event.extra * chunksNumber };
+};
+
 export const estimateTonMultiTransfer = async (
     api: APIConfig,
     walletState: TonWalletStandard,
@@ -60,13 +118,13 @@ export const estimateTonMultiTransfer = async (
     const [wallet, seqno] = await getWalletBalance(api, walletState);
     checkWalletBalanceOrDie(total, wallet);
 
-    checkMaxAllowedMessagesInMultiTransferOrDie(transferMessages.length, walletState.version);
+    const chunks = splitMultiTransferToChunks(transferMessages, walletState.version);
 
     const cell = await createTonMultiTransfer(
         timestamp,
         seqno,
         walletState,
-        transferMessages,
+        chunks[0] ?? [],
         signEstimateMessage
     );
 
@@ -76,16 +134,17 @@ export const estimateTonMultiTransfer = async (
         emulateMessageToWalletRequest: { boc: cell.toString('base64') }
     });
 
-    return event;
+    return extrapolateChunkEstimation(event, chunks.length);
 };
 
 export const sendTonMultiTransfer = async (
     api: APIConfig,
-    walletState: TonWalletStandard,
+    account: AccountTonWalletStandard,
     transferMessages: TransferMessage[],
     feeEstimate: BigNumber,
-    signer: CellSigner
+    signer: Signer
 ) => {
+    const walletState = account.activeTonWallet;
     const timestamp = await getServerTime(api);
 
     const total = transferMessages.reduce((acc, msg) => acc.plus(msg.weiAmount), new BigNumber(0));
@@ -94,6 +153,19 @@ export const sendTonMultiTransfer = async (
 
     checkMaxAllowedMessagesInMultiTransferOrDie(transferMessages.length, walletState.version);
 
+    if (signer.type === 'ledger') {
+        if (account.type !== 'ledger') {
+            throw new Error(`Unexpected account type: ${account.type}`);
+        }
+        await sendLedgerBatch(
+            api,
+            account,
+            transferMessages.map(tonTransferToLedgerMessage),
+            signer
+        );
+        return true;
+    }
+
     const cell = await createTonMultiTransfer(
         timestamp,
         seqno,
@@ -109,7 +181,7 @@ export const sendTonMultiTransfer = async (
     return true;
 };
 
-const createTonMultiTransfer = async (
+export const createTonMultiTransfer = async (
     timestamp: number,
     seqno: number,
     walletState: TonWalletStandard,
@@ -136,6 +208,9 @@ const createTonMultiTransfer = async (
     return externalMessage(contract, seqno, transfer).toBoc();
 };
 
+export const jettonMultiTransferAttachValue = (feeEstimate: BigNumber, messagesNumber: number) =>
+    feeEstimate.div(messagesNumber).plus(unShiftedDecimals(0.05));
+
 export const estimateJettonMultiTransfer = async (
     api: APIConfig,
     walletState: TonWalletStandard,
@@ -150,14 +225,14 @@ export const estimateJettonMultiTransfer = async (
         wallet
     );
 
-    checkMaxAllowedMessagesInMultiTransferOrDie(transferMessages.length, walletState.version);
+    const chunks = splitMultiTransferToChunks(transferMessages, walletState.version);
 
     const cell = await createJettonMultiTransfer(
         timestamp,
         seqno,
         walletState,
         jettonWalletAddress,
-        transferMessages,
+        chunks[0] ?? [],
         BigNumber(jettonTransferAmount.toString()),
         signEstimateMessage
     );
@@ -167,24 +242,25 @@ export const estimateJettonMultiTransfer = async (
     const { event } = await emulationApi.emulateMessageToWallet({
         emulateMessageToWalletRequest: { boc: cell.toString('base64') }
     });
-    return event;
+    return extrapolateChunkEstimation(event, chunks.length);
 };
 
 export const sendJettonMultiTransfer = async (
     api: APIConfig,
-    walletState: TonWalletStandard,
+    account: AccountTonWalletStandard,
     jettonWalletAddress: string,
     transferMessages: TransferMessage[],
     feeEstimate: BigNumber,
-    signer: CellSigner
+    signer: Signer
 ) => {
+    const walletState = account.activeTonWallet;
     const timestamp = await getServerTime(api);
 
     const [wallet, seqno] = await getWalletBalance(api, walletState);
 
     checkMaxAllowedMessagesInMultiTransferOrDie(transferMessages.length, walletState.version);
 
-    const attachValue = feeEstimate.div(transferMessages.length).plus(unShiftedDecimals(0.05));
+    const attachValue = jettonMultiTransferAttachValue(feeEstimate, transferMessages.length);
     checkWalletBalanceOrDie(attachValue.multipliedBy(transferMessages.length), wallet);
 
     const estimationCell = await createJettonMultiTransfer(
@@ -209,6 +285,21 @@ export const sendJettonMultiTransfer = async (
         throw new Error('Jetton transfer estimation failed');
     }
 
+    if (signer.type === 'ledger') {
+        if (account.type !== 'ledger') {
+            throw new Error(`Unexpected account type: ${account.type}`);
+        }
+        await sendLedgerBatch(
+            api,
+            account,
+            transferMessages.map(msg =>
+                jettonTransferToLedgerMessage(msg, walletState, jettonWalletAddress, attachValue)
+            ),
+            signer
+        );
+        return true;
+    }
+
     const cell = await createJettonMultiTransfer(
         timestamp,
         seqno,
@@ -225,7 +316,7 @@ export const sendJettonMultiTransfer = async (
     return true;
 };
 
-const createJettonMultiTransfer = async (
+export const createJettonMultiTransfer = async (
     timestamp: number,
     seqno: number,
     walletState: TonWalletStandard,
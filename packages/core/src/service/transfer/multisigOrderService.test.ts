@@ -0,0 +1,80 @@
+import { Address, beginCell, Cell, Dictionary } from '@ton/core';
+import BigNumber from 'bignumber.js';
+import { APIConfig } from '../../entries/apis';
+import { BlockchainApi, Multisig, MultisigOrder } from '../../tonApiV2';
+import {
+    createMultisigNewOrderMessage,
+    getMultisigOrderActions,
+    parseMultisigOrderActions
+} from './multisigOrderService';
+
+jest.mock('../../tonApiV2', () => ({
+    ...jest.requireActual('../../tonApiV2'),
+    BlockchainApi: jest.fn()
+}));
+
+const multisig = { address: '0:' + '01'.repeat(32), seqno: 3 } as Multisig;
+const first = '0:' + '02'.repeat(32);
+const second = '0:' + '03'.repeat(32);
+
+const createOrder = () =>
+    createMultisigNewOrderMessage({
+        multisig,
+        role: { isSigner: true, index: 0 },
+        transfers: [
+            { to: first, value: new BigNumber(1500000000), comment: 'Salary' },
+            { to: second, value: new BigNumber(20) }
+        ],
+        expirationDate: 1700000000
+    }).body.refs[0];
+
+/**
+ * Data of the initialized order contract
+ */
+const orderContractData = (order: Cell) =>
+    beginCell()
+        .storeAddress(Address.parse(multisig.address))
+        .storeUint(multisig.seqno, 256)
+        .storeUint(2, 8) // threshold
+        .storeBit(false) // sent for execution
+        .storeRef(beginCell().endCell()) // signers
+        .storeUint(1, 256) // approvals mask
+        .storeUint(1, 8) // approvals number
+        .storeUint(1700000000, 48) // expiration date
+        .storeRef(order)
+        .endCell();
+
+describe('multisigOrderService', () => {
+    it('decodes the transfers of a new order', () => {
+        expect(parseMultisigOrderActions(createOrder())).toEqual([
+            { type: 'transfer', to: first, value: BigInt(1500000000), comment: 'Salary' },
+            { type: 'transfer', to: second, value: BigInt(20) }
+        ]);
+    });
+
+    it('marks the actions it can not display', () => {
+        const actions = Dictionary.empty(Dictionary.Keys.Uint(8), Dictionary.Values.Cell());
+        actions.set(0, beginCell().storeUint(0x1d0cfbd3, 32).storeUint(3, 8).endCell());
+        actions.set(1, beginCell().storeUint(0xdeadbeef, 32).endCell());
+
+        expect(parseMultisigOrderActions(beginCell().storeDictDirect(actions).endCell())).toEqual([
+            { type: 'update-params', threshold: 3 },
+            { type: 'unknown', op: 0xdeadbeef }
+        ]);
+    });
+
+    it('reads the actions from the order contract', async () => {
+        const getBlockchainRawAccount = jest.fn(async () => ({
+            data: orderContractData(createOrder()).toBoc().toString('hex')
+        }));
+        (BlockchainApi as unknown as jest.Mock).mockImplementation(() => ({
+            getBlockchainRawAccount
+        }));
+        const order = { address: '0:' + '04'.repeat(32) } as MultisigOrder;
+
+        const actions = await getMultisigOrderActions({} as APIConfig, order);
+
+        expect(getBlockchainRawAccount).toHaveBeenCalledWith({ accountId: order.address });
+        expect(actions.map(action => action.type)).toEqual(['transfer', 'transfer']);
+    });
+});
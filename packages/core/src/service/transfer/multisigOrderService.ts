@@ -0,0 +1,280 @@
+import {
+    Address,
+    beginCell,
+    Cell,
+    comment,
+    Dictionary,
+    internal,
+    loadMessageRelaxed,
+    storeMessageRelaxed,
+    toNano
+} from '@ton/core';
+import BigNumber from 'bignumber.js';
+import { AccountTonWalletStandard } from '../../entries/account';
+import { APIConfig } from '../../entries/apis';
+import { TransferEstimationEvent } from '../../entries/send';
+import { Signer } from '../../entries/signer';
+import { TonWalletStandard } from '../../entries/wallet';
+import { BlockchainApi, Multisig, MultisigOrder } from '../../tonApiV2';
+import { signLedgerMessage } from '../ledger/transfer';
+import { MultisigRole } from '../multisigService';
+import {
+    checkWalletPositiveBalanceOrDie,
+    createTransferMessage,
+    getKeyPairAndSeqno,
+    getServerTime,
+    getTonkeeperQueryId,
+    getWalletBalance,
+    seeIfAddressBounceable,
+    SendMode,
+    signEstimateMessage
+} from './common';
+
+// op codes of the multisig v2 contract https://github.com/ton-blockchain/multisig-contract-v2
+const MULTISIG_NEW_ORDER_OP = 0xf718510f;
+const MULTISIG_SEND_MESSAGE_ACTION_OP = 0xf1381e5b;
+const MULTISIG_UPDATE_PARAMS_ACTION_OP = 0x1d0cfbd3;
+const ORDER_APPROVE_OP = 0xa762230f;
+
+/**
+ * Attached to the new order message to deploy the order contract, unspent part stays on the multisig
+ */
+export const multisigNewOrderAmount = toNano('0.2');
+export const multisigApproveAmount = toNano('0.1');
+
+export const multisigDefaultOrderLifetime = 24 * 60 * 60; // 1 day
+
+/**
+ * Transfer which is executed by the multisig once the order collects enough approvals
+ */
+export type MultisigOrderTransfer = {
+    to: string;
+    value: BigNumber;
+    comment?: string;
+};
+
+/**
+ * Action of a pending order, executed by the multisig once the order collects enough approvals
+ */
+export type MultisigOrderAction =
+    | {
+          type: 'transfer';
+          to: string;
+          value: bigint;
+          comment?: string;
+          /**
+           * Base64 boc of the message body when it is not a text comment
+           */
+          payload?: string;
+      }
+    | { type: 'update-params'; threshold: number }
+    | { type: 'unknown'; op: number };
+
+export type MultisigHostMessage = {
+    to: string;
+    value: bigint;
+    body: Cell;
+};
+
+const multisigOrderBody = (transfers: MultisigOrderTransfer[]) => {
+    const actions = Dictionary.empty(Dictionary.Keys.Uint(8), Dictionary.Values.Cell());
+
+    transfers.forEach((transfer, index) => {
+        const message = internal({
+            to: Address.parse(transfer.to),
+            bounce: seeIfAddressBounceable(transfer.to),
+            value: BigInt(transfer.value.toFixed(0)),
+            body: transfer.comment ? comment(transfer.comment) : undefined
+        });
+
+        actions.set(
+            index,
+            beginCell()
+                .storeUint(MULTISIG_SEND_MESSAGE_ACTION_OP, 32)
+                .storeUint(SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS, 8)
+                .storeRef(beginCell().store(storeMessageRelaxed(message)).endCell())
+                .endCell()
+        );
+    });
+
+    return beginCell().storeDictDirect(actions).endCell();
+};
+
+const parseMultisigOrderAction = (action: Cell): MultisigOrderAction => {
+    const slice = action.beginParse();
+    const op = slice.loadUint(32);
+
+    switch (op) {
+        case MULTISIG_SEND_MESSAGE_ACTION_OP: {
+            slice.loadUint(8); // send mode
+            const message = loadMessageRelaxed(slice.loadRef().beginParse());
+            if (message.info.type !== 'internal') {
+                return { type: 'unknown', op };
+            }
+
+            const body = message.body.beginParse();
+            const isComment =
+                body.remainingBits >= 32 && body.remainingRefs <= 1 && body.preloadUint(32) === 0;
+            const isEmpty = body.remainingBits === 0 && body.remainingRefs === 0;
+            return {
+                type: 'transfer',
+                to: message.info.dest.toRawString(),
+                value: message.info.value.coins,
+                comment: isComment ? body.skip(32).loadStringTail() : undefined,
+                payload: isComment || isEmpty ? undefined : message.body.toBoc().toString('base64')
+            };
+        }
+        case MULTISIG_UPDATE_PARAMS_ACTION_OP:
+            return { type: 'update-params', threshold: slice.loadUint(8) };
+        default:
+            return { type: 'unknown', op };
+    }
+};
+
+/**
+ * @param order cell with the dictionary of actions, the format of the new order message
+ */
+export const parseMultisigOrderActions = (order: Cell) => {
+    const actions = order
+        .beginParse()
+        .loadDictDirect(Dictionary.Keys.Uint(8), Dictionary.Values.Cell());
+
+    return actions
+        .keys()
+        .sort((a, b) => a - b)
+        .map(key => parseMultisigOrderAction(actions.get(key)!));
+};
+
+/**
+ * Tonapi returns the order without its actions, they are decoded from the order contract data
+ */
+export const getMultisigOrderActions = async (api: APIConfig, order: MultisigOrder) => {
+    const { data } = await new BlockchainApi(api.tonApiV2).getBlockchainRawAccount({
+        accountId: order.address
+    });
+    if (!data) {
+        throw new Error(`Order ${order.address} is not initialized`);
+    }
+
+    const slice = Cell.fromBoc(Buffer.from(data, 'hex'))[0].beginParse();
+    slice.loadAddress(); // multisig address
+    slice.loadUintBig(256); // order seqno
+    slice.loadUint(8); // threshold
+    slice.loadBit(); // sent for execution
+    slice.loadRef(); // signers
+    slice.loadUintBig(256); // approvals mask
+    slice.loadUint(8); // approvals number
+    slice.loadUint(48); // expiration date
+
+    return parseMultisigOrderActions(slice.loadRef());
+};
+
+export const createMultisigNewOrderMessage = (options: {
+    multisig: Multisig;
+    role: MultisigRole;
+    transfers: MultisigOrderTransfer[];
+    expirationDate: number;
+}): MultisigHostMessage => {
+    if (options.transfers.length === 0) {
+        throw new Error('Order should contain at least one transfer');
+    }
+    if (options.transfers.length > 255) {
+        throw new Error('Order can contain at most 255 transfers');
+    }
+
+    const body = beginCell()
+        .storeUint(MULTISIG_NEW_ORDER_OP, 32)
+        .storeUint(getTonkeeperQueryId(), 64)
+        .storeUint(options.multisig.seqno, 256)
+        .storeBit(options.role.isSigner)
+        .storeUint(options.role.index, 8)
+        .storeUint(options.expirationDate, 48)
+        .storeRef(multisigOrderBody(options.transfers))
+        .endCell();
+
+    return { to: options.multisig.address, value: multisigNewOrderAmount, body };
+};
+
+/**
+ * @param signerIndex index of the approving wallet in the order signers list
+ */
+export const createMultisigApproveMessage = (
+    order: MultisigOrder,
+    signerIndex: number
+): MultisigHostMessage => {
+    const body = beginCell()
+        .storeUint(ORDER_APPROVE_OP, 32)
+        .storeUint(getTonkeeperQueryId(), 64)
+        .storeUint(signerIndex, 8)
+        .endCell();
+
+    return { to: order.address, value: multisigApproveAmount, body };
+};
+
+export const estimateMultisigHostMessage = async (options: {
+    api: APIConfig;
+    walletState: TonWalletStandard;
+    message: MultisigHostMessage;
+}) => {
+    const timestamp = await getServerTime(options.api);
+    const [wallet, seqno] = await getWalletBalance(options.api, options.walletState);
+    checkWalletPositiveBalanceOrDie(wallet);
+
+    const cell = await createTransferMessage(
+        { timestamp, seqno, state: options.walletState, signer: signEstimateMessage },
+        options.message
+    );
+
+    return cell.toString('base64');
+};
+
+/**
+ * Sends the new order or approval message from the host wallet, the account active wallet
+ */
+export const sendMultisigHostMessage = async (options: {
+    api: APIConfig;
+    account: AccountTonWalletStandard;
+    fee: TransferEstimationEvent;
+    signer: Signer;
+    message: MultisigHostMessage;
+}) => {
+    const { api, account, signer, message } = options;
+    const walletState = account.activeTonWallet;
+    const timestamp = await getServerTime(api);
+    const { seqno } = await getKeyPairAndSeqno({
+        api,
+        walletState,
+        fee: options.fee,
+        amount: new BigNumber(message.value.toString())
+    });
+
+    let boc: Buffer;
+    if (signer.type === 'ledger') {
+        if (account.type !== 'ledger') {
+            throw new Error(`Unexpected account type: ${account.type}`);
+        }
+        const cell = await signLedgerMessage(
+            account,
+            {
+                to: Address.parse(message.to),
+                bounce: true,
+                amount: message.value,
+                sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
+                payload: { type: 'unsafe', message: message.body }
+            },
+            seqno,
+            timestamp,
+            signer
+        );
+        boc = cell.toBoc();
+    } else {
+        boc = await createTransferMessage(
+            { timestamp, seqno, state: walletState, signer },
+            message
+        );
+    }
+
+    await new BlockchainApi(api.tonApiV2).sendBlockchainMessage({
+        sendBlockchainMessageRequest: { boc: boc.toString('base64') }
+    });
+};
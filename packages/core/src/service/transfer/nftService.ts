@@ -1,4 +1,4 @@
-import { Address, beginCell, Cell, comment, toNano } from '@ton/core';
+import { Address, beginCell, Cell, toNano } from '@ton/core';
 import BigNumber from 'bignumber.js';
 import { APIConfig } from '../../entries/apis';
 import { TonRecipientData, TransferEstimationEvent } from '../../entries/send';
@@ -10,13 +10,15 @@ import {
     checkWalletBalanceOrDie,
     checkWalletPositiveBalanceOrDie,
     createTransferMessage,
+    estimateRecipientCommentPayload,
     getKeyPairAndSeqno,
     getServerTime,
     getTonkeeperQueryId,
     getWalletBalance,
+    recipientCommentPayload,
     signEstimateMessage
 } from './common';
-import { Account } from '../../entries/account';
+import { AccountTonWalletStandard } from '../../entries/account';
 
 const initNftTransferAmount = toNano('1');
 export const nftTransferForwardAmount = BigInt('1');
@@ -74,6 +76,7 @@ const createNftTransfer = (
     nftAddress: string,
     nftTransferAmount: bigint,
     forwardPayload: Cell | null,
+    expiresAt: number | undefined,
     signer: CellSigner
 ) => {
     const body = nftTransferBody({
@@ -85,7 +88,7 @@ const createNftTransfer = (
     });
 
     return createTransferMessage(
-        { timestamp, seqno, state: walletState, signer },
+        { timestamp, seqno, state: walletState, signer, expiresAt },
         { to: nftAddress, value: nftTransferAmount, body }
     );
 };
@@ -107,7 +110,8 @@ export const estimateNftTransfer = async (
         recipient.toAccount.address,
         nftItem.address,
         initNftTransferAmount,
-        recipient.comment ? comment(recipient.comment) : null,
+        estimateRecipientCommentPayload(recipient),
+        recipient.expiresAt,
         signEstimateMessage
     );
 
@@ -119,7 +123,7 @@ export const estimateNftTransfer = async (
 
 export const sendNftTransfer = async (
     api: APIConfig,
-    account: Account,
+    account: AccountTonWalletStandard,
     recipient: TonRecipientData,
     nftItem: NftItem,
     fee: TransferEstimationEvent,
@@ -152,7 +156,8 @@ export const sendNftTransfer = async (
                 recipient.toAccount.address,
                 nftItem.address,
                 BigInt(nftTransferAmount.toString()),
-                recipient.comment ? comment(recipient.comment) : null,
+                recipientCommentPayload(recipient),
+                recipient.expiresAt,
                 signer
             );
             break;
@@ -168,7 +173,8 @@ export const sendNftTransfer = async (
                 recipient.toAccount.address,
                 nftItem.address,
                 BigInt(nftTransferAmount.toString()),
-                recipient.comment ? comment(recipient.comment) : null,
+                recipientCommentPayload(recipient),
+                recipient.expiresAt,
                 signer
             );
             break;
@@ -182,7 +188,7 @@ export const sendNftTransfer = async (
 
 export const sendNftRenew = async (options: {
     api: APIConfig;
-    account: Account;
+    account: AccountTonWalletStandard;
     nftAddress: string;
     fee: TransferEstimationEvent;
     signer: CellSigner;
@@ -237,7 +243,7 @@ export const estimateNftRenew = async (options: {
 
 export const sendNftLink = async (options: {
     api: APIConfig;
-    account: Account;
+    account: AccountTonWalletStandard;
     nftAddress: string;
     linkToAddress: string;
     fee: TransferEstimationEvent;
@@ -0,0 +1,288 @@
+import { Address, beginCell, Cell, comment, toNano } from '@ton/core';
+import BigNumber from 'bignumber.js';
+import { AccountTonWalletStandard } from '../../entries/account';
+import { APIConfig } from '../../entries/apis';
+import { TransferEstimationEvent } from '../../entries/send';
+import { CellSigner } from '../../entries/signer';
+import { TonWalletStandard } from '../../entries/wallet';
+import {
+    AccountsApi,
+    BlockchainApi,
+    PoolImplementationType,
+    PoolInfo,
+    StakingApi
+} from '../../tonApiV2';
+import {
+    createTransferMessage,
+    getKeyPairAndSeqno,
+    getServerTime,
+    getTonkeeperQueryId,
+    getWalletBalance,
+    checkWalletPositiveBalanceOrDie,
+    signEstimateMessage
+} from './common';
+
+/**
+ * Amount attached to a deposit on top of the stake, the rest is returned by the pool
+ */
+const stakingDepositFee: Record<PoolImplementationType, bigint> = {
+    whales: toNano('0.2'),
+    tf: toNano('1'),
+    liquidTF: toNano('1')
+};
+
+const stakingWithdrawAmount: Record<PoolImplementationType, bigint> = {
+    whales: toNano('0.2'),
+    tf: toNano('1'),
+    liquidTF: toNano('1.05')
+};
+
+const whalesGasLimit = BigInt(100000);
+const tonstakersPartnerId = BigInt(0x000000000005b7ce);
+
+const whalesDepositBody = (queryId: bigint) =>
+    beginCell()
+        .storeUint(2077040623, 32) // op::stake_deposit
+        .storeUint(queryId, 64)
+        .storeCoins(whalesGasLimit)
+        .endCell();
+
+/**
+ * @param amount nano TON to withdraw, 0 withdraws the whole stake
+ */
+const whalesWithdrawBody = (queryId: bigint, amount: bigint) =>
+    beginCell()
+        .storeUint(3665837821, 32) // op::stake_withdraw
+        .storeUint(queryId, 64)
+        .storeCoins(whalesGasLimit)
+        .storeCoins(amount)
+        .endCell();
+
+const tonstakersDepositBody = (queryId: bigint) =>
+    beginCell()
+        .storeUint(0x47d54391, 32) // op::deposit
+        .storeUint(queryId, 64)
+        .storeUint(tonstakersPartnerId, 64)
+        .endCell();
+
+const tonstakersBurnBody = (queryId: bigint, amount: bigint, responseAddress: Address) =>
+    beginCell()
+        .storeUint(0x595f07bc, 32) // op::burn
+        .storeUint(queryId, 64)
+        .storeCoins(amount)
+        .storeAddress(responseAddress)
+        .storeMaybeRef(
+            beginCell()
+                .storeUint(0, 1) // wait_till_round_end
+                .storeUint(0, 1) // fill_or_kill
+                .endCell()
+        )
+        .endCell();
+
+type StakingMessage = { to: string; value: bigint; body: Cell };
+
+/**
+ * @param amount nano TON to stake
+ */
+export const createStakingDepositMessage = (pool: PoolInfo, amount: BigNumber): StakingMessage => {
+    const queryId = getTonkeeperQueryId();
+    const value = BigInt(amount.toFixed(0)) + stakingDepositFee[pool.implementation];
+
+    switch (pool.implementation) {
+        case 'whales':
+            return { to: pool.address, value, body: whalesDepositBody(queryId) };
+        case 'tf':
+            return { to: pool.address, value, body: comment('d') };
+        case 'liquidTF':
+            return { to: pool.address, value, body: tonstakersDepositBody(queryId) };
+    }
+};
+
+/**
+ * Liquid pool stake is withdrawn by burning pool jettons, the TON amount is converted to jettons
+ * by the ratio of the current stake to the jetton balance
+ */
+const createLiquidWithdrawMessage = async (
+    api: APIConfig,
+    walletState: TonWalletStandard,
+    pool: PoolInfo,
+    amount: BigNumber | undefined
+): Promise<StakingMessage> => {
+    if (!pool.liquidJettonMaster) {
+        throw new Error('Liquid pool jetton is not defined');
+    }
+
+    const jetton = await new AccountsApi(api.tonApiV2).getAccountJettonBalance({
+        accountId: walletState.rawAddress,
+        jettonId: pool.liquidJettonMaster
+    });
+
+    let jettonAmount = new BigNumber(jetton.balance);
+    if (amount !== undefined) {
+        const { pools } = await new StakingApi(api.tonApiV2).getAccountNominatorsPools({
+            accountId: walletState.rawAddress
+        });
+        const stake = pools.find(item =>
+            Address.parse(item.pool).equals(Address.parse(pool.address))
+        );
+        if (stake && amount.isLessThan(stake.amount)) {
+            jettonAmount = jettonAmount
+                .multipliedBy(amount)
+                .dividedBy(stake.amount)
+                .integerValue(BigNumber.ROUND_DOWN);
+        }
+    }
+
+    if (jettonAmount.isLessThanOrEqualTo(0)) {
+        throw new Error('Nothing to withdraw');
+    }
+
+    return {
+        to: jetton.walletAddress.address,
+        value: stakingWithdrawAmount.liquidTF,
+        body: tonstakersBurnBody(
+            getTonkeeperQueryId(),
+            BigInt(jettonAmount.toFixed(0)),
+            Address.parse(walletState.rawAddress)
+        )
+    };
+};
+
+/**
+ * @param amount nano TON to withdraw, the whole stake is withdrawn when it is not defined.
+ * Nominator pools of TON Foundation support only withdrawal of the whole stake
+ */
+export const createStakingWithdrawMessage = async (
+    api: APIConfig,
+    walletState: TonWalletStandard,
+    pool: PoolInfo,
+    amount?: BigNumber
+): Promise<StakingMessage> => {
+    switch (pool.implementation) {
+        case 'whales':
+            return {
+                to: pool.address,
+                value: stakingWithdrawAmount.whales,
+                body: whalesWithdrawBody(
+                    getTonkeeperQueryId(),
+                    amount ? BigInt(amount.toFixed(0)) : BigInt(0)
+                )
+            };
+        case 'tf':
+            return { to: pool.address, value: stakingWithdrawAmount.tf, body: comment('w') };
+        case 'liquidTF':
+            return createLiquidWithdrawMessage(api, walletState, pool, amount);
+    }
+};
+
+const estimateStakingMessage = async (
+    api: APIConfig,
+    walletState: TonWalletStandard,
+    message: StakingMessage
+) => {
+    const timestamp = await getServerTime(api);
+    const [wallet, seqno] = await getWalletBalance(api, walletState);
+    checkWalletPositiveBalanceOrDie(wallet);
+
+    const cell = await createTransferMessage(
+        { timestamp, seqno, state: walletState, signer: signEstimateMessage },
+        message
+    );
+
+    return cell.toString('base64');
+};
+
+const sendStakingMessage = async (options: {
+    api: APIConfig;
+    account: AccountTonWalletStandard;
+    fee: TransferEstimationEvent;
+    signer: CellSigner;
+    message: StakingMessage;
+}) => {
+    const walletState = options.account.activeTonWallet;
+    const timestamp = await getServerTime(options.api);
+    const { seqno } = await getKeyPairAndSeqno({
+        api: options.api,
+        walletState,
+        fee: options.fee,
+        amount: new BigNumber(options.message.value.toString())
+    });
+
+    const cell = await createTransferMessage(
+        { timestamp, seqno, state: walletState, signer: options.signer },
+        options.message
+    );
+
+    await new BlockchainApi(options.api.tonApiV2).sendBlockchainMessage({
+        sendBlockchainMessageRequest: { boc: cell.toString('base64') }
+    });
+};
+
+export const estimateStakingDeposit = async (options: {
+    api: APIConfig;
+    walletState: TonWalletStandard;
+    pool: PoolInfo;
+    amount: BigNumber;
+}) =>
+    estimateStakingMessage(
+        options.api,
+        options.walletState,
+        createStakingDepositMessage(options.pool, options.amount)
+    );
+
+export const sendStakingDeposit = async (options: {
+    api: APIConfig;
+    account: AccountTonWalletStandard;
+    pool: PoolInfo;
+    amount: BigNumber;
+    fee: TransferEstimationEvent;
+    signer: CellSigner;
+}) =>
+    sendStakingMessage({
+        ...options,
+        message: createStakingDepositMessage(options.pool, options.amount)
+    });
+
+export const estimateStakingWithdraw = async (options: {
+    api: APIConfig;
+    walletState: TonWalletStandard;
+    pool: PoolInfo;
+    amount?: BigNumber;
+}) =>
+    estimateStakingMessage(
+        options.api,
+        options.walletState,
+        await createStakingWithdrawMessage(
+            options.api,
+            options.walletState,
+            options.pool,
+            options.amount
+        )
+    );
+
+export const sendStakingWithdraw = async (options: {
+    api: APIConfig;
+    account: AccountTonWalletStandard;
+    pool: PoolInfo;
+    amount?: BigNumber;
+    fee: TransferEstimationEvent;
+    signer: CellSigner;
+}) =>
+    sendStakingMessage({
+        ...options,
+        message: await createStakingWithdrawMessage(
+            options.api,
+            options.account.activeTonWallet,
+            options.pool,
+            options.amount
+        )
+    });
+
+/**
+ * Amount attached to the withdrawal request, it is the fee shown in the confirmation
+ */
+export const getStakingWithdrawRequestAmount = (pool: PoolInfo) =>
+    stakingWithdrawAmount[pool.implementation];
+
+export const getStakingDepositFeeAmount = (pool: PoolInfo) =>
+    stakingDepositFee[pool.implementation];
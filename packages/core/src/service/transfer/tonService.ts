@@ -1,26 +1,34 @@
 import { Address, Cell, internal } from '@ton/core';
 import BigNumber from 'bignumber.js';
-import { Account } from '../../entries/account';
+import { AccountTonWalletStandard } from '../../entries/account';
 import { APIConfig } from '../../entries/apis';
 import { AssetAmount } from '../../entries/crypto/asset/asset-amount';
 import { TonRecipientData, TransferEstimationEvent } from '../../entries/send';
 import { CellSigner, Signer } from '../../entries/signer';
 import { TonConnectTransactionPayload } from '../../entries/tonConnect';
 import { TonWalletStandard } from '../../entries/wallet';
-import { LedgerError } from '../../errors/LedgerError';
-import { AccountsApi, BlockchainApi, EmulationApi } from '../../tonApiV2';
-import { createLedgerTonTransfer } from '../ledger/transfer';
+import { AccountsApi, BlockchainApi, EmulationApi, MessageConsequences } from '../../tonApiV2';
+import {
+    LedgerBatchMessage,
+    createLedgerTonTransfer,
+    sendLedgerBatch,
+    toLedgerError
+} from '../ledger/transfer';
 import { getLedgerAccountPathByIndex } from '../ledger/utils';
+import { TonConnectEmulationReport } from '../tonConnect/emulationReportService';
 import { walletContractFromState } from '../wallet/contractService';
 import {
     SendMode,
     checkWalletBalanceOrDie,
     checkWalletPositiveBalanceOrDie,
+    estimateRecipientCommentPayload,
     externalMessage,
     getServerTime,
+    getTransferTTL,
     getTTL,
     getWalletBalance,
     getWalletSeqNo,
+    recipientCommentPayload,
     seeIfAddressBounceable,
     seeIfTransferBounceable,
     signEstimateMessage,
@@ -29,6 +37,7 @@ import {
 
 export type EstimateData = {
     accountEvent: TransferEstimationEvent;
+    report?: TonConnectEmulationReport;
 };
 
 const createTonTransfer = async (
@@ -38,13 +47,14 @@ const createTonTransfer = async (
     recipient: TonRecipientData,
     weiAmount: BigNumber,
     isMax: boolean,
-    signer: CellSigner
+    signer: CellSigner,
+    commentPayload: Cell | null
 ) => {
     const contract = walletContractFromState(walletState);
     const transfer = await contract.createTransferAndSignRequestAsync({
         seqno,
         signer,
-        timeout: getTTL(timestamp),
+        timeout: getTransferTTL(timestamp, recipient.expiresAt),
         sendMode: isMax
             ? SendMode.CARRY_ALL_REMAINING_BALANCE + SendMode.IGNORE_ERRORS
             : SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
@@ -53,17 +63,34 @@ const createTonTransfer = async (
                 to: Address.parse(recipient.toAccount.address),
                 bounce: seeIfTransferBounceable(recipient.toAccount, recipient.address),
                 value: BigInt(weiAmount.toFixed(0)),
-                body: recipient.comment !== '' ? recipient.comment : undefined
+                init: toStateInit(recipient.stateInit),
+                body: commentPayload ?? undefined
             })
         ]
     });
     return externalMessage(contract, seqno, transfer).toBoc();
 };
 
+const tonConnectMessageToLedger = (
+    message: TonConnectTransactionPayload['messages'][number]
+): LedgerBatchMessage => ({
+    to: Address.parse(message.address),
+    bounce: seeIfAddressBounceable(message.address),
+    amount: BigInt(message.amount),
+    sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
+    payload: message.payload
+        ? {
+              type: 'unsafe',
+              message: Cell.fromBase64(message.payload)
+          }
+        : undefined,
+    stateInit: toStateInit(message.stateInit)
+});
+
 const createTonConnectTransfer = async (
     timestamp: number,
     seqno: number,
-    account: Account,
+    account: AccountTonWalletStandard,
     params: TonConnectTransactionPayload,
     signer: Signer
 ) => {
@@ -78,35 +105,18 @@ const createTonConnectTransfer = async (
             throw new Error('Ledger signer can only be used with ledger accounts');
         }
 
-        const message = params.messages[0];
         const path = getLedgerAccountPathByIndex(account.activeDerivationIndex);
 
         let transfer: Cell;
         try {
             transfer = await signer(path, {
-                to: Address.parse(message.address),
-                bounce: seeIfAddressBounceable(message.address),
-                amount: BigInt(message.amount),
+                ...tonConnectMessageToLedger(params.messages[0]),
                 seqno,
-                timeout: getTTL(timestamp),
-                sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
-                payload: message.payload
-                    ? {
-                          type: 'unsafe',
-                          message: Cell.fromBase64(message.payload)
-                      }
-                    : undefined,
-                stateInit: toStateInit(message.stateInit)
+                timeout: getTTL(timestamp)
             });
         } catch (e) {
             console.error(e);
-            throw new LedgerError(
-                typeof e === 'string'
-                    ? e
-                    : typeof e === 'object' && e && 'message' in e
-                    ? (e.message as string)
-                    : 'Unknown error'
-            );
+            throw toLedgerError(e);
         }
 
         return externalMessage(contract, seqno, transfer).toBoc();
@@ -150,7 +160,8 @@ export const estimateTonTransfer = async (
         recipient,
         weiAmount,
         isMax,
-        signEstimateMessage
+        signEstimateMessage,
+        estimateRecipientCommentPayload(recipient)
     );
 
     const result = await new EmulationApi(api.tonApiV2).emulateMessageToWallet({
@@ -185,9 +196,9 @@ export const tonConnectTransferError = async (
 
 export const estimateTonConnectTransfer = async (
     api: APIConfig,
-    account: Account,
+    account: AccountTonWalletStandard,
     params: TonConnectTransactionPayload
-): Promise<TransferEstimationEvent> => {
+): Promise<MessageConsequences> => {
     const timestamp = await getServerTime(api);
     const [wallet, seqno] = await getWalletBalance(api, account.activeTonWallet);
     checkWalletPositiveBalanceOrDie(wallet);
@@ -207,12 +218,29 @@ export const estimateTonConnectTransfer = async (
     return result;
 };
 
+/**
+ * Returns base64 bocs of every sent external message. Ledger sends the messages of the request
+ * as separate transactions, a LedgerBatchError lists the ones sent before the series is interrupted
+ */
 export const sendTonConnectTransfer = async (
     api: APIConfig,
-    account: Account,
+    account: AccountTonWalletStandard,
     params: TonConnectTransactionPayload,
     signer: Signer
-) => {
+): Promise<string[]> => {
+    if (signer.type === 'ledger' && params.messages.length > 1) {
+        if (account.type !== 'ledger') {
+            throw new Error('Ledger signer can only be used with ledger accounts');
+        }
+
+        return sendLedgerBatch(
+            api,
+            account,
+            params.messages.map(tonConnectMessageToLedger),
+            signer
+        );
+    }
+
     const timestamp = await getServerTime(api);
     const seqno = await getWalletSeqNo(api, account.activeTonWallet.rawAddress);
 
@@ -224,12 +252,12 @@ export const sendTonConnectTransfer = async (
         sendBlockchainMessageRequest: { boc }
     });
 
-    return boc;
+    return [boc];
 };
 
 export const sendTonTransfer = async (
     api: APIConfig,
-    account: Account,
+    account: AccountTonWalletStandard,
     recipient: TonRecipientData,
     amount: AssetAmount,
     isMax: boolean,
@@ -268,7 +296,8 @@ export const sendTonTransfer = async (
             recipient,
             amount.weiAmount,
             isMax,
-            signer
+            signer,
+            recipientCommentPayload(recipient)
         );
     }
 
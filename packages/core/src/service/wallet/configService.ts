@@ -24,13 +24,17 @@ const migration = async (storage: IStorage, address: string, network: Network |
     return config;
 };
 
+const walletConfigKey = (address: string, network: Network | undefined) => {
+    const formatted = Address.parse(address).toString({ testOnly: network === Network.TESTNET });
+    return `${AppKey.WALLET_CONFIG}_${formatted}`;
+};
+
 export const getActiveWalletConfig = async (
     storage: IStorage,
     address: string,
     network: Network | undefined
 ) => {
-    const formatted = Address.parse(address).toString({ testOnly: network === Network.TESTNET });
-    let config = await storage.get<TonWalletConfig>(`${AppKey.WALLET_CONFIG}_${formatted}`);
+    let config = await storage.get<TonWalletConfig>(walletConfigKey(address, network));
 
     if (!config) {
         config = await migration(storage, address, network);
@@ -47,6 +51,17 @@ export const setActiveWalletConfig = async (
     network: Network | undefined,
     config: TonWalletConfig
 ) => {
-    const formatted = Address.parse(address).toString({ testOnly: network === Network.TESTNET });
-    await storage.set(`${AppKey.WALLET_CONFIG}_${formatted}`, config);
+    await storage.set(walletConfigKey(address, network), config);
+};
+
+/**
+ * Wallet has a config saved by the user, not the default one
+ */
+export const isWalletConfigStored = async (
+    storage: IStorage,
+    address: string,
+    network: Network | undefined
+) => {
+    const config = await storage.get<TonWalletConfig>(walletConfigKey(address, network));
+    return config != null;
 };
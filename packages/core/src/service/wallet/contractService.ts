@@ -5,21 +5,35 @@ import { WalletContractV4 } from '@ton/ton/dist/wallets/WalletContractV4';
 import { WalletContractV5Beta } from '@ton/ton/dist/wallets/WalletContractV5Beta';
 import { WalletContractV5R1 } from '@ton/ton/dist/wallets/WalletContractV5R1';
 import { Network } from '../../entries/network';
-import { TonWalletStandard, WalletVersion } from '../../entries/wallet';
+import { isW5Version, TonWalletStandard, WalletVersion } from '../../entries/wallet';
 
+/**
+ * Contract of the stored wallet, derived with the global id its address is derived with
+ */
 export const walletContractFromState = (wallet: TonWalletStandard) => {
     const publicKey = Buffer.from(wallet.publicKey, 'hex');
-    return walletContract(publicKey, wallet.version);
+    return walletContract(publicKey, wallet.version, Network.MAINNET, wallet.networkGlobalId);
+};
+
+/**
+ * Global id the new wallet is stored with, only the addresses of the wallets v5 depend on it
+ */
+export const walletNetworkGlobalId = (version: WalletVersion, networkGlobalId?: number) => {
+    return isW5Version(version) ? networkGlobalId : undefined;
 };
 
 const workchain = 0;
 
 export type WalletContract = ReturnType<typeof walletContract>;
 
+/**
+ * Wallet v5 contracts of the custom network profile are derived with its global id
+ */
 export const walletContract = (
     publicKey: Buffer,
     version: WalletVersion,
-    network = Network.MAINNET
+    network = Network.MAINNET,
+    networkGlobalId?: number
 ) => {
     switch (version) {
         case WalletVersion.V3R1:
@@ -33,12 +47,16 @@ export const walletContract = (
         case WalletVersion.V5_BETA:
             return WalletContractV5Beta.create({
                 walletId: {
-                    networkGlobalId: network
+                    networkGlobalId: networkGlobalId ?? network
                 },
                 publicKey
             });
         case WalletVersion.V5R1:
-            return WalletContractV5R1.create({ workChain: workchain, publicKey });
+            return WalletContractV5R1.create({
+                workChain: workchain,
+                publicKey,
+                walletId: networkGlobalId !== undefined ? { networkGlobalId } : undefined
+            });
     }
 };
 
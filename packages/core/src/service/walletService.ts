@@ -8,17 +8,22 @@ import { APIConfig } from '../entries/apis';
 import { Network } from '../entries/network';
 import { AuthKeychain, AuthPassword } from '../entries/password';
 import { sortWalletsByVersion, WalletVersion, WalletVersions } from '../entries/wallet';
-import { WalletApi } from '../tonApiV2';
-import { walletContract } from './wallet/contractService';
+import { DNSApi, WalletApi } from '../tonApiV2';
+import { walletContract, walletNetworkGlobalId } from './wallet/contractService';
 import { emojis } from '../utils/emojis';
+import { seeIfValidTonAddress } from '../utils/common';
 import {
     AccountKeystone,
     AccountLedger,
     AccountTonMnemonic,
-    AccountTonOnly
+    AccountTonMultisig,
+    AccountTonOnly,
+    AccountTonWatchOnly
 } from '../entries/account';
 import { IStorage } from '../Storage';
+import { MultisigHostWalletError } from '../errors/MultisigHostWalletError';
 import { accountsStorage } from './accountsStorage';
+import { getMultisig, getMultisigHostWallets } from './multisigService';
 
 export const createStandardTonAccountByMnemonic = async (
     appContext: { api: APIConfig; defaultWalletVersion: WalletVersion },
@@ -37,7 +42,7 @@ export const createStandardTonAccountByMnemonic = async (
     let tonWallets: { rawAddress: string; version: WalletVersion }[] = [];
     if (options.versions) {
         tonWallets = options.versions
-            .map(v => getWalletAddress(publicKey, v))
+            .map(v => getWalletAddress(publicKey, v, undefined, appContext.api.networkGlobalId))
             .map(i => ({
                 rawAddress: i.address.toRawString(),
                 version: i.version
@@ -70,7 +75,8 @@ export const createStandardTonAccountByMnemonic = async (
             id: w.rawAddress,
             publicKey,
             version: w.version,
-            rawAddress: w.rawAddress
+            rawAddress: w.rawAddress,
+            networkGlobalId: walletNetworkGlobalId(w.version, appContext.api.networkGlobalId)
         }))
     );
 };
@@ -124,7 +130,12 @@ const findWalletAddress = async (
         console.warn(e);
     }
 
-    const contact = walletContract(Buffer.from(publicKey, 'hex'), appContext.defaultWalletVersion);
+    const contact = walletContract(
+        Buffer.from(publicKey, 'hex'),
+        appContext.defaultWalletVersion,
+        undefined,
+        appContext.api.networkGlobalId
+    );
     return {
         rawAddress: contact.address.toRawString(),
         version: appContext.defaultWalletVersion
@@ -134,12 +145,13 @@ const findWalletAddress = async (
 export const getWalletAddress = (
     publicKey: Buffer | string,
     version: WalletVersion,
-    network?: Network
+    network?: Network,
+    networkGlobalId?: number
 ): { address: Address; version: WalletVersion } => {
     if (typeof publicKey === 'string') {
         publicKey = Buffer.from(publicKey, 'hex');
     }
-    const { address } = walletContract(publicKey, version, network);
+    const { address } = walletContract(publicKey, version, network, networkGlobalId);
     return {
         address,
         version
@@ -148,7 +160,8 @@ export const getWalletAddress = (
 
 export const getWalletsAddresses = (
     publicKey: Buffer | string,
-    network?: Network
+    network?: Network,
+    networkGlobalId?: number
 ): Record<(typeof WalletVersions)[number], { address: Address; version: WalletVersion }> => {
     if (typeof publicKey === 'string') {
         publicKey = Buffer.from(publicKey, 'hex');
@@ -157,7 +170,7 @@ export const getWalletsAddresses = (
     return Object.fromEntries(
         WalletVersions.map(version => [
             version,
-            getWalletAddress(publicKey as Buffer, version, network)
+            getWalletAddress(publicKey as Buffer, version, network, networkGlobalId)
         ])
     ) as Record<(typeof WalletVersions)[number], { address: Address; version: WalletVersion }>;
 };
@@ -202,7 +215,11 @@ export const accountBySignerQr = async (
                 id: active.rawAddress,
                 publicKey,
                 version: active.version,
-                rawAddress: active.rawAddress
+                rawAddress: active.rawAddress,
+                networkGlobalId: walletNetworkGlobalId(
+                    active.version,
+                    appContext.api.networkGlobalId
+                )
             }
         ]
     );
@@ -231,7 +248,11 @@ export const accountBySignerDeepLink = async (
                 id: active.rawAddress,
                 publicKey,
                 version: active.version,
-                rawAddress: active.rawAddress
+                rawAddress: active.rawAddress,
+                networkGlobalId: walletNetworkGlobalId(
+                    active.version,
+                    appContext.api.networkGlobalId
+                )
             }
         ]
     );
@@ -292,6 +313,72 @@ export const accountByKeystone = async (ur: UR, storage: IStorage): Promise<Acco
     });
 };
 
+/**
+ * @param address user-friendly or raw TON address or a TON DNS name
+ */
+const resolveRawAddress = async (api: APIConfig, address: string) => {
+    if (seeIfValidTonAddress(address)) {
+        return Address.parse(address).toRawString();
+    }
+
+    const result = await new DNSApi(api.tonApiV2).dnsResolve({
+        domainName: address.trim().toLowerCase()
+    });
+    if (!result.wallet) {
+        throw new Error(`DNS name ${address} is not linked to a wallet`);
+    }
+    return Address.parse(result.wallet.address).toRawString();
+};
+
+export const accountByWatchOnlyAddress = async (
+    api: APIConfig,
+    storage: IStorage,
+    address: string,
+    name?: string
+): Promise<AccountTonWatchOnly> => {
+    const rawAddress = await resolveRawAddress(api, address);
+
+    const { name: fallbackName, emoji } = await accountsStorage(storage).getNewAccountNameAndEmoji(
+        rawAddress
+    );
+
+    return new AccountTonWatchOnly(rawAddress, name || fallbackName, emoji, {
+        id: rawAddress,
+        rawAddress
+    });
+};
+
+export const accountByMultisigAddress = async (
+    api: APIConfig,
+    storage: IStorage,
+    address: string,
+    name?: string
+): Promise<AccountTonMultisig> => {
+    const rawAddress = await resolveRawAddress(api, address);
+    const multisig = await getMultisig(api, rawAddress);
+
+    const accounts = await accountsStorage(storage).getAccounts();
+    const hostWallets = getMultisigHostWallets(multisig, accounts);
+    if (hostWallets.length === 0) {
+        throw new MultisigHostWalletError(
+            `None of the wallets is a signer or a proposer of the multisig ${rawAddress}`
+        );
+    }
+
+    const { name: fallbackName, emoji } = await accountsStorage(storage).getNewAccountNameAndEmoji(
+        rawAddress
+    );
+
+    return new AccountTonMultisig(
+        rawAddress,
+        name || fallbackName,
+        emoji,
+        { id: rawAddress, rawAddress },
+        hostWallets.map(w => w.id),
+        hostWallets[0].id
+    );
+};
+
 export function getFallbackAccountEmoji(publicKey: string) {
     const index = Number('0x' + publicKey.slice(-6)) % emojis.length;
     return emojis[index];
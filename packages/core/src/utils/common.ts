@@ -78,6 +78,7 @@ export function formatTransferUrl(options: {
     amount?: string;
     text?: string;
     jetton?: string;
+    exp?: number;
 }) {
     const url = 'ton://transfer/' + options.address;
 
@@ -92,6 +93,9 @@ export function formatTransferUrl(options: {
     if (options.jetton) {
         params.push('jetton=' + Address.parse(options.jetton).toString());
     }
+    if (options.exp) {
+        params.push('exp=' + options.exp);
+    }
 
     if (params.length === 0) return url;
 
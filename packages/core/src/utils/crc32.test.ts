@@ -0,0 +1,13 @@
+import { crc32 } from './crc32';
+
+describe('crc32', () => {
+    it('matches the IEEE 802.3 check values', () => {
+        expect(crc32('')).toBe(0);
+        expect(crc32('123456789')).toBe(0xcbf43926);
+        expect(crc32('The quick brown fox jumps over the lazy dog')).toBe(0x414fa339);
+    });
+
+    it('hashes strings as utf-8 bytes', () => {
+        expect(crc32('привет')).toBe(crc32(Buffer.from('привет', 'utf8')));
+    });
+});
@@ -0,0 +1,136 @@
+import { crc32 } from './crc32';
+
+type ZipEntry = { name: string; data: Uint8Array };
+
+/**
+ * Zip archive with the stored (uncompressed) entries, enough for the office open xml containers
+ */
+const createZip = (entries: ZipEntry[]) => {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true); // version needed
+        local.setUint16(8, 0, true); // stored
+        local.setUint32(14, crc, true);
+        local.setUint32(18, entry.data.length, true);
+        local.setUint32(22, entry.data.length, true);
+        local.setUint16(26, name.length, true);
+
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, 0x02014b50, true);
+        header.setUint16(4, 20, true); // version made by
+        header.setUint16(6, 20, true); // version needed
+        header.setUint32(16, crc, true);
+        header.setUint32(20, entry.data.length, true);
+        header.setUint32(24, entry.data.length, true);
+        header.setUint16(28, name.length, true);
+        header.setUint32(42, offset, true);
+
+        chunks.push(new Uint8Array(local.buffer), name, entry.data);
+        central.push(new Uint8Array(header.buffer), name);
+        offset += 30 + name.length + entry.data.length;
+    }
+
+    const centralSize = central.reduce((acc, item) => acc + item.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+    const result = new Uint8Array(parts.reduce((acc, item) => acc + item.length, 0));
+    parts.reduce((position, item) => {
+        result.set(item, position);
+        return position + item.length;
+    }, 0);
+    return result;
+};
+
+const escapeXml = (value: string) =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // eslint-disable-next-line no-control-regex
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const columnName = (index: number): string => {
+    const letter = String.fromCharCode(65 + (index % 26));
+    return index < 26 ? letter : columnName(Math.floor(index / 26) - 1) + letter;
+};
+
+const sheetXml = (rows: (string | number | undefined)[][]) => {
+    const body = rows
+        .map((row, rowIndex) => {
+            const cells = row
+                .map((value, columnIndex) => {
+                    const ref = `${columnName(columnIndex)}${rowIndex + 1}`;
+                    if (value === undefined || value === '') {
+                        return '';
+                    }
+                    if (typeof value === 'number') {
+                        return `<c r="${ref}"><v>${value}</v></c>`;
+                    }
+                    return `<c r="${ref}" t="inlineStr"><is><t>${escapeXml(value)}</t></is></c>`;
+                })
+                .join('');
+            return `<row r="${rowIndex + 1}">${cells}</row>`;
+        })
+        .join('');
+
+    return (
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `<sheetData>${body}</sheetData></worksheet>`
+    );
+};
+
+/**
+ * Single sheet xlsx workbook, numbers are stored as numeric cells and the rest as inline strings
+ */
+export const createXlsx = (sheetName: string, rows: (string | number | undefined)[][]) => {
+    const encoder = new TextEncoder();
+    const files: Record<string, string> = {
+        '[Content_Types].xml':
+            '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+            '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+            '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+            '<Default Extension="xml" ContentType="application/xml"/>' +
+            '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+            '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+            '</Types>',
+        '_rels/.rels':
+            '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+            '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+            '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+            '</Relationships>',
+        'xl/workbook.xml':
+            '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+            '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+            `<sheets><sheet name="${escapeXml(
+                sheetName.slice(0, 31)
+            )}" sheetId="1" r:id="rId1"/></sheets>` +
+            '</workbook>',
+        'xl/_rels/workbook.xml.rels':
+            '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+            '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+            '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+            '</Relationships>',
+        'xl/worksheets/sheet1.xml': sheetXml(rows)
+    };
+
+    return createZip(
+        Object.entries(files).map(([name, content]) => ({ name, data: encoder.encode(content) }))
+    );
+};
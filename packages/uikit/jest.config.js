@@ -0,0 +1,16 @@
+/** @type {import('jest').Config} */
+module.exports = {
+    testEnvironment: 'node',
+    roots: ['<rootDir>/src'],
+    transform: {
+        '^.+\\.[tj]s$': 'ts-jest'
+    },
+    // core is tested from the sources, dist is built as ES modules
+    moduleNameMapper: {
+        '^@tonkeeper/core/dist/(.*)$': '<rootDir>/../core/src/$1'
+    },
+    // query-string and its dependencies are published as ES modules only
+    transformIgnorePatterns: [
+        '/node_modules/(?!(query-string|decode-uri-component|split-on-first|filter-obj)/)'
+    ]
+};
@@ -3,7 +3,12 @@ import { useAppSdk } from '../hooks/appSdk';
 import { useTranslation } from '../hooks/translation';
 import { Notification } from './Notification';
 import { Button } from './fields/Button';
-import { LedgerTransaction } from '@tonkeeper/core/dist/service/ledger/connector';
+import {
+    LedgerBatchProgress,
+    LedgerTonProof,
+    LedgerTonTransport,
+    LedgerTransaction
+} from '@tonkeeper/core/dist/service/ledger/connector';
 import { useConnectLedgerMutation } from '../state/ledger';
 import styled from 'styled-components';
 import { Cell } from '@ton/core';
@@ -31,10 +36,30 @@ const ButtonsBlock = styled.div`
     }
 `;
 
+type LedgerParams =
+    | { path: number[]; transaction: LedgerTransaction; progress?: LedgerBatchProgress }
+    | { path: number[]; proof: LedgerTonProof };
+
+type LedgerResult = Cell | { signature: Buffer; hash: Buffer };
+
+const signByLedger = (
+    transport: LedgerTonTransport,
+    ledgerParams: LedgerParams
+): Promise<LedgerResult> => {
+    if ('proof' in ledgerParams) {
+        return transport.getAddressProof(
+            ledgerParams.path,
+            ledgerParams.proof.request,
+            ledgerParams.proof.options
+        );
+    }
+    return transport.signTransaction(ledgerParams.path, ledgerParams.transaction);
+};
+
 export const LedgerContent: FC<{
-    ledgerParams: { path: number[]; transaction: LedgerTransaction };
+    ledgerParams: LedgerParams;
     onClose: (reason?: unknown) => void;
-    onSubmit: (result: Cell) => void;
+    onSubmit: (result: LedgerResult) => void;
 }> = ({ ledgerParams, onClose, onSubmit }) => {
     const { t } = useTranslation();
     const [isCompleted, setIsCompleted] = useState(false);
@@ -50,8 +75,7 @@ export const LedgerContent: FC<{
     const connect = () => {
         connectLedger()
             .then(transport =>
-                transport
-                    .signTransaction(ledgerParams.path, ledgerParams.transaction)
+                signByLedger(transport, ledgerParams)
                     .then(val => {
                         setIsCompleted(true);
                         setTimeout(() => onSubmit(val), 500);
@@ -94,7 +118,11 @@ export const LedgerContent: FC<{
 
     return (
         <ConnectLedgerWrapper>
-            <LedgerConnectionStepsStyled showConfirmTxStep currentStep={currentStep} />
+            <LedgerConnectionStepsStyled
+                showConfirmTxStep
+                confirmTxProgress={'progress' in ledgerParams ? ledgerParams.progress : undefined}
+                currentStep={currentStep}
+            />
             <ButtonsBlock>
                 <Button
                     secondary
@@ -118,9 +146,7 @@ const ConnectLedgerNotification = () => {
     const sdk = useAppSdk();
     const { t } = useTranslation();
 
-    const [ledgerParams, setLedgerParams] = useState<
-        { path: number[]; transaction: LedgerTransaction } | undefined
-    >(undefined);
+    const [ledgerParams, setLedgerParams] = useState<LedgerParams | undefined>(undefined);
     const [requestId, setId] = useState<number | undefined>(undefined);
 
     const close = useCallback(() => {
@@ -129,7 +155,7 @@ const ConnectLedgerNotification = () => {
     }, []);
 
     const onSubmit = useCallback(
-        (result: Cell) => {
+        (result: LedgerResult) => {
             sdk.uiEvents.emit('response', {
                 method: 'response',
                 id: requestId,
@@ -158,7 +184,7 @@ const ConnectLedgerNotification = () => {
         const handler = (options: {
             method: 'ledger';
             id?: number | undefined;
-            params: { path: number[]; transaction: LedgerTransaction };
+            params: LedgerParams;
         }) => {
             setLedgerParams(options.params!);
             setId(options.id);
@@ -24,9 +24,9 @@ import { WalletEmoji } from './shared/emoji/WalletEmoji';
 import {
     sortDerivationsByIndex,
     sortWalletsByVersion,
-    TonWalletStandard
+    TonContract
 } from '@tonkeeper/core/dist/entries/wallet';
-import { Account } from '@tonkeeper/core/dist/entries/account';
+import { Account, isAccountTonWalletStandard } from '@tonkeeper/core/dist/entries/account';
 import { AccountAndWalletBadgesGroup } from './account/AccountBadge';
 
 const Block = styled.div<{
@@ -143,7 +143,7 @@ const DropDownContainerStyle = createGlobalStyle`
 
 const WalletRow: FC<{
     account: Account;
-    wallet: TonWalletStandard;
+    wallet: TonContract;
     onClose: () => void;
 }> = ({ account, wallet, onClose }) => {
     const network = useActiveTonNetwork();
@@ -178,8 +178,8 @@ const DropDownPayload: FC<{ onClose: () => void; onCreate: () => void }> = ({
 }) => {
     const navigate = useNavigate();
     const { t } = useTranslation();
-    const accountsWallets: { wallet: TonWalletStandard; account: Account }[] =
-        useAccountsState().flatMap(a => {
+    const accountsWallets: { wallet: TonContract; account: Account }[] = useAccountsState().flatMap(
+        a => {
             if (a.type === 'ledger') {
                 return a.derivations
                     .slice()
@@ -189,10 +189,14 @@ const DropDownPayload: FC<{ onClose: () => void; onCreate: () => void }> = ({
                             ({
                                 wallet: d.tonWallets.find(w => w.id === d.activeTonWalletId)!,
                                 account: a
-                            } as { wallet: TonWalletStandard; account: Account })
+                            } as { wallet: TonContract; account: Account })
                     );
             }
 
+            if (a.type === 'watch-only' || a.type === 'ton-multisig') {
+                return [{ wallet: a.tonWallet, account: a }];
+            }
+
             return a.allTonWallets
                 .slice()
                 .sort(sortWalletsByVersion)
@@ -200,7 +204,8 @@ const DropDownPayload: FC<{ onClose: () => void; onCreate: () => void }> = ({
                     wallet: w,
                     account: a
                 }));
-        });
+        }
+    );
 
     if (!accountsWallets) {
         return null;
@@ -279,7 +284,7 @@ export const Header: FC<{ showQrScan?: boolean }> = ({ showQrScan = true }) => {
                 </TitleStyled>
             </DropDown>
 
-            {showQrScan && <ScanButton />}
+            {showQrScan && isAccountTonWalletStandard(account) && <ScanButton />}
 
             <ImportNotification isOpen={isOpen} setOpen={setOpen} />
         </Block>
@@ -941,6 +941,31 @@ export const CoinsIcon: FC<{ className?: string; color?: string }> = ({ classNam
     );
 };
 
+export const StakingIcon: FC<{ className?: string }> = ({ className }) => {
+    const theme = useTheme();
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="16"
+            height="16"
+            viewBox="0 0 16 16"
+            fill="none"
+            color={theme.iconSecondary}
+            className={className}
+        >
+            <circle cx="8" cy="8" r="6.25" stroke="currentColor" strokeWidth="1.5" />
+            <path
+                d="M10.25 5.75L5.75 10.25"
+                stroke="currentColor"
+                strokeWidth="1.5"
+                strokeLinecap="round"
+            />
+            <circle cx="6" cy="6" r="1" fill="currentColor" />
+            <circle cx="10" cy="10" r="1" fill="currentColor" />
+        </svg>
+    );
+};
+
 export const SaleBadgeIcon: FC<{ className?: string }> = ({ className }) => {
     const theme = useTheme();
     return (
@@ -1486,6 +1511,30 @@ export const EnvelopeIcon: FC<{ className?: string; color?: string }> = ({ color
     );
 };
 
+export const AddressBookIcon: FC<{ className?: string; color?: string }> = ({
+    color,
+    className
+}) => {
+    const theme = useTheme();
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="16"
+            height="16"
+            viewBox="0 0 16 16"
+            color={theme[color || 'iconSecondary']}
+            className={className}
+        >
+            <path
+                fillRule="evenodd"
+                clipRule="evenodd"
+                d="M5.2 1.25C4.0799 1.25 3.51984 1.25 3.09202 1.46799C2.7157 1.65973 2.40973 1.9657 2.21799 2.34202C2 2.76984 2 3.3299 2 4.45V11.55C2 12.6701 2 13.2302 2.21799 13.658C2.40973 14.0343 2.7157 14.3403 3.09202 14.532C3.51984 14.75 4.0799 14.75 5.2 14.75H10.8C11.9201 14.75 12.4802 14.75 12.908 14.532C13.2843 14.3403 13.5903 14.0343 13.782 13.658C14 13.2302 14 12.6701 14 11.55V4.45C14 3.3299 14 2.76984 13.782 2.34202C13.5903 1.9657 13.2843 1.65973 12.908 1.46799C12.4802 1.25 11.9201 1.25 10.8 1.25H5.2ZM8 7.75C9.10457 7.75 10 6.85457 10 5.75C10 4.64543 9.10457 3.75 8 3.75C6.89543 3.75 6 4.64543 6 5.75C6 6.85457 6.89543 7.75 8 7.75ZM4.75 11.25C4.75 9.86929 6.20507 8.75 8 8.75C9.79493 8.75 11.25 9.86929 11.25 11.25C11.25 11.6642 10.9142 12 10.5 12H5.5C5.08579 12 4.75 11.6642 4.75 11.25Z"
+                fill="currentColor"
+            />
+        </svg>
+    );
+};
+
 export const DocIcon: FC<{ className?: string; color?: string }> = ({ color, className }) => {
     const theme = useTheme();
     return (
@@ -1,5 +1,9 @@
 import { IAppSdk } from '@tonkeeper/core/dist/AppSdk';
-import { createTransferQr } from '@tonkeeper/core/dist/service/signerService';
+import {
+    createTonProofQr,
+    createTransferQr,
+    SignerMessageType
+} from '@tonkeeper/core/dist/service/signerService';
 import { FC, useCallback, useEffect, useMemo, useState } from 'react';
 import { useAppContext } from '../hooks/appContext';
 import { useAppSdk } from '../hooks/appSdk';
@@ -15,10 +19,11 @@ import { isStandardTonWallet } from '@tonkeeper/core/dist/entries/wallet';
 
 export const SignerContent: FC<{
     sdk: IAppSdk;
-    boc: string;
+    message: string;
+    messageType: SignerMessageType;
     onClose: () => void;
     onSubmit: (result: string) => void;
-}> = ({ sdk, boc, onClose, onSubmit }) => {
+}> = ({ sdk, message, messageType, onClose, onSubmit }) => {
     const wallet = useActiveWallet();
     const { t } = useTranslation();
     const { extension } = useAppContext();
@@ -27,12 +32,14 @@ export const SignerContent: FC<{
 
     const openScanner = useScanner(null, onSubmit);
 
-    const message = useMemo(() => {
+    const qrMessage = useMemo(() => {
         if (!isStandardTonWallet(wallet)) {
             throw new Error('Unexpected wallet');
         }
-        return createTransferQr(wallet.publicKey, wallet.version, boc);
-    }, [wallet, boc]);
+        return messageType === 'signProof'
+            ? createTonProofQr(wallet.publicKey, wallet.version, message)
+            : createTransferQr(wallet.publicKey, wallet.version, message);
+    }, [wallet, message, messageType]);
 
     return (
         <NotificationBlock
@@ -44,7 +51,7 @@ export const SignerContent: FC<{
         >
             <HeaderBlock title={t('import_signer')} description={t('signer_scan_tx_description')} />
             <Background extension={extension} margin>
-                <AnimatedQrCode message={message} />
+                <AnimatedQrCode message={qrMessage} />
             </Background>
             <Button primary size="large" fullWidth type="submit">
                 {t('signer_scan_result')}
@@ -56,11 +63,13 @@ export const SignerContent: FC<{
 const PairSignerNotification = () => {
     const sdk = useAppSdk();
 
-    const [boc, setBoc] = useState<string | undefined>(undefined);
+    const [params, setParams] = useState<
+        { message: string; messageType: SignerMessageType } | undefined
+    >(undefined);
     const [requestId, setId] = useState<number | undefined>(undefined);
 
     const close = useCallback(() => {
-        setBoc(undefined);
+        setParams(undefined);
         setId(undefined);
     }, []);
 
@@ -93,9 +102,9 @@ const PairSignerNotification = () => {
         const handler = (options: {
             method: 'signer';
             id?: number | undefined;
-            params: string;
+            params: { message: string; messageType: SignerMessageType };
         }) => {
-            setBoc(options.params!);
+            setParams(options.params!);
             setId(options.id);
         };
         sdk.uiEvents.on('signer', handler);
@@ -105,12 +114,20 @@ const PairSignerNotification = () => {
     }, [sdk]);
 
     const Content = useCallback(() => {
-        if (!boc || !requestId) return undefined;
-        return <SignerContent sdk={sdk} boc={boc} onClose={onCancel} onSubmit={onSubmit} />;
-    }, [sdk, boc, requestId, onCancel, onSubmit]);
+        if (!params || !requestId) return undefined;
+        return (
+            <SignerContent
+                sdk={sdk}
+                message={params.message}
+                messageType={params.messageType}
+                onClose={onCancel}
+                onSubmit={onSubmit}
+            />
+        );
+    }, [sdk, params, requestId, onCancel, onSubmit]);
 
     return (
-        <Notification isOpen={boc != null && requestId != null} handleClose={onCancel}>
+        <Notification isOpen={params != null && requestId != null} handleClose={onCancel}>
             {Content}
         </Notification>
     );
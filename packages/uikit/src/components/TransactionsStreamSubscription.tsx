@@ -0,0 +1,91 @@
+import { Query, useQueryClient } from '@tanstack/react-query';
+import {
+    AccountTransactionEvent,
+    createTonApiTransactionsSource,
+    getIncomingTransfers,
+    getTransactionAccountEvent,
+    subscribeAccountsTransactions
+} from '@tonkeeper/core/dist/service/transactionsStreamService';
+import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
+import { formatDecimals } from '@tonkeeper/core/dist/utils/balance';
+import { useEffect, useMemo } from 'react';
+import { useAppContext } from '../hooks/appContext';
+import { useAppSdk } from '../hooks/appSdk';
+import { formatter } from '../hooks/balance';
+import { useTranslation } from '../hooks/translation';
+import { QueryKey } from '../libs/queryKey';
+import { useAccountsState, useActiveTonNetwork } from '../state/wallet';
+
+const walletQueryKeys: unknown[] = [
+    QueryKey.info,
+    QueryKey.jettons,
+    QueryKey.activity,
+    QueryKey.nft,
+    QueryKey.inscriptions
+];
+
+/**
+ * Only the queries of the wallet touched by the transaction are refreshed
+ */
+const isWalletQuery = (query: Query, rawAddress: string) =>
+    query.queryKey.includes(rawAddress) &&
+    query.queryKey.some(item => walletQueryKeys.includes(item));
+
+/**
+ * Streams transactions of every wallet in the storage instead of waiting for the polling interval
+ */
+const TransactionsStreamSubscription = () => {
+    const sdk = useAppSdk();
+    const { t } = useTranslation();
+    const { api } = useAppContext();
+    const network = useActiveTonNetwork();
+    const client = useQueryClient();
+    const accounts = useAccountsState();
+
+    const addresses = useMemo(
+        () => [
+            ...new Set(accounts.flatMap(account => account.allTonWallets.map(w => w.rawAddress)))
+        ],
+        [accounts]
+    );
+
+    useEffect(() => {
+        const notifyIncoming = async (event: AccountTransactionEvent) => {
+            const accountEvent = await getTransactionAccountEvent(api, event);
+            getIncomingTransfers(accountEvent, event.accountId).forEach(transfer => {
+                const amount = formatter.format(
+                    formatDecimals(transfer.amount, transfer.decimals),
+                    {
+                        decimals: transfer.decimals
+                    }
+                );
+                const sender = transfer.sender
+                    ? transfer.sender.name ??
+                      toShortValue(formatAddress(transfer.sender.address, network))
+                    : '';
+                sdk.topMessage(
+                    t(sender ? 'stream_received_transfer_from' : 'stream_received_transfer')
+                        .replace('%{amount}', amount)
+                        .replace('%{symbol}', transfer.symbol)
+                        .replace('%{sender}', sender)
+                );
+            });
+        };
+
+        return subscribeAccountsTransactions({
+            accounts: addresses,
+            source: createTonApiTransactionsSource(api),
+            onTransaction: event => {
+                client.invalidateQueries({
+                    predicate: query => isWalletQuery(query, event.accountId)
+                });
+                client.invalidateQueries([QueryKey.dashboardData]);
+                notifyIncoming(event).catch(e => console.error(e));
+            }
+        });
+    }, [api, network, addresses, client, sdk, t]);
+
+    return null;
+};
+
+export default TransactionsStreamSubscription;
@@ -5,7 +5,7 @@ import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
 import { Account } from '@tonkeeper/core/dist/entries/account';
 import { useActiveAccount, useActiveTonNetwork } from '../../state/wallet';
 import { FC } from 'react';
-import { TonWalletStandard, WalletId } from '@tonkeeper/core/dist/entries/wallet';
+import { TonContract, WalletId } from '@tonkeeper/core/dist/entries/wallet';
 import { AccountAndWalletBadgesGroup } from './AccountBadge';
 import { useTranslation } from '../../hooks/translation';
 import styled from 'styled-components';
@@ -35,7 +35,7 @@ export const AccountAndWalletInfo: FC<
 > = props => {
     const { t } = useTranslation();
     let account: Account = useActiveAccount();
-    let wallet: TonWalletStandard = account.activeTonWallet;
+    let wallet: TonContract = account.activeTonWallet;
     const network = useActiveTonNetwork();
 
     if ('account' in props && props.account) {
@@ -35,6 +35,22 @@ export const AccountBadge: FC<
         );
     }
 
+    if (accountType === 'watch-only') {
+        return (
+            <Badge size={size} color="textSecondary" className={className}>
+                {children || 'Watch only'}
+            </Badge>
+        );
+    }
+
+    if (accountType === 'ton-multisig') {
+        return (
+            <Badge size={size} color="accentBlue" className={className}>
+                {children || 'Multisig'}
+            </Badge>
+        );
+    }
+
     return null;
 };
 
@@ -116,7 +132,11 @@ export const AccountAndWalletBadgesGroup: FC<{
         );
     }
 
-    if (account.type === 'keystone') {
+    if (
+        account.type === 'keystone' ||
+        account.type === 'watch-only' ||
+        account.type === 'ton-multisig'
+    ) {
         return <AccountBadge className={className} size={size} accountType={account.type} />;
     }
 
@@ -1,8 +1,13 @@
-import { ActionStatusEnum } from '@tonkeeper/core/dist/tonApiV2';
+import { ActionStatusEnum, EncryptedComment } from '@tonkeeper/core/dist/tonApiV2';
 import React, { FC } from 'react';
 import styled from 'styled-components';
 import { useFormatCoinValue } from '../../hooks/balance';
 import { useTranslation } from '../../hooks/translation';
+import {
+    useCanEncryptComment,
+    useDecryptedComment,
+    useUnlockEncryptedComments
+} from '../../state/encryptedComment';
 import { ListItem, ListItemPayload } from '../List';
 import { Body1, Label1 } from '../Text';
 import { ActionDate, Label, Title } from './NotificationCommon';
@@ -60,7 +65,54 @@ const LabelRight = styled(Label1)`
     overflow: hidden;
 `;
 
-export const TransferComment: FC<{ comment?: string }> = ({ comment }) => {
+const DecryptButton = styled(Label1)`
+    padding-left: 1rem;
+    cursor: pointer;
+    color: ${props => props.theme.accentBlue};
+`;
+
+const EncryptedTransferComment: FC<{ encryptedComment: EncryptedComment; sender: string }> = ({
+    encryptedComment,
+    sender
+}) => {
+    const { t } = useTranslation();
+    const canDecrypt = useCanEncryptComment();
+    const { data: decrypted, isError } = useDecryptedComment(encryptedComment, sender);
+    const { mutate: unlock, isLoading } = useUnlockEncryptedComments();
+
+    let value: React.ReactNode;
+    if (decrypted) {
+        value = <LabelRight>{decrypted}</LabelRight>;
+    } else if (isError) {
+        value = <LabelRight>{t('encrypted_comment_decrypt_error')}</LabelRight>;
+    } else if (canDecrypt) {
+        value = (
+            <DecryptButton onClick={() => !isLoading && unlock()}>
+                {t('encrypted_comment_decrypt')}
+            </DecryptButton>
+        );
+    } else {
+        value = <LabelRight>{t('encrypted_comment_unavailable')}</LabelRight>;
+    }
+
+    return (
+        <ListItem hover={false}>
+            <ListItemPayload>
+                <Label>{t('encrypted_comment')}</Label>
+                {value}
+            </ListItemPayload>
+        </ListItem>
+    );
+};
+
+/**
+ * Encrypted comment is shown when the transfer has no plain comment, it is decrypted with the salt of the sender address
+ */
+export const TransferComment: FC<{
+    comment?: string;
+    encryptedComment?: EncryptedComment;
+    sender?: string;
+}> = ({ comment, encryptedComment, sender }) => {
     const { t } = useTranslation();
 
     if (comment) {
@@ -72,6 +124,8 @@ export const TransferComment: FC<{ comment?: string }> = ({ comment }) => {
                 </ListItemPayload>
             </ListItem>
         );
+    } else if (encryptedComment && sender) {
+        return <EncryptedTransferComment encryptedComment={encryptedComment} sender={sender} />;
     } else {
         return null;
     }
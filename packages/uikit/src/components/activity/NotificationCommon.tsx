@@ -11,7 +11,7 @@ import {
 import { TronEvent, TronFee } from '@tonkeeper/core/dist/tronApi';
 import { formatDecimals } from '@tonkeeper/core/dist/utils/balance';
 import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
-import { FC, PropsWithChildren, useMemo } from 'react';
+import { FC, PropsWithChildren, ReactNode, useMemo, useState } from 'react';
 import styled from 'styled-components';
 import { useAppContext } from '../../hooks/appContext';
 import { useAppSdk } from '../../hooks/appSdk';
@@ -26,6 +26,9 @@ import { Body1, H2, Label1 } from '../Text';
 import { Button } from '../fields/Button';
 import { hexToRGBA } from '../../libs/css';
 import { useActiveTonNetwork } from '../../state/wallet';
+import { useAddressBookEntry } from '../../state/addressBook';
+import { AddressBookEntryNotification } from '../address-book/AddressBookEntryNotification';
+import { TraceNotification } from './trace/TraceNotification';
 
 export const Title = styled(H2)<{ secondary?: boolean; tertiary?: boolean }>`
     display: flex;
@@ -158,6 +161,32 @@ export const ActionRecipientAddress: FC<{ address: string; name?: string; label?
     );
 };
 
+/**
+ * Shows the address book label of the address or allows to save the address to the address book
+ */
+export const ActionAddressBookDetails: FC<{ address: string }> = ({ address }) => {
+    const { t } = useTranslation();
+    const entry = useAddressBookEntry(address);
+    const [isOpen, setIsOpen] = useState(false);
+
+    return (
+        <>
+            <ListItem onClick={() => setIsOpen(true)}>
+                <ListItemPayload>
+                    <Label>{t('address_book_title')}</Label>
+                    <Label1>{entry ? entry.label : t('address_book_add')}</Label1>
+                </ListItemPayload>
+            </ListItem>
+            <AddressBookEntryNotification
+                isOpen={isOpen}
+                entry={entry}
+                defaultAddress={address}
+                handleClose={() => setIsOpen(false)}
+            />
+        </>
+    );
+};
+
 export const ActionRecipientDetails: FC<{ recipient: AccountAddress; bounced?: boolean }> = ({
     recipient,
     bounced
@@ -180,6 +209,7 @@ export const ActionRecipientDetails: FC<{ recipient: AccountAddress; bounced?: b
                 address={formatAddress(recipient.address, network, bounced)}
                 name={recipient.name}
             />
+            <ActionAddressBookDetails address={formatAddress(recipient.address, network)} />
         </>
     );
 };
@@ -239,6 +269,7 @@ export const ActionSenderDetails: FC<{ sender: AccountAddress; bounced?: boolean
                 address={formatAddress(sender.address, network, bounced)}
                 name={sender.name}
             />
+            <ActionAddressBookDetails address={formatAddress(sender.address, network)} />
         </>
     );
 };
@@ -423,10 +454,31 @@ export const ActionDetailsBlock: FC<PropsWithChildren<{ event: AccountEvent }>>
     event,
     children
 }) => {
+    const { t } = useTranslation();
     const { config } = useAppContext();
     const url = config.transactionExplorer ?? 'https://tonviewer.com/transaction/%s';
+    const [traceId, setTraceId] = useState<string | undefined>();
     return (
-        <CommonActionDetailsBlock url={url} eventId={event.eventId}>
+        <CommonActionDetailsBlock
+            url={url}
+            eventId={event.eventId}
+            extraButton={
+                <>
+                    <Button
+                        size="large"
+                        secondary
+                        fullWidth
+                        onClick={() => setTraceId(event.eventId)}
+                    >
+                        {t('trace_show')}
+                    </Button>
+                    <TraceNotification
+                        traceId={traceId}
+                        handleClose={() => setTraceId(undefined)}
+                    />
+                </>
+            }
+        >
             {children}
         </CommonActionDetailsBlock>
     );
@@ -448,19 +500,31 @@ export const TronActionDetailsBlock: FC<PropsWithChildren<{ event: TronEvent }>>
     );
 };
 
-const CommonActionDetailsBlock: FC<PropsWithChildren<{ eventId: string; url: string }>> = ({
-    children,
-    eventId,
-    url
-}) => {
+const ButtonsBlock = styled.div`
+    width: 100%;
+    display: flex;
+    flex-direction: column;
+    gap: 0.5rem;
+`;
+
+const CommonActionDetailsBlock: FC<
+    PropsWithChildren<{ eventId: string; url: string; extraButton?: ReactNode }>
+> = ({ children, eventId, url, extraButton }) => {
     const { t } = useTranslation();
     const sdk = useAppSdk();
     return (
         <Block>
             {children}
-            <Button size="large" fullWidth onClick={() => sdk.openPage(url.replace('%s', eventId))}>
-                {t('nft_view_in_explorer')}
-            </Button>
+            <ButtonsBlock>
+                {extraButton}
+                <Button
+                    size="large"
+                    fullWidth
+                    onClick={() => sdk.openPage(url.replace('%s', eventId))}
+                >
+                    {t('nft_view_in_explorer')}
+                </Button>
+            </ButtonsBlock>
         </Block>
     );
 };
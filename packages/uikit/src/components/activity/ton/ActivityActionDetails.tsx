@@ -56,7 +56,13 @@ const TonTransferActionContent: FC<{
                 {kind === 'send' && <ActionRecipientDetails recipient={tonTransfer.recipient} />}
                 <ActionTransactionDetails eventId={event.eventId} />
                 <ActionExtraDetails extra={event.extra} />
-                <TransferComment comment={isScam ? undefined : tonTransfer.comment} />
+                {!isScam && (
+                    <TransferComment
+                        comment={tonTransfer.comment}
+                        encryptedComment={tonTransfer.encryptedComment}
+                        sender={tonTransfer.sender.address}
+                    />
+                )}
             </ListBlock>
         </ActionDetailsBlock>
     );
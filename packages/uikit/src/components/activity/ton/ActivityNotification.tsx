@@ -9,6 +9,10 @@ import {
     TonTransferActionNotification
 } from './ActivityActionDetails';
 import { ContractDeployActionDetails } from './ContractDeployAction';
+import {
+    InscriptionMintActionNotification,
+    InscriptionTransferActionNotification
+} from './InscriptionNotifications';
 import {
     JettonBurnActionNotification,
     JettonMintActionNotification,
@@ -56,6 +60,10 @@ const ActivityContent: FC<ActionData> = props => {
             return <JettonMintActionNotification {...props} />;
         case 'JettonBurn':
             return <JettonBurnActionNotification {...props} />;
+        case 'InscriptionTransfer':
+            return <InscriptionTransferActionNotification {...props} />;
+        case 'InscriptionMint':
+            return <InscriptionMintActionNotification {...props} />;
         case 'DepositStake':
             return <DepositStakeActionNotification {...props} />;
         case 'WithdrawStake':
@@ -0,0 +1,94 @@
+import { Action } from '@tonkeeper/core/dist/tonApiV2';
+import { eqAddresses } from '@tonkeeper/core/dist/utils/address';
+import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
+import { FC } from 'react';
+import { useFormatCoinValue } from '../../../hooks/balance';
+import { useTranslation } from '../../../hooks/translation';
+import { useAddressBookLabel } from '../../../state/addressBook';
+import { useActiveTonNetwork, useActiveWallet } from '../../../state/wallet';
+import { FailedNote, ReceiveActivityAction, SendActivityAction } from '../ActivityActionLayout';
+import { ActivityIcon, ReceiveIcon } from '../ActivityIcons';
+import { ColumnLayout, ErrorAction, ListItemGrid } from '../CommonAction';
+
+export const InscriptionTransferAction: FC<{ action: Action; date: string }> = ({
+    action,
+    date
+}) => {
+    const wallet = useActiveWallet();
+    const network = useActiveTonNetwork();
+    const { inscriptionTransfer } = action;
+
+    const format = useFormatCoinValue();
+
+    const isSend =
+        !!inscriptionTransfer && eqAddresses(inscriptionTransfer.sender.address, wallet.rawAddress);
+    const contactLabel = useAddressBookLabel(
+        isSend ? inscriptionTransfer?.recipient.address : inscriptionTransfer?.sender.address
+    );
+
+    if (!inscriptionTransfer) {
+        return <ErrorAction />;
+    }
+
+    const amount = format(inscriptionTransfer.amount, inscriptionTransfer.decimals);
+
+    if (isSend) {
+        return (
+            <SendActivityAction
+                amount={amount}
+                symbol={inscriptionTransfer.ticker}
+                recipient={
+                    contactLabel ??
+                    inscriptionTransfer.recipient.name ??
+                    toShortValue(formatAddress(inscriptionTransfer.recipient.address, network))
+                }
+                date={date}
+                comment={inscriptionTransfer.comment}
+                status={action.status}
+            />
+        );
+    }
+
+    return (
+        <ReceiveActivityAction
+            amount={amount}
+            symbol={inscriptionTransfer.ticker}
+            sender={
+                contactLabel ??
+                inscriptionTransfer.sender.name ??
+                toShortValue(formatAddress(inscriptionTransfer.sender.address, network))
+            }
+            isScam={inscriptionTransfer.sender.isScam}
+            date={date}
+            comment={inscriptionTransfer.comment}
+            status={action.status}
+        />
+    );
+};
+
+export const InscriptionMintAction: FC<{ action: Action; date: string }> = ({ action, date }) => {
+    const { t } = useTranslation();
+    const { inscriptionMint } = action;
+    const format = useFormatCoinValue();
+    const network = useActiveTonNetwork();
+
+    if (!inscriptionMint) {
+        return <ErrorAction />;
+    }
+    return (
+        <ListItemGrid>
+            <ActivityIcon status={action.status}>
+                <ReceiveIcon />
+            </ActivityIcon>
+            <ColumnLayout
+                title={t('transaction_type_mint')}
+                amount={<>+&thinsp;{format(inscriptionMint.amount, inscriptionMint.decimals)}</>}
+                entry={inscriptionMint.ticker}
+                address={toShortValue(formatAddress(inscriptionMint.recipient.address, network))}
+                date={date}
+                green
+            />
+            <FailedNote status={action.status} />
+        </ListItemGrid>
+    );
+};
@@ -0,0 +1,88 @@
+import { eqAddresses } from '@tonkeeper/core/dist/utils/address';
+import { FC } from 'react';
+import { useActiveWallet } from '../../../state/wallet';
+import { ListBlock } from '../../List';
+import { ActivityDetailsHeader, TransferComment } from '../ActivityDetailsLayout';
+import {
+    ActionDetailsBlock,
+    ActionExtraDetails,
+    ActionRecipientDetails,
+    ActionSenderDetails,
+    ActionTransactionDetails,
+    ErrorActivityNotification
+} from '../NotificationCommon';
+import { ActionData } from './ActivityNotification';
+
+export const InscriptionTransferActionNotification: FC<ActionData> = ({
+    action,
+    timestamp,
+    event,
+    isScam
+}) => {
+    const wallet = useActiveWallet();
+    const { inscriptionTransfer } = action;
+
+    if (!inscriptionTransfer) {
+        return <ErrorActivityNotification event={event} />;
+    }
+
+    const kind = eqAddresses(inscriptionTransfer.sender.address, wallet.rawAddress)
+        ? 'send'
+        : 'received';
+
+    return (
+        <ActionDetailsBlock event={event}>
+            <ActivityDetailsHeader
+                isScam={isScam}
+                amount={inscriptionTransfer.amount}
+                decimals={inscriptionTransfer.decimals}
+                symbol={inscriptionTransfer.ticker}
+                timestamp={timestamp}
+                kind={kind}
+                status={action.status}
+            />
+            <ListBlock margin={false} fullWidth>
+                {kind === 'send' ? (
+                    <ActionRecipientDetails recipient={inscriptionTransfer.recipient} />
+                ) : (
+                    <ActionSenderDetails sender={inscriptionTransfer.sender} />
+                )}
+                <ActionTransactionDetails eventId={event.eventId} />
+                <ActionExtraDetails extra={event.extra} />
+                <TransferComment comment={inscriptionTransfer.comment} />
+            </ListBlock>
+        </ActionDetailsBlock>
+    );
+};
+
+export const InscriptionMintActionNotification: FC<ActionData> = ({
+    action,
+    timestamp,
+    event,
+    isScam
+}) => {
+    const { inscriptionMint } = action;
+
+    if (!inscriptionMint) {
+        return <ErrorActivityNotification event={event} />;
+    }
+
+    return (
+        <ActionDetailsBlock event={event}>
+            <ActivityDetailsHeader
+                isScam={isScam}
+                amount={inscriptionMint.amount}
+                decimals={inscriptionMint.decimals}
+                symbol={inscriptionMint.ticker}
+                timestamp={timestamp}
+                kind="received"
+                status={action.status}
+            />
+            <ListBlock margin={false} fullWidth>
+                <ActionRecipientDetails recipient={inscriptionMint.recipient} />
+                <ActionTransactionDetails eventId={event.eventId} />
+                <ActionExtraDetails extra={event.extra} />
+            </ListBlock>
+        </ActionDetailsBlock>
+    );
+};
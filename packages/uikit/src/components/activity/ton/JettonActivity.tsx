@@ -19,6 +19,7 @@ import {
 import { toDexName } from '../NotificationCommon';
 import { useSwapValue } from './JettonNotifications';
 import { useActiveTonNetwork, useActiveWallet } from '../../../state/wallet';
+import { useAddressBookLabel } from '../../../state/addressBook';
 
 export interface JettonActionProps {
     action: Action;
@@ -32,18 +33,24 @@ export const JettonTransferAction: FC<{ action: Action; date: string }> = ({ act
 
     const format = useFormatCoinValue();
 
+    const isSend = jettonTransfer?.sender?.address === wallet.rawAddress;
+    const contactLabel = useAddressBookLabel(
+        isSend ? jettonTransfer?.recipient?.address : jettonTransfer?.sender?.address
+    );
+
     if (!jettonTransfer) {
         return <ErrorAction />;
     }
 
     const isScam = jettonTransfer.jetton.verification === 'blacklist';
 
-    if (jettonTransfer.sender?.address === wallet.rawAddress) {
+    if (isSend) {
         return (
             <SendActivityAction
                 amount={format(jettonTransfer.amount, jettonTransfer.jetton.decimals)}
                 symbol={jettonTransfer.jetton.symbol}
                 recipient={
+                    contactLabel ??
                     jettonTransfer.recipient?.name ??
                     toShortValue(
                         formatAddress(
@@ -65,6 +72,7 @@ export const JettonTransferAction: FC<{ action: Action; date: string }> = ({ act
             amount={format(jettonTransfer.amount, jettonTransfer.jetton.decimals)}
             symbol={jettonTransfer.jetton.symbol}
             sender={
+                contactLabel ??
                 jettonTransfer.sender?.name ??
                 toShortValue(
                     formatAddress(
@@ -405,7 +405,11 @@ export const NftItemTransferActionDetails: FC<ActionData> = ({ action, timestamp
                 )}
                 <ActionTransactionDetails eventId={event.eventId} />
                 <ActionExtraDetails extra={event.extra} />
-                <TransferComment comment={nftItemTransfer.comment} />
+                <TransferComment
+                    comment={nftItemTransfer.comment}
+                    encryptedComment={nftItemTransfer.encryptedComment}
+                    sender={nftItemTransfer.sender?.address}
+                />
             </ListBlock>
         </ActionDetailsBlock>
     );
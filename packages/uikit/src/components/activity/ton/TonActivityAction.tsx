@@ -23,6 +23,7 @@ import {
     SecondaryText
 } from '../CommonAction';
 import { ContractDeployAction } from './ContractDeployAction';
+import { InscriptionMintAction, InscriptionTransferAction } from './InscriptionActivity';
 import {
     JettonBurnAction,
     JettonMintAction,
@@ -37,6 +38,7 @@ import {
 } from './StakeActivity';
 import { SubscribeAction, UnSubscribeAction } from './SubscribeAction';
 import { useActiveTonNetwork, useActiveWallet } from '../../../state/wallet';
+import { useAddressBookLabel } from '../../../state/addressBook';
 
 const TonTransferAction: FC<{
     action: Action;
@@ -49,15 +51,21 @@ const TonTransferAction: FC<{
 
     const format = useFormatCoinValue();
 
+    const isReceive = tonTransfer?.recipient.address === wallet.rawAddress;
+    const contactLabel = useAddressBookLabel(
+        isReceive ? tonTransfer?.sender.address : tonTransfer?.recipient.address
+    );
+
     if (!tonTransfer) {
         return <ErrorAction />;
     }
 
-    if (tonTransfer.recipient.address === wallet.rawAddress) {
+    if (isReceive) {
         return (
             <ReceiveActivityAction
                 amount={format(tonTransfer.amount)}
                 sender={
+                    contactLabel ??
                     tonTransfer.sender.name ??
                     toShortValue(formatAddress(tonTransfer.sender.address, network))
                 }
@@ -74,6 +82,7 @@ const TonTransferAction: FC<{
             amount={format(tonTransfer.amount)}
             symbol={CryptoCurrency.TON}
             recipient={
+                contactLabel ??
                 tonTransfer.recipient.name ??
                 toShortValue(formatAddress(tonTransfer.recipient.address, network))
             }
@@ -240,6 +249,10 @@ export const ActivityAction: FC<{
             return <JettonBurnAction action={action} date={date} />;
         case 'JettonMint':
             return <JettonMintAction action={action} date={date} />;
+        case 'InscriptionTransfer':
+            return <InscriptionTransferAction action={action} date={date} />;
+        case 'InscriptionMint':
+            return <InscriptionMintAction action={action} date={date} />;
         case 'DepositStake':
             return <DepositStakeAction action={action} date={date} />;
         case 'WithdrawStake':
@@ -0,0 +1,319 @@
+import {
+    findTraceBounce,
+    getTraceHop,
+    getTraceTotalFees,
+    getTraceTransactionsCount,
+    TraceHop,
+    TraceHopStatus
+} from '@tonkeeper/core/dist/service/traceService';
+import { Trace } from '@tonkeeper/core/dist/tonApiV2';
+import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
+import { FC, useCallback, useState } from 'react';
+import styled, { css } from 'styled-components';
+import { useFormatCoinValue } from '../../../hooks/balance';
+import { useTranslation } from '../../../hooks/translation';
+import { useTrace } from '../../../state/trace';
+import { useActiveTonNetwork } from '../../../state/wallet';
+import { ChevronDownIcon, ChevronRightIcon } from '../../Icon';
+import { Notification } from '../../Notification';
+import { SkeletonList } from '../../Skeleton';
+import { Body2, Body3, Label2 } from '../../Text';
+
+const Wrapper = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 1rem;
+`;
+
+const Summary = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 0.25rem;
+    padding: 12px 16px;
+    border-radius: ${p => p.theme.cornerSmall};
+    background: ${p => p.theme.backgroundContent};
+`;
+
+const SummaryRow = styled.div`
+    display: flex;
+    justify-content: space-between;
+    gap: 1rem;
+
+    > ${Body2}:first-child {
+        color: ${p => p.theme.textSecondary};
+    }
+`;
+
+const BounceNote = styled(Body2)`
+    color: ${p => p.theme.accentOrange};
+`;
+
+const Muted = styled(Body2)`
+    color: ${p => p.theme.textSecondary};
+`;
+
+const HopContainer = styled.div<{ depth: number }>`
+    display: flex;
+    flex-direction: column;
+    gap: 0.5rem;
+    ${p =>
+        p.depth > 0 &&
+        css`
+            padding-left: 12px;
+            border-left: 1px solid ${p.theme.separatorCommon};
+        `}
+`;
+
+const HopCard = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 0.5rem;
+    padding: 8px 12px;
+    border-radius: ${p => p.theme.cornerExtraSmall};
+    background: ${p => p.theme.backgroundContent};
+`;
+
+const HopHeader = styled.div`
+    display: flex;
+    align-items: center;
+    gap: 0.5rem;
+    cursor: pointer;
+`;
+
+const HopTitle = styled.div`
+    display: flex;
+    flex-direction: column;
+    flex: 1;
+    min-width: 0;
+
+    > ${Body3} {
+        color: ${p => p.theme.textSecondary};
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+    }
+`;
+
+const Toggle = styled.div`
+    display: flex;
+    color: ${p => p.theme.iconSecondary};
+`;
+
+const statusColor = (status: TraceHopStatus) => {
+    switch (status) {
+        case 'success':
+            return 'accentGreen';
+        case 'bounced':
+            return 'accentOrange';
+        case 'failed':
+            return 'accentRed';
+    }
+};
+
+const StatusBadge = styled(Body3)<{ status: TraceHopStatus }>`
+    flex-shrink: 0;
+    color: ${p => p.theme[statusColor(p.status)]};
+`;
+
+const DetailRow = styled.div`
+    display: flex;
+    justify-content: space-between;
+    gap: 1rem;
+
+    > ${Body3}:first-child {
+        color: ${p => p.theme.textSecondary};
+    }
+
+    > ${Body3}:last-child {
+        text-align: right;
+        word-break: break-all;
+    }
+`;
+
+const DecodedBody = styled.pre`
+    margin: 0;
+    padding: 8px;
+    max-height: 240px;
+    overflow: auto;
+    border-radius: ${p => p.theme.cornerExtraSmall};
+    background: ${p => p.theme.backgroundContentTint};
+    color: ${p => p.theme.textSecondary};
+    font-size: 12px;
+    white-space: pre-wrap;
+    word-break: break-all;
+`;
+
+const formatExitCode = (code: number | undefined, description: string | undefined) => {
+    if (code === undefined) {
+        return '—';
+    }
+    return description ? `${code} (${description})` : String(code);
+};
+
+const TraceHopDetails: FC<{ trace: Trace; hop: TraceHop }> = ({ trace, hop }) => {
+    const { t } = useTranslation();
+    const format = useFormatCoinValue();
+    const { inMsg } = trace.transaction;
+
+    return (
+        <>
+            {hop.opCode && (
+                <DetailRow>
+                    <Body3>{t('trace_op_code')}</Body3>
+                    <Body3>{hop.opCode}</Body3>
+                </DetailRow>
+            )}
+            {inMsg && (
+                <DetailRow>
+                    <Body3>{t('trace_value')}</Body3>
+                    <Body3>{format(inMsg.value)} TON</Body3>
+                </DetailRow>
+            )}
+            <DetailRow>
+                <Body3>{t('trace_compute_phase')}</Body3>
+                <Body3>
+                    {hop.computeSkipReason
+                        ? t('trace_compute_skipped').replace('%{reason}', hop.computeSkipReason)
+                        : formatExitCode(hop.computeExitCode, hop.computeExitDescription)}
+                </Body3>
+            </DetailRow>
+            <DetailRow>
+                <Body3>{t('trace_action_phase')}</Body3>
+                <Body3>{formatExitCode(hop.actionResultCode, hop.actionResultDescription)}</Body3>
+            </DetailRow>
+            <DetailRow>
+                <Body3>{t('trace_fees')}</Body3>
+                <Body3>{format(hop.fees)} TON</Body3>
+            </DetailRow>
+            {hop.isBounceReceipt && (
+                <DetailRow>
+                    <Body3>{t('trace_bounce')}</Body3>
+                    <Body3>{t('trace_bounce_received')}</Body3>
+                </DetailRow>
+            )}
+            {inMsg?.decodedBody != null && (
+                <DecodedBody>{JSON.stringify(inMsg.decodedBody, null, 2)}</DecodedBody>
+            )}
+        </>
+    );
+};
+
+const TraceHopView: FC<{ trace: Trace; depth: number }> = ({ trace, depth }) => {
+    const { t } = useTranslation();
+    const network = useActiveTonNetwork();
+    const [isExpanded, setIsExpanded] = useState(false);
+    const hop = getTraceHop(trace.transaction);
+    const { account } = trace.transaction;
+
+    const address = toShortValue(formatAddress(account.address, network, !account.isWallet));
+    const contract = [account.name ?? address, trace.interfaces.join(', ')]
+        .filter(Boolean)
+        .join(' · ');
+
+    return (
+        <HopContainer depth={depth}>
+            <HopCard>
+                <HopHeader onClick={() => setIsExpanded(value => !value)}>
+                    <Toggle>{isExpanded ? <ChevronDownIcon /> : <ChevronRightIcon />}</Toggle>
+                    <HopTitle>
+                        <Label2>{hop.opName ?? hop.opCode ?? t('trace_external_message')}</Label2>
+                        <Body3>{contract}</Body3>
+                    </HopTitle>
+                    <StatusBadge status={hop.status}>{t(`trace_status_${hop.status}`)}</StatusBadge>
+                </HopHeader>
+                {isExpanded && <TraceHopDetails trace={trace} hop={hop} />}
+            </HopCard>
+            {trace.children?.map(child => (
+                <TraceHopView key={child.transaction.hash} trace={child} depth={depth + 1} />
+            ))}
+        </HopContainer>
+    );
+};
+
+const TraceSummary: FC<{ trace: Trace }> = ({ trace }) => {
+    const { t } = useTranslation();
+    const format = useFormatCoinValue();
+    const network = useActiveTonNetwork();
+    const bounce = findTraceBounce(trace);
+    const bounceHop = bounce ? getTraceHop(bounce.transaction) : undefined;
+
+    return (
+        <Summary>
+            <SummaryRow>
+                <Body2>{t('trace_transactions')}</Body2>
+                <Body2>{getTraceTransactionsCount(trace)}</Body2>
+            </SummaryRow>
+            <SummaryRow>
+                <Body2>{t('trace_total_fees')}</Body2>
+                <Body2>{format(getTraceTotalFees(trace))} TON</Body2>
+            </SummaryRow>
+            {bounce && bounceHop && (
+                <BounceNote>
+                    {t('trace_bounced_at')
+                        .replace(
+                            '%{address}',
+                            toShortValue(
+                                formatAddress(
+                                    bounce.transaction.account.address,
+                                    network,
+                                    !bounce.transaction.account.isWallet
+                                )
+                            )
+                        )
+                        .replace(
+                            '%{code}',
+                            formatExitCode(
+                                bounceHop.computeExitCode,
+                                bounceHop.computeExitDescription
+                            )
+                        )}
+                </BounceNote>
+            )}
+        </Summary>
+    );
+};
+
+const TraceContent: FC<{ traceId: string }> = ({ traceId }) => {
+    const { t } = useTranslation();
+    const { data: trace, isLoading, isError } = useTrace(traceId);
+
+    if (isLoading) {
+        return <SkeletonList size={3} />;
+    }
+    if (isError || !trace) {
+        return <Muted>{t('trace_unavailable')}</Muted>;
+    }
+
+    return (
+        <Wrapper>
+            <TraceSummary trace={trace} />
+            <TraceHopView trace={trace} depth={0} />
+        </Wrapper>
+    );
+};
+
+/**
+ * Transaction tree of the event, each hop can be expanded to see the phases results and decoded body
+ */
+export const TraceNotification: FC<{
+    traceId: string | undefined;
+    handleClose: () => void;
+}> = ({ traceId, handleClose }) => {
+    const { t } = useTranslation();
+
+    const Content = useCallback(
+        () => (traceId ? <TraceContent traceId={traceId} /> : undefined),
+        [traceId]
+    );
+
+    return (
+        <Notification
+            isOpen={traceId !== undefined}
+            handleClose={handleClose}
+            title={t('trace_title')}
+            hideButton
+        >
+            {Content}
+        </Notification>
+    );
+};
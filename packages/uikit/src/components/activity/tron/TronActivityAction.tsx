@@ -1,3 +1,4 @@
+import { BLOCKCHAIN_NAME } from '@tonkeeper/core/dist/entries/crypto';
 import {
     ContractDeployAction,
     ReceiveTRC20Action,
@@ -8,6 +9,7 @@ import { toShortValue } from '@tonkeeper/core/dist/utils/common';
 import React, { FC } from 'react';
 import { useFormatCoinValue } from '../../../hooks/balance';
 import { useTranslation } from '../../../hooks/translation';
+import { useAddressBookLabel } from '../../../state/addressBook';
 import {
     ReceiveActivityAction,
     SendActivityAction,
@@ -20,12 +22,13 @@ const ReceiveTRC20: FC<{
     date: string;
 }> = ({ receiveTRC20, date }) => {
     const format = useFormatCoinValue();
+    const contactLabel = useAddressBookLabel(receiveTRC20.sender, BLOCKCHAIN_NAME.TRON);
 
     return (
         <ReceiveActivityAction
             amount={format(receiveTRC20.amount, receiveTRC20.token.decimals)}
             symbol={receiveTRC20.token.symbol}
-            sender={toShortValue(receiveTRC20.sender)}
+            sender={contactLabel ?? toShortValue(receiveTRC20.sender)}
             date={date}
         />
     );
@@ -36,12 +39,13 @@ const SendTRC20: FC<{
     date: string;
 }> = ({ sendTRC20, date }) => {
     const format = useFormatCoinValue();
+    const contactLabel = useAddressBookLabel(sendTRC20.recipient, BLOCKCHAIN_NAME.TRON);
 
     return (
         <SendActivityAction
             amount={format(sendTRC20.amount, sendTRC20.token.decimals)}
             symbol={sendTRC20.token.symbol}
-            recipient={toShortValue(sendTRC20.recipient)}
+            recipient={contactLabel ?? toShortValue(sendTRC20.recipient)}
             date={date}
         />
     );
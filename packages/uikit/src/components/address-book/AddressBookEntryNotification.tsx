@@ -0,0 +1,270 @@
+import { AddressBookAddress, AddressBookEntry } from '@tonkeeper/core/dist/entries/addressBook';
+import { BLOCKCHAIN_NAME } from '@tonkeeper/core/dist/entries/crypto';
+import {
+    createAddressBookEntry,
+    resolveAddressBookDns
+} from '@tonkeeper/core/dist/service/addressBookService';
+import {
+    formatAddress,
+    seeIfValidTonAddress,
+    seeIfValidTronAddress
+} from '@tonkeeper/core/dist/utils/common';
+import { Address } from '@ton/core';
+import { useMutation } from '@tanstack/react-query';
+import React, { FC, useCallback, useState } from 'react';
+import styled from 'styled-components';
+import { useAppContext } from '../../hooks/appContext';
+import { useAppSdk } from '../../hooks/appSdk';
+import { useTranslation } from '../../hooks/translation';
+import { useDeleteAddressBookEntry, useSaveAddressBookEntry } from '../../state/addressBook';
+import { useActiveTonNetwork } from '../../state/wallet';
+import { seeIfInvalidDns } from '../transfer/RecipientView';
+import { Notification, NotificationBlock } from '../Notification';
+import { Body2 } from '../Text';
+import { Button, ButtonRow } from '../fields/Button';
+import { Input, TextArea } from '../fields/Input';
+
+const Block = styled.div`
+    display: flex;
+    gap: 1rem;
+    flex-direction: column;
+    width: 100%;
+`;
+
+const AddressRow = styled.div`
+    display: flex;
+    gap: 0.5rem;
+    align-items: flex-start;
+
+    > button {
+        margin-top: 0.5rem;
+    }
+`;
+
+const ErrorText = styled(Body2)`
+    color: ${p => p.theme.accentRed};
+`;
+
+/**
+ * Address input value is a TON or TRON address or a TON DNS name
+ */
+const toInputValue = (item: AddressBookAddress, network: ReturnType<typeof useActiveTonNetwork>) =>
+    item.dns ??
+    (item.blockchain === BLOCKCHAIN_NAME.TON ? formatAddress(item.address, network) : item.address);
+
+const useParseAddresses = () => {
+    const { api } = useAppContext();
+
+    return useMutation<AddressBookAddress[], Error, string[]>(async values => {
+        const result: AddressBookAddress[] = [];
+        for (const raw of values) {
+            const value = raw.trim();
+            if (!value) continue;
+
+            if (seeIfValidTronAddress(value)) {
+                result.push({ blockchain: BLOCKCHAIN_NAME.TRON, address: value });
+                continue;
+            }
+
+            if (seeIfValidTonAddress(value)) {
+                result.push({
+                    blockchain: BLOCKCHAIN_NAME.TON,
+                    address: Address.parse(value).toRawString()
+                });
+                continue;
+            }
+
+            if (seeIfInvalidDns(value)) {
+                throw new Error(`Invalid address: ${value}`);
+            }
+
+            const dns = value.toLowerCase();
+            result.push({
+                blockchain: BLOCKCHAIN_NAME.TON,
+                address: await resolveAddressBookDns(api, dns),
+                dns
+            });
+        }
+        return result;
+    });
+};
+
+const AddressBookEntryContent: FC<{
+    entry?: AddressBookEntry;
+    defaultAddress?: string;
+    onClose: () => void;
+}> = ({ entry, defaultAddress, onClose }) => {
+    const { t } = useTranslation();
+    const sdk = useAppSdk();
+    const network = useActiveTonNetwork();
+
+    const [label, setLabel] = useState(entry?.label ?? '');
+    const [tags, setTags] = useState(entry?.tags.join(', ') ?? '');
+    const [note, setNote] = useState(entry?.note ?? '');
+    const [addresses, setAddresses] = useState<string[]>(
+        entry ? entry.addresses.map(item => toInputValue(item, network)) : [defaultAddress ?? '']
+    );
+
+    const { mutateAsync: parseAddresses, isLoading: isParsing, error, reset } = useParseAddresses();
+    const { mutateAsync: save, isLoading: isSaving } = useSaveAddressBookEntry();
+    const { mutateAsync: remove, isLoading: isRemoving } = useDeleteAddressBookEntry();
+
+    const isLoading = isParsing || isSaving || isRemoving;
+    const isValid = label.trim().length > 0 && addresses.some(item => item.trim().length > 0);
+
+    const onSubmit: React.FormEventHandler<HTMLFormElement> = async e => {
+        e.preventDefault();
+        if (!isValid) return;
+
+        reset();
+        try {
+            const value = {
+                label: label.trim(),
+                tags: tags
+                    .split(',')
+                    .map(tag => tag.trim())
+                    .filter(Boolean),
+                note: note.trim() || undefined,
+                addresses: await parseAddresses(addresses)
+            };
+            await save(entry ? { ...entry, ...value } : createAddressBookEntry(value));
+            onClose();
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    const onDelete = async () => {
+        if (!entry) return;
+        const confirmed = await sdk.confirm(
+            t('address_book_delete_confirm').replace('%{name}', entry.label)
+        );
+        if (confirmed) {
+            await remove(entry.id);
+            onClose();
+        }
+    };
+
+    return (
+        <NotificationBlock onSubmit={onSubmit}>
+            <Block>
+                <Input
+                    label={t('address_book_label')}
+                    value={label}
+                    onChange={setLabel}
+                    disabled={isLoading}
+                />
+                {addresses.map((value, index) => (
+                    <AddressRow key={index}>
+                        <Input
+                            label={t('address_book_address')}
+                            value={value}
+                            onChange={newValue => {
+                                reset();
+                                setAddresses(items =>
+                                    items.map((item, i) => (i === index ? newValue : item))
+                                );
+                            }}
+                            disabled={isLoading}
+                        />
+                        {addresses.length > 1 && (
+                            <Button
+                                type="button"
+                                secondary
+                                size="small"
+                                disabled={isLoading}
+                                onClick={() =>
+                                    setAddresses(items => items.filter((_, i) => i !== index))
+                                }
+                            >
+                                {t('address_book_remove_address')}
+                            </Button>
+                        )}
+                    </AddressRow>
+                ))}
+                <Button
+                    type="button"
+                    secondary
+                    size="small"
+                    fitContent
+                    disabled={isLoading}
+                    onClick={() => setAddresses(items => items.concat(''))}
+                >
+                    {t('address_book_add_address')}
+                </Button>
+                {error && <ErrorText>{t('address_book_invalid_address')}</ErrorText>}
+                <Input
+                    label={t('address_book_tags')}
+                    value={tags}
+                    onChange={setTags}
+                    disabled={isLoading}
+                    helpText={t('address_book_tags_hint')}
+                />
+                <TextArea
+                    label={t('address_book_note')}
+                    value={note}
+                    onChange={setNote}
+                    disabled={isLoading}
+                />
+            </Block>
+            <ButtonRow>
+                {entry && (
+                    <Button
+                        type="button"
+                        size="large"
+                        secondary
+                        loading={isRemoving}
+                        disabled={isLoading}
+                        onClick={onDelete}
+                    >
+                        {t('address_book_delete')}
+                    </Button>
+                )}
+                <Button
+                    type="submit"
+                    size="large"
+                    primary
+                    fullWidth
+                    loading={isParsing || isSaving}
+                    disabled={isLoading || !isValid}
+                >
+                    {t('save')}
+                </Button>
+            </ButtonRow>
+        </NotificationBlock>
+    );
+};
+
+/**
+ * Creates a new entry when the entry is not passed
+ */
+export const AddressBookEntryNotification: FC<{
+    isOpen: boolean;
+    entry?: AddressBookEntry;
+    defaultAddress?: string;
+    handleClose: () => void;
+}> = ({ isOpen, entry, defaultAddress, handleClose }) => {
+    const { t } = useTranslation();
+
+    const Content = useCallback(
+        (onClose: () => void) => (
+            <AddressBookEntryContent
+                entry={entry}
+                defaultAddress={defaultAddress}
+                onClose={onClose}
+            />
+        ),
+        [entry, defaultAddress]
+    );
+
+    return (
+        <Notification
+            isOpen={isOpen}
+            handleClose={handleClose}
+            title={entry ? t('address_book_edit_title') : t('address_book_add_title')}
+            hideButton
+        >
+            {Content}
+        </Notification>
+    );
+};
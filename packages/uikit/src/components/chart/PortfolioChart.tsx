@@ -0,0 +1,29 @@
+import { ChartPeriod } from '@tonkeeper/core/dist/service/chartService';
+import { FC, useState } from 'react';
+import { useTranslation } from '../../hooks/translation';
+import { usePortfolioChart } from '../../state/chart';
+import { ValueChart } from './ValueChart';
+
+/**
+ * Wallet value over time, balances are reconstructed from the history and priced with the chart rates
+ */
+export const PortfolioChart: FC<{ height?: number; className?: string }> = ({
+    height,
+    className
+}) => {
+    const { t } = useTranslation();
+    const [period, setPeriod] = useState(ChartPeriod.month);
+    const { data, isLoading } = usePortfolioChart(period);
+
+    return (
+        <ValueChart
+            className={className}
+            title={t('chart_portfolio')}
+            points={data}
+            isLoading={isLoading}
+            period={period}
+            onPeriodChange={setPeriod}
+            height={height}
+        />
+    );
+};
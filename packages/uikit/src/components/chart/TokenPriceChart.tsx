@@ -0,0 +1,28 @@
+import { ChartPeriod } from '@tonkeeper/core/dist/service/chartService';
+import { FC, useState } from 'react';
+import { useTranslation } from '../../hooks/translation';
+import { useChartRates } from '../../state/chart';
+import { ValueChart } from './ValueChart';
+
+/**
+ * @param token "TON" or the jetton master address
+ */
+export const TokenPriceChart: FC<{ token: string; className?: string }> = ({
+    token,
+    className
+}) => {
+    const { t } = useTranslation();
+    const [period, setPeriod] = useState(ChartPeriod.week);
+    const { data, isLoading } = useChartRates(token, period);
+
+    return (
+        <ValueChart
+            className={className}
+            title={t('chart_price')}
+            points={data}
+            isLoading={isLoading}
+            period={period}
+            onPeriodChange={setPeriod}
+        />
+    );
+};
@@ -0,0 +1,168 @@
+import {
+    ChartPeriod,
+    chartPeriods,
+    ChartPoint,
+    getChartChange
+} from '@tonkeeper/core/dist/service/chartService';
+import { FC, useState } from 'react';
+import { Area, AreaChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import styled, { useTheme } from 'styled-components';
+import { useAppContext } from '../../hooks/appContext';
+import { formatFiatCurrency } from '../../hooks/balance';
+import { useTranslation } from '../../hooks/translation';
+import { useDateTimeFormat } from '../../hooks/useDateTimeFormat';
+import { Skeleton } from '../shared/Skeleton';
+import { Tabs } from '../Tabs';
+import { Body2, Body3, Label1, Num2 } from '../Text';
+
+const ChartBlock = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 0.75rem;
+    margin-bottom: 2rem;
+
+    * {
+        outline: none;
+    }
+`;
+
+const ChartHeader = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 0.25rem;
+`;
+
+const ChangeRow = styled.div`
+    display: flex;
+    gap: 0.5rem;
+
+    > ${Body3} {
+        color: ${p => p.theme.textSecondary};
+    }
+`;
+
+const Change = styled(Body2)<{ negative: boolean }>`
+    color: ${p => (p.negative ? p.theme.accentRed : p.theme.accentGreen)};
+`;
+
+const Empty = styled.div<{ height: number }>`
+    height: ${p => p.height}px;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    color: ${p => p.theme.textSecondary};
+`;
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const usePointDateFormat = (period: ChartPeriod) => {
+    const formatDate = useDateTimeFormat();
+    return (timestamp: number) =>
+        formatDate(timestamp, {
+            inputUnit: 'seconds',
+            day: 'numeric',
+            month: 'short',
+            ...(period === ChartPeriod.day || period === ChartPeriod.week
+                ? { hour: 'numeric', minute: 'numeric' }
+                : { year: 'numeric' })
+        });
+};
+
+/**
+ * Fiat value chart with the period selector, hovered point value replaces the latest one in the header
+ */
+export const ValueChart: FC<{
+    title?: string;
+    points: ChartPoint[] | undefined;
+    isLoading: boolean;
+    period: ChartPeriod;
+    onPeriodChange: (period: ChartPeriod) => void;
+    height?: number;
+    className?: string;
+}> = ({ title, points, isLoading, period, onPeriodChange, height = 160, className }) => {
+    const { t } = useTranslation();
+    const { fiat } = useAppContext();
+    const theme = useTheme();
+    const formatPointDate = usePointDateFormat(period);
+    const [activeIndex, setActiveIndex] = useState<number | undefined>();
+
+    const data = points ?? [];
+    const active =
+        (activeIndex !== undefined ? data[activeIndex] : undefined) ?? data[data.length - 1];
+    const change = getChartChange(data, active);
+    const color = change && change.diff < 0 ? theme.accentRed : theme.accentGreen;
+
+    return (
+        <ChartBlock className={className}>
+            <ChartHeader>
+                {title && <Label1>{title}</Label1>}
+                {active ? (
+                    <Num2>{formatFiatCurrency(fiat, active.value)}</Num2>
+                ) : (
+                    <Skeleton width="120px" />
+                )}
+                {active && change && (
+                    <ChangeRow>
+                        <Change negative={change.diff < 0}>
+                            {formatPercent(change.percent)}&nbsp;·&nbsp;
+                            {formatFiatCurrency(fiat, change.diff)}
+                        </Change>
+                        <Body3>
+                            {activeIndex !== undefined
+                                ? formatPointDate(active.timestamp)
+                                : t(`chart_period_${period}`)}
+                        </Body3>
+                    </ChangeRow>
+                )}
+            </ChartHeader>
+            {data.length > 1 ? (
+                <ResponsiveContainer width="100%" height={height}>
+                    <AreaChart
+                        data={data}
+                        margin={{ top: 4, right: 0, bottom: 4, left: 0 }}
+                        onMouseMove={state =>
+                            setActiveIndex(
+                                state.isTooltipActive ? state.activeTooltipIndex : undefined
+                            )
+                        }
+                        onMouseLeave={() => setActiveIndex(undefined)}
+                    >
+                        <defs>
+                            <linearGradient id="value-chart-fill" x1="0" y1="0" x2="0" y2="1">
+                                <stop offset="0%" stopColor={color} stopOpacity={0.24} />
+                                <stop offset="100%" stopColor={color} stopOpacity={0} />
+                            </linearGradient>
+                        </defs>
+                        <XAxis dataKey="timestamp" hide />
+                        <YAxis dataKey="value" domain={['dataMin', 'dataMax']} hide />
+                        <Tooltip
+                            content={() => null}
+                            cursor={{ stroke: theme.iconSecondary, strokeWidth: 1 }}
+                        />
+                        <Area
+                            type="monotone"
+                            dataKey="value"
+                            stroke={color}
+                            strokeWidth={2}
+                            fill="url(#value-chart-fill)"
+                            isAnimationActive={false}
+                        />
+                    </AreaChart>
+                </ResponsiveContainer>
+            ) : (
+                <Empty height={height}>
+                    {isLoading ? (
+                        <Skeleton width="100%" height={`${height}px`} />
+                    ) : (
+                        t('chart_no_data')
+                    )}
+                </Empty>
+            )}
+            <Tabs
+                active={period}
+                values={chartPeriods.map(id => ({ id, name: t(`chart_period_${id}`) }))}
+                setActive={onPeriodChange}
+            />
+        </ChartBlock>
+    );
+};
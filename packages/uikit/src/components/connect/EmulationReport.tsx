@@ -0,0 +1,157 @@
+import {
+    hasEmulationReportWarnings,
+    TonConnectEmulationReport
+} from '@tonkeeper/core/dist/service/tonConnect/emulationReportService';
+import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
+import BigNumber from 'bignumber.js';
+import { FC } from 'react';
+import styled from 'styled-components';
+import { useFormatCoinValue } from '../../hooks/balance';
+import { useTranslation } from '../../hooks/translation';
+import { useActiveTonNetwork } from '../../state/wallet';
+import { ListBlock } from '../List';
+import { Body2, Body3, Label2 } from '../Text';
+
+const ReportBlock = styled(ListBlock)`
+    width: 100%;
+    margin-bottom: 1rem;
+`;
+
+const ReportRow = styled.div`
+    box-sizing: border-box;
+    display: flex;
+    justify-content: space-between;
+    align-items: flex-start;
+    gap: 1rem;
+    padding: 8px 12px;
+    width: 100%;
+
+    &:not(:first-child) {
+        border-top: 1px solid ${p => p.theme.separatorCommon};
+    }
+
+    > ${Body2} {
+        color: ${p => p.theme.textSecondary};
+    }
+`;
+
+const ValuesColumn = styled.div`
+    display: flex;
+    flex-direction: column;
+    align-items: flex-end;
+    text-align: right;
+`;
+
+const Amount = styled(Label2)<{ positive: boolean }>`
+    color: ${p => (p.positive ? p.theme.accentGreen : p.theme.textPrimary)};
+`;
+
+const Warning = styled(Body3)`
+    color: ${p => p.theme.accentOrange};
+`;
+
+const Secondary = styled(Body3)`
+    color: ${p => p.theme.textSecondary};
+`;
+
+export const EmulationReport: FC<{ report: TonConnectEmulationReport }> = ({ report }) => {
+    const { t } = useTranslation();
+    const format = useFormatCoinValue();
+    const network = useActiveTonNetwork();
+
+    const shortAddress = (address: string) => toShortValue(formatAddress(address, network));
+
+    const bounced = report.destinations.filter(item => item.bounced);
+    const uninitialized = report.destinations.filter(item => item.uninitialized);
+    const hasWarnings = hasEmulationReportWarnings(report);
+
+    return (
+        <ReportBlock noUserSelect>
+            {report.balanceChanges.length > 0 && (
+                <ReportRow>
+                    <Body2>{t('emulation_report_balance_changes')}</Body2>
+                    <ValuesColumn>
+                        {report.balanceChanges.map(change => {
+                            const amount = new BigNumber(change.weiAmount);
+                            return (
+                                <Amount key={change.asset} positive={amount.gt(0)}>
+                                    {amount.gt(0) ? '+' : '−'}&nbsp;
+                                    {format(amount.abs(), change.decimals)} {change.symbol}
+                                </Amount>
+                            );
+                        })}
+                    </ValuesColumn>
+                </ReportRow>
+            )}
+            {report.nftsOut.length > 0 && (
+                <ReportRow>
+                    <Body2>{t('emulation_report_nfts_out')}</Body2>
+                    <ValuesColumn>
+                        {report.nftsOut.map(nft => (
+                            <Label2 key={nft.address}>
+                                {nft.name ?? shortAddress(nft.address)}
+                            </Label2>
+                        ))}
+                    </ValuesColumn>
+                </ReportRow>
+            )}
+            {report.jettonsAtRisk.length > 0 && (
+                <ReportRow>
+                    <Body2>{t('emulation_report_jettons_at_risk')}</Body2>
+                    <ValuesColumn>
+                        {report.jettonsAtRisk.map(jetton => (
+                            <Label2 key={jetton.address}>{jetton.symbol}</Label2>
+                        ))}
+                    </ValuesColumn>
+                </ReportRow>
+            )}
+            {report.contractDeploys.length > 0 && (
+                <ReportRow>
+                    <Body2>{t('emulation_report_contract_deploys')}</Body2>
+                    <ValuesColumn>
+                        {report.contractDeploys.map(deploy => (
+                            <Label2 key={deploy.address}>{shortAddress(deploy.address)}</Label2>
+                        ))}
+                    </ValuesColumn>
+                </ReportRow>
+            )}
+            {hasWarnings ? (
+                <ReportRow>
+                    <Body2>{t('emulation_report_warnings')}</Body2>
+                    <ValuesColumn>
+                        {report.transferAllRemainingBalance && (
+                            <Warning>{t('emulation_report_transfer_all_balance')}</Warning>
+                        )}
+                        {report.nftsOut.length > 0 && (
+                            <Warning>{t('emulation_report_nfts_out_warning')}</Warning>
+                        )}
+                        {report.jettonsAtRisk.length > 0 && (
+                            <Warning>{t('emulation_report_jettons_at_risk_warning')}</Warning>
+                        )}
+                        {bounced.map(item => (
+                            <Warning key={`bounced-${item.address}`}>
+                                {t('emulation_report_destination_bounced').replace(
+                                    '%{address}',
+                                    item.name ?? shortAddress(item.address)
+                                )}
+                            </Warning>
+                        ))}
+                        {uninitialized.map(item => (
+                            <Warning key={`uninit-${item.address}`}>
+                                {t('emulation_report_destination_uninitialized').replace(
+                                    '%{address}',
+                                    item.name ?? shortAddress(item.address)
+                                )}
+                            </Warning>
+                        ))}
+                    </ValuesColumn>
+                </ReportRow>
+            ) : (
+                <ReportRow>
+                    <Body2>{t('emulation_report_warnings')}</Body2>
+                    <Secondary>{t('emulation_report_no_warnings')}</Secondary>
+                </ReportRow>
+            )}
+        </ReportBlock>
+    );
+};
@@ -11,7 +11,7 @@ import { useAppSdk } from '../../hooks/appSdk';
 import { useTranslation } from '../../hooks/translation';
 import { TxConfirmationCustomError } from '../../libs/errors/TxConfirmationCustomError';
 import { QueryKey } from '../../libs/queryKey';
-import { useIsActiveWalletLedger } from '../../state/ledger';
+import { useIsActiveAccountWatchOnly } from '../../state/watchOnly';
 import { CheckmarkCircleIcon, ExclamationMarkCircleIcon } from '../Icon';
 import { Notification, NotificationBlock } from '../Notification';
 import { Body2, Body3, H2, Label2 } from '../Text';
@@ -76,7 +76,7 @@ const ConnectContent: FC<{
     manifest: DAppManifest;
     handleClose: (result?: ConnectItemReply[], manifest?: DAppManifest) => void;
 }> = ({ params, manifest, origin, handleClose }) => {
-    const activeIsLedger = useIsActiveWalletLedger();
+    const activeIsWatchOnly = useIsActiveAccountWatchOnly();
     const sdk = useAppSdk();
     const [done, setDone] = useState(false);
 
@@ -110,9 +110,6 @@ const ConnectContent: FC<{
         /* eslint-stub */
     }
 
-    const tonProofRequested = params.items.some(item => item.name === 'ton_proof');
-    const cantConnectLedger = activeIsLedger && tonProofRequested;
-
     return (
         <NotificationBlock onSubmit={onSubmit}>
             <ImageRow>
@@ -151,14 +148,14 @@ const ConnectContent: FC<{
                         fullWidth
                         primary
                         loading={isLoading}
-                        disabled={isLoading || cantConnectLedger}
+                        disabled={isLoading || activeIsWatchOnly}
                         type="submit"
                     >
                         {t('ton_login_connect_button')}
                     </Button>
                 )}
-                {cantConnectLedger && (
-                    <LedgerError>{t('ledger_operation_not_supported')}</LedgerError>
+                {activeIsWatchOnly && (
+                    <LedgerError>{t('watch_only_connect_unavailable')}</LedgerError>
                 )}
             </>
             <Notes>{t('ton_login_notice')}</Notes>
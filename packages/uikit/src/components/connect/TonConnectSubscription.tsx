@@ -1,11 +1,13 @@
 import { useMutation } from '@tanstack/react-query';
-import { TonConnectAppRequest } from '@tonkeeper/core/dist/entries/tonConnect';
+import { SignDataResponse, TonConnectAppRequest } from '@tonkeeper/core/dist/entries/tonConnect';
 import {
     replyBadRequestResponse,
-    replyDisconnectResponse
+    replyDisconnectResponse,
+    replySignDataBadRequestResponse
 } from '@tonkeeper/core/dist/service/tonConnect/actionService';
 import { subscribeTonConnect } from '@tonkeeper/core/dist/service/tonConnect/httpBridge';
-import { useCallback, useEffect, useState } from 'react';
+import { parseSignDataRequestPayload } from '@tonkeeper/core/dist/service/tonConnect/signDataService';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useSendNotificationAnalytics } from '../../hooks/amplitude';
 import { useAppSdk } from '../../hooks/appSdk';
 import {
@@ -14,10 +16,20 @@ import {
     useDisconnectTonConnectApp,
     useTonConnectLastEventId
 } from '../../state/tonConnect';
-import { TonTransactionNotification } from './TonTransactionNotification';
-import { SendTransactionAppRequest, useResponseSendMutation } from './connectHook';
+import {
+    TonTransactionCloseDetails,
+    TonTransactionNotification
+} from './TonTransactionNotification';
+import { TonSignDataNotification } from './TonSignDataNotification';
+import {
+    SendTransactionAppRequest,
+    SignDataAppRequest,
+    useResponseSendMutation,
+    useResponseSignDataMutation
+} from './connectHook';
 
 import { useActiveWallet, useMutateActiveTonWallet } from '../../state/wallet';
+import { useDevSettings } from '../../state/dev';
 
 const useUnSupportMethodMutation = () => {
     return useMutation<void, Error, TonConnectAppRequest>(replyBadRequestResponse);
@@ -25,20 +37,40 @@ const useUnSupportMethodMutation = () => {
 
 const TonConnectSubscription = () => {
     const [request, setRequest] = useState<SendTransactionAppRequest | undefined>(undefined);
+    const [signDataRequest, setSignDataRequest] = useState<SignDataAppRequest | undefined>(
+        undefined
+    );
 
     const sdk = useAppSdk();
     const wallet = useActiveWallet();
     const { data: appConnections } = useAppTonConnectConnections();
     const { data: lastEventId } = useTonConnectLastEventId();
+    const { data: devSettings } = useDevSettings();
+    const bridges = devSettings?.tonConnectBridges;
 
     const { mutateAsync: disconnect } = useDisconnectTonConnectApp();
     const { mutate: badRequestResponse } = useUnSupportMethodMutation();
     const { mutateAsync: responseSendAsync } = useResponseSendMutation();
+    const { mutateAsync: responseSignDataAsync } = useResponseSignDataMutation();
 
     useSendNotificationAnalytics(request?.connection?.manifest);
     const { mutateAsync: setActiveWallet } = useMutateActiveTonWallet();
 
     useEffect(() => {
+        const activateConnectionWallet = (params: TonConnectAppRequest, show: () => void) => {
+            const walletToActivate = appConnections?.find(i =>
+                i.connections.some(c => c.clientSessionId === params.connection.clientSessionId)
+            );
+
+            if (walletToActivate) {
+                setActiveWallet(walletToActivate.wallet.rawAddress).then(() =>
+                    setTimeout(show, 100)
+                );
+            } else {
+                setTimeout(show, 100);
+            }
+        };
+
         const handleMessage = (params: TonConnectAppRequest) => {
             switch (params.request.method) {
                 case 'disconnect': {
@@ -53,25 +85,22 @@ const TonConnectSubscription = () => {
                         id: params.request.id,
                         payload: JSON.parse(params.request.params[0])
                     };
-                    const walletToActivate = appConnections?.find(i =>
-                        i.connections.some(
-                            c => c.clientSessionId === params.connection.clientSessionId
-                        )
-                    );
-
-                    if (walletToActivate) {
-                        setActiveWallet(walletToActivate.wallet.rawAddress).then(() =>
-                            setTimeout(() => {
-                                setRequest(value);
-                            }, 100)
-                        );
-                    } else {
-                        setTimeout(() => {
-                            setRequest(value);
-                        }, 100);
+                    return activateConnectionWallet(params, () => setRequest(value));
+                }
+                case 'signData': {
+                    setSignDataRequest(undefined);
+                    let payload;
+                    try {
+                        payload = parseSignDataRequestPayload(params.request.params[0]);
+                    } catch (e) {
+                        return replySignDataBadRequestResponse(params, (e as Error).message);
                     }
-
-                    return;
+                    const value = {
+                        connection: params.connection,
+                        id: params.request.id,
+                        payload
+                    };
+                    return activateConnectionWallet(params, () => setSignDataRequest(value));
                 }
                 default: {
                     return badRequestResponse(params);
@@ -102,19 +131,33 @@ const TonConnectSubscription = () => {
             storage: sdk.storage,
             handleMessage,
             connections: appConnections?.flatMap(i => i.connections),
-            lastEventId
+            lastEventId,
+            bridges
         });
 
         return () => {
             close();
         };
-    }, [sdk, appConnections, lastEventId, disconnect, setRequest, badRequestResponse]);
+    }, [
+        sdk,
+        appConnections,
+        lastEventId,
+        bridges,
+        disconnect,
+        setRequest,
+        setSignDataRequest,
+        badRequestResponse
+    ]);
 
     const handleClose = useCallback(
-        async (boc?: string) => {
+        async (boc?: string, details?: TonTransactionCloseDetails) => {
             if (!request) return;
             try {
-                await responseSendAsync({ request, boc });
+                await responseSendAsync({
+                    request,
+                    boc,
+                    error: details?.error
+                });
             } finally {
                 setRequest(undefined);
             }
@@ -122,6 +165,31 @@ const TonConnectSubscription = () => {
         [request, responseSendAsync, setRequest]
     );
 
+    const signDataParams = useMemo(
+        () =>
+            signDataRequest
+                ? {
+                      origin:
+                          signDataRequest.connection.webViewUrl ??
+                          signDataRequest.connection.manifest.url,
+                      payload: signDataRequest.payload
+                  }
+                : null,
+        [signDataRequest]
+    );
+
+    const handleSignDataClose = useCallback(
+        async (result?: SignDataResponse) => {
+            if (!signDataRequest) return;
+            try {
+                await responseSignDataAsync({ request: signDataRequest, result });
+            } finally {
+                setSignDataRequest(undefined);
+            }
+        },
+        [signDataRequest, responseSignDataAsync, setSignDataRequest]
+    );
+
     useEffect(() => {
         return tonConnectAppManuallyDisconnected$.subscribe(connection => {
             const connectionsToDisconnect = Array.isArray(connection) ? connection : [connection];
@@ -140,6 +208,7 @@ const TonConnectSubscription = () => {
                 params={request?.payload ?? null}
                 handleClose={handleClose}
             />
+            <TonSignDataNotification params={signDataParams} handleClose={handleSignDataClose} />
         </>
     );
 };
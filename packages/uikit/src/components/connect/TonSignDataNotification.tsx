@@ -0,0 +1,281 @@
+import { useMutation } from '@tanstack/react-query';
+import { SignDataRequestPayload, SignDataResponse } from '@tonkeeper/core/dist/entries/tonConnect';
+import {
+    checkSignDataRequestPayloadOrDie,
+    isSignDataSupported,
+    toSignDataResponse,
+    tonConnectSignDataPayload
+} from '@tonkeeper/core/dist/service/tonConnect/signDataService';
+import { getServerTime } from '@tonkeeper/core/dist/service/transfer/common';
+import { FC, useCallback, useEffect } from 'react';
+import styled from 'styled-components';
+import { useAppContext } from '../../hooks/appContext';
+import { useAppSdk } from '../../hooks/appSdk';
+import { useTranslation } from '../../hooks/translation';
+import { TxConfirmationCustomError } from '../../libs/errors/TxConfirmationCustomError';
+import { signDataOver } from '../../state/mnemonic';
+import { useCheckTouchId } from '../../state/password';
+import {
+    useActiveAccount,
+    useActiveStandardTonWallet,
+    useActiveTonNetwork
+} from '../../state/wallet';
+import { AccountAndWalletInfo } from '../account/AccountAndWalletInfo';
+import { CheckmarkCircleIcon, ExclamationMarkCircleIcon } from '../Icon';
+import {
+    Notification,
+    NotificationBlock,
+    NotificationFooter,
+    NotificationFooterPortal
+} from '../Notification';
+import { Body2, Body3, Label2 } from '../Text';
+import { Button } from '../fields/Button';
+import { ResultButton } from '../transfer/common';
+
+export interface SignDataParams {
+    origin: string;
+    payload: SignDataRequestPayload;
+}
+
+const ButtonRowStyled = styled.div`
+    display: flex;
+    gap: 1rem;
+    width: 100%;
+
+    & > * {
+        flex: 1;
+    }
+`;
+
+const SubTitle = styled(Body2)`
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    color: ${props => props.theme.textSecondary};
+    text-align: center;
+`;
+
+const PayloadLabel = styled(Label2)`
+    display: block;
+    margin-bottom: 0.5rem;
+`;
+
+const PayloadBlock = styled.pre`
+    box-sizing: border-box;
+    width: 100%;
+    max-height: 240px;
+    overflow: auto;
+    margin: 0;
+    padding: 12px 16px;
+
+    white-space: pre-wrap;
+    word-break: break-all;
+    font-family: ${props => props.theme.fontMono};
+    font-size: 14px;
+    line-height: 20px;
+
+    color: ${props => props.theme.textPrimary};
+    background: ${props => props.theme.backgroundContent};
+    border-radius: ${props => props.theme.cornerSmall};
+`;
+
+const Warning = styled(Body3)`
+    display: block;
+    margin-top: 0.5rem;
+    color: ${props => props.theme.accentOrange};
+`;
+
+const ErrorText = styled(Body2)`
+    color: ${p => p.theme.accentRed};
+`;
+
+const PayloadWrapper = styled.div`
+    width: 100%;
+`;
+
+/**
+ * Host of the dApp origin, the raw origin is shown when it is not a valid url
+ */
+const getOriginHost = (origin: string) => {
+    try {
+        return new URL(origin).host;
+    } catch (e) {
+        return origin;
+    }
+};
+
+const useSignDataMutation = (params: SignDataParams) => {
+    const account = useActiveAccount();
+    const wallet = useActiveStandardTonWallet();
+    const network = useActiveTonNetwork();
+    const sdk = useAppSdk();
+    const { api } = useAppContext();
+    const { t } = useTranslation();
+    const { mutateAsync: checkTouchId } = useCheckTouchId();
+
+    return useMutation<SignDataResponse, Error>(async () => {
+        checkSignDataRequestPayloadOrDie(params.payload, wallet.rawAddress, network);
+
+        const timestamp = await getServerTime(api);
+        const data = tonConnectSignDataPayload(
+            timestamp,
+            params.origin,
+            wallet.rawAddress,
+            params.payload
+        );
+
+        return toSignDataResponse(signDataOver(sdk, account.id, t, checkTouchId), data);
+    });
+};
+
+const SignDataPayloadView: FC<{ payload: SignDataRequestPayload }> = ({ payload }) => {
+    const { t } = useTranslation();
+
+    switch (payload.type) {
+        case 'text':
+            return (
+                <PayloadWrapper>
+                    <PayloadLabel>{t('sign_data_text')}</PayloadLabel>
+                    <PayloadBlock>{payload.text}</PayloadBlock>
+                </PayloadWrapper>
+            );
+        case 'binary':
+            return (
+                <PayloadWrapper>
+                    <PayloadLabel>{t('sign_data_binary')}</PayloadLabel>
+                    <PayloadBlock>{payload.bytes}</PayloadBlock>
+                    <Warning>{t('sign_data_binary_warning')}</Warning>
+                </PayloadWrapper>
+            );
+        case 'cell':
+            return (
+                <PayloadWrapper>
+                    <PayloadLabel>{t('sign_data_schema')}</PayloadLabel>
+                    <PayloadBlock>{payload.schema}</PayloadBlock>
+                    <PayloadLabel>{t('sign_data_cell')}</PayloadLabel>
+                    <PayloadBlock>{payload.cell}</PayloadBlock>
+                    <Warning>{t('sign_data_binary_warning')}</Warning>
+                </PayloadWrapper>
+            );
+    }
+};
+
+const SignDataContent: FC<{
+    params: SignDataParams;
+    handleClose: (result?: SignDataResponse) => void;
+}> = ({ params, handleClose }) => {
+    const sdk = useAppSdk();
+    const { t } = useTranslation();
+    const account = useActiveAccount();
+    const { mutateAsync, isLoading, error, data: result } = useSignDataMutation(params);
+
+    useEffect(() => {
+        if (sdk.twaExpand) {
+            sdk.twaExpand();
+        }
+        sdk.hapticNotification('success');
+    }, []);
+
+    const onSubmit = async () => {
+        try {
+            const response = await mutateAsync();
+            sdk.hapticNotification('success');
+            setTimeout(() => handleClose(response), 300);
+        } catch (e) {
+            setTimeout(() => handleClose(), 3000);
+            console.error(e);
+        }
+    };
+
+    const domain = getOriginHost(params.origin);
+
+    const isSupported = isSignDataSupported(account, params.payload);
+
+    return (
+        <NotificationBlock>
+            <SubTitle>
+                {t('sign_data_caption').replace('%{name}', domain)}
+                <AccountAndWalletInfo />
+            </SubTitle>
+            <SignDataPayloadView payload={params.payload} />
+            {!isSupported && (
+                <ErrorText>
+                    {account.type === 'ledger'
+                        ? t('sign_data_ledger_not_supported')
+                        : account.type === 'keystone'
+                        ? t('sign_data_keystone_cell_only')
+                        : t('sign_data_not_supported')}
+                </ErrorText>
+            )}
+            <NotificationFooterPortal>
+                <NotificationFooter>
+                    {error ? (
+                        <ResultButton>
+                            <ExclamationMarkCircleIcon />
+                            <Label2>
+                                {error instanceof TxConfirmationCustomError
+                                    ? error.message
+                                    : t('error_occurred')}
+                            </Label2>
+                        </ResultButton>
+                    ) : result !== undefined ? (
+                        <ResultButton done>
+                            <CheckmarkCircleIcon />
+                            <Label2>{t('ton_login_success')}</Label2>
+                        </ResultButton>
+                    ) : (
+                        <ButtonRowStyled>
+                            <Button
+                                size="large"
+                                type="button"
+                                loading={isLoading}
+                                disabled={isLoading}
+                                onClick={() => handleClose()}
+                            >
+                                {t('notifications_alert_cancel')}
+                            </Button>
+                            <Button
+                                size="large"
+                                type="button"
+                                primary
+                                loading={isLoading}
+                                disabled={isLoading || !isSupported}
+                                onClick={onSubmit}
+                            >
+                                {t('sign_data_sign_button')}
+                            </Button>
+                        </ButtonRowStyled>
+                    )}
+                </NotificationFooter>
+            </NotificationFooterPortal>
+        </NotificationBlock>
+    );
+};
+
+export const TonSignDataNotification: FC<{
+    params: SignDataParams | null;
+    handleClose: (result?: SignDataResponse) => void;
+}> = ({ params, handleClose }) => {
+    const { t } = useTranslation();
+
+    const Content = useCallback(() => {
+        if (!params) return undefined;
+        return (
+            <SignDataContent
+                params={params}
+                handleClose={result => (params != null ? handleClose(result) : undefined)}
+            />
+        );
+    }, [params, handleClose]);
+
+    return (
+        <Notification
+            isOpen={params != null}
+            handleClose={() => handleClose()}
+            title={t('sign_data_title')}
+            hideButton
+        >
+            {Content}
+        </Notification>
+    );
+};
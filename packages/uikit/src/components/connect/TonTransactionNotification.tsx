@@ -1,5 +1,6 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { TonConnectTransactionPayload } from '@tonkeeper/core/dist/entries/tonConnect';
+import { buildTonConnectEmulationReport } from '@tonkeeper/core/dist/service/tonConnect/emulationReportService';
 import {
     ConnectTransferError,
     EstimateData,
@@ -30,8 +31,16 @@ import { H2, Label2, Label3 } from '../Text';
 import { Button } from '../fields/Button';
 import { ResultButton } from '../transfer/common';
 import { EmulationList } from './EstimationLayout';
-import { useActiveStandardTonWallet, useAccountsState, useActiveAccount } from '../../state/wallet';
+import { EmulationReport } from './EmulationReport';
+import {
+    useActiveStandardTonWallet,
+    useAccountsState,
+    useActiveTonWalletStandardAccount
+} from '../../state/wallet';
 import { LedgerError } from '@tonkeeper/core/dist/errors/LedgerError';
+import { LedgerBatchError } from '@tonkeeper/core/dist/errors/LedgerBatchError';
+import { SpendingPolicyError } from '@tonkeeper/core/dist/errors/SpendingPolicyError';
+import { spendingPolicyViolationMessages } from '../../state/spendingPolicy';
 import { AccountAndWalletInfo } from '../account/AccountAndWalletInfo';
 
 const ButtonGap = styled.div`
@@ -55,17 +64,29 @@ const ButtonRowStyled = styled.div`
     }
 `;
 
+export interface TonTransactionCloseDetails {
+    /**
+     * Send error, Ledger may fail after some of the messages of the request are sent one by one
+     */
+    error?: unknown;
+}
+
+export type TonTransactionCloseHandler = (
+    result?: string,
+    details?: TonTransactionCloseDetails
+) => void;
+
 const useSendMutation = (params: TonConnectTransactionPayload, waitInvalidation?: boolean) => {
-    const account = useActiveAccount();
+    const account = useActiveTonWalletStandardAccount();
     const sdk = useAppSdk();
     const { api } = useAppContext();
     const client = useQueryClient();
     const { mutateAsync: checkTouchId } = useCheckTouchId();
 
-    return useMutation<string, Error>(async () => {
-        const signer = await getSigner(sdk, account.id, checkTouchId);
+    return useMutation<string[], Error>(async () => {
+        const signer = await getSigner(sdk, account.id, checkTouchId, api);
 
-        const boc = await sendTonConnectTransfer(api, account, params, signer);
+        const bocs = await sendTonConnectTransfer(api, account, params, signer);
 
         const invalidationPromise = client.invalidateQueries(
             anyOfKeysParts(account.id, account.activeTonWallet.id)
@@ -73,7 +94,7 @@ const useSendMutation = (params: TonConnectTransactionPayload, waitInvalidation?
         if (waitInvalidation) {
             await invalidationPromise;
         }
-        return boc;
+        return bocs;
     });
 };
 
@@ -151,7 +172,7 @@ const NotificationIssue: FC<{
 
 const ConnectContent: FC<{
     params: TonConnectTransactionPayload;
-    handleClose: (result?: string) => void;
+    handleClose: TonTransactionCloseHandler;
     waitInvalidation?: boolean;
 }> = ({ params, handleClose, waitInvalidation }) => {
     const sdk = useAppSdk();
@@ -176,11 +197,11 @@ const ConnectContent: FC<{
 
     const onSubmit = async () => {
         try {
-            const result = await mutateAsync();
+            const bocs = await mutateAsync();
             sdk.hapticNotification('success');
-            setTimeout(() => handleClose(result), 300);
+            setTimeout(() => handleClose(bocs[0]), 300);
         } catch (e) {
-            setTimeout(() => handleClose(), 3000);
+            setTimeout(() => handleClose(undefined, { error: e }), 3000);
             console.error(e);
         }
     };
@@ -199,6 +220,7 @@ const ConnectContent: FC<{
     return (
         <NotificationBlock>
             <EmulationList isError={isError} estimate={estimate} />
+            {estimate?.report && <EmulationReport report={estimate.report} />}
             <ButtonGap />
             <NotificationFooterPortal>
                 <NotificationFooter>
@@ -207,6 +229,18 @@ const ConnectContent: FC<{
                             <ExclamationMarkCircleIconStyled />
                             <Label2>{t('error_occurred')}</Label2>
                             {shouldUpdateLedger && <Label3>{t('update_ledger_error')}</Label3>}
+                            {sendError instanceof SpendingPolicyError && (
+                                <Label3>
+                                    {t(spendingPolicyViolationMessages[sendError.violation])}
+                                </Label3>
+                            )}
+                            {sendError instanceof LedgerBatchError && (
+                                <Label3>
+                                    {t('ledger_batch_partially_sent')
+                                        .replace('%{sent}', String(sendError.sentCount))
+                                        .replace('%{total}', String(sendError.total))}
+                                </Label3>
+                            )}
                         </ResultButtonErrored>
                     ) : done ? (
                         <ResultButton done>
@@ -244,13 +278,19 @@ const ConnectContent: FC<{
 
 const useEstimation = (params: TonConnectTransactionPayload, errorFetched: boolean) => {
     const { api } = useAppContext();
-    const account = useActiveAccount();
+    const account = useActiveTonWalletStandardAccount();
 
     return useQuery<EstimateData, Error>(
         [QueryKey.estimate, params],
         async () => {
             const accountEvent = await estimateTonConnectTransfer(api, account, params);
-            return { accountEvent };
+            return {
+                accountEvent,
+                report: buildTonConnectEmulationReport(
+                    account.activeTonWallet.rawAddress,
+                    accountEvent
+                )
+            };
         },
         { enabled: errorFetched }
     );
@@ -288,7 +328,7 @@ const NotificationTitleWithWalletName: FC<{ onClose: () => void }> = ({ onClose
 
 export const TonTransactionNotification: FC<{
     params: TonConnectTransactionPayload | null;
-    handleClose: (result?: string) => void;
+    handleClose: TonTransactionCloseHandler;
     waitInvalidation?: boolean;
 }> = ({ params, handleClose, waitInvalidation }) => {
     const { t } = useTranslation();
@@ -302,7 +342,9 @@ export const TonTransactionNotification: FC<{
                 )}
                 <ConnectContent
                     params={params}
-                    handleClose={boc => (params != null ? handleClose(boc) : undefined)}
+                    handleClose={(boc, details) =>
+                        params != null ? handleClose(boc, details) : undefined
+                    }
                     waitInvalidation={waitInvalidation}
                 />
             </>
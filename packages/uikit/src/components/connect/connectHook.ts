@@ -2,14 +2,19 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import {
     ConnectItemReply,
     DAppManifest,
+    SignDataRequestPayload,
+    SignDataResponse,
     TonConnectTransactionPayload
 } from '@tonkeeper/core/dist/entries/tonConnect';
+import { LedgerBatchError } from '@tonkeeper/core/dist/errors/LedgerBatchError';
 import { parseTonTransfer } from '@tonkeeper/core/dist/service/deeplinkingService';
+import { getTonConnectBridges } from '@tonkeeper/core/dist/service/devStorage';
 import {
     connectRejectResponse,
     parseTonConnect,
     saveWalletTonConnect,
     sendTransactionErrorResponse,
+    sendTransactionPartialErrorResponse,
     sendTransactionSuccessResponse
 } from '@tonkeeper/core/dist/service/tonConnect/connectService';
 import {
@@ -17,6 +22,10 @@ import {
     TonConnectParams
 } from '@tonkeeper/core/dist/service/tonConnect/connectionService';
 import { sendEventToBridge } from '@tonkeeper/core/dist/service/tonConnect/httpBridge';
+import {
+    signDataErrorResponse,
+    signDataSuccessResponse
+} from '@tonkeeper/core/dist/service/tonConnect/signDataService';
 import { useAppSdk } from '../../hooks/appSdk';
 import { useTranslation } from '../../hooks/translation';
 import { QueryKey } from '../../libs/queryKey';
@@ -82,6 +91,8 @@ export const useResponseConnectionMutation = () => {
                 return;
             }
 
+            const [bridge] = await getTonConnectBridges(sdk.storage);
+
             if (replyItems && manifest) {
                 const response = await saveWalletTonConnect({
                     storage: sdk.storage,
@@ -89,13 +100,15 @@ export const useResponseConnectionMutation = () => {
                     manifest,
                     params,
                     replyItems,
-                    appVersion: sdk.version
+                    appVersion: sdk.version,
+                    bridgeUrl: bridge.url
                 });
 
                 await sendEventToBridge({
                     response,
                     sessionKeyPair: params.sessionKeyPair,
-                    clientSessionId: params.clientSessionId
+                    clientSessionId: params.clientSessionId,
+                    bridgeUrl: bridge.url
                 });
 
                 await client.invalidateQueries([QueryKey.tonConnectConnection]);
@@ -104,7 +117,8 @@ export const useResponseConnectionMutation = () => {
                 await sendEventToBridge({
                     response: connectRejectResponse(),
                     sessionKeyPair: params.sessionKeyPair,
-                    clientSessionId: params.clientSessionId
+                    clientSessionId: params.clientSessionId,
+                    bridgeUrl: bridge.url
                 });
             }
 
@@ -122,19 +136,55 @@ export interface SendTransactionAppRequest {
 export interface ResponseSendProps {
     request: SendTransactionAppRequest;
     boc?: string;
+    error?: unknown;
 }
 
+const getSendTransactionResponse = ({ request: { id }, boc, error }: ResponseSendProps) => {
+    if (error instanceof LedgerBatchError) {
+        return sendTransactionPartialErrorResponse(id, error);
+    }
+    return boc ? sendTransactionSuccessResponse(id, boc) : sendTransactionErrorResponse(id);
+};
+
 export const useResponseSendMutation = () => {
-    return useMutation<undefined, Error, ResponseSendProps>(
-        async ({ request: { connection, id }, boc }) => {
-            const response = boc
-                ? sendTransactionSuccessResponse(id, boc)
-                : sendTransactionErrorResponse(id);
+    return useMutation<undefined, Error, ResponseSendProps>(async props => {
+        const { connection } = props.request;
+        const response = getSendTransactionResponse(props);
+
+        await sendEventToBridge({
+            response,
+            sessionKeyPair: connection.sessionKeyPair,
+            clientSessionId: connection.clientSessionId,
+            bridgeUrl: connection.bridgeUrl
+        });
+
+        return undefined;
+    });
+};
+
+export interface SignDataAppRequest {
+    id: string;
+    connection: AccountConnection;
+    payload: SignDataRequestPayload;
+}
+
+export interface ResponseSignDataProps {
+    request: SignDataAppRequest;
+    result?: SignDataResponse;
+}
+
+export const useResponseSignDataMutation = () => {
+    return useMutation<undefined, Error, ResponseSignDataProps>(
+        async ({ request: { connection, id }, result }) => {
+            const response = result
+                ? signDataSuccessResponse(id, result)
+                : signDataErrorResponse(id);
 
             await sendEventToBridge({
                 response,
                 sessionKeyPair: connection.sessionKeyPair,
-                clientSessionId: connection.clientSessionId
+                clientSessionId: connection.clientSessionId,
+                bridgeUrl: connection.bridgeUrl
             });
 
             return undefined;
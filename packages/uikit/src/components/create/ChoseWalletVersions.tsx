@@ -8,6 +8,7 @@ import {
     walletVersionText
 } from '@tonkeeper/core/dist/entries/wallet';
 import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
+import { isAccountTonWalletStandard } from '@tonkeeper/core/dist/entries/account';
 import React, { FC, useEffect, useLayoutEffect, useState } from 'react';
 import { useAccountState, useStandardTonWalletVersions } from '../../state/wallet';
 import { SkeletonList } from '../Skeleton';
@@ -87,7 +88,11 @@ export const ChoseWalletVersions: FC<{
     useLayoutEffect(() => {
         if (wallets) {
             if (accountState) {
-                return setCheckedVersions(accountState.allTonWallets.map(w => w.version));
+                return setCheckedVersions(
+                    isAccountTonWalletStandard(accountState)
+                        ? accountState.allTonWallets.map(w => w.version)
+                        : []
+                );
             }
 
             const versionsToCheck = wallets
@@ -63,6 +63,61 @@ export const ImportIcon = () => {
     );
 };
 
+export const WatchOnlyIcon = () => {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="28"
+            height="28"
+            viewBox="0 0 28 28"
+            fill="none"
+        >
+            <path
+                opacity="0.32"
+                d="M14 17.5015C15.933 17.5015 17.5 15.9345 17.5 14.0015C17.5 12.0685 15.933 10.5015 14 10.5015C12.067 10.5015 10.5 12.0685 10.5 14.0015C10.5 15.9345 12.067 17.5015 14 17.5015Z"
+                fill="currentColor"
+            />
+            <path
+                fillRule="evenodd"
+                clipRule="evenodd"
+                d="M14 5.50146C8.41958 5.50146 4.31283 9.27473 2.61542 11.9417C1.79486 13.2309 1.79486 14.772 2.61542 16.0612C4.31283 18.7282 8.41958 22.5015 14 22.5015C19.5804 22.5015 23.6872 18.7282 25.3846 16.0612C26.2051 14.772 26.2051 13.2309 25.3846 11.9417C23.6872 9.27473 19.5804 5.50146 14 5.50146ZM14 19.5015C17.0376 19.5015 19.5 17.0391 19.5 14.0015C19.5 10.9639 17.0376 8.50146 14 8.50146C10.9624 8.50146 8.5 10.9639 8.5 14.0015C8.5 17.0391 10.9624 19.5015 14 19.5015Z"
+                fill="currentColor"
+            />
+        </svg>
+    );
+};
+
+export const MultisigIcon = () => {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="28"
+            height="28"
+            viewBox="0 0 28 28"
+            fill="none"
+        >
+            <path
+                opacity="0.32"
+                d="M19.5 12.5C21.7091 12.5 23.5 10.7091 23.5 8.5C23.5 6.29086 21.7091 4.5 19.5 4.5C17.2909 4.5 15.5 6.29086 15.5 8.5C15.5 10.7091 17.2909 12.5 19.5 12.5Z"
+                fill="currentColor"
+            />
+            <path
+                opacity="0.32"
+                d="M13 23.5C13 20.4624 15.9101 18 19.5 18C23.0899 18 26 20.4624 26 23.5H13Z"
+                fill="currentColor"
+            />
+            <path
+                d="M9.5 12.5C11.7091 12.5 13.5 10.7091 13.5 8.5C13.5 6.29086 11.7091 4.5 9.5 4.5C7.29086 4.5 5.5 6.29086 5.5 8.5C5.5 10.7091 7.29086 12.5 9.5 12.5Z"
+                fill="currentColor"
+            />
+            <path
+                d="M2 23.5C2 19.9101 5.35786 17 9.5 17C13.6421 17 17 19.9101 17 23.5H2Z"
+                fill="currentColor"
+            />
+        </svg>
+    );
+};
+
 // TODO: Update icon
 export const SignerIcon: FC<{ size?: number }> = ({ size = 28 }) => {
     return (
@@ -13,7 +13,9 @@ import {
     KeystoneIcon,
     LedgerIcon,
     RightIcon,
-    SignerIcon
+    MultisigIcon,
+    SignerIcon,
+    WatchOnlyIcon
 } from './ImportIcons';
 
 const Title = styled(H2)`
@@ -100,6 +102,54 @@ export const ImportNotification: FC<{
                             <RightIcon />
                         </ButtonIcon>
                     </ButtonBlock>
+                    <ButtonBlock
+                        onClick={() => {
+                            onClose(() => onImport(AppRoute.import + ImportRoute.backup));
+                        }}
+                    >
+                        <ButtonIcon>
+                            <ImportIcon />
+                        </ButtonIcon>
+                        <ColumnTextStyled
+                            text={t('wallet_backup_import_title')}
+                            secondary={t('wallet_backup_import_subtitle')}
+                        />
+                        <ButtonIcon>
+                            <RightIcon />
+                        </ButtonIcon>
+                    </ButtonBlock>
+                    <ButtonBlock
+                        onClick={() => {
+                            onClose(() => onImport(AppRoute.import + ImportRoute.watchOnly));
+                        }}
+                    >
+                        <ButtonIcon>
+                            <WatchOnlyIcon />
+                        </ButtonIcon>
+                        <ColumnTextStyled
+                            text={t('watch_only_import_title')}
+                            secondary={t('watch_only_import_subtitle')}
+                        />
+                        <ButtonIcon>
+                            <RightIcon />
+                        </ButtonIcon>
+                    </ButtonBlock>
+                    <ButtonBlock
+                        onClick={() => {
+                            onClose(() => onImport(AppRoute.import + ImportRoute.multisig));
+                        }}
+                    >
+                        <ButtonIcon>
+                            <MultisigIcon />
+                        </ButtonIcon>
+                        <ColumnTextStyled
+                            text={t('multisig_import_title')}
+                            secondary={t('multisig_import_subtitle')}
+                        />
+                        <ButtonIcon>
+                            <RightIcon />
+                        </ButtonIcon>
+                    </ButtonBlock>
                     {hideSigner === true ? null : (
                         <ButtonBlock
                             onClick={() => {
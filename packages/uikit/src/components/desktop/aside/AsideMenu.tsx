@@ -303,7 +303,11 @@ export const AsideMenuAccount: FC<{ account: Account; isSelected: boolean }> = (
         );
     }
 
-    if (account.type === 'keystone') {
+    if (
+        account.type === 'keystone' ||
+        account.type === 'watch-only' ||
+        account.type === 'ton-multisig'
+    ) {
         return (
             <AsideMenuItem
                 isSelected={isSelected}
@@ -2,6 +2,7 @@ import styled from 'styled-components';
 import { AsideMenuItem } from '../../shared/AsideItem';
 import { Body2, Label2 } from '../../Text';
 import {
+    AddressBookIcon,
     AppearanceIcon,
     BankIcon,
     CodeIcon,
@@ -112,6 +113,14 @@ export const PreferencesAsideMenu = () => {
                         </AsideMenuItemStyled>
                     )}
                 </NavLink>
+                <NavLink to={AppRoute.settings + SettingsRoute.addressBook}>
+                    {({ isActive }) => (
+                        <AsideMenuItemStyled isSelected={isActive}>
+                            <AddressBookIcon />
+                            <Label2>{t('address_book_title')}</Label2>
+                        </AsideMenuItemStyled>
+                    )}
+                </NavLink>
                 <NavLink to={AppRoute.settings + SettingsRoute.pro}>
                     {({ isActive }) => (
                         <AsideMenuItemStyled isSelected={isActive}>
@@ -10,10 +10,13 @@ import {
     SaleBadgeIcon,
     SettingsSmoothIcon,
     SparkIcon,
+    StakingIcon,
     SwapIcon
 } from '../../Icon';
 import { Label2 } from '../../Text';
 import { AsideMenuItem } from '../../shared/AsideItem';
+import { useIsActiveAccountWatchOnly } from '../../../state/watchOnly';
+import { useActiveMultisigAccount } from '../../../state/multisig';
 
 const WalletAsideContainer = styled.div`
     padding: 0.5rem;
@@ -42,6 +45,8 @@ const SwapIconStyled = styled(SwapIcon)`
 
 export const WalletAsideMenu = () => {
     const { t } = useTranslation();
+    const isWatchOnly = useIsActiveAccountWatchOnly();
+    const multisigAccount = useActiveMultisigAccount();
     const location = useLocation();
 
     const isCoinPageOpened = location.pathname.startsWith(AppRoute.coins);
@@ -80,11 +85,31 @@ export const WalletAsideMenu = () => {
                     </AsideMenuItemStyled>
                 )}
             </NavLink>
-            <NavLink to={AppRoute.swap}>
+            {multisigAccount && (
+                <NavLink to={AppRoute.multisig}>
+                    {({ isActive }) => (
+                        <AsideMenuItemStyled isSelected={isActive}>
+                            <ClockSmoothIcon />
+                            <Label2>{t('multisig_orders_title')}</Label2>
+                        </AsideMenuItemStyled>
+                    )}
+                </NavLink>
+            )}
+            {!isWatchOnly && (
+                <NavLink to={AppRoute.swap}>
+                    {({ isActive }) => (
+                        <AsideMenuItemStyled isSelected={isActive}>
+                            <SwapIconStyled />
+                            <Label2>{t('wallet_swap')}</Label2>
+                        </AsideMenuItemStyled>
+                    )}
+                </NavLink>
+            )}
+            <NavLink to={AppRoute.staking}>
                 {({ isActive }) => (
                     <AsideMenuItemStyled isSelected={isActive}>
-                        <SwapIconStyled />
-                        <Label2>{t('wallet_swap')}</Label2>
+                        <StakingIcon />
+                        <Label2>{t('staking_title')}</Label2>
                     </AsideMenuItemStyled>
                 )}
             </NavLink>
@@ -20,6 +20,7 @@ import { Skeleton } from '../../shared/Skeleton';
 import { useWalletTotalBalance } from '../../../state/asset';
 import { hexToRGBA } from '../../../libs/css';
 import { useActiveTonNetwork } from '../../../state/wallet';
+import { useIsActiveAccountWatchOnly } from '../../../state/watchOnly';
 import { Network } from '@tonkeeper/core/dist/entries/network';
 
 const DesktopHeaderStyled = styled.div`
@@ -119,6 +120,18 @@ const TestnetBadge = styled(Link)`
     ${Body2Class};
 `;
 
+const WatchOnlyBadge = styled.div<{ beforeTestnet: boolean }>`
+    background: ${p => p.theme.backgroundContentTint};
+    color: ${p => p.theme.textSecondary};
+    padding: 4px 8px;
+    border-radius: ${p => p.theme.corner2xSmall};
+    margin-left: 10px;
+    margin-right: ${p => (p.beforeTestnet ? '0' : 'auto')};
+    cursor: default;
+
+    ${Body2Class};
+`;
+
 const DesktopHeaderPayload = () => {
     usePreFetchRates();
     const { fiat } = useAppContext();
@@ -128,6 +141,7 @@ const DesktopHeaderPayload = () => {
     const { data: buy } = useTonendpointBuyMethods();
     const { t } = useTranslation();
     const network = useActiveTonNetwork();
+    const isWatchOnly = useIsActiveAccountWatchOnly();
 
     return (
         <DesktopHeaderStyled>
@@ -138,6 +152,14 @@ const DesktopHeaderPayload = () => {
                     <Num2>{formatFiatCurrency(fiat, balance || 0)}</Num2>
                 </BalanceContainer>
             )}
+            {isWatchOnly && (
+                <WatchOnlyBadge
+                    title={t('watch_only_notice')}
+                    beforeTestnet={network === Network.TESTNET}
+                >
+                    {t('watch_only_badge')}
+                </WatchOnlyBadge>
+            )}
             {network === Network.TESTNET && (
                 <TestnetBadge to={AppRoute.settings + SettingsRoute.dev}>Testnet</TestnetBadge>
             )}
@@ -145,6 +167,7 @@ const DesktopHeaderPayload = () => {
                 <ButtonsContainer>
                     <ButtonStyled
                         size="small"
+                        disabled={isWatchOnly}
                         onClick={() =>
                             sdk.uiEvents.emit('transfer', {
                                 method: 'transfer',
@@ -156,12 +179,14 @@ const DesktopHeaderPayload = () => {
                         <ArrowUpIcon />
                         {t('wallet_send')}
                     </ButtonStyled>
-                    <LinkStyled to={AppProRoute.multiSend}>
-                        <ButtonStyled size="small">
-                            <ArrowUpIcon />
-                            {t('wallet_multi_send')}
-                        </ButtonStyled>
-                    </LinkStyled>
+                    {!isWatchOnly && (
+                        <LinkStyled to={AppProRoute.multiSend}>
+                            <ButtonStyled size="small">
+                                <ArrowUpIcon />
+                                {t('wallet_multi_send')}
+                            </ButtonStyled>
+                        </LinkStyled>
+                    )}
                     <ButtonStyled
                         size="small"
                         onClick={() => {
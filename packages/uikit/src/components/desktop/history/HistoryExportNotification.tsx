@@ -0,0 +1,251 @@
+import {
+    HistoryExportFormat,
+    historyExportFormats
+} from '@tonkeeper/core/dist/service/historyExportService';
+import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
+import React, { FC, useCallback, useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { useTranslation } from '../../../hooks/translation';
+import { useHistoryExportMutation, useHistoryExportWallets } from '../../../state/historyExport';
+import { useActiveTonNetwork, useActiveWallet } from '../../../state/wallet';
+import { ColumnText } from '../../Layout';
+import { ListBlock, ListItem, ListItemPayload } from '../../List';
+import { Notification, NotificationBlock } from '../../Notification';
+import { Tabs } from '../../Tabs';
+import { Body2, Body3, Label1 } from '../../Text';
+import { Button } from '../../fields/Button';
+import { Checkbox } from '../../fields/Checkbox';
+
+const Description = styled(Body2)`
+    color: ${p => p.theme.textSecondary};
+`;
+
+const ErrorText = styled(Body2)`
+    color: ${p => p.theme.accentRed};
+`;
+
+const DatesRow = styled.div`
+    display: flex;
+    gap: 0.5rem;
+    width: 100%;
+`;
+
+const DateField = styled.label`
+    flex: 1;
+    display: flex;
+    flex-direction: column;
+    gap: 0.25rem;
+
+    > ${Body3} {
+        color: ${p => p.theme.textSecondary};
+    }
+`;
+
+const DateInput = styled.input`
+    box-sizing: border-box;
+    width: 100%;
+    height: 48px;
+    padding: 0 1rem;
+    border: 1px solid ${p => p.theme.fieldBackground};
+    border-radius: ${p => p.theme.cornerSmall};
+    background: ${p => p.theme.fieldBackground};
+    color: ${p => p.theme.textPrimary};
+    font-family: inherit;
+    font-size: 16px;
+    outline: none;
+
+    &:focus {
+        border-color: ${p => p.theme.fieldActiveBorder};
+    }
+`;
+
+const Section = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 0.5rem;
+    width: 100%;
+`;
+
+const WalletsList = styled(ListBlock)`
+    margin: 0;
+    max-height: 240px;
+    overflow: auto;
+`;
+
+const toDateInputValue = (date: Date) => date.toISOString().slice(0, 10);
+
+const fromDateInputValue = (value: string, endOfDay = false) => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return Math.floor(date.getTime() / 1000) + (endOfDay ? 24 * 60 * 60 - 1 : 0);
+};
+
+const HistoryExportContent: FC = () => {
+    const { t } = useTranslation();
+    const network = useActiveTonNetwork();
+    const activeWallet = useActiveWallet();
+    const wallets = useHistoryExportWallets();
+    const { mutate, data: result, reset, isLoading, isError } = useHistoryExportMutation();
+
+    const [from, setFrom] = useState(() =>
+        toDateInputValue(new Date(Date.UTC(new Date().getUTCFullYear(), 0, 1)))
+    );
+    const [to, setTo] = useState(() => toDateInputValue(new Date()));
+    const [format, setFormat] = useState<HistoryExportFormat>('csv');
+    const [selected, setSelected] = useState<string[]>([activeWallet.rawAddress]);
+
+    useEffect(() => {
+        return () => {
+            if (result) {
+                URL.revokeObjectURL(result.url);
+            }
+        };
+    }, [result]);
+
+    const isRangeValid = !!from && !!to && from <= to;
+
+    const onSubmit: React.FormEventHandler<HTMLFormElement> = e => {
+        e.preventDefault();
+        if (!isRangeValid || selected.length === 0) return;
+
+        mutate({
+            wallets: wallets.filter(wallet => selected.includes(wallet.rawAddress)),
+            startDate: fromDateInputValue(from),
+            endDate: fromDateInputValue(to, true),
+            format
+        });
+    };
+
+    const onToggleWallet = (rawAddress: string) => {
+        reset();
+        setSelected(items =>
+            items.includes(rawAddress)
+                ? items.filter(item => item !== rawAddress)
+                : [...items, rawAddress]
+        );
+    };
+
+    if (result) {
+        return (
+            <NotificationBlock>
+                <Label1>{t('history_export_ready')}</Label1>
+                <Description>
+                    {t('history_export_ready_description').replace(
+                        '%{count}',
+                        String(result.rowsCount)
+                    )}
+                </Description>
+                {result.missingRates.length > 0 && (
+                    <ErrorText>
+                        {t('history_export_missing_rates').replace(
+                            '%{tokens}',
+                            result.missingRates.join(', ')
+                        )}
+                    </ErrorText>
+                )}
+                <Button
+                    size="large"
+                    fullWidth
+                    primary
+                    as="a"
+                    href={result.url}
+                    download={result.fileName}
+                >
+                    {t('history_export_download')}
+                </Button>
+                <Button size="large" fullWidth secondary onClick={() => reset()}>
+                    {t('history_export_new')}
+                </Button>
+            </NotificationBlock>
+        );
+    }
+
+    return (
+        <NotificationBlock onSubmit={onSubmit}>
+            <Description>{t('history_export_description')}</Description>
+            <DatesRow>
+                <DateField>
+                    <Body3>{t('history_export_from')}</Body3>
+                    <DateInput
+                        type="date"
+                        value={from}
+                        max={to}
+                        onChange={e => setFrom(e.target.value)}
+                    />
+                </DateField>
+                <DateField>
+                    <Body3>{t('history_export_to')}</Body3>
+                    <DateInput
+                        type="date"
+                        value={to}
+                        min={from}
+                        onChange={e => setTo(e.target.value)}
+                    />
+                </DateField>
+            </DatesRow>
+            <Section>
+                <Label1>{t('history_export_wallets')}</Label1>
+                <WalletsList>
+                    {wallets.map(wallet => (
+                        <ListItem key={wallet.id} hover={false}>
+                            <ListItemPayload>
+                                <ColumnText
+                                    noWrap
+                                    text={wallet.name}
+                                    secondary={toShortValue(
+                                        formatAddress(wallet.rawAddress, network)
+                                    )}
+                                />
+                                <Checkbox
+                                    checked={selected.includes(wallet.rawAddress)}
+                                    onChange={() => onToggleWallet(wallet.rawAddress)}
+                                />
+                            </ListItemPayload>
+                        </ListItem>
+                    ))}
+                </WalletsList>
+            </Section>
+            <Section>
+                <Label1>{t('history_export_format')}</Label1>
+                <Tabs
+                    active={format}
+                    values={historyExportFormats.map(id => ({ id, name: id.toUpperCase() }))}
+                    setActive={setFormat}
+                />
+            </Section>
+            {isError && <ErrorText>{t('history_export_error')}</ErrorText>}
+            <Button
+                size="large"
+                fullWidth
+                primary
+                type="submit"
+                loading={isLoading}
+                disabled={!isRangeValid || selected.length === 0}
+            >
+                {t('history_export_create')}
+            </Button>
+        </NotificationBlock>
+    );
+};
+
+/**
+ * Exports the history of the selected wallets with the fiat value of every action at the event time
+ */
+export const HistoryExportNotification: FC<{
+    isOpen: boolean;
+    handleClose: () => void;
+}> = ({ isOpen, handleClose }) => {
+    const { t } = useTranslation();
+
+    const Content = useCallback(() => <HistoryExportContent />, []);
+
+    return (
+        <Notification
+            isOpen={isOpen}
+            handleClose={handleClose}
+            title={t('history_export_title')}
+            hideButton
+        >
+            {Content}
+        </Notification>
+    );
+};
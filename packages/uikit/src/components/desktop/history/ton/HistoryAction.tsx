@@ -10,6 +10,10 @@ import {
     JettonTransferDesktopAction
 } from './JettonDesktopActions';
 import { ContractDeployDesktopAction } from './ContractDeployAction';
+import {
+    InscriptionMintDesktopAction,
+    InscriptionTransferDesktopAction
+} from './InscriptionDesktopActions';
 import { Body2 } from '../../../Text';
 import { HistoryGridCellFillRow } from './HistoryGrid';
 import { SmartContractExecDesktopAction } from './SmartContractExecDesktopAction';
@@ -48,6 +52,10 @@ export const HistoryAction: FC<{
             return <JettonBurnDesktopAction action={action} />;
         case 'JettonMint':
             return <JettonMintDesktopAction action={action} />;
+        case 'InscriptionTransfer':
+            return <InscriptionTransferDesktopAction action={action} isScam={isScam} />;
+        case 'InscriptionMint':
+            return <InscriptionMintDesktopAction action={action} />;
         case 'DepositStake':
             return <DepositStakeDesktopAction action={action} />;
         case 'WithdrawStake':
@@ -8,6 +8,13 @@ import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
 import { useFormatCoinValue } from '../../../../hooks/balance';
 import { HistoryGridCell, HistoryGridCellFillRow } from './HistoryGrid';
 import { useActiveTonNetwork, useActiveWallet } from '../../../../state/wallet';
+import { useAddressBookLabel } from '../../../../state/addressBook';
+import {
+    useCanEncryptComment,
+    useDecryptedComment,
+    useUnlockEncryptedComments
+} from '../../../../state/encryptedComment';
+import { EncryptedComment } from '@tonkeeper/core/dist/tonApiV2';
 
 export const HistoryCellAction = styled(HistoryGridCell)`
     display: flex;
@@ -105,10 +112,13 @@ export const HistoryCellAccount: FC<{
 }> = ({ account, fallbackAddress }) => {
     const network = useActiveTonNetwork();
     const { t } = useTranslation();
+    const contactLabel = useAddressBookLabel(account?.address ?? fallbackAddress);
 
     return (
         <HistoryCellAccountStyled>
-            {account?.name
+            {contactLabel
+                ? contactLabel
+                : account?.name
                 ? account.name
                 : account?.address
                 ? toShortValue(formatAddress(account.address, network))
@@ -126,12 +136,64 @@ const HistoryCellCommentStyled = styled(Body2)`
     min-width: 40px;
 `;
 
-export const HistoryCellComment: FC<{ comment?: string; isScam?: boolean; className?: string }> = ({
-    comment,
-    isScam,
-    className
-}) => {
-    if (!comment || isScam) {
+const HistoryCellEncryptedCommentStyled = styled(HistoryCellCommentStyled)<{ clickable: boolean }>`
+    color: ${p => p.theme.textSecondary};
+    cursor: ${p => (p.clickable ? 'pointer' : 'default')};
+`;
+
+const HistoryCellEncryptedComment: FC<{
+    encryptedComment: EncryptedComment;
+    sender: string;
+    className?: string;
+}> = ({ encryptedComment, sender, className }) => {
+    const { t } = useTranslation();
+    const canDecrypt = useCanEncryptComment();
+    const { data: decrypted, isError } = useDecryptedComment(encryptedComment, sender);
+    const { mutate: unlock, isLoading } = useUnlockEncryptedComments();
+
+    if (decrypted) {
+        return (
+            <HistoryCellCommentStyled className={className}>{decrypted}</HistoryCellCommentStyled>
+        );
+    }
+
+    return (
+        <HistoryCellEncryptedCommentStyled
+            className={className}
+            clickable={canDecrypt && !isError}
+            onClick={e => {
+                if (canDecrypt && !isError) {
+                    // the row opens the transaction details
+                    e.stopPropagation();
+                    if (!isLoading) unlock();
+                }
+            }}
+        >
+            {isError ? t('encrypted_comment_decrypt_error') : t('encrypted_comment')}
+        </HistoryCellEncryptedCommentStyled>
+    );
+};
+
+export const HistoryCellComment: FC<{
+    comment?: string;
+    encryptedComment?: EncryptedComment;
+    sender?: string;
+    isScam?: boolean;
+    className?: string;
+}> = ({ comment, encryptedComment, sender, isScam, className }) => {
+    if (isScam) {
+        return <div />;
+    }
+    if (!comment && encryptedComment && sender) {
+        return (
+            <HistoryCellEncryptedComment
+                encryptedComment={encryptedComment}
+                sender={sender}
+                className={className}
+            />
+        );
+    }
+    if (!comment) {
         return <div />;
     }
     return <HistoryCellCommentStyled className={className}>{comment}</HistoryCellCommentStyled>;
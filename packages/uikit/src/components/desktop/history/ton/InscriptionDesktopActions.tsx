@@ -0,0 +1,93 @@
+import { Action } from '@tonkeeper/core/dist/tonApiV2';
+import { eqAddresses } from '@tonkeeper/core/dist/utils/address';
+import { FC } from 'react';
+import { useTranslation } from '../../../../hooks/translation';
+import { useActiveWallet } from '../../../../state/wallet';
+import { SparkIcon } from '../../../Icon';
+import {
+    ActionRow,
+    ErrorRow,
+    HistoryCellAccount,
+    HistoryCellActionGeneric,
+    HistoryCellActionReceived,
+    HistoryCellActionSent,
+    HistoryCellAmount,
+    HistoryCellComment
+} from './HistoryCell';
+
+export const InscriptionTransferDesktopAction: FC<{
+    action: Action;
+    isScam: boolean;
+}> = ({ action, isScam }) => {
+    const wallet = useActiveWallet();
+    const { inscriptionTransfer } = action;
+
+    if (!inscriptionTransfer) {
+        return <ErrorRow />;
+    }
+
+    const isFailed = action.status === 'failed';
+
+    if (eqAddresses(wallet.rawAddress, inscriptionTransfer.sender.address)) {
+        return (
+            <>
+                <HistoryCellActionSent isFailed={isFailed} />
+                <HistoryCellAccount account={inscriptionTransfer.recipient} />
+                <ActionRow>
+                    <HistoryCellComment comment={inscriptionTransfer.comment} />
+                    <HistoryCellAmount
+                        amount={inscriptionTransfer.amount}
+                        symbol={inscriptionTransfer.ticker}
+                        decimals={inscriptionTransfer.decimals}
+                        isFailed={isFailed}
+                        isNegative
+                    />
+                </ActionRow>
+            </>
+        );
+    }
+    return (
+        <>
+            <HistoryCellActionReceived isScam={isScam} isFailed={isFailed} />
+            <HistoryCellAccount account={inscriptionTransfer.sender} />
+            <ActionRow>
+                <HistoryCellComment comment={inscriptionTransfer.comment} isScam={isScam} />
+                <HistoryCellAmount
+                    amount={inscriptionTransfer.amount}
+                    symbol={inscriptionTransfer.ticker}
+                    decimals={inscriptionTransfer.decimals}
+                    isFailed={isFailed}
+                    isSpam={isScam}
+                />
+            </ActionRow>
+        </>
+    );
+};
+
+export const InscriptionMintDesktopAction: FC<{ action: Action }> = ({ action }) => {
+    const { t } = useTranslation();
+    const { inscriptionMint } = action;
+
+    if (!inscriptionMint) {
+        return <ErrorRow />;
+    }
+    const isFailed = action.status === 'failed';
+
+    return (
+        <>
+            <HistoryCellActionGeneric icon={<SparkIcon color="iconPrimary" />} isFailed={isFailed}>
+                {t('transaction_type_mint')}
+            </HistoryCellActionGeneric>
+            <HistoryCellAccount account={inscriptionMint.recipient} />
+            <ActionRow>
+                <HistoryCellComment />
+                <HistoryCellAmount
+                    amount={inscriptionMint.amount}
+                    symbol={inscriptionMint.ticker}
+                    decimals={inscriptionMint.decimals}
+                    isFailed={isFailed}
+                />
+            </ActionRow>
+        </>
+    );
+};
@@ -82,7 +82,11 @@ export const JettonTransferDesktopAction: FC<{
                     fallbackAddress={jettonTransfer.recipientsWallet}
                 />
                 <ActionRow>
-                    <HistoryCellComment comment={jettonTransfer.comment} />
+                    <HistoryCellComment
+                        comment={jettonTransfer.comment}
+                        encryptedComment={jettonTransfer.encryptedComment}
+                        sender={jettonTransfer.sender?.address}
+                    />
                     <HistoryCellAmount
                         amount={jettonTransfer.amount}
                         symbol={jettonTransfer.jetton.symbol}
@@ -102,7 +106,12 @@ export const JettonTransferDesktopAction: FC<{
                 fallbackAddress={jettonTransfer.sendersWallet}
             />
             <ActionRow>
-                <HistoryCellComment comment={jettonTransfer.comment} isScam={isScam} />
+                <HistoryCellComment
+                    comment={jettonTransfer.comment}
+                    encryptedComment={jettonTransfer.encryptedComment}
+                    sender={jettonTransfer.sender?.address}
+                    isScam={isScam}
+                />
                 <HistoryCellAmount
                     amount={jettonTransfer.amount}
                     symbol={jettonTransfer.jetton.symbol}
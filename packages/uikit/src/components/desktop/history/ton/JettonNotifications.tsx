@@ -67,7 +67,11 @@ const JettonTransferActionContent: FC<{
                 )}
                 <ActionTransactionDetails eventId={event.eventId} />
                 <ActionExtraDetails extra={event.extra} />
-                <TransferComment comment={jettonTransfer.comment} />
+                <TransferComment
+                    comment={jettonTransfer.comment}
+                    encryptedComment={jettonTransfer.encryptedComment}
+                    sender={jettonTransfer.sender?.address}
+                />
             </ListBlock>
         </ActionDetailsBlock>
     );
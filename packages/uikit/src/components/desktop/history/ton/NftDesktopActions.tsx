@@ -147,7 +147,11 @@ export const NftTransferDesktopAction: FC<{
                 <HistoryCellActionSent isFailed={action.status === 'failed'} />
                 <HistoryCellAccount account={nftItemTransfer.recipient} />
                 <ActionRowNftStyled>
-                    <HistoryCellComment comment={nftItemTransfer.comment} />
+                    <HistoryCellComment
+                        comment={nftItemTransfer.comment}
+                        encryptedComment={nftItemTransfer.encryptedComment}
+                        sender={nftItemTransfer.sender?.address}
+                    />
                     <HistoryCellNft
                         nftAddress={nftItemTransfer.nft}
                         isFailed={action.status === 'failed'}
@@ -165,7 +169,12 @@ export const NftTransferDesktopAction: FC<{
                 {isUnverified && !isSpam ? (
                     <UnverifiedNftComment>{t('suspicious_label_short')}</UnverifiedNftComment>
                 ) : (
-                    <HistoryCellComment comment={nftItemTransfer.comment} isScam={isSpam} />
+                    <HistoryCellComment
+                        comment={nftItemTransfer.comment}
+                        encryptedComment={nftItemTransfer.encryptedComment}
+                        sender={nftItemTransfer.sender?.address}
+                        isScam={isSpam}
+                    />
                 )}
                 {isSpam ? (
                     <SpamNftPlaceholder>{t('history_spam_nft')}</SpamNftPlaceholder>
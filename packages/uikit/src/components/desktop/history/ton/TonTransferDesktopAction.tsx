@@ -31,7 +31,12 @@ export const TonTransferDesktopAction: FC<{
                 <HistoryCellActionReceived isScam={isScam} isFailed={action.status === 'failed'} />
                 <HistoryCellAccount account={tonTransfer.sender} />
                 <ActionRow>
-                    <HistoryCellComment comment={tonTransfer.comment} isScam={isScam} />
+                    <HistoryCellComment
+                        comment={tonTransfer.comment}
+                        encryptedComment={tonTransfer.encryptedComment}
+                        sender={tonTransfer.sender.address}
+                        isScam={isScam}
+                    />
                     <HistoryCellAmount
                         amount={tonTransfer.amount}
                         symbol={CryptoCurrency.TON}
@@ -48,7 +53,11 @@ export const TonTransferDesktopAction: FC<{
             <HistoryCellActionSent isFailed={action.status === 'failed'} />
             <HistoryCellAccount account={tonTransfer.recipient} />
             <ActionRow>
-                <HistoryCellComment comment={tonTransfer.comment} />
+                <HistoryCellComment
+                    comment={tonTransfer.comment}
+                    encryptedComment={tonTransfer.encryptedComment}
+                    sender={tonTransfer.sender.address}
+                />
                 <HistoryCellAmount
                     amount={tonTransfer.amount}
                     symbol={CryptoCurrency.TON}
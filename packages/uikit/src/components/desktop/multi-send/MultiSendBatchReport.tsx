@@ -0,0 +1,94 @@
+import { MultiSendBatch, MultiSendBatchRowStatus } from '@tonkeeper/core/dist/entries/multiSend';
+import { getMultiSendBatchReport } from '@tonkeeper/core/dist/service/transfer/multiSendBatchService';
+import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
+import { FC } from 'react';
+import styled from 'styled-components';
+import { useFormatCoinValue } from '../../../hooks/balance';
+import { useTranslation } from '../../../hooks/translation';
+import { useActiveTonNetwork } from '../../../state/wallet';
+import { Body2, Body3, Label2 } from '../../Text';
+
+const ReportWrapper = styled.div`
+    width: 100%;
+    display: flex;
+    flex-direction: column;
+    gap: 0.5rem;
+`;
+
+const RowsContainer = styled.div`
+    max-height: 240px;
+    overflow-y: auto;
+    border-radius: ${p => p.theme.cornerSmall};
+    background: ${p => p.theme.backgroundContent};
+`;
+
+const RowStyled = styled.div`
+    display: grid;
+    grid-template-columns: 1fr auto;
+    gap: 0 1rem;
+    padding: 8px 12px;
+
+    &:not(:first-child) {
+        border-top: 1px solid ${p => p.theme.separatorCommon};
+    }
+`;
+
+const StatusLabel = styled(Body2)<{ status: MultiSendBatchRowStatus }>`
+    text-align: right;
+    color: ${p =>
+        p.status === 'sent'
+            ? p.theme.accentGreen
+            : p.status === 'failed'
+            ? p.theme.accentRed
+            : p.theme.textSecondary};
+`;
+
+const RowError = styled(Body3)`
+    grid-column: 1 / -1;
+    color: ${p => p.theme.textSecondary};
+`;
+
+export const MultiSendBatchProgress: FC<{ batch: MultiSendBatch }> = ({ batch }) => {
+    const { t } = useTranslation();
+    const report = getMultiSendBatchReport(batch);
+
+    return (
+        <Body2>
+            {t('multi_send_batch_progress')
+                .replace('%{done}', String(batch.rows.length - report.pending - report.sending))
+                .replace('%{total}', String(batch.rows.length))}
+        </Body2>
+    );
+};
+
+export const MultiSendBatchReport: FC<{ batch: MultiSendBatch }> = ({ batch }) => {
+    const { t } = useTranslation();
+    const format = useFormatCoinValue();
+    const network = useActiveTonNetwork();
+    const report = getMultiSendBatchReport(batch);
+
+    return (
+        <ReportWrapper>
+            <Label2>
+                {t('multi_send_batch_report')
+                    .replace('%{sent}', String(report.sent))
+                    .replace('%{failed}', String(report.failed))
+                    .replace('%{skipped}', String(report.skipped))}
+            </Label2>
+            <RowsContainer>
+                {batch.rows.map((row, index) => (
+                    <RowStyled key={index}>
+                        <Body2>
+                            {toShortValue(formatAddress(row.to, network, row.bounce))}&nbsp;·&nbsp;
+                            {format(row.weiAmount, batch.assetDecimals)} {batch.assetSymbol}
+                        </Body2>
+                        <StatusLabel status={row.status}>
+                            {t(`multi_send_batch_status_${row.status}`)}
+                        </StatusLabel>
+                        {row.error && <RowError>{row.error}</RowError>}
+                    </RowStyled>
+                ))}
+            </RowsContainer>
+        </ReportWrapper>
+    );
+};
@@ -1,7 +1,7 @@
 import { Notification } from '../../Notification';
-import React, { FC, useEffect, useMemo } from 'react';
+import React, { FC, useEffect, useMemo, useState } from 'react';
 import { Image, ImageMock } from '../../transfer/Confirm';
-import { MultiSendForm } from '../../../state/multiSend';
+import { MultiSendForm, useUnfinishedMultiSendBatch } from '../../../state/multiSend';
 import { TonAsset } from '@tonkeeper/core/dist/entries/crypto/asset/ton-asset';
 import styled from 'styled-components';
 import { useAssetImage } from '../../../state/asset';
@@ -28,8 +28,11 @@ import { AppRoute } from '../../../libs/routes';
 import { useDisclosure } from '../../../hooks/useDisclosure';
 import { MultiSendReceiversNotification } from './MultiSendReceiversNotification';
 import { NotEnoughBalanceError } from '@tonkeeper/core/dist/errors/NotEnoughBalanceError';
+import { UnfinishedMultiSendBatchError } from '@tonkeeper/core/dist/errors/UnfinishedMultiSendBatchError';
+import { MultiSendBatch } from '@tonkeeper/core/dist/entries/multiSend';
 import { TON_ASSET } from '@tonkeeper/core/dist/entries/crypto/asset/constants';
 import { AccountAndWalletInfo } from '../../account/AccountAndWalletInfo';
+import { MultiSendBatchProgress, MultiSendBatchReport } from './MultiSendBatchReport';
 
 const ConfirmWrapper = styled.div`
     display: flex;
@@ -261,6 +264,14 @@ const ResultButtonStyled = styled(ResultButton)`
     }
 `;
 
+const ReportWrapper = styled.div`
+    width: 100%;
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    gap: 1rem;
+`;
+
 const ButtonBlock: FC<{
     onSuccess: () => void;
     isLoading: boolean;
@@ -276,12 +287,19 @@ const ButtonBlock: FC<{
         isLoading: isSending,
         data: doneSend
     } = useSendMultiTransfer();
+    const { data: unfinished } = useUnfinishedMultiSendBatch();
 
     const format = useFormatCoinValue();
+    const [progress, setProgress] = useState<MultiSendBatch | undefined>();
 
     const onClick = async () => {
-        const confirmed = await send({ form, asset, feeEstimation: feeEstimation! });
-        if (confirmed) {
+        const batch = await send({
+            form,
+            asset,
+            feeEstimation: feeEstimation!,
+            onProgress: setProgress
+        });
+        if (batch && batch.rows.every(row => row.status === 'sent')) {
             onSuccess();
         }
     };
@@ -313,20 +331,50 @@ const ButtonBlock: FC<{
     }
 
     if (doneSend) {
+        if (doneSend.rows.every(row => row.status === 'sent')) {
+            return (
+                <ResultButton done>
+                    <CheckmarkCircleIcon />
+                    <Label2>{t('send_screen_steps_done_done_label')}</Label2>
+                </ResultButton>
+            );
+        }
+
+        return <MultiSendBatchReport batch={doneSend} />;
+    }
+
+    if (error instanceof UnfinishedMultiSendBatchError || (!error && unfinished && !isSending)) {
         return (
-            <ResultButton done>
-                <CheckmarkCircleIcon />
-                <Label2>{t('send_screen_steps_done_done_label')}</Label2>
-            </ResultButton>
+            <ResultButtonStyled>
+                <ExclamationMarkCircleIconStyled />
+                <Label2>{t('multi_send_batch_unfinished_blocks_send')}</Label2>
+            </ResultButtonStyled>
         );
     }
 
     if (error) {
         return (
-            <ResultButton>
-                <ExclamationMarkCircleIconStyled />
-                <Label2>{t('send_publish_tx_error')}</Label2>
-            </ResultButton>
+            <ReportWrapper>
+                <ResultButtonStyled>
+                    <ExclamationMarkCircleIconStyled />
+                    <Label2>{t('send_publish_tx_error')}</Label2>
+                    {progress && progress.rows.some(row => row.status !== 'pending') && (
+                        <Body3>{t('multi_send_batch_interrupted')}</Body3>
+                    )}
+                </ResultButtonStyled>
+                {progress && <MultiSendBatchReport batch={progress} />}
+            </ReportWrapper>
+        );
+    }
+
+    if (isSending && progress) {
+        return (
+            <ReportWrapper>
+                <MultiSendBatchProgress batch={progress} />
+                <Button fullWidth primary loading disabled>
+                    {t('confirm_sending_submit')}
+                </Button>
+            </ReportWrapper>
         );
     }
 
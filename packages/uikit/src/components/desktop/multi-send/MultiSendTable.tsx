@@ -4,7 +4,10 @@ import { TonAsset, isTon } from '@tonkeeper/core/dist/entries/crypto/asset/ton-a
 import { DnsRecipient, TonRecipient } from '@tonkeeper/core/dist/entries/send';
 import { isW5Version } from '@tonkeeper/core/dist/entries/wallet';
 import { arrayToCsvString } from '@tonkeeper/core/dist/service/parserService';
-import { MAX_ALLOWED_WALLET_MSGS } from '@tonkeeper/core/dist/service/transfer/multiSendService';
+import {
+    getMultiSendBatchChunkSize,
+    MULTI_SEND_BATCH_MAX_ROWS
+} from '@tonkeeper/core/dist/service/transfer/multiSendBatchService';
 import { shiftedDecimals } from '@tonkeeper/core/dist/utils/balance';
 import BigNumber from 'bignumber.js';
 import { FC, useEffect, useState } from 'react';
@@ -22,7 +25,6 @@ import {
 import { useDisclosure } from '../../../hooks/useDisclosure';
 import { AppRoute, WalletSettingsRoute } from '../../../libs/routes';
 import { useAssets } from '../../../state/home';
-import { useIsActiveWalletLedger } from '../../../state/ledger';
 import {
     MultiSendForm,
     MultiSendList,
@@ -51,7 +53,7 @@ import { ImportListNotification } from './import-list/ImportListNotification';
 import { getWillBeMultiSendValue } from './utils';
 import { removeGroupSeparator } from '@tonkeeper/core/dist/utils/send';
 import { getDecimalSeparator } from '@tonkeeper/core/dist/utils/formatting';
-import { useActiveWallet } from '../../../state/wallet';
+import { useActiveTonWalletStandardAccount } from '../../../state/wallet';
 
 const FormHeadingWrapper = styled.div`
     display: flex;
@@ -319,51 +321,64 @@ const MultiSendAddMore: FC<{
 }> = ({ onAdd, fieldsNumber }) => {
     const { t } = useTranslation();
 
-    const wallet = useActiveWallet();
-
-    if (fieldsNumber < MAX_ALLOWED_WALLET_MSGS[wallet.version]) {
-        return (
-            <Button
-                fitContent
-                secondary
-                type="button"
-                onClick={() =>
-                    onAdd({
-                        receiver: null,
-                        amount: null,
-                        comment: ''
-                    })
-                }
-            >
-                {t('multi_send_add_more')}
-            </Button>
-        );
-    }
-
-    if (isW5Version(wallet.version)) {
-        return (
-            <MaximumReachedContainer>
-                <Body2>{t('multi_send_maximum_reached')}</Body2>
-                &nbsp;
-                <Dot>·</Dot>
-                &nbsp;
-                <LinkStyled to={AppRoute.walletSettings + WalletSettingsRoute.version}>
-                    {t('multi_send_switch_to_w5')}
-                </LinkStyled>
-                &nbsp;
-                <Dot>·</Dot>
-                &nbsp;
-                <LinkStyled to="https://github.com/tonkeeper/w5" target="_blank">
-                    {t('multi_send_about_w5')}
-                </LinkStyled>
-            </MaximumReachedContainer>
-        );
-    }
+    const account = useActiveTonWalletStandardAccount();
+    const wallet = account.activeTonWallet;
+    const transactionsNumber = Math.ceil(fieldsNumber / getMultiSendBatchChunkSize(account));
 
     return (
-        <MaximumReachedContainer>
-            <Body2>{t('multi_send_maximum_255_reached')}</Body2>
-        </MaximumReachedContainer>
+        <>
+            {fieldsNumber < MULTI_SEND_BATCH_MAX_ROWS ? (
+                <Button
+                    fitContent
+                    secondary
+                    type="button"
+                    onClick={() =>
+                        onAdd({
+                            receiver: null,
+                            amount: null,
+                            comment: ''
+                        })
+                    }
+                >
+                    {t('multi_send_add_more')}
+                </Button>
+            ) : (
+                <MaximumReachedContainer>
+                    <Body2>
+                        {t('multi_send_batch_maximum_reached').replace(
+                            '%{max}',
+                            String(MULTI_SEND_BATCH_MAX_ROWS)
+                        )}
+                    </Body2>
+                </MaximumReachedContainer>
+            )}
+            {transactionsNumber > 1 && (
+                <MaximumReachedContainer>
+                    <Body2>
+                        {t('multi_send_batch_transactions_number').replace(
+                            '%{number}',
+                            String(transactionsNumber)
+                        )}
+                    </Body2>
+                    {account.type !== 'ledger' && !isW5Version(wallet.version) && (
+                        <>
+                            &nbsp;
+                            <Dot>·</Dot>
+                            &nbsp;
+                            <LinkStyled to={AppRoute.walletSettings + WalletSettingsRoute.version}>
+                                {t('multi_send_switch_to_w5')}
+                            </LinkStyled>
+                            &nbsp;
+                            <Dot>·</Dot>
+                            &nbsp;
+                            <LinkStyled to="https://github.com/tonkeeper/w5" target="_blank">
+                                {t('multi_send_about_w5')}
+                            </LinkStyled>
+                        </>
+                    )}
+                </MaximumReachedContainer>
+            )}
+        </>
     );
 };
 
@@ -483,11 +498,7 @@ const MultiSendFooter: FC<{
 
     const { formState: formValidationState } = useAsyncValidationState();
 
-    const wallet = useActiveWallet();
-
-    const maxMsgsNumberExceeded = watch('rows').length > MAX_ALLOWED_WALLET_MSGS[wallet.version];
-
-    const isLedger = useIsActiveWalletLedger();
+    const maxMsgsNumberExceeded = watch('rows').length > MULTI_SEND_BATCH_MAX_ROWS;
 
     return (
         <>
@@ -513,10 +524,13 @@ const MultiSendFooter: FC<{
                         </Button>
                     )}
                 </ListActionsButtons>
-                {isLedger ? (
-                    <FooterErrorMessage>{t('ledger_operation_not_supported')}</FooterErrorMessage>
-                ) : maxMsgsNumberExceeded ? (
-                    <FooterErrorMessage>{t('multi_send_maximum_reached')}</FooterErrorMessage>
+                {maxMsgsNumberExceeded ? (
+                    <FooterErrorMessage>
+                        {t('multi_send_batch_maximum_reached').replace(
+                            '%{max}',
+                            String(MULTI_SEND_BATCH_MAX_ROWS)
+                        )}
+                    </FooterErrorMessage>
                 ) : (
                     <MultiSendFooterTextWrapper>
                         <Body3>
@@ -537,7 +551,7 @@ const MultiSendFooter: FC<{
                     <Button
                         type="submit"
                         primary
-                        disabled={remainingBalanceBN?.lt(0) || maxMsgsNumberExceeded || isLedger}
+                        disabled={remainingBalanceBN?.lt(0) || maxMsgsNumberExceeded}
                         loading={formValidationState === 'validating' || !proState}
                     >
                         {t('continue')}
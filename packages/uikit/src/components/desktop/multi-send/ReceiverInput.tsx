@@ -1,20 +1,23 @@
 import { Address } from '@ton/core';
+import { BLOCKCHAIN_NAME } from '@tonkeeper/core/dist/entries/crypto';
 import { TonRecipient } from '@tonkeeper/core/dist/entries/send';
+import { searchAddressBook } from '@tonkeeper/core/dist/service/addressBookService';
 import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
-import { FC, useCallback, useEffect, useRef, useState } from 'react';
+import { FC, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useFormContext } from 'react-hook-form';
 import { ControllerFieldState, ControllerRenderProps } from 'react-hook-form/dist/types/controller';
 import styled from 'styled-components';
 import { useTranslation } from '../../../hooks/translation';
 import { useAsyncValidator } from '../../../hooks/useAsyncValidator';
 import { useCopyToClipboard } from '../../../hooks/useCopyToClipboard';
+import { useAddressBook, useAddressBookEntry } from '../../../state/addressBook';
 import {
     MultiSendForm,
     getPastedTable,
     useMultiSendReceiverValidator
 } from '../../../state/multiSend';
 import { SpinnerRing, XMarkCircleIcon } from '../../Icon';
-import { Body2 } from '../../Text';
+import { Body2, Label2 } from '../../Text';
 import { IconButton } from '../../fields/IconButton';
 import { InputBlockStyled, InputFieldStyled } from './InputStyled';
 
@@ -36,6 +39,51 @@ const ReceiverInputFieldStyled = styled(InputFieldStyled)`
     min-width: 100px;
 `;
 
+const AddressBookList = styled.div`
+    position: absolute;
+    top: calc(100% + 4px);
+    left: 0;
+    right: 0;
+    z-index: 2;
+    max-height: 200px;
+    overflow: auto;
+    background: ${p => p.theme.backgroundContentTint};
+    border-radius: ${p => p.theme.corner2xSmall};
+    box-shadow: 0px 4px 16px rgba(0, 0, 0, 0.16);
+`;
+
+const AddressBookListItem = styled.div`
+    display: flex;
+    justify-content: space-between;
+    gap: 0.5rem;
+    padding: 8px 12px;
+    cursor: pointer;
+
+    &:hover {
+        background: ${p => p.theme.backgroundHighlighted};
+    }
+`;
+
+const useAddressBookMatches = (value: string) => {
+    const { data: entries } = useAddressBook();
+
+    return useMemo(() => {
+        if (!entries || !value.trim()) {
+            return [];
+        }
+        return searchAddressBook(entries, value).flatMap(entry =>
+            entry.addresses
+                .filter(item => item.blockchain === BLOCKCHAIN_NAME.TON)
+                .map(item => ({
+                    label: entry.label,
+                    value: item.dns ?? Address.parse(item.address).toString({ bounceable: false }),
+                    isDns: !!item.dns
+                }))
+                .filter(item => item.value !== value)
+        );
+    }, [entries, value]);
+};
+
 export const ReceiverInput: FC<{
     field: ControllerRenderProps<
         {
@@ -55,6 +103,7 @@ export const ReceiverInput: FC<{
     const inputTouched = useRef(false);
 
     const validator = useMultiSendReceiverValidator();
+    const addressBookMatches = useAddressBookMatches(inputValue);
 
     const [validationState, validationProduct] = useAsyncValidator<string, string, TonRecipient>(
         methods,
@@ -83,6 +132,8 @@ export const ReceiverInput: FC<{
         );
     }, []);
 
+    const addressBookEntry = useAddressBookEntry(validationProduct?.address);
+
     const { onCopy, copied } = useCopyToClipboard(
         validationProduct?.address
             ? Address.parse(validationProduct?.address).toString({ bounceable: false })
@@ -123,6 +174,9 @@ export const ReceiverInput: FC<{
                 onPaste={onPaste}
             />
             {isValidating && <SpinnerRingStyled />}
+            {!isValidating && addressBookEntry && (
+                <Body2Secondary>{addressBookEntry.label}</Body2Secondary>
+            )}
             {!isValidating &&
                 validationProduct &&
                 'dns' in validationProduct &&
@@ -143,6 +197,25 @@ export const ReceiverInput: FC<{
                     <XMarkCircleIcon />
                 </IconButton>
             )}
+            {focus && addressBookMatches.length > 0 && (
+                <AddressBookList>
+                    {addressBookMatches.map(item => (
+                        <AddressBookListItem
+                            key={item.value}
+                            onMouseDown={e => {
+                                e.preventDefault();
+                                inputTouched.current = true;
+                                setInputValue(item.value);
+                            }}
+                        >
+                            <Label2>{item.label}</Label2>
+                            <Body2Secondary>
+                                {item.isDns ? item.value : toShortValue(item.value)}
+                            </Body2Secondary>
+                        </AddressBookListItem>
+                    ))}
+                </AddressBookList>
+            )}
         </InputBlockStyled>
     );
 };
@@ -0,0 +1,97 @@
+import { MultiSendBatch } from '@tonkeeper/core/dist/entries/multiSend';
+import { FC, useState } from 'react';
+import styled from 'styled-components';
+import { useResumeMultiSendBatch } from '../../../hooks/blockchain/useSendMultiTransfer';
+import { useTranslation } from '../../../hooks/translation';
+import { useDiscardMultiSendBatch, useUnfinishedMultiSendBatch } from '../../../state/multiSend';
+import { Body2, Body3, Label2 } from '../../Text';
+import { Button } from '../../fields/Button';
+import { MultiSendBatchProgress, MultiSendBatchReport } from './MultiSendBatchReport';
+
+const BlockWrapper = styled.div`
+    box-sizing: border-box;
+    width: 368px;
+    margin-bottom: 1rem;
+    padding: 12px;
+    display: flex;
+    flex-direction: column;
+    gap: 0.5rem;
+
+    background: ${p => p.theme.backgroundContent};
+    border-radius: ${p => p.theme.cornerSmall};
+
+    > ${Body2} {
+        color: ${p => p.theme.textSecondary};
+    }
+`;
+
+const ErrorText = styled(Body3)`
+    color: ${p => p.theme.accentRed};
+`;
+
+const ButtonsContainer = styled.div`
+    display: flex;
+    gap: 0.5rem;
+`;
+
+/**
+ * Offers to resume the multi send batch that was interrupted, e.g. by closing the app
+ */
+export const UnfinishedMultiSendBatch: FC = () => {
+    const { t } = useTranslation();
+    const { data: unfinished } = useUnfinishedMultiSendBatch();
+    const {
+        mutate: resume,
+        isLoading: isResuming,
+        data: resumed,
+        error
+    } = useResumeMultiSendBatch();
+    const { mutate: discard, isLoading: isDiscarding } = useDiscardMultiSendBatch();
+    const [progress, setProgress] = useState<MultiSendBatch | undefined>();
+
+    const batch = unfinished && (progress ?? unfinished);
+
+    if (resumed) {
+        return (
+            <BlockWrapper>
+                <MultiSendBatchReport batch={resumed} />
+            </BlockWrapper>
+        );
+    }
+
+    if (!batch) {
+        return null;
+    }
+
+    return (
+        <BlockWrapper>
+            <Label2>
+                {t('multi_send_batch_unfinished')}&nbsp;·&nbsp;{batch.assetSymbol}
+            </Label2>
+            <MultiSendBatchProgress batch={batch} />
+            {error && <ErrorText>{t('send_publish_tx_error')}</ErrorText>}
+            <ButtonsContainer>
+                <Button
+                    primary
+                    size="small"
+                    loading={isResuming}
+                    disabled={isResuming || isDiscarding}
+                    onClick={() => resume({ batch, onProgress: setProgress })}
+                >
+                    {t('multi_send_batch_resume')}
+                </Button>
+                {!batch.inFlight && (
+                    <Button
+                        secondary
+                        size="small"
+                        loading={isDiscarding}
+                        disabled={isResuming || isDiscarding}
+                        onClick={() => discard(batch)}
+                    >
+                        {t('multi_send_batch_discard')}
+                    </Button>
+                )}
+            </ButtonsContainer>
+        </BlockWrapper>
+    );
+};
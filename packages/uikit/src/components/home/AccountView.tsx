@@ -20,6 +20,7 @@ import {
 import { Body1, H3 } from '../Text';
 import { Button } from '../fields/Button';
 import { Wrapper, childFactoryCreator, duration } from '../transfer/common';
+import { PaymentRequestContent } from './PaymentRequest';
 import { QrWrapper } from './qrCodeView';
 import { useActiveTonNetwork, useActiveWallet } from '../../state/wallet';
 
@@ -136,7 +137,7 @@ const CopyButton: FC<{ address: string }> = ({ address }) => {
     );
 };
 
-const ReceiveTon: FC<{ jetton?: string }> = ({ jetton }) => {
+const ReceiveTon: FC<{ jetton?: string; onRequest: () => void }> = ({ jetton, onRequest }) => {
     const sdk = useAppSdk();
     const { extension } = useAppContext();
     const wallet = useActiveWallet();
@@ -173,6 +174,15 @@ const ReceiveTon: FC<{ jetton?: string }> = ({ jetton }) => {
                 <AddressText extension={extension}>{address}</AddressText>
             </Background>
             <CopyButton address={address} />
+            <Button
+                secondary
+                onClick={e => {
+                    e.preventDefault();
+                    onRequest();
+                }}
+            >
+                {t('payment_request_open')}
+            </Button>
         </NotificationBlock>
     );
 };
@@ -219,13 +229,15 @@ export const ReceiveContent: FC<{
 }> = ({ chain = BLOCKCHAIN_NAME.TON, jetton, handleClose }) => {
     const { standalone } = useAppContext();
     const [active] = useState(chain);
+    const [isRequest, setIsRequest] = useState(false);
     const { data: tron } = useTronWalletState(active === BLOCKCHAIN_NAME.TRON);
     const tonRef = useRef<HTMLDivElement>(null);
     const tronRef = useRef<HTMLDivElement>(null);
+    const requestRef = useRef<HTMLDivElement>(null);
 
     const isTon = active === BLOCKCHAIN_NAME.TON || !tron;
-    const nodeRef = isTon ? tonRef : tronRef;
-    const state = isTon ? 'ton' : 'tron';
+    const state = isTon ? (isRequest ? 'request' : 'ton') : 'tron';
+    const nodeRef = { ton: tonRef, tron: tronRef, request: requestRef }[state];
 
     return (
         <FullHeightBlockResponsive standalone={standalone}>
@@ -238,7 +250,7 @@ export const ReceiveContent: FC<{
                 </NotificationHeader>
             </NotificationHeaderPortal>
             <Wrapper standalone={false} extension fullWidth>
-                <TransitionGroup childFactory={childFactoryCreator(!isTon)}>
+                <TransitionGroup childFactory={childFactoryCreator(state !== 'ton')}>
                     <CSSTransition
                         key={state}
                         nodeRef={nodeRef}
@@ -248,7 +260,16 @@ export const ReceiveContent: FC<{
                         }}
                     >
                         <div ref={nodeRef}>
-                            {isTon ? <ReceiveTon jetton={jetton} /> : <ReceiveTron tron={tron} />}
+                            {state === 'ton' && (
+                                <ReceiveTon jetton={jetton} onRequest={() => setIsRequest(true)} />
+                            )}
+                            {state === 'request' && (
+                                <PaymentRequestContent
+                                    jetton={jetton}
+                                    onBack={() => setIsRequest(false)}
+                                />
+                            )}
+                            {state === 'tron' && tron && <ReceiveTron tron={tron} />}
                         </div>
                     </CSSTransition>
                 </TransitionGroup>
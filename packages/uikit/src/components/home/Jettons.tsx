@@ -1,6 +1,12 @@
 import { Address } from '@ton/core';
 import { CryptoCurrency } from '@tonkeeper/core/dist/entries/crypto';
-import { Account, JettonBalance, JettonsBalances } from '@tonkeeper/core/dist/tonApiV2';
+import { inscriptionTypeName } from '@tonkeeper/core/dist/service/inscriptionService';
+import {
+    Account,
+    InscriptionBalance,
+    JettonBalance,
+    JettonsBalances
+} from '@tonkeeper/core/dist/tonApiV2';
 import { TronBalances } from '@tonkeeper/core/dist/tronApi';
 import { formatDecimals } from '@tonkeeper/core/dist/utils/balance';
 import { FC, forwardRef, useMemo } from 'react';
@@ -8,9 +14,10 @@ import { useNavigate } from 'react-router-dom';
 import { useFormatBalance } from '../../hooks/balance';
 import { useTranslation } from '../../hooks/translation';
 import { AppRoute } from '../../libs/routes';
+import { useInscriptions } from '../../state/inscription';
 import { useFormatFiat, useRate } from '../../state/rates';
 import { ListBlock, ListItem } from '../List';
-import { ListItemPayload, TokenLayout, TokenLogo } from './TokenLayout';
+import { InscriptionLogo, ListItemPayload, TokenLayout, TokenLogo } from './TokenLayout';
 
 export interface TonAssetData {
     info: Account;
@@ -105,12 +112,52 @@ export const JettonAsset = forwardRef<
     );
 });
 
+export const InscriptionAsset = forwardRef<
+    HTMLDivElement,
+    {
+        inscription: InscriptionBalance;
+        className?: string;
+    }
+>(({ inscription, className }, ref) => {
+    const { t } = useTranslation();
+    const navigate = useNavigate();
+
+    const amount = useMemo(
+        () => formatDecimals(inscription.balance, inscription.decimals),
+        [inscription]
+    );
+    const balance = useFormatBalance(amount, inscription.decimals);
+
+    return (
+        <ListItem
+            onClick={() =>
+                navigate(AppRoute.inscriptions + `/${encodeURIComponent(inscription.ticker)}`)
+            }
+            className={className}
+            ref={ref}
+        >
+            <ListItemPayload>
+                <InscriptionLogo>{inscription.ticker.slice(0, 1)}</InscriptionLogo>
+                <TokenLayout
+                    name={inscription.ticker}
+                    label={inscriptionTypeName(inscription.type)}
+                    balance={balance}
+                    secondary={t('inscription_no_price')}
+                    rate={undefined}
+                />
+            </ListItemPayload>
+        </ListItem>
+    );
+});
+
 export const JettonList: FC<AssetProps> = ({
     assets: {
         ton: { info, jettons },
         tron: _tron
     }
 }) => {
+    const { data: inscriptions } = useInscriptions();
+
     return (
         <>
             <ListBlock noUserSelect>
@@ -123,6 +170,16 @@ export const JettonList: FC<AssetProps> = ({
                     <JettonAsset key={jetton.jetton.address} jetton={jetton} />
                 ))}
             </ListBlock>
+            {inscriptions && inscriptions.length > 0 && (
+                <ListBlock noUserSelect>
+                    {inscriptions.map(inscription => (
+                        <InscriptionAsset
+                            key={`${inscription.type}-${inscription.ticker}`}
+                            inscription={inscription}
+                        />
+                    ))}
+                </ListBlock>
+            )}
         </>
     );
 };
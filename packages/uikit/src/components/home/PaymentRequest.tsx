@@ -0,0 +1,324 @@
+import { TON_ASSET } from '@tonkeeper/core/dist/entries/crypto/asset/constants';
+import {
+    jettonToTonAsset,
+    TonAsset,
+    tonAssetAddressToString
+} from '@tonkeeper/core/dist/entries/crypto/asset/ton-asset';
+import {
+    formatPaymentRequestLink,
+    formatPaymentRequestUrl,
+    PaymentRequest,
+    seeIfPaymentRequestExpired
+} from '@tonkeeper/core/dist/service/paymentRequestService';
+import { shiftedDecimals, unShiftedDecimals } from '@tonkeeper/core/dist/utils/balance';
+import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
+import BigNumber from 'bignumber.js';
+import React, { FC, useEffect, useState } from 'react';
+import { QRCode } from 'react-qrcode-logo';
+import styled from 'styled-components';
+import { useAppContext } from '../../hooks/appContext';
+import { useAppSdk } from '../../hooks/appSdk';
+import { formatter } from '../../hooks/balance';
+import { useTranslation } from '../../hooks/translation';
+import { useJettonList } from '../../state/jetton';
+import { usePaymentRequestPayment } from '../../state/paymentRequest';
+import { useActiveTonNetwork, useActiveWallet } from '../../state/wallet';
+import { DropDownList } from '../DropDown';
+import { CopyIcon, SwitchIcon } from '../Icon';
+import { NotificationBlock } from '../Notification';
+import { Body2, Label1 } from '../Text';
+import { AssetSelect } from '../desktop/multi-send/AssetSelect';
+import { Button } from '../fields/Button';
+import { Input } from '../fields/Input';
+import { AddressText, Background, HeaderBlock } from './AccountView';
+import { QrWrapper } from './qrCodeView';
+
+const expiryOptions: { label: string; seconds?: number }[] = [
+    { label: 'payment_request_expiry_never' },
+    { label: 'payment_request_expiry_15m', seconds: 15 * 60 },
+    { label: 'payment_request_expiry_1h', seconds: 60 * 60 },
+    { label: 'payment_request_expiry_1d', seconds: 24 * 60 * 60 },
+    { label: 'payment_request_expiry_7d', seconds: 7 * 24 * 60 * 60 }
+];
+
+const FieldRow = styled.div`
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    width: 100%;
+`;
+
+const ButtonsBlock = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 0.5rem;
+    width: 100%;
+`;
+
+const ButtonsRow = styled.div`
+    display: flex;
+    gap: 0.5rem;
+    width: 100%;
+
+    > * {
+        flex: 1;
+    }
+`;
+
+const Status = styled(Label1)<{ status: 'waiting' | 'paid' | 'expired' }>`
+    color: ${props =>
+        props.status === 'paid'
+            ? props.theme.accentGreen
+            : props.status === 'expired'
+            ? props.theme.accentRed
+            : props.theme.textSecondary};
+`;
+
+const Secondary = styled(Body2)`
+    color: ${props => props.theme.textSecondary};
+    text-align: center;
+`;
+
+const createInvoiceId = () => `INV-${Date.now().toString(36).toUpperCase()}`;
+
+/**
+ * Nano amount of the input, undefined for the empty input and null for the invalid one
+ */
+const parseAmount = (value: string, decimals: number) => {
+    if (!value.trim()) return undefined;
+    const amount = new BigNumber(value.trim().replace(',', '.'));
+    if (!amount.isFinite() || amount.lte(0) || (amount.decimalPlaces() ?? 0) > decimals) {
+        return null;
+    }
+    return unShiftedDecimals(amount, decimals).toFixed(0);
+};
+
+const useInitAsset = (jetton?: string) => {
+    const { data: jettons } = useJettonList();
+    if (!jetton || !jettons) return TON_ASSET;
+    try {
+        return jettonToTonAsset(jetton, jettons);
+    } catch (e) {
+        return TON_ASSET;
+    }
+};
+
+const PaymentRequestForm: FC<{
+    asset: TonAsset;
+    setAsset: (asset: TonAsset) => void;
+    onCreate: (request: PaymentRequest) => void;
+    onBack: () => void;
+}> = ({ asset, setAsset, onCreate, onBack }) => {
+    const { t } = useTranslation();
+    const wallet = useActiveWallet();
+    const network = useActiveTonNetwork();
+
+    const [amount, setAmount] = useState('');
+    const [comment, setComment] = useState(createInvoiceId);
+    const [expiry, setExpiry] = useState(expiryOptions[0]);
+
+    const nanoAmount = parseAmount(amount, asset.decimals);
+    const isValid = nanoAmount !== null && !!comment.trim();
+
+    const onSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isValid) return;
+
+        const createdAt = Math.floor(Date.now() / 1000);
+        onCreate({
+            address: formatAddress(wallet.rawAddress, network),
+            jetton: asset.address === 'TON' ? undefined : tonAssetAddressToString(asset.address),
+            amount: nanoAmount,
+            comment: comment.trim(),
+            exp: expiry.seconds ? createdAt + expiry.seconds : undefined,
+            createdAt
+        });
+    };
+
+    return (
+        <NotificationBlock onSubmit={onSubmit}>
+            <HeaderBlock
+                title={t('payment_request_title')}
+                description={t('payment_request_description')}
+            />
+            <FieldRow>
+                <Label1>{t('payment_request_asset')}</Label1>
+                <AssetSelect asset={asset} onAssetChange={setAsset} />
+            </FieldRow>
+            <Input
+                value={amount}
+                onChange={setAmount}
+                label={t('payment_request_amount').replace('%{symbol}', asset.symbol)}
+                isValid={nanoAmount !== null}
+            />
+            <Input
+                value={comment}
+                onChange={setComment}
+                label={t('payment_request_comment')}
+                isValid={!!comment.trim()}
+            />
+            <FieldRow>
+                <Label1>{t('payment_request_expiry')}</Label1>
+                <DropDownList
+                    options={expiryOptions}
+                    renderOption={option => t(option.label)}
+                    onSelect={setExpiry}
+                >
+                    <Button secondary size="small" type="button">
+                        {t(expiry.label)}
+                        <SwitchIcon />
+                    </Button>
+                </DropDownList>
+            </FieldRow>
+            <ButtonsBlock>
+                <Button primary fullWidth type="submit" disabled={!isValid}>
+                    {t('payment_request_create')}
+                </Button>
+                <Button secondary fullWidth type="button" onClick={onBack}>
+                    {t('payment_request_back')}
+                </Button>
+            </ButtonsBlock>
+        </NotificationBlock>
+    );
+};
+
+const usePaymentRequestExpired = (request: PaymentRequest) => {
+    const [expired, setExpired] = useState(() => seeIfPaymentRequestExpired(request));
+
+    useEffect(() => {
+        setExpired(seeIfPaymentRequestExpired(request));
+        if (request.exp === undefined) return;
+
+        const timer = setTimeout(
+            () => setExpired(true),
+            Math.max(request.exp * 1000 - Date.now(), 0)
+        );
+        return () => clearTimeout(timer);
+    }, [request]);
+
+    return expired;
+};
+
+const PaymentRequestView: FC<{
+    request: PaymentRequest;
+    asset: TonAsset;
+    onNew: () => void;
+}> = ({ request, asset, onNew }) => {
+    const sdk = useAppSdk();
+    const { t } = useTranslation();
+    const { extension } = useAppContext();
+    const network = useActiveTonNetwork();
+    const { data: payment } = usePaymentRequestPayment(request);
+    const expired = usePaymentRequestExpired(request);
+
+    const link = formatPaymentRequestLink(request);
+    const canShare = typeof navigator !== 'undefined' && typeof navigator.share === 'function';
+
+    const amount = request.amount
+        ? `${formatter.format(shiftedDecimals(request.amount, asset.decimals), {
+              decimals: asset.decimals
+          })} ${asset.symbol}`
+        : t('payment_request_any_amount').replace('%{symbol}', asset.symbol);
+
+    const status = payment ? 'paid' : expired ? 'expired' : 'waiting';
+    const sender = payment?.sender
+        ? payment.sender.name ?? toShortValue(formatAddress(payment.sender.address, network))
+        : undefined;
+
+    const onCopy = () => sdk.copyToClipboard(link, t('payment_request_link_copied'));
+
+    const onShare = () => {
+        navigator
+            .share({ title: t('payment_request_title'), text: request.comment, url: link })
+            .catch(() => undefined);
+    };
+
+    return (
+        <NotificationBlock>
+            <HeaderBlock title={amount} description={request.comment} />
+            <Background
+                extension={extension}
+                onClick={e => {
+                    e.preventDefault();
+                    onCopy();
+                }}
+            >
+                <QrWrapper>
+                    <QRCode
+                        size={400}
+                        value={formatPaymentRequestUrl(request)}
+                        logoImage={asset.image}
+                        logoPadding={8}
+                        qrStyle="dots"
+                        eyeRadius={{
+                            inner: 2,
+                            outer: 16
+                        }}
+                    />
+                </QrWrapper>
+                <AddressText extension={extension}>{request.address}</AddressText>
+            </Background>
+            <Status status={status}>{t(`payment_request_status_${status}`)}</Status>
+            {payment && sender && (
+                <Secondary>{t('payment_request_paid_by').replace('%{sender}', sender)}</Secondary>
+            )}
+            <ButtonsBlock>
+                <ButtonsRow>
+                    <Button
+                        secondary
+                        type="button"
+                        onClick={e => {
+                            e.preventDefault();
+                            onCopy();
+                        }}
+                    >
+                        <CopyIcon />
+                        <span>{t('payment_request_copy_link')}</span>
+                    </Button>
+                    {canShare && (
+                        <Button secondary type="button" onClick={onShare}>
+                            {t('payment_request_share')}
+                        </Button>
+                    )}
+                </ButtonsRow>
+                <Button secondary fullWidth type="button" onClick={onNew}>
+                    {t('payment_request_new')}
+                </Button>
+            </ButtonsBlock>
+        </NotificationBlock>
+    );
+};
+
+/**
+ * Receive-side invoice: builds the transfer link with the amount, comment and expiry
+ * and tracks the incoming transfer with the comment
+ */
+export const PaymentRequestContent: FC<{ jetton?: string; onBack: () => void }> = ({
+    jetton,
+    onBack
+}) => {
+    const initAsset = useInitAsset(jetton);
+    const [asset, setAsset] = useState<TonAsset | undefined>(undefined);
+    const [request, setRequest] = useState<PaymentRequest | undefined>(undefined);
+
+    const activeAsset = asset ?? initAsset;
+
+    if (request) {
+        return (
+            <PaymentRequestView
+                request={request}
+                asset={activeAsset}
+                onNew={() => setRequest(undefined)}
+            />
+        );
+    }
+
+    return (
+        <PaymentRequestForm
+            asset={activeAsset}
+            setAsset={setAsset}
+            onCreate={setRequest}
+            onBack={onBack}
+        />
+    );
+};
@@ -5,6 +5,7 @@ import { useSwapMobileNotification } from '../../state/swap/useSwapMobileNotific
 import { styled } from 'styled-components';
 import { TonAsset } from '@tonkeeper/core/dist/entries/crypto/asset/ton-asset';
 import { useSwapFromAsset } from '../../state/swap/useSwapForm';
+import { useIsActiveAccountWatchOnly } from '../../state/watchOnly';
 
 const SwapIconStyled = styled(SwapIcon)`
     height: 24px;
@@ -15,6 +16,7 @@ const SwapIconStyled = styled(SwapIcon)`
 export const SwapAction: FC<{ fromAsset?: TonAsset }> = ({ fromAsset }) => {
     const [_, setIsOpen] = useSwapMobileNotification();
     const [__, setFromAsset] = useSwapFromAsset();
+    const isWatchOnly = useIsActiveAccountWatchOnly();
 
     const onAction = () => {
         if (fromAsset) {
@@ -24,5 +26,12 @@ export const SwapAction: FC<{ fromAsset?: TonAsset }> = ({ fromAsset }) => {
         setIsOpen(true);
     };
 
-    return <Action icon={<SwapIconStyled />} title={'swap_title'} action={onAction} />;
+    return (
+        <Action
+            icon={<SwapIconStyled />}
+            title={'swap_title'}
+            disabled={isWatchOnly}
+            action={onAction}
+        />
+    );
 };
@@ -24,6 +24,21 @@ export const TokenLogo = styled.img`
     pointer-events: none;
 `;
 
+export const InscriptionLogo = styled(Label1)`
+    flex-shrink: 0;
+    width: 44px;
+    height: 44px;
+    border-radius: ${props => props.theme.cornerFull};
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    background: ${props => props.theme.backgroundContentTint};
+    color: ${props => props.theme.textSecondary};
+    text-transform: uppercase;
+
+    pointer-events: none;
+`;
+
 const Description = styled.div`
     flex-grow: 1;
 
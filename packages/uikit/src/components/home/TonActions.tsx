@@ -1,5 +1,11 @@
 import { BLOCKCHAIN_NAME } from '@tonkeeper/core/dist/entries/crypto';
 import React, { FC } from 'react';
+import styled from 'styled-components';
+import { useTranslation } from '../../hooks/translation';
+import { useActiveMultisigAccount } from '../../state/multisig';
+import { useIsActiveAccountWatchOnly } from '../../state/watchOnly';
+import { MultisigOrdersSummary } from '../multisig/MultisigOrdersSummary';
+import { Body2 } from '../Text';
 import { SendAction } from '../transfer/SendActionButton';
 import { ActionsRow } from './Actions';
 import { BuyAction } from './BuyAction';
@@ -7,14 +13,32 @@ import { ReceiveAction } from './ReceiveAction';
 import { SwapAction } from './SwapAction';
 import { TON_ASSET } from '@tonkeeper/core/dist/entries/crypto/asset/constants';
 
+const WatchOnlyNotice = styled(Body2)`
+    display: block;
+    margin: -1rem 0 2rem;
+    text-align: center;
+    color: ${p => p.theme.textSecondary};
+`;
+
 export const HomeActions: FC<{ chain?: BLOCKCHAIN_NAME }> = ({ chain }) => {
+    const { t } = useTranslation();
+    const isWatchOnly = useIsActiveAccountWatchOnly();
+    const multisigAccount = useActiveMultisigAccount();
+
     return (
-        <ActionsRow>
-            <BuyAction />
-            <SendAction asset="TON" chain={chain} />
-            <ReceiveAction />
-            <SwapAction fromAsset={TON_ASSET} />
-            {/* <SellAction sell={sell} /> */}
-        </ActionsRow>
+        <>
+            <ActionsRow>
+                <BuyAction />
+                <SendAction asset="TON" chain={chain} />
+                <ReceiveAction />
+                <SwapAction fromAsset={TON_ASSET} />
+                {/* <SellAction sell={sell} /> */}
+            </ActionsRow>
+            {multisigAccount ? (
+                <MultisigOrdersSummary account={multisigAccount} />
+            ) : (
+                isWatchOnly && <WatchOnlyNotice>{t('watch_only_notice')}</WatchOnlyNotice>
+            )}
+        </>
     );
 };
@@ -0,0 +1,250 @@
+import { BLOCKCHAIN_NAME } from '@tonkeeper/core/dist/entries/crypto';
+import { AssetAmount } from '@tonkeeper/core/dist/entries/crypto/asset/asset-amount';
+import { TON_ASSET } from '@tonkeeper/core/dist/entries/crypto/asset/constants';
+import { TonRecipientData } from '@tonkeeper/core/dist/entries/send';
+import {
+    InscriptionTransferError,
+    validateInscriptionTransfer
+} from '@tonkeeper/core/dist/service/inscriptionService';
+import { InscriptionBalance } from '@tonkeeper/core/dist/tonApiV2';
+import { formatDecimals } from '@tonkeeper/core/dist/utils/balance';
+import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
+import React, { FC, useCallback, useState } from 'react';
+import styled from 'styled-components';
+import { useAppSdk } from '../../hooks/appSdk';
+import { useFormatBalance } from '../../hooks/balance';
+import { useTranslation } from '../../hooks/translation';
+import { useInscriptions, useInscriptionTransferTemplate } from '../../state/inscription';
+import { useActiveTonNetwork } from '../../state/wallet';
+import { ListItem, ListItemPayload } from '../List';
+import { Notification, NotificationBlock } from '../Notification';
+import { Body2, Label1 } from '../Text';
+import { Button } from '../fields/Button';
+import { Input } from '../fields/Input';
+import { AmountListItem } from '../transfer/ConfirmListItem';
+import { ConfirmTransferView } from '../transfer/ConfirmTransferView';
+import {
+    ConfirmViewButtons,
+    ConfirmViewButtonsSlot,
+    ConfirmViewDetailsFee,
+    ConfirmViewDetailsSlot,
+    ConfirmViewHeading,
+    ConfirmViewHeadingSlot
+} from '../transfer/ConfirmView';
+import { useGetToAccount } from '../transfer/RecipientView';
+import { ConfirmAndCancelMainButton, Label } from '../transfer/common';
+
+const Description = styled(Body2)`
+    display: block;
+    color: ${p => p.theme.textSecondary};
+`;
+
+const ErrorText = styled(Body2)`
+    color: ${p => p.theme.accentRed};
+`;
+
+type InscriptionTransfer = {
+    amount: string;
+    recipient: string;
+    /**
+     * Plain TON transfer carrying the op template comment
+     */
+    message: TonRecipientData;
+};
+
+const InscriptionRecipientItem: FC<{ address: string }> = ({ address }) => {
+    const { t } = useTranslation();
+    const sdk = useAppSdk();
+    const network = useActiveTonNetwork();
+    const value = formatAddress(address, network);
+
+    return (
+        <ListItem onClick={() => sdk.copyToClipboard(value, t('address_copied'))}>
+            <ListItemPayload>
+                <Label>{t('txActions_signRaw_recipient')}</Label>
+                <Label1>{toShortValue(value)}</Label1>
+            </ListItemPayload>
+        </ListItem>
+    );
+};
+
+const InscriptionSendConfirm: FC<{
+    inscription: InscriptionBalance;
+    transfer: InscriptionTransfer;
+    onBack: () => void;
+    onClose: (confirmed?: boolean) => void;
+}> = ({ inscription, transfer, onBack, onClose }) => {
+    const amount = `${transfer.amount} ${inscription.ticker}`;
+
+    return (
+        <ConfirmTransferView
+            onClose={onClose}
+            onBack={onBack}
+            recipient={transfer.message}
+            assetAmount={new AssetAmount({ asset: TON_ASSET, weiAmount: 0 })}
+            isMax={false}
+            fitContent
+        >
+            <ConfirmViewHeadingSlot>
+                <ConfirmViewHeading title={amount} />
+            </ConfirmViewHeadingSlot>
+            <ConfirmViewDetailsSlot>
+                <InscriptionRecipientItem address={transfer.recipient} />
+                <AmountListItem coinAmount={amount} />
+                <ConfirmViewDetailsFee />
+            </ConfirmViewDetailsSlot>
+            <ConfirmViewButtonsSlot>
+                <ConfirmViewButtons MainButton={ConfirmAndCancelMainButton} />
+            </ConfirmViewButtonsSlot>
+        </ConfirmTransferView>
+    );
+};
+
+const errorMessages: Record<InscriptionTransferError, string> = {
+    'unknown-ticker': 'inscription_error_unknown_ticker',
+    'invalid-amount': 'inscription_error_invalid_amount',
+    'insufficient-balance': 'inscription_error_insufficient_balance',
+    'invalid-recipient': 'inscription_error_invalid_recipient'
+};
+
+const InscriptionSendContent: FC<{
+    inscription: InscriptionBalance;
+    onClose: (confirmed?: boolean) => void;
+}> = ({ inscription, onClose }) => {
+    const { t } = useTranslation();
+    const { data: inscriptions } = useInscriptions();
+    const [recipient, setRecipient] = useState('');
+    const [amount, setAmount] = useState('');
+    const [transfer, setTransfer] = useState<InscriptionTransfer | undefined>();
+
+    const {
+        mutateAsync: getTemplate,
+        isLoading: isTemplateLoading,
+        isError: isTemplateError
+    } = useInscriptionTransferTemplate();
+    const {
+        mutateAsync: getToAccount,
+        isLoading: isAccountLoading,
+        isError: isAccountError
+    } = useGetToAccount();
+
+    const balance = useFormatBalance(
+        formatDecimals(inscription.balance, inscription.decimals),
+        inscription.decimals
+    );
+
+    if (transfer) {
+        return (
+            <InscriptionSendConfirm
+                inscription={inscription}
+                transfer={transfer}
+                onBack={() => setTransfer(undefined)}
+                onClose={onClose}
+            />
+        );
+    }
+
+    const error = validateInscriptionTransfer(inscriptions ?? [inscription], {
+        ticker: inscription.ticker,
+        amount,
+        recipient
+    });
+    const visibleError =
+        (error === 'invalid-recipient' && recipient !== '') ||
+        (error !== 'invalid-recipient' && amount !== '')
+            ? error
+            : undefined;
+
+    const onSubmit: React.FormEventHandler<HTMLFormElement> = async e => {
+        e.preventDefault();
+        if (error) return;
+
+        const template = await getTemplate({ inscription, amount, recipient }).catch(
+            () => undefined
+        );
+        if (!template) return;
+
+        const toAccount = await getToAccount({ address: template.destination }).catch(
+            () => undefined
+        );
+        if (!toAccount) return;
+
+        setTransfer({
+            amount: amount.trim(),
+            recipient: recipient.trim(),
+            message: {
+                address: { address: template.destination, blockchain: BLOCKCHAIN_NAME.TON },
+                toAccount,
+                comment: template.comment,
+                done: true
+            }
+        });
+    };
+
+    return (
+        <NotificationBlock onSubmit={onSubmit}>
+            <Description>
+                {t('inscription_send_description')
+                    .replace('%{balance}', balance)
+                    .replace('%{ticker}', inscription.ticker)}
+            </Description>
+            <Input
+                label={t('transaction_recipient_address')}
+                value={recipient}
+                onChange={setRecipient}
+                isValid={visibleError !== 'invalid-recipient'}
+            />
+            <Input
+                label={t('inscription_send_amount').replace('%{ticker}', inscription.ticker)}
+                value={amount}
+                onChange={setAmount}
+                isValid={visibleError === undefined || visibleError === 'invalid-recipient'}
+            />
+            {visibleError && <ErrorText>{t(errorMessages[visibleError])}</ErrorText>}
+            {(isTemplateError || isAccountError) && (
+                <ErrorText>{t('inscription_send_error')}</ErrorText>
+            )}
+            <Button
+                type="submit"
+                size="large"
+                primary
+                fullWidth
+                disabled={error !== undefined}
+                loading={isTemplateLoading || isAccountLoading}
+            >
+                {t('continue')}
+            </Button>
+        </NotificationBlock>
+    );
+};
+
+/**
+ * Inscription transfer is a regular TON transfer with the operation written to the comment,
+ * so it goes through the same estimation and signing as sending TON
+ */
+export const InscriptionSendNotification: FC<{
+    inscription: InscriptionBalance | undefined;
+    handleClose: () => void;
+}> = ({ inscription, handleClose }) => {
+    const { t } = useTranslation();
+
+    const Content = useCallback(
+        (onClose: () => void) =>
+            inscription ? (
+                <InscriptionSendContent inscription={inscription} onClose={() => onClose()} />
+            ) : undefined,
+        [inscription]
+    );
+
+    return (
+        <Notification
+            isOpen={inscription !== undefined}
+            handleClose={handleClose}
+            title={inscription ? `${t('wallet_send')} ${inscription.ticker}` : undefined}
+            hideButton
+            backShadow
+        >
+            {Content}
+        </Notification>
+    );
+};
@@ -7,6 +7,7 @@ import { Dot } from '../Dot';
 import { useAppContext } from '../../hooks/appContext';
 import { useAppSdk } from '../../hooks/appSdk';
 import { useTranslation } from '../../hooks/translation';
+import { LedgerBatchProgress } from '@tonkeeper/core/dist/service/ledger/connector';
 
 const CardStyled = styled.div`
     box-sizing: border-box;
@@ -65,9 +66,10 @@ const AStyled = styled.span`
 
 export const LedgerConnectionSteps: FC<{
     showConfirmTxStep?: boolean;
+    confirmTxProgress?: LedgerBatchProgress;
     currentStep: 'connect' | 'open-ton' | 'confirm-tx' | 'all-completed';
     className?: string;
-}> = ({ currentStep, showConfirmTxStep, className }) => {
+}> = ({ currentStep, showConfirmTxStep, confirmTxProgress, className }) => {
     const { config } = useAppContext();
     const { t } = useTranslation();
 
@@ -142,7 +144,11 @@ export const LedgerConnectionSteps: FC<{
                             }
                         />
                         <Body2Colored isCompleted={currentStep === 'all-completed'}>
-                            {t('ledger_steps_confirm_tx')}
+                            {confirmTxProgress
+                                ? t('ledger_steps_confirm_tx_of')
+                                      .replace('%{index}', String(confirmTxProgress.index + 1))
+                                      .replace('%{total}', String(confirmTxProgress.total))
+                                : t('ledger_steps_confirm_tx')}
                         </Body2Colored>
                     </TextBlockStyled>
                 )}
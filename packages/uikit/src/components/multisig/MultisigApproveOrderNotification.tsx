@@ -0,0 +1,191 @@
+import { AccountTonWalletStandard } from '@tonkeeper/core/dist/entries/account';
+import { AssetAmount } from '@tonkeeper/core/dist/entries/crypto/asset/asset-amount';
+import { TON_ASSET } from '@tonkeeper/core/dist/entries/crypto/asset/constants';
+import {
+    multisigApproveAmount,
+    MultisigOrderAction
+} from '@tonkeeper/core/dist/service/transfer/multisigOrderService';
+import { MultisigOrder } from '@tonkeeper/core/dist/tonApiV2';
+import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
+import React, { FC, useCallback } from 'react';
+import styled from 'styled-components';
+import {
+    useApproveMultisigOrder,
+    useEstimateMultisigApprove
+} from '../../hooks/blockchain/multisig/useMultisigOrder';
+import { useTonRecipient } from '../../hooks/blockchain/useTonRecipient';
+import { useTranslation } from '../../hooks/translation';
+import { useMultisigOrderActions } from '../../state/multisig';
+import { useActiveTonNetwork } from '../../state/wallet';
+import { ColumnText } from '../Layout';
+import { ListItem, ListItemPayload } from '../List';
+import { Notification } from '../Notification';
+import { Body2 } from '../Text';
+import { TransferComment } from '../activity/ActivityDetailsLayout';
+import { Label } from '../activity/NotificationCommon';
+import {
+    ConfirmView,
+    ConfirmViewButtons,
+    ConfirmViewButtonsSlot,
+    ConfirmViewDetailsFee,
+    ConfirmViewDetailsSlot,
+    ConfirmViewHeading,
+    ConfirmViewHeadingSlot
+} from '../transfer/ConfirmView';
+import { BocListItem } from '../transfer/ConfirmListItem';
+import { ConfirmAndCancelMainButton } from '../transfer/common';
+
+const Warning = styled(Body2)`
+    display: block;
+    margin-bottom: 1rem;
+    color: ${p => p.theme.accentOrange};
+`;
+
+type ApproveOrder = {
+    hostAccount: AccountTonWalletStandard;
+    order: MultisigOrder;
+    signerIndex: number;
+};
+
+const MultisigOrderActionItem: FC<{ action: MultisigOrderAction; index: number }> = ({
+    action,
+    index
+}) => {
+    const { t } = useTranslation();
+    const network = useActiveTonNetwork();
+
+    switch (action.type) {
+        case 'transfer': {
+            const amount = new AssetAmount({
+                asset: TON_ASSET,
+                weiAmount: action.value.toString()
+            });
+            return (
+                <>
+                    <ListItem hover={false}>
+                        <ListItemPayload>
+                            <Label>
+                                {t('multisig_order_action_transfer').replace(
+                                    '%{index}',
+                                    String(index + 1)
+                                )}
+                            </Label>
+                            <ColumnText
+                                right
+                                text={amount.stringAssetRelativeAmount}
+                                secondary={toShortValue(formatAddress(action.to, network))}
+                            />
+                        </ListItemPayload>
+                    </ListItem>
+                    {action.payload ? (
+                        <BocListItem label={t('transfer_link_payload')} boc={action.payload} />
+                    ) : (
+                        <TransferComment comment={action.comment} />
+                    )}
+                </>
+            );
+        }
+        case 'update-params':
+            return (
+                <ListItem hover={false}>
+                    <ListItemPayload>
+                        <Label>
+                            {t('multisig_order_action_update_params').replace(
+                                '%{threshold}',
+                                String(action.threshold)
+                            )}
+                        </Label>
+                    </ListItemPayload>
+                </ListItem>
+            );
+        default:
+            return (
+                <ListItem hover={false}>
+                    <ListItemPayload>
+                        <Label>
+                            {t('multisig_order_action_unknown').replace(
+                                '%{op}',
+                                `0x${action.op.toString(16).padStart(8, '0')}`
+                            )}
+                        </Label>
+                    </ListItemPayload>
+                </ListItem>
+            );
+    }
+};
+
+const MultisigApproveOrderConfirm: FC<
+    ApproveOrder & {
+        onClose: (confirmed?: boolean) => void;
+    }
+> = ({ onClose, ...args }) => {
+    const { t } = useTranslation();
+    const { recipient } = useTonRecipient(args.order.address);
+    const actions = useMultisigOrderActions(args.order);
+    const estimation = useEstimateMultisigApprove(args);
+    const { mutateAsync, ...mutation } = useApproveMultisigOrder();
+
+    const hasUnknownActions = actions.data?.some(action => action.type === 'unknown');
+
+    return (
+        <ConfirmView
+            onClose={onClose}
+            recipient={recipient}
+            assetAmount={
+                new AssetAmount({ asset: TON_ASSET, weiAmount: multisigApproveAmount.toString() })
+            }
+            fitContent
+            estimation={{
+                ...estimation,
+                // the order is signed only after its actions are shown
+                isFetching: estimation.isFetching || actions.isLoading,
+                error: estimation.error || actions.error
+            }}
+            mutateAsync={() => mutateAsync({ ...args, estimation: estimation.data! })}
+            {...mutation}
+        >
+            <ConfirmViewHeadingSlot>
+                <ConfirmViewHeading
+                    title={t('multisig_order_approve_title').replace(
+                        '%{seqno}',
+                        String(args.order.orderSeqno)
+                    )}
+                />
+                {hasUnknownActions && <Warning>{t('multisig_order_unknown_actions')}</Warning>}
+            </ConfirmViewHeadingSlot>
+            <ConfirmViewDetailsSlot>
+                {actions.data?.map((action, index) => (
+                    <MultisigOrderActionItem key={index} action={action} index={index} />
+                ))}
+                <ConfirmViewDetailsFee />
+            </ConfirmViewDetailsSlot>
+            <ConfirmViewButtonsSlot>
+                <ConfirmViewButtons MainButton={ConfirmAndCancelMainButton} />
+            </ConfirmViewButtonsSlot>
+        </ConfirmView>
+    );
+};
+
+export const MultisigApproveOrderNotification: FC<{
+    approve: ApproveOrder | undefined;
+    handleClose: () => void;
+}> = ({ approve, handleClose }) => {
+    const Content = useCallback(
+        (onClose: () => void) =>
+            approve ? (
+                <MultisigApproveOrderConfirm {...approve} onClose={() => onClose()} />
+            ) : undefined,
+        [approve]
+    );
+
+    return (
+        <Notification
+            isOpen={approve !== undefined}
+            handleClose={handleClose}
+            hideButton
+            backShadow
+        >
+            {Content}
+        </Notification>
+    );
+};
@@ -0,0 +1,176 @@
+import { AccountTonWalletStandard } from '@tonkeeper/core/dist/entries/account';
+import { AssetAmount } from '@tonkeeper/core/dist/entries/crypto/asset/asset-amount';
+import { TON_ASSET } from '@tonkeeper/core/dist/entries/crypto/asset/constants';
+import { MultisigRole } from '@tonkeeper/core/dist/service/multisigService';
+import {
+    multisigDefaultOrderLifetime,
+    MultisigOrderTransfer
+} from '@tonkeeper/core/dist/service/transfer/multisigOrderService';
+import { Multisig } from '@tonkeeper/core/dist/tonApiV2';
+import { unShiftedDecimals } from '@tonkeeper/core/dist/utils/balance';
+import { seeIfValidTonAddress } from '@tonkeeper/core/dist/utils/common';
+import BigNumber from 'bignumber.js';
+import React, { FC, useCallback, useState } from 'react';
+import styled from 'styled-components';
+import {
+    useEstimateMultisigNewOrder,
+    useSendMultisigNewOrder
+} from '../../hooks/blockchain/multisig/useMultisigOrder';
+import { useTonRecipient } from '../../hooks/blockchain/useTonRecipient';
+import { useTranslation } from '../../hooks/translation';
+import { Notification, NotificationBlock } from '../Notification';
+import { Body2 } from '../Text';
+import { Button } from '../fields/Button';
+import { Input } from '../fields/Input';
+import { ConfirmView, ConfirmViewButtons, ConfirmViewButtonsSlot } from '../transfer/ConfirmView';
+import { ConfirmAndCancelMainButton } from '../transfer/common';
+
+const Description = styled(Body2)`
+    display: block;
+    color: ${p => p.theme.textSecondary};
+`;
+
+const parseTonAmount = (value: string) => {
+    const amount = new BigNumber(value.trim().replace(',', '.'));
+    if (!amount.isFinite() || amount.isLessThanOrEqualTo(0)) {
+        return undefined;
+    }
+    return unShiftedDecimals(amount).integerValue(BigNumber.ROUND_DOWN);
+};
+
+type NewOrderHost = {
+    hostAccount: AccountTonWalletStandard;
+    multisig: Multisig;
+    role: MultisigRole;
+};
+
+const MultisigNewOrderConfirm: FC<
+    NewOrderHost & {
+        transfer: MultisigOrderTransfer;
+        expirationDate: number;
+        onBack: () => void;
+        onClose: (confirmed?: boolean) => void;
+    }
+> = ({ transfer, expirationDate, onBack, onClose, ...host }) => {
+    const { recipient } = useTonRecipient(transfer.to);
+    const args = { ...host, transfers: [transfer], expirationDate };
+    const estimation = useEstimateMultisigNewOrder(args);
+    const { mutateAsync, ...mutation } = useSendMultisigNewOrder();
+
+    return (
+        <ConfirmView
+            onClose={onClose}
+            onBack={onBack}
+            recipient={{ ...recipient, comment: transfer.comment ?? '' }}
+            assetAmount={new AssetAmount({ asset: TON_ASSET, weiAmount: transfer.value })}
+            fitContent
+            estimation={estimation}
+            mutateAsync={() => mutateAsync({ ...args, estimation: estimation.data! })}
+            {...mutation}
+        >
+            <ConfirmViewButtonsSlot>
+                <ConfirmViewButtons MainButton={ConfirmAndCancelMainButton} />
+            </ConfirmViewButtonsSlot>
+        </ConfirmView>
+    );
+};
+
+const MultisigNewOrderContent: FC<
+    NewOrderHost & {
+        onClose: (confirmed?: boolean) => void;
+    }
+> = ({ onClose, ...host }) => {
+    const { t } = useTranslation();
+    const [address, setAddress] = useState('');
+    const [value, setValue] = useState('');
+    const [comment, setComment] = useState('');
+    const [confirm, setConfirm] = useState<
+        { transfer: MultisigOrderTransfer; expirationDate: number } | undefined
+    >();
+
+    if (confirm) {
+        return (
+            <MultisigNewOrderConfirm
+                {...host}
+                {...confirm}
+                onBack={() => setConfirm(undefined)}
+                onClose={onClose}
+            />
+        );
+    }
+
+    const amount = parseTonAmount(value);
+    const isAddressValid = seeIfValidTonAddress(address.trim());
+
+    const onSubmit: React.FormEventHandler<HTMLFormElement> = e => {
+        e.preventDefault();
+        if (amount && isAddressValid) {
+            setConfirm({
+                transfer: {
+                    to: address.trim(),
+                    value: amount,
+                    comment: comment.trim() || undefined
+                },
+                expirationDate: Math.floor(Date.now() / 1000) + multisigDefaultOrderLifetime
+            });
+        }
+    };
+
+    return (
+        <NotificationBlock onSubmit={onSubmit}>
+            <Description>
+                {t('multisig_new_order_description').replace(
+                    '%{threshold}',
+                    `${host.multisig.threshold}/${host.multisig.signers.length}`
+                )}
+            </Description>
+            <Input
+                label={t('multisig_order_recipient')}
+                value={address}
+                onChange={setAddress}
+                isValid={address === '' || isAddressValid}
+            />
+            <Input
+                label={t('multisig_order_amount')}
+                value={value}
+                onChange={setValue}
+                isValid={value === '' || amount !== undefined}
+            />
+            <Input label={t('multisig_order_comment')} value={comment} onChange={setComment} />
+            <Button
+                type="submit"
+                size="large"
+                primary
+                fullWidth
+                disabled={!amount || !isAddressValid}
+            >
+                {t('continue')}
+            </Button>
+        </NotificationBlock>
+    );
+};
+
+export const MultisigNewOrderNotification: FC<{
+    host: NewOrderHost | undefined;
+    handleClose: () => void;
+}> = ({ host, handleClose }) => {
+    const { t } = useTranslation();
+
+    const Content = useCallback(
+        (onClose: () => void) =>
+            host ? <MultisigNewOrderContent {...host} onClose={() => onClose()} /> : undefined,
+        [host]
+    );
+
+    return (
+        <Notification
+            isOpen={host !== undefined}
+            handleClose={handleClose}
+            title={t('multisig_new_order')}
+            hideButton
+            backShadow
+        >
+            {Content}
+        </Notification>
+    );
+};
@@ -0,0 +1,280 @@
+import {
+    AccountTonMultisig,
+    isAccountTonWalletStandard
+} from '@tonkeeper/core/dist/entries/account';
+import {
+    getMultisigOrderSignerIndex,
+    getMultisigPendingOrders,
+    getMultisigRole
+} from '@tonkeeper/core/dist/service/multisigService';
+import { Multisig, MultisigOrder } from '@tonkeeper/core/dist/tonApiV2';
+import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
+import React, { FC, useState } from 'react';
+import styled from 'styled-components';
+import { useTranslation } from '../../hooks/translation';
+import { useDateTimeFormat } from '../../hooks/useDateTimeFormat';
+import {
+    useHideMultisigOrderMutation,
+    useMultisig,
+    useMultisigHostAccount,
+    useSelectMultisigHostWalletMutation
+} from '../../state/multisig';
+import { useAccountsState, useActiveTonNetwork } from '../../state/wallet';
+import { DoneIcon } from '../Icon';
+import { ColumnText } from '../Layout';
+import { ListBlock, ListItem, ListItemPayload } from '../List';
+import { SkeletonList } from '../Skeleton';
+import { Body2, Body3, Label1 } from '../Text';
+import { Button } from '../fields/Button';
+import { MultisigApproveOrderNotification } from './MultisigApproveOrderNotification';
+import { MultisigNewOrderNotification } from './MultisigNewOrderNotification';
+
+const SectionTitle = styled(Label1)`
+    display: block;
+    margin: 0 0 0.75rem;
+`;
+
+const Notice = styled(Body2)`
+    display: block;
+    margin-bottom: 1rem;
+    color: ${p => p.theme.textSecondary};
+`;
+
+export const OrderPayload = styled(ListItemPayload)`
+    flex-direction: column;
+    align-items: stretch;
+    gap: 0.5rem;
+`;
+
+const OrderRow = styled.div`
+    display: flex;
+    justify-content: space-between;
+    gap: 1rem;
+
+    > ${Body3} {
+        color: ${p => p.theme.textSecondary};
+    }
+`;
+
+const Progress = styled.div`
+    height: 4px;
+    border-radius: 2px;
+    background: ${p => p.theme.backgroundContentTint};
+    overflow: hidden;
+`;
+
+const ProgressValue = styled.div<{ percent: number }>`
+    height: 100%;
+    width: ${p => p.percent}%;
+    background: ${p => p.theme.accentBlue};
+`;
+
+export const MultisigOrderProgress: FC<{ order: MultisigOrder }> = ({ order }) => {
+    const { t } = useTranslation();
+    const approvals = Math.min(order.approvalsNum, order.threshold);
+
+    return (
+        <>
+            <OrderRow>
+                <Body3>{t('multisig_order_approvals')}</Body3>
+                <Body3>
+                    {approvals}/{order.threshold}
+                </Body3>
+            </OrderRow>
+            <Progress>
+                <ProgressValue percent={(approvals / order.threshold) * 100} />
+            </Progress>
+        </>
+    );
+};
+
+const OrderButtons = styled.div`
+    display: flex;
+    gap: 0.5rem;
+
+    > * {
+        flex: 1;
+    }
+`;
+
+const CheckmarkIconStyled = styled(DoneIcon)`
+    color: ${p => p.theme.accentBlue};
+`;
+
+const MultisigOrderItem: FC<{
+    account: AccountTonMultisig;
+    order: MultisigOrder;
+}> = ({ account, order }) => {
+    const { t } = useTranslation();
+    const formatDate = useDateTimeFormat();
+    const network = useActiveTonNetwork();
+    const accounts = useAccountsState().filter(isAccountTonWalletStandard);
+
+    const hostWalletId = [account.selectedHostWalletId, ...account.hostWallets].find(id => {
+        const wallet = accounts.find(a => a.getTonWallet(id))?.getTonWallet(id);
+        return wallet && getMultisigOrderSignerIndex(order, wallet.rawAddress) !== undefined;
+    });
+    const hostAccount = useMultisigHostAccount(hostWalletId);
+    const signerIndex = hostAccount
+        ? getMultisigOrderSignerIndex(order, hostAccount.activeTonWallet.rawAddress)
+        : undefined;
+
+    const [isApproveOpen, setIsApproveOpen] = useState(false);
+    const { mutate: hide, isLoading: isHiding } = useHideMultisigOrderMutation();
+
+    return (
+        <ListItem hover={false}>
+            <OrderPayload>
+                <ColumnText
+                    noWrap
+                    text={t('multisig_order_title').replace('%{seqno}', String(order.orderSeqno))}
+                    secondary={toShortValue(formatAddress(order.address, network))}
+                />
+                <MultisigOrderProgress order={order} />
+                <OrderRow>
+                    <Body3>{t('multisig_order_expires')}</Body3>
+                    <Body3>
+                        {formatDate(order.expirationDate, {
+                            day: 'numeric',
+                            month: 'short',
+                            hour: 'numeric',
+                            minute: 'numeric',
+                            inputUnit: 'seconds'
+                        })}
+                    </Body3>
+                </OrderRow>
+                {hostAccount && signerIndex !== undefined && (
+                    <OrderButtons>
+                        <Button
+                            size="small"
+                            secondary
+                            loading={isHiding}
+                            onClick={() => hide({ accountId: account.id, value: order.address })}
+                        >
+                            {t('multisig_order_hide')}
+                        </Button>
+                        <Button
+                            size="small"
+                            primary
+                            disabled={isHiding}
+                            onClick={() => setIsApproveOpen(true)}
+                        >
+                            {t('multisig_order_approve')}
+                        </Button>
+                    </OrderButtons>
+                )}
+                <MultisigApproveOrderNotification
+                    approve={
+                        isApproveOpen && hostAccount && signerIndex !== undefined
+                            ? { hostAccount, order, signerIndex }
+                            : undefined
+                    }
+                    handleClose={() => setIsApproveOpen(false)}
+                />
+            </OrderPayload>
+        </ListItem>
+    );
+};
+
+const MultisigHostWallets: FC<{ account: AccountTonMultisig; multisig: Multisig }> = ({
+    account,
+    multisig
+}) => {
+    const { t } = useTranslation();
+    const network = useActiveTonNetwork();
+    const accounts = useAccountsState().filter(isAccountTonWalletStandard);
+    const { mutate: select } = useSelectMultisigHostWalletMutation();
+
+    return (
+        <>
+            <SectionTitle>{t('multisig_host_wallets')}</SectionTitle>
+            <ListBlock>
+                {account.hostWallets.map(walletId => {
+                    const hostAccount = accounts.find(a => a.getTonWallet(walletId));
+                    const wallet = hostAccount?.getTonWallet(walletId);
+                    if (!hostAccount || !wallet) {
+                        return null;
+                    }
+                    const role = getMultisigRole(multisig, wallet.rawAddress);
+                    return (
+                        <ListItem
+                            key={walletId}
+                            onClick={() => select({ accountId: account.id, value: walletId })}
+                        >
+                            <ListItemPayload>
+                                <ColumnText
+                                    noWrap
+                                    text={`${hostAccount.emoji} ${hostAccount.name}`}
+                                    secondary={[
+                                        toShortValue(formatAddress(wallet.rawAddress, network)),
+                                        role?.isSigner
+                                            ? t('multisig_role_signer')
+                                            : t('multisig_role_proposer')
+                                    ].join(' · ')}
+                                />
+                                {walletId === account.selectedHostWalletId && (
+                                    <CheckmarkIconStyled />
+                                )}
+                            </ListItemPayload>
+                        </ListItem>
+                    );
+                })}
+            </ListBlock>
+        </>
+    );
+};
+
+export const MultisigOrdersOverview: FC<{ account: AccountTonMultisig }> = ({ account }) => {
+    const { t } = useTranslation();
+    const { data: multisig } = useMultisig(account.tonWallet.rawAddress);
+    const hostAccount = useMultisigHostAccount(account.selectedHostWalletId);
+    const [isNewOrderOpen, setIsNewOrderOpen] = useState(false);
+
+    if (!multisig) {
+        return <SkeletonList size={3} />;
+    }
+
+    const role = hostAccount
+        ? getMultisigRole(multisig, hostAccount.activeTonWallet.rawAddress)
+        : undefined;
+    const orders = getMultisigPendingOrders(multisig, account.declinedOrders);
+
+    return (
+        <>
+            <Notice>
+                {t('multisig_threshold')
+                    .replace('%{threshold}', String(multisig.threshold))
+                    .replace('%{signers}', String(multisig.signers.length))}
+            </Notice>
+            <Button
+                size="large"
+                primary
+                fullWidth
+                bottom
+                disabled={!hostAccount || !role}
+                onClick={() => setIsNewOrderOpen(true)}
+            >
+                {t('multisig_new_order')}
+            </Button>
+            <SectionTitle>{t('multisig_pending_orders')}</SectionTitle>
+            {orders.length === 0 ? (
+                <Notice>{t('multisig_no_pending_orders')}</Notice>
+            ) : (
+                <ListBlock>
+                    {orders.map(order => (
+                        <MultisigOrderItem key={order.address} account={account} order={order} />
+                    ))}
+                </ListBlock>
+            )}
+            <MultisigHostWallets account={account} multisig={multisig} />
+            <MultisigNewOrderNotification
+                host={
+                    isNewOrderOpen && hostAccount && role
+                        ? { hostAccount, multisig, role }
+                        : undefined
+                }
+                handleClose={() => setIsNewOrderOpen(false)}
+            />
+        </>
+    );
+};
@@ -0,0 +1,57 @@
+import { AccountTonMultisig } from '@tonkeeper/core/dist/entries/account';
+import { getMultisigPendingOrders } from '@tonkeeper/core/dist/service/multisigService';
+import { FC } from 'react';
+import { useNavigate } from 'react-router-dom';
+import styled from 'styled-components';
+import { useTranslation } from '../../hooks/translation';
+import { AppRoute } from '../../libs/routes';
+import { useMultisig } from '../../state/multisig';
+import { ListBlock, ListItem } from '../List';
+import { Label1 } from '../Text';
+import { MultisigOrderProgress, OrderPayload } from './MultisigOrdersOverview';
+
+const Block = styled.div`
+    margin-bottom: 2rem;
+`;
+
+const Title = styled(Label1)`
+    display: block;
+    margin: 0 0 0.75rem;
+`;
+
+/**
+ * Approval progress of the multisig pending orders on the wallet home screen
+ */
+export const MultisigOrdersSummary: FC<{ account: AccountTonMultisig }> = ({ account }) => {
+    const { t } = useTranslation();
+    const navigate = useNavigate();
+    const { data: multisig } = useMultisig(account.tonWallet.rawAddress);
+
+    const orders = multisig ? getMultisigPendingOrders(multisig, account.declinedOrders) : [];
+
+    return (
+        <Block>
+            <Title>{t('multisig_pending_orders')}</Title>
+            <ListBlock>
+                {orders.map(order => (
+                    <ListItem key={order.address} onClick={() => navigate(AppRoute.multisig)}>
+                        <OrderPayload>
+                            <Label1>
+                                {t('multisig_order_title').replace(
+                                    '%{seqno}',
+                                    String(order.orderSeqno)
+                                )}
+                            </Label1>
+                            <MultisigOrderProgress order={order} />
+                        </OrderPayload>
+                    </ListItem>
+                ))}
+                <ListItem onClick={() => navigate(AppRoute.multisig)}>
+                    <OrderPayload>
+                        <Label1>{t('multisig_orders_open')}</Label1>
+                    </OrderPayload>
+                </ListItem>
+            </ListBlock>
+        </Block>
+    );
+};
@@ -372,7 +372,9 @@ const LinkNftLinked: FC<{
     const network = useActiveTonNetwork();
 
     const isLinkedWithAnotherWallet = Object.values<{ address: Address; version: WalletVersion }>(
-        isStandardTonWallet(walletState) ? getWalletsAddresses(walletState.publicKey, network) : {}
+        isStandardTonWallet(walletState)
+            ? getWalletsAddresses(walletState.publicKey, network, walletState.networkGlobalId)
+            : {}
     ).every(({ address }) => !areEqAddresses(address.toRawString(), linkedAddress));
 
     return (
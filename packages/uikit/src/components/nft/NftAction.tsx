@@ -10,6 +10,7 @@ import { Button } from '../fields/Button';
 import { LinkNft } from './LinkNft';
 import { RenewNft } from './RenewNft';
 import { useActiveWallet } from '../../state/wallet';
+import { useIsActiveAccountWatchOnly } from '../../state/watchOnly';
 
 const getMarketplaceUrl = (nftItem: NftItem) => {
     const { marketplace } = nftItem.metadata;
@@ -49,6 +50,7 @@ const ActionTransfer: FC<{
     const sdk = useAppSdk();
     const { t } = useTranslation();
     const wallet = useActiveWallet();
+    const isWatchOnly = useIsActiveAccountWatchOnly();
 
     return (
         <>
@@ -57,17 +59,23 @@ const ActionTransfer: FC<{
                 size="large"
                 fullWidth
                 disabled={
-                    nftItem.sale !== undefined || nftItem.owner?.address !== wallet.rawAddress
+                    isWatchOnly ||
+                    nftItem.sale !== undefined ||
+                    nftItem.owner?.address !== wallet.rawAddress
                 }
                 onClick={e => {
                     e.preventDefault();
                     e.stopPropagation();
-                    sdk.uiEvents.emit('transferNft', { method: 'transferNft', params: nftItem });
+                    sdk.uiEvents.emit('transferNft', {
+                        method: 'transferNft',
+                        params: { nft: nftItem }
+                    });
                 }}
             >
                 {t('nft_transfer_nft')}
             </Button>
             {nftItem.sale && <DNSSaleText>{t('nft_on_sale_text')}</DNSSaleText>}
+            {isWatchOnly && <DNSSaleText>{t('watch_only_send_unavailable')}</DNSSaleText>}
         </>
     );
 };
@@ -89,6 +97,8 @@ export const NftAction: FC<{
     kind: NFTKind;
     nftItem: NFT;
 }> = ({ kind, nftItem }) => {
+    const isWatchOnly = useIsActiveAccountWatchOnly();
+
     switch (kind) {
         case 'token': {
             return (
@@ -104,7 +114,7 @@ export const NftAction: FC<{
                     <ActionTransfer nftItem={nftItem} />
                     <ViewOnMarketButton url={`https://dns.ton.org/#${nftItem.dns?.slice(0, -4)}`} />
 
-                    {isNFTDNS(nftItem) && (
+                    {isNFTDNS(nftItem) && !isWatchOnly && (
                         <>
                             <LinkNft nft={nftItem} />
                             <RenewNft nft={nftItem} />
@@ -1,3 +1,4 @@
+import { isAccountTonWalletStandard } from '@tonkeeper/core/dist/entries/account';
 import { walletVersionText } from '@tonkeeper/core/dist/entries/wallet';
 import { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
@@ -7,6 +8,7 @@ import { SettingsRoute, relative, WalletSettingsRoute } from '../../libs/routes'
 import { useJettonList } from '../../state/jetton';
 import { DeleteAccountNotification } from './DeleteAccountNotification';
 import {
+    AddressBookIcon,
     AppsIcon,
     ListOfTokensIcon,
     LogOutIcon,
@@ -24,7 +26,6 @@ const SingleAccountSettings = () => {
     const { t } = useTranslation();
     const navigate = useNavigate();
     const account = useActiveAccount();
-    const wallet = account.activeTonWallet;
     const { data: jettons } = useJettonList();
     const { data: nft } = useWalletNftList();
     const { proFeatures } = useAppContext();
@@ -42,7 +43,7 @@ const SingleAccountSettings = () => {
         if (account.type === 'mnemonic' || account.type === 'ton-only') {
             items.push({
                 name: t('settings_wallet_version'),
-                icon: walletVersionText(wallet.version),
+                icon: walletVersionText(account.activeTonWallet.version),
                 action: () => navigate(relative(SettingsRoute.version))
             });
         }
@@ -86,10 +87,17 @@ const SingleAccountSettings = () => {
             action: () => navigate(relative(SettingsRoute.security))
         });
         items.push({
-            name: t('settings_connected_apps'),
-            icon: <AppsIcon />,
-            action: () => navigate(relative(WalletSettingsRoute.connectedApps))
+            name: t('address_book_title'),
+            icon: <AddressBookIcon />,
+            action: () => navigate(relative(SettingsRoute.addressBook))
         });
+        if (isAccountTonWalletStandard(account)) {
+            items.push({
+                name: t('settings_connected_apps'),
+                icon: <AppsIcon />,
+                action: () => navigate(relative(WalletSettingsRoute.connectedApps))
+            });
+        }
 
         return items;
     }, [t, navigate, account, jettons, nft]);
@@ -152,7 +160,7 @@ const MultipleAccountSettings = () => {
         if (account.type === 'mnemonic' || account.type === 'ton-only') {
             items.push({
                 name: t('settings_wallet_version'),
-                icon: walletVersionText(wallet.version),
+                icon: walletVersionText(account.activeTonWallet.version),
                 action: () => navigate(relative(SettingsRoute.version))
             });
         }
@@ -188,10 +196,17 @@ const MultipleAccountSettings = () => {
             action: () => navigate(relative(SettingsRoute.security))
         });
         items.push({
-            name: t('settings_connected_apps'),
-            icon: <AppsIcon />,
-            action: () => navigate(relative(WalletSettingsRoute.connectedApps))
+            name: t('address_book_title'),
+            icon: <AddressBookIcon />,
+            action: () => navigate(relative(SettingsRoute.addressBook))
         });
+        if (isAccountTonWalletStandard(account)) {
+            items.push({
+                name: t('settings_connected_apps'),
+                icon: <AppsIcon />,
+                action: () => navigate(relative(WalletSettingsRoute.connectedApps))
+            });
+        }
         items.push({
             name: t('Delete_wallet_data'),
             icon: <LogOutIcon />,
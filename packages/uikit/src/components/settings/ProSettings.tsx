@@ -37,6 +37,7 @@ import { Body1, Label1, Title } from '../Text';
 import { ConfirmView } from '../transfer/ConfirmView';
 import {
     backwardCompatibilityOnlyWalletVersions,
+    isStandardTonWallet,
     sortWalletsByVersion,
     TonWalletStandard
 } from '@tonkeeper/core/dist/entries/wallet';
@@ -149,7 +150,7 @@ const ProWallet: FC<{
 }> = ({ data, onClick, disabled }) => {
     const { account, wallet } = useAccountAndWalletByWalletId(data.wallet.rawAddress)!;
 
-    if (!account || !wallet) {
+    if (!account || !wallet || !isStandardTonWallet(wallet)) {
         return null;
     }
 
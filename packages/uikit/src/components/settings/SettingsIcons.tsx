@@ -24,6 +24,30 @@ export const WalletsIcon = () => {
     );
 };
 
+export const AddressBookIcon = () => {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="1.75rem"
+            height="1.75rem"
+            viewBox="0 0 28 28"
+            fill="none"
+        >
+            <path
+                fillRule="evenodd"
+                clipRule="evenodd"
+                d="M5.32698 4.63803C5 5.27976 5 6.11984 5 7.8V20.2C5 21.8802 5 22.7202 5.32698 23.362C5.6146 23.9265 6.07354 24.3854 6.63803 24.673C7.27976 25 8.11984 25 9.8 25H18.2C19.8802 25 20.7202 25 21.362 24.673C21.9265 24.3854 22.3854 23.9265 22.673 23.362C23 22.7202 23 21.8802 23 20.2V7.8C23 6.11984 23 5.27976 22.673 4.63803C22.3854 4.07354 21.9265 3.6146 21.362 3.32698C20.7202 3 19.8802 3 18.2 3H9.8C8.11984 3 7.27976 3 6.63803 3.32698C6.07354 3.6146 5.6146 4.07354 5.32698 4.63803ZM14 13.5C15.6569 13.5 17 12.1569 17 10.5C17 8.84315 15.6569 7.5 14 7.5C12.3431 7.5 11 8.84315 11 10.5C11 12.1569 12.3431 13.5 14 13.5ZM9 19.5C9 17.0147 11.2386 15 14 15C16.7614 15 19 17.0147 19 19.5C19 20.0523 18.5523 20.5 18 20.5H10C9.44772 20.5 9 20.0523 9 19.5Z"
+                fill="currentColor"
+            />
+            <path
+                opacity="0.32"
+                d="M17 10.5C17 12.1569 15.6569 13.5 14 13.5C12.3431 13.5 11 12.1569 11 10.5C11 8.84315 12.3431 7.5 14 7.5C15.6569 7.5 17 8.84315 17 10.5Z"
+                fill="currentColor"
+            />
+        </svg>
+    );
+};
+
 export const SubscriptionIcon = () => {
     return (
         <svg
@@ -0,0 +1,277 @@
+import { Address } from '@ton/core';
+import { FiatCurrencies } from '@tonkeeper/core/dist/entries/fiat';
+import {
+    isSpendingPolicyChange,
+    SpendingPolicy,
+    SpendingPolicyAuditItem,
+    SpendingPolicyChange,
+    SpendingPolicyDecision
+} from '@tonkeeper/core/dist/entries/spendingPolicy';
+import { formatAddress, seeIfValidTonAddress } from '@tonkeeper/core/dist/utils/common';
+import React, { FC, useCallback, useState } from 'react';
+import styled from 'styled-components';
+import { formatFiatCurrency } from '../../hooks/balance';
+import { useTranslation } from '../../hooks/translation';
+import { useUserFiat } from '../../state/fiat';
+import {
+    spendingPolicyViolationMessages,
+    useMutateSpendingPolicy,
+    useSpendingPolicy,
+    useSpendingPolicyAudit
+} from '../../state/spendingPolicy';
+import { useActiveTonNetwork } from '../../state/wallet';
+import { ColumnText } from '../Layout';
+import { ListBlock, ListItem, ListItemPayload } from '../List';
+import { Notification, NotificationBlock } from '../Notification';
+import { Body2, Label1 } from '../Text';
+import { Button, ButtonRow } from '../fields/Button';
+import { Input, TextArea } from '../fields/Input';
+
+const Description = styled(Body2)`
+    color: ${p => p.theme.textSecondary};
+`;
+
+const ErrorText = styled(Body2)`
+    color: ${p => p.theme.accentRed};
+`;
+
+const Section = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 0.5rem;
+    width: 100%;
+`;
+
+const AuditList = styled(ListBlock)`
+    margin: 0;
+    max-height: 320px;
+    overflow: auto;
+`;
+
+const auditVisibleCount = 50;
+
+/**
+ * Empty value is no limit, null is an invalid value
+ */
+const parseLimit = (value: string): number | undefined | null => {
+    const trimmed = value.trim().replace(',', '.');
+    if (trimmed === '') {
+        return undefined;
+    }
+    const result = Number(trimmed);
+    return Number.isFinite(result) && result >= 0 ? result : null;
+};
+
+const parseAllowlist = (value: string): string[] | null => {
+    const lines = value
+        .split('\n')
+        .map(item => item.trim())
+        .filter(Boolean);
+    if (lines.some(item => !seeIfValidTonAddress(item))) {
+        return null;
+    }
+    return [...new Set(lines.map(item => Address.parse(item).toRawString()))];
+};
+
+const AuditItem: FC<{ decision: SpendingPolicyDecision }> = ({ decision }) => {
+    const { t } = useTranslation();
+    const status = decision.violation
+        ? t(spendingPolicyViolationMessages[decision.violation])
+        : t('spending_policy_audit_allowed');
+    const secondary = decision.unverified
+        ? `${status} · ${t('spending_policy_audit_unverified')}`
+        : status;
+    const symbols = [...new Set(decision.transfers.map(item => item.symbol))].join(', ');
+
+    return (
+        <ListItem hover={false}>
+            <ListItemPayload>
+                <ColumnText
+                    text={`${formatFiatCurrency(decision.fiat, decision.fiatAmount)} ${symbols}`}
+                    secondary={`${new Date(decision.timestamp).toLocaleString()} · ${secondary}`}
+                />
+            </ListItemPayload>
+        </ListItem>
+    );
+};
+
+const AuditChangeItem: FC<{ change: SpendingPolicyChange }> = ({ change }) => {
+    const { t } = useTranslation();
+
+    return (
+        <ListItem hover={false}>
+            <ListItemPayload>
+                <ColumnText
+                    text={t(
+                        change.policy
+                            ? 'spending_policy_audit_changed'
+                            : 'spending_policy_audit_removed'
+                    )}
+                    secondary={new Date(change.timestamp).toLocaleString()}
+                />
+            </ListItemPayload>
+        </ListItem>
+    );
+};
+
+const AuditRecord: FC<{ item: SpendingPolicyAuditItem }> = ({ item }) =>
+    isSpendingPolicyChange(item) ? (
+        <AuditChangeItem change={item} />
+    ) : (
+        <AuditItem decision={item} />
+    );
+
+const SpendingPolicyForm: FC<{ policy: SpendingPolicy | undefined; fiat: FiatCurrencies }> = ({
+    policy,
+    fiat
+}) => {
+    const { t } = useTranslation();
+    const network = useActiveTonNetwork();
+    const { data: audit } = useSpendingPolicyAudit();
+    const { mutate, isLoading, isError } = useMutateSpendingPolicy();
+
+    const [dailyLimit, setDailyLimit] = useState(policy?.dailyLimit?.toString() ?? '');
+    const [maxTransfer, setMaxTransfer] = useState(policy?.maxTransfer?.toString() ?? '');
+    const [passwordThreshold, setPasswordThreshold] = useState(
+        policy?.passwordThreshold?.toString() ?? ''
+    );
+    const [allowlist, setAllowlist] = useState(
+        policy?.allowlist.map(item => formatAddress(item, network)).join('\n') ?? ''
+    );
+
+    const values = {
+        dailyLimit: parseLimit(dailyLimit),
+        maxTransfer: parseLimit(maxTransfer),
+        passwordThreshold: parseLimit(passwordThreshold),
+        allowlist: parseAllowlist(allowlist)
+    };
+    const isValid =
+        values.dailyLimit !== null &&
+        values.maxTransfer !== null &&
+        values.passwordThreshold !== null &&
+        values.allowlist !== null;
+
+    const onSubmit: React.FormEventHandler<HTMLFormElement> = e => {
+        e.preventDefault();
+        if (!isValid) return;
+
+        mutate({
+            fiat,
+            dailyLimit: values.dailyLimit ?? undefined,
+            maxTransfer: values.maxTransfer ?? undefined,
+            passwordThreshold: values.passwordThreshold ?? undefined,
+            allowlist: values.allowlist ?? []
+        });
+    };
+
+    return (
+        <NotificationBlock onSubmit={onSubmit}>
+            <Description>
+                {t('spending_policy_description').replace('%{currency}', fiat)}
+            </Description>
+            <Input
+                label={t('spending_policy_daily_limit')}
+                value={dailyLimit}
+                onChange={setDailyLimit}
+                isValid={values.dailyLimit !== null}
+                disabled={isLoading}
+            />
+            <Input
+                label={t('spending_policy_max_transfer')}
+                value={maxTransfer}
+                onChange={setMaxTransfer}
+                isValid={values.maxTransfer !== null}
+                disabled={isLoading}
+            />
+            <Input
+                label={t('spending_policy_password_threshold')}
+                value={passwordThreshold}
+                onChange={setPasswordThreshold}
+                isValid={values.passwordThreshold !== null}
+                disabled={isLoading}
+            />
+            <TextArea
+                label={t('spending_policy_allowlist')}
+                value={allowlist}
+                onChange={setAllowlist}
+                isValid={values.allowlist !== null}
+                helpText={t('spending_policy_allowlist_hint')}
+                disabled={isLoading}
+            />
+            {isError && <ErrorText>{t('spending_policy_save_error')}</ErrorText>}
+            <ButtonRow>
+                {policy && (
+                    <Button
+                        type="button"
+                        size="large"
+                        secondary
+                        disabled={isLoading}
+                        onClick={() => mutate(undefined)}
+                    >
+                        {t('spending_policy_remove')}
+                    </Button>
+                )}
+                <Button
+                    type="submit"
+                    size="large"
+                    primary
+                    fullWidth
+                    loading={isLoading}
+                    disabled={!isValid}
+                >
+                    {t('save')}
+                </Button>
+            </ButtonRow>
+            {audit && audit.length > 0 && (
+                <Section>
+                    <Label1>{t('spending_policy_audit')}</Label1>
+                    <AuditList>
+                        {audit.slice(0, auditVisibleCount).map(item => (
+                            <AuditRecord key={item.id} item={item} />
+                        ))}
+                    </AuditList>
+                </Section>
+            )}
+        </NotificationBlock>
+    );
+};
+
+const SpendingPolicyContent = () => {
+    const { data: policy, isFetched } = useSpendingPolicy();
+    const { data: userFiat } = useUserFiat();
+
+    if (!isFetched || !userFiat) {
+        return null;
+    }
+
+    return (
+        <SpendingPolicyForm
+            key={JSON.stringify(policy)}
+            policy={policy ?? undefined}
+            fiat={policy?.fiat ?? userFiat}
+        />
+    );
+};
+
+/**
+ * Limits of the active account, checked before every signature of the account
+ */
+export const SpendingPolicyNotification: FC<{
+    isOpen: boolean;
+    handleClose: () => void;
+}> = ({ isOpen, handleClose }) => {
+    const { t } = useTranslation();
+
+    const Content = useCallback(() => <SpendingPolicyContent />, []);
+
+    return (
+        <Notification
+            isOpen={isOpen}
+            handleClose={handleClose}
+            title={t('spending_policy_title')}
+            hideButton
+        >
+            {Content}
+        </Notification>
+    );
+};
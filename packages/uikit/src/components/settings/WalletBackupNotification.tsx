@@ -0,0 +1,135 @@
+import { validatePassword } from '@tonkeeper/core/dist/service/passwordService';
+import React, { FC, useCallback, useState } from 'react';
+import styled from 'styled-components';
+import { useTranslation } from '../../hooks/translation';
+import { useExportWalletBackup } from '../../state/backup';
+import { Notification, NotificationBlock } from '../Notification';
+import { Body2, Label1 } from '../Text';
+import { Button } from '../fields/Button';
+import { Input } from '../fields/Input';
+
+const Block = styled.div`
+    display: flex;
+    text-align: center;
+    gap: 1rem;
+    flex-direction: column;
+    width: 100%;
+`;
+
+const Description = styled(Body2)`
+    color: ${p => p.theme.textSecondary};
+`;
+
+const ErrorText = styled(Body2)`
+    color: ${p => p.theme.accentRed};
+`;
+
+const backupFileName = (createdAt: number) =>
+    `tonkeeper-backup-${new Date(createdAt).toISOString().slice(0, 10)}.json`;
+
+const WalletBackupContent: FC = () => {
+    const { t } = useTranslation();
+    const { mutate, data: file, isLoading, isError } = useExportWalletBackup();
+
+    const [error, setError] = useState<'invalid-password' | 'invalid-confirm' | undefined>();
+    const [password, setPassword] = useState('');
+    const [confirm, setConfirm] = useState('');
+
+    const onSubmit: React.FormEventHandler<HTMLFormElement> = e => {
+        e.preventDefault();
+        if (!validatePassword(password)) {
+            return setError('invalid-password');
+        }
+        if (password !== confirm) {
+            return setError('invalid-confirm');
+        }
+        mutate({ password });
+    };
+
+    if (file) {
+        return (
+            <NotificationBlock>
+                <Block>
+                    <Label1>{t('wallet_backup_ready')}</Label1>
+                    <Description>{t('wallet_backup_ready_description')}</Description>
+                </Block>
+                <Button
+                    size="large"
+                    fullWidth
+                    primary
+                    as="a"
+                    href={
+                        'data:application/json;charset=utf-8,' +
+                        encodeURIComponent(JSON.stringify(file))
+                    }
+                    download={backupFileName(file.createdAt)}
+                >
+                    {t('wallet_backup_download')}
+                </Button>
+            </NotificationBlock>
+        );
+    }
+
+    return (
+        <NotificationBlock onSubmit={onSubmit}>
+            <Description>{t('wallet_backup_description')}</Description>
+            <Block>
+                <Input
+                    type="password"
+                    label={t('wallet_backup_password')}
+                    value={password}
+                    onChange={value => {
+                        setError(undefined);
+                        setPassword(value);
+                    }}
+                    isValid={error !== 'invalid-password'}
+                    helpText={
+                        error === 'invalid-confirm' ? t('PasswordDoNotMatch') : t('MinPassword')
+                    }
+                />
+                <Input
+                    type="password"
+                    label={t('ConfirmPassword')}
+                    value={confirm}
+                    onChange={value => {
+                        setError(undefined);
+                        setConfirm(value);
+                    }}
+                    isValid={error !== 'invalid-confirm'}
+                />
+            </Block>
+            {isError && <ErrorText>{t('wallet_backup_export_error')}</ErrorText>}
+            <Button
+                size="large"
+                fullWidth
+                primary
+                marginTop
+                type="submit"
+                loading={isLoading}
+                disabled={isLoading || error != null}
+            >
+                {t('wallet_backup_create')}
+            </Button>
+        </NotificationBlock>
+    );
+};
+
+export const WalletBackupNotification: FC<{
+    isOpen: boolean;
+    handleClose: () => void;
+}> = ({ isOpen, handleClose }) => {
+    const { t } = useTranslation();
+
+    const Content = useCallback(() => <WalletBackupContent />, []);
+
+    return (
+        <Notification
+            isOpen={isOpen}
+            handleClose={handleClose}
+            title={t('wallet_backup_title')}
+            hideButton
+        >
+            {Content}
+        </Notification>
+    );
+};
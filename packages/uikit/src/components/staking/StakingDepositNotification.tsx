@@ -0,0 +1,163 @@
+import { AssetAmount } from '@tonkeeper/core/dist/entries/crypto/asset/asset-amount';
+import { TON_ASSET } from '@tonkeeper/core/dist/entries/crypto/asset/constants';
+import { TransferEstimationEvent } from '@tonkeeper/core/dist/entries/send';
+import { getStakingDepositFeeAmount } from '@tonkeeper/core/dist/service/transfer/stakingService';
+import { PoolInfo } from '@tonkeeper/core/dist/tonApiV2';
+import { unShiftedDecimals } from '@tonkeeper/core/dist/utils/balance';
+import BigNumber from 'bignumber.js';
+import React, { FC, useCallback, useState } from 'react';
+import styled from 'styled-components';
+import { toFormattedTonBalance } from '../../hooks/balance';
+import { useEstimateStakingDeposit } from '../../hooks/blockchain/staking/useEstimateStakingDeposit';
+import { useStakingDeposit } from '../../hooks/blockchain/staking/useStakingDeposit';
+import { useTonRecipient } from '../../hooks/blockchain/useTonRecipient';
+import { useTranslation } from '../../hooks/translation';
+import { useWalletAccountInfo } from '../../state/wallet';
+import { Notification, NotificationBlock } from '../Notification';
+import { Body2 } from '../Text';
+import { Button } from '../fields/Button';
+import { Input } from '../fields/Input';
+import { ConfirmView, ConfirmViewButtons, ConfirmViewButtonsSlot } from '../transfer/ConfirmView';
+import { ConfirmAndCancelMainButton } from '../transfer/common';
+
+const Description = styled(Body2)`
+    display: block;
+    color: ${p => p.theme.textSecondary};
+`;
+
+/**
+ * @returns nano TON or undefined for an invalid input
+ */
+export const parseStakingAmount = (value: string) => {
+    const amount = new BigNumber(value.trim().replace(',', '.'));
+    if (!amount.isFinite() || amount.isLessThanOrEqualTo(0)) {
+        return undefined;
+    }
+    return unShiftedDecimals(amount).integerValue(BigNumber.ROUND_DOWN);
+};
+
+const StakingDepositConfirm: FC<{
+    pool: PoolInfo;
+    amount: BigNumber;
+    onBack: () => void;
+    onClose: (confirmed?: boolean) => void;
+}> = ({ pool, amount, onBack, onClose }) => {
+    const { recipient } = useTonRecipient(pool.address);
+    const estimation = useEstimateStakingDeposit({ pool, amount });
+    const mutation = useStakingDeposit({
+        pool,
+        amount,
+        fee: estimation.data?.payload as TransferEstimationEvent
+    });
+
+    return (
+        <ConfirmView
+            onClose={onClose}
+            onBack={onBack}
+            recipient={recipient}
+            assetAmount={new AssetAmount({ asset: TON_ASSET, weiAmount: amount })}
+            fitContent
+            estimation={estimation}
+            {...mutation}
+        >
+            <ConfirmViewButtonsSlot>
+                <ConfirmViewButtons MainButton={ConfirmAndCancelMainButton} />
+            </ConfirmViewButtonsSlot>
+        </ConfirmView>
+    );
+};
+
+const StakingDepositContent: FC<{
+    pool: PoolInfo;
+    onClose: (confirmed?: boolean) => void;
+}> = ({ pool, onClose }) => {
+    const { t } = useTranslation();
+    const { data: info } = useWalletAccountInfo();
+    const [value, setValue] = useState('');
+    const [confirmAmount, setConfirmAmount] = useState<BigNumber | undefined>();
+
+    if (confirmAmount) {
+        return (
+            <StakingDepositConfirm
+                pool={pool}
+                amount={confirmAmount}
+                onBack={() => setConfirmAmount(undefined)}
+                onClose={onClose}
+            />
+        );
+    }
+
+    const amount = parseStakingAmount(value);
+    const isLessThanMin = amount !== undefined && amount.isLessThan(pool.minStake);
+    const isNotEnough =
+        amount !== undefined &&
+        info !== undefined &&
+        amount.plus(getStakingDepositFeeAmount(pool).toString()).isGreaterThan(info.balance);
+
+    let helpText = t('staking_min_stake').replace(
+        '%{amount}',
+        toFormattedTonBalance(pool.minStake)
+    );
+    if (isNotEnough) {
+        helpText = t('staking_insufficient_balance');
+    }
+
+    const onSubmit: React.FormEventHandler<HTMLFormElement> = e => {
+        e.preventDefault();
+        if (amount && !isLessThanMin && !isNotEnough) {
+            setConfirmAmount(amount);
+        }
+    };
+
+    return (
+        <NotificationBlock onSubmit={onSubmit}>
+            <Description>
+                {t('staking_deposit_description').replace(
+                    '%{fee}',
+                    toFormattedTonBalance(Number(getStakingDepositFeeAmount(pool)))
+                )}
+            </Description>
+            <Input
+                label={t('staking_amount')}
+                value={value}
+                onChange={setValue}
+                isValid={value === '' || (amount !== undefined && !isLessThanMin && !isNotEnough)}
+                helpText={helpText}
+            />
+            <Button
+                type="submit"
+                size="large"
+                primary
+                fullWidth
+                disabled={!amount || isLessThanMin || isNotEnough}
+            >
+                {t('continue')}
+            </Button>
+        </NotificationBlock>
+    );
+};
+
+export const StakingDepositNotification: FC<{
+    pool: PoolInfo | undefined;
+    handleClose: () => void;
+}> = ({ pool, handleClose }) => {
+    const { t } = useTranslation();
+
+    const Content = useCallback(
+        (onClose: () => void) =>
+            pool ? <StakingDepositContent pool={pool} onClose={() => onClose()} /> : undefined,
+        [pool]
+    );
+
+    return (
+        <Notification
+            isOpen={pool !== undefined}
+            handleClose={handleClose}
+            title={pool ? t('staking_deposit_title').replace('%{name}', pool.name) : undefined}
+            hideButton
+            backShadow
+        >
+            {Content}
+        </Notification>
+    );
+};
@@ -0,0 +1,173 @@
+import { StakingPosition } from '@tonkeeper/core/dist/entries/staking';
+import { PoolImplementation, PoolInfo } from '@tonkeeper/core/dist/tonApiV2';
+import React, { FC, useState } from 'react';
+import styled from 'styled-components';
+import { toFormattedTonBalance } from '../../hooks/balance';
+import { useTranslation } from '../../hooks/translation';
+import { useStakingPools, useStakingPositions } from '../../state/staking';
+import { useIsActiveAccountWatchOnly } from '../../state/watchOnly';
+import { ColumnText } from '../Layout';
+import { ListBlock, ListItem, ListItemPayload } from '../List';
+import { SkeletonList } from '../Skeleton';
+import { Body2, Body3, Label1 } from '../Text';
+import { Button } from '../fields/Button';
+import { StakingDepositNotification } from './StakingDepositNotification';
+import { StakingWithdrawNotification } from './StakingWithdrawNotification';
+
+const SectionTitle = styled(Label1)`
+    display: block;
+    margin: 0 0 0.75rem;
+`;
+
+const Notice = styled(Body2)`
+    display: block;
+    margin-bottom: 1rem;
+    color: ${p => p.theme.textSecondary};
+`;
+
+const PositionPayload = styled(ListItemPayload)`
+    flex-direction: column;
+    align-items: stretch;
+    gap: 0.5rem;
+`;
+
+const PositionRow = styled.div`
+    display: flex;
+    justify-content: space-between;
+    gap: 1rem;
+
+    > ${Body3} {
+        color: ${p => p.theme.textSecondary};
+    }
+`;
+
+const formatApy = (apy: number) => `${Math.round(apy * 100) / 100}%`;
+
+const StakingPositionItem: FC<{
+    position: StakingPosition;
+    disabled: boolean;
+    onWithdraw: () => void;
+}> = ({ position, disabled, onWithdraw }) => {
+    const { t } = useTranslation();
+
+    const rows = [
+        { label: t('staking_pending_deposit'), value: position.pendingDeposit },
+        { label: t('staking_pending_withdraw'), value: position.pendingWithdraw },
+        { label: t('staking_ready_withdraw'), value: position.readyWithdraw }
+    ].filter(row => row.value > 0);
+
+    return (
+        <ListItem hover={false}>
+            <PositionPayload>
+                <ColumnText
+                    noWrap
+                    text={position.poolInfo?.name ?? position.pool}
+                    secondary={
+                        position.poolInfo
+                            ? t('staking_apy').replace('%{apy}', formatApy(position.poolInfo.apy))
+                            : ''
+                    }
+                />
+                <PositionRow>
+                    <Body3>{t('staking_staked')}</Body3>
+                    <Body3>{toFormattedTonBalance(position.amount)} TON</Body3>
+                </PositionRow>
+                {rows.map(row => (
+                    <PositionRow key={row.label}>
+                        <Body3>{row.label}</Body3>
+                        <Body3>{toFormattedTonBalance(row.value)} TON</Body3>
+                    </PositionRow>
+                ))}
+                {position.rewards !== undefined && (
+                    <PositionRow>
+                        <Body3>{t('staking_rewards')}</Body3>
+                        <Body3>{toFormattedTonBalance(position.rewards)} TON</Body3>
+                    </PositionRow>
+                )}
+                {position.poolInfo && position.amount > 0 && (
+                    <Button size="small" secondary disabled={disabled} onClick={onWithdraw}>
+                        {t('staking_withdraw')}
+                    </Button>
+                )}
+            </PositionPayload>
+        </ListItem>
+    );
+};
+
+const StakingPoolItem: FC<{
+    pool: PoolInfo;
+    implementation?: PoolImplementation;
+    onClick: () => void;
+}> = ({ pool, implementation, onClick }) => {
+    const { t } = useTranslation();
+
+    const secondary = [
+        t('staking_apy').replace('%{apy}', formatApy(pool.apy)),
+        t('staking_min_stake').replace('%{amount}', toFormattedTonBalance(pool.minStake)),
+        pool.liquidJettonMaster ? t('staking_liquid') : implementation?.name
+    ]
+        .filter(Boolean)
+        .join(' · ');
+
+    return (
+        <ListItem onClick={onClick}>
+            <ListItemPayload>
+                <ColumnText noWrap text={pool.name} secondary={secondary} />
+            </ListItemPayload>
+        </ListItem>
+    );
+};
+
+export const StakingOverview = () => {
+    const { t } = useTranslation();
+    const isWatchOnly = useIsActiveAccountWatchOnly();
+    const { data: pools } = useStakingPools();
+    const { data: positions } = useStakingPositions();
+
+    const [depositPool, setDepositPool] = useState<PoolInfo | undefined>();
+    const [withdrawPosition, setWithdrawPosition] = useState<StakingPosition | undefined>();
+
+    if (!pools) {
+        return <SkeletonList size={4} />;
+    }
+
+    return (
+        <>
+            {isWatchOnly && <Notice>{t('watch_only_staking_unavailable')}</Notice>}
+            {positions && positions.length > 0 && (
+                <>
+                    <SectionTitle>{t('staking_positions')}</SectionTitle>
+                    <ListBlock>
+                        {positions.map(position => (
+                            <StakingPositionItem
+                                key={position.pool}
+                                position={position}
+                                disabled={isWatchOnly}
+                                onWithdraw={() => setWithdrawPosition(position)}
+                            />
+                        ))}
+                    </ListBlock>
+                </>
+            )}
+            <SectionTitle>{t('staking_pools')}</SectionTitle>
+            <ListBlock>
+                {pools.pools.map(pool => (
+                    <StakingPoolItem
+                        key={pool.address}
+                        pool={pool}
+                        implementation={pools.implementations[pool.implementation]}
+                        onClick={() => !isWatchOnly && setDepositPool(pool)}
+                    />
+                ))}
+            </ListBlock>
+            <StakingDepositNotification
+                pool={depositPool}
+                handleClose={() => setDepositPool(undefined)}
+            />
+            <StakingWithdrawNotification
+                position={withdrawPosition}
+                handleClose={() => setWithdrawPosition(undefined)}
+            />
+        </>
+    );
+};
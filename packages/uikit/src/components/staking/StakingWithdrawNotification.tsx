@@ -0,0 +1,153 @@
+import { AssetAmount } from '@tonkeeper/core/dist/entries/crypto/asset/asset-amount';
+import { TON_ASSET } from '@tonkeeper/core/dist/entries/crypto/asset/constants';
+import { TransferEstimationEvent } from '@tonkeeper/core/dist/entries/send';
+import { StakingPosition } from '@tonkeeper/core/dist/entries/staking';
+import { getStakingWithdrawRequestAmount } from '@tonkeeper/core/dist/service/transfer/stakingService';
+import { PoolInfo } from '@tonkeeper/core/dist/tonApiV2';
+import BigNumber from 'bignumber.js';
+import React, { FC, useCallback, useState } from 'react';
+import styled from 'styled-components';
+import { toFormattedTonBalance } from '../../hooks/balance';
+import { useEstimateStakingWithdraw } from '../../hooks/blockchain/staking/useEstimateStakingWithdraw';
+import { useStakingWithdraw } from '../../hooks/blockchain/staking/useStakingWithdraw';
+import { useTonRecipient } from '../../hooks/blockchain/useTonRecipient';
+import { useTranslation } from '../../hooks/translation';
+import { Notification, NotificationBlock } from '../Notification';
+import { Body2 } from '../Text';
+import { Button } from '../fields/Button';
+import { Input } from '../fields/Input';
+import { ConfirmView, ConfirmViewButtons, ConfirmViewButtonsSlot } from '../transfer/ConfirmView';
+import { ConfirmAndCancelMainButton } from '../transfer/common';
+import { parseStakingAmount } from './StakingDepositNotification';
+
+const Description = styled(Body2)`
+    display: block;
+    color: ${p => p.theme.textSecondary};
+`;
+
+/**
+ * @param amount nano TON, the whole stake is withdrawn when it is not defined
+ */
+const StakingWithdrawConfirm: FC<{
+    pool: PoolInfo;
+    position: StakingPosition;
+    amount?: BigNumber;
+    onBack: () => void;
+    onClose: (confirmed?: boolean) => void;
+}> = ({ pool, position, amount, onBack, onClose }) => {
+    const { recipient } = useTonRecipient(pool.address);
+    const estimation = useEstimateStakingWithdraw({ pool, amount });
+    const mutation = useStakingWithdraw({
+        pool,
+        amount,
+        fee: estimation.data?.payload as TransferEstimationEvent
+    });
+
+    return (
+        <ConfirmView
+            onClose={onClose}
+            onBack={onBack}
+            recipient={recipient}
+            assetAmount={
+                new AssetAmount({ asset: TON_ASSET, weiAmount: amount ?? position.amount })
+            }
+            fitContent
+            estimation={estimation}
+            {...mutation}
+        >
+            <ConfirmViewButtonsSlot>
+                <ConfirmViewButtons MainButton={ConfirmAndCancelMainButton} />
+            </ConfirmViewButtonsSlot>
+        </ConfirmView>
+    );
+};
+
+const StakingWithdrawContent: FC<{
+    pool: PoolInfo;
+    position: StakingPosition;
+    onClose: (confirmed?: boolean) => void;
+}> = ({ pool, position, onClose }) => {
+    const { t } = useTranslation();
+    const [value, setValue] = useState('');
+    const [confirm, setConfirm] = useState<{ amount?: BigNumber } | undefined>();
+
+    if (confirm) {
+        return (
+            <StakingWithdrawConfirm
+                pool={pool}
+                position={position}
+                amount={confirm.amount}
+                onBack={() => setConfirm(undefined)}
+                onClose={onClose}
+            />
+        );
+    }
+
+    const canWithdrawPart = pool.implementation !== 'tf';
+    const amount = parseStakingAmount(value);
+    const isTooMuch = amount !== undefined && amount.isGreaterThan(position.amount);
+    const isValid = value === '' || (amount !== undefined && !isTooMuch);
+
+    const onSubmit: React.FormEventHandler<HTMLFormElement> = e => {
+        e.preventDefault();
+        if (!isValid) return;
+        setConfirm({ amount: amount?.isLessThan(position.amount) ? amount : undefined });
+    };
+
+    return (
+        <NotificationBlock onSubmit={onSubmit}>
+            <Description>
+                {t('staking_withdraw_description')
+                    .replace('%{amount}', toFormattedTonBalance(position.amount))
+                    .replace(
+                        '%{fee}',
+                        toFormattedTonBalance(Number(getStakingWithdrawRequestAmount(pool)))
+                    )}
+            </Description>
+            {canWithdrawPart ? (
+                <Input
+                    label={t('staking_amount')}
+                    value={value}
+                    onChange={setValue}
+                    isValid={isValid}
+                    helpText={
+                        isTooMuch ? t('staking_withdraw_too_much') : t('staking_withdraw_all_hint')
+                    }
+                />
+            ) : (
+                <Description>{t('staking_withdraw_all_only')}</Description>
+            )}
+            <Button type="submit" size="large" primary fullWidth disabled={!isValid}>
+                {t('continue')}
+            </Button>
+        </NotificationBlock>
+    );
+};
+
+export const StakingWithdrawNotification: FC<{
+    position: StakingPosition | undefined;
+    handleClose: () => void;
+}> = ({ position, handleClose }) => {
+    const { t } = useTranslation();
+    const pool = position?.poolInfo;
+
+    const Content = useCallback(
+        (onClose: () => void) =>
+            pool && position ? (
+                <StakingWithdrawContent pool={pool} position={position} onClose={() => onClose()} />
+            ) : undefined,
+        [pool, position]
+    );
+
+    return (
+        <Notification
+            isOpen={pool !== undefined}
+            handleClose={handleClose}
+            title={pool ? t('staking_withdraw_title').replace('%{name}', pool.name) : undefined}
+            hideButton
+            backShadow
+        >
+            {Content}
+        </Notification>
+    );
+};
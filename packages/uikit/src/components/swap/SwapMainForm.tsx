@@ -5,7 +5,7 @@ import { FC, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { styled, useTheme } from 'styled-components';
 import { AppRoute } from '../../libs/routes';
-import { CalculatedSwap } from '../../state/swap/useCalculatedSwap';
+import { CalculatedSwap } from '../../state/swap/providers/swapProvider';
 import { useEncodeSwap } from '../../state/swap/useEncodeSwap';
 import {
     useSelectedSwap,
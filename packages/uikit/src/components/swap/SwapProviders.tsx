@@ -12,6 +12,8 @@ import {
 import { Skeleton } from '../shared/Skeleton';
 import BigNumber from 'bignumber.js';
 import { useTranslation } from '../../hooks/translation';
+import { SwapProvider } from '../../state/swap/providers/swapProvider';
+import { useSwapProviders } from '../../state/swap/providers/swapProvidersRegistry';
 
 const SwapProvidersContainer = styled.div`
     padding: 0 12px 12px;
@@ -34,6 +36,7 @@ const Heading = styled.div`
 export const SwapProviders = () => {
     const { t } = useTranslation();
     const isNotCompleted = useIsSwapFormNotCompleted();
+    const providers = useSwapProviders();
 
     if (isNotCompleted) {
         return <div />;
@@ -44,8 +47,9 @@ export const SwapProviders = () => {
             <Heading>
                 <Body3>{t('swap_provider')}</Body3>
             </Heading>
-            <ProviderCard provider="stonfi" />
-            <ProviderCard provider="dedust" />
+            {providers.map(provider => (
+                <ProviderCard key={provider.id} provider={provider} />
+            ))}
         </SwapProvidersContainer>
     );
 };
@@ -92,33 +96,20 @@ const Body3Styled = styled(Body3)`
     color: ${p => p.theme.textSecondary};
 `;
 
-const providersConfig = {
-    stonfi: {
-        imageUrl: 'https://wallet.tonkeeper.com/img/swap/stonfi.png',
-        label: 'STON.fi'
-    },
-    dedust: {
-        imageUrl: 'https://wallet.tonkeeper.com/img/swap/dedust.png',
-        label: 'DeDust'
-    }
-};
-
-const ProviderCard: FC<{ provider: keyof typeof providersConfig }> = ({ provider }) => {
+const ProviderCard: FC<{ provider: SwapProvider }> = ({ provider }) => {
     const { t } = useTranslation();
     const [selectedSwap, setSelectedSwap] = useSelectedSwap();
-    const isActive = selectedSwap?.provider === provider;
+    const isActive = selectedSwap?.provider === provider.id;
 
     const { fetchedSwaps, isFetching } = useCalculatedSwap();
 
-    const swap = fetchedSwaps.find(t => t.provider === provider);
+    const swap = fetchedSwaps.find(t => t.provider === provider.id);
     const trade = swap?.trade;
     const [toAsset] = useSwapToAsset();
     const { data: rate, isFetching: isRateFetching } = useRate(
         tonAssetAddressToString(toAsset.address)
     );
-    const isBest = fetchedSwaps.findIndex(t => t.provider === provider) === 0 && !!swap?.trade;
-
-    const providerConfig = providersConfig[provider];
+    const isBest = fetchedSwaps.findIndex(t => t.provider === provider.id) === 0 && !!swap?.trade;
 
     const { fiatAmount } = useFormatFiat(rate, trade?.to.relativeAmount || new BigNumber(0));
 
@@ -128,9 +119,9 @@ const ProviderCard: FC<{ provider: keyof typeof providersConfig }> = ({ provider
             isActive={isActive}
             onClick={() => swap && trade && setSelectedSwap(swap)}
         >
-            <ProviderImage src={providerConfig.imageUrl} />
+            <ProviderImage src={provider.imageUrl} />
             <ProviderLabelContainer>
-                <Label2>{providerConfig.label}</Label2>
+                <Label2>{provider.label}</Label2>
                 {isBest && <Body3Styled>{t('swap_best_price')}</Body3Styled>}
             </ProviderLabelContainer>
             <ProviderPriceContainer>
@@ -16,6 +16,8 @@ import { AssetAmount } from '@tonkeeper/core/dist/entries/crypto/asset/asset-amo
 import { useSwapOptions } from '../../state/swap/useSwapOptions';
 import { useTranslation } from '../../hooks/translation';
 import { BorderSmallResponsive } from '../shared/Styles';
+import { formatSwapRoute } from '../../state/swap/providers/swapProvider';
+import { getSwapProvider } from '../../state/swap/providers/swapProvidersRegistry';
 
 const TxInfoContainer = styled.div``;
 
@@ -261,7 +263,9 @@ export const SwapTransactionInfo = () => {
                                 {!trade ? (
                                     <InfoSkeleton />
                                 ) : (
-                                    <Body3>{trade!.path.map(ta => ta.symbol).join(' → ')}</Body3>
+                                    <Body3>
+                                        {formatSwapRoute(getSwapProvider(swap!.provider), trade!)}
+                                    </Body3>
                                 )}
                             </InfoRowRight>
                         </InfoRow>
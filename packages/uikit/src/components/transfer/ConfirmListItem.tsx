@@ -1,8 +1,8 @@
-import { Address } from '@ton/core';
+import { Address, Cell } from '@ton/core';
 import { BLOCKCHAIN_NAME, CryptoCurrency } from '@tonkeeper/core/dist/entries/crypto';
 import { RecipientData, isTonRecipientData } from '@tonkeeper/core/dist/entries/send';
 import { toShortValue } from '@tonkeeper/core/dist/utils/common';
-import { FC } from 'react';
+import { FC, useMemo } from 'react';
 import { useAppSdk } from '../../hooks/appSdk';
 import { useTranslation } from '../../hooks/translation';
 import { ColumnText } from '../Layout';
@@ -139,3 +139,35 @@ export const FeeListItem: FC<{ feeAmount: string; fiatFeeAmount?: string }> = ({
         </ListItem>
     );
 };
+
+/**
+ * Raw cell of the transfer link, copied in full on click
+ */
+export const BocListItem: FC<{ label: string; boc: string }> = ({ label, boc }) => {
+    const { t } = useTranslation();
+    const sdk = useAppSdk();
+
+    const op = useMemo(() => {
+        try {
+            const slice = Cell.fromBase64(boc).beginParse();
+            return slice.remainingBits >= 32
+                ? `0x${slice.loadUint(32).toString(16).padStart(8, '0')}`
+                : undefined;
+        } catch (e) {
+            return undefined;
+        }
+    }, [boc]);
+
+    return (
+        <ListItem onClick={() => sdk.copyToClipboard(boc)}>
+            <ListItemPayload>
+                <Label>{label}</Label>
+                <ColumnText
+                    right
+                    text={toShortValue(boc, 8)}
+                    secondary={op ? t('transfer_link_payload_op').replace('%{op}', op) : undefined}
+                />
+            </ListItemPayload>
+        </ListItem>
+    );
+};
@@ -1,9 +1,63 @@
 import { AssetAmount } from '@tonkeeper/core/dist/entries/crypto/asset/asset-amount';
-import { RecipientData } from '@tonkeeper/core/dist/entries/send';
-import React, { FC, PropsWithChildren } from 'react';
+import { isTonRecipientData, RecipientData } from '@tonkeeper/core/dist/entries/send';
+import React, { FC, PropsWithChildren, useState } from 'react';
+import styled from 'styled-components';
 import { useEstimateTransfer } from '../../hooks/blockchain/useEstimateTransfer';
 import { useSendTransfer } from '../../hooks/blockchain/useSendTransfer';
-import { ConfirmView } from './ConfirmView';
+import { useTranslation } from '../../hooks/translation';
+import { useGaslessAvailability } from '../../state/gasless';
+import { ListItem, ListItemPayload } from '../List';
+import { Body2, Label1 } from '../Text';
+import { Switch } from '../fields/Switch';
+import {
+    ConfirmView,
+    ConfirmViewDetailsAmount,
+    ConfirmViewDetailsComment,
+    ConfirmViewDetailsFee,
+    ConfirmViewDetailsRecipient,
+    ConfirmViewDetailsSlot,
+    useConfirmViewContext
+} from './ConfirmView';
+
+const Block = styled.div`
+    display: flex;
+    flex-direction: column;
+`;
+
+const Secondary = styled(Body2)`
+    color: ${props => props.theme.textSecondary};
+`;
+
+const ConfirmViewDetailsGasless: FC<{
+    checked: boolean;
+    disabled: boolean;
+    onChange: (value: boolean) => void;
+}> = ({ checked, disabled, onChange }) => {
+    const { t } = useTranslation();
+    const { assetAmount, formState } = useConfirmViewContext();
+
+    return (
+        <ListItem hover={false}>
+            <ListItemPayload>
+                <Block>
+                    <Label1>
+                        {t('gasless_pay_fee_in').replace('%{symbol}', assetAmount.asset.symbol)}
+                    </Label1>
+                    <Secondary>
+                        {disabled
+                            ? t('gasless_not_enough_ton')
+                            : t('gasless_pay_fee_in_description')}
+                    </Secondary>
+                </Block>
+                <Switch
+                    checked={checked}
+                    onChange={onChange}
+                    disabled={disabled || formState.isLoading || formState.done}
+                />
+            </ListItemPayload>
+        </ListItem>
+    );
+};
 
 export const ConfirmTransferView: FC<
     PropsWithChildren<{
@@ -14,9 +68,35 @@ export const ConfirmTransferView: FC<
         onClose: (confirmed?: boolean) => void;
         fitContent?: boolean;
     }>
-> = ({ isMax, ...rest }) => {
-    const estimation = useEstimateTransfer(rest.recipient, rest.assetAmount, isMax);
+> = ({ isMax, children, ...rest }) => {
+    const availability = useGaslessAvailability(rest.assetAmount.asset);
+    // encrypted comment is made on signing, the relayer gets the message at the estimation
+    const gasless =
+        isTonRecipientData(rest.recipient) && rest.recipient.encryptComment
+            ? { isAvailable: false, isRequired: false }
+            : availability;
+    const [payFeeInJetton, setPayFeeInJetton] = useState<boolean | undefined>(undefined);
+    const isGasless = gasless.isAvailable && (gasless.isRequired || !!payFeeInJetton);
+
+    const estimation = useEstimateTransfer(rest.recipient, rest.assetAmount, isMax, isGasless);
     const mutation = useSendTransfer(rest.recipient, rest.assetAmount, isMax, estimation.data!);
 
-    return <ConfirmView estimation={estimation} {...mutation} {...rest} />;
+    return (
+        <ConfirmView estimation={estimation} {...mutation} {...rest}>
+            {children}
+            {gasless.isAvailable && (
+                <ConfirmViewDetailsSlot>
+                    <ConfirmViewDetailsRecipient />
+                    <ConfirmViewDetailsAmount />
+                    <ConfirmViewDetailsFee />
+                    <ConfirmViewDetailsGasless
+                        checked={isGasless}
+                        disabled={gasless.isRequired}
+                        onChange={setPayFeeInJetton}
+                    />
+                    <ConfirmViewDetailsComment />
+                </ConfirmViewDetailsSlot>
+            )}
+        </ConfirmView>
+    );
 };
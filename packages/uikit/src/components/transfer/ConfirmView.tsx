@@ -7,6 +7,8 @@ import {
     TransferEstimation,
     isTonRecipientData
 } from '@tonkeeper/core/dist/entries/send';
+import { SpendingPolicyError } from '@tonkeeper/core/dist/errors/SpendingPolicyError';
+import { TransferLinkExpiredError } from '@tonkeeper/core/dist/errors/TransferLinkExpiredError';
 import React, {
     Children,
     FC,
@@ -36,10 +38,11 @@ import { TransferComment } from '../activity/ActivityDetailsLayout';
 import { ActionFeeDetailsUniversal } from '../activity/NotificationCommon';
 import { RoundedButton } from '../fields/RoundedButton';
 import { Image, ImageMock, Info, SendingTitle, Title } from './Confirm';
-import { AmountListItem, RecipientListItem } from './ConfirmListItem';
+import { AmountListItem, BocListItem, RecipientListItem } from './ConfirmListItem';
 import { ButtonBlock, ConfirmMainButton, ConfirmMainButtonProps, ResultButton } from './common';
 import { UserCancelledError } from '../../libs/errors/UserCancelledError';
 import { TxConfirmationCustomError } from '../../libs/errors/TxConfirmationCustomError';
+import { spendingPolicyViolationMessages } from '../../state/spendingPolicy';
 
 type MutationProps = Pick<
     ReturnType<typeof useMutation<boolean, Error>>,
@@ -286,11 +289,23 @@ export const ConfirmViewDetailsFee: FC = () => {
     );
 };
 export const ConfirmViewDetailsComment: FC = () => {
+    const { t } = useTranslation();
     const { recipient } = useConfirmViewContext();
     if (!isTonRecipientData(recipient)) {
         return null;
     }
-    return <TransferComment comment={recipient.comment} />;
+    return (
+        <>
+            {recipient.payload ? (
+                <BocListItem label={t('transfer_link_payload')} boc={recipient.payload} />
+            ) : (
+                <TransferComment comment={recipient.comment} />
+            )}
+            {recipient.stateInit && (
+                <BocListItem label={t('transfer_link_state_init')} boc={recipient.stateInit} />
+            )}
+        </>
+    );
 };
 
 const ExclamationMarkCircleIconStyled = styled(ExclamationMarkCircleIcon)`
@@ -352,6 +367,10 @@ export const ConfirmViewButtons: FC<{
                 <ErrorLabelStyled>
                     {error instanceof TxConfirmationCustomError
                         ? error.message
+                        : error instanceof SpendingPolicyError
+                        ? t(spendingPolicyViolationMessages[error.violation])
+                        : error instanceof TransferLinkExpiredError
+                        ? t('transfer_link_expired')
                         : t('send_publish_tx_error')}
                 </ErrorLabelStyled>
             </ResultErrorButtonStyled>
@@ -1,7 +1,6 @@
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { BLOCKCHAIN_NAME } from '@tonkeeper/core/dist/entries/crypto';
 import { BaseRecipient, DnsRecipient, RecipientData } from '@tonkeeper/core/dist/entries/send';
-import { Suggestion } from '@tonkeeper/core/dist/entries/suggestion';
 import { Account, AccountsApi, DNSApi } from '@tonkeeper/core/dist/tonApiV2';
 import {
     debounce,
@@ -18,6 +17,7 @@ import { useTranslation } from '../../hooks/translation';
 import { useIsFullWidthMode } from '../../hooks/useIsFullWidthMode';
 import { scrollToTop } from '../../libs/common';
 import { QueryKey } from '../../libs/queryKey';
+import { useCanEncryptComment, useRecipientPublicKey } from '../../state/encryptedComment';
 import { useIsActiveWalletLedger } from '../../state/ledger';
 import { Gap } from '../Layout';
 import {
@@ -28,6 +28,7 @@ import {
     NotificationHeaderPortal
 } from '../Notification';
 import { Body2 } from '../Text';
+import { Checkbox } from '../fields/Checkbox';
 import { TextArea } from '../fields/Input';
 import { InputWithScanner } from '../fields/InputWithScanner';
 import { ShowAddress, useShowAddress } from './ShowAddress';
@@ -144,6 +145,9 @@ export const RecipientView: FC<{
     const shouldHideHeaderAndFooter = isFullWidth && isAnimationProcess;
 
     const [comment, setComment] = useState(data && 'comment' in data ? data.comment : '');
+    const [encryptComment, setEncryptComment] = useState(
+        data && 'encryptComment' in data ? !!data.encryptComment : false
+    );
     const [recipient, setAddress] = useState<BaseRecipient | DnsRecipient>(
         data?.address ?? defaultRecipient
     );
@@ -216,7 +220,29 @@ export const RecipientView: FC<{
 
     const isLedger = useIsActiveWalletLedger();
 
+    // raw payload and expiry of the transfer link are kept only for the address of the link
+    const linkPayload =
+        data && 'toAccount' in data && data.address.address === recipient.address
+            ? { payload: data.payload, stateInit: data.stateInit, expiresAt: data.expiresAt }
+            : undefined;
+    const hasLinkPayload = !!linkPayload?.payload;
+
+    const canEncrypt = useCanEncryptComment();
+    const showEncrypt =
+        canEncrypt &&
+        comment.length > 0 &&
+        !hasLinkPayload &&
+        isValidForBlockchain !== BLOCKCHAIN_NAME.TRON;
+    const { data: recipientPublicKey, isFetching: isPublicKeyFetching } = useRecipientPublicKey(
+        showEncrypt && toAccount ? toAccount.address : undefined
+    );
+    // the comment is sent as plain text when the recipient wallet has no public key
+    const isEncryptAvailable = !!toAccount && recipientPublicKey != null;
+
     const isMemoValid = useMemo(() => {
+        if (hasLinkPayload) {
+            return true;
+        }
         if (isLedger) {
             // only ascii symbols are supported by ledger
             return /^[ -~]*$/gm.test(comment);
@@ -227,7 +253,7 @@ export const RecipientView: FC<{
             return comment.length > 0;
         }
         return true;
-    }, [toAccount, comment, isLedger]);
+    }, [toAccount, comment, isLedger, hasLinkPayload]);
 
     useEffect(() => {
         if (sdk.isIOs()) {
@@ -272,7 +298,11 @@ export const RecipientView: FC<{
                 setRecipient({
                     address: { ...recipient, blockchain: BLOCKCHAIN_NAME.TON },
                     toAccount: toAccount!,
-                    comment,
+                    comment: hasLinkPayload ? '' : comment,
+                    encryptComment: showEncrypt && isEncryptAvailable && encryptComment,
+                    payload: linkPayload?.payload,
+                    stateInit: linkPayload?.stateInit,
+                    expiresAt: linkPayload?.expiresAt,
                     done: true
                 });
             } else {
@@ -292,8 +322,8 @@ export const RecipientView: FC<{
         handleSubmit();
     };
 
-    const onSelect = async (item: Suggestion) => {
-        if (item.blockchain === BLOCKCHAIN_NAME.TON) {
+    const onSelect = async (item: BaseRecipient) => {
+        if ('blockchain' in item && item.blockchain === BLOCKCHAIN_NAME.TON) {
             item.address = formatAddress(item.address, network);
         }
         setAddress(item);
@@ -344,7 +374,18 @@ export const RecipientView: FC<{
                 />
             </ShowAddress>
 
-            {isValidForBlockchain !== BLOCKCHAIN_NAME.TRON && (
+            {hasLinkPayload && (
+                <>
+                    <TextArea
+                        value={linkPayload?.payload ?? ''}
+                        onChange={() => undefined}
+                        label={t('transfer_link_payload')}
+                        disabled
+                    />
+                    <Warning>{t('transfer_link_payload_warning')}</Warning>
+                </>
+            )}
+            {!hasLinkPayload && isValidForBlockchain !== BLOCKCHAIN_NAME.TRON && (
                 <TextArea
                     onSubmit={handleSubmit}
                     value={comment}
@@ -354,14 +395,28 @@ export const RecipientView: FC<{
                     disabled={isExternalLoading}
                 />
             )}
-            {toAccount && toAccount.memoRequired && (
+            {toAccount && toAccount.memoRequired && !hasLinkPayload && (
                 <Warning>{t('send_screen_steps_comfirm_comment_required_text')}</Warning>
             )}
+            {showEncrypt && (
+                <Checkbox
+                    checked={encryptComment && isEncryptAvailable}
+                    onChange={value => isEncryptAvailable && setEncryptComment(value)}
+                    disabled={!isEncryptAvailable || isExternalLoading}
+                    light
+                >
+                    {t('encrypted_comment_encrypt')}
+                </Checkbox>
+            )}
+            {showEncrypt && toAccount && !isPublicKeyFetching && !isEncryptAvailable && (
+                <Warning>{t('encrypted_comment_no_public_key')}</Warning>
+            )}
 
             <SuggestionList
                 onSelect={onSelect}
                 disabled={isExternalLoading}
                 acceptBlockchains={acceptBlockchains}
+                search={recipient.address}
             />
 
             <Gap />
@@ -370,7 +425,7 @@ export const RecipientView: FC<{
                 <NotificationFooterPortal>
                     <NotificationFooter>
                         <MainButton
-                            isLoading={isFetching || isDnsFetching}
+                            isLoading={isFetching || isDnsFetching || isPublicKeyFetching}
                             onClick={handleSubmit}
                         />
                     </NotificationFooter>
@@ -1,16 +1,19 @@
 import { BLOCKCHAIN_NAME } from '@tonkeeper/core/dist/entries/crypto';
 import React, { FC } from 'react';
 import { useAppSdk } from '../../hooks/appSdk';
+import { useIsActiveAccountWatchOnly } from '../../state/watchOnly';
 import { Action } from '../home/Actions';
 import { SendIcon } from '../home/HomeIcons';
 
 export const SendAction: FC<{ asset?: string; chain?: BLOCKCHAIN_NAME }> = ({ asset, chain }) => {
     const sdk = useAppSdk();
+    const isWatchOnly = useIsActiveAccountWatchOnly();
 
     return (
         <Action
             icon={<SendIcon />}
             title={'wallet_send'}
+            disabled={isWatchOnly}
             action={() =>
                 sdk.uiEvents.emit('transfer', {
                     method: 'transfer',
@@ -16,6 +16,7 @@ import { useAppContext } from '../../hooks/appContext';
 import { useAppSdk } from '../../hooks/appSdk';
 import { openIosKeyboard } from '../../hooks/ios';
 import { useTranslation } from '../../hooks/translation';
+import { useIsActiveAccountWatchOnly } from '../../state/watchOnly';
 import { useIsFullWidthMode } from '../../hooks/useIsFullWidthMode';
 import { useJettonList } from '../../state/jetton';
 import { useTronBalances } from '../../state/tron/tron';
@@ -47,8 +48,11 @@ import {
     childFactoryCreator,
     duration,
     getInitData,
-    getJetton
+    getJetton,
+    getTransferLinkError,
+    getTransferLinkRecipient
 } from './common';
+import { useOpenNftTransferLink } from './nft/hooks';
 
 const SendContent: FC<{
     onClose: () => void;
@@ -121,19 +125,12 @@ const SendContent: FC<{
         setView('amount');
     };
 
-    const processRecipient = async ({ address, text }: TonTransferParams) => {
-        const item = { address: address, blockchain: BLOCKCHAIN_NAME.TON } as const;
-        const toAccount = await getAccountAsync(item);
+    const processRecipient = async (param: TonTransferParams) => {
+        const toAccount = await getAccountAsync({ address: param.address });
+        const data = getTransferLinkRecipient(param, toAccount);
 
-        const done = !toAccount.memoRequired ? true : toAccount.memoRequired && text ? true : false;
-
-        setRecipient({
-            address: item,
-            toAccount,
-            comment: text ?? '',
-            done
-        });
-        if (done) {
+        setRecipient(data);
+        if (data.done) {
             setView('amount');
         }
     };
@@ -181,6 +178,14 @@ const SendContent: FC<{
         const param = parseTonTransfer({ url: signature });
 
         if (param) {
+            const error = param.nft ? 'Unexpected_QR_Code' : getTransferLinkError(param);
+            if (error) {
+                return sdk.uiEvents.emit('copy', {
+                    method: 'copy',
+                    params: t(error)
+                });
+            }
+
             const ok = await processJetton(param);
             if (ok) {
                 await processRecipient(param);
@@ -301,6 +306,9 @@ const SendActionNotification = () => {
 
     const { mutateAsync: getAccountAsync, reset } = useGetToAccount();
     const sdk = useAppSdk();
+    const { t } = useTranslation();
+    const isWatchOnly = useIsActiveAccountWatchOnly();
+    const openNftTransfer = useOpenNftTransferLink();
 
     useEffect(() => {
         const handler = (options: {
@@ -308,9 +316,25 @@ const SendActionNotification = () => {
             id?: number | undefined;
             params: TransferInitParams;
         }) => {
+            if (isWatchOnly) {
+                sdk.topMessage(t('watch_only_send_unavailable'));
+                return;
+            }
             reset();
 
             const { transfer, asset } = options.params;
+            if (transfer) {
+                const error = getTransferLinkError(transfer);
+                if (error) {
+                    sdk.topMessage(t(error));
+                    return;
+                }
+                if (transfer.nft) {
+                    openNftTransfer(transfer);
+                    return;
+                }
+            }
+
             setChain(options.params.chain);
             if (transfer) {
                 getAccountAsync({ address: transfer.address }).then(account => {
@@ -327,7 +351,7 @@ const SendActionNotification = () => {
         return () => {
             sdk.uiEvents.off('transfer', handler);
         };
-    }, [jettons]);
+    }, [jettons, isWatchOnly, openNftTransfer]);
 
     const onClose = useCallback(() => {
         setTonTransfer(undefined);
@@ -1,18 +1,24 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AddressBookAddress, AddressBookEntry } from '@tonkeeper/core/dist/entries/addressBook';
 import { BLOCKCHAIN_NAME } from '@tonkeeper/core/dist/entries/crypto';
 import { intlLocale } from '@tonkeeper/core/dist/entries/language';
+import { BaseRecipient } from '@tonkeeper/core/dist/entries/send';
 import {
     FavoriteSuggestion,
     LatestSuggestion,
     Suggestion
 } from '@tonkeeper/core/dist/entries/suggestion';
+import {
+    findAddressBookEntry,
+    searchAddressBook
+} from '@tonkeeper/core/dist/service/addressBookService';
 import {
     deleteFavoriteSuggestion,
     getSuggestionsList,
     hideSuggestions
 } from '@tonkeeper/core/dist/service/suggestionService';
-import { toShortValue } from '@tonkeeper/core/dist/utils/common';
-import { FC } from 'react';
+import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
+import { FC, useMemo } from 'react';
 import styled from 'styled-components';
 import { useAppContext } from '../../hooks/appContext';
 import { useAppSdk } from '../../hooks/appSdk';
@@ -25,7 +31,8 @@ import { ListBlock, ListItem, ListItemPayload } from '../List';
 import { SkeletonListWithImages } from '../Skeleton';
 import { Label1 } from '../Text';
 import { useSuggestionAddress } from './SuggestionAddress';
-import { useActiveStandardTonWallet } from '../../state/wallet';
+import { useActiveStandardTonWallet, useActiveTonNetwork } from '../../state/wallet';
+import { useAddressBook } from '../../state/addressBook';
 
 const Label = styled(Label1)`
     user-select: none;
@@ -154,6 +161,47 @@ const FavoriteItem: FC<{
     );
 };
 
+/**
+ * Addresses linked to a DNS name are selected by the name, so the recipient is resolved with the current DNS record
+ */
+const AddressBookItem: FC<{
+    entry: AddressBookEntry;
+    item: AddressBookAddress;
+    onSelect: (item: BaseRecipient) => void;
+}> = ({ entry, item, onSelect }) => {
+    const network = useActiveTonNetwork();
+
+    const address =
+        item.blockchain === BLOCKCHAIN_NAME.TON
+            ? formatAddress(item.address, network)
+            : item.address;
+
+    return (
+        <ListItem
+            onClick={() =>
+                onSelect(
+                    item.dns
+                        ? { address: item.dns }
+                        : {
+                              isFavorite: true,
+                              name: entry.label,
+                              address: item.address,
+                              blockchain: item.blockchain
+                          }
+                )
+            }
+        >
+            <ListItemPayload>
+                <ColumnText
+                    noWrap
+                    text={entry.label}
+                    secondary={item.dns ?? toShortValue(address)}
+                />
+            </ListItemPayload>
+        </ListItem>
+    );
+};
+
 const useHideSuggestion = (item: LatestSuggestion) => {
     const sdk = useAppSdk();
     const wallet = useActiveStandardTonWallet();
@@ -224,14 +272,50 @@ const LatestItem: FC<{
     );
 };
 
+const useAddressBookSuggestions = (search: string, acceptBlockchains?: BLOCKCHAIN_NAME[]) => {
+    const { data: entries } = useAddressBook();
+
+    return useMemo(() => {
+        if (!entries) {
+            return [];
+        }
+        return searchAddressBook(entries, search).flatMap(entry =>
+            entry.addresses
+                .filter(item => !acceptBlockchains || acceptBlockchains.includes(item.blockchain))
+                .map(item => ({ entry, item }))
+        );
+    }, [entries, search, acceptBlockchains]);
+};
+
 export const SuggestionList: FC<{
-    onSelect: (item: Suggestion) => void;
+    onSelect: (item: BaseRecipient) => void;
     disabled?: boolean;
     acceptBlockchains?: BLOCKCHAIN_NAME[];
-}> = ({ onSelect, disabled, acceptBlockchains }) => {
+    /**
+     * Filters address book entries by the recipient input value
+     */
+    search?: string;
+}> = ({ onSelect, disabled, acceptBlockchains, search = '' }) => {
     const sdk = useAppSdk();
     const { t } = useTranslation();
-    const { data } = useLatestSuggestion(acceptBlockchains);
+    const { data: latest } = useLatestSuggestion(acceptBlockchains);
+    const { data: addressBook } = useAddressBook();
+    const addressBookItems = useAddressBookSuggestions(search, acceptBlockchains);
+
+    const data = useMemo(
+        () =>
+            latest?.filter(
+                item =>
+                    item.isFavorite ||
+                    !addressBook ||
+                    !findAddressBookEntry(
+                        addressBook,
+                        item.blockchain ?? BLOCKCHAIN_NAME.TON,
+                        item.address
+                    )
+            ),
+        [latest, addressBook]
+    );
 
     if (!data) {
         return (
@@ -244,6 +328,21 @@ export const SuggestionList: FC<{
 
     return (
         <>
+            {addressBookItems.length > 0 && (
+                <>
+                    <Label>{t('address_book_title')}</Label>
+                    <ListBlock margin={false} fullWidth noUserSelect>
+                        {addressBookItems.map(({ entry, item }) => (
+                            <AddressBookItem
+                                key={`${entry.id}_${item.blockchain}_${item.address}`}
+                                entry={entry}
+                                item={item}
+                                onSelect={value => !disabled && onSelect(value)}
+                            />
+                        ))}
+                    </ListBlock>
+                </>
+            )}
             {data.length > 0 ? (
                 <Label>{t('send_screen_steps_address_suggests_label')}</Label>
             ) : undefined}
@@ -3,7 +3,10 @@ import { IAppSdk } from '@tonkeeper/core/dist/AppSdk';
 import { BLOCKCHAIN_NAME } from '@tonkeeper/core/dist/entries/crypto';
 import { jettonToTonAsset } from '@tonkeeper/core/dist/entries/crypto/asset/ton-asset';
 import { TonRecipientData } from '@tonkeeper/core/dist/entries/send';
-import { TonTransferParams } from '@tonkeeper/core/dist/service/deeplinkingService';
+import {
+    TonTransferParams,
+    seeIfTonTransferExpired
+} from '@tonkeeper/core/dist/service/deeplinkingService';
 import { seeIfBalanceError, seeIfTimeError } from '@tonkeeper/core/dist/service/transfer/common';
 import { Account, JettonsBalances } from '@tonkeeper/core/dist/tonApiV2';
 import React, { FC, PropsWithChildren } from 'react';
@@ -349,20 +352,45 @@ export interface InitTransferData {
     initAmountState?: Partial<AmountState>;
 }
 
-export const getInitData = (
+/**
+ * Translation key of the reason the transfer link is rejected
+ */
+export const getTransferLinkError = (tonTransfer: TonTransferParams) => {
+    if (seeIfTonTransferExpired(tonTransfer)) {
+        return 'transfer_link_expired';
+    }
+    return undefined;
+};
+
+/**
+ * Recipient of the transfer link, the raw payload of the link is sent instead of the comment.
+ * The expiry of the link limits the valid until of the sent message
+ */
+export const getTransferLinkRecipient = (
     tonTransfer: TonTransferParams,
-    toAccount: Account,
-    jettons: JettonsBalances | undefined
-): InitTransferData => {
-    const initRecipient: TonRecipientData = {
+    toAccount: Account
+): TonRecipientData => {
+    const comment = tonTransfer.text ?? '';
+    return {
         address: {
             blockchain: BLOCKCHAIN_NAME.TON,
             address: tonTransfer.address
         },
         toAccount,
-        comment: tonTransfer.text ?? '',
-        done: toAccount.memoRequired ? tonTransfer.text !== '' && tonTransfer.text !== null : true
+        comment,
+        payload: tonTransfer.bin,
+        stateInit: tonTransfer.init,
+        expiresAt: tonTransfer.exp !== undefined ? Number(tonTransfer.exp) : undefined,
+        done: toAccount.memoRequired ? comment !== '' || tonTransfer.bin !== undefined : true
     };
+};
+
+export const getInitData = (
+    tonTransfer: TonTransferParams,
+    toAccount: Account,
+    jettons: JettonsBalances | undefined
+): InitTransferData => {
+    const initRecipient = getTransferLinkRecipient(tonTransfer, toAccount);
 
     const { initAmountState } = getJetton(tonTransfer.jetton, jettons);
 
@@ -1,4 +1,5 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { checkTransferLinkExpiryOrDie } from '@tonkeeper/core/dist/service/transfer/common';
 import {
     estimateNftTransfer,
     sendNftTransfer
@@ -23,7 +24,8 @@ import {
 } from '@tonkeeper/core/dist/entries/send';
 import { useTransactionAnalytics } from '../../../hooks/amplitude';
 import { QueryKey } from '../../../libs/queryKey';
-import { getSigner } from '../../../state/mnemonic';
+import { encryptRecipientComment } from '../../../state/encryptedComment';
+import { getMnemonic, getSigner } from '../../../state/mnemonic';
 import { useCheckTouchId } from '../../../state/password';
 import { Image, ImageMock, Info, SendingTitle, Title } from '../Confirm';
 import {
@@ -34,7 +36,7 @@ import {
 } from '../ConfirmView';
 import { NftDetailsBlock } from './Common';
 import {
-    useActiveAccount,
+    useActiveTonWalletStandardAccount,
     useActiveStandardTonWallet,
     useInvalidateActiveWalletQueries
 } from '../../../state/wallet';
@@ -78,7 +80,7 @@ const useSendNft = (
     const { t } = useTranslation();
     const sdk = useAppSdk();
     const { api } = useAppContext();
-    const account = useActiveAccount();
+    const account = useActiveTonWalletStandardAccount();
     const client = useQueryClient();
     const track2 = useTransactionAnalytics();
     const { mutateAsync: checkTouchId } = useCheckTouchId();
@@ -86,13 +88,30 @@ const useSendNft = (
 
     return useMutation<boolean, Error>(async () => {
         if (!fee) return false;
+        checkTransferLinkExpiryOrDie(recipient.expiresAt);
 
-        const signer = await getSigner(sdk, account.id, checkTouchId).catch(() => null);
+        let mnemonic: string[] | undefined;
+        if (recipient.encryptComment) {
+            mnemonic = await getMnemonic(sdk, account.id, checkTouchId).catch(() => undefined);
+            if (mnemonic === undefined) return false;
+        }
+        const signer = await getSigner(sdk, account.id, checkTouchId, api, mnemonic).catch(
+            () => null
+        );
         if (signer === null) return false;
 
         track2('send-nft');
         try {
-            await sendNftTransfer(api, account, recipient, nftItem, fee, signer);
+            const nftRecipient = mnemonic
+                ? await encryptRecipientComment({
+                      api,
+                      senderAddress: account.activeTonWallet.rawAddress,
+                      recipient,
+                      mnemonic,
+                      t
+                  })
+                : recipient;
+            await sendNftTransfer(api, account, nftRecipient, nftItem, fee, signer);
         } catch (e) {
             await notifyError(client, sdk, t, e);
         }
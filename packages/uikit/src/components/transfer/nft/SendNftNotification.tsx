@@ -1,3 +1,4 @@
+import { TransferNftInitParams } from '@tonkeeper/core/dist/AppSdk';
 import { BLOCKCHAIN_NAME } from '@tonkeeper/core/dist/entries/crypto';
 import { NFT } from '@tonkeeper/core/dist/entries/nft';
 import { RecipientData, TonRecipientData } from '@tonkeeper/core/dist/entries/send';
@@ -20,13 +21,19 @@ import {
     RecipientHeaderBlock,
     Wrapper,
     childFactoryCreator,
-    duration
+    duration,
+    getTransferLinkError,
+    getTransferLinkRecipient
 } from '../common';
 import { ConfirmHeaderBlock } from './Common';
 import { ConfirmNftView } from './ConfirmNftView';
 import { useMinimalBalance } from './hooks';
 
-const SendContent: FC<{ nftItem: NftItem; onClose: () => void }> = ({ nftItem, onClose }) => {
+const SendContent: FC<{
+    nftItem: NftItem;
+    initRecipient?: TonRecipientData;
+    onClose: () => void;
+}> = ({ nftItem, initRecipient, onClose }) => {
     const sdk = useAppSdk();
     const { t } = useTranslation();
     const { standalone, extension } = useAppContext();
@@ -34,7 +41,7 @@ const SendContent: FC<{ nftItem: NftItem; onClose: () => void }> = ({ nftItem, o
     const confirmRef = useRef<HTMLDivElement>(null);
 
     const [right, setRight] = useState(true);
-    const [recipient, setRecipient] = useState<TonRecipientData | undefined>();
+    const [recipient, setRecipient] = useState<TonRecipientData | undefined>(initRecipient);
 
     const { mutateAsync: getAccountAsync } = useGetToAccount();
 
@@ -80,6 +87,13 @@ const SendContent: FC<{ nftItem: NftItem; onClose: () => void }> = ({ nftItem, o
                 method: 'copy',
                 params: t('Unexpected_QR_Code')
             });
+        }
+        const error = getTransferLinkError(param);
+        if (error) {
+            return sdk.uiEvents.emit('copy', {
+                method: 'copy',
+                params: t(error)
+            });
         } else {
             await processRecipient(param);
         }
@@ -138,12 +152,25 @@ const SendNftNotification = () => {
     const sdk = useAppSdk();
 
     const [nftItem, setNft] = useState<NFT | undefined>();
+    const [initRecipient, setInitRecipient] = useState<TonRecipientData | undefined>();
+    const { mutateAsync: getAccountAsync } = useGetToAccount();
+
     const onClose = useCallback(() => {
         setNft(undefined);
+        setInitRecipient(undefined);
     }, [setNft]);
     useEffect(() => {
-        const handler = (options: { method: 'transferNft'; params: NFT }) => {
-            setNft(options.params);
+        const handler = (options: { method: 'transferNft'; params: TransferNftInitParams }) => {
+            const { nft, transfer } = options.params;
+            if (transfer) {
+                getAccountAsync({ address: transfer.address }).then(account => {
+                    setInitRecipient(getTransferLinkRecipient(transfer, account));
+                    setNft(nft);
+                });
+            } else {
+                setInitRecipient(undefined);
+                setNft(nft);
+            }
         };
         sdk.uiEvents.on('transferNft', handler);
         return () => {
@@ -153,8 +180,8 @@ const SendNftNotification = () => {
 
     const Content = useCallback(() => {
         if (!nftItem) return undefined;
-        return <SendContent onClose={onClose} nftItem={nftItem} />;
-    }, [nftItem, onClose]);
+        return <SendContent onClose={onClose} nftItem={nftItem} initRecipient={initRecipient} />;
+    }, [nftItem, initRecipient, onClose]);
 
     return (
         <Notification isOpen={!!nftItem} handleClose={onClose} hideButton backShadow>
@@ -1,6 +1,9 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { TonTransferParams } from '@tonkeeper/core/dist/service/deeplinkingService';
 import { checkWalletPositiveBalanceOrDie } from '@tonkeeper/core/dist/service/transfer/common';
-import { AccountsApi } from '@tonkeeper/core/dist/tonApiV2';
+import { AccountsApi, NFTApi } from '@tonkeeper/core/dist/tonApiV2';
+import { eqAddresses } from '@tonkeeper/core/dist/utils/address';
+import { useCallback } from 'react';
 import { useAppContext } from '../../../hooks/appContext';
 import { useAppSdk } from '../../../hooks/appSdk';
 import { useTranslation } from '../../../hooks/translation';
@@ -25,3 +28,40 @@ export const useMinimalBalance = () => {
         }
     });
 };
+
+/**
+ * Opens the transfer of the NFT from the transfer link, the item should be owned by the wallet and not on sale
+ */
+export const useOpenNftTransferLink = () => {
+    const sdk = useAppSdk();
+    const { api } = useAppContext();
+    const walletState = useActiveWallet();
+    const { t } = useTranslation();
+
+    return useCallback(
+        async (transfer: TonTransferParams) => {
+            try {
+                const nft = await new NFTApi(api.tonApiV2).getNftItemByAddress({
+                    accountId: transfer.nft!
+                });
+                if (
+                    nft.sale !== undefined ||
+                    !nft.owner ||
+                    !eqAddresses(nft.owner.address, walletState.rawAddress)
+                ) {
+                    sdk.topMessage(t('transfer_link_nft_unavailable'));
+                    return;
+                }
+                sdk.uiEvents.emit('transferNft', {
+                    method: 'transferNft',
+                    id: Date.now(),
+                    params: { nft, transfer }
+                });
+            } catch (e) {
+                console.error(e);
+                sdk.topMessage(t('transfer_link_nft_unavailable'));
+            }
+        },
+        [sdk, api, walletState.rawAddress, t]
+    );
+};
@@ -29,6 +29,8 @@ import { getMixedActivity } from '../../state/mixedActivity';
 import { useSwapFromAsset } from '../../state/swap/useSwapForm';
 import { tonAssetAddressFromString } from '@tonkeeper/core/dist/entries/crypto/asset/ton-asset';
 import { useAllSwapAssets } from '../../state/swap/useSwapAssets';
+import { useIsActiveAccountWatchOnly } from '../../state/watchOnly';
+import { TokenPriceChart } from '../../components/chart/TokenPriceChart';
 
 export const DesktopCoinPage = () => {
     const navigate = useNavigate();
@@ -80,6 +82,7 @@ const CoinHeader: FC<{ token: string }> = ({ token }) => {
 
     const [_, setSwapFromAsset] = useSwapFromAsset();
     const navigate = useNavigate();
+    const isWatchOnly = useIsActiveAccountWatchOnly();
 
     const onSwap = () => {
         setSwapFromAsset(swapAsset!);
@@ -93,6 +96,7 @@ const CoinHeader: FC<{ token: string }> = ({ token }) => {
             <HeaderButtonsContainer>
                 <ButtonStyled
                     size="small"
+                    disabled={isWatchOnly}
                     onClick={() =>
                         sdk.uiEvents.emit('transfer', {
                             method: 'transfer',
@@ -116,7 +120,7 @@ const CoinHeader: FC<{ token: string }> = ({ token }) => {
                     <ArrowDownIcon />
                     {t('wallet_receive')}
                 </ButtonStyled>
-                {swapAsset && (
+                {swapAsset && !isWatchOnly && (
                     <ButtonStyled size="small" onClick={onSwap}>
                         <SwapIcon />
                         {t('wallet_swap')}
@@ -222,6 +226,13 @@ const CoinInfo: FC<{ token: string }> = ({ token }) => {
     );
 };
 
+const TokenPriceChartStyled = styled(TokenPriceChart)`
+    padding: 1rem 1rem 0;
+    margin-bottom: 0;
+    border-bottom: 1px solid ${p => p.theme.separatorCommon};
+    padding-bottom: 1rem;
+`;
+
 const HistorySubheader = styled(Label2)`
     display: block;
     padding: 0.5rem 1rem;
@@ -266,6 +277,7 @@ export const CoinPage: FC<{ token: string }> = ({ token }) => {
                 <Label2>{assetSymbol || 'Unknown asset'}</Label2>
             </DesktopViewHeader>
             <CoinHeader token={token} />
+            <TokenPriceChartStyled token={token} />
             <HistorySubheader>{t('page_header_history')}</HistorySubheader>
             <HistoryContainer>
                 <DesktopHistory isFetchingNextPage={isFetchingNextPage} activity={activity} />
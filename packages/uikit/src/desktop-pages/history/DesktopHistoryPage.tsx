@@ -20,6 +20,8 @@ import { mergeRefs } from '../../libs/common';
 import { useActiveWallet } from '../../state/wallet';
 import { Body2, Label2 } from '../../components/Text';
 import { formatAddress } from '@tonkeeper/core/dist/utils/common';
+import { HistoryExportNotification } from '../../components/desktop/history/HistoryExportNotification';
+import { useDisclosure } from '../../hooks/useDisclosure';
 
 const HistoryPageWrapper = styled(DesktopViewPageLayout)`
     overflow: auto;
@@ -36,6 +38,10 @@ const HistoryHeaderContainer = styled(DesktopViewHeader)`
     padding-right: 0;
 `;
 
+const HeaderButtons = styled.div`
+    display: flex;
+`;
+
 const ExplorerButton = styled.button`
     border: none;
     background-color: transparent;
@@ -55,6 +61,7 @@ export const DesktopHistoryPage: FC = () => {
     const { t } = useTranslation();
 
     const ref = useRef<HTMLDivElement>(null);
+    const { isOpen: isExportOpen, onOpen: onExportOpen, onClose: onExportClose } = useDisclosure();
 
     const {
         isFetched: isTonFetched,
@@ -100,24 +107,30 @@ export const DesktopHistoryPage: FC = () => {
         <HistoryPageWrapper ref={mergeRefs(ref, scrollRef)}>
             <HistoryHeaderContainer borderBottom={!closeTop}>
                 <Label2>{t('page_header_history')}</Label2>
-                <ExplorerButton
-                    onClick={() =>
-                        config.accountExplorer
-                            ? sdk.openPage(
-                                  config.accountExplorer.replace(
-                                      '%s',
-                                      formatAddress(wallet.rawAddress)
+                <HeaderButtons>
+                    <ExplorerButton onClick={onExportOpen}>
+                        <Body2>{t('history_export_title')}</Body2>
+                    </ExplorerButton>
+                    <ExplorerButton
+                        onClick={() =>
+                            config.accountExplorer
+                                ? sdk.openPage(
+                                      config.accountExplorer.replace(
+                                          '%s',
+                                          formatAddress(wallet.rawAddress)
+                                      )
                                   )
-                              )
-                            : undefined
-                    }
-                >
-                    <Body2>{t('nft_view_in_explorer')}</Body2>
-                </ExplorerButton>
+                                : undefined
+                        }
+                    >
+                        <Body2>{t('nft_view_in_explorer')}</Body2>
+                    </ExplorerButton>
+                </HeaderButtons>
             </HistoryHeaderContainer>
             <HistoryContainer>
                 <DesktopHistory activity={activity} isFetchingNextPage={isFetchingNextPage} />
             </HistoryContainer>
+            <HistoryExportNotification isOpen={isExportOpen} handleClose={onExportClose} />
         </HistoryPageWrapper>
     );
 };
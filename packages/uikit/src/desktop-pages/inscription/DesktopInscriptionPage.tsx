@@ -0,0 +1,160 @@
+import {
+    findInscription,
+    inscriptionTypeName
+} from '@tonkeeper/core/dist/service/inscriptionService';
+import { InscriptionBalance } from '@tonkeeper/core/dist/tonApiV2';
+import { FC, useMemo, useRef, useState } from 'react';
+import { Navigate, useParams } from 'react-router-dom';
+import styled from 'styled-components';
+import {
+    DesktopViewHeader,
+    DesktopViewPageLayout
+} from '../../components/desktop/DesktopViewLayout';
+import { DesktopHistory } from '../../components/desktop/history/DesktopHistory';
+import { Button } from '../../components/fields/Button';
+import { InscriptionLogo } from '../../components/home/TokenLayout';
+import { ArrowUpIcon } from '../../components/Icon';
+import { InscriptionSendNotification } from '../../components/inscription/InscriptionSendNotification';
+import { Body2, Label2, Num3 } from '../../components/Text';
+import { useAppContext } from '../../hooks/appContext';
+import { useFormatCoinValue } from '../../hooks/balance';
+import { useTranslation } from '../../hooks/translation';
+import { useFetchNext } from '../../hooks/useFetchNext';
+import { AppRoute } from '../../libs/routes';
+import { useInscriptionHistory, useInscriptions } from '../../state/inscription';
+import { getMixedActivity } from '../../state/mixedActivity';
+import { useIsActiveAccountWatchOnly } from '../../state/watchOnly';
+
+const InscriptionHeaderStyled = styled.div`
+    padding: 0 1rem;
+    border-bottom: 1px solid ${p => p.theme.separatorCommon};
+`;
+
+const InscriptionInfoWrapper = styled.div`
+    padding: 1rem 0;
+    display: flex;
+    gap: 1rem;
+`;
+
+const Logo = styled(InscriptionLogo)`
+    width: 56px;
+    height: 56px;
+`;
+
+const InscriptionInfoAmounts = styled.div`
+    > * {
+        display: block;
+    }
+
+    > ${Body2} {
+        color: ${p => p.theme.textSecondary};
+    }
+`;
+
+const HeaderButtonsContainer = styled.div`
+    padding-bottom: 1rem;
+    display: flex;
+    gap: 0.5rem;
+`;
+
+const ButtonStyled = styled(Button)`
+    display: flex;
+    gap: 6px;
+
+    > svg {
+        color: ${p => p.theme.buttonTertiaryForeground};
+    }
+`;
+
+const HistorySubheader = styled(Label2)`
+    display: block;
+    padding: 0.5rem 1rem;
+    margin-top: 0.5rem;
+`;
+
+const HistoryContainer = styled.div`
+    overflow-x: auto;
+`;
+
+const InscriptionHeader: FC<{ inscription: InscriptionBalance }> = ({ inscription }) => {
+    const { t } = useTranslation();
+    const format = useFormatCoinValue();
+    const isWatchOnly = useIsActiveAccountWatchOnly();
+    const [sending, setSending] = useState<InscriptionBalance | undefined>();
+
+    return (
+        <InscriptionHeaderStyled>
+            <InscriptionInfoWrapper>
+                <Logo>{inscription.ticker.slice(0, 1)}</Logo>
+                <InscriptionInfoAmounts>
+                    <Num3>
+                        {format(inscription.balance, inscription.decimals)}&nbsp;
+                        {inscription.ticker}
+                    </Num3>
+                    <Body2>{inscriptionTypeName(inscription.type)}</Body2>
+                </InscriptionInfoAmounts>
+            </InscriptionInfoWrapper>
+            <HeaderButtonsContainer>
+                <ButtonStyled
+                    size="small"
+                    disabled={isWatchOnly}
+                    onClick={() => setSending(inscription)}
+                >
+                    <ArrowUpIcon />
+                    {t('wallet_send')}
+                </ButtonStyled>
+            </HeaderButtonsContainer>
+            <InscriptionSendNotification
+                inscription={sending}
+                handleClose={() => setSending(undefined)}
+            />
+        </InscriptionHeaderStyled>
+    );
+};
+
+const InscriptionPage: FC<{ inscription: InscriptionBalance }> = ({ inscription }) => {
+    const { t } = useTranslation();
+    const ref = useRef<HTMLDivElement>(null);
+    const { standalone } = useAppContext();
+
+    const { fetchNextPage, hasNextPage, isFetchingNextPage, data } = useInscriptionHistory(
+        inscription.ticker
+    );
+
+    useFetchNext(hasNextPage, isFetchingNextPage, fetchNextPage, standalone, ref);
+
+    const activity = useMemo(() => getMixedActivity(data, undefined), [data]);
+
+    return (
+        <DesktopViewPageLayout ref={ref}>
+            <DesktopViewHeader backButton borderBottom={true}>
+                <Label2>{inscription.ticker}</Label2>
+            </DesktopViewHeader>
+            <InscriptionHeader inscription={inscription} />
+            <HistorySubheader>{t('page_header_history')}</HistorySubheader>
+            <HistoryContainer>
+                <DesktopHistory isFetchingNextPage={isFetchingNextPage} activity={activity} />
+            </HistoryContainer>
+        </DesktopViewPageLayout>
+    );
+};
+
+export const DesktopInscriptionPage = () => {
+    const { ticker } = useParams();
+    const { data: inscriptions, isFetched } = useInscriptions();
+
+    const inscription =
+        ticker && inscriptions
+            ? findInscription(inscriptions, decodeURIComponent(ticker))
+            : undefined;
+
+    if (!ticker || (isFetched && !inscription)) {
+        return <Navigate to={AppRoute.home} />;
+    }
+
+    if (!inscription) {
+        return null;
+    }
+
+    return <InscriptionPage inscription={inscription} />;
+};
@@ -18,6 +18,7 @@ import { unShiftedDecimals } from '@tonkeeper/core/dist/utils/balance';
 import { useTranslation } from '../../hooks/translation';
 import { useDisclosure } from '../../hooks/useDisclosure';
 import { ImportListNotification } from '../../components/desktop/multi-send/import-list/ImportListNotification';
+import { UnfinishedMultiSendBatch } from '../../components/desktop/multi-send/UnfinishedMultiSendBatch';
 
 const PageWrapper = styled.div`
     overflow: auto;
@@ -149,6 +150,7 @@ export const DesktopMultiSendPage: FC = () => {
                                 <Label2>{t('multi_send_header')}</Label2>
                             </DesktopViewHeader>
                             <PageBodyWrapper>
+                                <UnfinishedMultiSendBatch />
                                 <ListBlockStyled>
                                     <ListItemStyled onClick={onCreateList}>
                                         <Body2>{t('multi_send_new_list')}</Body2>
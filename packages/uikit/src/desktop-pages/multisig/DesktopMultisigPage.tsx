@@ -0,0 +1,37 @@
+import { Navigate } from 'react-router-dom';
+import styled from 'styled-components';
+import {
+    DesktopViewHeader,
+    DesktopViewPageLayout
+} from '../../components/desktop/DesktopViewLayout';
+import { MultisigOrdersOverview } from '../../components/multisig/MultisigOrdersOverview';
+import { Label2 } from '../../components/Text';
+import { useTranslation } from '../../hooks/translation';
+import { useIsScrolled } from '../../hooks/useIsScrolled';
+import { AppRoute } from '../../libs/routes';
+import { useActiveMultisigAccount } from '../../state/multisig';
+
+const MultisigPageBody = styled.div`
+    padding: 1rem;
+`;
+
+export const DesktopMultisigPage = () => {
+    const { t } = useTranslation();
+    const account = useActiveMultisigAccount();
+    const { ref: scrollRef, closeTop } = useIsScrolled();
+
+    if (!account) {
+        return <Navigate to={AppRoute.home} />;
+    }
+
+    return (
+        <DesktopViewPageLayout ref={scrollRef}>
+            <DesktopViewHeader borderBottom={!closeTop}>
+                <Label2>{t('multisig_orders_title')}</Label2>
+            </DesktopViewHeader>
+            <MultisigPageBody>
+                <MultisigOrdersOverview account={account} />
+            </MultisigPageBody>
+        </DesktopViewPageLayout>
+    );
+};
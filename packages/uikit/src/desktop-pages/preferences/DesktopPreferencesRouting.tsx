@@ -11,6 +11,7 @@ import { Notifications } from '../../pages/settings/Notification';
 import { CountrySettings } from '../../pages/settings/Country';
 import styled from 'styled-components';
 import { SecuritySettings } from '../../pages/settings/Security';
+import { AddressBookSettings } from '../../pages/settings/AddressBook';
 
 const OldSettingsLayoutWrapper = styled.div`
     padding-top: 64px;
@@ -56,6 +57,7 @@ export const DesktopPreferencesRouting = () => {
                 <Route path={SettingsRoute.security} element={<SecuritySettings />} />
                 <Route path={SettingsRoute.country} element={<CountrySettings />} />
                 <Route path={SettingsRoute.pro} element={<ProSettings />} />
+                <Route path={SettingsRoute.addressBook} element={<AddressBookSettings />} />
                 <Route path="*" element={<Navigate to={'.' + SettingsRoute.account} replace />} />
             </Route>
         </Routes>
@@ -1,4 +1,4 @@
-import { walletVersionText } from '@tonkeeper/core/dist/entries/wallet';
+import { isStandardTonWallet, walletVersionText } from '@tonkeeper/core/dist/entries/wallet';
 import { Link } from 'react-router-dom';
 import styled from 'styled-components';
 import {
@@ -90,7 +90,7 @@ export const DesktopWalletSettingsPage = () => {
                         </SettingsListItem>
                     </LinkStyled>
                 )}
-                {canChangeVersion && (
+                {canChangeVersion && isStandardTonWallet(activeWallet) && (
                     <LinkStyled to={AppRoute.walletSettings + WalletSettingsRoute.version}>
                         <SettingsListItem>
                             <SwitchIcon />
@@ -0,0 +1,29 @@
+import styled from 'styled-components';
+import {
+    DesktopViewHeader,
+    DesktopViewPageLayout
+} from '../../components/desktop/DesktopViewLayout';
+import { StakingOverview } from '../../components/staking/StakingOverview';
+import { Label2 } from '../../components/Text';
+import { useTranslation } from '../../hooks/translation';
+import { useIsScrolled } from '../../hooks/useIsScrolled';
+
+const StakingPageBody = styled.div`
+    padding: 1rem;
+`;
+
+export const DesktopStakingPage = () => {
+    const { t } = useTranslation();
+    const { ref: scrollRef, closeTop } = useIsScrolled();
+
+    return (
+        <DesktopViewPageLayout ref={scrollRef}>
+            <DesktopViewHeader borderBottom={!closeTop}>
+                <Label2>{t('staking_title')}</Label2>
+            </DesktopViewHeader>
+            <StakingPageBody>
+                <StakingOverview />
+            </StakingPageBody>
+        </DesktopViewPageLayout>
+    );
+};
@@ -1,4 +1,5 @@
 import { useVirtualizer } from '@tanstack/react-virtual';
+import { InscriptionBalance, JettonBalance } from '@tonkeeper/core/dist/tonApiV2';
 import { isTonAddress } from '@tonkeeper/core/dist/utils/common';
 import { useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { ErrorBoundary } from 'react-error-boundary';
@@ -10,9 +11,11 @@ import {
     DesktopViewPageLayout
 } from '../../components/desktop/DesktopViewLayout';
 import { TokensPieChart } from '../../components/desktop/tokens/TokensPieChart';
-import { JettonAsset, TonAsset } from '../../components/home/Jettons';
+import { PortfolioChart } from '../../components/chart/PortfolioChart';
+import { InscriptionAsset, JettonAsset, TonAsset } from '../../components/home/Jettons';
 import { useTranslation } from '../../hooks/translation';
 import { useAssets } from '../../state/home';
+import { useInscriptions } from '../../state/inscription';
 import { useMutateUserUIPreferences, useUserUIPreferences } from '../../state/theme';
 
 import { useAssetsDistribution } from "../../state/asset";
@@ -37,6 +40,10 @@ const JettonAssetStyled = styled(JettonAsset)`
     ${DesktopAssetStylesOverride}
 `;
 
+const InscriptionAssetStyled = styled(InscriptionAsset)`
+    ${DesktopAssetStylesOverride}
+`;
+
 const TokensHeaderContainer = styled(DesktopViewHeader)`
     flex-shrink: 0;
     justify-content: space-between;
@@ -70,12 +77,26 @@ const Divider = styled.div`
     width: calc(100% + 32px);
 `;
 
+/**
+ * Fixed height of the portfolio chart block, the tokens list is virtualized below it
+ */
+const portfolioChartSize = 336;
+
+const PortfolioChartStyled = styled(PortfolioChart)`
+    height: ${portfolioChartSize}px;
+    box-sizing: border-box;
+    padding: 1rem 0;
+    margin-bottom: 0;
+    overflow: hidden;
+`;
+
 const itemSize = 77;
 
 const DesktopTokensPayload = () => {
     const [assets] = useAssets();
     const { t } = useTranslation();
     const { data: distribution } = useAssetsDistribution();
+    const { data: inscriptions } = useInscriptions();
     const { data: uiPreferences } = useUserUIPreferences();
     const { mutate } = useMutateUserUIPreferences();
     const [showChart, setShowChart] = useState(true);
@@ -99,12 +120,28 @@ const DesktopTokensPayload = () => {
         return assets?.ton?.jettons?.balances ?? [];
     }, [assets]);
 
+    const listItems = useMemo<
+        { key: string; jetton?: JettonBalance; inscription?: InscriptionBalance }[]
+    >(
+        () => [
+            ...sortedAssets.map(jetton => ({ key: jetton.jetton.address, jetton })),
+            ...(inscriptions ?? []).map(inscription => ({
+                key: `${inscription.type}-${inscription.ticker}`,
+                inscription
+            }))
+        ],
+        [sortedAssets, inscriptions]
+    );
+
     const rowVirtualizer = useVirtualizer({
-        count: sortedAssets.length,
+        count: listItems.length,
         getScrollElement: () => containerRef.current,
         estimateSize: () => itemSize,
-        getItemKey: index => sortedAssets[index].jetton.address,
-        paddingStart: canShowChart && showChart ? 192 + itemSize : itemSize
+        getItemKey: index => listItems[index].key,
+        paddingStart:
+            (showChart ? portfolioChartSize + 1 : 0) +
+            (canShowChart && showChart ? 192 : 0) +
+            itemSize
     });
 
     const onTokenClick = useCallback(
@@ -131,7 +168,7 @@ const DesktopTokensPayload = () => {
         <DesktopViewPageLayout ref={containerRef}>
             <TokensHeaderContainer>
                 <Label2>{t('jettons_list_title')}</Label2>
-                {canShowChart && (
+                {uiPreferences && (
                     <HideButton onClick={onToggleChart}>
                         <Body2>
                             {t(
@@ -152,6 +189,16 @@ const DesktopTokensPayload = () => {
             >
                 {sortedAssets && assets && distribution && uiPreferences && (
                     <>
+                        {showChart && (
+                            <ErrorBoundary
+                                fallbackRender={fallbackRenderOver(
+                                    'Failed to display portfolio chart'
+                                )}
+                            >
+                                <PortfolioChartStyled />
+                                <Divider />
+                            </ErrorBoundary>
+                        )}
                         {canShowChart && showChart && (
                             <ErrorBoundary
                                 fallbackRender={fallbackRenderOver('Failed to display pie chart')}
@@ -182,7 +229,15 @@ const DesktopTokensPayload = () => {
                                         'Failed to display tokens list'
                                     )}
                                 >
-                                    <JettonAssetStyled jetton={sortedAssets[virtualRow.index]} />
+                                    {listItems[virtualRow.index].jetton ? (
+                                        <JettonAssetStyled
+                                            jetton={listItems[virtualRow.index].jetton!}
+                                        />
+                                    ) : (
+                                        <InscriptionAssetStyled
+                                            inscription={listItems[virtualRow.index].inscription!}
+                                        />
+                                    )}
                                     <Divider />
                                 </ErrorBoundary>
                             </div>
@@ -19,12 +19,17 @@ export const AmplitudeAnalyticsContext = React.createContext<Analytics | undefin
 export type AmplitudeTransactionType =
     | 'send-ton'
     | 'send-jetton'
+    | 'send-jetton-gasless'
     | 'send-nft'
     | 'renew-dns'
     | 'link-dns'
     | 'send-trc20'
     | 'multi-send-ton'
-    | 'multi-send-jetton';
+    | 'multi-send-jetton'
+    | 'staking-deposit'
+    | 'staking-withdraw'
+    | 'multisig-new-order'
+    | 'multisig-approve';
 
 export const useTransactionAnalytics = () => {
     const tracker = useContext(AmplitudeAnalyticsContext);
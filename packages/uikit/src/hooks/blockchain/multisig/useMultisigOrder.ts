@@ -0,0 +1,163 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AccountTonWalletStandard } from '@tonkeeper/core/dist/entries/account';
+import { APIConfig } from '@tonkeeper/core/dist/entries/apis';
+import { AssetAmount } from '@tonkeeper/core/dist/entries/crypto/asset/asset-amount';
+import { TON_ASSET } from '@tonkeeper/core/dist/entries/crypto/asset/constants';
+import { TonAsset } from '@tonkeeper/core/dist/entries/crypto/asset/ton-asset';
+import { TransferEstimation, TransferEstimationEvent } from '@tonkeeper/core/dist/entries/send';
+import { MultisigRole } from '@tonkeeper/core/dist/service/multisigService';
+import {
+    createMultisigApproveMessage,
+    createMultisigNewOrderMessage,
+    estimateMultisigHostMessage,
+    MultisigHostMessage,
+    MultisigOrderTransfer,
+    sendMultisigHostMessage
+} from '@tonkeeper/core/dist/service/transfer/multisigOrderService';
+import { EmulationApi, Multisig, MultisigOrder } from '@tonkeeper/core/dist/tonApiV2';
+import { notifyError } from '../../../components/transfer/common';
+import { anyOfKeysParts, QueryKey } from '../../../libs/queryKey';
+import { getSigner } from '../../../state/mnemonic';
+import { useCheckTouchId } from '../../../state/password';
+import { AmplitudeTransactionType, useTransactionAnalytics } from '../../amplitude';
+import { useAppContext } from '../../appContext';
+import { useAppSdk } from '../../appSdk';
+import { useTranslation } from '../../translation';
+
+const estimateHostMessage = async (
+    api: APIConfig,
+    hostAccount: AccountTonWalletStandard,
+    message: MultisigHostMessage
+): Promise<TransferEstimation<TonAsset>> => {
+    const boc = await estimateMultisigHostMessage({
+        api,
+        walletState: hostAccount.activeTonWallet,
+        message
+    });
+
+    const { event } = await new EmulationApi(api.tonApiV2).emulateMessageToWallet({
+        emulateMessageToWalletRequest: { boc }
+    });
+
+    const fee = new AssetAmount({ asset: TON_ASSET, weiAmount: event.extra * -1 });
+    return { fee, payload: { event } };
+};
+
+const useSendHostMessage = <Args extends { hostAccount: AccountTonWalletStandard }>(
+    eventName2: AmplitudeTransactionType,
+    prepare: (
+        api: APIConfig,
+        args: Args
+    ) => Promise<{ message: MultisigHostMessage; fee: TransferEstimationEvent }>
+) => {
+    const { t } = useTranslation();
+    const sdk = useAppSdk();
+    const { api } = useAppContext();
+    const client = useQueryClient();
+    const track2 = useTransactionAnalytics();
+    const { mutateAsync: checkTouchId } = useCheckTouchId();
+
+    return useMutation<boolean, Error, Args>(async args => {
+        const signer = await getSigner(sdk, args.hostAccount.id, checkTouchId, api).catch(
+            () => null
+        );
+        if (signer === null) return false;
+
+        track2(eventName2);
+        try {
+            const { message, fee } = await prepare(api, args);
+            await sendMultisigHostMessage({
+                api,
+                account: args.hostAccount,
+                fee,
+                signer,
+                message
+            });
+        } catch (e) {
+            await notifyError(client, sdk, t, e);
+            throw e;
+        }
+
+        await client.invalidateQueries(anyOfKeysParts(QueryKey.multisig));
+        return true;
+    });
+};
+
+type NewOrderArgs = {
+    hostAccount: AccountTonWalletStandard;
+    multisig: Multisig;
+    role: MultisigRole;
+    transfers: MultisigOrderTransfer[];
+    expirationDate: number;
+};
+
+const newOrderMessage = (args: NewOrderArgs) =>
+    createMultisigNewOrderMessage({
+        multisig: args.multisig,
+        role: args.role,
+        transfers: args.transfers,
+        expirationDate: args.expirationDate
+    });
+
+export const useEstimateMultisigNewOrder = (args: Partial<NewOrderArgs>) => {
+    const { api } = useAppContext();
+    const isReady =
+        !!args.hostAccount &&
+        !!args.multisig &&
+        !!args.role &&
+        !!args.transfers?.length &&
+        !!args.expirationDate;
+
+    return useQuery<TransferEstimation<TonAsset>, Error>(
+        [
+            'estimate-multisig-new-order',
+            args.hostAccount?.activeTonWallet.id,
+            args.multisig?.address,
+            args.multisig?.seqno,
+            JSON.stringify(args.transfers),
+            args.expirationDate
+        ],
+        () => estimateHostMessage(api, args.hostAccount!, newOrderMessage(args as NewOrderArgs)),
+        { enabled: isReady }
+    );
+};
+
+export const useSendMultisigNewOrder = () =>
+    useSendHostMessage<NewOrderArgs & { estimation: TransferEstimation<TonAsset> }>(
+        'multisig-new-order',
+        async (_, args) => ({ message: newOrderMessage(args), fee: args.estimation.payload })
+    );
+
+type ApproveArgs = {
+    hostAccount: AccountTonWalletStandard;
+    order: MultisigOrder;
+    signerIndex: number;
+};
+
+export const useEstimateMultisigApprove = (args: ApproveArgs) => {
+    const { api } = useAppContext();
+
+    return useQuery<TransferEstimation<TonAsset>, Error>(
+        [
+            'estimate-multisig-approve',
+            args.hostAccount.activeTonWallet.id,
+            args.order.address,
+            args.signerIndex
+        ],
+        () =>
+            estimateHostMessage(
+                api,
+                args.hostAccount,
+                createMultisigApproveMessage(args.order, args.signerIndex)
+            )
+    );
+};
+
+export const useApproveMultisigOrder = () =>
+    useSendHostMessage<ApproveArgs & { estimation: TransferEstimation<TonAsset> }>(
+        'multisig-approve',
+        async (_, args) => ({
+            message: createMultisigApproveMessage(args.order, args.signerIndex),
+            fee: args.estimation.payload
+        })
+    );
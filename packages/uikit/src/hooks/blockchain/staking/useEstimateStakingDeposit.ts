@@ -0,0 +1,14 @@
+import { estimateStakingDeposit } from '@tonkeeper/core/dist/service/transfer/stakingService';
+import { PoolInfo } from '@tonkeeper/core/dist/tonApiV2';
+import BigNumber from 'bignumber.js';
+import { useEstimateTonFee } from '../useEstimateTonFee';
+
+export const useEstimateStakingDeposit = (args: { pool: PoolInfo; amount: BigNumber }) => {
+    return useEstimateTonFee(
+        {
+            caller: estimateStakingDeposit,
+            queryKey: ['estimate-staking-deposit', args.pool.address, args.amount.toFixed(0)]
+        },
+        args
+    );
+};
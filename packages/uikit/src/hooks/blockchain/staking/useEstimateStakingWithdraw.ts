@@ -0,0 +1,14 @@
+import { estimateStakingWithdraw } from '@tonkeeper/core/dist/service/transfer/stakingService';
+import { PoolInfo } from '@tonkeeper/core/dist/tonApiV2';
+import BigNumber from 'bignumber.js';
+import { useEstimateTonFee } from '../useEstimateTonFee';
+
+export const useEstimateStakingWithdraw = (args: { pool: PoolInfo; amount?: BigNumber }) => {
+    return useEstimateTonFee(
+        {
+            caller: estimateStakingWithdraw,
+            queryKey: ['estimate-staking-withdraw', args.pool.address, args.amount?.toFixed(0)]
+        },
+        args
+    );
+};
@@ -0,0 +1,11 @@
+import { TransferEstimationEvent } from '@tonkeeper/core/dist/entries/send';
+import { sendStakingDeposit } from '@tonkeeper/core/dist/service/transfer/stakingService';
+import { PoolInfo } from '@tonkeeper/core/dist/tonApiV2';
+import BigNumber from 'bignumber.js';
+import { useExecuteTonContract } from '../useExecuteTonContract';
+
+export const useStakingDeposit = (args: {
+    pool: PoolInfo;
+    amount: BigNumber;
+    fee: TransferEstimationEvent;
+}) => useExecuteTonContract({ executor: sendStakingDeposit, eventName2: 'staking-deposit' }, args);
@@ -0,0 +1,12 @@
+import { TransferEstimationEvent } from '@tonkeeper/core/dist/entries/send';
+import { sendStakingWithdraw } from '@tonkeeper/core/dist/service/transfer/stakingService';
+import { PoolInfo } from '@tonkeeper/core/dist/tonApiV2';
+import BigNumber from 'bignumber.js';
+import { useExecuteTonContract } from '../useExecuteTonContract';
+
+export const useStakingWithdraw = (args: {
+    pool: PoolInfo;
+    amount?: BigNumber;
+    fee: TransferEstimationEvent;
+}) =>
+    useExecuteTonContract({ executor: sendStakingWithdraw, eventName2: 'staking-withdraw' }, args);
@@ -12,6 +12,7 @@ import {
     TransferEstimationEvent
 } from '@tonkeeper/core/dist/entries/send';
 import { TonWalletStandard } from '@tonkeeper/core/dist/entries/wallet';
+import { estimateGaslessJettonTransfer } from '@tonkeeper/core/dist/service/transfer/gaslessService';
 import { estimateJettonTransfer } from '@tonkeeper/core/dist/service/transfer/jettonService';
 import { estimateTonTransfer } from '@tonkeeper/core/dist/service/transfer/tonService';
 import { JettonsBalances } from '@tonkeeper/core/dist/tonApiV2';
@@ -30,7 +31,8 @@ async function estimateTon({
     isMax,
     api,
     wallet,
-    jettons
+    jettons,
+    payFeeInJetton
 }: {
     recipient: RecipientData;
     amount: AssetAmount<TonAsset>;
@@ -38,6 +40,7 @@ async function estimateTon({
     api: APIConfig;
     wallet: TonWalletStandard;
     jettons: JettonsBalances | undefined;
+    payFeeInJetton: boolean;
 }): Promise<TransferEstimation<TonAsset>> {
     let payload: TransferEstimationEvent;
     if (amount.asset.id === TON_ASSET.id) {
@@ -52,6 +55,23 @@ async function estimateTon({
         const jettonInfo = jettons!.balances.find(
             jetton => (amount.asset.address as Address).toRawString() === jetton.jetton.address
         )!;
+
+        if (payFeeInJetton) {
+            payload = await estimateGaslessJettonTransfer({
+                api,
+                walletState: wallet,
+                recipient: recipient as TonRecipientData,
+                amount,
+                jettonWalletAddress: jettonInfo.walletAddress.address
+            });
+
+            const fee = new AssetAmount({
+                asset: amount.asset,
+                weiAmount: payload.gasless!.commission
+            });
+            return { fee, payload };
+        }
+
         payload = await estimateJettonTransfer(
             api,
             wallet,
@@ -68,7 +88,8 @@ async function estimateTon({
 export function useEstimateTransfer(
     recipient: RecipientData,
     amount: AssetAmount<Asset>,
-    isMax: boolean
+    isMax: boolean,
+    payFeeInJetton = false
 ) {
     const { t } = useTranslation();
     const sdk = useAppSdk();
@@ -79,7 +100,7 @@ export function useEstimateTransfer(
     /*const { data: balances } = useTronBalances();*/
 
     return useQuery<TransferEstimation<Asset>, Error>(
-        [QueryKey.estimate, recipient, amount],
+        [QueryKey.estimate, recipient, amount, payFeeInJetton],
         async () => {
             try {
                 if (isTonAsset(amount.asset)) {
@@ -89,7 +110,8 @@ export function useEstimateTransfer(
                         wallet,
                         recipient,
                         isMax,
-                        jettons
+                        jettons,
+                        payFeeInJetton
                     });
                 } else {
                     /* return await estimateTron({
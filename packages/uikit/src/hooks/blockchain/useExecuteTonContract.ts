@@ -45,7 +45,7 @@ export function useExecuteTonContract<Args extends ContractExecutorParams>(
             return false;
         }
 
-        const signer = await getSigner(sdk, account.id, checkTouchId).catch(() => null);
+        const signer = await getSigner(sdk, account.id, checkTouchId, api).catch(() => null);
         if (signer?.type !== 'cell') {
             throw new TxConfirmationCustomError(t('ledger_operation_not_supported'));
         }
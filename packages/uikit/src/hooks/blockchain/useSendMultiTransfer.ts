@@ -1,16 +1,23 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { Address } from '@ton/core';
+import { AppKey } from '@tonkeeper/core/dist/Keys';
 import { TON_ASSET } from '@tonkeeper/core/dist/entries/crypto/asset/constants';
 import { TonAsset } from '@tonkeeper/core/dist/entries/crypto/asset/ton-asset';
+import { MultiSendBatch, MultiSendBatchAsset } from '@tonkeeper/core/dist/entries/multiSend';
 import { TonRecipient } from '@tonkeeper/core/dist/entries/send';
+import { UnfinishedMultiSendBatchError } from '@tonkeeper/core/dist/errors/UnfinishedMultiSendBatchError';
+import { getUnfinishedMultiSendBatch } from '@tonkeeper/core/dist/service/multiSendBatchStorage';
+import {
+    createMultiSendBatch,
+    runMultiSendBatch
+} from '@tonkeeper/core/dist/service/transfer/multiSendBatchService';
 import {
     TransferMessage,
-    sendJettonMultiTransfer,
-    sendTonMultiTransfer
+    jettonMultiTransferAttachValue
 } from '@tonkeeper/core/dist/service/transfer/multiSendService';
 import BigNumber from 'bignumber.js';
+import { useCallback } from 'react';
 import { notifyError } from '../../components/transfer/common';
-import { TxConfirmationCustomError } from '../../libs/errors/TxConfirmationCustomError';
 import { useJettonList } from '../../state/jetton';
 import { getSigner } from '../../state/mnemonic';
 import { useCheckTouchId } from '../../state/password';
@@ -18,7 +25,7 @@ import { useTransactionAnalytics } from '../amplitude';
 import { useAppContext } from '../appContext';
 import { useAppSdk } from '../appSdk';
 import { useTranslation } from '../translation';
-import { useActiveAccount } from '../../state/wallet';
+import { useActiveAccount, useActiveTonWalletStandardAccount } from '../../state/wallet';
 
 export type MultiSendFormTokenized = {
     rows: {
@@ -39,59 +46,114 @@ export function multiSendFormToTransferMessages(form: MultiSendFormTokenized): T
     });
 }
 
-export function useSendMultiTransfer() {
+const useRunMultiSendBatch = () => {
     const { t } = useTranslation();
     const sdk = useAppSdk();
     const { api } = useAppContext();
-    const account = useActiveAccount();
+    const account = useActiveTonWalletStandardAccount();
     const client = useQueryClient();
+    const { mutateAsync: checkTouchId } = useCheckTouchId();
+
+    return useCallback(
+        async (batch: MultiSendBatch, onProgress?: (batch: MultiSendBatch) => void) => {
+            const signer = await getSigner(sdk, account.id, checkTouchId, api).catch(() => null);
+            if (signer === null) return null;
+
+            try {
+                return await runMultiSendBatch({
+                    api,
+                    storage: sdk.storage,
+                    account,
+                    batch,
+                    signer,
+                    onUpdate: onProgress
+                });
+            } catch (e) {
+                return notifyError(client, sdk, t, e);
+            } finally {
+                await client.invalidateQueries({
+                    predicate: query =>
+                        query.queryKey.includes(account.activeTonWallet.id) ||
+                        query.queryKey.includes(AppKey.MULTI_SEND_BATCHES)
+                });
+            }
+        },
+        [sdk, api, account, client, t, checkTouchId]
+    );
+};
+
+/**
+ * Sends the list as a persistent batch, see `runMultiSendBatch`.
+ * Returns null if the user has not confirmed the transfer.
+ * Rejected while the wallet has an unfinished batch, so the rows it may have sent are not paid twice.
+ */
+export function useSendMultiTransfer() {
+    const sdk = useAppSdk();
+    const account = useActiveAccount();
     const track2 = useTransactionAnalytics();
     const { data: jettons } = useJettonList();
-    const { mutateAsync: checkTouchId } = useCheckTouchId();
+    const runBatch = useRunMultiSendBatch();
 
     return useMutation<
-        boolean,
+        MultiSendBatch | null,
         Error,
-        { form: MultiSendFormTokenized; asset: TonAsset; feeEstimation: BigNumber }
-    >(async ({ form, asset, feeEstimation }) => {
-        const wallet = account.activeTonWallet;
-        const signer = await getSigner(sdk, account.id, checkTouchId).catch(() => null);
-        if (signer === null) return false;
-        try {
-            if (signer.type !== 'cell') {
-                throw new TxConfirmationCustomError(t('ledger_operation_not_supported'));
-            }
+        {
+            form: MultiSendFormTokenized;
+            asset: TonAsset;
+            feeEstimation: BigNumber;
+            onProgress?: (batch: MultiSendBatch) => void;
+        }
+    >(async ({ form, asset, feeEstimation, onProgress }) => {
+        const unfinished = await getUnfinishedMultiSendBatch(
+            sdk.storage,
+            account.activeTonWallet.id
+        );
+        if (unfinished) {
+            throw new UnfinishedMultiSendBatchError(
+                'Wallet has an unfinished multi send batch',
+                unfinished.id
+            );
+        }
 
-            if (asset.id === TON_ASSET.id) {
-                track2('multi-send-ton');
-                await sendTonMultiTransfer(
-                    api,
-                    wallet,
-                    multiSendFormToTransferMessages(form),
-                    feeEstimation,
-                    signer
-                );
-            } else {
-                track2('multi-send-jetton');
-                const jettonInfo = jettons!.balances.find(
-                    jetton => (asset.address as Address).toRawString() === jetton.jetton.address
-                )!;
-                await sendJettonMultiTransfer(
-                    api,
-                    wallet,
-                    jettonInfo.walletAddress.address,
-                    multiSendFormToTransferMessages(form),
+        const transferMessages = multiSendFormToTransferMessages(form);
+
+        let batchAsset: MultiSendBatchAsset;
+        if (asset.id === TON_ASSET.id) {
+            track2('multi-send-ton');
+            batchAsset = { type: 'ton' };
+        } else {
+            track2('multi-send-jetton');
+            const jettonInfo = jettons!.balances.find(
+                jetton => (asset.address as Address).toRawString() === jetton.jetton.address
+            )!;
+            batchAsset = {
+                type: 'jetton',
+                jettonWalletAddress: jettonInfo.walletAddress.address,
+                attachValue: jettonMultiTransferAttachValue(
                     feeEstimation,
-                    signer
-                );
-            }
-        } catch (e) {
-            await notifyError(client, sdk, t, e);
+                    transferMessages.length
+                ).toFixed(0)
+            };
         }
 
-        await client.invalidateQueries({
-            predicate: query => query.queryKey.includes(wallet.id)
+        const batch = createMultiSendBatch({
+            walletId: account.activeTonWallet.id,
+            assetSymbol: asset.symbol,
+            assetDecimals: asset.decimals,
+            asset: batchAsset,
+            transferMessages
         });
-        return true;
+
+        return runBatch(batch, onProgress);
     });
 }
+
+export function useResumeMultiSendBatch() {
+    const runBatch = useRunMultiSendBatch();
+
+    return useMutation<
+        MultiSendBatch | null,
+        Error,
+        { batch: MultiSendBatch; onProgress?: (batch: MultiSendBatch) => void }
+    >(({ batch, onProgress }) => runBatch(batch, onProgress));
+}
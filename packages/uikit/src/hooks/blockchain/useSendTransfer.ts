@@ -10,17 +10,23 @@ import {
     TransferEstimationEvent,
     TronRecipientData
 } from '@tonkeeper/core/dist/entries/send';
+import { checkTransferLinkExpiryOrDie } from '@tonkeeper/core/dist/service/transfer/common';
+import { sendGaslessJettonTransfer } from '@tonkeeper/core/dist/service/transfer/gaslessService';
 import { sendJettonTransfer } from '@tonkeeper/core/dist/service/transfer/jettonService';
 import { sendTonTransfer } from '@tonkeeper/core/dist/service/transfer/tonService';
 import { notifyError } from '../../components/transfer/common';
 import { useJettonList } from '../../state/jetton';
-import { getSigner } from '../../state/mnemonic';
+import { encryptRecipientComment } from '../../state/encryptedComment';
+import { getMnemonic, getSigner } from '../../state/mnemonic';
 import { useCheckTouchId } from '../../state/password';
 import { useTransactionAnalytics } from '../amplitude';
 import { useAppContext } from '../appContext';
 import { useAppSdk } from '../appSdk';
 import { useTranslation } from '../translation';
-import { useActiveAccount, useInvalidateActiveWalletQueries } from '../../state/wallet';
+import {
+    useActiveTonWalletStandardAccount,
+    useInvalidateActiveWalletQueries
+} from '../../state/wallet';
 
 export function useSendTransfer<T extends Asset>(
     recipient: T extends TonAsset ? TonRecipientData : TronRecipientData,
@@ -31,7 +37,7 @@ export function useSendTransfer<T extends Asset>(
     const { t } = useTranslation();
     const sdk = useAppSdk();
     const { api } = useAppContext();
-    const account = useActiveAccount();
+    const account = useActiveTonWalletStandardAccount();
     const client = useQueryClient();
     const track2 = useTransactionAnalytics();
     const { data: jettons } = useJettonList();
@@ -39,21 +45,51 @@ export function useSendTransfer<T extends Asset>(
     const { mutateAsync: invalidateAccountQueries } = useInvalidateActiveWalletQueries();
 
     return useMutation<boolean, Error>(async () => {
-        const signer = await getSigner(sdk, account.id, checkTouchId).catch(() => null);
+        if ('expiresAt' in recipient) {
+            checkTransferLinkExpiryOrDie(recipient.expiresAt);
+        }
+
+        let mnemonic: string[] | undefined;
+        if ('encryptComment' in recipient && recipient.encryptComment) {
+            mnemonic = await getMnemonic(sdk, account.id, checkTouchId).catch(() => undefined);
+            if (mnemonic === undefined) return false;
+        }
+        const signer = await getSigner(sdk, account.id, checkTouchId, api, mnemonic).catch(
+            () => null
+        );
         if (signer === null) return false;
         try {
             if (isTonAsset(amount.asset)) {
+                const tonRecipient = mnemonic
+                    ? await encryptRecipientComment({
+                          api,
+                          senderAddress: account.activeTonWallet.rawAddress,
+                          recipient: recipient as TonRecipientData,
+                          mnemonic,
+                          t
+                      })
+                    : (recipient as TonRecipientData);
+
                 if (amount.asset.id === TON_ASSET.id) {
                     track2('send-ton');
                     await sendTonTransfer(
                         api,
                         account,
-                        recipient as TonRecipientData,
+                        tonRecipient,
                         amount,
                         isMax,
                         estimation.payload as TransferEstimationEvent,
                         signer
                     );
+                } else if ((estimation.payload as TransferEstimationEvent).gasless) {
+                    track2('send-jetton-gasless');
+                    await sendGaslessJettonTransfer({
+                        api,
+                        account,
+                        fee: estimation.payload as TransferEstimationEvent,
+                        signer,
+                        expiresAt: tonRecipient.expiresAt
+                    });
                 } else {
                     track2('send-jetton');
                     const jettonInfo = jettons!.balances.find(
@@ -64,7 +100,7 @@ export function useSendTransfer<T extends Asset>(
                     await sendJettonTransfer(
                         api,
                         account,
-                        recipient as TonRecipientData,
+                        tonRecipient,
                         amount as AssetAmount<TonAsset>,
                         jettonInfo!.walletAddress.address,
                         estimation.payload as TransferEstimationEvent,
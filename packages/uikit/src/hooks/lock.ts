@@ -1,6 +1,68 @@
 import { IAppSdk } from '@tonkeeper/core/dist/AppSdk';
 import { AppKey } from '@tonkeeper/core/dist/Keys';
+import { passwordStorage } from '@tonkeeper/core/dist/service/passwordService';
 import { useEffect, useState } from 'react';
+import { wipeKeyMaterial } from '../state/mnemonic';
+import { useAutoLockSettings, useLookScreen } from '../state/password';
+
+const activityEvents = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'] as const;
+const idleCheckIntervalMs = 10000;
+
+/**
+ * Emits the lock event after the inactivity timeout and when the app is hidden.
+ * Inactivity is measured by time, so it is counted while the system sleeps and timers are paused
+ */
+const useAutoLock = (sdk: IAppSdk, isUnlocked: boolean) => {
+    const { data: lockEnabled } = useLookScreen();
+    const { data: settings } = useAutoLockSettings();
+
+    const isActive = isUnlocked && lockEnabled === true && settings !== undefined;
+    const idleMinutes = isActive ? settings.idleMinutes : null;
+    const lockOnHide = isActive && settings.lockOnHide;
+
+    useEffect(() => {
+        if (idleMinutes === null) return;
+
+        let lastActivity = Date.now();
+        const onActivity = () => {
+            lastActivity = Date.now();
+        };
+        const check = () => {
+            if (Date.now() - lastActivity > idleMinutes * 60 * 1000) {
+                sdk.uiEvents.emit('lock');
+            }
+        };
+
+        activityEvents.forEach(name => window.addEventListener(name, onActivity));
+        document.addEventListener('visibilitychange', check);
+        const interval = setInterval(check, idleCheckIntervalMs);
+
+        return () => {
+            activityEvents.forEach(name => window.removeEventListener(name, onActivity));
+            document.removeEventListener('visibilitychange', check);
+            clearInterval(interval);
+        };
+    }, [sdk, idleMinutes]);
+
+    useEffect(() => {
+        if (!lockOnHide) return;
+
+        const lock = () => sdk.uiEvents.emit('lock');
+        const onVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') {
+                lock();
+            }
+        };
+
+        document.addEventListener('visibilitychange', onVisibilityChange);
+        sdk.uiEvents.on('appHidden', lock);
+
+        return () => {
+            document.removeEventListener('visibilitychange', onVisibilityChange);
+            sdk.uiEvents.off('appHidden', lock);
+        };
+    }, [sdk, lockOnHide]);
+};
 
 export const useLock = (sdk: IAppSdk) => {
     const [lock, setLock] = useState<boolean | undefined>(undefined);
@@ -10,11 +72,22 @@ export const useLock = (sdk: IAppSdk) => {
         const unlock = () => {
             setLock(false);
         };
+        const lockSession = async () => {
+            if (await passwordStorage(sdk.storage).getIsPasswordSet()) {
+                wipeKeyMaterial();
+                setLock(true);
+            }
+        };
         sdk.uiEvents.on('unlock', unlock);
+        sdk.uiEvents.on('lock', lockSession);
 
         return () => {
             sdk.uiEvents.off('unlock', unlock);
+            sdk.uiEvents.off('lock', lockSession);
         };
     }, []);
+
+    useAutoLock(sdk, lock === false);
+
     return lock;
 };
@@ -25,6 +25,15 @@ export enum QueryKey {
     language = 'language',
     walletVersions = 'walletVersions',
     globalPreferencesConfig = 'globalPreferencesConfig',
+    addressBook = 'addressBook',
+    staking = 'staking',
+    gasless = 'gasless',
+    multisig = 'multisig',
+    trace = 'trace',
+    chart = 'chart',
+    inscriptions = 'inscriptions',
+    spendingPolicy = 'spendingPolicy',
+    encryptedComment = 'encryptedComment',
 
     tonConnectConnection = 'tonConnectConnection',
     tonConnectLastEventId = 'tonConnectLastEventId',
@@ -11,6 +11,9 @@ export enum AppRoute {
     signer = '/signer',
     publish = '/publish',
     swap = '/swap',
+    staking = '/staking',
+    multisig = '/multisig',
+    inscriptions = '/inscriptions',
     home = '/'
 }
 
@@ -28,7 +31,10 @@ export enum ImportRoute {
     create = '/create',
     signer = '/signer',
     ledger = '/ledger',
-    keystone = '/keystone'
+    keystone = '/keystone',
+    backup = '/backup',
+    watchOnly = '/watch-only',
+    multisig = '/multisig'
 }
 
 export enum SettingsRoute {
@@ -48,7 +54,8 @@ export enum SettingsRoute {
     security = '/security',
     subscriptions = '/subscriptions',
     country = '/country',
-    pro = '/pro'
+    pro = '/pro',
+    addressBook = '/address-book'
 }
 
 export enum WalletSettingsRoute {
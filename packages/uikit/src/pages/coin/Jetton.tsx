@@ -10,6 +10,7 @@ import { SubHeader } from '../../components/SubHeader';
 import { ActivityList } from '../../components/activity/ActivityGroup';
 import { ActionsRow } from '../../components/home/Actions';
 import { ReceiveAction } from '../../components/home/ReceiveAction';
+import { TokenPriceChart } from '../../components/chart/TokenPriceChart';
 import { CoinInfo } from '../../components/jettons/Info';
 import { SendAction } from '../../components/transfer/SendActionButton';
 import { useAppContext } from '../../hooks/appContext';
@@ -102,6 +103,7 @@ export const JettonContent: FC<{ jettonAddress: string }> = ({ jettonAddress })
                     <ReceiveAction jetton={info.metadata.address} />
                     {swapAsset && <SwapAction fromAsset={swapAsset} />}
                 </ActionsRow>
+                <TokenPriceChart token={info.metadata.address} />
 
                 <JettonHistory balance={balance} innerRef={ref} />
             </InnerBody>
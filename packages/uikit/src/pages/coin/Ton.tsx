@@ -4,17 +4,22 @@ import { BLOCKCHAIN_NAME, CryptoCurrency } from '@tonkeeper/core/dist/entries/cr
 import { Account, AccountsApi } from '@tonkeeper/core/dist/tonApiV2';
 import { formatDecimals } from '@tonkeeper/core/dist/utils/balance';
 import React, { FC, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { InnerBody } from '../../components/Body';
 import { CoinSkeletonPage } from '../../components/Skeleton';
 import { SubHeader } from '../../components/SubHeader';
 import { ActivityList } from '../../components/activity/ActivityGroup';
+import { TokenPriceChart } from '../../components/chart/TokenPriceChart';
 import { HomeActions } from '../../components/home/TonActions';
 import { CoinInfo } from '../../components/jettons/Info';
+import { ColumnText } from '../../components/Layout';
+import { ListBlock, ListItem, ListItemPayload } from '../../components/List';
 import { useAppContext } from '../../hooks/appContext';
 import { useFormatBalance } from '../../hooks/balance';
 import { useTranslation } from '../../hooks/translation';
 import { useFetchNext } from '../../hooks/useFetchNext';
 import { QueryKey } from '../../libs/queryKey';
+import { AppRoute } from '../../libs/routes';
 import { useFormatFiat, useRate } from '../../state/rates';
 import { groupAndFilterTonActivityItems } from '../../state/ton/tonActivity';
 import { useActiveWallet, useWalletAccountInfo } from '../../state/wallet';
@@ -47,6 +52,7 @@ export const TonPage = () => {
 
     const { api, standalone } = useAppContext();
     const wallet = useActiveWallet();
+    const navigate = useNavigate();
 
     const { fetchNextPage, hasNextPage, isFetchingNextPage, data, isFetched } = useInfiniteQuery({
         queryKey: [wallet.rawAddress, QueryKey.activity, 'ton'],
@@ -76,6 +82,17 @@ export const TonPage = () => {
             <InnerBody ref={ref}>
                 <TonHeader info={info} />
                 <HomeActions chain={BLOCKCHAIN_NAME.TON} />
+                <TokenPriceChart token={CryptoCurrency.TON} />
+                <ListBlock>
+                    <ListItem onClick={() => navigate(AppRoute.staking)}>
+                        <ListItemPayload>
+                            <ColumnText
+                                text={t('staking_title')}
+                                secondary={t('staking_description')}
+                            />
+                        </ListItemPayload>
+                    </ListItem>
+                </ListBlock>
                 <ActivityList
                     isFetched={isFetched}
                     isFetchingNextPage={isFetchingNextPage}
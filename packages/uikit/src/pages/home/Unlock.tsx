@@ -42,11 +42,13 @@ const useMutateUnlock = () => {
     const sdk = useAppSdk();
 
     return useMutation<void, Error, string>(async password => {
-        const isValid = await passwordStorage(sdk.storage).isPasswordValid(password);
+        const storage = passwordStorage(sdk.storage);
+        const isValid = await storage.isPasswordValid(password);
         if (!isValid) {
             throw new Error('Password not valid');
         }
         sdk.uiEvents.emit('unlock');
+        storage.upgradeOutdatedEncryption(password).catch(console.error);
     });
 };
 
@@ -36,8 +36,9 @@ const CreatePasswordStyled = styled(CreatePassword)<{ padding: number }>`
 export const useMutateUnlock = (sdk: IAppSdk, requestId?: number) => {
     const isPasswordSet = useIsPasswordSet();
     return useMutation<void, Error, string>(async password => {
+        const storage = passwordStorage(sdk.storage);
         if (isPasswordSet) {
-            const isValid = await passwordStorage(sdk.storage).isPasswordValid(password);
+            const isValid = await storage.isPasswordValid(password);
             if (!isValid) {
                 sdk.hapticNotification('error');
                 throw new Error('Password not valid');
@@ -49,6 +50,10 @@ export const useMutateUnlock = (sdk: IAppSdk, requestId?: number) => {
             id: requestId,
             params: password
         });
+
+        if (isPasswordSet) {
+            storage.upgradeOutdatedEncryption(password).catch(console.error);
+        }
     });
 };
 
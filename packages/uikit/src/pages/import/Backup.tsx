@@ -0,0 +1,232 @@
+import { WalletBackupMnemonicError } from '@tonkeeper/core/dist/errors/WalletBackupMnemonicError';
+import { WalletBackupPasswordError } from '@tonkeeper/core/dist/errors/WalletBackupPasswordError';
+import {
+    parseWalletBackupFile,
+    WalletBackupFile,
+    WalletBackupRestoreResult
+} from '@tonkeeper/core/dist/service/backupService';
+import React, { ChangeEvent, FC, useId, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import styled from 'styled-components';
+import { BackButtonBlock } from '../../components/BackButton';
+import { CenterContainer } from '../../components/Layout';
+import { ListBlock } from '../../components/List';
+import { Body1, Body2, H2, Label1 } from '../../components/Text';
+import { Button } from '../../components/fields/Button';
+import { Input } from '../../components/fields/Input';
+import { useTranslation } from '../../hooks/translation';
+import { AppRoute } from '../../libs/routes';
+import { useRestoreWalletBackup } from '../../state/backup';
+import { FinalView } from './Password';
+
+const Block = styled.form`
+    display: flex;
+    flex-direction: column;
+    gap: 1rem;
+    text-align: center;
+`;
+
+const Header = styled(H2)`
+    user-select: none;
+`;
+
+const Body = styled(Body1)`
+    user-select: none;
+    color: ${p => p.theme.textSecondary};
+`;
+
+const FileInput = styled.input`
+    display: none;
+`;
+
+const ErrorText = styled(Body2)`
+    color: ${p => p.theme.accentRed};
+`;
+
+const ConflictRow = styled.div`
+    display: flex;
+    justify-content: space-between;
+    gap: 1rem;
+    padding: 8px 12px;
+    text-align: left;
+
+    &:not(:first-child) {
+        border-top: 1px solid ${p => p.theme.separatorCommon};
+    }
+
+    > ${Body2} {
+        color: ${p => p.theme.textSecondary};
+        flex-shrink: 0;
+    }
+`;
+
+const ConflictName = styled(Label1)`
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+`;
+
+const SelectBackupFile: FC<{ onFile: (file: WalletBackupFile) => void }> = ({ onFile }) => {
+    const { t } = useTranslation();
+    const inputId = useId();
+    const [isInvalid, setIsInvalid] = useState(false);
+
+    const onSelect = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            onFile(parseWalletBackupFile(await file.text()));
+        } catch (err) {
+            console.error(err);
+            setIsInvalid(true);
+        }
+    };
+
+    return (
+        <Block as="div">
+            <Header>{t('wallet_backup_import_title')}</Header>
+            <Body>{t('wallet_backup_import_description')}</Body>
+            {isInvalid && <ErrorText>{t('wallet_backup_import_invalid_file')}</ErrorText>}
+            <Button size="large" fullWidth primary marginTop as="label" htmlFor={inputId}>
+                {t('upload_file')}
+            </Button>
+            <FileInput id={inputId} type="file" accept=".json" onChange={onSelect} />
+        </Block>
+    );
+};
+
+const EnterBackupPassword: FC<{
+    file: WalletBackupFile;
+    onRestored: (result: WalletBackupRestoreResult) => void;
+}> = ({ file, onRestored }) => {
+    const { t } = useTranslation();
+    const { mutateAsync, isLoading, error, reset } = useRestoreWalletBackup();
+    const [password, setPassword] = useState('');
+
+    const isWrongPassword = error instanceof WalletBackupPasswordError;
+
+    const onSubmit: React.FormEventHandler<HTMLFormElement> = async e => {
+        e.preventDefault();
+        reset();
+        try {
+            onRestored(await mutateAsync({ file, password }));
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    return (
+        <Block onSubmit={onSubmit}>
+            <Header>{t('wallet_backup_import_password')}</Header>
+            <Body>
+                {t('wallet_backup_import_created').replace(
+                    '%{date}',
+                    new Date(file.createdAt).toLocaleString()
+                )}
+            </Body>
+            <Input
+                type="password"
+                label={t('wallet_backup_password')}
+                value={password}
+                onChange={value => {
+                    reset();
+                    setPassword(value);
+                }}
+                isValid={!isWrongPassword}
+                helpText={isWrongPassword ? t('wallet_backup_import_wrong_password') : undefined}
+                disabled={isLoading}
+            />
+            {error instanceof WalletBackupMnemonicError && (
+                <ErrorText>
+                    {t('wallet_backup_import_mnemonic_mismatch').replace(
+                        '%{name}',
+                        error.accountName
+                    )}
+                </ErrorText>
+            )}
+            {error && !isWrongPassword && !(error instanceof WalletBackupMnemonicError) && (
+                <ErrorText>{t('wallet_backup_import_error')}</ErrorText>
+            )}
+            <Button
+                size="large"
+                fullWidth
+                primary
+                marginTop
+                type="submit"
+                loading={isLoading}
+                disabled={isLoading || password.length === 0}
+            >
+                {t('continue')}
+            </Button>
+        </Block>
+    );
+};
+
+const RestoreReport: FC<{ result: WalletBackupRestoreResult; onDone: () => void }> = ({
+    result,
+    onDone
+}) => {
+    const { t } = useTranslation();
+
+    return (
+        <Block as="div">
+            <Header>{t('wallet_backup_import_conflicts_title')}</Header>
+            <Body>
+                {t('wallet_backup_import_conflicts_description').replace(
+                    '%{accounts}',
+                    String(result.importedAccounts)
+                )}
+            </Body>
+            <ListBlock margin={false}>
+                {result.conflicts.map((conflict, index) => (
+                    <ConflictRow key={index}>
+                        <ConflictName>{conflict.name}</ConflictName>
+                        <Body2>{t(`wallet_backup_conflict_${conflict.type}`)}</Body2>
+                    </ConflictRow>
+                ))}
+            </ListBlock>
+            <Button size="large" fullWidth primary marginTop onClick={onDone}>
+                {t('continue')}
+            </Button>
+        </Block>
+    );
+};
+
+const Backup = () => {
+    const navigate = useNavigate();
+    const [file, setFile] = useState<WalletBackupFile | undefined>();
+    const [result, setResult] = useState<WalletBackupRestoreResult | undefined>();
+    const [reportPassed, setReportPassed] = useState(false);
+
+    if (!file) {
+        return (
+            <CenterContainer>
+                <BackButtonBlock onClick={() => navigate(AppRoute.home)} />
+                <SelectBackupFile onFile={setFile} />
+            </CenterContainer>
+        );
+    }
+
+    if (!result) {
+        return (
+            <CenterContainer>
+                <BackButtonBlock onClick={() => setFile(undefined)} />
+                <EnterBackupPassword file={file} onRestored={setResult} />
+            </CenterContainer>
+        );
+    }
+
+    if (result.conflicts.length > 0 && !reportPassed) {
+        return (
+            <CenterContainer>
+                <RestoreReport result={result} onDone={() => setReportPassed(true)} />
+            </CenterContainer>
+        );
+    }
+
+    return <FinalView />;
+};
+
+export default Backup;
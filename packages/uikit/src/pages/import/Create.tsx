@@ -14,7 +14,7 @@ import { useAppSdk } from '../../hooks/appSdk';
 import { useTranslation } from '../../hooks/translation';
 import { FinalView } from './Password';
 import { Subscribe } from './Subscribe';
-import { Account } from '@tonkeeper/core/dist/entries/account';
+import { Account, isAccountTonWalletStandard } from '@tonkeeper/core/dist/entries/account';
 import { useCreateAccountMnemonic, useMutateRenameAccount } from '../../state/wallet';
 
 const Create = () => {
@@ -124,7 +124,11 @@ const Create = () => {
         );
     }
 
-    if (sdk.notifications && !notificationsSubscribePagePassed) {
+    if (
+        sdk.notifications &&
+        !notificationsSubscribePagePassed &&
+        isAccountTonWalletStandard(createdAccount)
+    ) {
         return (
             <Subscribe
                 wallet={createdAccount.activeTonWallet}
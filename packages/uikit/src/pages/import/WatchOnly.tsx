@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import styled from 'styled-components';
+import { BackButtonBlock } from '../../components/BackButton';
+import { CenterContainer } from '../../components/Layout';
+import { Body1, Body2, H2 } from '../../components/Text';
+import { Button } from '../../components/fields/Button';
+import { Input } from '../../components/fields/Input';
+import { useTranslation } from '../../hooks/translation';
+import { AppRoute } from '../../libs/routes';
+import { useAddWatchOnlyAccountMutation } from '../../state/watchOnly';
+
+const Block = styled.form`
+    display: flex;
+    flex-direction: column;
+    gap: 1rem;
+    text-align: center;
+`;
+
+const Header = styled(H2)`
+    user-select: none;
+`;
+
+const Body = styled(Body1)`
+    user-select: none;
+    color: ${p => p.theme.textSecondary};
+`;
+
+const ErrorText = styled(Body2)`
+    color: ${p => p.theme.accentRed};
+`;
+
+export const ImportWatchOnly = () => {
+    const { t } = useTranslation();
+    const navigate = useNavigate();
+    const { mutateAsync, isLoading, error, reset } = useAddWatchOnlyAccountMutation();
+
+    const [address, setAddress] = useState('');
+    const [name, setName] = useState('');
+
+    const onSubmit: React.FormEventHandler<HTMLFormElement> = async e => {
+        e.preventDefault();
+        reset();
+        try {
+            await mutateAsync({ address: address.trim(), name: name.trim() || undefined });
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    return (
+        <CenterContainer>
+            <BackButtonBlock onClick={() => navigate(AppRoute.home)} />
+            <Block onSubmit={onSubmit}>
+                <Header>{t('watch_only_import_title')}</Header>
+                <Body>{t('watch_only_import_description')}</Body>
+                <Input
+                    label={t('watch_only_address')}
+                    value={address}
+                    onChange={value => {
+                        reset();
+                        setAddress(value);
+                    }}
+                    isValid={!error}
+                    disabled={isLoading}
+                />
+                <Input
+                    label={t('watch_only_name')}
+                    value={name}
+                    onChange={setName}
+                    disabled={isLoading}
+                />
+                {error && <ErrorText>{t('watch_only_import_invalid_address')}</ErrorText>}
+                <Button
+                    size="large"
+                    fullWidth
+                    primary
+                    marginTop
+                    type="submit"
+                    loading={isLoading}
+                    disabled={isLoading || address.trim().length === 0}
+                >
+                    {t('continue')}
+                </Button>
+            </Block>
+        </CenterContainer>
+    );
+};
@@ -1,10 +1,13 @@
 import { Route, Routes } from 'react-router-dom';
 import { ImportRoute } from '../../libs/routes';
+import Backup from './Backup';
 import Create from './Create';
 import Import from './Import';
 import { PairKeystone } from './Keystone';
 import { PairLedger } from './Ledger';
+import { ImportMultisig } from './Multisig';
 import { PairSigner } from './Signer';
+import { ImportWatchOnly } from './WatchOnly';
 
 const ImportRouter = () => {
     return (
@@ -14,6 +17,9 @@ const ImportRouter = () => {
             <Route path={ImportRoute.signer} element={<PairSigner />} />
             <Route path={ImportRoute.keystone} element={<PairKeystone />} />
             <Route path={ImportRoute.ledger} element={<PairLedger />} />
+            <Route path={ImportRoute.backup} element={<Backup />} />
+            <Route path={ImportRoute.watchOnly} element={<ImportWatchOnly />} />
+            <Route path={ImportRoute.multisig} element={<ImportMultisig />} />
         </Routes>
     );
 };
@@ -0,0 +1,128 @@
+import {
+    findInscription,
+    inscriptionTypeName
+} from '@tonkeeper/core/dist/service/inscriptionService';
+import { InscriptionBalance } from '@tonkeeper/core/dist/tonApiV2';
+import { formatDecimals } from '@tonkeeper/core/dist/utils/balance';
+import React, { FC, useRef, useState } from 'react';
+import { Navigate, useParams } from 'react-router-dom';
+import styled from 'styled-components';
+import { InnerBody } from '../../components/Body';
+import { CoinSkeletonPage } from '../../components/Skeleton';
+import { SubHeader } from '../../components/SubHeader';
+import { ActivityList } from '../../components/activity/ActivityGroup';
+import { Action, ActionsRow } from '../../components/home/Actions';
+import { SendIcon } from '../../components/home/HomeIcons';
+import { InscriptionLogo } from '../../components/home/TokenLayout';
+import { InscriptionSendNotification } from '../../components/inscription/InscriptionSendNotification';
+import { Body1, H2 } from '../../components/Text';
+import { useAppContext } from '../../hooks/appContext';
+import { useFormatBalance } from '../../hooks/balance';
+import { useFetchNext } from '../../hooks/useFetchNext';
+import { AppRoute } from '../../libs/routes';
+import { useInscriptionHistory, useInscriptions } from '../../state/inscription';
+import { useIsActiveAccountWatchOnly } from '../../state/watchOnly';
+
+const Block = styled.div`
+    display: flex;
+    margin: 1rem 0 2.5rem;
+    gap: 1rem;
+    width: 100%;
+`;
+
+const Text = styled.div`
+    display: flex;
+    flex-direction: column;
+    flex-grow: 1;
+
+    > ${Body1} {
+        color: ${p => p.theme.textSecondary};
+    }
+`;
+
+const Logo = styled(InscriptionLogo)`
+    width: 64px;
+    height: 64px;
+`;
+
+const InscriptionHistory: FC<{ ticker: string; innerRef: React.RefObject<HTMLDivElement> }> = ({
+    ticker,
+    innerRef
+}) => {
+    const { standalone } = useAppContext();
+    const { isFetched, hasNextPage, data, isFetchingNextPage, fetchNextPage } =
+        useInscriptionHistory(ticker);
+
+    useFetchNext(hasNextPage, isFetchingNextPage, fetchNextPage, standalone, innerRef);
+
+    return (
+        <ActivityList
+            isFetched={isFetched}
+            isFetchingNextPage={isFetchingNextPage}
+            tonEvents={data}
+        />
+    );
+};
+
+const InscriptionContent: FC<{ inscription: InscriptionBalance }> = ({ inscription }) => {
+    const ref = useRef<HTMLDivElement>(null);
+    const isWatchOnly = useIsActiveAccountWatchOnly();
+    const [sending, setSending] = useState<InscriptionBalance | undefined>();
+
+    const balance = useFormatBalance(
+        formatDecimals(inscription.balance, inscription.decimals),
+        inscription.decimals
+    );
+
+    return (
+        <>
+            <SubHeader title={inscription.ticker} />
+            <InnerBody ref={ref}>
+                <Block>
+                    <Text>
+                        <H2>
+                            {balance} {inscription.ticker}
+                        </H2>
+                        <Body1>{inscriptionTypeName(inscription.type)}</Body1>
+                    </Text>
+                    <Logo>{inscription.ticker.slice(0, 1)}</Logo>
+                </Block>
+                <ActionsRow>
+                    <Action
+                        icon={<SendIcon />}
+                        title="wallet_send"
+                        disabled={isWatchOnly}
+                        action={() => setSending(inscription)}
+                    />
+                </ActionsRow>
+                <InscriptionHistory ticker={inscription.ticker} innerRef={ref} />
+            </InnerBody>
+            <InscriptionSendNotification
+                inscription={sending}
+                handleClose={() => setSending(undefined)}
+            />
+        </>
+    );
+};
+
+const InscriptionPage = () => {
+    const { ticker } = useParams();
+    const { data: inscriptions, isFetched } = useInscriptions();
+
+    const inscription =
+        ticker && inscriptions
+            ? findInscription(inscriptions, decodeURIComponent(ticker))
+            : undefined;
+
+    if (!ticker || (isFetched && !inscription)) {
+        return <Navigate to={AppRoute.home} />;
+    }
+
+    if (!inscription) {
+        return <CoinSkeletonPage />;
+    }
+
+    return <InscriptionContent inscription={inscription} />;
+};
+
+export default InscriptionPage;
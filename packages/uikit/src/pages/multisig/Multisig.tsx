@@ -0,0 +1,27 @@
+import { Navigate } from 'react-router-dom';
+import { InnerBody } from '../../components/Body';
+import { SubHeader } from '../../components/SubHeader';
+import { MultisigOrdersOverview } from '../../components/multisig/MultisigOrdersOverview';
+import { useTranslation } from '../../hooks/translation';
+import { AppRoute } from '../../libs/routes';
+import { useActiveMultisigAccount } from '../../state/multisig';
+
+const Multisig = () => {
+    const { t } = useTranslation();
+    const account = useActiveMultisigAccount();
+
+    if (!account) {
+        return <Navigate to={AppRoute.home} />;
+    }
+
+    return (
+        <>
+            <SubHeader title={t('multisig_orders_title')} />
+            <InnerBody>
+                <MultisigOrdersOverview account={account} />
+            </InnerBody>
+        </>
+    );
+};
+
+export default Multisig;
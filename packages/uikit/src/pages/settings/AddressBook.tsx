@@ -0,0 +1,241 @@
+import { AddressBookEntry } from '@tonkeeper/core/dist/entries/addressBook';
+import { BLOCKCHAIN_NAME } from '@tonkeeper/core/dist/entries/crypto';
+import { AddressBookImportError } from '@tonkeeper/core/dist/errors/AddressBookImportError';
+import {
+    addressBookToCsv,
+    getAddressBookTags,
+    searchAddressBook
+} from '@tonkeeper/core/dist/service/addressBookService';
+import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
+import React, { ChangeEvent, FC, useEffect, useId, useMemo, useState } from 'react';
+import styled, { css } from 'styled-components';
+import { InnerBody } from '../../components/Body';
+import { ColumnText } from '../../components/Layout';
+import { ListBlock, ListItem, ListItemPayload } from '../../components/List';
+import { SkeletonList } from '../../components/Skeleton';
+import { SubHeader } from '../../components/SubHeader';
+import { Body2, Label2 } from '../../components/Text';
+import { AddressBookEntryNotification } from '../../components/address-book/AddressBookEntryNotification';
+import { Button } from '../../components/fields/Button';
+import { Input } from '../../components/fields/Input';
+import { useTranslation } from '../../hooks/translation';
+import {
+    useAddressBook,
+    useImportAddressBookCsv,
+    useRefreshAddressBookDns
+} from '../../state/addressBook';
+import { useActiveTonNetwork } from '../../state/wallet';
+
+const Actions = styled.div`
+    display: flex;
+    gap: 0.5rem;
+    margin-bottom: 1rem;
+`;
+
+const FileInput = styled.input`
+    display: none;
+`;
+
+const Tags = styled.div`
+    display: flex;
+    flex-wrap: wrap;
+    gap: 0.5rem;
+    margin-top: 1rem;
+`;
+
+const Tag = styled(Label2)<{ active?: boolean }>`
+    padding: 6px 12px;
+    border-radius: ${p => p.theme.cornerFull};
+    cursor: pointer;
+    user-select: none;
+
+    ${p =>
+        p.active
+            ? css`
+                  background: ${p.theme.buttonPrimaryBackground};
+                  color: ${p.theme.buttonPrimaryForeground};
+              `
+            : css`
+                  background: ${p.theme.backgroundContent};
+                  color: ${p.theme.textSecondary};
+              `}
+`;
+
+const Message = styled(Body2)<{ error?: boolean }>`
+    display: block;
+    margin-bottom: 1rem;
+    color: ${p => (p.error ? p.theme.accentRed : p.theme.textSecondary)};
+`;
+
+const ListBlockStyled = styled(ListBlock)`
+    margin-top: 1rem;
+`;
+
+const Empty = styled(Body2)`
+    display: block;
+    margin-top: 1rem;
+    text-align: center;
+    color: ${p => p.theme.textSecondary};
+`;
+
+const csvFileName = () => `tonkeeper-address-book-${new Date().toISOString().slice(0, 10)}.csv`;
+
+const AddressBookRow: FC<{ entry: AddressBookEntry; onClick: () => void }> = ({
+    entry,
+    onClick
+}) => {
+    const network = useActiveTonNetwork();
+
+    const addresses = entry.addresses
+        .map(
+            item =>
+                item.dns ??
+                toShortValue(
+                    item.blockchain === BLOCKCHAIN_NAME.TON
+                        ? formatAddress(item.address, network)
+                        : item.address
+                )
+        )
+        .join(', ');
+
+    return (
+        <ListItem onClick={onClick}>
+            <ListItemPayload>
+                <ColumnText
+                    noWrap
+                    text={entry.label}
+                    secondary={
+                        entry.tags.length ? `${addresses} · ${entry.tags.join(', ')}` : addresses
+                    }
+                />
+            </ListItemPayload>
+        </ListItem>
+    );
+};
+
+export const AddressBookSettings = () => {
+    const { t } = useTranslation();
+    const { data: entries } = useAddressBook();
+    const { mutate: refreshDns } = useRefreshAddressBookDns();
+
+    const inputId = useId();
+    const {
+        mutate: importCsv,
+        data: imported,
+        error: importError,
+        isLoading: isImporting,
+        reset: resetImport
+    } = useImportAddressBookCsv();
+
+    const [search, setSearch] = useState('');
+    const [editing, setEditing] = useState<{ entry?: AddressBookEntry } | undefined>();
+
+    useEffect(() => {
+        refreshDns();
+    }, []);
+
+    const onSelectCsv = (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        resetImport();
+        importCsv(file);
+    };
+
+    const tags = useMemo(() => getAddressBookTags(entries ?? []), [entries]);
+    const filtered = useMemo(() => searchAddressBook(entries ?? [], search), [entries, search]);
+
+    return (
+        <>
+            <SubHeader title={t('address_book_title')} />
+            <InnerBody>
+                <Actions>
+                    <Button primary size="small" onClick={() => setEditing({})}>
+                        {t('address_book_add')}
+                    </Button>
+                    <Button
+                        secondary
+                        size="small"
+                        as="label"
+                        htmlFor={inputId}
+                        loading={isImporting}
+                    >
+                        {t('address_book_import_csv')}
+                    </Button>
+                    <FileInput id={inputId} type="file" accept=".csv" onChange={onSelectCsv} />
+                    {!!entries?.length && (
+                        <Button
+                            secondary
+                            size="small"
+                            as="a"
+                            href={
+                                'data:text/csv;charset=utf-8,' +
+                                encodeURIComponent(addressBookToCsv(entries))
+                            }
+                            download={csvFileName()}
+                        >
+                            {t('address_book_export_csv')}
+                        </Button>
+                    )}
+                </Actions>
+                {importError && (
+                    <Message error>
+                        {importError instanceof AddressBookImportError &&
+                        importError.line !== undefined
+                            ? t('address_book_import_error_line').replace(
+                                  '%{line}',
+                                  String(importError.line)
+                              )
+                            : t('address_book_import_error')}
+                    </Message>
+                )}
+                {imported && (
+                    <Message>
+                        {t('address_book_import_success')
+                            .replace('%{added}', String(imported.added))
+                            .replace('%{updated}', String(imported.updated))}
+                    </Message>
+                )}
+                <Input
+                    value={search}
+                    onChange={setSearch}
+                    label={t('address_book_search')}
+                    clearButton
+                />
+                {tags.length > 0 && (
+                    <Tags>
+                        {tags.map(tag => (
+                            <Tag
+                                key={tag}
+                                active={search === tag}
+                                onClick={() => setSearch(search === tag ? '' : tag)}
+                            >
+                                {tag}
+                            </Tag>
+                        ))}
+                    </Tags>
+                )}
+                {!entries ? (
+                    <SkeletonList size={3} />
+                ) : filtered.length === 0 ? (
+                    <Empty>{t('address_book_empty')}</Empty>
+                ) : (
+                    <ListBlockStyled>
+                        {filtered.map(entry => (
+                            <AddressBookRow
+                                key={entry.id}
+                                entry={entry}
+                                onClick={() => setEditing({ entry })}
+                            />
+                        ))}
+                    </ListBlockStyled>
+                )}
+            </InnerBody>
+            <AddressBookEntryNotification
+                isOpen={editing !== undefined}
+                entry={editing?.entry}
+                handleClose={() => setEditing(undefined)}
+            />
+        </>
+    );
+};
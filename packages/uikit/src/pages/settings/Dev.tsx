@@ -1,11 +1,328 @@
-import { Network, switchNetwork } from '@tonkeeper/core/dist/entries/network';
-import React, { useMemo } from 'react';
+import { Network, NetworkProfile, switchNetwork } from '@tonkeeper/core/dist/entries/network';
+import { TonConnectBridge } from '@tonkeeper/core/dist/entries/tonConnect';
+import React, { FC, useMemo, useState } from 'react';
+import styled from 'styled-components';
 import { InnerBody } from '../../components/Body';
+import { ArrowUpIcon, CheckIcon, CloseIcon } from '../../components/Icon';
+import { ListBlock, ListItem, ListItemPayload } from '../../components/List';
 import { SubHeader } from '../../components/SubHeader';
+import { Body2, Label1 } from '../../components/Text';
+import { Button } from '../../components/fields/Button';
+import { Checkbox } from '../../components/fields/Checkbox';
+import { IconButtonTransparentBackground } from '../../components/fields/IconButton';
+import { Input } from '../../components/fields/Input';
 import { SettingsItem, SettingsList } from '../../components/settings/SettingsList';
 import { useTranslation } from '../../hooks/translation';
 import { useActiveWallet } from '../../state/wallet';
-import { useDevSettings, useMutateDevSettings } from '../../state/dev';
+import { useDevSettings, useMutateDevSettings, useMutateNetworkProfiles } from '../../state/dev';
+
+const BridgeText = styled.div`
+    display: flex;
+    flex-direction: column;
+    overflow: hidden;
+
+    > ${Body2} {
+        color: ${p => p.theme.textSecondary};
+        overflow: hidden;
+        text-overflow: ellipsis;
+    }
+`;
+
+const BridgeActions = styled.div`
+    display: flex;
+    gap: 0.5rem;
+    color: ${p => p.theme.iconSecondary};
+`;
+
+const AddBridgeForm = styled.form`
+    display: flex;
+    flex-direction: column;
+    gap: 0.5rem;
+    margin-bottom: 2rem;
+`;
+
+const isValidHttpUrl = (value: string) => {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'https:' || url.protocol === 'http:';
+    } catch {
+        return false;
+    }
+};
+
+const TonConnectBridgesSettings: FC<{
+    bridges: TonConnectBridge[];
+    onChange: (bridges: TonConnectBridge[]) => void;
+}> = ({ bridges, onChange }) => {
+    const { t } = useTranslation();
+    const [name, setName] = useState('');
+    const [url, setUrl] = useState('');
+
+    const normalizedUrl = url.trim().replace(/\/+$/, '');
+    const isUrlValid =
+        isValidHttpUrl(normalizedUrl) && !bridges.some(item => item.url === normalizedUrl);
+
+    const onMoveUp = (index: number) => {
+        const next = [...bridges];
+        [next[index - 1], next[index]] = [next[index], next[index - 1]];
+        onChange(next);
+    };
+
+    const onAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim() || !isUrlValid) return;
+        onChange([...bridges, { name: name.trim(), url: normalizedUrl }]);
+        setName('');
+        setUrl('');
+    };
+
+    return (
+        <>
+            <ListBlock>
+                {bridges.map((bridge, index) => (
+                    <ListItem key={bridge.url} hover={false}>
+                        <ListItemPayload>
+                            <BridgeText>
+                                <Label1>
+                                    {bridge.name}
+                                    {index === 0 && ` · ${t('dev_tonconnect_bridge_primary')}`}
+                                </Label1>
+                                <Body2>{bridge.url}</Body2>
+                            </BridgeText>
+                            <BridgeActions>
+                                {index > 0 && (
+                                    <IconButtonTransparentBackground
+                                        onClick={() => onMoveUp(index)}
+                                    >
+                                        <ArrowUpIcon />
+                                    </IconButtonTransparentBackground>
+                                )}
+                                {bridges.length > 1 && (
+                                    <IconButtonTransparentBackground
+                                        onClick={() =>
+                                            onChange(bridges.filter((_, i) => i !== index))
+                                        }
+                                    >
+                                        <CloseIcon />
+                                    </IconButtonTransparentBackground>
+                                )}
+                            </BridgeActions>
+                        </ListItemPayload>
+                    </ListItem>
+                ))}
+            </ListBlock>
+            <AddBridgeForm onSubmit={onAdd}>
+                <Input value={name} onChange={setName} label={t('dev_tonconnect_bridge_name')} />
+                <Input
+                    value={url}
+                    onChange={setUrl}
+                    label={t('dev_tonconnect_bridge_url')}
+                    isValid={!url || isUrlValid}
+                />
+                <Button type="submit" secondary disabled={!name.trim() || !isUrlValid}>
+                    {t('dev_tonconnect_bridge_add')}
+                </Button>
+            </AddBridgeForm>
+        </>
+    );
+};
+
+const normalizeUrl = (value: string) => value.trim().replace(/\/+$/, '');
+
+/**
+ * Empty value is not set, null is an invalid value
+ */
+const parseOptionalUrl = (value: string): string | undefined | null => {
+    const url = normalizeUrl(value);
+    if (!url) return undefined;
+    return isValidHttpUrl(url) ? url : null;
+};
+
+const parseGlobalId = (value: string, network: Network): number | null => {
+    const trimmed = value.trim();
+    if (!trimmed) return network;
+    return /^-?\d+$/.test(trimmed) ? Number(trimmed) : null;
+};
+
+const AddNetworkProfileForm: FC<{ onAdd: (profile: NetworkProfile) => void }> = ({ onAdd }) => {
+    const { t } = useTranslation();
+    const [name, setName] = useState('');
+    const [isTestnet, setIsTestnet] = useState(false);
+    const [globalId, setGlobalId] = useState('');
+    const [tonApiBaseUrl, setTonApiBaseUrl] = useState('');
+    const [tonApiKey, setTonApiKey] = useState('');
+    const [tronApiBaseUrl, setTronApiBaseUrl] = useState('');
+    const [accountExplorer, setAccountExplorer] = useState('');
+    const [transactionExplorer, setTransactionExplorer] = useState('');
+    const [nftExplorer, setNftExplorer] = useState('');
+
+    const network = isTestnet ? Network.TESTNET : Network.MAINNET;
+    const values = {
+        globalId: parseGlobalId(globalId, network),
+        tonApiBaseUrl: parseOptionalUrl(tonApiBaseUrl),
+        tronApiBaseUrl: parseOptionalUrl(tronApiBaseUrl),
+        accountExplorer: parseOptionalUrl(accountExplorer),
+        transactionExplorer: parseOptionalUrl(transactionExplorer),
+        nftExplorer: parseOptionalUrl(nftExplorer)
+    };
+    const isValid =
+        !!name.trim() &&
+        values.globalId !== null &&
+        !!values.tonApiBaseUrl &&
+        values.tronApiBaseUrl !== null &&
+        values.accountExplorer !== null &&
+        values.transactionExplorer !== null &&
+        values.nftExplorer !== null;
+
+    const onSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isValid) return;
+        onAdd({
+            id: `${Date.now()}-${Math.random().toString(16).slice(2, 10)}`,
+            name: name.trim(),
+            network,
+            globalId: values.globalId!,
+            tonApiBaseUrl: values.tonApiBaseUrl!,
+            tonApiKey: tonApiKey.trim() || undefined,
+            tronApiBaseUrl: values.tronApiBaseUrl ?? undefined,
+            accountExplorer: values.accountExplorer ?? undefined,
+            transactionExplorer: values.transactionExplorer ?? undefined,
+            nftExplorer: values.nftExplorer ?? undefined
+        });
+        setName('');
+        setGlobalId('');
+        setTonApiBaseUrl('');
+        setTonApiKey('');
+        setTronApiBaseUrl('');
+        setAccountExplorer('');
+        setTransactionExplorer('');
+        setNftExplorer('');
+    };
+
+    return (
+        <AddBridgeForm onSubmit={onSubmit}>
+            <Input value={name} onChange={setName} label={t('dev_network_profile_name')} />
+            <Checkbox checked={isTestnet} onChange={setIsTestnet} light>
+                {t('dev_network_profile_testnet')}
+            </Checkbox>
+            <Input
+                value={globalId}
+                onChange={setGlobalId}
+                label={t('dev_network_profile_global_id').replace('%{id}', String(network))}
+                isValid={values.globalId !== null}
+            />
+            <Input
+                value={tonApiBaseUrl}
+                onChange={setTonApiBaseUrl}
+                label={t('dev_network_profile_tonapi_url')}
+                isValid={!tonApiBaseUrl || !!values.tonApiBaseUrl}
+            />
+            <Input
+                value={tonApiKey}
+                onChange={setTonApiKey}
+                label={t('dev_network_profile_tonapi_key')}
+            />
+            <Input
+                value={tronApiBaseUrl}
+                onChange={setTronApiBaseUrl}
+                label={t('dev_network_profile_tron_url')}
+                isValid={values.tronApiBaseUrl !== null}
+            />
+            <Input
+                value={accountExplorer}
+                onChange={setAccountExplorer}
+                label={t('dev_network_profile_account_explorer')}
+                isValid={values.accountExplorer !== null}
+            />
+            <Input
+                value={transactionExplorer}
+                onChange={setTransactionExplorer}
+                label={t('dev_network_profile_transaction_explorer')}
+                isValid={values.transactionExplorer !== null}
+            />
+            <Input
+                value={nftExplorer}
+                onChange={setNftExplorer}
+                label={t('dev_network_profile_nft_explorer')}
+                isValid={values.nftExplorer !== null}
+            />
+            <Button type="submit" secondary disabled={!isValid}>
+                {t('dev_network_profile_add')}
+            </Button>
+        </AddBridgeForm>
+    );
+};
+
+/**
+ * Profiles replace the endpoints of the built-in network, the active one is marked with the check
+ */
+const NetworkProfilesSettings: FC<{
+    tonNetwork: Network;
+    profiles: NetworkProfile[];
+    activeId: string | undefined;
+}> = ({ tonNetwork, profiles, activeId }) => {
+    const { t } = useTranslation();
+    const { mutate, isLoading } = useMutateNetworkProfiles();
+
+    const onSelect = (id: string | undefined) => {
+        if (isLoading || id === activeId) return;
+        mutate({ networkProfiles: profiles, activeNetworkProfileId: id });
+    };
+
+    const onRemove = (id: string) => {
+        mutate({
+            networkProfiles: profiles.filter(item => item.id !== id),
+            activeNetworkProfileId: activeId === id ? undefined : activeId
+        });
+    };
+
+    return (
+        <>
+            <ListBlock>
+                <ListItem onClick={() => onSelect(undefined)}>
+                    <ListItemPayload>
+                        <BridgeText>
+                            <Label1>{t('dev_network_profile_builtin')}</Label1>
+                            <Body2>{tonNetwork === Network.MAINNET ? 'Mainnet' : 'Testnet'}</Body2>
+                        </BridgeText>
+                        {activeId === undefined && <CheckIcon />}
+                    </ListItemPayload>
+                </ListItem>
+                {profiles.map(profile => (
+                    <ListItem key={profile.id} onClick={() => onSelect(profile.id)}>
+                        <ListItemPayload>
+                            <BridgeText>
+                                <Label1>{profile.name}</Label1>
+                                <Body2>
+                                    {profile.tonApiBaseUrl} · {profile.globalId}
+                                </Body2>
+                            </BridgeText>
+                            <BridgeActions>
+                                {activeId === profile.id && <CheckIcon />}
+                                <IconButtonTransparentBackground
+                                    onClick={e => {
+                                        e.stopPropagation();
+                                        onRemove(profile.id);
+                                    }}
+                                >
+                                    <CloseIcon />
+                                </IconButtonTransparentBackground>
+                            </BridgeActions>
+                        </ListItemPayload>
+                    </ListItem>
+                ))}
+            </ListBlock>
+            <AddNetworkProfileForm
+                onAdd={profile =>
+                    mutate({
+                        networkProfiles: [...profiles, profile],
+                        activeNetworkProfileId: activeId
+                    })
+                }
+            />
+        </>
+    );
+};
 
 export const DevSettings = React.memo(() => {
     const { t } = useTranslation();
@@ -29,7 +346,20 @@ export const DevSettings = React.memo(() => {
         <>
             <SubHeader title="Dev Menu" />
             <InnerBody>
-                <SettingsList items={items} />
+                {!devSettings?.activeNetworkProfileId && <SettingsList items={items} />}
+                {devSettings && (
+                    <NetworkProfilesSettings
+                        tonNetwork={devSettings.tonNetwork}
+                        profiles={devSettings.networkProfiles}
+                        activeId={devSettings.activeNetworkProfileId}
+                    />
+                )}
+                {devSettings && (
+                    <TonConnectBridgesSettings
+                        bridges={devSettings.tonConnectBridges}
+                        onChange={tonConnectBridges => mutateDevSettings({ tonConnectBridges })}
+                    />
+                )}
                 {/* TODO: ENABLE TRON */}
                 {/* <SettingsList items={items2} /> */}
             </InnerBody>
@@ -1,4 +1,5 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { isStandardTonWallet } from '@tonkeeper/core/dist/entries/wallet';
 import styled from 'styled-components';
 import { InnerBody } from '../../components/Body';
 import { ListBlock, ListItem, ListItemPayload } from '../../components/List';
@@ -38,6 +39,9 @@ const useToggleSubscribe = () => {
 
     return useMutation<void, Error, boolean>(async checked => {
         const wallet = account.activeTonWallet;
+        if (!isStandardTonWallet(wallet)) {
+            throw new Error('Only standard ton wallets can subscribe to notifications');
+        }
         const { notifications } = sdk;
         if (!notifications) {
             throw new Error('Missing notifications');
@@ -1,27 +1,50 @@
 import { useMemo, useState } from 'react';
+import { autoLockIdleOptions } from '@tonkeeper/core/dist/service/lockService';
 import { useNavigate } from 'react-router-dom';
+import styled from 'styled-components';
 import { InnerBody } from '../../components/Body';
 import { ListBlock, ListItem, ListItemPayload } from '../../components/List';
 import { SubHeader } from '../../components/SubHeader';
+import { Tabs } from '../../components/Tabs';
 import { Label1 } from '../../components/Text';
 import { ChangePasswordNotification } from '../../components/create/ChangePassword';
+import { SpendingPolicyNotification } from '../../components/settings/SpendingPolicyNotification';
+import { WalletBackupNotification } from '../../components/settings/WalletBackupNotification';
 import { Switch } from '../../components/fields/Switch';
-import { KeyIcon, LockIcon } from '../../components/settings/SettingsIcons';
+import {
+    KeyIcon,
+    LockIcon,
+    RecoveryPhraseIcon,
+    SecurityIcon
+} from '../../components/settings/SettingsIcons';
 import { SettingsItem, SettingsList } from '../../components/settings/SettingsList';
+import { useAppSdk } from '../../hooks/appSdk';
 import { useTranslation } from '../../hooks/translation';
 import { AppRoute, SettingsRoute } from '../../libs/routes';
 import { useIsActiveWalletKeystone } from '../../state/keystone';
 import { useIsActiveWalletLedger } from '../../state/ledger';
 import {
+    useAutoLockSettings,
     useCanPromptTouchId,
     useLookScreen,
+    useMutateAutoLockSettings,
     useMutateLookScreen,
     useMutateTouchId,
     useTouchIdEnabled
 } from '../../state/password';
-import { useIsPasswordSet } from '../../state/wallet';
+import { useAccountsState, useIsPasswordSet } from '../../state/wallet';
 import { useIsFullWidthMode } from '../../hooks/useIsFullWidthMode';
 
+const AutoLockIdle = styled.div`
+    display: flex;
+    flex-direction: column;
+    align-items: flex-start;
+    gap: 0.5rem;
+    padding: 10px 1rem 10px 0;
+    width: 100%;
+    overflow-x: auto;
+`;
+
 const LockSwitch = () => {
     const { t } = useTranslation();
 
@@ -32,20 +55,98 @@ const LockSwitch = () => {
 
     if (isPasswordSet) {
         return (
-            <ListBlock>
-                <ListItem hover={false}>
-                    <ListItemPayload>
-                        <Label1>{t('Lock_screen')}</Label1>
-                        <Switch checked={!!data} onChange={toggleLock} />
-                    </ListItemPayload>
-                </ListItem>
-            </ListBlock>
+            <>
+                <ListBlock>
+                    <ListItem hover={false}>
+                        <ListItemPayload>
+                            <Label1>{t('Lock_screen')}</Label1>
+                            <Switch checked={!!data} onChange={toggleLock} />
+                        </ListItemPayload>
+                    </ListItem>
+                </ListBlock>
+                {data && <AutoLockSettingsBlock />}
+            </>
         );
     } else {
         return <></>;
     }
 };
 
+const AutoLockSettingsBlock = () => {
+    const { t } = useTranslation();
+    const { data: settings } = useAutoLockSettings();
+    const { mutate } = useMutateAutoLockSettings();
+
+    const values = useMemo(
+        () => [
+            { id: 'never', name: t('auto_lock_never') },
+            ...autoLockIdleOptions.map(minutes => ({
+                id: String(minutes),
+                name: t('auto_lock_minutes').replace('%{minutes}', String(minutes))
+            }))
+        ],
+        [t]
+    );
+
+    if (!settings) {
+        return null;
+    }
+
+    return (
+        <ListBlock>
+            <ListItem hover={false}>
+                <AutoLockIdle>
+                    <Label1>{t('auto_lock_idle')}</Label1>
+                    <Tabs
+                        active={
+                            settings.idleMinutes === null ? 'never' : String(settings.idleMinutes)
+                        }
+                        values={values}
+                        setActive={id =>
+                            mutate({
+                                ...settings,
+                                idleMinutes: id === 'never' ? null : Number(id)
+                            })
+                        }
+                    />
+                </AutoLockIdle>
+            </ListItem>
+            <ListItem hover={false}>
+                <ListItemPayload>
+                    <Label1>{t('auto_lock_on_hide')}</Label1>
+                    <Switch
+                        checked={settings.lockOnHide}
+                        onChange={lockOnHide => mutate({ ...settings, lockOnHide })}
+                    />
+                </ListItemPayload>
+            </ListItem>
+        </ListBlock>
+    );
+};
+
+const LockNow = () => {
+    const { t } = useTranslation();
+    const sdk = useAppSdk();
+
+    const isPasswordSet = useIsPasswordSet();
+    const items = useMemo(() => {
+        const i: SettingsItem[] = [
+            {
+                name: t('lock_now'),
+                icon: <LockIcon />,
+                action: () => sdk.uiEvents.emit('lock')
+            }
+        ];
+        return i;
+    }, [sdk]);
+
+    if (!isPasswordSet) {
+        return <></>;
+    }
+
+    return <SettingsList items={items} />;
+};
+
 const TouchIdSwitch = () => {
     const { t } = useTranslation();
     const { data: canPrompt } = useCanPromptTouchId();
@@ -99,6 +200,62 @@ const ChangePassword = () => {
     }
 };
 
+const WalletBackup = () => {
+    const { t } = useTranslation();
+    const [isOpen, setOpen] = useState(false);
+
+    const accounts = useAccountsState();
+    const items = useMemo(() => {
+        const i: SettingsItem[] = [
+            {
+                name: t('wallet_backup_title'),
+                icon: <RecoveryPhraseIcon />,
+                action: () => setOpen(true)
+            }
+        ];
+        return i;
+    }, []);
+
+    if (accounts.length === 0) {
+        return <></>;
+    }
+
+    return (
+        <>
+            <SettingsList items={items} />
+            <WalletBackupNotification isOpen={isOpen} handleClose={() => setOpen(false)} />
+        </>
+    );
+};
+
+const SpendingPolicy = () => {
+    const { t } = useTranslation();
+    const [isOpen, setOpen] = useState(false);
+
+    const accounts = useAccountsState();
+    const items = useMemo(() => {
+        const i: SettingsItem[] = [
+            {
+                name: t('spending_policy_title'),
+                icon: <SecurityIcon />,
+                action: () => setOpen(true)
+            }
+        ];
+        return i;
+    }, []);
+
+    if (accounts.length === 0) {
+        return <></>;
+    }
+
+    return (
+        <>
+            <SettingsList items={items} />
+            <SpendingPolicyNotification isOpen={isOpen} handleClose={() => setOpen(false)} />
+        </>
+    );
+};
+
 const ShowPhrases = () => {
     const navigate = useNavigate();
     const { t } = useTranslation();
@@ -132,9 +289,12 @@ export const SecuritySettings = () => {
             <SubHeader title={t('settings_security')} />
             <InnerBody>
                 <LockSwitch />
+                <LockNow />
                 <TouchIdSwitch />
                 <ChangePassword />
                 <ShowPhrases />
+                <WalletBackup />
+                <SpendingPolicy />
             </InnerBody>
         </>
     );
@@ -1,11 +1,12 @@
 import {
     backwardCompatibilityOnlyWalletVersions,
+    isStandardTonWallet,
     WalletVersion as WalletVersionType,
     WalletVersions,
     walletVersionText
 } from '@tonkeeper/core/dist/entries/wallet';
 import { formatAddress, toShortValue } from '@tonkeeper/core/dist/utils/common';
-import { AccountId } from '@tonkeeper/core/dist/entries/account';
+import { AccountId, isAccountTonWalletStandard } from '@tonkeeper/core/dist/entries/account';
 import React, { FC } from 'react';
 import styled from 'styled-components';
 import { InnerBody } from '../../components/Body';
@@ -70,13 +71,17 @@ export const WalletVersionPageContent: FC<{
     const selectedAccount = passedAccount ?? activeAccount;
     const selectedWallet = selectedAccount.activeTonWallet;
     const appActiveWallet = activeAccount.activeTonWallet;
-    const currentAccountWalletsVersions = selectedAccount.activeDerivationTonWallets;
+    const currentAccountWalletsVersions = isAccountTonWalletStandard(selectedAccount)
+        ? selectedAccount.activeDerivationTonWallets
+        : [];
 
     const { mutateAsync: selectWallet, isLoading: isSelectWalletLoading } =
         useMutateActiveTonWallet();
     const navigate = useNavigate();
 
-    const { data: wallets } = useStandardTonWalletVersions(selectedWallet.publicKey);
+    const { data: wallets } = useStandardTonWalletVersions(
+        isStandardTonWallet(selectedWallet) ? selectedWallet.publicKey : undefined
+    );
 
     const { mutate: createWallet, isLoading: isCreateWalletLoading } =
         useAddTonWalletVersionToAccount();
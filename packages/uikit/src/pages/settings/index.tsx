@@ -4,6 +4,7 @@ import { SettingsHeader } from '../../components/Header';
 import { ProSettings } from '../../components/settings/ProSettings';
 import { SettingsRoute, WalletSettingsRoute } from '../../libs/routes';
 import { Account } from './Account';
+import { AddressBookSettings } from './AddressBook';
 import { CountrySettings } from './Country';
 import { DevSettings } from './Dev';
 import { FiatCurrency } from './FiatCurrency';
@@ -39,6 +40,7 @@ const SettingsRouter = () => {
             <Route path={SettingsRoute.security} element={<SecuritySettings />} />
             <Route path={SettingsRoute.country} element={<CountrySettings />} />
             <Route path={SettingsRoute.pro} element={<ProSettings />} />
+            <Route path={SettingsRoute.addressBook} element={<AddressBookSettings />} />
             <Route path={WalletSettingsRoute.connectedApps} element={<ConnectedAppsSettings />} />
             <Route
                 path="*"
@@ -0,0 +1,19 @@
+import { InnerBody } from '../../components/Body';
+import { SubHeader } from '../../components/SubHeader';
+import { StakingOverview } from '../../components/staking/StakingOverview';
+import { useTranslation } from '../../hooks/translation';
+
+const Staking = () => {
+    const { t } = useTranslation();
+
+    return (
+        <>
+            <SubHeader title={t('staking_title')} />
+            <InnerBody>
+                <StakingOverview />
+            </InnerBody>
+        </>
+    );
+};
+
+export default Staking;
@@ -0,0 +1,78 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AddressBookEntry } from '@tonkeeper/core/dist/entries/addressBook';
+import { BLOCKCHAIN_NAME } from '@tonkeeper/core/dist/entries/crypto';
+import {
+    deleteAddressBookEntry,
+    findAddressBookEntry,
+    getAddressBook,
+    importAddressBookCsv,
+    refreshAddressBookDns,
+    saveAddressBookEntry
+} from '@tonkeeper/core/dist/service/addressBookService';
+import { useAppContext } from '../hooks/appContext';
+import { useAppSdk } from '../hooks/appSdk';
+import { QueryKey } from '../libs/queryKey';
+
+export const useAddressBook = () => {
+    const sdk = useAppSdk();
+    return useQuery([QueryKey.addressBook], () => getAddressBook(sdk.storage));
+};
+
+export const useAddressBookEntry = (
+    address: string | undefined,
+    blockchain: BLOCKCHAIN_NAME = BLOCKCHAIN_NAME.TON
+) => {
+    const { data } = useAddressBook();
+    if (!data || !address) {
+        return undefined;
+    }
+    return findAddressBookEntry(data, blockchain, address);
+};
+
+export const useSaveAddressBookEntry = () => {
+    const sdk = useAppSdk();
+    const client = useQueryClient();
+    return useMutation<AddressBookEntry, Error, AddressBookEntry>(async entry => {
+        const result = await saveAddressBookEntry(sdk.storage, entry);
+        await client.invalidateQueries([QueryKey.addressBook]);
+        return result;
+    });
+};
+
+export const useDeleteAddressBookEntry = () => {
+    const sdk = useAppSdk();
+    const client = useQueryClient();
+    return useMutation<void, Error, string>(async id => {
+        await deleteAddressBookEntry(sdk.storage, id);
+        await client.invalidateQueries([QueryKey.addressBook]);
+    });
+};
+
+export const useImportAddressBookCsv = () => {
+    const sdk = useAppSdk();
+    const { api } = useAppContext();
+    const client = useQueryClient();
+    return useMutation<{ added: number; updated: number }, Error, File>(async file => {
+        const result = await importAddressBookCsv(api, sdk.storage, await file.text());
+        await client.invalidateQueries([QueryKey.addressBook]);
+        return result;
+    });
+};
+
+export const useRefreshAddressBookDns = () => {
+    const sdk = useAppSdk();
+    const { api } = useAppContext();
+    const client = useQueryClient();
+    return useMutation<AddressBookEntry[], Error, void>(async () => {
+        const updated = await refreshAddressBookDns(api, sdk.storage);
+        if (updated.length > 0) {
+            await client.invalidateQueries([QueryKey.addressBook]);
+        }
+        return updated;
+    });
+};
+
+export const useAddressBookLabel = (
+    address: string | undefined,
+    blockchain: BLOCKCHAIN_NAME = BLOCKCHAIN_NAME.TON
+) => useAddressBookEntry(address, blockchain)?.label;
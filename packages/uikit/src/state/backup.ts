@@ -0,0 +1,94 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Account, AccountId } from '@tonkeeper/core/dist/entries/account';
+import { AuthKeychain, AuthPassword } from '@tonkeeper/core/dist/entries/password';
+import { accountsStorage } from '@tonkeeper/core/dist/service/accountsStorage';
+import {
+    createWalletBackup,
+    decryptWalletBackup,
+    restoreWalletBackup,
+    WalletBackupFile,
+    WalletBackupRestoreResult
+} from '@tonkeeper/core/dist/service/backupService';
+import { encrypt } from '@tonkeeper/core/dist/service/cryptoService';
+import { decryptWalletMnemonic } from '@tonkeeper/core/dist/service/mnemonicService';
+import { useAppSdk } from '../hooks/appSdk';
+import { getPasswordByNotification } from './mnemonic';
+import { useCheckTouchId } from './password';
+
+export const useExportWalletBackup = () => {
+    const sdk = useAppSdk();
+    const { mutateAsync: checkTouchId } = useCheckTouchId();
+
+    return useMutation<WalletBackupFile, Error, { password: string }>(async ({ password }) => {
+        let devicePassword: string | undefined;
+        let isTouchIdChecked = false;
+
+        const getMnemonic = async (accountId: AccountId) => {
+            const account = await accountsStorage(sdk.storage).getAccount(accountId);
+            if (!account || account.type !== 'mnemonic') {
+                throw new Error('Unexpected auth method for account');
+            }
+
+            if (account.auth.kind === 'keychain') {
+                if (!sdk.keychain) {
+                    throw Error('Keychain is undefined');
+                }
+                if (!isTouchIdChecked) {
+                    await checkTouchId();
+                    isTouchIdChecked = true;
+                }
+                const mnemonic = await sdk.keychain.getPassword(account.auth.keychainStoreKey);
+                return mnemonic.split(' ');
+            }
+
+            if (devicePassword === undefined) {
+                devicePassword = await getPasswordByNotification(sdk);
+            }
+            return decryptWalletMnemonic(account as { auth: AuthPassword }, devicePassword);
+        };
+
+        return createWalletBackup({ storage: sdk.storage, password, getMnemonic });
+    });
+};
+
+export const useRestoreWalletBackup = () => {
+    const sdk = useAppSdk();
+    const client = useQueryClient();
+
+    return useMutation<
+        WalletBackupRestoreResult,
+        Error,
+        { file: WalletBackupFile; password: string }
+    >(async ({ file, password }) => {
+        const data = await decryptWalletBackup(file, password);
+
+        let devicePassword: string | undefined;
+        const secureMnemonic = async (
+            account: Account,
+            mnemonic: string[]
+        ): Promise<AuthPassword | AuthKeychain> => {
+            if (sdk.keychain) {
+                await sdk.keychain.setPassword(account.id, mnemonic.join(' '));
+                return { kind: 'keychain', keychainStoreKey: account.id };
+            }
+
+            if (devicePassword === undefined) {
+                devicePassword = await getPasswordByNotification(sdk);
+            }
+            return {
+                kind: 'password',
+                encryptedMnemonic: await encrypt(mnemonic.join(' '), devicePassword)
+            };
+        };
+
+        const result = await restoreWalletBackup({
+            storage: sdk.storage,
+            data,
+            password,
+            secureMnemonic
+        });
+
+        await client.invalidateQueries();
+        return result;
+    });
+};
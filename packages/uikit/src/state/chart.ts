@@ -0,0 +1,69 @@
+import { useQuery } from '@tanstack/react-query';
+import { ChartPeriod, ChartPoint, getChartRates } from '@tonkeeper/core/dist/service/chartService';
+import {
+    getPortfolioChart,
+    PortfolioJetton
+} from '@tonkeeper/core/dist/service/portfolioChartService';
+import { shiftedDecimals } from '@tonkeeper/core/dist/utils/balance';
+import { useMemo } from 'react';
+import { useAppContext } from '../hooks/appContext';
+import { QueryKey } from '../libs/queryKey';
+import { useJettonList } from './jetton';
+import { useActiveWallet } from './wallet';
+
+/**
+ * Jettons with the biggest fiat value included into the portfolio chart, the rest are ignored to limit requests
+ */
+const portfolioJettonsLimit = 5;
+
+export const useChartRates = (token: string, period: ChartPeriod) => {
+    const { api, fiat } = useAppContext();
+
+    return useQuery<ChartPoint[], Error>(
+        [QueryKey.chart, token, fiat, period],
+        () => getChartRates(api, { token, currency: fiat, period }),
+        { keepPreviousData: true }
+    );
+};
+
+const usePortfolioJettons = () => {
+    const { fiat } = useAppContext();
+    const { data: jettons } = useJettonList();
+
+    return useMemo<PortfolioJetton[] | undefined>(() => {
+        if (!jettons) {
+            return undefined;
+        }
+        return jettons.balances
+            .map(item => ({
+                address: item.jetton.address,
+                decimals: item.jetton.decimals,
+                balance: item.balance,
+                fiatValue: shiftedDecimals(item.balance, item.jetton.decimals).multipliedBy(
+                    item.price?.prices?.[fiat] ?? 0
+                )
+            }))
+            .filter(item => item.fiatValue.gt(0))
+            .sort((a, b) => b.fiatValue.minus(a.fiatValue).toNumber())
+            .slice(0, portfolioJettonsLimit)
+            .map(({ address, decimals, balance }) => ({ address, decimals, balance }));
+    }, [jettons, fiat]);
+};
+
+export const usePortfolioChart = (period: ChartPeriod) => {
+    const { api, fiat } = useAppContext();
+    const wallet = useActiveWallet();
+    const jettons = usePortfolioJettons();
+
+    return useQuery<ChartPoint[], Error>(
+        [wallet.rawAddress, QueryKey.chart, 'portfolio', fiat, period, jettons],
+        () =>
+            getPortfolioChart(api, {
+                address: wallet.rawAddress,
+                jettons: jettons!,
+                currency: fiat,
+                period
+            }),
+        { enabled: jettons !== undefined, keepPreviousData: true }
+    );
+};
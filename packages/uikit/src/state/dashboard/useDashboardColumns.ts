@@ -15,6 +15,13 @@ export const ClientColumns: (Omit<DashboardColumn, 'name'> & { i18Key: string })
         id: 'name',
         defaultIsChecked: true,
         onlyPro: false
+    },
+    {
+        type: 'string',
+        i18Key: 'dashboard_column_inscriptions',
+        id: 'inscriptions',
+        defaultIsChecked: false,
+        onlyPro: false
     }
 ];
 
@@ -1,8 +1,16 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Address } from '@ton/core';
 import { DashboardCell } from '@tonkeeper/core/dist/entries/dashboard';
-import { TonWalletStandard, walletVersionText } from '@tonkeeper/core/dist/entries/wallet';
+import {
+    isStandardTonWallet,
+    TonContract,
+    walletVersionText
+} from '@tonkeeper/core/dist/entries/wallet';
+import { getAccountInscriptions } from '@tonkeeper/core/dist/service/inscriptionService';
 import { getDashboardData } from '@tonkeeper/core/dist/service/proService';
+import { InscriptionBalance } from '@tonkeeper/core/dist/tonApiV2';
+import { shiftedDecimals } from '@tonkeeper/core/dist/utils/balance';
+import BigNumber from 'bignumber.js';
 import { useAppContext } from '../../hooks/appContext';
 import { useTranslation } from '../../hooks/translation';
 import { QueryKey } from '../../libs/queryKey';
@@ -10,10 +18,21 @@ import { useAccountsState } from '../wallet';
 import { ClientColumns, useDashboardColumnsAsForm } from './useDashboardColumns';
 import { formatAddress } from '@tonkeeper/core/dist/utils/common';
 
+const formatInscriptions = (inscriptions: InscriptionBalance[]) =>
+    inscriptions
+        .filter(item => new BigNumber(item.balance).gt(0))
+        .map(
+            item =>
+                `${shiftedDecimals(item.balance, item.decimals)
+                    .decimalPlaces(2, BigNumber.ROUND_DOWN)
+                    .toFormat()} ${item.ticker}`
+        )
+        .join(', ');
+
 export function useDashboardData() {
     const { data: columns } = useDashboardColumnsAsForm();
     const selectedColumns = columns?.filter(c => c.isEnabled);
-    const { fiat } = useAppContext();
+    const { fiat, api } = useAppContext();
     const {
         i18n: { language },
         t
@@ -51,6 +70,14 @@ export function useDashboardData() {
                 }
 
                 /* append client columns */
+                const inscriptions = query.columns.includes('inscriptions')
+                    ? await Promise.all(
+                          query.accounts.map(walletAddress =>
+                              getAccountInscriptions(api, walletAddress).catch(() => [])
+                          )
+                      )
+                    : [];
+
                 const defaultWalletName = t('wallet_title');
                 const result: DashboardCell[][] = query.accounts.map(() => []);
                 query.accounts.forEach((walletAddress, rowIndex) => {
@@ -67,13 +94,23 @@ export function useDashboardData() {
                                     ? wallet.accountName +
                                       ' ' +
                                       wallet.accountEmoji +
-                                      ' ' +
-                                      walletVersionText(wallet.version)
+                                      (isStandardTonWallet(wallet)
+                                          ? ' ' + walletVersionText(wallet.version)
+                                          : '')
                                     : defaultWalletName
                             };
                             return;
                         }
 
+                        if (col === 'inscriptions') {
+                            result[rowIndex][colIndex] = {
+                                columnId: col,
+                                type: 'string',
+                                value: formatInscriptions(inscriptions[rowIndex])
+                            };
+                            return;
+                        }
+
                         result[rowIndex][colIndex] =
                             fetchResult[rowIndex][queryToFetch.columns.indexOf(col)];
                     });
@@ -95,7 +132,7 @@ export function useDashboardData() {
 
             /* cache */
             if (pastQueries?.length) {
-                const walletsToQuerySet = new Set<TonWalletStandard>();
+                const walletsToQuerySet = new Set<TonContract>();
                 const columnsToQuerySet = new Set<string>();
 
                 const result: (DashboardCell | null)[][] = idsMainnet.map(() => []);
@@ -3,6 +3,7 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { AppKey } from '@tonkeeper/core/dist/Keys';
 import {
     DevSettings,
+    getActiveNetworkProfile,
     getDevSettings,
     setDevSettings
 } from '@tonkeeper/core/dist/service/devStorage';
@@ -28,3 +29,35 @@ export const useMutateDevSettings = () => {
         await client.invalidateQueries([AppKey.DEV_SETTINGS]);
     });
 };
+
+export const useActiveNetworkProfile = () => {
+    const { data: devSettings } = useDevSettings();
+    return devSettings ? getActiveNetworkProfile(devSettings) : undefined;
+};
+
+/**
+ * Cached data of the previous endpoints is dropped when the active profile changes,
+ * the app is mounted again with the api config of the new profile
+ */
+export const useMutateNetworkProfiles = () => {
+    const sdk = useAppSdk();
+    const client = useQueryClient();
+    return useMutation<
+        void,
+        Error,
+        Pick<DevSettings, 'networkProfiles' | 'activeNetworkProfileId'>
+    >(async value => {
+        const before = getActiveNetworkProfile(await getDevSettings(sdk.storage));
+        await setDevSettings(sdk.storage, value);
+        const after = getActiveNetworkProfile(await getDevSettings(sdk.storage));
+
+        if (JSON.stringify(before) === JSON.stringify(after)) {
+            await client.invalidateQueries([AppKey.DEV_SETTINGS]);
+            return;
+        }
+
+        await client.cancelQueries();
+        client.removeQueries({ predicate: query => query.queryKey[0] !== AppKey.DEV_SETTINGS });
+        await client.resetQueries([AppKey.DEV_SETTINGS]);
+    });
+};
@@ -0,0 +1,125 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { KeyPair, mnemonicToPrivateKey } from '@ton/crypto';
+import { AccountId } from '@tonkeeper/core/dist/entries/account';
+import { APIConfig } from '@tonkeeper/core/dist/entries/apis';
+import { TonRecipientData } from '@tonkeeper/core/dist/entries/send';
+import {
+    decryptComment,
+    encryptComment,
+    getRecipientPublicKey
+} from '@tonkeeper/core/dist/service/encryptedCommentService';
+import { EncryptedComment } from '@tonkeeper/core/dist/tonApiV2';
+import { useAppContext } from '../hooks/appContext';
+import { useAppSdk } from '../hooks/appSdk';
+import { QueryKey } from '../libs/queryKey';
+import { TxConfirmationCustomError } from '../libs/errors/TxConfirmationCustomError';
+import { addKeyMaterialWiper, getMnemonic } from './mnemonic';
+import { useCheckTouchId } from './password';
+import { useActiveAccount } from './wallet';
+
+/**
+ * Key pair of the account which unlocked the comments, kept until the app is locked
+ */
+let commentsKeyPair: { accountId: AccountId; keyPair: KeyPair } | undefined;
+
+const wipeCommentsKeyPair = () => {
+    commentsKeyPair?.keyPair.secretKey.fill(0);
+    commentsKeyPair = undefined;
+};
+
+/**
+ * Only mnemonic accounts hold the private key the comment is encrypted with
+ */
+export const useCanEncryptComment = () => {
+    const account = useActiveAccount();
+    return account.type === 'mnemonic';
+};
+
+export const useRecipientPublicKey = (address: string | undefined) => {
+    const { api } = useAppContext();
+    return useQuery<Buffer | null, Error>(
+        [QueryKey.encryptedComment, 'publicKey', address],
+        async () => (await getRecipientPublicKey(api, address!)) ?? null,
+        { enabled: address !== undefined }
+    );
+};
+
+/**
+ * Encrypts the recipient comment right before signing
+ */
+export const encryptRecipientComment = async (options: {
+    api: APIConfig;
+    senderAddress: string;
+    recipient: TonRecipientData;
+    mnemonic: string[];
+    t: (text: string) => string;
+}): Promise<TonRecipientData> => {
+    const { api, senderAddress, recipient, mnemonic, t } = options;
+    if (!recipient.encryptComment || !recipient.comment) {
+        return recipient;
+    }
+
+    const recipientPublicKey = await getRecipientPublicKey(api, recipient.toAccount.address);
+    if (!recipientPublicKey) {
+        throw new TxConfirmationCustomError(t('encrypted_comment_no_public_key'));
+    }
+
+    const keyPair = await mnemonicToPrivateKey(mnemonic);
+    try {
+        const encryptedComment = await encryptComment({
+            comment: recipient.comment,
+            senderAddress,
+            keyPair,
+            recipientPublicKey
+        });
+        return { ...recipient, encryptedComment };
+    } finally {
+        keyPair.secretKey.fill(0);
+    }
+};
+
+/**
+ * Decrypted text of the comment, null until the comments are unlocked with the account password
+ */
+export const useDecryptedComment = (
+    encryptedComment: EncryptedComment | undefined,
+    senderAddress: string | undefined
+) => {
+    const account = useActiveAccount();
+    return useQuery<string | null, Error>(
+        [QueryKey.encryptedComment, account.id, encryptedComment?.cipherText, senderAddress],
+        async () => {
+            if (!encryptedComment || !senderAddress) {
+                return null;
+            }
+            if (!commentsKeyPair || commentsKeyPair.accountId !== account.id) {
+                return null;
+            }
+            return decryptComment({
+                cipherText: Buffer.from(encryptedComment.cipherText, 'hex'),
+                senderAddress,
+                keyPair: commentsKeyPair.keyPair
+            });
+        },
+        { enabled: encryptedComment?.encryptionType === 'simple', retry: false, cacheTime: 0 }
+    );
+};
+
+/**
+ * Asks the password once to decrypt all comments of the active account until the app is locked
+ */
+export const useUnlockEncryptedComments = () => {
+    const sdk = useAppSdk();
+    const account = useActiveAccount();
+    const client = useQueryClient();
+    const { mutateAsync: checkTouchId } = useCheckTouchId();
+
+    return useMutation<void, Error>(async () => {
+        const mnemonic = await getMnemonic(sdk, account.id, checkTouchId);
+        wipeCommentsKeyPair();
+        commentsKeyPair = { accountId: account.id, keyPair: await mnemonicToPrivateKey(mnemonic) };
+        addKeyMaterialWiper(wipeCommentsKeyPair);
+
+        await client.invalidateQueries([QueryKey.encryptedComment, account.id]);
+    });
+};
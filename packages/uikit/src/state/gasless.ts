@@ -0,0 +1,50 @@
+import { useQuery } from '@tanstack/react-query';
+import { Address } from '@ton/core';
+import { Asset, isTonAsset } from '@tonkeeper/core/dist/entries/crypto/asset/asset';
+import { TON_ASSET } from '@tonkeeper/core/dist/entries/crypto/asset/constants';
+import { isW5Version } from '@tonkeeper/core/dist/entries/wallet';
+import {
+    isGaslessAvailable,
+    tonApiGaslessRelayer
+} from '@tonkeeper/core/dist/service/transfer/gaslessService';
+import { jettonTransferAmount } from '@tonkeeper/core/dist/service/transfer/jettonService';
+import { GaslessConfig } from '@tonkeeper/core/dist/tonApiV2';
+import BigNumber from 'bignumber.js';
+import { useAppContext } from '../hooks/appContext';
+import { QueryKey } from '../libs/queryKey';
+import { useActiveStandardTonWallet, useWalletAccountInfo } from './wallet';
+
+export const useGaslessConfig = () => {
+    const { api } = useAppContext();
+    const wallet = useActiveStandardTonWallet();
+
+    return useQuery<GaslessConfig, Error>(
+        [QueryKey.gasless, 'config'],
+        () => tonApiGaslessRelayer(api).getConfig(),
+        {
+            enabled: isW5Version(wallet.version)
+        }
+    );
+};
+
+/**
+ * Whether the relay fee for a transfer of the asset can be paid in the asset itself,
+ * and whether it has to be, because the wallet does not hold enough TON to pay the gas
+ */
+export const useGaslessAvailability = (asset: Asset) => {
+    const wallet = useActiveStandardTonWallet();
+    const { data: config } = useGaslessConfig();
+    const { data: info } = useWalletAccountInfo();
+
+    const isAvailable =
+        isTonAsset(asset) &&
+        asset.id !== TON_ASSET.id &&
+        isGaslessAvailable(config, wallet, (asset.address as Address).toRawString());
+
+    const isRequired =
+        isAvailable &&
+        !!info &&
+        new BigNumber(info.balance).isLessThan(jettonTransferAmount.toString());
+
+    return { isAvailable, isRequired };
+};
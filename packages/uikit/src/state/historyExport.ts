@@ -0,0 +1,75 @@
+import { useMutation } from '@tanstack/react-query';
+import {
+    getHistoryExportRows,
+    historyExportFile,
+    HistoryExportFormat,
+    HistoryExportWallet
+} from '@tonkeeper/core/dist/service/historyExportService';
+import { useMemo } from 'react';
+import { useAppContext } from '../hooks/appContext';
+import { useAccountsState, useActiveTonNetwork } from './wallet';
+
+/**
+ * All ton wallets of the local accounts, including the watch-only and multisig ones
+ */
+export const useHistoryExportWallets = () => {
+    const accounts = useAccountsState();
+
+    return useMemo(() => {
+        const wallets = accounts.flatMap(account =>
+            account.allTonWallets.map(wallet => ({
+                id: wallet.id,
+                rawAddress: wallet.rawAddress,
+                name: `${account.emoji} ${account.name}`
+            }))
+        );
+        return wallets.filter(
+            (wallet, index) => wallets.findIndex(w => w.rawAddress === wallet.rawAddress) === index
+        );
+    }, [accounts]);
+};
+
+export interface HistoryExportResult {
+    url: string;
+    fileName: string;
+    rowsCount: number;
+    /**
+     * Symbols of the tokens exported without the fiat values because their rates failed to load
+     */
+    missingRates: string[];
+}
+
+export const useHistoryExportMutation = () => {
+    const { api, fiat } = useAppContext();
+    const network = useActiveTonNetwork();
+
+    return useMutation<
+        HistoryExportResult,
+        Error,
+        {
+            wallets: HistoryExportWallet[];
+            startDate: number;
+            endDate: number;
+            format: HistoryExportFormat;
+        }
+    >(async ({ wallets, startDate, endDate, format }) => {
+        const { rows, missingRates } = await getHistoryExportRows(api, {
+            wallets,
+            startDate,
+            endDate,
+            currency: fiat,
+            network
+        });
+
+        const { content, mimeType } = historyExportFile(rows, format);
+        const blob = new Blob([content], { type: mimeType });
+        const day = (timestamp: number) => new Date(timestamp * 1000).toISOString().slice(0, 10);
+
+        return {
+            url: URL.createObjectURL(blob),
+            fileName: `tonkeeper-history-${day(startDate)}-${day(endDate)}.${format}`,
+            rowsCount: rows.length,
+            missingRates
+        };
+    });
+};
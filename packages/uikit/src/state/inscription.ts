@@ -0,0 +1,59 @@
+import { useInfiniteQuery, useMutation, useQuery } from '@tanstack/react-query';
+import {
+    getAccountInscriptions,
+    getInscriptionHistory,
+    getInscriptionTransferTemplate,
+    InscriptionTransferTemplate
+} from '@tonkeeper/core/dist/service/inscriptionService';
+import { InscriptionBalance } from '@tonkeeper/core/dist/tonApiV2';
+import BigNumber from 'bignumber.js';
+import { useAppContext } from '../hooks/appContext';
+import { QueryKey } from '../libs/queryKey';
+import { DefaultRefetchInterval } from './tonendpoint';
+import { useActiveTonNetwork, useActiveWallet } from './wallet';
+
+export const useInscriptions = () => {
+    const wallet = useActiveWallet();
+    const network = useActiveTonNetwork();
+    const { api } = useAppContext();
+
+    return useQuery<InscriptionBalance[], Error>(
+        [wallet.id, QueryKey.inscriptions, network],
+        async () => {
+            const inscriptions = await getAccountInscriptions(api, wallet.rawAddress);
+            return inscriptions.filter(item => new BigNumber(item.balance).gt(0));
+        },
+        {
+            refetchInterval: DefaultRefetchInterval,
+            keepPreviousData: true
+        }
+    );
+};
+
+export const useInscriptionHistory = (ticker: string) => {
+    const wallet = useActiveWallet();
+    const { api } = useAppContext();
+
+    return useInfiniteQuery({
+        queryKey: [wallet.id, QueryKey.activity, QueryKey.inscriptions, ticker],
+        queryFn: ({ pageParam = undefined }) =>
+            getInscriptionHistory(api, {
+                address: wallet.rawAddress,
+                ticker,
+                limit: 20,
+                beforeLt: pageParam
+            }),
+        getNextPageParam: lastPage => (lastPage.nextFrom > 0 ? lastPage.nextFrom : undefined)
+    });
+};
+
+export const useInscriptionTransferTemplate = () => {
+    const wallet = useActiveWallet();
+    const { api } = useAppContext();
+
+    return useMutation<
+        InscriptionTransferTemplate,
+        Error,
+        { inscription: InscriptionBalance; amount: string; recipient: string }
+    >(options => getInscriptionTransferTemplate(api, { ...options, sender: wallet.rawAddress }));
+};
@@ -4,18 +4,53 @@ import { IAppSdk } from '@tonkeeper/core/dist/AppSdk';
 import { AuthPassword } from '@tonkeeper/core/dist/entries/password';
 import { CellSigner, Signer } from '@tonkeeper/core/dist/entries/signer';
 import { KeystoneMessageType } from '@tonkeeper/core/dist/service/keystone/types';
-import { LedgerTransaction } from '@tonkeeper/core/dist/service/ledger/connector';
+import {
+    LedgerBatchProgress,
+    LedgerTonProof,
+    LedgerTransaction
+} from '@tonkeeper/core/dist/service/ledger/connector';
+import { getLedgerAccountPathByIndex } from '@tonkeeper/core/dist/service/ledger/utils';
 import { decryptWalletMnemonic } from '@tonkeeper/core/dist/service/mnemonicService';
 import {
     parseSignerSignature,
+    SignerMessageType,
     storeTransactionAndCreateDeepLink
 } from '@tonkeeper/core/dist/service/signerService';
+import {
+    ConnectProofPayload,
+    TonProofSigner
+} from '@tonkeeper/core/dist/service/tonConnect/connectService';
 import { delay } from '@tonkeeper/core/dist/utils/common';
 import nacl from 'tweetnacl';
 import { TxConfirmationCustomError } from '../libs/errors/TxConfirmationCustomError';
 import { accountsStorage } from '@tonkeeper/core/dist/service/accountsStorage';
 import { assertUnreachable } from '@tonkeeper/core/dist/utils/types';
 import { AccountId } from '@tonkeeper/core/dist/entries/account';
+import { WalletId, WalletVersion } from '@tonkeeper/core/dist/entries/wallet';
+import { APIConfig } from '@tonkeeper/core/dist/entries/apis';
+import { passwordStorage } from '@tonkeeper/core/dist/service/passwordService';
+import { withSpendingPolicy } from '@tonkeeper/core/dist/service/spendingPolicyService';
+
+let keySession = 0;
+const keyMaterialWipers = new Set<() => void>();
+
+/**
+ * Disables the signers created before the lock, such signers can't be used after unlock.
+ * Strings of the mnemonic can't be erased, the signers drop the reference to be collected
+ */
+export const wipeKeyMaterial = () => {
+    keySession += 1;
+    keyMaterialWipers.forEach(wipe => wipe());
+    keyMaterialWipers.clear();
+};
+
+/**
+ * Registers the key material held outside of the signers to be cleared on lock,
+ * the same wiper is kept once
+ */
+export const addKeyMaterialWiper = (wipe: () => void) => {
+    keyMaterialWipers.add(wipe);
+};
 
 export const signTonConnectOver = (
     sdk: IAppSdk,
@@ -61,6 +96,137 @@ export const signTonConnectOver = (
     };
 };
 
+/**
+ * Wallet contracts the Ledger TON app derives the proof address for, other versions can't be proven
+ */
+const ledgerProofWalletVersions: Partial<Record<WalletVersion, 'v3r2' | 'v4'>> = {
+    [WalletVersion.V3R2]: 'v3r2',
+    [WalletVersion.V4R2]: 'v4'
+};
+
+/**
+ * Signs ton_proof of the account wallet for TonConnect and Pro login.
+ * Ledger signs it with the TON app proof command bound to the wallet path, Keystone and Signer get the proof message
+ */
+export const signTonProofOver = (
+    sdk: IAppSdk,
+    accountId: AccountId,
+    walletId: WalletId,
+    t: (text: string) => string,
+    checkTouchId: () => Promise<void>
+): TonProofSigner => {
+    return async (proof: ConnectProofPayload) => {
+        const account = await accountsStorage(sdk.storage).getAccount(accountId);
+
+        if (!account) {
+            throw new Error("Can't use tonconnect over non standard ton wallet");
+        }
+
+        switch (account.type) {
+            case 'ton-only': {
+                if (account.auth.kind !== 'signer') {
+                    throw new TxConfirmationCustomError(
+                        'Signer linked by deeplink is not support sign proof.'
+                    );
+                }
+                const result = await pairSignerByNotification(
+                    sdk,
+                    proof.messageBuffer.toString('base64'),
+                    'signProof'
+                );
+                return parseSignerSignature(result);
+            }
+            case 'ledger': {
+                const derivation = account.derivations.find(d =>
+                    d.tonWallets.some(w => w.id === walletId)
+                );
+                const wallet = derivation?.tonWallets.find(w => w.id === walletId);
+                if (!derivation || !wallet) {
+                    throw new Error('Wallet not found');
+                }
+                const walletVersion = ledgerProofWalletVersions[wallet.version];
+                if (!walletVersion) {
+                    throw new TxConfirmationCustomError(t('ledger_operation_not_supported'));
+                }
+                const { signature } = await pairLedgerProofByNotification(
+                    sdk,
+                    getLedgerAccountPathByIndex(derivation.index),
+                    {
+                        request: {
+                            domain: proof.domainBuffer.toString('utf8'),
+                            timestamp: proof.timestamp,
+                            payload: Buffer.from(proof.payload)
+                        },
+                        options: { walletVersion }
+                    }
+                );
+                return signature;
+            }
+            case 'keystone': {
+                const result = await pairKeystoneByNotification(
+                    sdk,
+                    proof.messageBuffer,
+                    'signProof',
+                    account.pathInfo
+                );
+                return Buffer.from(result, 'hex');
+            }
+            default: {
+                const mnemonic = await getMnemonic(sdk, accountId, checkTouchId);
+                const keyPair = await mnemonicToPrivateKey(mnemonic);
+                return sign(sha256_sync(proof.bufferToSign), keyPair.secretKey);
+            }
+        }
+    };
+};
+
+/**
+ * Signs TonConnect signData message: sha256 of the buffer for text and binary payloads, hash of the cell for cell payloads
+ */
+export const signDataOver = (
+    sdk: IAppSdk,
+    accountId: AccountId,
+    t: (text: string) => string,
+    checkTouchId: () => Promise<void>
+) => {
+    return async (message: Buffer | Cell): Promise<Uint8Array> => {
+        const account = await accountsStorage(sdk.storage).getAccount(accountId);
+
+        if (!account) {
+            throw new Error('Account not found');
+        }
+
+        switch (account.type) {
+            case 'ton-only': {
+                throw new TxConfirmationCustomError(
+                    'Signer linked by QR is not support sign data.'
+                );
+            }
+            case 'ledger': {
+                throw new TxConfirmationCustomError(t('sign_data_ledger_not_supported'));
+            }
+            case 'keystone': {
+                if (!(message instanceof Cell)) {
+                    throw new TxConfirmationCustomError(t('sign_data_keystone_cell_only'));
+                }
+                const result = await pairKeystoneByNotification(
+                    sdk,
+                    message.toBoc({ idx: false }),
+                    'transaction',
+                    account.pathInfo
+                );
+                return Buffer.from(result, 'hex');
+            }
+            default: {
+                const mnemonic = await getMnemonic(sdk, accountId, checkTouchId);
+                const keyPair = await mnemonicToPrivateKey(mnemonic);
+                const hash = message instanceof Cell ? message.hash() : sha256_sync(message);
+                return sign(hash, keyPair.secretKey);
+            }
+        }
+    };
+};
+
 export const signTonConnectMnemonicOver = (mnemonic: string[]) => {
     return async (bufferToSign: Buffer) => {
         const keyPair = await mnemonicToPrivateKey(mnemonic);
@@ -72,10 +238,49 @@ export const signTonConnectMnemonicOver = (mnemonic: string[]) => {
     };
 };
 
+/**
+ * Signer of the account checking its spending policy before every signature.
+ * The mnemonic already entered for the operation is used instead of asking the password again
+ */
 export const getSigner = async (
     sdk: IAppSdk,
     accountId: AccountId,
-    checkTouchId: () => Promise<void>
+    checkTouchId: () => Promise<void>,
+    api: APIConfig,
+    mnemonic?: string[]
+): Promise<Signer> => {
+    const signer = await getAccountSigner(sdk, accountId, checkTouchId, mnemonic);
+    const account = (await accountsStorage(sdk.storage).getAccount(accountId))!;
+
+    return withSpendingPolicy(signer, {
+        api,
+        storage: sdk.storage,
+        accountId,
+        walletAddress: account.activeTonWallet.rawAddress,
+        passwordConfirmed:
+            mnemonic !== undefined ||
+            (account.type === 'mnemonic' && 'auth' in account && account.auth.kind === 'password'),
+        confirmPassword: () => confirmPassword(sdk, checkTouchId)
+    });
+};
+
+/**
+ * Asks the password again even if the session is unlocked, touch id when the password is not set.
+ * Rejects when cancelled
+ */
+export const confirmPassword = async (sdk: IAppSdk, checkTouchId: () => Promise<void>) => {
+    if (await passwordStorage(sdk.storage).getIsPasswordSet()) {
+        await getPasswordByNotification(sdk);
+    } else {
+        await checkTouchId();
+    }
+};
+
+const getAccountSigner = async (
+    sdk: IAppSdk,
+    accountId: AccountId,
+    checkTouchId: () => Promise<void>,
+    enteredMnemonic?: string[]
 ): Promise<Signer> => {
     try {
         const account = await accountsStorage(sdk.storage).getAccount(accountId);
@@ -89,7 +294,8 @@ export const getSigner = async (
                     const callback = async (message: Cell) => {
                         const result = await pairSignerByNotification(
                             sdk,
-                            message.toBoc({ idx: false }).toString('base64')
+                            message.toBoc({ idx: false }).toString('base64'),
+                            'transaction'
                         );
                         return parseSignerSignature(result);
                     };
@@ -121,8 +327,11 @@ export const getSigner = async (
                 return assertUnreachable(account.auth);
             }
             case 'ledger': {
-                const callback = async (path: number[], transaction: LedgerTransaction) =>
-                    pairLedgerByNotification(sdk, path, transaction);
+                const callback = async (
+                    path: number[],
+                    transaction: LedgerTransaction,
+                    progress?: LedgerBatchProgress
+                ) => pairLedgerByNotification(sdk, path, transaction, progress);
                 callback.type = 'ledger' as const;
                 return callback;
             }
@@ -140,8 +349,17 @@ export const getSigner = async (
                 return callback;
             }
             default: {
-                const mnemonic = await getMnemonic(sdk, account.id, checkTouchId);
+                let mnemonic: string[] | undefined = enteredMnemonic
+                    ? [...enteredMnemonic]
+                    : await getMnemonic(sdk, account.id, checkTouchId);
+                const session = keySession;
                 const callback = async (message: Cell) => {
+                    if (session !== keySession) {
+                        mnemonic = undefined;
+                    }
+                    if (!mnemonic) {
+                        throw new Error('Session is locked');
+                    }
                     const keyPair = await mnemonicToPrivateKey(mnemonic);
                     return sign(message.hash(), keyPair.secretKey);
                 };
@@ -230,13 +448,17 @@ export const getPasswordByNotification = async (sdk: IAppSdk): Promise<string> =
     });
 };
 
-const pairSignerByNotification = async (sdk: IAppSdk, boc: string): Promise<string> => {
+const pairSignerByNotification = async (
+    sdk: IAppSdk,
+    message: string,
+    messageType: SignerMessageType
+): Promise<string> => {
     const id = Date.now();
     return new Promise<string>((resolve, reject) => {
         sdk.uiEvents.emit('signer', {
             method: 'signer',
             id,
-            params: boc
+            params: { message, messageType }
         });
 
         const onCallback = (message: {
@@ -302,14 +524,15 @@ const pairKeystoneByNotification = async (
 const pairLedgerByNotification = async (
     sdk: IAppSdk,
     path: number[],
-    transaction: LedgerTransaction
+    transaction: LedgerTransaction,
+    progress?: LedgerBatchProgress
 ): Promise<Cell> => {
     const id = Date.now();
     return new Promise<Cell>((resolve, reject) => {
         sdk.uiEvents.emit('ledger', {
             method: 'ledger',
             id,
-            params: { path, transaction }
+            params: { path, transaction, progress }
         });
 
         const onCallback = (message: {
@@ -336,3 +559,41 @@ const pairLedgerByNotification = async (
         sdk.uiEvents.on('response', onCallback);
     });
 };
+
+const pairLedgerProofByNotification = async (
+    sdk: IAppSdk,
+    path: number[],
+    proof: LedgerTonProof
+): Promise<{ signature: Buffer; hash: Buffer }> => {
+    const id = Date.now();
+    return new Promise((resolve, reject) => {
+        sdk.uiEvents.emit('ledger', {
+            method: 'ledger',
+            id,
+            params: { path, proof }
+        });
+
+        const onCallback = (message: {
+            method: 'response';
+            id?: number | undefined;
+            params: unknown;
+        }) => {
+            if (message.id === id) {
+                const { params } = message;
+                sdk.uiEvents.off('response', onCallback);
+
+                if (params && typeof params === 'object' && 'signature' in params) {
+                    resolve(params as { signature: Buffer; hash: Buffer });
+                } else {
+                    if (params instanceof Error) {
+                        reject(params);
+                    } else {
+                        reject(new Error(params?.toString()));
+                    }
+                }
+            }
+        };
+
+        sdk.uiEvents.on('response', onCallback);
+    });
+};
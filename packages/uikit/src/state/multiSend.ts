@@ -11,8 +11,14 @@ import {
     tonAssetAddressToString
 } from '@tonkeeper/core/dist/entries/crypto/asset/ton-asset';
 import { FiatCurrencies } from '@tonkeeper/core/dist/entries/fiat';
+import { MultiSendBatch } from '@tonkeeper/core/dist/entries/multiSend';
 import { TonRecipient } from '@tonkeeper/core/dist/entries/send';
+import {
+    getUnfinishedMultiSendBatch,
+    saveMultiSendBatch
+} from '@tonkeeper/core/dist/service/multiSendBatchStorage';
 import { csvStringToArray } from '@tonkeeper/core/dist/service/parserService';
+import { skipMultiSendBatchPendingRows } from '@tonkeeper/core/dist/service/transfer/multiSendBatchService';
 import { DNSApi, JettonsApi } from '@tonkeeper/core/dist/tonApiV2';
 import { seeIfValidTonAddress } from '@tonkeeper/core/dist/utils/common';
 import { getDecimalSeparator } from '@tonkeeper/core/dist/utils/formatting';
@@ -22,6 +28,7 @@ import { ErrorOption } from 'react-hook-form';
 import { seeIfInvalidDns } from '../components/transfer/RecipientView';
 import { useAppContext } from '../hooks/appContext';
 import { useAppSdk } from '../hooks/appSdk';
+import { useActiveWallet } from './wallet';
 
 export type MultiSendRow = {
     receiver: TonRecipient | null;
@@ -166,6 +173,26 @@ export const useDeleteUserMultiSendList = () => {
     });
 };
 
+export const useUnfinishedMultiSendBatch = () => {
+    const sdk = useAppSdk();
+    const wallet = useActiveWallet();
+    return useQuery([AppKey.MULTI_SEND_BATCHES, wallet.id], () =>
+        getUnfinishedMultiSendBatch(sdk.storage, wallet.id)
+    );
+};
+
+/**
+ * Rows that were not sent yet are marked as skipped, the batch is not offered to resume anymore
+ */
+export const useDiscardMultiSendBatch = () => {
+    const sdk = useAppSdk();
+    const client = useQueryClient();
+    return useMutation<void, Error, MultiSendBatch>(async batch => {
+        await saveMultiSendBatch(sdk.storage, skipMultiSendBatchPendingRows(batch));
+        await client.invalidateQueries([AppKey.MULTI_SEND_BATCHES]);
+    });
+};
+
 export class ListImportError extends Error {
     constructor(
         message: string,
@@ -0,0 +1,124 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+    AccountTonMultisig,
+    AccountTonWalletStandard,
+    isAccountTonWalletStandard
+} from '@tonkeeper/core/dist/entries/account';
+import { WalletId } from '@tonkeeper/core/dist/entries/wallet';
+import { getMultisig } from '@tonkeeper/core/dist/service/multisigService';
+import {
+    getMultisigOrderActions,
+    MultisigOrderAction
+} from '@tonkeeper/core/dist/service/transfer/multisigOrderService';
+import { accountByMultisigAddress } from '@tonkeeper/core/dist/service/walletService';
+import { Multisig, MultisigOrder } from '@tonkeeper/core/dist/tonApiV2';
+import { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAppContext } from '../hooks/appContext';
+import { useAppSdk } from '../hooks/appSdk';
+import { useAccountsStorage } from '../hooks/useStorage';
+import { QueryKey } from '../libs/queryKey';
+import { AppRoute } from '../libs/routes';
+import { DefaultRefetchInterval } from './tonendpoint';
+import { useAccountsState, useActiveAccount } from './wallet';
+
+export const useAddMultisigAccountMutation = () => {
+    const sdk = useAppSdk();
+    const accountsStorage = useAccountsStorage();
+    const { api } = useAppContext();
+    const client = useQueryClient();
+    const navigate = useNavigate();
+
+    return useMutation<void, Error, { address: string; name?: string }>(
+        async ({ address, name }) => {
+            const newAccount = await accountByMultisigAddress(api, sdk.storage, address, name);
+            const existingAccount = await accountsStorage.getAccount(newAccount.id);
+            if (!existingAccount) {
+                await accountsStorage.addAccountToState(newAccount);
+            }
+            await accountsStorage.setActiveAccountId(newAccount.id);
+
+            await client.invalidateQueries([QueryKey.account]);
+
+            navigate(AppRoute.multisig);
+        }
+    );
+};
+
+export const useActiveMultisigAccount = () => {
+    const account = useActiveAccount();
+    return account.type === 'ton-multisig' ? account : undefined;
+};
+
+export const useMultisig = (address: string) => {
+    const { api } = useAppContext();
+
+    return useQuery<Multisig, Error>(
+        [address, QueryKey.multisig],
+        () => getMultisig(api, address),
+        {
+            refetchInterval: DefaultRefetchInterval
+        }
+    );
+};
+
+/**
+ * Local account of the host wallet with the wallet set as active, so it can be passed to the transfer services
+ */
+export const useMultisigHostAccount = (walletId: WalletId | undefined) => {
+    const accounts = useAccountsState();
+
+    return useMemo(() => {
+        if (!walletId) {
+            return undefined;
+        }
+        const account = accounts
+            .filter(isAccountTonWalletStandard)
+            .find(item => item.getTonWallet(walletId) !== undefined);
+        if (!account) {
+            return undefined;
+        }
+
+        const hostAccount = account.clone() as AccountTonWalletStandard;
+        hostAccount.setActiveTonWallet(walletId);
+        return hostAccount;
+    }, [accounts, walletId]);
+};
+
+const useUpdateMultisigAccount = <T>(update: (account: AccountTonMultisig, value: T) => void) => {
+    const storage = useAccountsStorage();
+    const client = useQueryClient();
+
+    return useMutation<void, Error, { accountId: string; value: T }>(
+        async ({ accountId, value }) => {
+            const account = await storage.getAccount(accountId);
+            if (!account || account.type !== 'ton-multisig') {
+                throw new Error('Account not found');
+            }
+
+            update(account, value);
+            await storage.updateAccountInState(account);
+            await client.invalidateQueries([QueryKey.account]);
+        }
+    );
+};
+
+export const useSelectMultisigHostWalletMutation = () =>
+    useUpdateMultisigAccount<WalletId>((account, walletId) =>
+        account.setSelectedHostWalletId(walletId)
+    );
+
+export const useMultisigOrderActions = (order: MultisigOrder) => {
+    const { api } = useAppContext();
+
+    return useQuery<MultisigOrderAction[], Error>(
+        [order.address, QueryKey.multisig, 'actions'],
+        () => getMultisigOrderActions(api, order)
+    );
+};
+
+/**
+ * Hides the order on this device only, nothing is sent to the multisig
+ */
+export const useHideMultisigOrderMutation = () =>
+    useUpdateMultisigAccount<string>((account, orderAddress) => account.declineOrder(orderAddress));
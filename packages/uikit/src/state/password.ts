@@ -1,5 +1,7 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { AppKey } from '@tonkeeper/core/dist/Keys';
+import { AutoLockSettings } from '@tonkeeper/core/dist/entries/lock';
+import { getAutoLockSettings, setAutoLockSettings } from '@tonkeeper/core/dist/service/lockService';
 import { useAppSdk } from '../hooks/appSdk';
 import { QueryKey } from '../libs/queryKey';
 import { IAppSdk } from '@tonkeeper/core/dist/AppSdk';
@@ -22,6 +24,22 @@ export const useMutateLookScreen = () => {
     });
 };
 
+export const useAutoLockSettings = () => {
+    const sdk = useAppSdk();
+    return useQuery<AutoLockSettings, Error>([QueryKey.lock, AppKey.AUTO_LOCK], () =>
+        getAutoLockSettings(sdk.storage)
+    );
+};
+
+export const useMutateAutoLockSettings = () => {
+    const sdk = useAppSdk();
+    const client = useQueryClient();
+    return useMutation<void, Error, AutoLockSettings>(async settings => {
+        await setAutoLockSettings(sdk.storage, settings);
+        await client.invalidateQueries([QueryKey.lock]);
+    });
+};
+
 export const useCanPromptTouchId = () => {
     const sdk = useAppSdk();
     return useQuery([QueryKey.canPromptTouchId], async () => {
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+    getPaymentRequestPayment,
+    PaymentRequest,
+    PaymentRequestPayment
+} from '@tonkeeper/core/dist/service/paymentRequestService';
+import { useAppContext } from '../hooks/appContext';
+import { QueryKey } from '../libs/queryKey';
+import { useActiveWallet } from './wallet';
+
+const paymentRequestRefetchInterval = 15000;
+
+/**
+ * The activity key of the wallet makes the transactions stream refresh the status,
+ * polling covers the time the stream is disconnected
+ */
+export const usePaymentRequestPayment = (request: PaymentRequest | undefined) => {
+    const { api } = useAppContext();
+    const wallet = useActiveWallet();
+
+    return useQuery<PaymentRequestPayment | null, Error>(
+        [wallet.rawAddress, QueryKey.activity, 'paymentRequest', request],
+        () => getPaymentRequestPayment(api, request!),
+        {
+            enabled: request !== undefined,
+            refetchInterval: data => (data ? false : paymentRequestRefetchInterval)
+        }
+    );
+};
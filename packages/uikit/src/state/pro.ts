@@ -22,9 +22,9 @@ import { useAppContext } from '../hooks/appContext';
 import { useAppSdk } from '../hooks/appSdk';
 import { useTranslation } from '../hooks/translation';
 import { QueryKey } from '../libs/queryKey';
-import { signTonConnectOver } from './mnemonic';
+import { signTonProofOver } from './mnemonic';
 import { useCheckTouchId } from './password';
-import { useActiveWallet } from './wallet';
+import { useAccountsState, useActiveWallet } from './wallet';
 import { useUserLanguage } from './language';
 import { useAccountsStorage } from '../hooks/useStorage';
 import { getAccountByWalletById, getWalletById } from '@tonkeeper/core/dist/entries/account';
@@ -40,12 +40,18 @@ export const useProBackupState = () => {
 
 export const useProState = () => {
     const wallet = useActiveWallet();
+    const accounts = useAccountsState();
     const sdk = useAppSdk();
     const client = useQueryClient();
     return useQuery<ProState, Error>([QueryKey.pro], async () => {
-        // TODO а что если активный кошелек не стандартный?
         // TODO сделать флоу подписки
-        const state = await getProState(sdk.storage, wallet);
+        const fallbackWallet = isStandardTonWallet(wallet)
+            ? wallet
+            : accounts.flatMap(a => a.allTonWallets).find(isStandardTonWallet);
+        if (!fallbackWallet) {
+            throw new Error('Pro subscription requires a wallet with a key');
+        }
+        const state = await getProState(sdk.storage, fallbackWallet);
         await setBackupState(sdk.storage, state.subscription);
         await client.invalidateQueries([QueryKey.proBackup]);
         return state;
@@ -77,7 +83,11 @@ export const useSelectWalletForProMutation = () => {
             throw new Error("Can't use non-standard ton wallet for pro auth");
         }
 
-        await authViaTonConnect(api, wallet, signTonConnectOver(sdk, account.id, t, checkTouchId));
+        await authViaTonConnect(
+            api,
+            wallet,
+            signTonProofOver(sdk, account.id, wallet.id, t, checkTouchId)
+        );
 
         await client.invalidateQueries([QueryKey.pro]);
     });
@@ -0,0 +1,56 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+    SpendingPolicy,
+    SpendingPolicyAuditItem,
+    SpendingPolicyViolation
+} from '@tonkeeper/core/dist/entries/spendingPolicy';
+import {
+    getSpendingPolicy,
+    getSpendingPolicyAudit,
+    setSpendingPolicy
+} from '@tonkeeper/core/dist/service/spendingPolicyService';
+import { useAppSdk } from '../hooks/appSdk';
+import { QueryKey } from '../libs/queryKey';
+import { confirmPassword } from './mnemonic';
+import { useCheckTouchId } from './password';
+import { useActiveAccount } from './wallet';
+
+export const spendingPolicyViolationMessages: Record<SpendingPolicyViolation, string> = {
+    'recipient-not-allowed': 'spending_policy_violation_recipient',
+    'max-transfer': 'spending_policy_violation_max_transfer',
+    'daily-limit': 'spending_policy_violation_daily_limit',
+    'password-required': 'spending_policy_violation_password'
+};
+
+export const useSpendingPolicy = () => {
+    const sdk = useAppSdk();
+    const account = useActiveAccount();
+    return useQuery<SpendingPolicy | null, Error>(
+        [account.id, QueryKey.spendingPolicy],
+        async () => (await getSpendingPolicy(sdk.storage, account.id)) ?? null
+    );
+};
+
+/**
+ * The password is asked before the policy is saved or removed, an unlocked session is not enough to loosen it
+ */
+export const useMutateSpendingPolicy = () => {
+    const sdk = useAppSdk();
+    const account = useActiveAccount();
+    const client = useQueryClient();
+    const { mutateAsync: checkTouchId } = useCheckTouchId();
+    return useMutation<void, Error, SpendingPolicy | undefined>(async policy => {
+        await confirmPassword(sdk, checkTouchId);
+        await setSpendingPolicy(sdk.storage, account.id, policy);
+        await client.invalidateQueries([account.id, QueryKey.spendingPolicy]);
+    });
+};
+
+export const useSpendingPolicyAudit = () => {
+    const sdk = useAppSdk();
+    const account = useActiveAccount();
+    return useQuery<SpendingPolicyAuditItem[], Error>(
+        [account.id, QueryKey.spendingPolicy, 'audit'],
+        () => getSpendingPolicyAudit(sdk.storage, account.id)
+    );
+};
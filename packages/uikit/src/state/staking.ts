@@ -0,0 +1,37 @@
+import { useQuery } from '@tanstack/react-query';
+import { StakingPools, StakingPosition } from '@tonkeeper/core/dist/entries/staking';
+import {
+    getStakingPools,
+    getStakingPositions
+} from '@tonkeeper/core/dist/service/stakingPoolsService';
+import { useAppContext } from '../hooks/appContext';
+import { useTranslation } from '../hooks/translation';
+import { QueryKey } from '../libs/queryKey';
+import { DefaultRefetchInterval } from './tonendpoint';
+import { useActiveWallet } from './wallet';
+
+export const useStakingPools = () => {
+    const { api } = useAppContext();
+    const wallet = useActiveWallet();
+    const { i18n } = useTranslation();
+
+    return useQuery<StakingPools, Error>(
+        [wallet.rawAddress, QueryKey.staking, 'pools', i18n.language],
+        () => getStakingPools(api, wallet.rawAddress, i18n.language)
+    );
+};
+
+export const useStakingPositions = () => {
+    const { api } = useAppContext();
+    const wallet = useActiveWallet();
+    const { data: pools } = useStakingPools();
+
+    return useQuery<StakingPosition[], Error>(
+        [wallet.rawAddress, QueryKey.staking, 'positions'],
+        () => getStakingPositions(api, wallet.rawAddress, pools?.pools ?? []),
+        {
+            enabled: pools !== undefined,
+            refetchInterval: DefaultRefetchInterval
+        }
+    );
+};
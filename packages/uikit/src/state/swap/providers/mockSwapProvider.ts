@@ -0,0 +1,52 @@
+import { AssetAmount } from '@tonkeeper/core/dist/entries/crypto/asset/asset-amount';
+import { TON_ASSET } from '@tonkeeper/core/dist/entries/crypto/asset/constants';
+import BigNumber from 'bignumber.js';
+import { SwapProvider } from './swapProvider';
+
+/**
+ * Local provider without network requests: quotes a fixed rate and encodes a plain transfer to the sender.
+ * Intended for tests and development, is not registered by default
+ */
+export const createMockSwapProvider = (
+    options: { id?: string; rate?: number; delayMs?: number; blockchainFeeWei?: string } = {}
+): SwapProvider => {
+    const rate = new BigNumber(options.rate ?? 1);
+
+    return {
+        id: options.id ?? 'mock',
+        label: 'Mock DEX',
+        imageUrl: 'https://wallet.tonkeeper.com/img/swap/stonfi.png',
+        calculate: async ({ fromAsset, toAsset, fromAmountWei, signal }) => {
+            if (options.delayMs) {
+                await new Promise(resolve => setTimeout(resolve, options.delayMs));
+            }
+            if (signal?.aborted) {
+                throw new Error('Calculation cancelled');
+            }
+
+            const toAmountWei = new BigNumber(fromAmountWei)
+                .shiftedBy(-fromAsset.decimals)
+                .multipliedBy(rate)
+                .shiftedBy(toAsset.decimals)
+                .decimalPlaces(0, BigNumber.ROUND_FLOOR);
+
+            return [
+                {
+                    from: new AssetAmount({ asset: fromAsset, weiAmount: fromAmountWei }),
+                    to: new AssetAmount({ asset: toAsset, weiAmount: toAmountWei }),
+                    blockchainFee: new AssetAmount({
+                        asset: TON_ASSET,
+                        weiAmount: options.blockchainFeeWei ?? '100000000'
+                    }),
+                    path: [fromAsset, toAsset],
+                    rawTrade: { rate: rate.toString() }
+                }
+            ];
+        },
+        encode: async (trade, { senderAddress }) => ({
+            to: senderAddress,
+            value: trade.blockchainFee.stringWeiAmount,
+            body: ''
+        })
+    };
+};
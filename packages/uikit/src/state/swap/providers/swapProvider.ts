@@ -0,0 +1,70 @@
+import { APIConfig } from '@tonkeeper/core/dist/entries/apis';
+import { AssetAmount } from '@tonkeeper/core/dist/entries/crypto/asset/asset-amount';
+import { TON_ASSET } from '@tonkeeper/core/dist/entries/crypto/asset/constants';
+import { TonAsset } from '@tonkeeper/core/dist/entries/crypto/asset/ton-asset';
+
+export type SwapProviderId = string;
+
+export type CalculatedTrade = {
+    from: AssetAmount<TonAsset>;
+    to: AssetAmount<TonAsset>;
+    blockchainFee: AssetAmount<typeof TON_ASSET>;
+    path: TonAsset[];
+    /**
+     * Provider specific trade data, passed back to the provider `encode` as is
+     */
+    rawTrade: unknown;
+};
+
+export type CalculatedSwap = {
+    provider: SwapProviderId;
+    trade: CalculatedTrade | null;
+};
+
+export type CalculateSwapParams = {
+    api: APIConfig;
+    fromAsset: TonAsset;
+    toAsset: TonAsset;
+    fromAmountWei: string;
+    signal?: AbortSignal;
+};
+
+export type EncodeSwapOptions = {
+    senderAddress: string;
+    /**
+     * Fraction of the expected output, e.g. "0.01" for 1%
+     */
+    slippage: string;
+    referralAddress?: string;
+};
+
+export type EncodedSwap = {
+    value: string;
+    to: string;
+    body: string;
+};
+
+export interface SwapProviderMeta {
+    id: SwapProviderId;
+    label: string;
+    imageUrl: string;
+}
+
+export interface SwapProvider extends SwapProviderMeta {
+    /**
+     * Returns provider trades for the pair, an empty list if the pair can't be swapped
+     */
+    calculate(params: CalculateSwapParams): Promise<CalculatedTrade[]>;
+    encode(trade: CalculatedTrade, options: EncodeSwapOptions): Promise<EncodedSwap>;
+    /**
+     * Human-readable route of the trade, symbols of the path assets by default
+     */
+    formatRoute?(trade: CalculatedTrade): string;
+}
+
+export const formatSwapRoute = (provider: SwapProvider | undefined, trade: CalculatedTrade) => {
+    if (provider?.formatRoute) {
+        return provider.formatRoute(trade);
+    }
+    return trade.path.map(asset => asset.symbol).join(' → ');
+};
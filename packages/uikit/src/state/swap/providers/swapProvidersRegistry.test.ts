@@ -0,0 +1,112 @@
+import { TON_ASSET, TON_USDT_ASSET } from '@tonkeeper/core/dist/entries/crypto/asset/constants';
+import { APIConfig } from '@tonkeeper/core/dist/entries/apis';
+import { createMockSwapProvider } from './mockSwapProvider';
+import { formatSwapRoute } from './swapProvider';
+import {
+    getSwapProvider,
+    getSwapProviders,
+    registerSwapProvider,
+    unregisterSwapProvider
+} from './swapProvidersRegistry';
+
+const api = {} as APIConfig;
+
+describe('swapProvidersRegistry', () => {
+    afterEach(() => {
+        unregisterSwapProvider('mock');
+    });
+
+    it('registers the api backed providers by default', () => {
+        expect(getSwapProviders().map(p => p.id)).toEqual(['stonfi', 'dedust']);
+    });
+
+    it('adds and removes providers', () => {
+        const provider = createMockSwapProvider();
+        registerSwapProvider(provider);
+
+        expect(getSwapProviders().map(p => p.id)).toEqual(['stonfi', 'dedust', 'mock']);
+        expect(getSwapProvider('mock')).toBe(provider);
+
+        unregisterSwapProvider('mock');
+
+        expect(getSwapProvider('mock')).toBeUndefined();
+        expect(getSwapProviders().map(p => p.id)).toEqual(['stonfi', 'dedust']);
+    });
+
+    it('replaces a provider with the same id in place', () => {
+        registerSwapProvider(createMockSwapProvider({ rate: 1 }));
+        const replacement = createMockSwapProvider({ rate: 2 });
+        registerSwapProvider(replacement);
+
+        expect(getSwapProviders().map(p => p.id)).toEqual(['stonfi', 'dedust', 'mock']);
+        expect(getSwapProvider('mock')).toBe(replacement);
+    });
+});
+
+describe('createMockSwapProvider', () => {
+    it('quotes the output in the decimals of the target asset', async () => {
+        const provider = createMockSwapProvider({
+            rate: 5.123456789,
+            blockchainFeeWei: '250000000'
+        });
+
+        const [trade] = await provider.calculate({
+            api,
+            fromAsset: TON_ASSET,
+            toAsset: TON_USDT_ASSET,
+            fromAmountWei: '1500000000'
+        });
+
+        expect(trade.from.asset).toBe(TON_ASSET);
+        expect(trade.from.stringWeiAmount).toBe('1500000000');
+        expect(trade.to.asset).toBe(TON_USDT_ASSET);
+        expect(trade.to.stringWeiAmount).toBe('7685185');
+        expect(trade.blockchainFee.asset).toBe(TON_ASSET);
+        expect(trade.blockchainFee.stringWeiAmount).toBe('250000000');
+        expect(trade.path).toEqual([TON_ASSET, TON_USDT_ASSET]);
+        expect(trade.rawTrade).toEqual({ rate: '5.123456789' });
+    });
+
+    it('rejects a cancelled calculation', async () => {
+        const provider = createMockSwapProvider({ delayMs: 10 });
+        const controller = new AbortController();
+
+        const calculation = provider.calculate({
+            api,
+            fromAsset: TON_ASSET,
+            toAsset: TON_USDT_ASSET,
+            fromAmountWei: '1000000000',
+            signal: controller.signal
+        });
+        controller.abort();
+
+        await expect(calculation).rejects.toThrow('Calculation cancelled');
+    });
+
+    it('encodes the trade as a transfer of the blockchain fee to the sender', async () => {
+        const provider = createMockSwapProvider();
+        const [trade] = await provider.calculate({
+            api,
+            fromAsset: TON_USDT_ASSET,
+            toAsset: TON_ASSET,
+            fromAmountWei: '1000000'
+        });
+
+        await expect(
+            provider.encode(trade, { senderAddress: '0:' + '00'.repeat(32), slippage: '0.01' })
+        ).resolves.toEqual({ to: '0:' + '00'.repeat(32), value: '100000000', body: '' });
+    });
+
+    it('formats the route from the path symbols unless the provider formats it', async () => {
+        const provider = createMockSwapProvider();
+        const [trade] = await provider.calculate({
+            api,
+            fromAsset: TON_ASSET,
+            toAsset: TON_USDT_ASSET,
+            fromAmountWei: '1000000000'
+        });
+
+        expect(formatSwapRoute(provider, trade)).toBe(`TON → ${TON_USDT_ASSET.symbol}`);
+        expect(formatSwapRoute({ ...provider, formatRoute: () => 'direct' }, trade)).toBe('direct');
+    });
+});
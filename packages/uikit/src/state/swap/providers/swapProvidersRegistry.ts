@@ -0,0 +1,31 @@
+import { atom, useAtom } from '../../../libs/atom';
+import { SwapProvider, SwapProviderId } from './swapProvider';
+import { dedustSwapProvider, stonfiSwapProvider } from './tonkeeperSwapProviders';
+
+const swapProviders$ = atom<SwapProvider[]>([stonfiSwapProvider, dedustSwapProvider]);
+
+/**
+ * Adds a provider to the registry, a provider with the same id is replaced
+ */
+export const registerSwapProvider = (provider: SwapProvider) => {
+    const providers = swapProviders$.value;
+    const index = providers.findIndex(p => p.id === provider.id);
+    swapProviders$.next(
+        index === -1
+            ? [...providers, provider]
+            : providers.map(p => (p.id === provider.id ? provider : p))
+    );
+};
+
+export const unregisterSwapProvider = (id: SwapProviderId) => {
+    swapProviders$.next(swapProviders$.value.filter(p => p.id !== id));
+};
+
+export const getSwapProviders = () => swapProviders$.value;
+
+export const getSwapProvider = (id: SwapProviderId) => swapProviders$.value.find(p => p.id === id);
+
+export const useSwapProviders = () => {
+    const [providers] = useAtom(swapProviders$);
+    return providers;
+};
@@ -0,0 +1,151 @@
+import { Address } from '@ton/core';
+import { APIConfig } from '@tonkeeper/core/dist/entries/apis';
+import { BLOCKCHAIN_NAME } from '@tonkeeper/core/dist/entries/crypto';
+import { AssetAmount } from '@tonkeeper/core/dist/entries/crypto/asset/asset-amount';
+import { packAssetId } from '@tonkeeper/core/dist/entries/crypto/asset/basic-asset';
+import { TON_ASSET } from '@tonkeeper/core/dist/entries/crypto/asset/constants';
+import {
+    isTon,
+    TonAsset,
+    TonAssetAddress
+} from '@tonkeeper/core/dist/entries/crypto/asset/ton-asset';
+import { SwapService } from '@tonkeeper/core/dist/swapsApi';
+import { JettonsApi } from '@tonkeeper/core/dist/tonApiV2';
+import { eqAddresses } from '@tonkeeper/core/dist/utils/address';
+import { CalculatedTrade, SwapProvider, SwapProviderMeta } from './swapProvider';
+
+type SwapsApiProviderId = Parameters<typeof SwapService.calculateSwap>[3];
+
+type SwapsApiTrade = Awaited<ReturnType<typeof SwapService.calculateSwap>>['trades'][number] & {
+    stonfiRawTrade?: unknown;
+    dedustRawTrade?: unknown;
+};
+
+type SwapsApiEncodeSwap = Parameters<typeof SwapService.encodeSwap>[0]['swap'];
+
+const swapAssetsCache = new Map<TonAssetAddress, Promise<TonAsset>>();
+
+const toTradeAssetId = (address: TonAssetAddress) => {
+    return isTon(address) ? 'ton' : address.toRawString();
+};
+
+const fromTradeAssetId = (address: string): TonAssetAddress => {
+    return address === 'ton' ? 'TON' : Address.parse(address);
+};
+
+const addAssetToCache = (asset: TonAsset) => {
+    if (!swapAssetsCache.has(asset.address)) {
+        swapAssetsCache.set(asset.address, Promise.resolve(asset));
+    }
+};
+
+const getAsset = async (api: APIConfig, address: TonAssetAddress): Promise<TonAsset> => {
+    if (isTon(address)) {
+        return TON_ASSET;
+    }
+
+    if (swapAssetsCache.has(address)) {
+        return swapAssetsCache.get(address)!;
+    }
+
+    const tonapi = new JettonsApi(api.tonApiV2);
+    const p = tonapi.getJettonInfo({ accountId: address.toRawString() }).then(
+        response =>
+            ({
+                symbol: response.metadata.symbol,
+                decimals: Number(response.metadata.decimals),
+                name: response.metadata.name,
+                blockchain: BLOCKCHAIN_NAME.TON,
+                address,
+                id: packAssetId(BLOCKCHAIN_NAME.TON, address),
+                image: response.metadata.image
+            } as const)
+    );
+    swapAssetsCache.set(address, p);
+    return p;
+};
+
+const getPathAssets = async (trades: { path: string[] }[], api: APIConfig) => {
+    const addresses = trades.flatMap(trade => trade.path.map(fromTradeAssetId));
+
+    return Promise.all(addresses.map(address => getAsset(api, address)));
+};
+
+/**
+ * Provider backed by the Tonkeeper swaps api, that calculates and encodes trades of the DEX on the backend side
+ */
+const createSwapsApiProvider = (
+    meta: SwapProviderMeta & { id: SwapsApiProviderId },
+    toEncodeSwap: (rawTrade: unknown) => SwapsApiEncodeSwap,
+    getRawTrade: (trade: SwapsApiTrade) => unknown
+): SwapProvider => ({
+    ...meta,
+    calculate: async ({ api, fromAsset, toAsset, fromAmountWei, signal }) => {
+        addAssetToCache(fromAsset);
+        addAssetToCache(toAsset);
+
+        const swapPromise = SwapService.calculateSwap(
+            toTradeAssetId(fromAsset.address),
+            toTradeAssetId(toAsset.address),
+            fromAmountWei,
+            meta.id
+        );
+        signal?.addEventListener('abort', () => swapPromise.cancel());
+
+        const { trades } = await swapPromise;
+        const assetsInfo = await getPathAssets(trades, api);
+
+        return (trades as SwapsApiTrade[]).map(
+            (t): CalculatedTrade => ({
+                from: new AssetAmount({
+                    asset: fromAsset,
+                    weiAmount: t.fromAmount
+                }),
+                to: new AssetAmount({
+                    asset: toAsset,
+                    weiAmount: t.toAmount
+                }),
+                blockchainFee: new AssetAmount({
+                    asset: TON_ASSET,
+                    weiAmount: t.blockchainFee
+                }),
+                path: t.path.map(
+                    address =>
+                        assetsInfo.find(a => eqAddresses(a.address, fromTradeAssetId(address)))!
+                ),
+                rawTrade: getRawTrade(t)
+            })
+        );
+    },
+    encode: (trade, options) =>
+        SwapService.encodeSwap({
+            swap: toEncodeSwap(trade.rawTrade),
+            options
+        })
+});
+
+export const stonfiSwapProvider = createSwapsApiProvider(
+    {
+        id: 'stonfi',
+        imageUrl: 'https://wallet.tonkeeper.com/img/swap/stonfi.png',
+        label: 'STON.fi'
+    },
+    rawTrade => ({
+        provider: 'stonfi',
+        stonfiTrade: rawTrade as Extract<SwapsApiEncodeSwap, { provider: 'stonfi' }>['stonfiTrade']
+    }),
+    trade => trade.stonfiRawTrade
+);
+
+export const dedustSwapProvider = createSwapsApiProvider(
+    {
+        id: 'dedust',
+        imageUrl: 'https://wallet.tonkeeper.com/img/swap/dedust.png',
+        label: 'DeDust'
+    },
+    rawTrade => ({
+        provider: 'dedust',
+        dedustTrade: rawTrade as Extract<SwapsApiEncodeSwap, { provider: 'dedust' }>['dedustTrade']
+    }),
+    trade => trade.dedustRawTrade
+);
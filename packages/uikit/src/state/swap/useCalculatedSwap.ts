@@ -1,17 +1,5 @@
 import { useQuery } from '@tanstack/react-query';
-import {
-    isTon,
-    TonAsset,
-    TonAssetAddress
-} from '@tonkeeper/core/dist/entries/crypto/asset/ton-asset';
-import { AssetAmount } from '@tonkeeper/core/dist/entries/crypto/asset/asset-amount';
-import type { SwapService } from '@tonkeeper/core/dist/swapsApi';
-import { JettonsApi } from '@tonkeeper/core/dist/tonApiV2';
-import { TON_ASSET } from '@tonkeeper/core/dist/entries/crypto/asset/constants';
-import { packAssetId } from '@tonkeeper/core/dist/entries/crypto/asset/basic-asset';
-import { BLOCKCHAIN_NAME } from '@tonkeeper/core/dist/entries/crypto';
-import { Address } from '@ton/core';
-import { eqAddresses } from '@tonkeeper/core/dist/utils/address';
+import { TonAssetAddress } from '@tonkeeper/core/dist/entries/crypto/asset/ton-asset';
 import { useMemo } from 'react';
 import { useAppContext } from '../../hooks/appContext';
 import {
@@ -23,37 +11,10 @@ import {
 } from './useSwapForm';
 import { QueryKey } from '../../libs/queryKey';
 import { unShiftedDecimals } from '@tonkeeper/core/dist/utils/balance';
-import { APIConfig } from '@tonkeeper/core/dist/entries/apis';
 import { atom, useAtom } from '../../libs/atom';
 import { useSwapsConfig } from './useSwapsConfig';
-
-export type BasicCalculatedTrade = {
-    from: AssetAmount<TonAsset>;
-    to: AssetAmount<TonAsset>;
-    blockchainFee: AssetAmount<typeof TON_ASSET>;
-};
-
-export type DedustCalculatedTrade = BasicCalculatedTrade & {
-    path: TonAsset[];
-    rawTrade: unknown;
-};
-
-export type DedustCalculatedSwap = {
-    provider: 'dedust';
-    trade: DedustCalculatedTrade | null;
-};
-
-export type StonfiCalculatedTrade = BasicCalculatedTrade & {
-    path: TonAsset[];
-    rawTrade: unknown;
-};
-
-export type StonfiCalculatedSwap = {
-    provider: 'stonfi';
-    trade: StonfiCalculatedTrade | null;
-};
-
-export type CalculatedSwap = DedustCalculatedSwap | StonfiCalculatedSwap;
+import { CalculatedSwap } from './providers/swapProvider';
+import { useSwapProviders } from './providers/swapProvidersRegistry';
 
 export type CalculateTradeForm = {
     fromAddress: TonAssetAddress;
@@ -61,10 +22,6 @@ export type CalculateTradeForm = {
     amountWei: string;
 };
 
-const swapAssetsCache = new Map<TonAssetAddress, Promise<TonAsset>>();
-
-export const swapProviders = ['stonfi', 'dedust'] as const;
-
 const fetchedSwaps$ = atom<CalculatedSwap[]>([]);
 
 let calculationId = 0;
@@ -78,14 +35,18 @@ export function useCalculatedSwap() {
     const [fromAmountRelative] = useSwapFromAmount();
     const [_, setSelectedSwap] = useSelectedSwap();
     const isNotCompleted = useIsSwapFormNotCompleted();
-    const { swapService } = useSwapsConfig();
+    const swapProviders = useSwapProviders();
+
+    // sets swaps api base url used by the api backed providers
+    useSwapsConfig();
 
     const query = useQuery<CalculatedSwap[], Error>({
         queryKey: [
             QueryKey.swapCalculate,
             fromAsset.id,
             toAsset.id,
-            fromAmountRelative?.shiftedBy(fromAsset.decimals).toFixed(0)
+            fromAmountRelative?.shiftedBy(fromAsset.decimals).toFixed(0),
+            swapProviders.map(p => p.id)
         ],
         queryFn: async ({ signal }) => {
             setFetchedSwaps([]);
@@ -93,57 +54,51 @@ export function useCalculatedSwap() {
             calculationId = calculationId + 1;
             const currentCalulationId = calculationId;
 
-            if (isNotCompleted) {
+            if (isNotCompleted || swapProviders.length === 0) {
                 return [];
             }
 
-            addAssetToCache(fromAsset);
-            addAssetToCache(toAsset);
-
             const fromAmountWei = unShiftedDecimals(fromAmountRelative!, fromAsset.decimals);
 
             let totalFetchedSwaps: CalculatedSwap[] = [];
             return new Promise((res, rej) => {
                 let fetchedProvidersNumber = 0;
-                swapProviders.forEach(async provider => {
-                    try {
-                        const swapPromise = swapService.calculateSwap(
-                            toTradeAssetId(fromAsset.address),
-                            toTradeAssetId(toAsset.address),
-                            fromAmountWei.toFixed(0),
-                            provider
-                        );
 
-                        if (signal) {
-                            signal.onabort = () => swapPromise.cancel();
-                        }
+                const onProviderSwap = (swap: CalculatedSwap) => {
+                    totalFetchedSwaps = sortSwaps(totalFetchedSwaps.concat(swap));
+                    if (totalFetchedSwaps[0].trade) {
+                        setSelectedSwap(totalFetchedSwaps[0]);
+                    }
+                    setFetchedSwaps(s => sortSwaps([...s, swap]));
 
-                        const providerSwap = await swapPromise;
+                    fetchedProvidersNumber = fetchedProvidersNumber + 1;
+                    if (fetchedProvidersNumber === swapProviders.length) {
+                        res(totalFetchedSwaps);
+                    }
+                };
 
-                        const swap = await providerSwapToSwap(
-                            providerSwap,
+                swapProviders.forEach(async provider => {
+                    try {
+                        const trades = await provider.calculate({
                             api,
                             fromAsset,
-                            toAsset
-                        );
+                            toAsset,
+                            fromAmountWei: fromAmountWei.toFixed(0),
+                            signal
+                        });
 
                         if (currentCalulationId !== calculationId) {
                             rej(new Error('Calculation cancelled'));
                             return;
                         }
 
-                        const providerBestSwap = sortSwaps(swap)[0];
-
-                        totalFetchedSwaps = sortSwaps(totalFetchedSwaps.concat(providerBestSwap));
-                        if (totalFetchedSwaps[0].trade) {
-                            setSelectedSwap(totalFetchedSwaps[0]);
-                        }
-                        setFetchedSwaps(s => sortSwaps([...s, providerBestSwap]));
+                        const providerBestSwap = sortSwaps(
+                            trades.length
+                                ? trades.map(trade => ({ provider: provider.id, trade }))
+                                : [{ provider: provider.id, trade: null }]
+                        )[0];
 
-                        fetchedProvidersNumber = fetchedProvidersNumber + 1;
-                        if (fetchedProvidersNumber === swapProviders.length) {
-                            res(totalFetchedSwaps);
-                        }
+                        onProviderSwap(providerBestSwap);
                     } catch (e) {
                         if (currentCalulationId !== calculationId) {
                             rej(new Error('Calculation cancelled'));
@@ -151,20 +106,10 @@ export function useCalculatedSwap() {
                         }
 
                         console.error(e);
-                        const swap: CalculatedSwap = {
-                            provider,
+                        onProviderSwap({
+                            provider: provider.id,
                             trade: null
-                        };
-                        totalFetchedSwaps = sortSwaps(totalFetchedSwaps.concat(swap));
-                        if (totalFetchedSwaps[0].trade) {
-                            setSelectedSwap(totalFetchedSwaps[0]);
-                        }
-                        setFetchedSwaps(s => sortSwaps([...s, swap]));
-
-                        fetchedProvidersNumber = fetchedProvidersNumber + 1;
-                        if (fetchedProvidersNumber === swapProviders.length) {
-                            res(totalFetchedSwaps);
-                        }
+                        });
                     }
                 });
             });
@@ -181,14 +126,6 @@ export function useCalculatedSwap() {
     );
 }
 
-const toTradeAssetId = (address: TonAssetAddress) => {
-    return isTon(address) ? 'ton' : address.toRawString();
-};
-
-const fromTradeAssetId = (address: string): TonAssetAddress => {
-    return address === 'ton' ? 'TON' : Address.parse(address);
-};
-
 const sortSwaps = (swaps: CalculatedSwap[]) => {
     return swaps.slice().sort((a, b) => {
         if (!a.trade) {
@@ -202,117 +139,3 @@ const sortSwaps = (swaps: CalculatedSwap[]) => {
         return b.trade.to.weiAmount.comparedTo(a.trade.to.weiAmount);
     });
 };
-
-const providerSwapToSwap = async (
-    providerSwap: Awaited<ReturnType<typeof SwapService.calculateSwap>>,
-    api: APIConfig,
-    fromAsset: TonAsset,
-    toAsset: TonAsset
-): Promise<CalculatedSwap[]> => {
-    const assetsInfo = await getPathAssets(providerSwap.trades, api);
-
-    if (providerSwap.provider === 'dedust') {
-        if (providerSwap.trades.length === 0) {
-            return [
-                {
-                    provider: 'dedust',
-                    trade: null
-                }
-            ];
-        }
-
-        return providerSwap.trades.map(t => ({
-            provider: 'dedust',
-            trade: {
-                from: new AssetAmount({
-                    asset: fromAsset,
-                    weiAmount: t.fromAmount
-                }),
-                to: new AssetAmount({
-                    asset: toAsset,
-                    weiAmount: t.toAmount
-                }),
-                path: t.path.map(
-                    address =>
-                        assetsInfo.find(a => eqAddresses(a.address, fromTradeAssetId(address)))!
-                ),
-                blockchainFee: new AssetAmount({
-                    asset: TON_ASSET,
-                    weiAmount: t.blockchainFee
-                }),
-                rawTrade: t.dedustRawTrade
-            }
-        }));
-    }
-
-    if (providerSwap.provider === 'stonfi') {
-        const trade = providerSwap.trades[0];
-        if (!trade) {
-            return [{ provider: 'stonfi', trade: null }];
-        }
-        return [
-            {
-                provider: 'stonfi',
-                trade: {
-                    from: new AssetAmount({
-                        asset: fromAsset,
-                        weiAmount: trade.fromAmount
-                    }),
-                    to: new AssetAmount({
-                        asset: toAsset,
-                        weiAmount: trade.toAmount
-                    }),
-                    blockchainFee: new AssetAmount({
-                        asset: TON_ASSET,
-                        weiAmount: trade.blockchainFee
-                    }),
-                    rawTrade: trade.stonfiRawTrade,
-                    path: trade.path.map(
-                        address =>
-                            assetsInfo.find(a => eqAddresses(a.address, fromTradeAssetId(address)))!
-                    )
-                }
-            }
-        ];
-    }
-
-    return [];
-};
-
-const getPathAssets = async (trades: { path: string[] }[], api: APIConfig) => {
-    const addresses = trades.flatMap(trade => trade.path.map(fromTradeAssetId));
-
-    return Promise.all(addresses.map(address => getAsset(api, address)));
-};
-
-const addAssetToCache = (asset: TonAsset) => {
-    if (!swapAssetsCache.has(asset.address)) {
-        swapAssetsCache.set(asset.address, Promise.resolve(asset));
-    }
-};
-
-const getAsset = async (api: APIConfig, address: TonAssetAddress): Promise<TonAsset> => {
-    if (isTon(address)) {
-        return TON_ASSET;
-    }
-
-    if (swapAssetsCache.has(address)) {
-        return swapAssetsCache.get(address)!;
-    }
-
-    const tonapi = new JettonsApi(api.tonApiV2);
-    const p = tonapi.getJettonInfo({ accountId: address.toRawString() }).then(
-        response =>
-            ({
-                symbol: response.metadata.symbol,
-                decimals: Number(response.metadata.decimals),
-                name: response.metadata.name,
-                blockchain: BLOCKCHAIN_NAME.TON,
-                address,
-                id: packAssetId(BLOCKCHAIN_NAME.TON, address),
-                image: response.metadata.image
-            } as const)
-    );
-    swapAssetsCache.set(address, p);
-    return p;
-};
@@ -8,7 +8,7 @@ import { atom, useAtom } from '../../libs/atom';
 import { useQuery } from '@tanstack/react-query';
 import { QueryKey } from '../../libs/queryKey';
 import { useAssetWeiBalance } from '../home';
-import { CalculatedSwap } from './useCalculatedSwap';
+import { CalculatedSwap } from './providers/swapProvider';
 import { useRate } from '../rates';
 import { useSwapsConfig } from './useSwapsConfig';
 import { useCallback } from 'react';
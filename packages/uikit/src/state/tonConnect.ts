@@ -15,6 +15,7 @@ import {
 } from '@tonkeeper/core/dist/entries/tonConnect';
 import { subject } from '../libs/atom';
 import { getLastEventId } from '@tonkeeper/core/dist/service/tonConnect/httpBridge';
+import { getTonConnectBridges } from '@tonkeeper/core/dist/service/devStorage';
 import { useTranslation } from '../hooks/translation';
 import { useCheckTouchId } from './password';
 import {
@@ -24,7 +25,7 @@ import {
     toTonAddressItemReply,
     toTonProofItemReply
 } from '@tonkeeper/core/dist/service/tonConnect/connectService';
-import { signTonConnectOver } from './mnemonic';
+import { signTonProofOver } from './mnemonic';
 import { getServerTime } from '@tonkeeper/core/dist/service/transfer/common';
 import { isStandardTonWallet, TonWalletStandard } from '@tonkeeper/core/dist/entries/wallet';
 import { IStorage } from '@tonkeeper/core/dist/Storage';
@@ -84,7 +85,6 @@ export const useConnectTonConnectAppMutation = () => {
     const { t } = useTranslation();
     const { mutateAsync: checkTouchId } = useCheckTouchId();
     const network = useActiveTonNetwork();
-    const activeIsLedger = account.type === 'ledger';
 
     return useMutation<
         ConnectItemReply[],
@@ -108,10 +108,7 @@ export const useConnectTonConnectAppMutation = () => {
                 result.push(toTonAddressItemReply(wallet, network));
             }
             if (item.name === 'ton_proof') {
-                if (activeIsLedger) {
-                    throw new Error('Ledger doesnt support ton_proof');
-                }
-                const signTonConnect = signTonConnectOver(sdk, account.id, t, checkTouchId);
+                const signTonProof = signTonProofOver(sdk, account.id, wallet.id, t, checkTouchId);
                 const timestamp = await getServerTime(api);
                 const proof = tonConnectProofPayload(
                     timestamp,
@@ -122,20 +119,21 @@ export const useConnectTonConnectAppMutation = () => {
                 result.push(
                     await toTonProofItemReply({
                         storage: sdk.storage,
-                        account,
-                        signTonConnect,
+                        signTonProof,
                         proof
                     })
                 );
             }
         }
 
+        const [bridge] = await getTonConnectBridges(sdk.storage);
         await saveAccountConnection({
             storage: sdk.storage,
             wallet,
             manifest,
             params,
-            webViewUrl
+            webViewUrl,
+            bridgeUrl: webViewUrl ? undefined : bridge.url
         });
 
         if (sdk.notifications) {
@@ -181,6 +179,7 @@ export const useDisconnectTonConnectApp = (options?: { skipEmit?: boolean }) =>
                 await Promise.all(
                     accounts
                         .flatMap(a => a.allTonWallets)
+                        .filter(isStandardTonWallet)
                         .map(w => disconnectFromWallet(sdk.storage, connection, w))
                 )
             ).flat();
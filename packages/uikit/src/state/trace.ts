@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import { getTrace } from '@tonkeeper/core/dist/service/traceService';
+import { Trace } from '@tonkeeper/core/dist/tonApiV2';
+import { useAppContext } from '../hooks/appContext';
+import { QueryKey } from '../libs/queryKey';
+
+export const useTrace = (traceId: string | undefined) => {
+    const { api } = useAppContext();
+
+    return useQuery<Trace, Error>([QueryKey.trace, traceId], () => getTrace(api, traceId!), {
+        enabled: traceId !== undefined,
+        staleTime: Infinity
+    });
+};
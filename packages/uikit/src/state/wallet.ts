@@ -4,6 +4,7 @@ import {
     WalletVersion,
     WalletVersions,
     WalletId,
+    TonContract,
     TonWalletStandard,
     TonWalletConfig
 } from '@tonkeeper/core/dist/entries/wallet';
@@ -11,6 +12,7 @@ import {
     createStandardTonAccountByMnemonic,
     getWalletAddress
 } from '@tonkeeper/core/dist/service/walletService';
+import { walletNetworkGlobalId } from '@tonkeeper/core/dist/service/wallet/contractService';
 import { Account as TonapiAccount, AccountsApi } from '@tonkeeper/core/dist/tonApiV2';
 import { useAppContext } from '../hooks/appContext';
 import { useAppSdk } from '../hooks/appSdk';
@@ -22,6 +24,7 @@ import { mnemonicValidate } from '@ton/crypto';
 import { getPasswordByNotification } from './mnemonic';
 import { encrypt } from '@tonkeeper/core/dist/service/cryptoService';
 import { Network } from '@tonkeeper/core/dist/entries/network';
+import { getActiveNetworkProfile } from '@tonkeeper/core/dist/service/devStorage';
 import { useDevSettings } from './dev';
 import { AuthKeychain } from '@tonkeeper/core/dist/entries/password';
 import {
@@ -34,7 +37,8 @@ import {
     AccountsState,
     AccountTonMnemonic,
     getAccountByWalletById,
-    getWalletById
+    getWalletById,
+    isAccountTonWalletStandard
 } from '@tonkeeper/core/dist/entries/account';
 
 export const useActiveAccountQuery = () => {
@@ -72,6 +76,17 @@ export const useActiveStandardTonWallet = () => {
     return wallet;
 };
 
+/**
+ * Throws for watch only accounts, use only in flows unavailable for them
+ */
+export const useActiveTonWalletStandardAccount = () => {
+    const account = useActiveAccount();
+    if (!isAccountTonWalletStandard(account)) {
+        throw new Error('Account cannot sign transactions');
+    }
+    return account;
+};
+
 export const useMutateActiveAccount = () => {
     const storage = useAccountsStorage();
     const client = useQueryClient();
@@ -170,7 +185,7 @@ export const useAccountState = (id: AccountId | undefined) => {
 
 export const useAccountAndWalletByWalletId = (
     id: WalletId
-): { account: Account | undefined; wallet: TonWalletStandard | undefined } => {
+): { account: Account | undefined; wallet: TonContract | undefined } => {
     const accounts = useAccountsState();
     return useMemo(() => {
         return {
@@ -270,6 +285,7 @@ export const useCreateAccountMnemonic = () => {
 export const useAddTonWalletVersionToAccount = () => {
     const accountsStore = useAccountsStorage();
     const client = useQueryClient();
+    const { api } = useAppContext();
 
     return useMutation<
         TonWalletStandard,
@@ -280,13 +296,17 @@ export const useAddTonWalletVersionToAccount = () => {
         }
     >(async ({ accountId, version }) => {
         const account = (await accountsStore.getAccount(accountId))!;
+        if (!isAccountTonWalletStandard(account)) {
+            throw new Error('Account does not support wallet versions');
+        }
         const publicKey = account.activeTonWallet.publicKey;
-        const w = getWalletAddress(publicKey, version);
+        const w = getWalletAddress(publicKey, version, undefined, api.networkGlobalId);
         const wallet: TonWalletStandard = {
             id: w.address.toRawString(),
             rawAddress: w.address.toRawString(),
             version,
-            publicKey
+            publicKey,
+            networkGlobalId: walletNetworkGlobalId(version, api.networkGlobalId)
         };
 
         account.addTonWalletToActiveDerivation(wallet);
@@ -398,7 +418,11 @@ export const useWalletAccountInfo = () => {
 };
 
 export const useActiveTonNetwork = () => {
-    return useDevSettings().data?.tonNetwork || Network.MAINNET;
+    const { data: devSettings } = useDevSettings();
+    if (!devSettings) {
+        return Network.MAINNET;
+    }
+    return getActiveNetworkProfile(devSettings)?.network ?? devSettings.tonNetwork;
 };
 
 export const useActiveTonWalletConfig = () => {
@@ -435,12 +459,14 @@ export const useStandardTonWalletVersions = (publicKey?: string) => {
     const network = useActiveTonNetwork();
 
     return useQuery(
-        [QueryKey.walletVersions, publicKey, network],
+        [QueryKey.walletVersions, publicKey, network, api.networkGlobalId],
         async () => {
             if (!publicKey) {
                 return undefined;
             }
-            const versions = WalletVersions.map(v => getWalletAddress(publicKey, v, network));
+            const versions = WalletVersions.map(v =>
+                getWalletAddress(publicKey, v, network, api.networkGlobalId)
+            );
 
             const response = await new AccountsApi(api.tonApiV2).getAccounts({
                 getAccountsRequest: { accountIds: versions.map(v => v.address.toRawString()) }
@@ -0,0 +1,41 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAccountTonWalletStandard } from '@tonkeeper/core/dist/entries/account';
+import { accountByWatchOnlyAddress } from '@tonkeeper/core/dist/service/walletService';
+import { useNavigate } from 'react-router-dom';
+import { useAppContext } from '../hooks/appContext';
+import { useAppSdk } from '../hooks/appSdk';
+import { useAccountsStorage } from '../hooks/useStorage';
+import { QueryKey } from '../libs/queryKey';
+import { AppRoute } from '../libs/routes';
+import { useActiveAccount } from './wallet';
+
+export const useAddWatchOnlyAccountMutation = () => {
+    const sdk = useAppSdk();
+    const accountsStorage = useAccountsStorage();
+    const { api } = useAppContext();
+    const client = useQueryClient();
+    const navigate = useNavigate();
+
+    return useMutation<void, Error, { address: string; name?: string }>(
+        async ({ address, name }) => {
+            const newAccount = await accountByWatchOnlyAddress(api, sdk.storage, address, name);
+            const existingAccount = await accountsStorage.getAccount(newAccount.id);
+            if (!existingAccount) {
+                await accountsStorage.addAccountToState(newAccount);
+            }
+            await accountsStorage.setActiveAccountId(newAccount.id);
+
+            await client.invalidateQueries([QueryKey.account]);
+
+            navigate(AppRoute.home);
+        }
+    );
+};
+
+/**
+ * Multisig accounts are read-only the same way, their transfers are proposed as orders by the host wallets
+ */
+export const useIsActiveAccountWatchOnly = () => {
+    const account = useActiveAccount();
+    return !isAccountTonWalletStandard(account);
+};